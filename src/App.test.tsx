@@ -0,0 +1,157 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+
+import App from "./App";
+import { setSession, type AuthUser } from "@/lib/authentication";
+
+/**
+ * Route-guard tests: every page is replaced by a stub that renders its own
+ * name, so only the route table and RequireRole redirects in App.tsx run.
+ */
+vi.mock("./pages/landing", () => ({ default: () => "LandingPage" }));
+vi.mock("./pages/auth/auth", () => ({ default: () => "AuthPage" }));
+vi.mock("./pages/auth/forgot-password", () => ({ default: () => "ForgotPasswordPage" }));
+vi.mock("./pages/auth/reset-password", () => ({ default: () => "ResetPasswordPage" }));
+vi.mock("./pages/auth/verify-email", () => ({ default: () => "VerifyEmailPage" }));
+vi.mock("./pages/auth/callback", () => ({ default: () => "AuthCallbackPage" }));
+vi.mock("./pages/dashboard/admin/overview", () => ({ default: () => "AdminOverview" }));
+vi.mock("./pages/dashboard/admin/user", () => ({ default: () => "AdminUsersPage" }));
+vi.mock("./pages/dashboard/admin/analytics", () => ({ default: () => "AdminAnalytics" }));
+vi.mock("./pages/dashboard/admin/message", () => ({ default: () => "AdminMessages" }));
+vi.mock("./pages/dashboard/admin/settings", () => ({ default: () => "AdminSettings" }));
+vi.mock("./pages/dashboard/counselor/overview", () => ({ default: () => "CounselorOverview" }));
+vi.mock("./pages/dashboard/counselor/intake", () => ({ default: () => "CounselorIntake" }));
+vi.mock("./pages/dashboard/counselor/appointments", () => ({ default: () => "CounselorAppointments" }));
+vi.mock("./pages/dashboard/counselor/messages", () => ({ default: () => "CounselorMessages" }));
+vi.mock("./pages/dashboard/counselor/settings", () => ({ default: () => "CounselorSettings" }));
+vi.mock("./pages/dashboard/counselor/users", () => ({ default: () => "CounselorUsers" }));
+vi.mock("./pages/dashboard/counselor/analytics", () => ({ default: () => "CounselorAnalytics" }));
+vi.mock("./pages/dashboard/counselor/referrals", () => ({ default: () => "CounselorReferrals" }));
+vi.mock("./pages/dashboard/counselor/referral-details", () => ({ default: () => "CounselorReferralDetails" }));
+vi.mock("./pages/dashboard/counselor/case-load", () => ({ default: () => "CounselorCaseLoad" }));
+vi.mock("./pages/dashboard/counselor/assessment-score-input", () => ({ default: () => "CounselorAssessmentScoreInput" }));
+vi.mock("./pages/dashboard/counselor/assessment-report", () => ({ default: () => "CounselorAssessmentReport" }));
+vi.mock("./pages/dashboard/counselor/student-trend", () => ({ default: () => "CounselorStudentTrend" }));
+vi.mock("./pages/dashboard/counselor/availability", () => ({ default: () => "CounselorAvailability" }));
+vi.mock("./pages/dashboard/counselor/calendar", () => ({ default: () => "CounselorCalendar" }));
+vi.mock("./pages/dashboard/counselor/group-sessions", () => ({ default: () => "CounselorGroupSessions" }));
+vi.mock("./pages/dashboard/student/group-sessions", () => ({ default: () => "StudentGroupSessions" }));
+vi.mock("./pages/dashboard/referral-user/overview", () => ({ default: () => "ReferralUserOverview" }));
+vi.mock("./pages/dashboard/referral-user/messages", () => ({ default: () => "ReferralUserMessages" }));
+vi.mock("./pages/dashboard/referral-user/referrals", () => ({ default: () => "ReferralUserReferrals" }));
+vi.mock("./pages/dashboard/referral-user/settings", () => ({ default: () => "ReferralUserSettings" }));
+vi.mock("./pages/dashboard/student/overview", () => ({ default: () => "StudentOverview" }));
+vi.mock("./pages/dashboard/student/intake", () => ({ default: () => "StudentIntake" }));
+vi.mock("./pages/dashboard/student/evaluation", () => ({ default: () => "StudentEvaluation" }));
+vi.mock("./pages/dashboard/student/messages", () => ({ default: () => "StudentMessages" }));
+vi.mock("./pages/dashboard/student/settings", () => ({ default: () => "StudentSettings" }));
+vi.mock("./pages/404", () => ({ default: () => "NotFoundPage" }));
+vi.mock("./components/ui/sonner", () => ({ Toaster: () => null }));
+
+type RoleCase = {
+  role: string;
+  home: string;
+  homePage: string;
+  settingsPage: string;
+};
+
+const ROLES: RoleCase[] = [
+  { role: "admin", home: "/dashboard/admin", homePage: "AdminOverview", settingsPage: "AdminSettings" },
+  { role: "counselor", home: "/dashboard/counselor", homePage: "CounselorOverview", settingsPage: "CounselorSettings" },
+  { role: "student", home: "/dashboard/student", homePage: "StudentOverview", settingsPage: "StudentSettings" },
+  { role: "guest", home: "/dashboard/student", homePage: "StudentOverview", settingsPage: "StudentSettings" },
+  {
+    role: "referral_user",
+    home: "/dashboard/referral-user/overview",
+    homePage: "ReferralUserOverview",
+    settingsPage: "ReferralUserSettings",
+  },
+  { role: "dean", home: "/dashboard/referral-user/overview", homePage: "ReferralUserOverview", settingsPage: "ReferralUserSettings" },
+];
+
+/** One page per dashboard area, and who may open it. */
+const AREA_PAGES: Array<{ path: string; page: string; roles: string[] }> = [
+  { path: "/dashboard/admin", page: "AdminOverview", roles: ["admin"] },
+  { path: "/dashboard/admin/messages", page: "AdminMessages", roles: ["admin"] },
+  { path: "/dashboard/counselor", page: "CounselorOverview", roles: ["counselor"] },
+  { path: "/dashboard/counselor/case-load", page: "CounselorCaseLoad", roles: ["counselor"] },
+  { path: "/dashboard/counselor/referrals/12", page: "CounselorReferralDetails", roles: ["counselor"] },
+  { path: "/dashboard/student", page: "StudentOverview", roles: ["student", "guest"] },
+  { path: "/dashboard/student/intake", page: "StudentIntake", roles: ["student", "guest"] },
+  { path: "/dashboard/referral-user/overview", page: "ReferralUserOverview", roles: ["referral_user", "dean"] },
+  { path: "/dashboard/referral-user/referrals", page: "ReferralUserReferrals", roles: ["referral_user", "dean"] },
+];
+
+function signIn(role: string, overrides: Partial<AuthUser> = {}) {
+  setSession({
+    user: { id: 1, email: `${role}@jrmsu.test`, role, email_verified_at: "2026-01-01T00:00:00Z", ...overrides },
+    token: "token",
+  });
+}
+
+function renderAt(path: string) {
+  window.history.replaceState(null, "", path);
+  render(<App />);
+}
+
+describe("App routes", () => {
+  describe.each(ROLES)("$role", ({ role, home, homePage, settingsPage }) => {
+    it.each(AREA_PAGES)("$path", async ({ path, page, roles }) => {
+      signIn(role);
+      renderAt(path);
+
+      if (roles.includes(role)) {
+        expect(await screen.findByText(page)).toBeTruthy();
+        expect(window.location.pathname).toBe(path);
+      } else {
+        expect(await screen.findByText(homePage)).toBeTruthy();
+        expect(window.location.pathname).toBe(home);
+      }
+    });
+
+    it("opens its own dashboard from /dashboard", async () => {
+      signIn(role);
+      renderAt("/dashboard");
+
+      expect(await screen.findByText(homePage)).toBeTruthy();
+      expect(window.location.pathname).toBe(home);
+    });
+
+    it("opens its own settings from /dashboard/settings", async () => {
+      signIn(role);
+      renderAt("/dashboard/settings");
+
+      expect(await screen.findByText(settingsPage)).toBeTruthy();
+    });
+  });
+
+  it("sends signed-out visitors to the login page", async () => {
+    renderAt("/dashboard/counselor");
+
+    expect(await screen.findByText("AuthPage")).toBeTruthy();
+    expect(window.location.pathname).toBe("/auth");
+  });
+
+  it("sends unverified accounts to email verification", async () => {
+    signIn("student", { email_verified_at: null });
+    renderAt("/dashboard/student");
+
+    expect(await screen.findByText("VerifyEmailPage")).toBeTruthy();
+    expect(window.location.pathname).toBe("/auth/verify-email");
+    expect(window.location.search).toBe("?email=student%40jrmsu.test");
+  });
+
+  it("redirects the legacy referral details link", async () => {
+    signIn("counselor");
+    renderAt("/dashboard/counselor/referral-details?id=12");
+
+    expect(await screen.findByText("CounselorReferralDetails")).toBeTruthy();
+    expect(window.location.pathname).toBe("/dashboard/counselor/referrals/12");
+  });
+
+  it("shows the 404 page for unknown paths", async () => {
+    renderAt("/nowhere");
+
+    expect(await screen.findByText("NotFoundPage")).toBeTruthy();
+  });
+});
@@ -41,6 +41,19 @@ import CounselorAssessmentScoreInput from "./pages/dashboard/counselor/assessmen
 // ✅ NEW: Assessment report page (Counselor)
 import CounselorAssessmentReport from "./pages/dashboard/counselor/assessment-report";
 
+// ✅ NEW: Per-student assessment trend (Counselor)
+import CounselorStudentTrend from "./pages/dashboard/counselor/student-trend";
+
+// ✅ NEW: Weekly availability, holidays & blocked times (Counselor)
+import CounselorAvailability from "./pages/dashboard/counselor/availability";
+
+// ✅ NEW: Day / week / month calendar of appointments & referral sessions (Counselor)
+import CounselorCalendar from "./pages/dashboard/counselor/calendar";
+
+// ✅ NEW: Group counseling sessions & workshops (Counselor + Student)
+import CounselorGroupSessions from "./pages/dashboard/counselor/group-sessions";
+import StudentGroupSessions from "./pages/dashboard/student/group-sessions";
+
 // ✅ Referral-user pages
 import ReferralUserOverview from "./pages/dashboard/referral-user/overview";
 import ReferralUserMessages from "./pages/dashboard/referral-user/messages";
@@ -324,6 +337,30 @@ function App() {
               </RequireRole>
             }
           />
+          <Route
+            path="/dashboard/counselor/calendar"
+            element={
+              <RequireRole allowedRoles={["counselor", "counsellor"]}>
+                <CounselorCalendar />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/dashboard/counselor/availability"
+            element={
+              <RequireRole allowedRoles={["counselor", "counsellor"]}>
+                <CounselorAvailability />
+              </RequireRole>
+            }
+          />
+          <Route
+            path="/dashboard/counselor/group-sessions"
+            element={
+              <RequireRole allowedRoles={["counselor", "counsellor"]}>
+                <CounselorGroupSessions />
+              </RequireRole>
+            }
+          />
           <Route
             path="/dashboard/counselor/messages"
             element={
@@ -393,6 +430,16 @@ function App() {
             }
           />
 
+          {/* ✅ Counselor per-student assessment trend */}
+          <Route
+            path="/dashboard/counselor/students/:id/trend"
+            element={
+              <RequireRole allowedRoles={["counselor", "counsellor"]}>
+                <CounselorStudentTrend />
+              </RequireRole>
+            }
+          />
+
           <Route
             path="/dashboard/counselor/users"
             element={
@@ -494,6 +541,14 @@ function App() {
               </RequireRole>
             }
           />
+          <Route
+            path="/dashboard/student/group-sessions"
+            element={
+              <RequireRole allowedRoles={["student", "guest"]}>
+                <StudentGroupSessions />
+              </RequireRole>
+            }
+          />
           <Route
             path="/dashboard/student/settings"
             element={
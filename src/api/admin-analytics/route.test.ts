@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { getAdminAnalyticsApi } from "@/api/admin-analytics/route";
+import { stubApi } from "@/test/api-stub";
+
+describe("getAdminAnalyticsApi", () => {
+    it("sends the date range and normalizes the counts", async () => {
+        const api = stubApi({
+            this_month_count: "4",
+            this_semester_count: 12,
+            range: { start_date: "2026-06-01", end_date: "2026-10-31" },
+            monthly_counts: [{ year: "2026", month: "9", count: "3" }, { year: 2026, month: 10, count: null }],
+        });
+
+        const res = await getAdminAnalyticsApi({ start_date: "2026-06-01", end_date: "2026-10-31" });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/admin/analytics",
+            query: { start_date: "2026-06-01", end_date: "2026-10-31" },
+        });
+        expect(res).toEqual({
+            message: undefined,
+            this_month_count: 4,
+            this_semester_count: 12,
+            range: { start_date: "2026-06-01", end_date: "2026-10-31" },
+            monthly_counts: [
+                { year: 2026, month: 9, count: 3 },
+                { year: 2026, month: 10, count: 0 },
+            ],
+        });
+    });
+
+    it("omits blank filters and defaults missing fields", async () => {
+        const api = stubApi({});
+
+        const res = await getAdminAnalyticsApi();
+
+        expect(api.last().query).toEqual({});
+        expect(res).toMatchObject({ this_month_count: 0, this_semester_count: 0, monthly_counts: [] });
+    });
+});
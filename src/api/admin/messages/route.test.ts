@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    createAdminMessageApi,
+    deleteAdminConversationApi,
+    deleteAdminMessageApi,
+    getAdminConversationMessagesApi,
+    getAdminConversationsApi,
+    getMessageRevisionsApi,
+    searchAdminMessagesApi,
+    updateAdminMessageApi,
+} from "@/api/admin/messages/route";
+import { stubApi } from "@/test/api-stub";
+
+const rawMessage = {
+    id: 31,
+    conversationId: 9,
+    body: "See you tomorrow",
+    createdAt: "2026-10-19T08:00:00Z",
+    sender_role: "counselor",
+    sender_user: { id: 2, name: "Ms. Reyes", role: "counselor" },
+    recipient_role: "student",
+    recipient_user: { id: 4, name: "Ana Cruz", role: "student" },
+    read_by_admin: 0,
+    revisions_count: 1,
+};
+
+describe("admin conversations", () => {
+    it("lists conversations with unread counts and pagination", async () => {
+        const api = stubApi({
+            data: [{ id: 9, lastMessage: rawMessage, unread_messages: "3" }],
+            pagination: { current_page: 1, per_page: 20, total: 1, last_page: 1 },
+        });
+
+        const res = await getAdminConversationsApi({ page: 1, per_page: 20, search: "Ana" });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/admin/messages",
+            query: { page: "1", per_page: "20", search: "Ana" },
+        });
+        expect(res.conversations[0]).toMatchObject({
+            conversation_id: 9,
+            unread_count: 3,
+            last_message: {
+                id: 31,
+                content: "See you tomorrow",
+                sender: "counselor",
+                sender_id: 2,
+                sender_name: "Ms. Reyes",
+                recipient_id: 4,
+                recipient_name: "Ana Cruz",
+                admin_is_read: false,
+                revision_count: 1,
+            },
+        });
+        expect(res.pagination).toEqual({ current_page: 1, per_page: 20, total: 1, last_page: 1 });
+    });
+
+    it("loads one conversation's messages", async () => {
+        const api = stubApi({ messages: [rawMessage] });
+
+        const res = await getAdminConversationMessagesApi(9, { page: 2 });
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/admin/messages/conversations/9", query: { page: "2" } });
+        expect(res).toMatchObject({
+            conversation_id: 9,
+            deleted_at: null,
+            pagination: { current_page: 1, per_page: 1, total: 1, last_page: 1 },
+        });
+        expect(res.messages.map((m) => m.id)).toEqual([31]);
+    });
+
+    it("deletes a conversation, forced only on request", async () => {
+        const api = stubApi({ conversation_id: 9, deleted_at: "2026-10-19T09:00:00Z" });
+
+        await deleteAdminConversationApi(9);
+        await deleteAdminConversationApi(9, { force: true });
+
+        expect(api.requests[0]).toMatchObject({ method: "DELETE", path: "/admin/messages/conversations/9", query: { force: "0" } });
+        expect(api.requests[1].query).toEqual({ force: "1" });
+    });
+});
+
+describe("admin messages", () => {
+    it("sends a message and normalizes the record", async () => {
+        const api = stubApi({ message: "Sent", data: rawMessage });
+        const payload = { content: "Hello", recipient_role: "student", recipient_id: 4 };
+
+        const res = await createAdminMessageApi(payload);
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/admin/messages", body: payload });
+        expect(res.message).toBe("Sent");
+        expect(res.messageRecord).toMatchObject({ id: 31, content: "See you tomorrow", conversation_id: 9 });
+    });
+
+    it("searches every conversation", async () => {
+        const api = stubApi({ data: [rawMessage], meta: { current_page: 1, per_page: 20, total: 1, last_page: 1 } });
+
+        const res = await searchAdminMessagesApi({ q: "tomorrow", sender_role: "counselor", conversation_id: 9 });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/admin/messages/search",
+            query: { q: "tomorrow", sender_role: "counselor", conversation_id: "9" },
+        });
+        expect(res.messages[0].id).toBe(31);
+        expect(res.pagination.per_page).toBe(20);
+    });
+
+    it("edits a message", async () => {
+        const api = stubApi({ data: { id: 31, content: "See you at 9" } });
+
+        const res = await updateAdminMessageApi(31, { content: "See you at 9" });
+
+        expect(api.last()).toMatchObject({ method: "PATCH", path: "/admin/messages/31", body: { content: "See you at 9" } });
+        expect(res.data.content).toBe("See you at 9");
+    });
+
+    it("deletes a message, keeping the placeholder", async () => {
+        const api = stubApi({ messageRecord: { ...rawMessage, deletedAt: "2026-10-19T09:00:00Z" } });
+
+        const res = await deleteAdminMessageApi(31);
+
+        expect(api.last()).toMatchObject({ method: "DELETE", path: "/admin/messages/31" });
+        expect(res.id).toBe(31);
+        expect(res.messageRecord).toMatchObject({ id: 31, deleted_at: "2026-10-19T09:00:00Z" });
+    });
+
+    it("lists a message's revisions", async () => {
+        const api = stubApi({
+            revisions: [
+                {
+                    id: 1,
+                    messageId: 31,
+                    action: "edited",
+                    old_content: "See you tomorrow",
+                    new_content: "See you at 9",
+                    actor: { id: 2, name: "Ms. Reyes", role: "counselor" },
+                    createdAt: "2026-10-19T08:05:00Z",
+                },
+            ],
+        });
+
+        const res = await getMessageRevisionsApi(31);
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/admin/messages/31/revisions" });
+        expect(res).toEqual({
+            message: undefined,
+            message_id: 31,
+            revisions: [
+                {
+                    id: 1,
+                    message_id: 31,
+                    action: "edited",
+                    previous_content: "See you tomorrow",
+                    content: "See you at 9",
+                    actor_id: 2,
+                    actor_name: "Ms. Reyes",
+                    actor_role: "counselor",
+                    created_at: "2026-10-19T08:05:00Z",
+                },
+            ],
+        });
+    });
+});
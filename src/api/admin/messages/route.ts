@@ -1,20 +1,26 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
+import { apiFetch, type ApiError } from "@/api/client";
+import { defineSchema, optional, parseDto, parseDtoList, required, t } from "@/api/schema";
+import {
+    messageAttachmentSchema,
+    toMessageSearchParams,
+    type MessageAttachmentDto,
+    type MessageSearchQuery,
+} from "@/api/messages/route";
 
 /**
  * Admin Messages API
  * - GET    /admin/messages
  * - POST   /admin/messages                 ✅ NEW (send)
+ * - GET    /admin/messages/search           ✅ NEW (full-text search, every conversation)
  * - GET    /admin/messages/conversations/{conversationId}
  * - DELETE /admin/messages/conversations/{conversationId}?force=0|1
  * - PATCH  /admin/messages/{id}
  * - DELETE /admin/messages/{id}
+ * - GET    /admin/messages/{id}/revisions  ✅ NEW (edit / delete audit trail)
  */
 
-export interface AdminMessagesApiError extends Error {
-    status?: number;
-    data?: unknown;
-}
+export type AdminMessagesApiError = ApiError;
 
 export interface AdminPaginationDto {
     current_page: number;
@@ -25,11 +31,15 @@ export interface AdminPaginationDto {
 
 export interface AdminMessageDto {
     id: number | string;
-    conversation_id?: number | string;
+    conversation_id?: number | string | null;
 
     content: string;
     created_at: string;
-    updated_at?: string;
+    updated_at?: string | null;
+    edited_at?: string | null;
+    deleted_at?: string | null;
+    /** Entries in the revision log (edits and deletes) */
+    revision_count?: number | null;
 
     sender: string;
     sender_id?: number | string | null;
@@ -51,17 +61,80 @@ export interface AdminMessageDto {
     owner_role?: string | null;
     owner_avatar_url?: string | null;
 
-    is_read?: boolean | number;
-    counselor_is_read?: boolean | number;
+    is_read?: boolean | number | null;
+    /** Read state from the admin's side (older backends name it differently) */
+    admin_is_read?: boolean | null;
+    counselor_is_read?: boolean | number | null;
     student_read_at?: string | null;
     counselor_read_at?: string | null;
 
-    [key: string]: unknown;
+    /** Same records participants see (scan status + signed URL) */
+    attachments?: MessageAttachmentDto[] | null;
 }
 
+export const adminMessageSchema = defineSchema<AdminMessageDto>("AdminMessageDto", {
+    id: required(t.id, ""),
+    conversation_id: optional(t.id, ["conversationId"]),
+
+    content: required(t.string, "", ["body"]),
+    created_at: required(t.string, new Date(0).toISOString(), ["createdAt"]),
+    updated_at: optional(t.string, ["updatedAt"]),
+    edited_at: optional(t.string, ["editedAt"]),
+    deleted_at: optional(t.string, ["deletedAt"]),
+    revision_count: optional(t.number, ["revisions_count"]),
+
+    sender: required(t.string, "system", ["sender_role"]),
+    sender_id: optional(t.id, ["sender_user.id"]),
+    sender_name: optional(t.string, ["sender_user.name"]),
+    sender_email: optional(t.string, ["sender_user.email"]),
+    sender_role: optional(t.string, ["sender_user.role"]),
+    sender_avatar_url: optional(t.string, ["sender_user.avatar_url"]),
+
+    recipient_id: optional(t.id, ["recipient_user.id"]),
+    recipient_role: optional(t.string),
+    recipient_name: optional(t.string, ["recipient_user.name"]),
+    recipient_email: optional(t.string, ["recipient_user.email"]),
+    recipient_user_role: optional(t.string, ["recipient_user.role"]),
+    recipient_avatar_url: optional(t.string, ["recipient_user.avatar_url"]),
+
+    owner_user_id: optional(t.id, ["user_id", "owner.id"]),
+    owner_name: optional(t.string, ["owner.name"]),
+    owner_email: optional(t.string, ["owner.email"]),
+    owner_role: optional(t.string, ["owner.role"]),
+    owner_avatar_url: optional(t.string, ["owner.avatar_url"]),
+
+    is_read: optional(t.boolean),
+    admin_is_read: optional(t.boolean, ["is_read_by_admin", "read_by_admin", "admin_read"]),
+    counselor_is_read: optional(t.boolean),
+    student_read_at: optional(t.string),
+    counselor_read_at: optional(t.string),
+
+    attachments: optional(t.array(t.object(messageAttachmentSchema))),
+});
+
 export interface AdminConversationDto {
     conversation_id: number | string;
     last_message: AdminMessageDto;
+    unread_count?: number | null;
+}
+
+export const adminConversationSchema = defineSchema<AdminConversationDto>("AdminConversationDto", {
+    conversation_id: required(t.id, "", ["id", "last_message.conversation_id"]),
+    last_message: required(
+        t.object(adminMessageSchema),
+        { id: "", content: "", created_at: new Date(0).toISOString(), sender: "system" },
+        ["lastMessage"],
+    ),
+    unread_count: optional(t.number, ["unreadCount", "unread_messages", "unreadMessages"]),
+});
+
+function toPagination(raw: any, fallbackCount: number): AdminPaginationDto {
+    return {
+        current_page: Number(raw?.current_page ?? 1) || 1,
+        per_page: Number(raw?.per_page ?? fallbackCount) || fallbackCount,
+        total: Number(raw?.total ?? fallbackCount) || 0,
+        last_page: Number(raw?.last_page ?? 1) || 1,
+    };
 }
 
 export interface GetAdminConversationsResponseDto {
@@ -93,6 +166,64 @@ export interface UpdateAdminMessageResponseDto {
     };
 }
 
+export interface DeleteAdminMessageResponseDto {
+    message?: string;
+    id: number | string;
+    /** The "deleted" placeholder that stays in the thread */
+    messageRecord?: AdminMessageDto;
+}
+
+/**
+ * ✅ NEW: One entry of a message's revision log. Entries are never changed or
+ * removed; `previous_content` is the text before the change.
+ */
+export interface MessageRevisionDto {
+    id: number | string;
+    message_id: number | string;
+    action: "edited" | "deleted" | string;
+    previous_content: string;
+    /** Text after an edit (null for deletes) */
+    content: string | null;
+    actor_id: number | string | null;
+    actor_name: string | null;
+    actor_role: string | null;
+    created_at: string;
+}
+
+export const messageRevisionSchema = defineSchema<MessageRevisionDto>("MessageRevisionDto", {
+    id: required(t.id, ""),
+    message_id: required(t.id, "", ["messageId"]),
+    action: required(t.string, "edited"),
+    previous_content: required(t.string, "", ["previousContent", "old_content"]),
+    content: optional(t.string, ["new_content"]),
+    actor_id: optional(t.id, ["actorId", "actor.id"]),
+    actor_name: optional(t.string, ["actorName", "actor.name"]),
+    actor_role: optional(t.string, ["actorRole", "actor.role"]),
+    created_at: required(t.string, new Date(0).toISOString(), ["createdAt"]),
+});
+
+export interface GetMessageRevisionsResponseDto {
+    message?: string;
+    message_id: number | string;
+    /** Oldest first */
+    revisions: MessageRevisionDto[];
+}
+
+/**
+ * ✅ NEW: Search filters (admins search every conversation, so the conversation
+ * filter is the backend conversation id instead of a peer)
+ */
+export interface AdminMessageSearchQuery extends Omit<MessageSearchQuery, "peer_id"> {
+    conversation_id?: number | string;
+}
+
+export interface SearchAdminMessagesResponseDto {
+    message?: string;
+    /** Newest first; `conversation_id` opens the thread */
+    messages: AdminMessageDto[];
+    pagination: AdminPaginationDto;
+}
+
 /**
  * ✅ NEW: Create (send) admin message
  * (admin can send to any user by role + id)
@@ -113,70 +244,6 @@ export interface CreateAdminMessageResponseDto {
     [key: string]: unknown;
 }
 
-function resolveAdminMessagesApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
-async function adminMessagesApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveAdminMessagesApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as AdminMessagesApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
-
-function buildQuery(params: Record<string, unknown>): string {
-    const qs = new URLSearchParams();
-    Object.entries(params).forEach(([k, v]) => {
-        if (v === undefined || v === null) return;
-        const s = String(v).trim();
-        if (!s) return;
-        qs.set(k, s);
-    });
-    const out = qs.toString();
-    return out ? `?${out}` : "";
-}
-
 /**
  * GET /admin/messages
  */
@@ -185,15 +252,31 @@ export async function getAdminConversationsApi(args?: {
     per_page?: number;
     search?: string;
 }): Promise<GetAdminConversationsResponseDto> {
-    const query = buildQuery({
-        page: args?.page,
-        per_page: args?.per_page,
-        search: args?.search,
+    const json = await apiFetch<any>("/admin/messages", {
+        method: "GET",
+        query: {
+            page: args?.page,
+            per_page: args?.per_page,
+            search: args?.search,
+        },
     });
 
-    return adminMessagesApiFetch<GetAdminConversationsResponseDto>(`/admin/messages${query}`, {
+    const conversations = parseDtoList(adminConversationSchema, json?.conversations ?? json?.data ?? [], "conversations");
+    return { message: json?.message, conversations, pagination: toPagination(json?.pagination, conversations.length) };
+}
+
+/**
+ * ✅ NEW
+ * GET /admin/messages/search?q=&sender_role=&from=&to=&conversation_id=&page=
+ */
+export async function searchAdminMessagesApi(query: AdminMessageSearchQuery): Promise<SearchAdminMessagesResponseDto> {
+    const json = await apiFetch<any>("/admin/messages/search", {
         method: "GET",
+        query: { ...toMessageSearchParams(query), conversation_id: query.conversation_id ?? undefined },
     });
+
+    const messages = parseDtoList(adminMessageSchema, json?.messages ?? json?.data ?? [], "messages");
+    return { message: json?.message, messages, pagination: toPagination(json?.pagination ?? json?.meta, messages.length) };
 }
 
 /**
@@ -203,10 +286,13 @@ export async function getAdminConversationsApi(args?: {
 export async function createAdminMessageApi(
     payload: CreateAdminMessagePayload,
 ): Promise<CreateAdminMessageResponseDto> {
-    return adminMessagesApiFetch<CreateAdminMessageResponseDto>(`/admin/messages`, {
+    const json = await apiFetch<any>(`/admin/messages`, {
         method: "POST",
         body: JSON.stringify(payload),
     });
+
+    const raw = json?.messageRecord ?? json?.data ?? json?.record;
+    return raw ? { ...json, messageRecord: parseDto(adminMessageSchema, raw, "messageRecord") } : json;
 }
 
 /**
@@ -217,15 +303,22 @@ export async function getAdminConversationMessagesApi(
     args?: { page?: number; per_page?: number },
 ): Promise<GetAdminConversationMessagesResponseDto> {
     const safeId = encodeURIComponent(String(conversationId));
-    const query = buildQuery({
-        page: args?.page,
-        per_page: args?.per_page,
+    const json = await apiFetch<any>(`/admin/messages/conversations/${safeId}`, {
+        method: "GET",
+        query: {
+            page: args?.page,
+            per_page: args?.per_page,
+        },
     });
 
-    return adminMessagesApiFetch<GetAdminConversationMessagesResponseDto>(
-        `/admin/messages/conversations/${safeId}${query}`,
-        { method: "GET" },
-    );
+    const messages = parseDtoList(adminMessageSchema, json?.messages ?? json?.data ?? [], "messages");
+    return {
+        message: json?.message,
+        conversation_id: json?.conversation_id ?? conversationId,
+        deleted_at: json?.deleted_at ?? null,
+        messages,
+        pagination: toPagination(json?.pagination, messages.length),
+    };
 }
 
 /**
@@ -236,12 +329,9 @@ export async function deleteAdminConversationApi(
     args?: { force?: boolean },
 ): Promise<{ message?: string; conversation_id: number | string; deleted_at?: string;[key: string]: unknown }> {
     const safeId = encodeURIComponent(String(conversationId));
-    const query = buildQuery({
-        force: args?.force ? 1 : 0,
-    });
-
-    return adminMessagesApiFetch(`/admin/messages/conversations/${safeId}${query}`, {
+    return apiFetch(`/admin/messages/conversations/${safeId}`, {
         method: "DELETE",
+        query: { force: args?.force ? 1 : 0 },
     });
 }
 
@@ -254,7 +344,7 @@ export async function updateAdminMessageApi(
 ): Promise<UpdateAdminMessageResponseDto> {
     const safeId = encodeURIComponent(String(id));
 
-    return adminMessagesApiFetch<UpdateAdminMessageResponseDto>(`/admin/messages/${safeId}`, {
+    return apiFetch<UpdateAdminMessageResponseDto>(`/admin/messages/${safeId}`, {
         method: "PATCH",
         body: JSON.stringify(payload),
     });
@@ -263,12 +353,34 @@ export async function updateAdminMessageApi(
 /**
  * DELETE /admin/messages/{id}
  */
-export async function deleteAdminMessageApi(
-    id: number | string,
-): Promise<{ message?: string; id: number | string;[key: string]: unknown }> {
+export async function deleteAdminMessageApi(id: number | string): Promise<DeleteAdminMessageResponseDto> {
     const safeId = encodeURIComponent(String(id));
 
-    return adminMessagesApiFetch(`/admin/messages/${safeId}`, {
+    const json = await apiFetch<any>(`/admin/messages/${safeId}`, {
         method: "DELETE",
     });
+
+    const raw = json?.messageRecord ?? json?.data;
+    return {
+        message: json?.message,
+        id: json?.id ?? id,
+        messageRecord: raw ? parseDto(adminMessageSchema, raw, "messageRecord") : undefined,
+    };
+}
+
+/**
+ * ✅ NEW
+ * GET /admin/messages/{id}/revisions
+ */
+export async function getMessageRevisionsApi(id: number | string): Promise<GetMessageRevisionsResponseDto> {
+    const safeId = encodeURIComponent(String(id));
+    const json = await apiFetch<any>(`/admin/messages/${safeId}/revisions`, {
+        method: "GET",
+    });
+
+    return {
+        message: json?.message,
+        message_id: json?.message_id ?? id,
+        revisions: parseDtoList(messageRevisionSchema, json?.revisions ?? json?.data ?? [], "revisions"),
+    };
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+
+import { getCounselorAnalyticsApi } from "@/api/analytics/route";
+import { stubApi } from "@/test/api-stub";
+
+describe("getCounselorAnalyticsApi", () => {
+    it("sends the date range and normalizes every series", async () => {
+        const api = stubApi({
+            message: "ok",
+            this_month_count: "2",
+            this_semester_count: "9",
+            range: { start_date: "2026-08-01", end_date: "2026-10-31" },
+            monthly_counts: [{ year: 2026, month: 8, count: "5" }],
+            attendance: { attended: "7", no_show: 1, late_cancel: null, unmarked: 2, no_show_rate: "0.1" },
+            monthly_attendance: [{ year: 2026, month: 9, attended: 3, no_show: "1", late_cancel: 0 }],
+            monthly_group_sessions: [{ year: 2026, month: 9, sessions: 2, participants: "11", attended: 9 }],
+        });
+
+        const res = await getCounselorAnalyticsApi({ start_date: "2026-08-01", end_date: "2026-10-31" });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/counselor/analytics",
+            query: { start_date: "2026-08-01", end_date: "2026-10-31" },
+        });
+        expect(res.this_month_count).toBe(2);
+        expect(res.this_semester_count).toBe(9);
+        expect(res.monthly_counts).toEqual([{ year: 2026, month: 8, count: 5 }]);
+        expect(res.attendance).toEqual({ attended: 7, no_show: 1, late_cancel: 0, unmarked: 2, no_show_rate: 0.1 });
+        expect(res.monthly_attendance).toEqual([{ year: 2026, month: 9, attended: 3, no_show: 1, late_cancel: 0 }]);
+        expect(res.monthly_group_sessions).toEqual([{ year: 2026, month: 9, sessions: 2, participants: 11, attended: 9 }]);
+    });
+
+    it("returns zeroed analytics for an empty response", async () => {
+        stubApi({});
+
+        const res = await getCounselorAnalyticsApi();
+
+        expect(res.attendance).toEqual({ attended: 0, no_show: 0, late_cancel: 0, unmarked: 0, no_show_rate: 0 });
+        expect(res.monthly_counts).toEqual([]);
+        expect(res.monthly_attendance).toEqual([]);
+        expect(res.monthly_group_sessions).toEqual([]);
+    });
+});
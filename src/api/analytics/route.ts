@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
+import { apiFetch, type ApiError } from "@/api/client";
 
 export interface AnalyticsQuery {
     start_date?: string; // YYYY-MM-DD
@@ -12,6 +12,39 @@ export interface MonthlyCountRow {
     count: number;
 }
 
+/**
+ * Attendance of sessions scheduled inside the range.
+ * `no_show_rate` = (no_show + late_cancel) / marked sessions, in percent.
+ */
+export interface AttendanceSummaryDto {
+    attended: number;
+    no_show: number;
+    late_cancel: number;
+    /** Past scheduled sessions not marked yet */
+    unmarked: number;
+    no_show_rate: number;
+}
+
+export interface MonthlyAttendanceRow {
+    year: number;
+    month: number; // 1-12
+    attended: number;
+    no_show: number;
+    late_cancel: number;
+}
+
+/**
+ * Group sessions / workshops held in a month (cancelled sessions excluded).
+ */
+export interface MonthlyGroupSessionRow {
+    year: number;
+    month: number; // 1-12
+    sessions: number;
+    /** Enrolled students across those sessions */
+    participants: number;
+    attended: number;
+}
+
 export interface CounselorAnalyticsResponseDto {
     message?: string;
     this_month_count: number;
@@ -21,75 +54,18 @@ export interface CounselorAnalyticsResponseDto {
         end_date?: string;
     };
     monthly_counts?: MonthlyCountRow[];
+    attendance?: AttendanceSummaryDto;
+    monthly_attendance?: MonthlyAttendanceRow[];
+    monthly_group_sessions?: MonthlyGroupSessionRow[];
 }
 
-export interface AnalyticsApiError extends Error {
-    status?: number;
-    data?: unknown;
-}
-
-function resolveAnalyticsApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const base = String(AUTH_API_BASE_URL).replace(/\/+$/, "");
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${base}/${trimmedPath}`;
-}
-
-function buildQueryString(params?: Record<string, any>): string {
-    if (!params) return "";
-    const sp = new URLSearchParams();
-    Object.entries(params).forEach(([k, v]) => {
-        if (v === undefined || v === null || v === "") return;
-        sp.set(k, String(v));
-    });
-    const qs = sp.toString();
-    return qs ? `?${qs}` : "";
-}
+export type AnalyticsApiError = ApiError;
 
 function safeNumber(v: unknown): number {
     const n = Number(v);
     return Number.isFinite(n) ? n : 0;
 }
 
-async function analyticsApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveAnalyticsApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-        const message =
-            body?.message ||
-            body?.error ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as AnalyticsApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
-
 /**
  * ✅ Counselor analytics endpoint
  * GET /counselor/analytics?start_date=YYYY-MM-DD&end_date=YYYY-MM-DD
@@ -100,13 +76,17 @@ async function analyticsApiFetch<T>(path: string, init: RequestInit = {}): Promi
  *   this_month_count,
  *   this_semester_count,
  *   range: {start_date, end_date},
- *   monthly_counts: [{year, month, count}]
+ *   monthly_counts: [{year, month, count}],
+ *   attendance: {attended, no_show, late_cancel, unmarked, no_show_rate},
+ *   monthly_attendance: [{year, month, attended, no_show, late_cancel}],
+ *   monthly_group_sessions: [{year, month, sessions, participants, attended}]
  * }
  */
 export async function getCounselorAnalyticsApi(query?: AnalyticsQuery): Promise<CounselorAnalyticsResponseDto> {
-    const qs = buildQueryString(query);
-
-    const res = await analyticsApiFetch<any>(`/counselor/analytics${qs}`, { method: "GET" });
+    const res = await apiFetch<any>("/counselor/analytics", {
+        method: "GET",
+        query: { start_date: query?.start_date, end_date: query?.end_date },
+    });
 
     const monthly_counts: MonthlyCountRow[] = Array.isArray(res?.monthly_counts)
         ? res.monthly_counts.map((r: any) => ({
@@ -116,6 +96,26 @@ export async function getCounselorAnalyticsApi(query?: AnalyticsQuery): Promise<
         }))
         : [];
 
+    const monthly_attendance: MonthlyAttendanceRow[] = Array.isArray(res?.monthly_attendance)
+        ? res.monthly_attendance.map((r: any) => ({
+            year: safeNumber(r?.year),
+            month: safeNumber(r?.month),
+            attended: safeNumber(r?.attended),
+            no_show: safeNumber(r?.no_show),
+            late_cancel: safeNumber(r?.late_cancel),
+        }))
+        : [];
+
+    const monthly_group_sessions: MonthlyGroupSessionRow[] = Array.isArray(res?.monthly_group_sessions)
+        ? res.monthly_group_sessions.map((r: any) => ({
+            year: safeNumber(r?.year),
+            month: safeNumber(r?.month),
+            sessions: safeNumber(r?.sessions),
+            participants: safeNumber(r?.participants),
+            attended: safeNumber(r?.attended),
+        }))
+        : [];
+
     return {
         message: res?.message,
         this_month_count: safeNumber(res?.this_month_count),
@@ -125,5 +125,14 @@ export async function getCounselorAnalyticsApi(query?: AnalyticsQuery): Promise<
             end_date: res?.range?.end_date,
         },
         monthly_counts,
+        attendance: {
+            attended: safeNumber(res?.attendance?.attended),
+            no_show: safeNumber(res?.attendance?.no_show),
+            late_cancel: safeNumber(res?.attendance?.late_cancel),
+            unmarked: safeNumber(res?.attendance?.unmarked),
+            no_show_rate: safeNumber(res?.attendance?.no_show_rate),
+        },
+        monthly_attendance,
+        monthly_group_sessions,
     };
 }
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    forgotPasswordApi,
+    loginApi,
+    logoutApi,
+    meApi,
+    registerApi,
+    resetPasswordApi,
+} from "@/api/auth/route";
+import { ApiError } from "@/api/client";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+const user = { id: 4, email: "student@jrmsu.test", role: "student" };
+
+describe("auth routes", () => {
+    it("logs in with email and password", async () => {
+        const api = stubApi({ user, token: "abc" });
+
+        const res = await loginApi({ email: "student@jrmsu.test", password: "password" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/auth/login",
+            body: { email: "student@jrmsu.test", password: "password" },
+        });
+        expect(api.last().headers).toMatchObject({ Accept: "application/json", "Content-Type": "application/json" });
+        expect(res).toEqual({ user, token: "abc" });
+    });
+
+    it("surfaces the first validation error of a rejected login", async () => {
+        stubApi(stubStatus(422, { errors: { email: ["These credentials do not match our records."] } }));
+
+        const error = await loginApi({ email: "student@jrmsu.test", password: "wrong" }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(422);
+        expect(error.message).toBe("These credentials do not match our records.");
+    });
+
+    it("registers an account", async () => {
+        const api = stubApi({ user, access_token: "def" });
+        const payload = {
+            name: "Ana Cruz",
+            email: "ana@jrmsu.test",
+            password: "password",
+            password_confirmation: "password",
+            account_type: "student" as const,
+            student_id: "2026-0001",
+        };
+
+        const res = await registerApi(payload);
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/auth/register", body: payload });
+        expect(res.access_token).toBe("def");
+    });
+
+    it("logs out", async () => {
+        const api = stubApi(stubStatus(204));
+
+        await expect(logoutApi()).resolves.toBeUndefined();
+        expect(api.last()).toMatchObject({ method: "POST", path: "/auth/logout" });
+    });
+
+    it("unwraps the current user", async () => {
+        const api = stubApi({ user });
+
+        await expect(meApi()).resolves.toEqual(user);
+        expect(api.last()).toMatchObject({ method: "GET", path: "/auth/me" });
+    });
+
+    it("requests a password reset link", async () => {
+        const api = stubApi({ message: "We have emailed your password reset link." });
+
+        const res = await forgotPasswordApi({ email: "student@jrmsu.test" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/auth/password/forgot",
+            body: { email: "student@jrmsu.test" },
+        });
+        expect(res.message).toBe("We have emailed your password reset link.");
+    });
+
+    it("resets the password with the emailed token", async () => {
+        const api = stubApi({ message: "Your password has been reset." });
+        const payload = {
+            token: "reset-token",
+            email: "student@jrmsu.test",
+            password: "new-password",
+            password_confirmation: "new-password",
+        };
+
+        await resetPasswordApi(payload);
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/auth/password/reset", body: payload });
+    });
+});
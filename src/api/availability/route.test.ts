@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    createAvailabilityBlockApi,
+    deleteAvailabilityBlockApi,
+    getAvailableSlotsApi,
+    getCounselorAvailabilityApi,
+    getScheduleConflict,
+    saveWeeklyAvailabilityApi,
+} from "@/api/availability/route";
+import { ApiError } from "@/api/client";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+const availability = {
+    counselor_id: 2,
+    slot_minutes: 60,
+    rules: [{ weekday: 1, start_time: "08:00", end_time: "12:00" }],
+    blocks: [],
+};
+
+describe("counselor availability", () => {
+    it("loads the counselor's own availability", async () => {
+        const api = stubApi({ availability });
+
+        await expect(getCounselorAvailabilityApi()).resolves.toEqual({ availability });
+        expect(api.last()).toMatchObject({ method: "GET", path: "/counselor/availability" });
+    });
+
+    it("replaces the weekly hours", async () => {
+        const api = stubApi({ availability });
+        const payload = { slot_minutes: 30, rules: [{ weekday: 2, start_time: "13:00", end_time: "17:00" }] };
+
+        await saveWeeklyAvailabilityApi(payload);
+
+        expect(api.last()).toMatchObject({ method: "PUT", path: "/counselor/availability", body: payload });
+    });
+
+    it("adds and removes blocked times", async () => {
+        const block = { kind: "holiday" as const, date: "2026-11-01", reason: "All Saints' Day" };
+        const api = stubApi((req) =>
+            req.method === "POST" ? { block: { id: 9, counselor_id: null, start_time: null, end_time: null, ...block } } : {},
+        );
+
+        const created = await createAvailabilityBlockApi(block);
+        await deleteAvailabilityBlockApi(created.block.id);
+
+        expect(api.requests[0]).toMatchObject({ method: "POST", path: "/counselor/availability/blocks", body: block });
+        expect(api.requests[1]).toMatchObject({ method: "DELETE", path: "/counselor/availability/blocks/9" });
+    });
+});
+
+describe("getAvailableSlotsApi", () => {
+    const slot = { counselor_id: 2, date: "2026-10-20", start_time: "08:00", end_time: "09:00" };
+
+    it("sends the range and only the filters that are set", async () => {
+        const api = stubApi({ slots: [slot] });
+
+        const res = await getAvailableSlotsApi({ from: "2026-10-19", to: "2026-10-25", counselor_id: 2, ignore_intake_id: null });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/availability/slots",
+            query: { from: "2026-10-19", to: "2026-10-25", counselor_id: "2" },
+        });
+        expect(res.slots).toEqual([slot]);
+    });
+
+    it("accepts `data` wrappers and bare arrays", async () => {
+        stubApi({ data: [slot] });
+        await expect(getAvailableSlotsApi({ from: "2026-10-19", to: "2026-10-25" })).resolves.toEqual({
+            message: undefined,
+            slots: [slot],
+        });
+
+        stubApi([slot]);
+        expect((await getAvailableSlotsApi({ from: "2026-10-19", to: "2026-10-25" })).slots).toEqual([slot]);
+
+        stubApi({ slots: "none" });
+        expect((await getAvailableSlotsApi({ from: "2026-10-19", to: "2026-10-25" })).slots).toEqual([]);
+    });
+});
+
+describe("getScheduleConflict", () => {
+    const conflict = { type: "appointment", id: 5, counselor_id: 2, date: "2026-10-20", time: "08:00" };
+
+    it("reads the conflicting booking from a 409", async () => {
+        stubApi(stubStatus(409, { message: "Already booked.", conflict }));
+
+        const error = await saveWeeklyAvailabilityApi({ slot_minutes: 60, rules: [] }).catch((e) => e);
+
+        expect(getScheduleConflict(error)).toEqual(conflict);
+    });
+
+    it("ignores other errors", () => {
+        expect(getScheduleConflict(new ApiError("Invalid", 422, { conflict }))).toBeNull();
+        expect(getScheduleConflict(new ApiError("Already booked.", 409, { message: "Already booked." }))).toBeNull();
+        expect(getScheduleConflict(new Error("offline"))).toBeNull();
+    });
+});
@@ -0,0 +1,180 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { apiFetch, isApiError, type ApiError } from "@/api/client";
+
+/**
+ * Counselor availability (weekly hours + holidays / blocked times) and the
+ * bookable slots derived from it.
+ *
+ * Times are "HH:mm" (24h) in every availability payload; legacy appointment
+ * columns may still hold "08:00 AM" style values.
+ */
+
+/** Recurring weekly window. `weekday` follows JS `Date#getDay()` (0 = Sunday). */
+export interface AvailabilityRuleDto {
+    id?: number | string;
+    counselor_id?: number | string;
+    weekday: number;
+    start_time: string;
+    end_time: string;
+}
+
+/**
+ * - `holiday`: office closed for everyone (`counselor_id` is null)
+ * - `blocked`: one counselor unavailable (leave, meeting, ...)
+ */
+export type AvailabilityBlockKindApi = "holiday" | "blocked";
+
+export interface AvailabilityBlockDto {
+    id: number | string;
+    counselor_id: number | string | null;
+    kind: AvailabilityBlockKindApi;
+    date: string; // YYYY-MM-DD
+    /** null with `end_time` null = the whole day */
+    start_time: string | null;
+    end_time: string | null;
+    reason: string | null;
+    created_at?: string;
+}
+
+export interface CounselorAvailabilityDto {
+    counselor_id: number | string;
+    /** Length of one bookable slot */
+    slot_minutes: number;
+    rules: AvailabilityRuleDto[];
+    /** Own blocked times + office-wide holidays */
+    blocks: AvailabilityBlockDto[];
+}
+
+export interface GetCounselorAvailabilityResponseDto {
+    message?: string;
+    availability: CounselorAvailabilityDto;
+}
+
+export interface SaveWeeklyAvailabilityPayload {
+    slot_minutes: number;
+    rules: Array<Pick<AvailabilityRuleDto, "weekday" | "start_time" | "end_time">>;
+}
+
+export interface CreateAvailabilityBlockPayload {
+    kind: AvailabilityBlockKindApi;
+    date: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    reason?: string | null;
+}
+
+export interface CreateAvailabilityBlockResponseDto {
+    message?: string;
+    block: AvailabilityBlockDto;
+}
+
+export interface AvailableSlotDto {
+    counselor_id: number | string;
+    counselor_name?: string | null;
+    date: string; // YYYY-MM-DD
+    start_time: string; // HH:mm
+    end_time: string; // HH:mm
+}
+
+export interface GetAvailableSlotsQuery {
+    from: string; // YYYY-MM-DD
+    to: string; // YYYY-MM-DD
+    counselor_id?: number | string | null;
+    /** Counselor views: an appointment / referral whose own booking should not count as taken. */
+    ignore_intake_id?: number | string | null;
+    ignore_referral_id?: number | string | null;
+}
+
+export interface GetAvailableSlotsResponseDto {
+    message?: string;
+    slots: AvailableSlotDto[];
+}
+
+/**
+ * Body of the 409 returned when a schedule would double-book a counselor.
+ */
+export interface ScheduleConflictDto {
+    type: "appointment" | "referral" | "group_session";
+    id: number | string;
+    counselor_id: number | string;
+    date: string;
+    time: string;
+    student_name?: string | null;
+    /** Group sessions only */
+    title?: string | null;
+}
+
+export type AvailabilityApiError = ApiError;
+
+/**
+ * ✅ Counselor: own weekly availability + blocks
+ * GET /counselor/availability
+ */
+export async function getCounselorAvailabilityApi(): Promise<GetCounselorAvailabilityResponseDto> {
+    return apiFetch<GetCounselorAvailabilityResponseDto>("/counselor/availability", { method: "GET" });
+}
+
+/**
+ * ✅ Counselor: replace the weekly availability
+ * PUT /counselor/availability
+ */
+export async function saveWeeklyAvailabilityApi(
+    payload: SaveWeeklyAvailabilityPayload,
+): Promise<GetCounselorAvailabilityResponseDto> {
+    return apiFetch<GetCounselorAvailabilityResponseDto>("/counselor/availability", {
+        method: "PUT",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: add a holiday or blocked time
+ * POST /counselor/availability/blocks
+ */
+export async function createAvailabilityBlockApi(
+    payload: CreateAvailabilityBlockPayload,
+): Promise<CreateAvailabilityBlockResponseDto> {
+    return apiFetch<CreateAvailabilityBlockResponseDto>("/counselor/availability/blocks", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: remove a holiday or blocked time
+ * DELETE /counselor/availability/blocks/{id}
+ */
+export async function deleteAvailabilityBlockApi(id: number | string): Promise<{ message?: string }> {
+    return apiFetch<{ message?: string }>(`/counselor/availability/blocks/${encodeURIComponent(String(id))}`, {
+        method: "DELETE",
+    });
+}
+
+/**
+ * ✅ Open (bookable) slots between two dates, optionally for one counselor
+ * GET /availability/slots?from=YYYY-MM-DD&to=YYYY-MM-DD&counselor_id=
+ */
+export async function getAvailableSlotsApi(query: GetAvailableSlotsQuery): Promise<GetAvailableSlotsResponseDto> {
+    const json = await apiFetch<any>("/availability/slots", {
+        method: "GET",
+        query: {
+            from: query.from,
+            to: query.to,
+            counselor_id: query.counselor_id,
+            ignore_intake_id: query.ignore_intake_id,
+            ignore_referral_id: query.ignore_referral_id,
+        },
+    });
+
+    const slots = (json?.slots ?? json?.data ?? json) as AvailableSlotDto[];
+    return { message: json?.message, slots: Array.isArray(slots) ? slots : [] };
+}
+
+/**
+ * The conflicting booking when `error` is the 409 "counselor already booked" response, else null.
+ */
+export function getScheduleConflict(error: unknown): ScheduleConflictDto | null {
+    if (!isApiError(error) || error.status !== 409) return null;
+    const conflict = (error.data as any)?.conflict;
+    return conflict && typeof conflict === "object" ? (conflict as ScheduleConflictDto) : null;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { authorizeBroadcastChannelApi } from "@/api/broadcasting/route";
+import { ApiError } from "@/api/client";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+describe("authorizeBroadcastChannelApi", () => {
+    it("posts the socket and channel with the session token", async () => {
+        const api = stubApi({ auth: "app-key:signature" });
+
+        const res = await authorizeBroadcastChannelApi({ socket_id: "123.456", channel_name: "private-user.4" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/broadcasting/auth",
+            body: { socket_id: "123.456", channel_name: "private-user.4" },
+        });
+        expect(res).toEqual({ auth: "app-key:signature" });
+    });
+
+    it("rejects channels the user may not join", async () => {
+        stubApi(stubStatus(403, { message: "Forbidden" }));
+
+        const error = await authorizeBroadcastChannelApi({ socket_id: "1.2", channel_name: "private-user.9" }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(403);
+    });
+});
@@ -0,0 +1,32 @@
+import { apiFetch } from "@/api/client";
+
+/**
+ * Private channel authorization for the push channel (`src/lib/realtime.ts`).
+ *
+ * Laravel answers with the signature the socket server (Reverb / soketi /
+ * Pusher) expects in `pusher:subscribe`, after checking the channel callback
+ * in `routes/channels.php`.
+ */
+
+export interface BroadcastAuthPayload {
+    socket_id: string;
+    channel_name: string;
+}
+
+export interface BroadcastAuthResponseDto {
+    /** `<app key>:<signature>` */
+    auth: string;
+    /** Presence channels only */
+    channel_data?: string;
+}
+
+/**
+ * ✅ Authorize the current user on a private channel
+ * POST /broadcasting/auth
+ */
+export async function authorizeBroadcastChannelApi(payload: BroadcastAuthPayload): Promise<BroadcastAuthResponseDto> {
+    return apiFetch<BroadcastAuthResponseDto>("/broadcasting/auth", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
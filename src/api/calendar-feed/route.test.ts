@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+
+import { getCalendarFeedApi, rotateCalendarFeedApi } from "@/api/calendar-feed/route";
+import { stubApi } from "@/test/api-stub";
+
+const feed = { url: "http://api.test/calendar/abc.ics", token: "abc", created_at: "2026-10-01T00:00:00Z" };
+
+describe("calendar feed", () => {
+    it("loads the current feed", async () => {
+        const api = stubApi({ feed });
+
+        await expect(getCalendarFeedApi()).resolves.toEqual({ feed });
+        expect(api.last()).toMatchObject({ method: "GET", path: "/calendar/feed" });
+    });
+
+    it("rotates the feed token", async () => {
+        const api = stubApi({ message: "Rotated", feed: { ...feed, token: "def" } });
+
+        const res = await rotateCalendarFeedApi();
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/calendar/feed/rotate" });
+        expect(res.feed.token).toBe("def");
+    });
+});
@@ -0,0 +1,36 @@
+import { apiFetch } from "@/api/client";
+
+/**
+ * Private iCalendar subscription feed of the signed-in user's sessions.
+ *
+ * The feed URL itself is unauthenticated (calendar apps cannot send a bearer
+ * token), so it embeds a secret token; rotating it invalidates old links.
+ */
+
+export interface CalendarFeedDto {
+    /** Absolute (or API-relative) URL of the `.ics` feed */
+    url: string;
+    token?: string;
+    created_at?: string | null;
+}
+
+export interface GetCalendarFeedResponseDto {
+    message?: string;
+    feed: CalendarFeedDto;
+}
+
+/**
+ * ✅ Current user's feed (created on first request)
+ * GET /calendar/feed
+ */
+export async function getCalendarFeedApi(): Promise<GetCalendarFeedResponseDto> {
+    return apiFetch<GetCalendarFeedResponseDto>("/calendar/feed", { method: "GET" });
+}
+
+/**
+ * ✅ Replace the feed token; the previous URL stops working
+ * POST /calendar/feed/rotate
+ */
+export async function rotateCalendarFeedApi(): Promise<GetCalendarFeedResponseDto> {
+    return apiFetch<GetCalendarFeedResponseDto>("/calendar/feed/rotate", { method: "POST" });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    assignIntakeRequestApi,
+    closeCaseApi,
+    getAdminCaseloadsApi,
+    getAssignmentSuggestionsApi,
+    getCaseOutcomeApi,
+    getCasesApi,
+    getCounselorCaseloadsApi,
+    reopenCaseApi,
+    transferCaseApi,
+    updateCounselorSpecializationsApi,
+} from "@/api/cases/route";
+import { stubApi } from "@/test/api-stub";
+
+describe("case routes", () => {
+    it("lists cases, filtered by student and status when given", async () => {
+        const api = stubApi({ cases: [] });
+
+        await getCasesApi();
+        await getCasesApi(4, "closed");
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/counselor/cases", query: {} });
+        expect(api.requests[1].query).toEqual({ student_id: "4", status: "closed" });
+    });
+
+    it.each([
+        ["outcome", () => getCaseOutcomeApi(7), "GET", "/counselor/cases/7/outcome", undefined],
+        [
+            "close",
+            () => closeCaseApi(7, { termination_reason: "goals_met", outcome_summary: "Coping plan in place." }),
+            "POST",
+            "/counselor/cases/7/close",
+            { termination_reason: "goals_met", outcome_summary: "Coping plan in place." },
+        ],
+        ["reopen", () => reopenCaseApi(7, "Relapse"), "POST", "/counselor/cases/7/reopen", { reason: "Relapse" }],
+        [
+            "transfer",
+            () => transferCaseApi(7, { counselor_id: 3, handoff_note: "Prefers mornings." }),
+            "POST",
+            "/counselor/cases/7/transfer",
+            { counselor_id: 3, handoff_note: "Prefers mornings." },
+        ],
+        ["counselor caseloads", () => getCounselorCaseloadsApi(), "GET", "/counselor/caseloads", undefined],
+        ["admin caseloads", () => getAdminCaseloadsApi(), "GET", "/admin/caseloads", undefined],
+        [
+            "specializations",
+            () => updateCounselorSpecializationsApi(3, ["academic", "career"]),
+            "PUT",
+            "/admin/counselors/3/specializations",
+            { specializations: ["academic", "career"] },
+        ],
+        [
+            "assignment suggestions",
+            () => getAssignmentSuggestionsApi(12),
+            "GET",
+            "/counselor/intake/requests/12/assignment-suggestions",
+            undefined,
+        ],
+        ["assign", () => assignIntakeRequestApi(12, 3), "POST", "/counselor/intake/requests/12/assign", { counselor_id: 3 }],
+    ])("%s", async (_name, call, method, path, body) => {
+        const api = stubApi({ message: "ok" });
+
+        await expect(call()).resolves.toEqual({ message: "ok" });
+        expect(api.last()).toMatchObject({ method, path });
+        expect(api.last().body).toEqual(body);
+    });
+
+    it("encodes ids into the path", async () => {
+        const api = stubApi({});
+
+        await getCaseOutcomeApi("a/b");
+
+        expect(api.last().path).toBe("/counselor/cases/a%2Fb/outcome");
+    });
+});
@@ -0,0 +1,262 @@
+import { apiFetch } from "@/api/client";
+import type { IntakeRequestDto } from "@/api/intake/route";
+
+/**
+ * Case ownership.
+ *
+ * Every student seen by the office has one open case owned by one counselor;
+ * the counselor's case load is the list of their open cases. A case opens
+ * when the student is first booked or assigned, and moves between counselors
+ * through a transfer that carries a handoff note. Closing a case records why
+ * counseling ended and how the student's scores moved; a closed case drops
+ * off the case load and is reopened (same case, history intact) when the
+ * student returns.
+ */
+
+export type CaseStatusApi = "open" | "closed";
+
+export type CaseTerminationReasonApi =
+    | "goals_met"
+    | "student_withdrew"
+    | "referred_out"
+    | "left_school"
+    | "no_contact"
+    | "other";
+
+/** First vs latest score of one measure; labels are the PHQ-9 severity or manual rating. */
+export interface OutcomeComparisonDto {
+    first: number;
+    first_date: string;
+    first_label: string;
+    last: number;
+    last_date: string;
+    last_label: string;
+    /** Scores on record for the comparison */
+    count: number;
+}
+
+export interface CaseOutcomeDto {
+    /** null when the student never completed a PHQ-9 */
+    phq9: OutcomeComparisonDto | null;
+    /** null when no manual assessment score was recorded */
+    manual_score: OutcomeComparisonDto | null;
+}
+
+export interface CaseClosureDto extends CaseOutcomeDto {
+    id: number;
+    counselor_id: number;
+    counselor_name: string | null;
+    termination_reason: CaseTerminationReasonApi;
+    outcome_summary: string;
+    closed_by_name: string | null;
+    closed_at: string;
+    /** null while the case stays closed */
+    reopened_at: string | null;
+    reopened_by_name: string | null;
+    reopen_reason: string | null;
+}
+
+export interface CaseTransferDto {
+    id: number;
+    from_counselor_id: number;
+    from_counselor_name: string | null;
+    to_counselor_id: number;
+    to_counselor_name: string | null;
+    handoff_note: string;
+    transferred_by_name: string | null;
+    created_at: string;
+}
+
+export interface CaseDto {
+    id: number;
+    student_id: number;
+    student_name: string | null;
+    counselor_id: number;
+    counselor_name: string | null;
+    status: CaseStatusApi;
+    opened_at: string;
+    /** null while open */
+    closed_at: string | null;
+    /** Oldest first */
+    transfers: CaseTransferDto[];
+    /** Oldest first; one per time the case was closed */
+    closures: CaseClosureDto[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CounselorCaseloadDto {
+    counselor_id: number;
+    counselor_name: string;
+    /** Concern types (`IntakeRequestDto.concern_type`) */
+    specializations: string[];
+    open_cases: number;
+    /** Scheduled appointments from today on */
+    upcoming_appointments: number;
+}
+
+export interface AssignmentSuggestionDto extends CounselorCaseloadDto {
+    /** Already owns the student's open case */
+    owns_case: boolean;
+    specialization_match: boolean;
+    /** Short explanation shown next to the suggestion */
+    reason: string;
+}
+
+export interface GetCasesResponseDto {
+    message?: string;
+    cases: CaseDto[];
+}
+
+export interface CaseResponseDto {
+    message?: string;
+    case: CaseDto;
+}
+
+export interface CaseOutcomeResponseDto {
+    message?: string;
+    outcome: CaseOutcomeDto;
+}
+
+export interface GetCaseloadsResponseDto {
+    message?: string;
+    counselors: CounselorCaseloadDto[];
+}
+
+export interface GetAssignmentSuggestionsResponseDto {
+    message?: string;
+    concern_type: string | null;
+    /** Best first */
+    suggestions: AssignmentSuggestionDto[];
+}
+
+export interface AssignIntakeResponseDto {
+    message?: string;
+    intake: IntakeRequestDto;
+    /** The student's open case (new, or the one they already had) */
+    case: CaseDto;
+}
+
+export interface TransferCasePayload {
+    counselor_id: number | string;
+    handoff_note: string;
+}
+
+export interface CloseCasePayload {
+    termination_reason: CaseTerminationReasonApi;
+    outcome_summary: string;
+}
+
+/**
+ * ✅ Counselor: own open (or closed) cases, or every case of one student
+ * GET /counselor/cases?student_id=&status=
+ */
+export async function getCasesApi(
+    studentId?: number | string | null,
+    status?: CaseStatusApi,
+): Promise<GetCasesResponseDto> {
+    return apiFetch<GetCasesResponseDto>("/counselor/cases", {
+        method: "GET",
+        query: { student_id: studentId ?? undefined, status },
+    });
+}
+
+/**
+ * ✅ Counselor: first vs latest PHQ-9 and manual score, shown before closing
+ * GET /counselor/cases/{id}/outcome
+ */
+export async function getCaseOutcomeApi(id: number | string): Promise<CaseOutcomeResponseDto> {
+    return apiFetch<CaseOutcomeResponseDto>(`/counselor/cases/${encodeURIComponent(String(id))}/outcome`, {
+        method: "GET",
+    });
+}
+
+/**
+ * ✅ Case owner or admin: close the case with a termination reason and outcome summary
+ * POST /counselor/cases/{id}/close
+ */
+export async function closeCaseApi(id: number | string, payload: CloseCasePayload): Promise<CaseResponseDto> {
+    return apiFetch<CaseResponseDto>(`/counselor/cases/${encodeURIComponent(String(id))}/close`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: reopen a closed case (the reopening counselor becomes the owner)
+ * POST /counselor/cases/{id}/reopen
+ */
+export async function reopenCaseApi(id: number | string, reason: string): Promise<CaseResponseDto> {
+    return apiFetch<CaseResponseDto>(`/counselor/cases/${encodeURIComponent(String(id))}/reopen`, {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+    });
+}
+
+/**
+ * ✅ Case owner or admin: hand the case to another counselor
+ * POST /counselor/cases/{id}/transfer
+ */
+export async function transferCaseApi(id: number | string, payload: TransferCasePayload): Promise<CaseResponseDto> {
+    return apiFetch<CaseResponseDto>(`/counselor/cases/${encodeURIComponent(String(id))}/transfer`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: open cases and upcoming appointments per counselor
+ * GET /counselor/caseloads
+ */
+export async function getCounselorCaseloadsApi(): Promise<GetCaseloadsResponseDto> {
+    return apiFetch<GetCaseloadsResponseDto>("/counselor/caseloads", { method: "GET" });
+}
+
+/**
+ * ✅ Admin: same numbers for the admin dashboard
+ * GET /admin/caseloads
+ */
+export async function getAdminCaseloadsApi(): Promise<GetCaseloadsResponseDto> {
+    return apiFetch<GetCaseloadsResponseDto>("/admin/caseloads", { method: "GET" });
+}
+
+/**
+ * ✅ Admin: set the concern types a counselor specializes in
+ * PUT /admin/counselors/{id}/specializations
+ */
+export async function updateCounselorSpecializationsApi(
+    counselorId: number | string,
+    specializations: string[],
+): Promise<{ message?: string; counselor: CounselorCaseloadDto }> {
+    return apiFetch<{ message?: string; counselor: CounselorCaseloadDto }>(
+        `/admin/counselors/${encodeURIComponent(String(counselorId))}/specializations`,
+        { method: "PUT", body: JSON.stringify({ specializations }) },
+    );
+}
+
+/**
+ * ✅ Counselor: counselors ranked for an intake (case owner, then specialization and load)
+ * GET /counselor/intake/requests/{id}/assignment-suggestions
+ */
+export async function getAssignmentSuggestionsApi(
+    intakeRequestId: number | string,
+): Promise<GetAssignmentSuggestionsResponseDto> {
+    return apiFetch<GetAssignmentSuggestionsResponseDto>(
+        `/counselor/intake/requests/${encodeURIComponent(String(intakeRequestId))}/assignment-suggestions`,
+        { method: "GET" },
+    );
+}
+
+/**
+ * ✅ Counselor: assign an unassigned intake (opens the student's case if needed)
+ * POST /counselor/intake/requests/{id}/assign
+ */
+export async function assignIntakeRequestApi(
+    intakeRequestId: number | string,
+    counselorId: number | string,
+): Promise<AssignIntakeResponseDto> {
+    return apiFetch<AssignIntakeResponseDto>(
+        `/counselor/intake/requests/${encodeURIComponent(String(intakeRequestId))}/assign`,
+        { method: "POST", body: JSON.stringify({ counselor_id: counselorId }) },
+    );
+}
@@ -0,0 +1,466 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Shared HTTP client for the Laravel API.
+ *
+ * Every `src/api/<module>/route.ts` file (and the pages that talk to endpoints
+ * not covered by a route module yet) goes through `apiFetch`, so URL
+ * resolution, Bearer token handling and Laravel error shaping live in ONE place.
+ *
+ * Features:
+ * - `AUTH_API_BASE_URL` resolution (VITE_API_LARAVEL_BASE_URL)
+ * - `buildJsonHeaders` (Accept + Content-Type + Authorization from the stored session)
+ * - typed query-string building (`query` option)
+ * - per-call token override (`token` option) and abort signals (`signal`)
+ * - request / response interceptors
+ * - a swappable transport (the in-repo mock backend plugs in here, see `src/mock`)
+ * - a single `ApiError` type for every failed request
+ */
+
+/**
+ * `VITE_API_MOCK=true` serves every request from the in-memory mock backend
+ * (`src/mock`) instead of Laravel. No base URL is required in that mode.
+ */
+export const API_MOCK_ENABLED = String(import.meta.env.VITE_API_MOCK ?? "").toLowerCase() === "true";
+
+const MOCK_BASE_URL = "/mock-api";
+
+// Base URL comes from your Vite env (e.g. http://localhost:8000 or http://localhost:8000/api)
+const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined;
+
+export const AUTH_API_BASE_URL: string | undefined = RAW_BASE_URL
+    ? RAW_BASE_URL.replace(/\/+$/, "")
+    : API_MOCK_ENABLED
+        ? MOCK_BASE_URL
+        : undefined;
+
+const SESSION_STORAGE_KEY = "ecounseling.session";
+
+export class ApiError extends Error {
+    status: number;
+    data: unknown;
+
+    constructor(message: string, status: number, data?: unknown) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+        this.data = data;
+    }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+    return error instanceof ApiError;
+}
+
+/**
+ * True when the error is an HTTP status that means "this route does not exist here"
+ * (used by the modules that probe several candidate paths).
+ */
+export function isMissingRouteError(error: unknown): boolean {
+    const status = Number((error as any)?.status);
+    return status === 404 || status === 405;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+/**
+ * Build `?a=1&b=2` from a params object.
+ * - `undefined`, `null` and blank strings are skipped
+ * - arrays are appended as repeated keys
+ * - booleans become `1` / `0` (Laravel-friendly)
+ */
+export function buildQueryString(params?: QueryParams): string {
+    if (!params) return "";
+    const sp = new URLSearchParams();
+
+    const serialize = (v: QueryValue): string | null => {
+        if (v === undefined || v === null) return null;
+        if (typeof v === "boolean") return v ? "1" : "0";
+        const s = String(v).trim();
+        return s ? s : null;
+    };
+
+    Object.entries(params).forEach(([k, v]) => {
+        if (Array.isArray(v)) {
+            v.forEach((item) => {
+                const s = serialize(item);
+                if (s !== null) sp.append(k, s);
+            });
+            return;
+        }
+
+        const s = serialize(v);
+        if (s !== null) sp.set(k, s);
+    });
+
+    const qs = sp.toString();
+    return qs ? `?${qs}` : "";
+}
+
+export function resolveApiUrl(path: string, query?: QueryParams): string {
+    if (!AUTH_API_BASE_URL) {
+        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
+    }
+
+    const trimmedPath = path.replace(/^\/+/, "");
+    const qs = buildQueryString(query);
+
+    if (!qs) return `${AUTH_API_BASE_URL}/${trimmedPath}`;
+
+    // Path may already carry its own query string
+    const joiner = trimmedPath.includes("?") ? "&" : "?";
+    return `${AUTH_API_BASE_URL}/${trimmedPath}${joiner}${qs.slice(1)}`;
+}
+
+/**
+ * Normalize tokens to avoid accidental:
+ * - "Bearer Bearer <token>"
+ * - "bearer <token>" stored in local/session storage
+ * - "null"/"undefined" strings
+ */
+export function normalizeAuthToken(raw: unknown): string | null {
+    if (raw == null) return null;
+
+    const t = String(raw).trim();
+    if (!t) return null;
+
+    const low = t.toLowerCase();
+    if (low === "undefined" || low === "null") return null;
+
+    return t.replace(/^bearer\s+/i, "").trim() || null;
+}
+
+function tryParseJson(raw: string): any | null {
+    const s = raw.trim();
+    if (!s) return null;
+    try {
+        return JSON.parse(s);
+    } catch {
+        return null;
+    }
+}
+
+function extractTokenFromUnknown(parsed: any): string | null {
+    if (!parsed) return null;
+
+    // If someone stored the token string directly
+    if (typeof parsed === "string") return normalizeAuthToken(parsed);
+
+    // Common shapes:
+    // { user, token } OR { user, access_token } OR { token } OR { access_token }
+    const direct =
+        normalizeAuthToken(parsed?.token) ||
+        normalizeAuthToken(parsed?.access_token) ||
+        normalizeAuthToken(parsed?.accessToken) ||
+        normalizeAuthToken(parsed?.jwt) ||
+        normalizeAuthToken(parsed?.auth_token);
+
+    if (direct) return direct;
+
+    // Nested shapes (sometimes people store raw login response under "raw")
+    return (
+        normalizeAuthToken(parsed?.raw?.token) ||
+        normalizeAuthToken(parsed?.raw?.access_token) ||
+        normalizeAuthToken(parsed?.raw?.accessToken) ||
+        normalizeAuthToken(parsed?.data?.token) ||
+        normalizeAuthToken(parsed?.data?.access_token) ||
+        normalizeAuthToken(parsed?.payload?.token) ||
+        normalizeAuthToken(parsed?.payload?.access_token) ||
+        null
+    );
+}
+
+function readSessionRawFromAnyStorage(): string | null {
+    if (typeof window === "undefined") return null;
+
+    // Prefer localStorage, but fallback to sessionStorage in case you used that elsewhere
+    const fromLocal = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (fromLocal && fromLocal.trim()) return fromLocal;
+
+    const fromSession = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (fromSession && fromSession.trim()) return fromSession;
+
+    return null;
+}
+
+/**
+ * ✅ If your backend uses Sanctum cookies, this may not be required.
+ * But if your backend returns a Bearer token (token/access_token),
+ * we attach it automatically to all requests.
+ *
+ * Token lookup:
+ * - checks localStorage AND sessionStorage
+ * - supports token/access_token/accessToken
+ * - supports raw nested payloads
+ * - supports storing the token as a plain string
+ */
+export function getStoredAuthToken(): string | null {
+    const raw = readSessionRawFromAnyStorage();
+    if (!raw) return null;
+
+    // If it's JSON, parse it; if not, treat as token string
+    const parsed = tryParseJson(raw);
+    return extractTokenFromUnknown(parsed ?? raw);
+}
+
+function headersToRecord(headers?: HeadersInit): Record<string, string> {
+    if (!headers) return {};
+
+    if (headers instanceof Headers) {
+        const out: Record<string, string> = {};
+        headers.forEach((value, key) => {
+            out[key] = value;
+        });
+        return out;
+    }
+
+    if (Array.isArray(headers)) {
+        return headers.reduce((acc, [k, v]) => {
+            acc[k] = v;
+            return acc;
+        }, {} as Record<string, string>);
+    }
+
+    return { ...(headers as Record<string, string>) };
+}
+
+function findHeaderKey(headers: Record<string, string>, name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return Object.keys(headers).find((k) => k.toLowerCase() === lower);
+}
+
+/**
+ * ✅ Shared JSON headers builder (Accept + Content-Type + optional Authorization)
+ *
+ * A caller-provided Authorization header is normalized (no "Bearer Bearer"),
+ * otherwise the stored session token is attached.
+ */
+export function buildJsonHeaders(initHeaders?: HeadersInit): Record<string, string> {
+    const base = headersToRecord(initHeaders);
+
+    // Preserve caller-provided Accept if already set
+    if (!findHeaderKey(base, "Accept")) base.Accept = "application/json";
+
+    // Content-Type for JSON payloads
+    if (!findHeaderKey(base, "Content-Type")) base["Content-Type"] = "application/json";
+
+    const authKey = findHeaderKey(base, "Authorization");
+    if (authKey) {
+        const token = normalizeAuthToken(base[authKey]);
+        delete base[authKey];
+        if (token) base.Authorization = `Bearer ${token}`;
+    }
+
+    // Attach Bearer token if exists and not already set
+    if (!base.Authorization) {
+        const token = getStoredAuthToken();
+        if (token) base.Authorization = `Bearer ${token}`;
+    }
+
+    return base;
+}
+
+/** -----------------------------
+ * Interceptors
+ * ------------------------------*/
+
+export interface ApiRequestContext {
+    path: string;
+    url: string;
+    init: RequestInit;
+}
+
+export interface ApiResponseContext {
+    request: ApiRequestContext;
+    response: Response;
+    data: unknown;
+}
+
+/**
+ * Runs before every request. Return a new context to replace it
+ * (e.g. add a header), or nothing to keep it as-is.
+ */
+export type ApiRequestInterceptor = (
+    context: ApiRequestContext,
+) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+
+/**
+ * Runs after every response (successful or not) once the body was parsed.
+ * Return a new context to replace it, or nothing to keep it as-is.
+ * Throwing here rejects the request with that error.
+ */
+export type ApiResponseInterceptor = (
+    context: ApiResponseContext,
+) => ApiResponseContext | void | Promise<ApiResponseContext | void>;
+
+const requestInterceptors: ApiRequestInterceptor[] = [];
+const responseInterceptors: ApiResponseInterceptor[] = [];
+
+/**
+ * Register a request interceptor. Returns a function that removes it.
+ */
+export function addRequestInterceptor(interceptor: ApiRequestInterceptor): () => void {
+    requestInterceptors.push(interceptor);
+    return () => {
+        const idx = requestInterceptors.indexOf(interceptor);
+        if (idx >= 0) requestInterceptors.splice(idx, 1);
+    };
+}
+
+/**
+ * Register a response interceptor. Returns a function that removes it.
+ */
+export function addResponseInterceptor(interceptor: ApiResponseInterceptor): () => void {
+    responseInterceptors.push(interceptor);
+    return () => {
+        const idx = responseInterceptors.indexOf(interceptor);
+        if (idx >= 0) responseInterceptors.splice(idx, 1);
+    };
+}
+
+/** -----------------------------
+ * Transport
+ * ------------------------------*/
+
+/**
+ * Sends the final request (after request interceptors) and returns a `Response`.
+ * Defaults to `window.fetch`.
+ */
+export type ApiTransport = (request: ApiRequestContext) => Promise<Response>;
+
+const fetchTransport: ApiTransport = (request) => fetch(request.url, request.init);
+
+let transport: ApiTransport = fetchTransport;
+
+/**
+ * Replace the transport used by `apiFetch` (pass `null` to restore `fetch`).
+ */
+export function setApiTransport(next: ApiTransport | null): void {
+    transport = next ?? fetchTransport;
+}
+
+/** -----------------------------
+ * Request
+ * ------------------------------*/
+
+export interface ApiRequestInit extends RequestInit {
+    /** Appended to the path as a query string (see `buildQueryString`). */
+    query?: QueryParams;
+    /** Explicit Bearer token; defaults to the token of the stored session. */
+    token?: string | null;
+}
+
+function isNonJsonBody(body: unknown): boolean {
+    return (
+        (typeof FormData !== "undefined" && body instanceof FormData) ||
+        (typeof Blob !== "undefined" && body instanceof Blob) ||
+        (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams)
+    );
+}
+
+function extractErrorMessage(data: unknown, response: Response): string {
+    const body = data as any;
+
+    const firstErrorFromLaravel =
+        body?.errors && typeof body.errors === "object"
+            ? (Object.values(body.errors)[0] as any)?.[0]
+            : undefined;
+
+    const rawStr = typeof data === "string" ? data : "";
+
+    return (
+        body?.message ||
+        body?.error ||
+        firstErrorFromLaravel ||
+        (rawStr ? rawStr.slice(0, 220) : "") ||
+        response.statusText ||
+        "An unknown error occurred while communicating with the server."
+    );
+}
+
+/**
+ * Perform a request against the Laravel API and return the parsed JSON body.
+ *
+ * - Always sends cookies (`credentials: "include"`) for Sanctum setups.
+ * - Non-JSON responses resolve to the raw text.
+ * - Non-2xx responses reject with `ApiError` (status + parsed body).
+ */
+export async function apiFetch<T = unknown>(path: string, init: ApiRequestInit = {}): Promise<T> {
+    const { query, token, headers: initHeaders, ...rest } = init;
+
+    const headers = buildJsonHeaders(
+        token ? { ...headersToRecord(initHeaders), Authorization: `Bearer ${token}` } : initHeaders,
+    );
+
+    // Let the browser set multipart boundaries etc.
+    if (isNonJsonBody(rest.body)) delete headers["Content-Type"];
+
+    if (!findHeaderKey(headers, "X-Requested-With")) headers["X-Requested-With"] = "XMLHttpRequest";
+
+    let request: ApiRequestContext = {
+        path,
+        url: resolveApiUrl(path, query),
+        init: {
+            ...rest,
+            headers,
+            credentials: "include",
+        },
+    };
+
+    for (const interceptor of requestInterceptors) {
+        request = (await interceptor(request)) ?? request;
+    }
+
+    const response = await transport(request);
+
+    const text = await response.text();
+    let data: unknown = null;
+
+    if (text) {
+        try {
+            data = JSON.parse(text);
+        } catch {
+            data = text;
+        }
+    }
+
+    let result: ApiResponseContext = { request, response, data };
+
+    for (const interceptor of responseInterceptors) {
+        result = (await interceptor(result)) ?? result;
+    }
+
+    if (!result.response.ok) {
+        throw new ApiError(
+            extractErrorMessage(result.data, result.response),
+            result.response.status,
+            result.data ?? text,
+        );
+    }
+
+    return result.data as T;
+}
+
+/**
+ * Try several candidate paths in order (route naming differs between backend
+ * versions). Moves on to the next path only on 404/405; any other error is thrown.
+ */
+export async function apiFetchFirst<T = unknown>(
+    paths: string[],
+    init: ApiRequestInit = {},
+    fallbackMessage = "Request failed.",
+): Promise<T> {
+    let lastErr: unknown = null;
+
+    for (const path of paths) {
+        try {
+            return await apiFetch<T>(path, init);
+        } catch (e) {
+            lastErr = e;
+            if (isMissingRouteError(e)) continue;
+            throw e;
+        }
+    }
+
+    throw lastErr ?? new Error(fallbackMessage);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    createAppointmentChangeRequestApi,
+    getStudentEvaluationsApi,
+    updateStudentEvaluationDetailsApi,
+} from "@/api/evaluation/route";
+import { stubApi } from "@/test/api-stub";
+
+describe("student evaluation routes", () => {
+    it("lists the student's appointments", async () => {
+        const api = stubApi({ appointments: [{ id: 1, details: "Stress" }] });
+
+        const res = await getStudentEvaluationsApi();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/student/appointments" });
+        expect(res).toEqual({ appointments: [{ id: 1, details: "Stress" }] });
+    });
+
+    it("updates only the details", async () => {
+        const api = stubApi({ appointment: { id: 1, details: "Exam stress" } });
+
+        await updateStudentEvaluationDetailsApi(1, { details: "Exam stress" });
+
+        expect(api.last()).toMatchObject({
+            method: "PUT",
+            path: "/student/appointments/1",
+            body: { details: "Exam stress" },
+        });
+    });
+
+    it("asks the counselor to reschedule", async () => {
+        const api = stubApi({ appointment: { id: 1 } });
+        const payload = {
+            type: "reschedule" as const,
+            proposed_date: "2026-10-21",
+            proposed_time: "09:00",
+            reason: "Exam conflict",
+        };
+
+        await createAppointmentChangeRequestApi(1, payload);
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/student/appointments/1/change-requests",
+            body: payload,
+        });
+    });
+});
@@ -1,6 +1,5 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
-import type { IntakeRequestDto } from "@/api/intake/route";
+import { apiFetch, type ApiError } from "@/api/client";
+import type { AppointmentChangeTypeApi, IntakeRequestDto } from "@/api/intake/route";
 
 /**
  * Response DTO for fetching a student's evaluation records
@@ -30,63 +29,18 @@ export interface UpdateStudentEvaluationDetailsResponseDto {
     appointment: IntakeRequestDto;
 }
 
-export interface EvaluationApiError extends Error {
-    status?: number;
-    data?: unknown;
-}
-
-function resolveEvaluationApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
+/**
+ * Payload for asking the counselor to move or cancel a scheduled session.
+ */
+export interface CreateAppointmentChangeRequestPayload {
+    type: AppointmentChangeTypeApi;
+    /** Required for reschedules: one of the counselor's open slots */
+    proposed_date?: string | null;
+    proposed_time?: string | null;
+    reason: string;
 }
 
-async function evaluationApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveEvaluationApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as EvaluationApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
+export type EvaluationApiError = ApiError;
 
 /**
  * Fetch all counseling-related evaluations (intake requests) for
@@ -96,7 +50,7 @@ async function evaluationApiFetch<T>(path: string, init: RequestInit = {}): Prom
  *   GET /student/appointments
  */
 export async function getStudentEvaluationsApi(): Promise<GetStudentEvaluationsResponseDto> {
-    return evaluationApiFetch<GetStudentEvaluationsResponseDto>("/student/appointments", {
+    return apiFetch<GetStudentEvaluationsResponseDto>("/student/appointments", {
         method: "GET",
     });
 }
@@ -111,8 +65,25 @@ export async function updateStudentEvaluationDetailsApi(
     id: number | string,
     payload: UpdateStudentEvaluationDetailsPayload,
 ): Promise<UpdateStudentEvaluationDetailsResponseDto> {
-    return evaluationApiFetch<UpdateStudentEvaluationDetailsResponseDto>(`/student/appointments/${id}`, {
+    return apiFetch<UpdateStudentEvaluationDetailsResponseDto>(`/student/appointments/${id}`, {
         method: "PUT",
         body: JSON.stringify(payload),
     });
 }
+
+/**
+ * Ask the counselor to reschedule or cancel a scheduled session.
+ * The appointment is only changed once the counselor accepts.
+ *
+ * Backend endpoint:
+ *   POST /student/appointments/{id}/change-requests
+ */
+export async function createAppointmentChangeRequestApi(
+    id: number | string,
+    payload: CreateAppointmentChangeRequestPayload,
+): Promise<UpdateStudentEvaluationDetailsResponseDto> {
+    return apiFetch<UpdateStudentEvaluationDetailsResponseDto>(`/student/appointments/${id}/change-requests`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    cancelGroupSessionApi,
+    createGroupSessionApi,
+    enrollInGroupSessionApi,
+    getCounselorGroupSessionsApi,
+    getStudentGroupSessionsApi,
+    markGroupAttendanceApi,
+    updateGroupSessionApi,
+    withdrawFromGroupSessionApi,
+    type SaveGroupSessionPayload,
+} from "@/api/group-sessions/route";
+import { stubApi } from "@/test/api-stub";
+
+const session: SaveGroupSessionPayload = {
+    kind: "workshop",
+    title: "Study skills",
+    topic: "Exam preparation",
+    location: "Guidance office",
+    date: "2026-10-28",
+    start_time: "13:00",
+    end_time: "15:00",
+    capacity: 20,
+};
+
+describe("group session routes", () => {
+    it.each([
+        ["counselor list", () => getCounselorGroupSessionsApi(), "GET", "/counselor/group-sessions", undefined],
+        ["create", () => createGroupSessionApi(session), "POST", "/counselor/group-sessions", session],
+        ["update", () => updateGroupSessionApi(5, session), "PUT", "/counselor/group-sessions/5", session],
+        [
+            "cancel",
+            () => cancelGroupSessionApi(5, { reason: "Typhoon signal no. 2" }),
+            "POST",
+            "/counselor/group-sessions/5/cancel",
+            { reason: "Typhoon signal no. 2" },
+        ],
+        [
+            "attendance",
+            () => markGroupAttendanceApi(5, 31, { attendance: "no_show" }),
+            "POST",
+            "/counselor/group-sessions/5/participants/31/attendance",
+            { attendance: "no_show" },
+        ],
+        ["student list", () => getStudentGroupSessionsApi(), "GET", "/student/group-sessions", undefined],
+        ["enroll", () => enrollInGroupSessionApi(5), "POST", "/student/group-sessions/5/enroll", undefined],
+        ["withdraw", () => withdrawFromGroupSessionApi(5), "DELETE", "/student/group-sessions/5/enroll", undefined],
+    ])("%s", async (_name, call, method, path, body) => {
+        const api = stubApi({ message: "ok" });
+
+        await expect(call()).resolves.toEqual({ message: "ok" });
+        expect(api.last()).toMatchObject({ method, path });
+        expect(api.last().body).toEqual(body);
+    });
+});
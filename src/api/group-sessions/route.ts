@@ -0,0 +1,175 @@
+import { apiFetch } from "@/api/client";
+import type { AttendanceStatusApi } from "@/api/intake/route";
+
+/**
+ * Group counseling sessions and workshops.
+ *
+ * A counselor runs each session for up to `capacity` students; students enroll
+ * (or withdraw) from their dashboard and the counselor records attendance per
+ * participant. Times are "HH:mm" (24h), like the availability payloads. A
+ * session holds the counselor's time, so one-to-one slots overlapping it are
+ * not offered.
+ */
+
+export type GroupSessionKindApi = "group" | "workshop";
+export type GroupSessionStatusApi = "open" | "cancelled";
+
+export interface GroupSessionParticipantDto {
+    /** Enrollment id */
+    id: number;
+    student_id: number;
+    student_name: string | null;
+    student_email?: string | null;
+    attendance: AttendanceStatusApi | null;
+    attendance_marked_at: string | null;
+    enrolled_at: string;
+}
+
+export interface GroupSessionDto {
+    id: number;
+    counselor_id: number;
+    counselor_name: string | null;
+    kind: GroupSessionKindApi;
+    title: string;
+    topic: string;
+    description: string | null;
+    location: string | null;
+    date: string; // YYYY-MM-DD
+    start_time: string; // HH:mm
+    end_time: string; // HH:mm
+    capacity: number;
+    enrolled_count: number;
+    seats_left: number;
+    status: GroupSessionStatusApi;
+    cancel_reason: string | null;
+    /** Student views: the signed-in student holds a seat */
+    is_enrolled?: boolean;
+    /** Student views: own attendance once recorded */
+    my_attendance?: AttendanceStatusApi | null;
+    /** Counselor views only */
+    participants?: GroupSessionParticipantDto[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SaveGroupSessionPayload {
+    kind: GroupSessionKindApi;
+    title: string;
+    topic: string;
+    description?: string | null;
+    location?: string | null;
+    date: string;
+    start_time: string;
+    end_time: string;
+    capacity: number;
+}
+
+export interface CancelGroupSessionPayload {
+    reason: string;
+}
+
+export interface MarkGroupAttendancePayload {
+    attendance: AttendanceStatusApi;
+}
+
+export interface GetGroupSessionsResponseDto {
+    message?: string;
+    group_sessions: GroupSessionDto[];
+}
+
+export interface GroupSessionResponseDto {
+    message?: string;
+    group_session: GroupSessionDto;
+}
+
+/**
+ * ✅ Counselor: own group sessions and workshops, with participants
+ * GET /counselor/group-sessions
+ */
+export async function getCounselorGroupSessionsApi(): Promise<GetGroupSessionsResponseDto> {
+    return apiFetch<GetGroupSessionsResponseDto>("/counselor/group-sessions", { method: "GET" });
+}
+
+/**
+ * ✅ Counselor: create a group session / workshop
+ * POST /counselor/group-sessions
+ */
+export async function createGroupSessionApi(payload: SaveGroupSessionPayload): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>("/counselor/group-sessions", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: edit details, time or capacity (capacity cannot drop below enrollments)
+ * PUT /counselor/group-sessions/{id}
+ */
+export async function updateGroupSessionApi(
+    id: number | string,
+    payload: SaveGroupSessionPayload,
+): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>(`/counselor/group-sessions/${encodeURIComponent(String(id))}`, {
+        method: "PUT",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: cancel a session (enrolled students are messaged)
+ * POST /counselor/group-sessions/{id}/cancel
+ */
+export async function cancelGroupSessionApi(
+    id: number | string,
+    payload: CancelGroupSessionPayload,
+): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>(`/counselor/group-sessions/${encodeURIComponent(String(id))}/cancel`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: record one participant's attendance
+ * POST /counselor/group-sessions/{id}/participants/{enrollmentId}/attendance
+ */
+export async function markGroupAttendanceApi(
+    id: number | string,
+    enrollmentId: number | string,
+    payload: MarkGroupAttendancePayload,
+): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>(
+        `/counselor/group-sessions/${encodeURIComponent(String(id))}/participants/${encodeURIComponent(
+            String(enrollmentId),
+        )}/attendance`,
+        { method: "POST", body: JSON.stringify(payload) },
+    );
+}
+
+/**
+ * ✅ Student: upcoming open sessions plus every session the student enrolled in
+ * GET /student/group-sessions
+ */
+export async function getStudentGroupSessionsApi(): Promise<GetGroupSessionsResponseDto> {
+    return apiFetch<GetGroupSessionsResponseDto>("/student/group-sessions", { method: "GET" });
+}
+
+/**
+ * ✅ Student: take a seat
+ * POST /student/group-sessions/{id}/enroll
+ */
+export async function enrollInGroupSessionApi(id: number | string): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>(`/student/group-sessions/${encodeURIComponent(String(id))}/enroll`, {
+        method: "POST",
+    });
+}
+
+/**
+ * ✅ Student: give the seat back (before the session starts)
+ * DELETE /student/group-sessions/{id}/enroll
+ */
+export async function withdrawFromGroupSessionApi(id: number | string): Promise<GroupSessionResponseDto> {
+    return apiFetch<GroupSessionResponseDto>(`/student/group-sessions/${encodeURIComponent(String(id))}/enroll`, {
+        method: "DELETE",
+    });
+}
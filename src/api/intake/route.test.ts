@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+
+import { ApiError } from "@/api/client";
+import {
+    acceptAppointmentChangeRequestApi,
+    acknowledgeAssessmentRiskApi,
+    backfillFreedSlotApi,
+    createIntakeAssessmentApi,
+    createIntakeRequestApi,
+    declineAppointmentChangeRequestApi,
+    getAppointmentStatusHistoryApi,
+    getCounselorAppointmentsApi,
+    getCounselorAssessmentsApi,
+    getCounselorStudentHistoryApi,
+    getCounselorStudentProfileApi,
+    getCounselorWaitlistApi,
+    getStudentAssessmentsApi,
+    markAppointmentAttendanceApi,
+    updateCounselorAppointmentApi,
+} from "@/api/intake/route";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+describe("student intake routes", () => {
+    it.each([
+        [
+            "request",
+            () =>
+                createIntakeRequestApi({
+                    concern_type: "academic",
+                    urgency: "medium",
+                    preferred_date: "2026-10-21",
+                    preferred_time: "09:00",
+                    details: "Falling behind",
+                }),
+            "POST",
+            "/student/intake",
+            {
+                concern_type: "academic",
+                urgency: "medium",
+                preferred_date: "2026-10-21",
+                preferred_time: "09:00",
+                details: "Falling behind",
+            },
+        ],
+        [
+            "assessment",
+            () => createIntakeAssessmentApi({ consent: true, mh_sleep: "several_days" }),
+            "POST",
+            "/student/intake/assessment",
+            { consent: true, mh_sleep: "several_days" },
+        ],
+        ["assessment history", () => getStudentAssessmentsApi(), "GET", "/student/intake/assessments", undefined],
+    ])("%s", async (_name, call, method, path, body) => {
+        const api = stubApi({ message: "ok" });
+
+        await expect(call()).resolves.toEqual({ message: "ok" });
+        expect(api.last()).toMatchObject({ method, path });
+        expect(api.last().body).toEqual(body);
+    });
+});
+
+describe("counselor appointment routes", () => {
+    it("pages appointments ten at a time by default", async () => {
+        const api = stubApi({ data: [] });
+
+        await getCounselorAppointmentsApi();
+        await getCounselorAppointmentsApi({ page: 2, per_page: 25, status: "scheduled", search: "  " });
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/counselor/appointments", query: { per_page: "10" } });
+        expect(api.requests[1].query).toEqual({ page: "2", per_page: "25", status: "scheduled" });
+    });
+
+    it.each([
+        [
+            "update",
+            () => updateCounselorAppointmentApi(8, { status: "scheduled", scheduled_date: "2026-10-22", scheduled_time: "10:00" }),
+            "PUT",
+            "/counselor/appointments/8",
+            { status: "scheduled", scheduled_date: "2026-10-22", scheduled_time: "10:00" },
+        ],
+        ["status history", () => getAppointmentStatusHistoryApi(8), "GET", "/counselor/appointments/8/status-history", undefined],
+        ["backfill", () => backfillFreedSlotApi(8), "POST", "/counselor/appointments/8/backfill", {}],
+        [
+            "backfill a chosen request",
+            () => backfillFreedSlotApi(8, { intake_request_id: 14 }),
+            "POST",
+            "/counselor/appointments/8/backfill",
+            { intake_request_id: 14 },
+        ],
+        [
+            "attendance",
+            () => markAppointmentAttendanceApi(8, { attendance: "attended" }),
+            "POST",
+            "/counselor/appointments/8/attendance",
+            { attendance: "attended" },
+        ],
+        [
+            "accept change",
+            () => acceptAppointmentChangeRequestApi(3),
+            "POST",
+            "/counselor/appointment-change-requests/3/accept",
+            {},
+        ],
+        [
+            "decline change",
+            () => declineAppointmentChangeRequestApi(3, { note: "No open slots that day" }),
+            "POST",
+            "/counselor/appointment-change-requests/3/decline",
+            { note: "No open slots that day" },
+        ],
+        ["student profile", () => getCounselorStudentProfileApi(4), "GET", "/counselor/students/4", undefined],
+        ["student history", () => getCounselorStudentHistoryApi(4), "GET", "/counselor/students/4/history", undefined],
+    ])("%s", async (_name, call, method, path, body) => {
+        const api = stubApi({ message: "ok" });
+
+        await expect(call()).resolves.toEqual({ message: "ok" });
+        expect(api.last()).toMatchObject({ method, path });
+        expect(api.last().body).toEqual(body);
+    });
+
+    it("defaults missing waitlist arrays to empty", async () => {
+        const api = stubApi({ waitlist: [{ id: 14 }], freed_slots: null });
+
+        const res = await getCounselorWaitlistApi();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/counselor/waitlist" });
+        expect(res).toEqual({ message: undefined, waitlist: [{ id: 14 }], freed_slots: [] });
+    });
+});
+
+describe("counselor assessment routes", () => {
+    it("falls back to the older assessment paths", async () => {
+        const api = stubApi((req) =>
+            req.path === "/counselor/intake-assessments" ? { data: [{ id: 1 }] } : stubStatus(404, { message: "Not Found" }),
+        );
+
+        const res = await getCounselorAssessmentsApi();
+
+        expect(api.requests.map((r) => r.path)).toEqual([
+            "/counselor/assessments",
+            "/counselor/intake/assessments",
+            "/counselor/intake-assessments",
+        ]);
+        expect(res).toEqual({ message: undefined, assessments: [{ id: 1 }] });
+    });
+
+    it("stops at the first error that is not a missing route", async () => {
+        const api = stubApi(stubStatus(500, { message: "Server Error" }));
+
+        const error = await getCounselorAssessmentsApi().catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(500);
+        expect(api.requests).toHaveLength(1);
+    });
+
+    it("acknowledges a self-harm flag", async () => {
+        const payload = { follow_up_action: "contacted_student" as const, follow_up_notes: "Called; safe with family." };
+        const api = stubApi((req) =>
+            req.path.startsWith("/counselor/assessments") ? stubStatus(405) : { assessment: { id: 6 } },
+        );
+
+        const res = await acknowledgeAssessmentRiskApi(6, payload);
+
+        expect(api.requests.map((r) => r.path)).toEqual([
+            "/counselor/assessments/6/acknowledge-risk",
+            "/counselor/intake/assessments/6/acknowledge-risk",
+        ]);
+        expect(api.last()).toMatchObject({ method: "POST", body: payload });
+        expect(res).toEqual({ assessment: { id: 6 } });
+    });
+});
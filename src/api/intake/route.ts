@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
+import { apiFetch, apiFetchFirst, type ApiError } from "@/api/client";
 
 export type MentalFrequencyApi =
     | "not_at_all"
@@ -7,6 +7,90 @@ export type MentalFrequencyApi =
     | "more_than_half"
     | "nearly_every_day";
 
+/**
+ * Documented follow-up a counselor records when acknowledging a self-harm flag.
+ */
+export type RiskFollowUpActionApi =
+    | "contacted_student"
+    | "urgent_session_scheduled"
+    | "guardian_notified"
+    | "referred_external"
+    | "emergency_services"
+    | "other";
+
+/**
+ * Appointment lifecycle (allowed transitions live in `@/lib/appointment-status`):
+ * requested → scheduled → rescheduled → completed / cancelled / no_show
+ */
+export type AppointmentStatusApi =
+    | "requested"
+    | "scheduled"
+    | "rescheduled"
+    | "completed"
+    | "cancelled"
+    | "no_show";
+
+/**
+ * One audited status change (or reschedule) of an appointment.
+ */
+export interface AppointmentStatusChangeDto {
+    id: number;
+    /** null for the entry created with the request */
+    from_status: AppointmentStatusApi | null;
+    to_status: AppointmentStatusApi;
+    /** Required for cancellations */
+    reason: string | null;
+    /** Final schedule right after the change */
+    scheduled_date: string | null;
+    scheduled_time: string | null;
+    changed_by_id: number | string | null;
+    changed_by_name: string | null;
+    changed_by_role: string | null;
+    changed_at: string;
+}
+
+/**
+ * What a student asks to change on an already-scheduled session.
+ */
+export type AppointmentChangeTypeApi = "reschedule" | "cancel";
+
+export type AppointmentChangeRequestStatusApi = "pending" | "accepted" | "declined";
+
+/**
+ * A student's reschedule / cancellation request, decided by the counselor.
+ */
+export interface AppointmentChangeRequestDto {
+    id: number;
+    appointment_id: number;
+    type: AppointmentChangeTypeApi;
+    /** Reschedules only */
+    proposed_date: string | null;
+    proposed_time: string | null;
+    reason: string;
+    status: AppointmentChangeRequestStatusApi;
+    requested_by_name: string | null;
+    /** Optional counselor note sent back with the decision */
+    decision_note: string | null;
+    decided_by_name: string | null;
+    decided_at: string | null;
+    created_at: string;
+}
+
+/**
+ * Whether the student showed up for a scheduled session (set by the counselor).
+ * - late_cancel: cancelled too close to the session for the slot to be reused
+ */
+export type AttendanceStatusApi = "attended" | "no_show" | "late_cancel";
+
+/**
+ * Answers to one additional screening instrument (GAD-7, PSS-10, …).
+ * Item keys and option values are defined in `@/lib/instruments`.
+ */
+export interface ScreeningResponseDto {
+    instrument: string;
+    responses: Record<string, string | null>;
+}
+
 /**
  * DTO for the main intake request (concern + preferred schedule).
  * Backed by the `intake_requests` table.
@@ -26,9 +110,27 @@ export interface IntakeRequestDto {
     // Counselor final schedule ✅
     scheduled_date?: string | null; // ISO date string (YYYY-MM-DD)
     scheduled_time?: string | null; // e.g. "8:00 AM"
+    /** Bumped on every schedule/status change (iCalendar SEQUENCE) */
+    schedule_sequence?: number | null;
+    /** Counselor holding the slot */
+    counselor_id?: number | string | null;
+    counselor_name?: string | null;
 
     details: string;
-    status: string;
+    /** Older records may still carry legacy values ("pending", "canceled"); see `normalizeAppointmentStatus` */
+    status: AppointmentStatusApi;
+
+    // Attendance (null until the counselor marks it)
+    attendance?: AttendanceStatusApi | null;
+    attendance_marked_at?: string | null;
+
+    /** Set while the request waits for a freed slot (see `@/lib/waitlist`) */
+    waitlisted_at?: string | null;
+    /** 1-based place in the queue (urgency first, then submission time) */
+    waitlist_position?: number | null;
+
+    /** Latest student reschedule / cancellation request (pending or decided) */
+    change_request?: AppointmentChangeRequestDto | null;
 
     /**
      * ✅ Optional convenience fields for counselor table view
@@ -71,6 +173,22 @@ export interface IntakeAssessmentDto {
     mh_motor?: MentalFrequencyApi | null;
     mh_self_harm?: MentalFrequencyApi | null;
 
+    /**
+     * ✅ Self-harm triage (item 9 answered above "not_at_all").
+     * `high_risk` is set by the backend on submission; the acknowledgment
+     * fields stay null until a counselor documents the follow-up.
+     */
+    high_risk?: boolean | null;
+    risk_flagged_at?: string | null;
+    risk_acknowledged_at?: string | null;
+    risk_acknowledged_by?: number | string | null;
+    risk_acknowledged_by_name?: string | null;
+    risk_follow_up_action?: RiskFollowUpActionApi | null;
+    risk_follow_up_notes?: string | null;
+
+    // Additional screening instruments administered with the PHQ-9
+    screenings?: ScreeningResponseDto[] | null;
+
     created_at?: string;
     updated_at?: string;
     [key: string]: unknown;
@@ -82,9 +200,14 @@ export interface IntakeAssessmentDto {
 export interface CreateIntakeRequestPayload {
     concern_type: string;
     urgency: "low" | "medium" | "high";
-    preferred_date: string;
-    preferred_time: string;
+    /** Omitted when joining the waitlist */
+    preferred_date?: string | null;
+    preferred_time?: string | null;
     details: string;
+    /** Counselor of the booked slot (see `/availability/slots`); the backend rejects taken slots. */
+    counselor_id?: number | string | null;
+    /** No open slot fits: queue for the next freed slot instead of booking one */
+    waitlist?: boolean;
 }
 
 /**
@@ -109,6 +232,8 @@ export interface CreateIntakeAssessmentPayload {
     mh_concentration?: MentalFrequencyApi;
     mh_motor?: MentalFrequencyApi;
     mh_self_harm?: MentalFrequencyApi;
+
+    screenings?: ScreeningResponseDto[];
 }
 
 export interface CreateIntakeRequestResponseDto {
@@ -164,7 +289,9 @@ export type GetCounselorAppointmentsResponseDto = PaginatedResponseDto<IntakeReq
 export interface CounselorUpdateAppointmentPayload {
     scheduled_date?: string | null;
     scheduled_time?: string | null;
-    status?: string | null;
+    status?: AppointmentStatusApi | null;
+    /** Required when `status` is "cancelled" */
+    status_reason?: string | null;
     details?: string;
 }
 
@@ -173,6 +300,44 @@ export interface CounselorUpdateAppointmentResponseDto {
     appointment: IntakeRequestDto;
 }
 
+export interface GetAppointmentStatusHistoryResponseDto {
+    message?: string;
+    history: AppointmentStatusChangeDto[];
+}
+
+/**
+ * Future slot released by a cancelled session and still open for booking.
+ */
+export interface FreedSlotDto {
+    /** The cancelled appointment that held the slot */
+    appointment_id: number;
+    counselor_id: number | string;
+    counselor_name: string | null;
+    date: string; // YYYY-MM-DD
+    time: string; // e.g. "10:00 AM"
+}
+
+export interface GetCounselorWaitlistResponseDto {
+    message?: string;
+    /** Already in queue order */
+    waitlist: IntakeRequestDto[];
+    freed_slots: FreedSlotDto[];
+}
+
+export interface BackfillFreedSlotPayload {
+    /** Defaults to the next eligible request on the waitlist */
+    intake_request_id?: number | string | null;
+}
+
+export interface MarkAppointmentAttendancePayload {
+    attendance: AttendanceStatusApi;
+}
+
+export interface DecideAppointmentChangeRequestPayload {
+    /** Shown to the student; recommended when declining */
+    note?: string | null;
+}
+
 /**
  * Counselor-only student profile DTO (minimal safe data).
  */
@@ -228,76 +393,17 @@ export interface GetCounselorAssessmentsResponseDto {
     assessments: CounselorAssessmentRecordDto[];
 }
 
-export interface IntakeApiError extends Error {
-    status?: number;
-    data?: unknown;
-}
-
-function resolveIntakeApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
+export interface AcknowledgeAssessmentRiskPayload {
+    follow_up_action: RiskFollowUpActionApi;
+    follow_up_notes: string;
 }
 
-function buildQueryString(params?: Record<string, any>): string {
-    if (!params) return "";
-    const sp = new URLSearchParams();
-
-    Object.entries(params).forEach(([k, v]) => {
-        if (v === undefined || v === null || v === "") return;
-        sp.set(k, String(v));
-    });
-
-    const qs = sp.toString();
-    return qs ? `?${qs}` : "";
+export interface AcknowledgeAssessmentRiskResponseDto {
+    message?: string;
+    assessment: CounselorAssessmentRecordDto;
 }
 
-async function intakeApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveIntakeApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as IntakeApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
+export type IntakeApiError = ApiError;
 
 /** -----------------------------
  * Student Endpoints
@@ -306,7 +412,7 @@ async function intakeApiFetch<T>(path: string, init: RequestInit = {}): Promise<
 export async function createIntakeRequestApi(
     payload: CreateIntakeRequestPayload,
 ): Promise<CreateIntakeRequestResponseDto> {
-    return intakeApiFetch<CreateIntakeRequestResponseDto>("/student/intake", {
+    return apiFetch<CreateIntakeRequestResponseDto>("/student/intake", {
         method: "POST",
         body: JSON.stringify(payload),
     });
@@ -315,14 +421,14 @@ export async function createIntakeRequestApi(
 export async function createIntakeAssessmentApi(
     payload: CreateIntakeAssessmentPayload,
 ): Promise<CreateIntakeAssessmentResponseDto> {
-    return intakeApiFetch<CreateIntakeAssessmentResponseDto>("/student/intake/assessment", {
+    return apiFetch<CreateIntakeAssessmentResponseDto>("/student/intake/assessment", {
         method: "POST",
         body: JSON.stringify(payload),
     });
 }
 
 export async function getStudentAssessmentsApi(): Promise<GetStudentAssessmentsResponseDto> {
-    return intakeApiFetch<GetStudentAssessmentsResponseDto>("/student/intake/assessments", {
+    return apiFetch<GetStudentAssessmentsResponseDto>("/student/intake/assessments", {
         method: "GET",
     });
 }
@@ -339,32 +445,121 @@ export async function getStudentAssessmentsApi(): Promise<GetStudentAssessmentsR
 export async function getCounselorAppointmentsApi(
     query?: GetCounselorAppointmentsQuery,
 ): Promise<GetCounselorAppointmentsResponseDto> {
-    const qs = buildQueryString({
-        page: query?.page,
-        per_page: query?.per_page ?? 10,
-        status: query?.status,
-        search: query?.search,
-    });
-
-    return intakeApiFetch<GetCounselorAppointmentsResponseDto>(`/counselor/appointments${qs}`, {
+    return apiFetch<GetCounselorAppointmentsResponseDto>("/counselor/appointments", {
         method: "GET",
+        query: {
+            page: query?.page,
+            per_page: query?.per_page ?? 10,
+            status: query?.status,
+            search: query?.search,
+        },
     });
 }
 
 /**
  * ✅ Counselor updates appointment schedule/status/details
  * PUT /counselor/appointments/{id}
+ *
+ * Rejects with 409 when the new schedule would double-book the counselor
+ * (`getScheduleConflict` from `@/api/availability/route` reads the clash).
  */
 export async function updateCounselorAppointmentApi(
     id: number | string,
     payload: CounselorUpdateAppointmentPayload,
 ): Promise<CounselorUpdateAppointmentResponseDto> {
-    return intakeApiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointments/${id}`, {
+    return apiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointments/${id}`, {
         method: "PUT",
         body: JSON.stringify(payload),
     });
 }
 
+/**
+ * ✅ Audit trail of an appointment's status changes, oldest first
+ * GET /counselor/appointments/{id}/status-history
+ */
+export async function getAppointmentStatusHistoryApi(
+    id: number | string,
+): Promise<GetAppointmentStatusHistoryResponseDto> {
+    return apiFetch<GetAppointmentStatusHistoryResponseDto>(`/counselor/appointments/${id}/status-history`, {
+        method: "GET",
+    });
+}
+
+/**
+ * ✅ Waitlisted requests and slots freed by cancellations
+ * GET /counselor/waitlist
+ */
+export async function getCounselorWaitlistApi(): Promise<GetCounselorWaitlistResponseDto> {
+    const json = await apiFetch<any>("/counselor/waitlist", { method: "GET" });
+    return {
+        message: json?.message,
+        waitlist: Array.isArray(json?.waitlist) ? json.waitlist : [],
+        freed_slots: Array.isArray(json?.freed_slots) ? json.freed_slots : [],
+    };
+}
+
+/**
+ * ✅ Give a cancelled session's slot to a waitlisted student
+ * POST /counselor/appointments/{cancelledId}/backfill
+ *
+ * Returns the newly scheduled appointment; the student is notified by message.
+ */
+export async function backfillFreedSlotApi(
+    cancelledAppointmentId: number | string,
+    payload: BackfillFreedSlotPayload = {},
+): Promise<CounselorUpdateAppointmentResponseDto> {
+    return apiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointments/${cancelledAppointmentId}/backfill`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor records attendance of a scheduled session
+ * POST /counselor/appointments/{id}/attendance
+ *
+ * "attended" / "no_show" are only accepted once the session has started.
+ */
+export async function markAppointmentAttendanceApi(
+    id: number | string,
+    payload: MarkAppointmentAttendancePayload,
+): Promise<CounselorUpdateAppointmentResponseDto> {
+    return apiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointments/${id}/attendance`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor accepts a student's reschedule / cancellation request
+ * POST /counselor/appointment-change-requests/{id}/accept
+ *
+ * Applies the change to the appointment (409 when the proposed time is taken by now).
+ */
+export async function acceptAppointmentChangeRequestApi(
+    id: number | string,
+    payload: DecideAppointmentChangeRequestPayload = {},
+): Promise<CounselorUpdateAppointmentResponseDto> {
+    return apiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointment-change-requests/${id}/accept`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor declines a student's reschedule / cancellation request
+ * POST /counselor/appointment-change-requests/{id}/decline
+ */
+export async function declineAppointmentChangeRequestApi(
+    id: number | string,
+    payload: DecideAppointmentChangeRequestPayload = {},
+): Promise<CounselorUpdateAppointmentResponseDto> {
+    return apiFetch<CounselorUpdateAppointmentResponseDto>(`/counselor/appointment-change-requests/${id}/decline`, {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
 /**
  * ✅ Counselor student profile
  * GET /counselor/students/{studentId}
@@ -372,7 +567,7 @@ export async function updateCounselorAppointmentApi(
 export async function getCounselorStudentProfileApi(
     studentId: number | string,
 ): Promise<GetCounselorStudentProfileResponseDto> {
-    return intakeApiFetch<GetCounselorStudentProfileResponseDto>(`/counselor/students/${studentId}`, {
+    return apiFetch<GetCounselorStudentProfileResponseDto>(`/counselor/students/${studentId}`, {
         method: "GET",
     });
 }
@@ -384,7 +579,7 @@ export async function getCounselorStudentProfileApi(
 export async function getCounselorStudentHistoryApi(
     studentId: number | string,
 ): Promise<GetCounselorStudentHistoryResponseDto> {
-    return intakeApiFetch<GetCounselorStudentHistoryResponseDto>(
+    return apiFetch<GetCounselorStudentHistoryResponseDto>(
         `/counselor/students/${studentId}/history`,
         { method: "GET" },
     );
@@ -398,29 +593,30 @@ export async function getCounselorStudentHistoryApi(
  * { assessments: [...] }
  */
 export async function getCounselorAssessmentsApi(): Promise<GetCounselorAssessmentsResponseDto> {
-    const tryPaths = [
-        "/counselor/assessments",
-        "/counselor/intake/assessments",
-        "/counselor/intake-assessments",
-    ];
-
-    let lastErr: any = null;
-
-    for (const path of tryPaths) {
-        try {
-            const json = await intakeApiFetch<any>(path, { method: "GET" });
-            const assessments = (json?.assessments ?? json?.data ?? json) as CounselorAssessmentRecordDto[];
-            return {
-                message: json?.message,
-                assessments: Array.isArray(assessments) ? assessments : [],
-            };
-        } catch (e: any) {
-            lastErr = e;
-            const status = Number(e?.status);
-            if (status === 404 || status === 405) continue;
-            throw e;
-        }
-    }
-
-    throw lastErr ?? new Error("Failed to fetch counselor assessments.");
+    const json = await apiFetchFirst<any>(
+        ["/counselor/assessments", "/counselor/intake/assessments", "/counselor/intake-assessments"],
+        { method: "GET" },
+        "Failed to fetch counselor assessments.",
+    );
+
+    const assessments = (json?.assessments ?? json?.data ?? json) as CounselorAssessmentRecordDto[];
+    return {
+        message: json?.message,
+        assessments: Array.isArray(assessments) ? assessments : [],
+    };
+}
+
+/**
+ * ✅ Counselor acknowledges a self-harm flag and documents the follow-up
+ * POST /counselor/assessments/{id}/acknowledge-risk
+ */
+export async function acknowledgeAssessmentRiskApi(
+    id: number | string,
+    payload: AcknowledgeAssessmentRiskPayload,
+): Promise<AcknowledgeAssessmentRiskResponseDto> {
+    return apiFetchFirst<AcknowledgeAssessmentRiskResponseDto>(
+        [`/counselor/assessments/${id}/acknowledge-risk`, `/counselor/intake/assessments/${id}/acknowledge-risk`],
+        { method: "POST", body: JSON.stringify(payload) },
+        "Failed to acknowledge the self-harm flag.",
+    );
 }
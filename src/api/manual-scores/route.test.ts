@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { ApiError } from "@/api/client";
+import {
+    caseLoadStudentSchema,
+    getCounselorCaseLoadApi,
+    getCounselorManualScoresApi,
+    getStudentManualScoresApi,
+    getStudentUsersApi,
+    saveManualScoreApi,
+} from "@/api/manual-scores/route";
+import { parseDto } from "@/api/schema";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+describe("getCounselorCaseLoadApi", () => {
+    it("loads the counselor's case load", async () => {
+        const api = stubApi({ students: [{ id: 4, name: "Ana Cruz" }] });
+
+        await expect(getCounselorCaseLoadApi()).resolves.toEqual({ students: [{ id: 4, name: "Ana Cruz" }] });
+        expect(api.last()).toMatchObject({ method: "GET", path: "/counselor/case-load" });
+    });
+
+    it("joins split name columns when no full name is sent", () => {
+        expect(parseDto(caseLoadStudentSchema, { id: 4, first_name: "Ana", last_name: "Cruz" }).name).toBe("Ana Cruz");
+        expect(parseDto(caseLoadStudentSchema, { id: 4, user: { first_name: "Ben", last_name: " " } }).name).toBe("Ben");
+        expect(parseDto(caseLoadStudentSchema, { id: 4, name: "Full", first_name: "Ana" }).name).toBe("Full");
+        expect(parseDto(caseLoadStudentSchema, { id: 4 }).name).toBeNull();
+    });
+});
+
+describe("getStudentUsersApi", () => {
+    it("tries each directory until one exists", async () => {
+        const api = stubApi((req) =>
+            req.path === "/users" && req.query.account_type === "student"
+                ? { users: [{ id: 4, name: "Ana Cruz" }] }
+                : stubStatus(404),
+        );
+
+        const res = await getStudentUsersApi();
+
+        expect(api.requests.map((r) => [r.path, r.query])).toEqual([
+            ["/students", {}],
+            ["/users", { role: "student" }],
+            ["/users", { account_type: "student" }],
+        ]);
+        expect(res.users).toEqual([{ id: 4, name: "Ana Cruz" }]);
+        expect(res.students).toBeUndefined();
+    });
+
+    it("stops on errors other than a missing route", async () => {
+        const api = stubApi(stubStatus(403, { message: "Forbidden" }));
+
+        const error = await getStudentUsersApi().catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(403);
+        expect(api.requests).toHaveLength(1);
+    });
+
+    it("rethrows the last 404 when no directory exists", async () => {
+        const api = stubApi(stubStatus(404, { message: "Not Found" }));
+
+        await expect(getStudentUsersApi()).rejects.toThrow("Not Found");
+        expect(api.requests).toHaveLength(4);
+    });
+});
+
+describe("manual scores", () => {
+    it("sends both assessed_date and date when saving", async () => {
+        const api = stubApi({ message: "Saved", record: { id: 3, score: 14 } });
+
+        const res = await saveManualScoreApi({ student_id: 4, score: 14, assessed_date: "2026-10-19" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/counselor/manual-scores",
+            body: { student_id: 4, score: 14, assessed_date: "2026-10-19", date: "2026-10-19" },
+        });
+        expect(res).toEqual({ message: "Saved", record: { id: 3, score: 14 } });
+    });
+
+    it("reads the saved record from `data` as well", async () => {
+        stubApi({ data: { id: 3 } });
+
+        await expect(saveManualScoreApi({ student_id: 4, score: 3, assessed_date: "2026-10-19" })).resolves.toEqual({
+            message: undefined,
+            record: { id: 3 },
+        });
+    });
+
+    it("lists one student's scores, falling back to the legacy path", async () => {
+        const api = stubApi((req) => (req.path === "/counselor/manual-scores" ? stubStatus(405) : { data: [{ id: 3 }] }));
+
+        const res = await getStudentManualScoresApi(4);
+
+        expect(api.requests.map((r) => [r.path, r.query])).toEqual([
+            ["/counselor/manual-scores", { student_id: "4" }],
+            ["/counselor/manual-scores/student/4", {}],
+        ]);
+        expect(res.scores).toEqual([{ id: 3 }]);
+    });
+
+    it("lists every score of the counselor", async () => {
+        const api = stubApi({ scores: [{ id: 3 }, { id: 5 }] });
+
+        const res = await getCounselorManualScoresApi();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/counselor/manual-scores", query: {} });
+        expect(res.scores).toHaveLength(2);
+
+        stubApi({ scores: null });
+        await expect(getCounselorManualScoresApi()).resolves.toMatchObject({ scores: [] });
+    });
+});
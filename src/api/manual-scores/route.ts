@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route"
+import { apiFetch, apiFetchFirst, isMissingRouteError, type ApiError } from "@/api/client"
+import { defineSchema, optional, required, t } from "@/api/schema"
 
 export type ManualScoreRatingApi =
     | "Poor"
@@ -27,6 +28,9 @@ export interface ManualAssessmentScoreDto {
 
     remarks?: string | null
 
+    // Set when written by a treatment plan progress update
+    treatment_plan_id?: number | string | null
+
     created_at?: string
     updated_at?: string
 
@@ -53,6 +57,39 @@ export interface CaseLoadStudentDto {
     [key: string]: unknown
 }
 
+/**
+ * Case-load and directory endpoints return either a flat student row or a
+ * wrapper with the user nested under `user` / `student`.
+ * Passthrough: pages read extra profile columns straight off the row.
+ */
+export const caseLoadStudentSchema = defineSchema<CaseLoadStudentDto>(
+    "CaseLoadStudentDto",
+    {
+        id: required(t.id, "", ["user.id", "student.id"]),
+        name: optional(t.string, [
+            "full_name",
+            "fullName",
+            "student_name",
+            "studentName",
+            "user.name",
+            "student.name",
+            // Some directories only expose split name columns
+            "first_name+last_name",
+            "user.first_name+user.last_name",
+        ]),
+        email: optional(t.string, ["user.email", "student.email"]),
+
+        student_id: optional(t.string, ["studentId", "user.student_id", "student.student_id"]),
+        program: optional(t.string, ["course", "user.program", "student.program"]),
+        year_level: optional(t.string, ["yearLevel", "user.year_level", "student.year_level"]),
+
+        avatar_url: optional(t.string, ["avatarUrl", "profile_photo_url", "user.avatar_url", "user.avatarUrl"]),
+        course: optional(t.string, ["user.course"]),
+        gender: optional(t.string, ["user.gender"]),
+    },
+    { passthrough: true },
+)
+
 export interface GetCaseLoadResponseDto {
     message?: string
     students: CaseLoadStudentDto[]
@@ -93,55 +130,7 @@ export interface GetStudentsDirectoryResponseDto {
     [key: string]: unknown
 }
 
-export interface ManualScoresApiError extends Error {
-    status?: number
-    data?: unknown
-}
-
-function resolveManualScoresApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.")
-    }
-    const trimmedPath = path.replace(/^\/+/, "")
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`
-}
-
-async function manualScoresApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveManualScoresApiUrl(path)
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    })
-
-    const text = await response.text()
-    let data: unknown = null
-
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any
-        const message =
-            body?.message ||
-            body?.error ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server."
-
-        const error = new Error(message) as ManualScoresApiError
-        error.status = response.status
-        error.data = body ?? text
-        throw error
-    }
-
-    return data as T
-}
+export type ManualScoresApiError = ApiError
 
 function extractArray<T = any>(json: any): T[] {
     if (Array.isArray(json)) return json as T[]
@@ -169,7 +158,7 @@ function extractArray<T = any>(json: any): T[] {
  * GET /counselor/case-load
  */
 export async function getCounselorCaseLoadApi(): Promise<GetCaseLoadResponseDto> {
-    return manualScoresApiFetch<GetCaseLoadResponseDto>("/counselor/case-load", {
+    return apiFetch<GetCaseLoadResponseDto>("/counselor/case-load", {
         method: "GET",
     })
 }
@@ -194,7 +183,7 @@ export async function getStudentUsersApi(): Promise<GetStudentsDirectoryResponse
 
     for (const path of tryPaths) {
         try {
-            const json = await manualScoresApiFetch<any>(path, { method: "GET" })
+            const json = await apiFetch<any>(path, { method: "GET" })
             // If any of these shapes contain an array, treat it as a success
             const list = extractArray<CaseLoadStudentDto>(json)
             if (Array.isArray(list)) {
@@ -208,8 +197,7 @@ export async function getStudentUsersApi(): Promise<GetStudentsDirectoryResponse
             }
         } catch (e: any) {
             lastErr = e
-            const status = Number(e?.status)
-            if (status === 404 || status === 405) continue
+            if (isMissingRouteError(e)) continue
             // other errors should stop early (auth, 500, etc.)
             throw e
         }
@@ -231,7 +219,7 @@ export async function saveManualScoreApi(payload: SaveManualScorePayload): Promi
         date: payload.date ?? payload.assessed_date,
     }
 
-    const json = await manualScoresApiFetch<any>("/counselor/manual-scores", {
+    const json = await apiFetch<any>("/counselor/manual-scores", {
         method: "POST",
         body: JSON.stringify(body),
     })
@@ -257,27 +245,17 @@ export async function getStudentManualScoresApi(
 ): Promise<GetStudentManualScoresResponseDto> {
     const sid = encodeURIComponent(String(studentId))
 
-    const tryPaths = [
-        `/counselor/manual-scores?student_id=${sid}`,
-        `/counselor/manual-scores/student/${sid}`, // legacy/optional
-    ]
-
-    let lastErr: any = null
-
-    for (const path of tryPaths) {
-        try {
-            const json = await manualScoresApiFetch<any>(path, { method: "GET" })
-            const scores = (json?.scores ?? json?.data ?? json) as ManualAssessmentScoreDto[]
-            return { message: json?.message, scores: Array.isArray(scores) ? scores : [] }
-        } catch (e: any) {
-            lastErr = e
-            const status = Number(e?.status)
-            if (status === 404 || status === 405) continue
-            throw e
-        }
-    }
-
-    throw lastErr ?? new Error("Failed to fetch manual scores.")
+    const json = await apiFetchFirst<any>(
+        [
+            `/counselor/manual-scores?student_id=${sid}`,
+            `/counselor/manual-scores/student/${sid}`, // legacy/optional
+        ],
+        { method: "GET" },
+        "Failed to fetch manual scores.",
+    )
+
+    const scores = (json?.scores ?? json?.data ?? json) as ManualAssessmentScoreDto[]
+    return { message: json?.message, scores: Array.isArray(scores) ? scores : [] }
 }
 
 /**
@@ -285,27 +263,17 @@ export async function getStudentManualScoresApi(
  * GET /counselor/manual-scores
  */
 export async function getCounselorManualScoresApi(): Promise<GetStudentManualScoresResponseDto> {
-    const tryPaths = [
-        `/counselor/manual-scores`,
-        `/counselor/manual-scores?student_id=`, // harmless fallback (backend ignores non-digit)
-    ]
-
-    let lastErr: any = null
-
-    for (const path of tryPaths) {
-        try {
-            const json = await manualScoresApiFetch<any>(path, { method: "GET" })
-            const scores = (json?.scores ?? json?.data ?? json) as ManualAssessmentScoreDto[]
-            return { message: json?.message, scores: Array.isArray(scores) ? scores : [] }
-        } catch (e: any) {
-            lastErr = e
-            const status = Number(e?.status)
-            if (status === 404 || status === 405) continue
-            throw e
-        }
-    }
-
-    throw lastErr ?? new Error("Failed to fetch counselor manual scores.")
+    const json = await apiFetchFirst<any>(
+        [
+            `/counselor/manual-scores`,
+            `/counselor/manual-scores?student_id=`, // harmless fallback (backend ignores non-digit)
+        ],
+        { method: "GET" },
+        "Failed to fetch counselor manual scores.",
+    )
+
+    const scores = (json?.scores ?? json?.data ?? json) as ManualAssessmentScoreDto[]
+    return { message: json?.message, scores: Array.isArray(scores) ? scores : [] }
 }
 
 // re-export extractor (optional internal use)
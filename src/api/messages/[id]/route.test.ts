@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    markCounselorMessageReadByIdApi,
+    markReferralUserMessageReadByIdApi,
+    markStudentMessageReadByIdApi,
+} from "@/api/messages/[id]/route";
+import { stubApi } from "@/test/api-stub";
+
+describe.each([
+    ["student", markStudentMessageReadByIdApi, "/student/messages/mark-as-read"],
+    ["counselor", markCounselorMessageReadByIdApi, "/counselor/messages/mark-as-read"],
+    ["referral user", markReferralUserMessageReadByIdApi, "/referral-user/messages/mark-as-read"],
+])("mark one message read (%s)", (_role, markRead, path) => {
+    it("posts the id as an integer", async () => {
+        const api = stubApi({ updated_count: 1 });
+
+        await expect(markRead("31")).resolves.toEqual({ updated_count: 1 });
+        expect(api.last()).toMatchObject({ method: "POST", path, body: { message_ids: [31] } });
+    });
+
+    it("rejects ids that are not integers without sending anything", async () => {
+        const api = stubApi({});
+
+        await expect(markRead("abc")).rejects.toThrow("Message ID must be a valid integer.");
+        await expect(markRead(1.5)).rejects.toThrow("Message ID must be an integer.");
+        expect(api.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,248 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+    createCounselorMessageApi,
+    createReferralUserMessageApi,
+    createStudentMessageApi,
+    deleteMessageApi,
+    getCounselorConversationMessagesApi,
+    getCounselorConversationsApi,
+    getCounselorMessagesApi,
+    getMessageAttachmentApi,
+    getReferralUserConversationMessagesApi,
+    getReferralUserConversationsApi,
+    getReferralUserMessagesApi,
+    getStudentConversationMessagesApi,
+    getStudentConversationsApi,
+    getStudentMessagesApi,
+    markCounselorMessagesReadApi,
+    markReferralUserMessagesReadApi,
+    markStudentMessagesReadApi,
+    searchCounselorMessagesApi,
+    updateMessageApi,
+} from "@/api/messages/route";
+import { stubApi } from "@/test/api-stub";
+
+const rawMessage = {
+    id: 31,
+    senderId: 2,
+    sender_role: "counselor",
+    senderName: "Ms. Reyes",
+    recipient_user: { id: 4, name: "Ana Cruz" },
+    body: "See you tomorrow",
+    isRead: 1,
+    createdAt: "2026-10-19T08:00:00Z",
+    files: [{ id: 5, original_name: "plan.pdf", mime: "application/pdf", bytes: 2048, scanStatus: "clean", createdAt: "2026-10-19T08:00:00Z" }],
+};
+
+const rawConversation = {
+    conversationId: 9,
+    peer: { id: 4, role: "student", name: "Ana Cruz" },
+    unreadCount: "2",
+    lastMessage: rawMessage,
+    lastMessageAt: "2026-10-19T08:00:00Z",
+};
+
+describe.each([
+    {
+        role: "student",
+        prefix: "/student/messages",
+        list: getStudentMessagesApi,
+        create: createStudentMessageApi,
+        conversations: getStudentConversationsApi,
+        history: getStudentConversationMessagesApi,
+        markRead: markStudentMessagesReadApi,
+    },
+    {
+        role: "counselor",
+        prefix: "/counselor/messages",
+        list: getCounselorMessagesApi,
+        create: createCounselorMessageApi,
+        conversations: getCounselorConversationsApi,
+        history: getCounselorConversationMessagesApi,
+        markRead: markCounselorMessagesReadApi,
+    },
+    {
+        role: "referral user",
+        prefix: "/referral-user/messages",
+        list: getReferralUserMessagesApi,
+        create: createReferralUserMessageApi,
+        conversations: getReferralUserConversationsApi,
+        history: getReferralUserConversationMessagesApi,
+        markRead: markReferralUserMessagesReadApi,
+    },
+])("$role messages", ({ prefix, list, create, conversations, history, markRead }) => {
+    it("lists and normalizes messages", async () => {
+        const api = stubApi({ data: [rawMessage] });
+
+        const res = await list();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: prefix });
+        expect(res.messages).toHaveLength(1);
+        expect(res.messages[0]).toMatchObject({
+            id: 31,
+            sender_id: 2,
+            sender: "counselor",
+            sender_name: "Ms. Reyes",
+            recipient_id: 4,
+            recipient_name: "Ana Cruz",
+            content: "See you tomorrow",
+            is_read: true,
+            created_at: "2026-10-19T08:00:00Z",
+        });
+        expect(res.messages[0].attachments[0]).toMatchObject({
+            id: 5,
+            file_name: "plan.pdf",
+            mime_type: "application/pdf",
+            size: 2048,
+            scan_status: "clean",
+            url: null,
+        });
+    });
+
+    it("sends text as JSON", async () => {
+        const api = stubApi({ message: "Sent", messageRecord: rawMessage });
+
+        const res = await create({ content: "Hello", recipient_id: 2, recipient_role: "counselor" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: prefix,
+            body: { content: "Hello", recipient_id: 2, recipient_role: "counselor" },
+        });
+        expect(api.last().headers["Content-Type"]).toBe("application/json");
+        expect(res).toMatchObject({ message: "Sent", messageRecord: { id: 31, content: "See you tomorrow" } });
+    });
+
+    it("sends attachments as multipart", async () => {
+        const api = stubApi({ message_record: rawMessage });
+        const file = new File(["%PDF"], "plan.pdf", { type: "application/pdf" });
+
+        const res = await create({ content: "See attached", recipient_id: 2, attachments: [file] });
+
+        const body = api.last().body as FormData;
+        expect(body).toBeInstanceOf(FormData);
+        expect(body.get("content")).toBe("See attached");
+        expect(body.get("recipient_id")).toBe("2");
+        expect((body.getAll("attachments[]")[0] as File).name).toBe("plan.pdf");
+        expect(api.last().headers["Content-Type"]).toBeUndefined();
+        expect(res.messageRecord.id).toBe(31);
+    });
+
+    it("lists conversations with previews and unread counts", async () => {
+        const api = stubApi({ conversations: [rawConversation] });
+
+        const res = await conversations();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: `${prefix}/conversations` });
+        expect(res.conversations[0]).toMatchObject({
+            conversation_id: 9,
+            peer_id: 4,
+            peer_role: "student",
+            peer_name: "Ana Cruz",
+            unread_count: 2,
+            last_message: { id: 31, content: "See you tomorrow" },
+        });
+    });
+
+    it("pages a conversation's history by cursor", async () => {
+        const api = stubApi({ messages: [rawMessage], meta: { next_cursor: "abc", per_page: 30 } });
+
+        const first = await history(4);
+        await history(4, { cursor: "abc", per_page: 30 });
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: `${prefix}/conversations/4`, query: {} });
+        expect(api.requests[1].query).toEqual({ cursor: "abc", per_page: "30" });
+        expect(first).toMatchObject({ next_cursor: "abc", per_page: 30 });
+        expect(first.messages.map((m) => m.id)).toEqual([31]);
+    });
+
+    it("reports the start of a conversation as a null cursor", async () => {
+        stubApi({ messages: [rawMessage, rawMessage], next_cursor: "" });
+
+        await expect(history(4)).resolves.toMatchObject({ next_cursor: null, per_page: 2 });
+    });
+
+    it("marks messages as read", async () => {
+        const api = stubApi({ updated_count: 3 });
+
+        await markRead();
+        const res = await markRead({ peer_id: 4 });
+
+        expect(api.requests[0]).toMatchObject({ method: "POST", path: `${prefix}/mark-as-read`, body: {} });
+        expect(api.requests[1].body).toEqual({ peer_id: 4 });
+        expect(res.updated_count).toBe(3);
+    });
+});
+
+describe("message edit and delete", () => {
+    it("edits a message", async () => {
+        const api = stubApi({ messageRecord: { ...rawMessage, content: "See you at 9", editedAt: "2026-10-19T08:05:00Z" } });
+
+        const res = await updateMessageApi(31, { content: "See you at 9" });
+
+        expect(api.last()).toMatchObject({ method: "PATCH", path: "/messages/31", body: { content: "See you at 9" } });
+        expect(res.messageRecord).toMatchObject({ content: "See you at 9", edited_at: "2026-10-19T08:05:00Z" });
+    });
+
+    it("deletes for everyone, leaving a placeholder", async () => {
+        // The placeholder has no text, which the schema reports as a missing `content`
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const api = stubApi({
+            scope: "everyone",
+            messageRecord: { ...rawMessage, body: undefined, content: "", files: [], deleted_at: "2026-10-19T08:06:00Z" },
+        });
+
+        const res = await deleteMessageApi(31, "everyone");
+
+        expect(api.last()).toMatchObject({ method: "DELETE", path: "/messages/31", query: { scope: "everyone" } });
+        expect(res.scope).toBe("everyone");
+        expect(res.messageRecord).toMatchObject({ content: "", deleted_at: "2026-10-19T08:06:00Z", attachments: [] });
+    });
+
+    it("deletes for me without a placeholder", async () => {
+        stubApi({ message: "Deleted" });
+
+        await expect(deleteMessageApi(31, "me")).resolves.toEqual({ message: "Deleted", scope: "me", messageRecord: null });
+    });
+});
+
+describe("getMessageAttachmentApi", () => {
+    it("loads the scan status and signed URL", async () => {
+        const api = stubApi({
+            attachment: { id: 5, fileName: "plan.pdf", mimeType: "application/pdf", size: 2048, scan_status: "clean", signed_url: "http://files.test/5", created_at: "2026-10-19T08:00:00Z" },
+        });
+
+        const res = await getMessageAttachmentApi(5);
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/messages/attachments/5" });
+        expect(res.attachment).toMatchObject({ id: 5, file_name: "plan.pdf", scan_status: "clean", url: "http://files.test/5" });
+    });
+});
+
+describe("searchCounselorMessagesApi", () => {
+    it("leaves out empty filters and reads the hits", async () => {
+        const api = stubApi({
+            hits: [{ record: rawMessage, peerId: 4, peer: { role: "student", name: "Ana Cruz" } }],
+            meta: { current_page: 2, per_page: 20, total: 21, last_page: 2 },
+        });
+
+        const res = await searchCounselorMessagesApi({ q: "tomorrow", sender_role: undefined, from: "", to: "2026-10-19", page: 2 });
+
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/counselor/messages/search",
+            query: { q: "tomorrow", to: "2026-10-19", page: "2" },
+        });
+        expect(res.hits[0]).toMatchObject({ peer_id: 4, peer_role: "student", peer_name: "Ana Cruz", message: { id: 31 } });
+        expect(res.meta).toEqual({ current_page: 2, per_page: 20, total: 21, last_page: 2 });
+    });
+
+    it("derives pagination when the backend sends none", async () => {
+        stubApi({ data: [{ message: rawMessage, peer_id: 4, peer_role: "student" }] });
+
+        const res = await searchCounselorMessagesApi({ q: "tomorrow" });
+
+        expect(res.meta).toEqual({ current_page: 1, per_page: 1, total: 1, last_page: 1 });
+    });
+});
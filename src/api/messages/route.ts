@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
-import { getCurrentSession } from "@/lib/authentication";
+import { apiFetch, type ApiError } from "@/api/client";
+import { defineSchema, optional, parseDto, parseDtoList, required, t } from "@/api/schema";
 
 /**
  * Sender role as stored in the database.
@@ -20,10 +20,49 @@ export type MessageSenderApi =
     | "program_chair"
     | string;
 
+/** -----------------------------
+ * Attachments
+ * ------------------------------*/
+
+/**
+ * Uploads are virus-scanned before anyone can open them:
+ * `pending` until the scanner reports, then `clean`, `infected` or `failed`.
+ */
+export type MessageAttachmentScanStatusApi = "pending" | "clean" | "infected" | "failed" | string;
+
+export interface MessageAttachmentDto {
+    id: number | string;
+    message_id: number | string | null;
+    file_name: string;
+    mime_type: string;
+    /** Bytes */
+    size: number;
+    scan_status: MessageAttachmentScanStatusApi;
+    /**
+     * Short-lived signed URL, only handed to the two participants of the
+     * conversation (and admins); null until the scan comes back clean.
+     */
+    url: string | null;
+    url_expires_at: string | null;
+    created_at: string;
+}
+
+export const messageAttachmentSchema = defineSchema<MessageAttachmentDto>("MessageAttachmentDto", {
+    id: required(t.id, ""),
+    message_id: optional(t.id, ["messageId"]),
+    file_name: required(t.string, "attachment", ["fileName", "original_name", "name"]),
+    mime_type: required(t.string, "application/octet-stream", ["mimeType", "mime"]),
+    size: required(t.number, 0, ["file_size", "bytes"]),
+    scan_status: required(t.string, "pending", ["scanStatus"]),
+    url: optional(t.string, ["signed_url", "download_url"]),
+    url_expires_at: optional(t.string, ["urlExpiresAt", "expires_at"]),
+    created_at: required(t.string, new Date(0).toISOString(), ["createdAt"]),
+});
+
 export interface MessageDto {
     id: number | string;
 
-    user_id?: number | string;
+    user_id?: number | string | null;
     sender_id?: number | string | null;
 
     sender: MessageSenderApi;
@@ -33,29 +72,128 @@ export interface MessageDto {
     recipient_name?: string | null;
 
     user_name?: string | null;
+    /** Role of the `user_id` owner (student / guest) when `recipient_role` is absent */
+    user_role?: string | null;
+
+    sender_avatar_url?: string | null;
+    recipient_avatar_url?: string | null;
 
     content: string;
 
     is_read: boolean | number;
 
     created_at: string;
-    updated_at?: string;
+    updated_at?: string | null;
 
-    conversation_id?: number | string;
+    /** Set once the text was edited */
+    edited_at?: string | null;
+    /** Deleted for everyone: the text and files are gone, only the placeholder is left */
+    deleted_at?: string | null;
+
+    conversation_id?: number | string | null;
     recipient_id?: number | string | null;
+    /** Legacy student inbox: the counselor the thread belongs to */
+    counselor_id?: number | string | null;
 
     /**
      * ✅ UPDATED: include admin
      */
     recipient_role?: "student" | "guest" | "counselor" | "admin" | "referral_user" | string | null;
 
-    message_type?: string;
+    message_type?: string | null;
+
+    /** Files sent with the message (oldest first) */
+    attachments: MessageAttachmentDto[];
+}
+
+export const messageSchema = defineSchema<MessageDto>("MessageDto", {
+    id: required(t.id, ""),
+
+    user_id: optional(t.id, ["userId"]),
+    sender_id: optional(t.id, ["senderId", "sender_user.id", "senderUser.id"]),
+
+    sender: required(t.string, "system", ["sender_role", "senderRole"]),
+    sender_name: optional(t.string, ["senderName", "sender_user.name", "senderUser.name"]),
+    recipient_name: optional(t.string, ["recipientName", "recipient_user.name", "recipientUser.name"]),
+    user_name: optional(t.string, ["userName", "user.name"]),
+    user_role: optional(t.string, ["userRole", "user.role"]),
+
+    sender_avatar_url: optional(t.string, [
+        "senderAvatarUrl",
+        "sender_avatar",
+        "avatar_url",
+        "sender_user.avatar_url",
+        "senderUser.avatar_url",
+        "user.avatar_url",
+    ]),
+    recipient_avatar_url: optional(t.string, [
+        "recipientAvatarUrl",
+        "recipient_avatar",
+        "recipient.avatar_url",
+        "recipient_user.avatar_url",
+        "recipientUser.avatar_url",
+    ]),
+
+    content: required(t.string, "", ["body", "message"]),
+    is_read: required(t.boolean, false, ["isRead", "read"]),
+
+    created_at: required(t.string, new Date(0).toISOString(), ["createdAt"]),
+    updated_at: optional(t.string, ["updatedAt"]),
+
+    edited_at: optional(t.string, ["editedAt"]),
+    deleted_at: optional(t.string, ["deletedAt"]),
+
+    conversation_id: optional(t.id, ["conversationId"]),
+    recipient_id: optional(t.id, ["recipientId", "recipient_user.id", "recipientUser.id"]),
+    recipient_role: optional(t.string, ["recipientRole"]),
+    counselor_id: optional(t.id, ["counselorId"]),
+
+    message_type: optional(t.string, ["messageType"]),
+
+    attachments: required(t.array(t.object(messageAttachmentSchema)), [], ["files"]),
+});
+
+export function parseMessage(raw: unknown): MessageDto {
+    return parseDto(messageSchema, raw);
+}
+
+export function parseMessageAttachments(raw: unknown): MessageAttachmentDto[] {
+    return parseDtoList(messageAttachmentSchema, raw, "attachments");
+}
+
+function toMessagesResponse(json: any): { message?: string; messages: MessageDto[] } {
+    return {
+        message: json?.message,
+        messages: parseDtoList(messageSchema, json?.messages ?? json?.data ?? [], "messages"),
+    };
+}
+
+function toMessageRecordResponse(json: any): { message?: string; messageRecord: MessageDto } {
+    return {
+        message: json?.message,
+        messageRecord: parseMessage(json?.messageRecord ?? json?.message_record ?? json?.data),
+    };
+}
+
+/**
+ * JSON, or multipart when files are attached (`attachments[]`, Laravel array syntax).
+ */
+export function toMessageRequestBody(payload: { attachments?: File[] }): BodyInit {
+    const { attachments, ...fields } = payload;
+    if (!attachments || attachments.length === 0) return JSON.stringify(fields);
 
-    [key: string]: unknown;
+    const form = new FormData();
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value != null) form.append(key, String(value));
+    });
+    attachments.forEach((file) => form.append("attachments[]", file, file.name));
+    return form;
 }
 
 export interface MarkMessagesReadPayload {
     message_ids?: Array<number | string>;
+    /** Only messages from this user (the whole conversation, loaded or not) */
+    peer_id?: number | string;
 }
 
 export interface MarkMessagesReadResponseDto {
@@ -63,232 +201,264 @@ export interface MarkMessagesReadResponseDto {
     updated_count?: number;
 }
 
-export interface MessagesApiError extends Error {
-    status?: number;
-    data?: unknown;
+export type MessagesApiError = ApiError;
+
+/** -----------------------------
+ * Conversations & paginated history
+ * ------------------------------*/
+
+/**
+ * One row of the inbox: a conversation is the thread with one other user,
+ * keyed by that user's id (`peer_id`).
+ */
+export interface MessageConversationDto {
+    /** Backend conversation id when the thread has one */
+    conversation_id: number | string | null;
+    peer_id: number | string;
+    peer_role: string;
+    peer_name: string | null;
+    peer_avatar_url: string | null;
+    /** Messages from the peer the signed-in user has not read */
+    unread_count: number;
+    last_message: MessageDto;
+    last_message_at: string;
 }
 
-function resolveMessagesApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
+export const messageConversationSchema = defineSchema<MessageConversationDto>("MessageConversationDto", {
+    conversation_id: optional(t.id, ["conversationId"]),
+    peer_id: required(t.id, "", ["peerId", "peer.id"]),
+    peer_role: required(t.string, "student", ["peerRole", "peer.role"]),
+    peer_name: optional(t.string, ["peerName", "peer.name"]),
+    peer_avatar_url: optional(t.string, ["peerAvatarUrl", "peer.avatar_url"]),
+    unread_count: required(t.number, 0, ["unreadCount", "unread"]),
+    last_message: required(
+        t.object(messageSchema),
+        { id: "", sender: "system", content: "", is_read: true, created_at: new Date(0).toISOString(), attachments: [] },
+        ["lastMessage"],
+    ),
+    last_message_at: required(t.string, new Date(0).toISOString(), ["lastMessageAt", "updated_at"]),
+});
+
+export interface GetMessageConversationsResponseDto {
+    message?: string;
+    /** Most recent first */
+    conversations: MessageConversationDto[];
+}
+
+export interface ConversationMessagesQuery {
+    /** `next_cursor` of the previous page; omit for the newest page */
+    cursor?: string | null;
+    per_page?: number;
+}
+
+export interface GetConversationMessagesResponseDto {
+    message?: string;
+    /** Oldest first within the page */
+    messages: MessageDto[];
+    /** Cursor of the next older page; null at the start of the conversation */
+    next_cursor: string | null;
+    per_page: number;
+}
+
+async function getConversations(path: string): Promise<GetMessageConversationsResponseDto> {
+    const json = await apiFetch<any>(path, { method: "GET" });
+    return {
+        message: json?.message,
+        conversations: parseDtoList(messageConversationSchema, json?.conversations ?? json?.data ?? [], "conversations"),
+    };
+}
+
+async function getConversationMessages(
+    path: string,
+    peerId: number | string,
+    query: ConversationMessagesQuery,
+): Promise<GetConversationMessagesResponseDto> {
+    const json = await apiFetch<any>(`${path}/${encodeURIComponent(String(peerId))}`, {
+        method: "GET",
+        query: { cursor: query.cursor ?? undefined, per_page: query.per_page },
+    });
+
+    const messages = parseDtoList(messageSchema, json?.messages ?? json?.data ?? [], "messages");
+    const nextCursor = json?.next_cursor ?? json?.meta?.next_cursor ?? null;
+
+    return {
+        message: json?.message,
+        messages,
+        next_cursor: nextCursor == null || nextCursor === "" ? null : String(nextCursor),
+        per_page: Number(json?.per_page ?? json?.meta?.per_page ?? query.per_page ?? messages.length) || messages.length,
+    };
+}
+
+/** -----------------------------
+ * Full-text search
+ * ------------------------------*/
+
+export interface MessageSearchQuery {
+    /** Words to find in the message text; every word must match */
+    q: string;
+    sender_role?: MessageSenderApi;
+    /** YYYY-MM-DD, inclusive */
+    from?: string;
+    /** YYYY-MM-DD, inclusive */
+    to?: string;
+    /** Only the conversation with this user */
+    peer_id?: number | string;
+    page?: number;
+    per_page?: number;
+}
+
+export interface MessageSearchPaginationDto {
+    current_page: number;
+    per_page: number;
+    total: number;
+    last_page: number;
+}
+
+/** A matching message plus the conversation it belongs to (the other participant). */
+export interface MessageSearchHitDto {
+    message: MessageDto;
+    peer_id: number | string;
+    peer_role: string;
+    peer_name: string | null;
+    peer_avatar_url: string | null;
+}
+
+export const messageSearchHitSchema = defineSchema<MessageSearchHitDto>("MessageSearchHitDto", {
+    message: required(
+        t.object(messageSchema),
+        { id: "", sender: "system", content: "", is_read: true, created_at: new Date(0).toISOString(), attachments: [] },
+        ["record"],
+    ),
+    peer_id: required(t.id, "", ["peerId", "peer.id"]),
+    peer_role: required(t.string, "student", ["peerRole", "peer.role"]),
+    peer_name: optional(t.string, ["peerName", "peer.name"]),
+    peer_avatar_url: optional(t.string, ["peerAvatarUrl", "peer.avatar_url"]),
+});
+
+export interface SearchMessagesResponseDto {
+    message?: string;
+    /** Newest first */
+    hits: MessageSearchHitDto[];
+    meta: MessageSearchPaginationDto;
+}
+
+export function toMessageSearchMeta(raw: any, fallbackCount: number): MessageSearchPaginationDto {
+    return {
+        current_page: Number(raw?.current_page ?? 1) || 1,
+        per_page: Number(raw?.per_page ?? fallbackCount) || fallbackCount,
+        total: Number(raw?.total ?? fallbackCount) || 0,
+        last_page: Number(raw?.last_page ?? 1) || 1,
+    };
+}
+
+/** Query string of a search; empty filters are left out. */
+export function toMessageSearchParams(query: MessageSearchQuery) {
+    return {
+        q: query.q,
+        sender_role: query.sender_role || undefined,
+        from: query.from || undefined,
+        to: query.to || undefined,
+        peer_id: query.peer_id ?? undefined,
+        page: query.page,
+        per_page: query.per_page,
+    };
+}
+
+/** -----------------------------
+ * Push events (user channel, see `src/lib/realtime.ts`)
+ * ------------------------------*/
+
+/** `message.sent`: to the recipient and the sender (other tabs) */
+export interface MessageSentEventDto {
+    message: MessageDto;
+}
+
+/** `message.updated`: to both participants when a message is edited or deleted for everyone */
+export interface MessageUpdatedEventDto {
+    message: MessageDto;
+}
+
+/** `messages.read`: to the sender of the messages the reader opened */
+export interface MessagesReadEventDto {
+    reader_id: number | string;
+    message_ids: Array<number | string>;
+    read_at: string;
+}
+
+export interface GetMessageAttachmentResponseDto {
+    message?: string;
+    attachment: MessageAttachmentDto;
 }
 
 /**
- * Normalize tokens to avoid accidental:
- * - "Bearer Bearer <token>"
- * - "bearer <token>" stored in local/session storage
- * - "null"/"undefined" strings
+ * ✅ Participants (and admins): current scan status and a fresh signed URL
+ * GET /messages/attachments/{id}
  */
-function normalizeAuthTokenValue(raw: unknown): string | null {
-    const s =
-        typeof raw === "string"
-            ? raw
-            : raw == null
-                ? ""
-                : String(raw);
-
-    const t = s.trim();
-    if (!t) return null;
-
-    const low = t.toLowerCase();
-    if (low === "undefined" || low === "null") return null;
-
-    // If caller stored "Bearer <token>", strip it here.
-    return t.replace(/^bearer\s+/i, "").trim() || null;
-}
-
-function tryReadTokenFromSessionObject(session: any): string | null {
-    if (!session) return null;
-
-    // common top-level fields
-    const direct =
-        session?.token ??
-        session?.access_token ??
-        session?.accessToken ??
-        session?.auth_token ??
-        session?.authToken ??
-        null;
-
-    const v1 = normalizeAuthTokenValue(direct);
-    if (v1) return v1;
-
-    // common nested fields
-    const nested =
-        session?.user?.token ??
-        session?.user?.access_token ??
-        session?.user?.accessToken ??
-        session?.data?.token ??
-        session?.data?.access_token ??
-        session?.data?.accessToken ??
-        null;
-
-    const v2 = normalizeAuthTokenValue(nested);
-    if (v2) return v2;
-
-    return null;
-}
-
-function tryReadTokenFromStorage(storage: Storage | null | undefined): string | null {
-    if (!storage) return null;
-
-    // common direct keys
-    const directKeys = [
-        "token",
-        "access_token",
-        "accessToken",
-        "auth_token",
-        "authToken",
-        "bearer_token",
-        "bearerToken",
-    ];
-
-    for (const k of directKeys) {
-        const v = normalizeAuthTokenValue(storage.getItem(k));
-        if (v) return v;
-    }
-
-    // common JSON session keys
-    const jsonKeys = [
-        "session",
-        "auth_session",
-        "authSession",
-        "user_session",
-        "userSession",
-        "current_session",
-        "currentSession",
-    ];
-
-    for (const k of jsonKeys) {
-        const raw = storage.getItem(k);
-        if (!raw) continue;
-
-        try {
-            const parsed = JSON.parse(raw);
-            const v = tryReadTokenFromSessionObject(parsed);
-            if (v) return v;
-        } catch {
-            // ignore
-        }
-    }
-
-    // last resort: scan token-like keys (lightweight)
-    try {
-        for (let i = 0; i < storage.length; i++) {
-            const key = storage.key(i);
-            if (!key) continue;
-
-            const low = key.toLowerCase();
-            if (!low.includes("token")) continue;
-
-            const v = normalizeAuthTokenValue(storage.getItem(key));
-            if (v) return v;
-        }
-    } catch {
-        // ignore
-    }
-
-    return null;
+export async function getMessageAttachmentApi(id: number | string): Promise<GetMessageAttachmentResponseDto> {
+    const json = await apiFetch<any>(`/messages/attachments/${encodeURIComponent(String(id))}`, {
+        method: "GET",
+    });
+
+    return {
+        message: json?.message,
+        attachment: parseDto(messageAttachmentSchema, json?.attachment ?? json?.data, "attachment"),
+    };
 }
 
+/** -----------------------------
+ * Edit & delete (students, guests, counselors, referral users)
+ * ------------------------------*/
+
 /**
- * ✅ FIX (401 Unauthorized):
- * Automatically attach Bearer token from the current session when available.
- * ALSO handles tokens that are already stored with "Bearer " prefix.
+ * `me` hides the message from your own inbox only. `everyone` is for the
+ * sender, within the edit window: the message stays as a "deleted" placeholder.
  */
-function readAuthToken(): string | null {
-    // 1) Primary: your app session helper
-    try {
-        const session: any = getCurrentSession();
-        const v = tryReadTokenFromSessionObject(session);
-        if (v) return v;
-    } catch {
-        // ignore
-    }
-
-    // 2) Fallback: storage (some apps persist token directly)
-    if (typeof window !== "undefined") {
-        const v1 = tryReadTokenFromStorage(window.sessionStorage);
-        if (v1) return v1;
-
-        const v2 = tryReadTokenFromStorage(window.localStorage);
-        if (v2) return v2;
-    }
-
-    return null;
-}
-
-function normalizeAuthorizationHeaderValue(raw: string | null): string | null {
-    const v = normalizeAuthTokenValue(raw);
-    return v ? `Bearer ${v}` : null;
-}
-
-async function messagesApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveMessagesApiUrl(path);
-
-    // buildJsonHeaders may return a plain object or HeadersInit; normalize to Headers so we can .has()
-    const headers = new Headers(buildJsonHeaders(init.headers));
-
-    // Ensure Accept is always present
-    if (!headers.has("Accept")) headers.set("Accept", "application/json");
-
-    // Helpful for many Laravel setups
-    if (!headers.has("X-Requested-With")) headers.set("X-Requested-With", "XMLHttpRequest");
-
-    // If caller already provided Authorization, normalize it (avoid Bearer Bearer)
-    if (headers.has("Authorization")) {
-        const normalized = normalizeAuthorizationHeaderValue(headers.get("Authorization"));
-        if (normalized) headers.set("Authorization", normalized);
-        else headers.delete("Authorization");
-    }
-
-    // Only set Authorization if caller didn't explicitly pass one
-    if (!headers.has("Authorization")) {
-        const token = readAuthToken();
-        if (token) headers.set("Authorization", `Bearer ${token}`);
-    }
-
-    const response = await fetch(url, {
-        ...init,
-        headers,
-        credentials: "include",
-    });
+export type MessageDeleteScopeApi = "me" | "everyone";
 
-    const text = await response.text();
-    let data: unknown = null;
+export interface UpdateMessagePayload {
+    content: string;
+}
 
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
+export interface UpdateMessageResponseDto {
+    message?: string;
+    messageRecord: MessageDto;
+}
 
-    if (!response.ok) {
-        const body = data as any;
+export interface DeleteMessageResponseDto {
+    message?: string;
+    scope: MessageDeleteScopeApi;
+    /** The placeholder left by a delete for everyone (null for `me`) */
+    messageRecord: MessageDto | null;
+}
 
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
+/**
+ * ✅ PATCH /messages/{id}
+ * Own messages only, within the edit window. The previous text goes to the revision log.
+ */
+export async function updateMessageApi(id: number | string, payload: UpdateMessagePayload): Promise<UpdateMessageResponseDto> {
+    const json = await apiFetch<any>(`/messages/${encodeURIComponent(String(id))}`, {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+    });
 
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
+    return toMessageRecordResponse(json);
+}
 
-        const error = new Error(message) as MessagesApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
+/**
+ * ✅ DELETE /messages/{id}?scope=me|everyone
+ */
+export async function deleteMessageApi(id: number | string, scope: MessageDeleteScopeApi): Promise<DeleteMessageResponseDto> {
+    const json = await apiFetch<any>(`/messages/${encodeURIComponent(String(id))}`, {
+        method: "DELETE",
+        query: { scope },
+    });
 
-    return data as T;
+    const raw = json?.messageRecord ?? json?.data ?? null;
+    return {
+        message: json?.message,
+        scope: json?.scope === "everyone" ? "everyone" : scope,
+        messageRecord: raw ? parseDto(messageSchema, raw, "messageRecord") : null,
+    };
 }
 
 /** -----------------------------
@@ -305,6 +475,8 @@ export interface CreateStudentMessagePayload {
     recipient_role?: "counselor" | "student" | "guest" | "referral_user";
     recipient_id?: number | string;
     conversation_id?: number | string;
+    /** Sent as multipart; see `MESSAGE_ATTACHMENT_*` limits in `src/lib/messages.ts` */
+    attachments?: File[];
 }
 
 export interface CreateStudentMessageResponseDto {
@@ -313,25 +485,46 @@ export interface CreateStudentMessageResponseDto {
 }
 
 export async function getStudentMessagesApi(): Promise<GetStudentMessagesResponseDto> {
-    return messagesApiFetch<GetStudentMessagesResponseDto>("/student/messages", {
+    const json = await apiFetch<any>("/student/messages", {
         method: "GET",
     });
+
+    return toMessagesResponse(json);
 }
 
 export async function createStudentMessageApi(
     payload: CreateStudentMessagePayload,
 ): Promise<CreateStudentMessageResponseDto> {
-    return messagesApiFetch<CreateStudentMessageResponseDto>("/student/messages", {
+    const json = await apiFetch<any>("/student/messages", {
         method: "POST",
-        body: JSON.stringify(payload),
+        body: toMessageRequestBody(payload),
     });
+
+    return toMessageRecordResponse(json);
+}
+
+/**
+ * ✅ GET /student/messages/conversations
+ */
+export async function getStudentConversationsApi(): Promise<GetMessageConversationsResponseDto> {
+    return getConversations("/student/messages/conversations");
+}
+
+/**
+ * ✅ GET /student/messages/conversations/{userId}?cursor=&per_page=
+ */
+export async function getStudentConversationMessagesApi(
+    peerId: number | string,
+    query: ConversationMessagesQuery = {},
+): Promise<GetConversationMessagesResponseDto> {
+    return getConversationMessages("/student/messages/conversations", peerId, query);
 }
 
 export async function markStudentMessagesReadApi(
     payload?: MarkMessagesReadPayload,
 ): Promise<MarkMessagesReadResponseDto> {
     const safePayload = payload ?? {};
-    return messagesApiFetch<MarkMessagesReadResponseDto>("/student/messages/mark-as-read", {
+    return apiFetch<MarkMessagesReadResponseDto>("/student/messages/mark-as-read", {
         method: "POST",
         body: JSON.stringify(safePayload),
     });
@@ -355,6 +548,8 @@ export interface CreateCounselorMessagePayload {
     recipient_role?: "student" | "guest" | "counselor" | "admin" | "referral_user";
     recipient_id?: number | string;
     conversation_id?: number | string;
+    /** Sent as multipart; see `MESSAGE_ATTACHMENT_*` limits in `src/lib/messages.ts` */
+    attachments?: File[];
 }
 
 export interface CreateCounselorMessageResponseDto {
@@ -363,25 +558,60 @@ export interface CreateCounselorMessageResponseDto {
 }
 
 export async function getCounselorMessagesApi(): Promise<GetCounselorMessagesResponseDto> {
-    return messagesApiFetch<GetCounselorMessagesResponseDto>("/counselor/messages", {
+    const json = await apiFetch<any>("/counselor/messages", {
         method: "GET",
     });
+
+    return toMessagesResponse(json);
 }
 
 export async function createCounselorMessageApi(
     payload: CreateCounselorMessagePayload,
 ): Promise<CreateCounselorMessageResponseDto> {
-    return messagesApiFetch<CreateCounselorMessageResponseDto>("/counselor/messages", {
+    const json = await apiFetch<any>("/counselor/messages", {
         method: "POST",
-        body: JSON.stringify(payload),
+        body: toMessageRequestBody(payload),
     });
+
+    return toMessageRecordResponse(json);
+}
+
+/**
+ * ✅ GET /counselor/messages/conversations
+ */
+export async function getCounselorConversationsApi(): Promise<GetMessageConversationsResponseDto> {
+    return getConversations("/counselor/messages/conversations");
+}
+
+/**
+ * ✅ GET /counselor/messages/conversations/{userId}?cursor=&per_page=
+ */
+export async function getCounselorConversationMessagesApi(
+    peerId: number | string,
+    query: ConversationMessagesQuery = {},
+): Promise<GetConversationMessagesResponseDto> {
+    return getConversationMessages("/counselor/messages/conversations", peerId, query);
+}
+
+/**
+ * ✅ GET /counselor/messages/search?q=&sender_role=&from=&to=&peer_id=&page=
+ * Only conversations the counselor takes part in.
+ */
+export async function searchCounselorMessagesApi(query: MessageSearchQuery): Promise<SearchMessagesResponseDto> {
+    const json = await apiFetch<any>("/counselor/messages/search", {
+        method: "GET",
+        query: toMessageSearchParams(query),
+    });
+
+    const hits = parseDtoList(messageSearchHitSchema, json?.hits ?? json?.data ?? [], "hits");
+    return { message: json?.message, hits, meta: toMessageSearchMeta(json?.meta, hits.length) };
 }
 
 export async function markCounselorMessagesReadApi(
     payload?: MarkMessagesReadPayload,
 ): Promise<MarkMessagesReadResponseDto> {
     const safePayload = payload ?? {};
-    return messagesApiFetch<MarkMessagesReadResponseDto>("/counselor/messages/mark-as-read", {
+    return apiFetch<MarkMessagesReadResponseDto>("/counselor/messages/mark-as-read", {
         method: "POST",
         body: JSON.stringify(safePayload),
     });
@@ -406,6 +636,8 @@ export interface CreateReferralUserMessagePayload {
     recipient_id: number | string;
     recipient_role?: "counselor";
     conversation_id?: number | string;
+    /** Sent as multipart; see `MESSAGE_ATTACHMENT_*` limits in `src/lib/messages.ts` */
+    attachments?: File[];
 }
 
 export interface CreateReferralUserMessageResponseDto {
@@ -414,25 +646,46 @@ export interface CreateReferralUserMessageResponseDto {
 }
 
 export async function getReferralUserMessagesApi(): Promise<GetReferralUserMessagesResponseDto> {
-    return messagesApiFetch<GetReferralUserMessagesResponseDto>("/referral-user/messages", {
+    const json = await apiFetch<any>("/referral-user/messages", {
         method: "GET",
     });
+
+    return toMessagesResponse(json);
 }
 
 export async function createReferralUserMessageApi(
     payload: CreateReferralUserMessagePayload,
 ): Promise<CreateReferralUserMessageResponseDto> {
-    return messagesApiFetch<CreateReferralUserMessageResponseDto>("/referral-user/messages", {
+    const json = await apiFetch<any>("/referral-user/messages", {
         method: "POST",
-        body: JSON.stringify(payload),
+        body: toMessageRequestBody(payload),
     });
+
+    return toMessageRecordResponse(json);
+}
+
+/**
+ * ✅ GET /referral-user/messages/conversations
+ */
+export async function getReferralUserConversationsApi(): Promise<GetMessageConversationsResponseDto> {
+    return getConversations("/referral-user/messages/conversations");
+}
+
+/**
+ * ✅ GET /referral-user/messages/conversations/{userId}?cursor=&per_page=
+ */
+export async function getReferralUserConversationMessagesApi(
+    peerId: number | string,
+    query: ConversationMessagesQuery = {},
+): Promise<GetConversationMessagesResponseDto> {
+    return getConversationMessages("/referral-user/messages/conversations", peerId, query);
 }
 
 export async function markReferralUserMessagesReadApi(
     payload?: MarkMessagesReadPayload,
 ): Promise<MarkMessagesReadResponseDto> {
     const safePayload = payload ?? {};
-    return messagesApiFetch<MarkMessagesReadResponseDto>("/referral-user/messages/mark-as-read", {
+    return apiFetch<MarkMessagesReadResponseDto>("/referral-user/messages/mark-as-read", {
         method: "POST",
         body: JSON.stringify(safePayload),
     });
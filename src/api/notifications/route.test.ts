@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { getNotificationCountsApi } from "@/api/notifications/route";
+import { stubApi } from "@/test/api-stub";
+
+describe("getNotificationCountsApi", () => {
+    it("reads counts nested under `counts`", async () => {
+        const api = stubApi({
+            message: "ok",
+            counts: { unread_messages: "3", pending_appointments: 1, new_referrals: 0, urgent_risk_alerts: 2 },
+        });
+
+        const res = await getNotificationCountsApi();
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/notifications/counts" });
+        expect(res).toEqual({
+            message: "ok",
+            counts: { unread_messages: 3, pending_appointments: 1, new_referrals: 0, urgent_risk_alerts: 2 },
+        });
+    });
+
+    it("accepts flat fields and defaults missing ones to zero", async () => {
+        stubApi({ unread_messages: 5 });
+
+        const res = await getNotificationCountsApi();
+
+        expect(res.counts).toEqual({ unread_messages: 5, pending_appointments: 0, new_referrals: 0, urgent_risk_alerts: 0 });
+    });
+});
@@ -1,10 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
+import { apiFetch, type ApiError } from "@/api/client";
 
 export interface NotificationCountsDto {
     unread_messages: number;
+    /** Counselor: new requests plus student reschedule / cancellation requests awaiting a decision */
     pending_appointments: number;
     new_referrals: number;
+    /** High-risk (self-harm) assessments still waiting for counselor acknowledgment */
+    urgent_risk_alerts: number;
 
     // optional
     [key: string]: unknown;
@@ -15,54 +18,11 @@ export interface NotificationCountsResponseDto {
     counts: NotificationCountsDto;
 }
 
-export interface NotificationsApiError extends Error {
-    status?: number;
-    data?: unknown;
-}
-
-function resolveNotificationsApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
-async function notificationsApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveNotificationsApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(init.headers),
-        credentials: "include",
-    });
+export type NotificationsApiError = ApiError;
 
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-        const message =
-            body?.message ||
-            body?.error ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as NotificationsApiError;
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
+/** `notification.counts` push event (user channel, see `src/lib/realtime.ts`) */
+export interface NotificationCountsEventDto {
+    counts: NotificationCountsDto;
 }
 
 /**
@@ -73,11 +33,11 @@ async function notificationsApiFetch<T>(path: string, init: RequestInit = {}): P
  *
  * Returns counts for the logged-in role:
  * - student: unread_messages
- * - counselor: unread_messages + pending_appointments + new_referrals
+ * - counselor: unread_messages + pending_appointments + new_referrals + urgent_risk_alerts
  * - referral_user: unread_messages + new_referrals
  */
 export async function getNotificationCountsApi(): Promise<NotificationCountsResponseDto> {
-    const res = await notificationsApiFetch<any>("/notifications/counts", {
+    const res = await apiFetch<any>("/notifications/counts", {
         method: "GET",
     });
 
@@ -90,6 +50,7 @@ export async function getNotificationCountsApi(): Promise<NotificationCountsResp
             unread_messages: Number(counts?.unread_messages ?? 0),
             pending_appointments: Number(counts?.pending_appointments ?? 0),
             new_referrals: Number(counts?.new_referrals ?? 0),
+            urgent_risk_alerts: Number(counts?.urgent_risk_alerts ?? 0),
         },
     };
 }
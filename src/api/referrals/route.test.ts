@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+    createReferralApi,
+    getCounselorReferralByIdApi,
+    getCounselorReferralsApi,
+    getReferralUserReferralsApi,
+    patchCounselorReferralApi,
+} from "@/api/referrals/route";
+import { stubApi } from "@/test/api-stub";
+
+const rawReferral = {
+    id: 11,
+    status: "pending",
+    concern: "academic",
+    priority: "high",
+    description: "Missing classes",
+    appointment_date: "2026-10-23",
+    requested_by: { id: 6, name: "Dean Santos", role: "dean" },
+    student: { id: 4, name: "Ana Cruz", studentId: "2026-0001" },
+};
+
+describe("referral routes", () => {
+    it("creates a referral with an explicit token", async () => {
+        const api = stubApi({ message: "Created", referral: rawReferral });
+        const payload = { student_id: "2026-0001", concern_type: "academic", urgency: "high" as const, details: "Missing classes" };
+
+        const res = await createReferralApi(payload, "referral-token");
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/referral-user/referrals", body: payload });
+        expect(api.last().headers.Authorization).toBe("Bearer referral-token");
+        expect(res.message).toBe("Created");
+        expect(res.referral).toMatchObject({
+            id: 11,
+            concern_type: "academic",
+            urgency: "high",
+            details: "Missing classes",
+            scheduled_date: "2026-10-23",
+            student_name: "Ana Cruz",
+            requested_by_name: "Dean Santos",
+            requested_by_role: "dean",
+        });
+        expect(res.referral.student).toMatchObject({ id: 4, name: "Ana Cruz", student_id: "2026-0001" });
+    });
+
+    it("lists counselor referrals, dropping the `all` status filter", async () => {
+        const api = stubApi({ data: [rawReferral], meta: { total: 1 } });
+
+        const res = await getCounselorReferralsApi({ per_page: 50, status: "all" });
+        await getCounselorReferralsApi({ status: "handled" });
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/counselor/referrals", query: { per_page: "50" } });
+        expect(api.requests[1].query).toEqual({ status: "handled" });
+        expect(res.referrals).toHaveLength(1);
+        expect(res.referrals[0].concern_type).toBe("academic");
+        expect(res.meta).toEqual({ total: 1 });
+    });
+
+    it("lists the referral user's own referrals", async () => {
+        const api = stubApi({ referrals: [rawReferral, "junk"] });
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        const res = await getReferralUserReferralsApi({ per_page: 10 });
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/referral-user/referrals", query: { per_page: "10" } });
+        expect(res.referrals.map((r) => r.id)).toEqual([11]);
+    });
+
+    it("loads one referral", async () => {
+        const api = stubApi({ referral: rawReferral });
+
+        const res = await getCounselorReferralByIdApi(11);
+
+        expect(api.last()).toMatchObject({ method: "GET", path: "/counselor/referrals/11" });
+        expect(res.referral.id).toBe(11);
+    });
+
+    it("patches status and appointment", async () => {
+        const api = stubApi({ referral: { ...rawReferral, status: "handled", scheduled_time: "10:00" } });
+        const payload = { status: "handled" as const, scheduled_date: "2026-10-23", scheduled_time: "10:00" };
+
+        const res = await patchCounselorReferralApi(11, payload);
+
+        expect(api.last()).toMatchObject({ method: "PATCH", path: "/counselor/referrals/11", body: payload });
+        expect(res.referral).toMatchObject({ status: "handled", scheduled_time: "10:00" });
+    });
+});
@@ -1,51 +1,107 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route"
-import { getCurrentSession } from "@/lib/authentication"
+import { apiFetch, type ApiError } from "@/api/client"
+import { defineSchema, optional, parseDto, parseDtoList, required, t } from "@/api/schema"
 
 export type ReferralStatusApi = "pending" | "handled" | "closed" | string
 export type ReferralUrgencyApi = "low" | "medium" | "high" | string
 
 export interface UserMiniDto {
     id: number | string
-    name?: string | null
-    email?: string | null
-    role?: string | null
-    [key: string]: unknown
+    name: string | null
+    email: string | null
+    role: string | null
+
+    // users.student_id (school id number), only present on students
+    student_id: string | null
 }
 
+export const userMiniSchema = defineSchema<UserMiniDto>("UserMiniDto", {
+    id: required(t.id, ""),
+    name: optional(t.string, ["full_name"]),
+    email: optional(t.string),
+    role: optional(t.string, ["role_name"]),
+    student_id: optional(t.string, ["studentId"]),
+})
+
 export interface ReferralDto {
     id: number | string
 
     status: ReferralStatusApi
 
-    concern_type?: string | null
-    urgency?: ReferralUrgencyApi | null
-    details?: string | null
+    concern_type: string | null
+    urgency: ReferralUrgencyApi | null
+    details: string | null
 
-    remarks?: string | null
-    handled_at?: string | null
-    closed_at?: string | null
+    remarks: string | null
+    handled_at: string | null
+    closed_at: string | null
 
     // ✅ Appointment (counselor sets this)
-    scheduled_date?: string | null // YYYY-MM-DD
-    scheduled_time?: string | null // e.g. "08:00" or "8:00 AM"
+    scheduled_date: string | null // YYYY-MM-DD
+    scheduled_time: string | null // e.g. "08:00" or "8:00 AM"
+    /** Bumped on every schedule/status change (iCalendar SEQUENCE) */
+    schedule_sequence: number | null
+
+    created_at: string | null
+    updated_at: string | null
+
+    // referrals.student_id (FK) — prefer `student.student_id` for display
+    student_id: number | string | null
+
+    student: UserMiniDto | null
+    requestedBy: UserMiniDto | null
+    counselor: UserMiniDto | null
+
+    // Flat display fields: filled from the relation when the backend only sends one of them
+    student_name: string | null
+    student_email: string | null
+    requested_by_name: string | null
+    requested_by_role: string | null
+    requested_by_email: string | null
+    counselor_name: string | null
+    counselor_email: string | null
+}
+
+/**
+ * Laravel has returned referrals both with relations (`student`, `requested_by`)
+ * and flat (`student_name`, ...), and older builds used other appointment names.
+ */
+export const referralSchema = defineSchema<ReferralDto>("ReferralDto", {
+    id: required(t.id, ""),
+    status: required(t.string, "pending"),
+
+    concern_type: optional(t.string, ["concernType", "concern"]),
+    urgency: optional(t.string, ["priority"]),
+    details: optional(t.string, ["description"]),
+
+    remarks: optional(t.string),
+    handled_at: optional(t.string),
+    closed_at: optional(t.string),
+
+    scheduled_date: optional(t.string, ["appointment_date", "schedule_date", "counseling_date"]),
+    scheduled_time: optional(t.string, ["appointment_time", "schedule_time", "counseling_time"]),
+    schedule_sequence: optional(t.number, ["sequence"]),
+
+    created_at: optional(t.string),
+    updated_at: optional(t.string),
 
-    created_at?: string | null
-    updated_at?: string | null
+    student_id: optional(t.id, ["studentId"]),
 
-    student?: UserMiniDto | null
-    requestedBy?: UserMiniDto | null
-    requested_by?: UserMiniDto | null
-    counselor?: UserMiniDto | null
+    student: optional(t.object(userMiniSchema)),
+    requestedBy: optional(t.object(userMiniSchema), ["requested_by"]),
+    counselor: optional(t.object(userMiniSchema)),
 
-    // flat fallbacks (if backend returns flat)
-    student_name?: string | null
-    student_email?: string | null
-    requested_by_name?: string | null
-    requested_by_role?: string | null
-    requested_by_email?: string | null
+    student_name: optional(t.string, ["student.name"]),
+    student_email: optional(t.string, ["student.email"]),
+    requested_by_name: optional(t.string, ["requestedBy.name", "requested_by.name"]),
+    requested_by_role: optional(t.string, ["requestedBy.role", "requested_by.role"]),
+    requested_by_email: optional(t.string, ["requestedBy.email", "requested_by.email"]),
+    counselor_name: optional(t.string, ["counselor.name"]),
+    counselor_email: optional(t.string, ["counselor.email"]),
+})
 
-    [key: string]: unknown
+export function parseReferral(raw: unknown): ReferralDto {
+    return parseDto(referralSchema, raw)
 }
 
 export interface CreateReferralPayload {
@@ -108,182 +164,89 @@ export interface PatchReferralResponseDto {
     referral: ReferralDto
 }
 
-export interface ReferralsApiError extends Error {
-    status?: number
-    data?: unknown
-}
-
-function trimSlash(s: string) {
-    return s.replace(/\/+$/, "")
-}
-
-function resolveBaseUrl(): string {
-    const env = (import.meta as any)?.env ?? {}
-
-    // Prefer the existing AUTH_API_BASE_URL (because your app already uses it elsewhere),
-    // but also support the env names directly in case auth/route.ts uses a different one.
-    const base =
-        (typeof AUTH_API_BASE_URL === "string" && AUTH_API_BASE_URL) ||
-        env?.VITE_API_LARAVEL_BASE_URL ||
-        env?.VITE_LARAVEL_API_BASE_URL ||
-        env?.VITE_API_BASE_URL ||
-        ""
-
-    const raw = String(base || "").trim()
-    if (!raw) return ""
-
-    return trimSlash(raw)
-}
-
-function resolveReferralsApiUrl(path: string): string {
-    const base = resolveBaseUrl()
-
-    if (!base) {
-        throw new Error(
-            [
-                "VITE_API_LARAVEL_BASE_URL is not defined. Set it in your frontend .env file.",
-                "Make sure:",
-                "- .env is at the Vite project root (same level as package.json)",
-                "- variable starts with VITE_",
-                "- restart `npm run dev` after editing env",
-            ].join("\n"),
-        )
-    }
+export type ReferralsApiError = ApiError
 
-    const trimmedPath = path.replace(/^\/+/, "")
-    return `${base}/${trimmedPath}`
+function toReferralResponse(json: any): { message?: string; referral: ReferralDto } {
+    return { message: json?.message, referral: parseReferral(json?.referral ?? json?.data ?? json) }
 }
 
-function getSessionToken(): string | null {
-    try {
-        const session = getCurrentSession() as any
-        return session?.token ?? session?.access_token ?? null
-    } catch {
-        return null
+function toReferralListResponse(json: any) {
+    return {
+        message: json?.message,
+        referrals: parseDtoList(referralSchema, json?.referrals ?? json?.data ?? [], "referrals"),
+        meta: json?.meta,
     }
 }
 
-async function referralsApiFetch<T>(path: string, init: RequestInit = {}, token?: string | null): Promise<T> {
-    const url = resolveReferralsApiUrl(path)
-
-    const finalToken = token ?? getSessionToken()
-
-    const headers = new Headers(buildJsonHeaders(init.headers))
-    if (finalToken && !headers.has("Authorization")) {
-        headers.set("Authorization", `Bearer ${finalToken}`)
-    }
-
-    const response = await fetch(url, {
-        ...init,
-        headers,
-        credentials: "include",
-    })
-
-    const text = await response.text()
-    let data: unknown = null
-
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any
-        const rawStr = typeof data === "string" ? data : ""
-        const message =
-            body?.message ||
-            body?.error ||
-            (rawStr ? rawStr.slice(0, 220) : "") ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server."
-
-        const error = new Error(message) as ReferralsApiError
-        error.status = response.status
-        error.data = body ?? text
-        throw error
-    }
-
-    return data as T
-}
-
 export async function createReferralApi(
     payload: CreateReferralPayload,
     token?: string | null,
 ): Promise<CreateReferralResponseDto> {
-    return referralsApiFetch<CreateReferralResponseDto>(
-        "/referral-user/referrals",
-        {
-            method: "POST",
-            body: JSON.stringify(payload),
-        },
+    const json = await apiFetch<any>("/referral-user/referrals", {
+        method: "POST",
+        body: JSON.stringify(payload),
         token,
-    )
+    })
+
+    return toReferralResponse(json)
 }
 
 export async function getCounselorReferralsApi(
     params?: { per_page?: number; status?: string },
     token?: string | null,
 ): Promise<GetCounselorReferralsResponseDto> {
-    const qs = new URLSearchParams()
-    if (params?.per_page) qs.set("per_page", String(params.per_page))
-    if (params?.status && params.status !== "all") qs.set("status", String(params.status))
-
-    const path = qs.toString() ? `/counselor/referrals?${qs.toString()}` : "/counselor/referrals"
-
-    return referralsApiFetch<GetCounselorReferralsResponseDto>(
-        path,
-        {
-            method: "GET",
+    const json = await apiFetch<any>("/counselor/referrals", {
+        method: "GET",
+        query: {
+            per_page: params?.per_page || undefined,
+            status: params?.status && params.status !== "all" ? params.status : undefined,
         },
         token,
-    )
+    })
+
+    return toReferralListResponse(json)
 }
 
 export async function getReferralUserReferralsApi(
     params?: { per_page?: number },
     token?: string | null,
 ): Promise<GetReferralUserReferralsResponseDto> {
-    const qs = new URLSearchParams()
-    if (params?.per_page) qs.set("per_page", String(params.per_page))
-
-    const path = qs.toString() ? `/referral-user/referrals?${qs.toString()}` : "/referral-user/referrals"
-
-    return referralsApiFetch<GetReferralUserReferralsResponseDto>(
-        path,
-        {
-            method: "GET",
-        },
+    const json = await apiFetch<any>("/referral-user/referrals", {
+        method: "GET",
+        query: { per_page: params?.per_page || undefined },
         token,
-    )
+    })
+
+    return toReferralListResponse(json)
 }
 
 export async function getCounselorReferralByIdApi(
     id: number | string,
     token?: string | null,
 ): Promise<GetReferralByIdResponseDto> {
-    return referralsApiFetch<GetReferralByIdResponseDto>(
-        `/counselor/referrals/${encodeURIComponent(String(id))}`,
-        {
-            method: "GET",
-        },
+    const json = await apiFetch<any>(`/counselor/referrals/${encodeURIComponent(String(id))}`, {
+        method: "GET",
         token,
-    )
+    })
+
+    return toReferralResponse(json)
 }
 
+/**
+ * PATCH /counselor/referrals/{id}
+ * Rejects with 409 when the appointment would double-book the assigned counselor
+ * (see `getScheduleConflict` in `@/api/availability/route`).
+ */
 export async function patchCounselorReferralApi(
     id: number | string,
     payload: PatchReferralPayload,
     token?: string | null,
 ): Promise<PatchReferralResponseDto> {
-    return referralsApiFetch<PatchReferralResponseDto>(
-        `/counselor/referrals/${encodeURIComponent(String(id))}`,
-        {
-            method: "PATCH",
-            body: JSON.stringify(payload),
-        },
+    const json = await apiFetch<any>(`/counselor/referrals/${encodeURIComponent(String(id))}`, {
+        method: "PATCH",
+        body: JSON.stringify(payload),
         token,
-    )
+    })
+
+    return toReferralResponse(json)
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    getReminderSettingsApi,
+    getRemindersApi,
+    markReminderReadApi,
+    updateReminderSettingsApi,
+} from "@/api/reminders/route";
+import { stubApi } from "@/test/api-stub";
+
+const settings = { channels: ["in_app" as const, "email" as const], offsets_minutes: [1440, 60] };
+
+describe("reminder routes", () => {
+    it("loads and saves the reminder settings", async () => {
+        const api = stubApi({ settings });
+
+        await expect(getReminderSettingsApi()).resolves.toEqual({ settings });
+        await updateReminderSettingsApi(settings);
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/reminders/settings" });
+        expect(api.requests[1]).toMatchObject({ method: "PUT", path: "/reminders/settings", body: settings });
+    });
+
+    it("asks for unread reminders only when requested", async () => {
+        const api = stubApi({ reminders: [] });
+
+        await getRemindersApi();
+        await getRemindersApi({ unread: true });
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/reminders", query: {} });
+        expect(api.requests[1].query).toEqual({ unread: "1" });
+    });
+
+    it("dismisses a reminder", async () => {
+        const api = stubApi({ message: "ok" });
+
+        await markReminderReadApi(17);
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/reminders/17/read" });
+    });
+});
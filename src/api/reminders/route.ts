@@ -0,0 +1,92 @@
+import { apiFetch } from "@/api/client";
+
+/**
+ * Session reminders.
+ *
+ * The backend sends reminders at each configured offset before a scheduled
+ * session (appointment or referral) on the channels the user enabled. Email
+ * reminders are only delivered by mail; in-app reminders are listed here until
+ * they are read.
+ */
+
+export type ReminderChannelApi = "in_app" | "email";
+
+export interface ReminderSettingsDto {
+    channels: ReminderChannelApi[];
+    /** Minutes before the session start, e.g. [1440, 60] = a day and an hour before */
+    offsets_minutes: number[];
+}
+
+export interface ReminderDto {
+    id: number;
+    channel: ReminderChannelApi;
+    session_type: "appointment" | "referral";
+    session_id: number;
+    offset_minutes: number;
+    session_date: string; // YYYY-MM-DD
+    session_time: string | null;
+    title: string;
+    body: string;
+    created_at: string;
+    read_at: string | null;
+}
+
+export interface GetReminderSettingsResponseDto {
+    message?: string;
+    settings: ReminderSettingsDto;
+}
+
+export interface GetRemindersQuery {
+    /** Only reminders that were not marked read yet */
+    unread?: boolean;
+}
+
+export interface GetRemindersResponseDto {
+    message?: string;
+    reminders: ReminderDto[];
+}
+
+export interface MarkReminderReadResponseDto {
+    message?: string;
+    reminder: ReminderDto;
+}
+
+/**
+ * ✅ Reminder preferences of the signed-in user (defaults when never saved)
+ * GET /reminders/settings
+ */
+export async function getReminderSettingsApi(): Promise<GetReminderSettingsResponseDto> {
+    return apiFetch<GetReminderSettingsResponseDto>("/reminders/settings", { method: "GET" });
+}
+
+/**
+ * ✅ Save reminder preferences
+ * PUT /reminders/settings
+ */
+export async function updateReminderSettingsApi(
+    payload: ReminderSettingsDto,
+): Promise<GetReminderSettingsResponseDto> {
+    return apiFetch<GetReminderSettingsResponseDto>("/reminders/settings", {
+        method: "PUT",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ In-app reminders that are already due, newest first
+ * GET /reminders?unread=1
+ */
+export async function getRemindersApi(query?: GetRemindersQuery): Promise<GetRemindersResponseDto> {
+    return apiFetch<GetRemindersResponseDto>("/reminders", {
+        method: "GET",
+        query: { unread: query?.unread ? 1 : undefined },
+    });
+}
+
+/**
+ * ✅ Dismiss an in-app reminder
+ * POST /reminders/{id}/read
+ */
+export async function markReminderReadApi(id: number | string): Promise<MarkReminderReadResponseDto> {
+    return apiFetch<MarkReminderReadResponseDto>(`/reminders/${id}/read`, { method: "POST" });
+}
@@ -0,0 +1,323 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Declarative DTO schemas for Laravel responses.
+ *
+ * Every route module declares a schema per DTO (`defineSchema`) and runs the
+ * raw JSON through `parseDto` / `parseDtoList` right where it leaves `apiFetch`.
+ * Pages then receive a strict object where every field is present (value or null)
+ * instead of guessing between `foo`, `foo_name`, `fooName`, `user.foo`, ...
+ *
+ * Shape drift is never fatal: a field that is missing or has the wrong type falls
+ * back to its default and is reported as a `SchemaWarning` (see `onSchemaWarning`).
+ */
+
+export type SchemaWarningKind =
+    /** Required field absent from the payload (default used). */
+    | "missing"
+    /** Field present but could not be coerced to the declared type (default used). */
+    | "invalid_type"
+    /** Canonical key absent, value taken from a declared alias. */
+    | "alias"
+    /** Top-level payload was not an object / array. */
+    | "invalid_payload";
+
+export interface SchemaWarning {
+    schema: string;
+    path: string;
+    kind: SchemaWarningKind;
+    message: string;
+    received?: unknown;
+}
+
+export type SchemaWarningListener = (warnings: SchemaWarning[]) => void;
+
+const warningListeners = new Set<SchemaWarningListener>();
+
+/**
+ * Subscribe to schema warnings (one call per parsed payload). Returns an unsubscribe function.
+ */
+export function onSchemaWarning(listener: SchemaWarningListener): () => void {
+    warningListeners.add(listener);
+    return () => {
+        warningListeners.delete(listener);
+    };
+}
+
+function reportWarnings(warnings: SchemaWarning[]): void {
+    if (warnings.length === 0) return;
+
+    warningListeners.forEach((listener) => {
+        try {
+            listener(warnings);
+        } catch (error) {
+            console.error("[schema] Warning listener crashed", error);
+        }
+    });
+
+    // Aliases are expected with older backends; only surface real contract breaks.
+    const contractBreaks = warnings.filter((w) => w.kind !== "alias");
+    if (contractBreaks.length > 0 && import.meta.env.DEV) {
+        console.warn(`[schema] ${contractBreaks[0].schema}: ${contractBreaks.length} shape issue(s)`, contractBreaks);
+    }
+}
+
+/** -----------------------------
+ * Field types
+ * ------------------------------*/
+
+const INVALID = Symbol("invalid");
+type Invalid = typeof INVALID;
+
+/**
+ * A field type coerces an unknown value or returns `INVALID`.
+ * `null` / `undefined` never reach `coerce` (handled by the field definition).
+ */
+export interface FieldType<T> {
+    name: string;
+    coerce: (value: unknown, ctx: ParseContext) => T | Invalid;
+}
+
+interface ParseContext {
+    schema: string;
+    path: string;
+    warnings: SchemaWarning[];
+}
+
+function childContext(ctx: ParseContext, key: string | number): ParseContext {
+    const path = typeof key === "number" ? `${ctx.path}[${key}]` : ctx.path ? `${ctx.path}.${key}` : key;
+    return { ...ctx, path };
+}
+
+export const t = {
+    /** Non-empty string; numbers are stringified. */
+    string: {
+        name: "string",
+        coerce: (v) => {
+            if (typeof v === "string") return v;
+            if (typeof v === "number" && Number.isFinite(v)) return String(v);
+            return INVALID;
+        },
+    } as FieldType<string>,
+
+    /** Finite number; numeric strings are parsed. */
+    number: {
+        name: "number",
+        coerce: (v) => {
+            const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+            return Number.isFinite(n) ? n : INVALID;
+        },
+    } as FieldType<number>,
+
+    /** Laravel ids: numbers stay numbers, numeric strings become numbers, other strings are kept. */
+    id: {
+        name: "id",
+        coerce: (v) => {
+            if (typeof v === "number" && Number.isFinite(v)) return v;
+            if (typeof v === "string") {
+                const s = v.trim();
+                if (!s) return INVALID;
+                return /^\d+$/.test(s) ? Number(s) : s;
+            }
+            return INVALID;
+        },
+    } as FieldType<number | string>,
+
+    /** Booleans, 0/1 and "true"/"false"/"0"/"1" (MySQL tinyint columns). */
+    boolean: {
+        name: "boolean",
+        coerce: (v) => {
+            if (typeof v === "boolean") return v;
+            if (v === 1 || v === "1" || v === "true") return true;
+            if (v === 0 || v === "0" || v === "false") return false;
+            return INVALID;
+        },
+    } as FieldType<boolean>,
+
+    /** Nested object parsed with its own schema. */
+    object<T>(schema: Schema<T>): FieldType<T> {
+        return {
+            name: schema.name,
+            coerce: (v, ctx) => {
+                if (!v || typeof v !== "object" || Array.isArray(v)) return INVALID;
+                return parseFields(schema, v as Record<string, unknown>, ctx);
+            },
+        };
+    },
+
+    /** Array of items; items that fail to coerce are dropped (and reported). */
+    array<T>(item: FieldType<T>): FieldType<T[]> {
+        return {
+            name: `${item.name}[]`,
+            coerce: (v, ctx) => {
+                if (!Array.isArray(v)) return INVALID;
+                const out: T[] = [];
+                v.forEach((entry, idx) => {
+                    const itemCtx = childContext(ctx, idx);
+                    const parsed = entry == null ? INVALID : item.coerce(entry, itemCtx);
+                    if (parsed === INVALID) {
+                        warn(itemCtx, "invalid_type", `expected ${item.name}`, entry);
+                        return;
+                    }
+                    out.push(parsed);
+                });
+                return out;
+            },
+        };
+    },
+};
+
+/** -----------------------------
+ * Field definitions
+ * ------------------------------*/
+
+export interface FieldDef<T> {
+    type: FieldType<NonNullable<T>>;
+    /**
+     * Alternative source keys tried (in order) when the canonical key is absent.
+     * Dotted paths read nested values, e.g. `"user.email"`; `+` joins the
+     * non-blank parts with a space, e.g. `"first_name+last_name"`.
+     */
+    aliases: string[];
+    required: boolean;
+    fallback: T;
+}
+
+/**
+ * Optional field: absent / null / invalid values become `null`.
+ */
+export function optional<T>(type: FieldType<T>, aliases: string[] = []): FieldDef<T | null> {
+    return { type: type as FieldType<NonNullable<T>>, aliases, required: false, fallback: null };
+}
+
+/**
+ * Required field: absence is reported as drift and `fallback` is used.
+ */
+export function required<T>(type: FieldType<T>, fallback: T, aliases: string[] = []): FieldDef<T> {
+    return { type: type as FieldType<NonNullable<T>>, aliases, required: true, fallback };
+}
+
+export type SchemaFields<T> = { [K in keyof T]-?: FieldDef<T[K]> };
+
+export interface SchemaOptions {
+    /**
+     * Keep undeclared keys on the parsed object (declared fields still win).
+     * Use only for DTOs whose pages read presentation-only extras (avatars, relations).
+     */
+    passthrough?: boolean;
+}
+
+export interface Schema<T> {
+    name: string;
+    fields: SchemaFields<T>;
+    passthrough: boolean;
+}
+
+export function defineSchema<T>(name: string, fields: SchemaFields<T>, options: SchemaOptions = {}): Schema<T> {
+    return { name, fields, passthrough: options.passthrough ?? false };
+}
+
+function warn(ctx: ParseContext, kind: SchemaWarningKind, message: string, received?: unknown): void {
+    ctx.warnings.push({ schema: ctx.schema, path: ctx.path || "(root)", kind, message, received });
+}
+
+function readPath(obj: Record<string, unknown>, path: string): unknown {
+    if (path.includes("+")) {
+        const parts = path.split("+").map((p) => readPath(obj, p)).filter((v) => !isBlank(v));
+        return parts.length > 0 ? parts.map((v) => String(v).trim()).join(" ") : undefined;
+    }
+    if (!path.includes(".")) return obj[path];
+
+    let cur: any = obj;
+    for (const part of path.split(".")) {
+        if (cur == null || typeof cur !== "object") return undefined;
+        cur = cur[part];
+    }
+    return cur;
+}
+
+function isBlank(v: unknown): boolean {
+    return v === undefined || v === null || (typeof v === "string" && v.trim() === "");
+}
+
+function parseFields<T>(schema: Schema<T>, raw: Record<string, unknown>, ctx: ParseContext): T {
+    const out = (schema.passthrough ? { ...raw } : {}) as T;
+
+    (Object.keys(schema.fields) as Array<keyof T & string>).forEach((key) => {
+        const def = schema.fields[key];
+        const fieldCtx = childContext(ctx, key);
+
+        let source: string = key;
+        let value = raw[key];
+
+        if (isBlank(value)) {
+            const alias = def.aliases.find((a) => !isBlank(readPath(raw, a)));
+            if (alias) {
+                source = alias;
+                value = readPath(raw, alias);
+                warn(fieldCtx, "alias", `read from "${alias}"`);
+            }
+        }
+
+        if (isBlank(value)) {
+            if (def.required) warn(fieldCtx, "missing", `required ${def.type.name} is missing`);
+            out[key] = def.fallback;
+            return;
+        }
+
+        const parsed = def.type.coerce(value, source === key ? fieldCtx : childContext(ctx, source));
+        if (parsed === INVALID) {
+            warn(fieldCtx, "invalid_type", `expected ${def.type.name}`, value);
+            out[key] = def.fallback;
+            return;
+        }
+
+        out[key] = parsed as T[typeof key];
+    });
+
+    return out;
+}
+
+/**
+ * Validate + normalize one payload object. Never throws: shape problems are
+ * reported through `onSchemaWarning` and the defaults are used.
+ */
+export function parseDto<T>(schema: Schema<T>, raw: unknown, path = ""): T {
+    const ctx: ParseContext = { schema: schema.name, path, warnings: [] };
+
+    let source: Record<string, unknown> = {};
+    if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+        source = raw as Record<string, unknown>;
+    } else {
+        warn(ctx, "invalid_payload", "expected an object", raw);
+    }
+
+    const out = parseFields(schema, source, ctx);
+    reportWarnings(ctx.warnings);
+    return out;
+}
+
+/**
+ * Validate + normalize a list payload. Non-object entries are dropped.
+ */
+export function parseDtoList<T>(schema: Schema<T>, raw: unknown, path = ""): T[] {
+    const ctx: ParseContext = { schema: schema.name, path, warnings: [] };
+
+    if (!Array.isArray(raw)) {
+        if (raw != null) warn(ctx, "invalid_payload", "expected an array", raw);
+        reportWarnings(ctx.warnings);
+        return [];
+    }
+
+    const out: T[] = [];
+    raw.forEach((entry, idx) => {
+        const itemCtx = childContext(ctx, idx);
+        if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+            warn(itemCtx, "invalid_payload", "expected an object", entry);
+            return;
+        }
+        out.push(parseFields(schema, entry as Record<string, unknown>, itemCtx));
+    });
+
+    reportWarnings(ctx.warnings);
+    return out;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    amendSessionNoteApi,
+    createSessionNoteApi,
+    deleteSessionNoteApi,
+    getSessionNotesApi,
+    lockSessionNoteApi,
+    signSessionNoteApi,
+    updateSessionNoteApi,
+} from "@/api/session-notes/route";
+import { stubApi } from "@/test/api-stub";
+
+const sections = { subjective: "Reports poor sleep", objective: "Tired", assessment: "Stress", plan: "Sleep diary" };
+
+describe("session note routes", () => {
+    it("lists the notes of one session", async () => {
+        const api = stubApi({ notes: [] });
+
+        await expect(getSessionNotesApi({ subject_type: "referral", subject_id: 11 })).resolves.toEqual({ notes: [] });
+        expect(api.last()).toMatchObject({
+            method: "GET",
+            path: "/counselor/session-notes",
+            query: { subject_type: "referral", subject_id: "11" },
+        });
+    });
+
+    it.each([
+        [
+            "create",
+            () => createSessionNoteApi({ subject_type: "appointment", subject_id: 8, format: "soap", sections }),
+            "POST",
+            "/counselor/session-notes",
+            { subject_type: "appointment", subject_id: 8, format: "soap", sections },
+        ],
+        [
+            "update",
+            () => updateSessionNoteApi(21, { format: "soap", sections }),
+            "PUT",
+            "/counselor/session-notes/21",
+            { format: "soap", sections },
+        ],
+        ["delete", () => deleteSessionNoteApi(21), "DELETE", "/counselor/session-notes/21", undefined],
+        ["sign", () => signSessionNoteApi(21), "POST", "/counselor/session-notes/21/sign", undefined],
+        [
+            "amend",
+            () => amendSessionNoteApi(21, { sections, reason: "Typo in plan" }),
+            "POST",
+            "/counselor/session-notes/21/amendments",
+            { sections, reason: "Typo in plan" },
+        ],
+        ["lock", () => lockSessionNoteApi(21), "POST", "/counselor/session-notes/21/lock", undefined],
+    ])("%s", async (_name, call, method, path, body) => {
+        const api = stubApi({ message: "ok" });
+
+        await expect(call()).resolves.toEqual({ message: "ok" });
+        expect(api.last()).toMatchObject({ method, path });
+        expect(api.last().body).toEqual(body);
+    });
+});
@@ -0,0 +1,153 @@
+import { apiFetch } from "@/api/client";
+
+/**
+ * Confidential session notes (counselors only).
+ *
+ * Each note documents one appointment (`IntakeRequestDto`) or referral session
+ * (`ReferralDto`) in SOAP or DAP format:
+ *
+ *   draft → signed → locked
+ *
+ * Drafts can be edited or deleted by their author. Signing freezes the text;
+ * later corrections are amendments that keep the replaced text. Locking ends
+ * amendments for good.
+ */
+
+export type SessionNoteFormatApi = "soap" | "dap";
+export type SessionNoteStatusApi = "draft" | "signed" | "locked";
+export type SessionNoteSubjectTypeApi = "appointment" | "referral";
+
+/** SOAP: subjective / objective / assessment / plan. DAP: data / assessment / plan. */
+export type SessionNoteSectionsDto = Record<string, string>;
+
+export interface SessionNoteAmendmentDto {
+    id: number;
+    reason: string;
+    previous_sections: SessionNoteSectionsDto;
+    sections: SessionNoteSectionsDto;
+    amended_by_name: string | null;
+    created_at: string;
+}
+
+export interface SessionNoteDto {
+    id: number;
+    subject_type: SessionNoteSubjectTypeApi;
+    subject_id: number;
+    format: SessionNoteFormatApi;
+    /** Current text (amendments applied) */
+    sections: SessionNoteSectionsDto;
+    status: SessionNoteStatusApi;
+    author_id: number;
+    author_name: string | null;
+    signed_at: string | null;
+    locked_at: string | null;
+    /** Oldest first */
+    amendments: SessionNoteAmendmentDto[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface GetSessionNotesQuery {
+    subject_type: SessionNoteSubjectTypeApi;
+    subject_id: number | string;
+}
+
+export interface CreateSessionNotePayload extends GetSessionNotesQuery {
+    format: SessionNoteFormatApi;
+    sections: SessionNoteSectionsDto;
+}
+
+export interface UpdateSessionNotePayload {
+    format: SessionNoteFormatApi;
+    sections: SessionNoteSectionsDto;
+}
+
+export interface AmendSessionNotePayload {
+    sections: SessionNoteSectionsDto;
+    reason: string;
+}
+
+export interface GetSessionNotesResponseDto {
+    message?: string;
+    notes: SessionNoteDto[];
+}
+
+export interface SessionNoteResponseDto {
+    message?: string;
+    note: SessionNoteDto;
+}
+
+function notePath(id: number | string, action = ""): string {
+    return `/counselor/session-notes/${encodeURIComponent(String(id))}${action}`;
+}
+
+/**
+ * ✅ Notes of one appointment / referral session, oldest first
+ * GET /counselor/session-notes?subject_type=appointment&subject_id=
+ */
+export async function getSessionNotesApi(query: GetSessionNotesQuery): Promise<GetSessionNotesResponseDto> {
+    return apiFetch<GetSessionNotesResponseDto>("/counselor/session-notes", {
+        method: "GET",
+        query: { subject_type: query.subject_type, subject_id: query.subject_id },
+    });
+}
+
+/**
+ * ✅ Start a draft
+ * POST /counselor/session-notes
+ */
+export async function createSessionNoteApi(payload: CreateSessionNotePayload): Promise<SessionNoteResponseDto> {
+    return apiFetch<SessionNoteResponseDto>("/counselor/session-notes", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Save a draft (author only)
+ * PUT /counselor/session-notes/{id}
+ */
+export async function updateSessionNoteApi(
+    id: number | string,
+    payload: UpdateSessionNotePayload,
+): Promise<SessionNoteResponseDto> {
+    return apiFetch<SessionNoteResponseDto>(notePath(id), { method: "PUT", body: JSON.stringify(payload) });
+}
+
+/**
+ * ✅ Discard a draft (author only)
+ * DELETE /counselor/session-notes/{id}
+ */
+export async function deleteSessionNoteApi(id: number | string): Promise<{ message?: string }> {
+    return apiFetch<{ message?: string }>(notePath(id), { method: "DELETE" });
+}
+
+/**
+ * ✅ Sign a draft (author only)
+ * POST /counselor/session-notes/{id}/sign
+ */
+export async function signSessionNoteApi(id: number | string): Promise<SessionNoteResponseDto> {
+    return apiFetch<SessionNoteResponseDto>(notePath(id, "/sign"), { method: "POST" });
+}
+
+/**
+ * ✅ Amend a signed note (author only; reason required)
+ * POST /counselor/session-notes/{id}/amendments
+ */
+export async function amendSessionNoteApi(
+    id: number | string,
+    payload: AmendSessionNotePayload,
+): Promise<SessionNoteResponseDto> {
+    return apiFetch<SessionNoteResponseDto>(notePath(id, "/amendments"), {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Lock a signed note against further amendments (author only)
+ * POST /counselor/session-notes/{id}/lock
+ */
+export async function lockSessionNoteApi(id: number | string): Promise<SessionNoteResponseDto> {
+    return apiFetch<SessionNoteResponseDto>(notePath(id, "/lock"), { method: "POST" });
+}
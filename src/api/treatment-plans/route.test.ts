@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    createTreatmentPlanApi,
+    getTreatmentPlansApi,
+    recordTreatmentProgressApi,
+    updateTreatmentPlanApi,
+    type SaveTreatmentPlanPayload,
+} from "@/api/treatment-plans/route";
+import { stubApi } from "@/test/api-stub";
+
+const plan: SaveTreatmentPlanPayload = {
+    title: "Exam anxiety",
+    start_date: "2026-10-19",
+    review_date: "2026-11-16",
+    goals: [{ description: "Use breathing exercise before exams", status: "in_progress" }],
+};
+
+describe("treatment plan routes", () => {
+    it("lists plans, optionally for one student", async () => {
+        const api = stubApi({ plans: [] });
+
+        await getTreatmentPlansApi();
+        await getTreatmentPlansApi(4);
+
+        expect(api.requests[0]).toMatchObject({ method: "GET", path: "/counselor/treatment-plans", query: {} });
+        expect(api.requests[1].query).toEqual({ student_id: "4" });
+    });
+
+    it("creates and updates a plan", async () => {
+        const api = stubApi({ plan: { id: 2 } });
+
+        await createTreatmentPlanApi({ ...plan, student_id: 4 });
+        await updateTreatmentPlanApi(2, plan);
+
+        expect(api.requests[0]).toMatchObject({
+            method: "POST",
+            path: "/counselor/treatment-plans",
+            body: { ...plan, student_id: 4 },
+        });
+        expect(api.requests[1]).toMatchObject({ method: "PUT", path: "/counselor/treatment-plans/2", body: plan });
+    });
+
+    it("records goal progress", async () => {
+        const api = stubApi({ plan: { id: 2 } });
+        const payload = { session_date: "2026-10-26", intake_request_id: 8, ratings: [{ goal_id: 5, rating: 2 as const }] };
+
+        await recordTreatmentProgressApi(2, payload);
+
+        expect(api.last()).toMatchObject({ method: "POST", path: "/counselor/treatment-plans/2/progress", body: payload });
+    });
+});
@@ -0,0 +1,156 @@
+import { apiFetch } from "@/api/client";
+import type { ManualAssessmentScoreDto } from "@/api/manual-scores/route";
+
+/**
+ * Treatment plans (counselors only).
+ *
+ * One active plan per student: goals with interventions and target dates,
+ * rated after each session on a 0–4 scale. Every progress update also writes
+ * a manual assessment score (average rating as a 0–100 percentage), so plan
+ * progress shows up in the student's score history and trend.
+ */
+
+export type TreatmentPlanStatusApi = "active" | "completed" | "discontinued";
+export type TreatmentGoalStatusApi = "in_progress" | "achieved" | "discontinued";
+
+/** 0 = not started … 4 = achieved */
+export type GoalProgressRatingApi = 0 | 1 | 2 | 3 | 4;
+
+export interface TreatmentGoalDto {
+    id: number;
+    description: string;
+    interventions: string | null;
+    target_date: string | null; // YYYY-MM-DD
+    status: TreatmentGoalStatusApi;
+    /** Latest rating (null until the first progress update) */
+    progress: GoalProgressRatingApi | null;
+}
+
+export interface TreatmentProgressDto {
+    id: number;
+    session_date: string; // YYYY-MM-DD
+    /** Appointment the update was written after, if any */
+    intake_request_id: number | null;
+    ratings: Array<{ goal_id: number; rating: GoalProgressRatingApi }>;
+    note: string | null;
+    /** Overall progress written to the manual score history (0–100) */
+    score: number;
+    manual_score_id: number | null;
+    recorded_by_name: string | null;
+    created_at: string;
+}
+
+export interface TreatmentPlanDto {
+    id: number;
+    student_id: number;
+    student_name: string | null;
+    counselor_id: number;
+    counselor_name: string | null;
+    title: string;
+    summary: string | null;
+    status: TreatmentPlanStatusApi;
+    start_date: string; // YYYY-MM-DD
+    review_date: string | null; // YYYY-MM-DD
+    goals: TreatmentGoalDto[];
+    /** Newest first */
+    progress_updates: TreatmentProgressDto[];
+    /** Latest overall progress (0–100), null before the first update */
+    latest_score: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface TreatmentGoalPayload {
+    /** Omit for new goals */
+    id?: number | null;
+    description: string;
+    interventions?: string | null;
+    target_date?: string | null;
+    status?: TreatmentGoalStatusApi;
+}
+
+export interface SaveTreatmentPlanPayload {
+    title: string;
+    summary?: string | null;
+    start_date: string;
+    review_date?: string | null;
+    /** Update only */
+    status?: TreatmentPlanStatusApi;
+    goals: TreatmentGoalPayload[];
+}
+
+export interface CreateTreatmentPlanPayload extends SaveTreatmentPlanPayload {
+    student_id: number | string;
+}
+
+export interface RecordTreatmentProgressPayload {
+    session_date: string;
+    intake_request_id?: number | string | null;
+    note?: string | null;
+    ratings: Array<{ goal_id: number; rating: GoalProgressRatingApi }>;
+}
+
+export interface GetTreatmentPlansResponseDto {
+    message?: string;
+    plans: TreatmentPlanDto[];
+}
+
+export interface TreatmentPlanResponseDto {
+    message?: string;
+    plan: TreatmentPlanDto;
+}
+
+export interface RecordTreatmentProgressResponseDto extends TreatmentPlanResponseDto {
+    /** Manual score written for this update */
+    score: ManualAssessmentScoreDto | null;
+}
+
+/**
+ * ✅ Counselor: plans of one student, or of the whole case load when `student_id` is omitted
+ * GET /counselor/treatment-plans?student_id=
+ */
+export async function getTreatmentPlansApi(studentId?: number | string | null): Promise<GetTreatmentPlansResponseDto> {
+    return apiFetch<GetTreatmentPlansResponseDto>("/counselor/treatment-plans", {
+        method: "GET",
+        query: { student_id: studentId ?? undefined },
+    });
+}
+
+/**
+ * ✅ Counselor: start a plan (a student has at most one active plan)
+ * POST /counselor/treatment-plans
+ */
+export async function createTreatmentPlanApi(payload: CreateTreatmentPlanPayload): Promise<TreatmentPlanResponseDto> {
+    return apiFetch<TreatmentPlanResponseDto>("/counselor/treatment-plans", {
+        method: "POST",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: edit the plan and its goals (goals left out of `goals` are removed)
+ * PUT /counselor/treatment-plans/{id}
+ */
+export async function updateTreatmentPlanApi(
+    id: number | string,
+    payload: SaveTreatmentPlanPayload,
+): Promise<TreatmentPlanResponseDto> {
+    return apiFetch<TreatmentPlanResponseDto>(`/counselor/treatment-plans/${encodeURIComponent(String(id))}`, {
+        method: "PUT",
+        body: JSON.stringify(payload),
+    });
+}
+
+/**
+ * ✅ Counselor: rate each open goal after a session
+ * POST /counselor/treatment-plans/{id}/progress
+ */
+export async function recordTreatmentProgressApi(
+    id: number | string,
+    payload: RecordTreatmentProgressPayload,
+): Promise<RecordTreatmentProgressResponseDto> {
+    return apiFetch<RecordTreatmentProgressResponseDto>(
+        `/counselor/treatment-plans/${encodeURIComponent(String(id))}/progress`,
+        { method: "POST", body: JSON.stringify(payload) },
+    );
+}
@@ -13,6 +13,7 @@ import DashboardHeader from "@/components/DashboardHeader";
 import { NavHeader } from "@/components/nav-header";
 import { NavMain } from "@/components/nav-main";
 import { NavFooter } from "@/components/nav-footer";
+import { SessionReminders } from "@/components/session-reminders";
 
 interface DashboardLayoutProps {
     title?: string;
@@ -27,6 +28,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
 }) => {
     return (
         <SidebarProvider>
+            <SessionReminders />
             <div className="flex min-h-screen w-full bg-muted/40">
                 <Sidebar variant="inset">
                     <SidebarHeader>
@@ -0,0 +1,283 @@
+import React from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { CalendarIcon, Loader2, Send } from "lucide-react";
+import { toast } from "sonner";
+
+import type { IntakeRequestDto } from "@/api/intake/route";
+import {
+    APPOINTMENT_CHANGE_TYPE_LABELS,
+    requestAppointmentChange,
+    type AppointmentChangeType,
+} from "@/lib/appointment-changes";
+import {
+    fetchAvailableSlots,
+    formatTimeLabel,
+    toAppointmentTimeValue,
+    type AvailableSlot,
+} from "@/lib/availability";
+import { cn } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+/** How far ahead students can propose a new time. */
+const RESCHEDULE_WINDOW_DAYS = 30;
+
+type AppointmentChangeDialogProps = {
+    /** Scheduled session the student wants to change (null closes the dialog) */
+    appointment: IntakeRequestDto | null;
+    onOpenChange: (open: boolean) => void;
+    onSubmitted: (appointment: IntakeRequestDto) => void;
+};
+
+/**
+ * Student asks the counselor to move a session to another open slot, or to cancel it.
+ * Nothing changes until the counselor accepts.
+ */
+export const AppointmentChangeDialog: React.FC<AppointmentChangeDialogProps> = ({
+    appointment,
+    onOpenChange,
+    onSubmitted,
+}) => {
+    const [type, setType] = React.useState<AppointmentChangeType>("reschedule");
+    const [date, setDate] = React.useState<Date | undefined>(undefined);
+    const [time, setTime] = React.useState("");
+    const [reason, setReason] = React.useState("");
+    const [slots, setSlots] = React.useState<AvailableSlot[]>([]);
+    const [isLoadingSlots, setIsLoadingSlots] = React.useState(false);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+    const appointmentId = appointment?.id ?? null;
+    const counselorId = appointment?.counselor_id ?? null;
+
+    React.useEffect(() => {
+        setType("reschedule");
+        setDate(undefined);
+        setTime("");
+        setReason("");
+        setSlots([]);
+        if (appointmentId == null) return;
+
+        let cancelled = false;
+        setIsLoadingSlots(true);
+
+        const today = new Date();
+        fetchAvailableSlots({
+            from: format(today, "yyyy-MM-dd"),
+            to: format(addDays(today, RESCHEDULE_WINDOW_DAYS), "yyyy-MM-dd"),
+            counselor_id: counselorId,
+            ignore_intake_id: appointmentId,
+        })
+            .then((result) => {
+                if (!cancelled) setSlots(result);
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    toast.error(error instanceof Error ? error.message : "Failed to load available schedules.");
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoadingSlots(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [appointmentId, counselorId]);
+
+    const dateValue = date ? format(date, "yyyy-MM-dd") : "";
+    const slotDates = React.useMemo(() => new Set(slots.map((slot) => slot.date)), [slots]);
+    const slotsForDate = React.useMemo(() => slots.filter((slot) => slot.date === dateValue), [slots, dateValue]);
+
+    const currentSchedule = React.useMemo(() => {
+        if (!appointment?.scheduled_date) return "—";
+        try {
+            return `${format(parseISO(appointment.scheduled_date), "MMM d, yyyy")} · ${appointment.scheduled_time ?? ""}`;
+        } catch {
+            return `${appointment.scheduled_date} · ${appointment.scheduled_time ?? ""}`;
+        }
+    }, [appointment]);
+
+    const handleSubmit = async () => {
+        if (!appointment) return;
+        if (type === "reschedule" && (!dateValue || !time)) {
+            toast.error("Please pick a new date and time.");
+            return;
+        }
+        if (!reason.trim()) {
+            toast.error("Please tell your counselor the reason.");
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const updated = await requestAppointmentChange(appointment.id, {
+                type,
+                proposed_date: type === "reschedule" ? dateValue : null,
+                proposed_time: type === "reschedule" ? time : null,
+                reason: reason.trim(),
+            });
+            toast.success("Request sent. Your counselor will accept or decline it.");
+            onSubmitted(updated);
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to send your request.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={appointment != null} onOpenChange={onOpenChange}>
+            <DialogContent className="w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle className="text-base text-amber-900">Reschedule or cancel session</DialogTitle>
+                    <DialogDescription className="text-xs">
+                        Current schedule: <span className="font-medium text-foreground">{currentSchedule}</span>. Your
+                        session stays as is until your counselor responds.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 text-xs">
+                    <div className="flex gap-2">
+                        {(Object.keys(APPOINTMENT_CHANGE_TYPE_LABELS) as AppointmentChangeType[]).map((option) => (
+                            <Button
+                                key={option}
+                                type="button"
+                                size="sm"
+                                variant={type === option ? "default" : "outline"}
+                                className="h-8 text-[0.7rem]"
+                                onClick={() => setType(option)}
+                                disabled={isSubmitting}
+                            >
+                                {option === "reschedule" ? "Propose a new time" : "Cancel session"}
+                            </Button>
+                        ))}
+                    </div>
+
+                    {type === "reschedule" ? (
+                        <div className="grid gap-3 sm:grid-cols-2">
+                            <div className="space-y-1.5">
+                                <Label className="text-xs font-medium text-amber-900">New date</Label>
+                                <Popover>
+                                    <PopoverTrigger asChild>
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            className={cn(
+                                                "w-full justify-start text-left font-normal",
+                                                !date && "text-muted-foreground",
+                                            )}
+                                            disabled={isLoadingSlots || slots.length === 0}
+                                        >
+                                            <CalendarIcon className="mr-2 h-4 w-4" />
+                                            {date ? format(date, "PPP") : <span>Select date</span>}
+                                        </Button>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0" align="start">
+                                        <Calendar
+                                            mode="single"
+                                            selected={date}
+                                            disabled={(d) => !slotDates.has(format(d, "yyyy-MM-dd"))}
+                                            onSelect={(d) => {
+                                                setDate(d ?? undefined);
+                                                setTime("");
+                                            }}
+                                            initialFocus
+                                        />
+                                    </PopoverContent>
+                                </Popover>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <Label htmlFor="change_time" className="text-xs font-medium text-amber-900">
+                                    Available time
+                                </Label>
+                                <Select
+                                    value={time}
+                                    onValueChange={setTime}
+                                    disabled={!dateValue || slotsForDate.length === 0}
+                                >
+                                    <SelectTrigger id="change_time" className="h-9 w-full text-left">
+                                        <SelectValue placeholder={dateValue ? "Select time" : "Pick a date first"} />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {slotsForDate.map((slot) => (
+                                            <SelectItem
+                                                key={slot.start_time}
+                                                value={toAppointmentTimeValue(slot.start_time)}
+                                            >
+                                                {formatTimeLabel(slot.start_time)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <p className="text-[0.7rem] text-muted-foreground sm:col-span-2">
+                                {isLoadingSlots
+                                    ? "Loading your counselor's open times…"
+                                    : slots.length === 0
+                                      ? `Your counselor has no open times in the next ${RESCHEDULE_WINDOW_DAYS} days. You can still ask to cancel, or message them.`
+                                      : "Only your counselor's open times are shown."}
+                            </p>
+                        </div>
+                    ) : null}
+
+                    <div className="space-y-1.5">
+                        <Label htmlFor="change_reason" className="text-xs font-medium text-amber-900">
+                            Reason
+                        </Label>
+                        <Textarea
+                            id="change_reason"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder={
+                                type === "reschedule"
+                                    ? "e.g. I have an exam at that time."
+                                    : "e.g. I'm feeling better and no longer need the session."
+                            }
+                            className="min-h-20 text-xs"
+                            disabled={isSubmitting}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full sm:w-auto"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isSubmitting}
+                    >
+                        Close
+                    </Button>
+                    <Button
+                        type="button"
+                        className="w-full gap-1 sm:w-auto"
+                        onClick={() => void handleSubmit()}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                        Send request
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default AppointmentChangeDialog;
@@ -0,0 +1,159 @@
+import React from "react";
+import { CalendarPlus, Copy, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+import { fetchCalendarFeed, rotateCalendarFeed, toWebcalUrl, type CalendarFeed } from "@/lib/calendar-feed";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+type CalendarFeedCardProps = {
+    /** Theme classes of the surrounding settings page */
+    className?: string;
+    titleClassName?: string;
+};
+
+/**
+ * Private subscription link (.ics feed) of the signed-in user's counseling sessions.
+ */
+export const CalendarFeedCard: React.FC<CalendarFeedCardProps> = ({ className, titleClassName }) => {
+    const [feed, setFeed] = React.useState<CalendarFeed | null>(null);
+    const [isLoading, setIsLoading] = React.useState(true);
+    const [isRotating, setIsRotating] = React.useState(false);
+
+    React.useEffect(() => {
+        let cancelled = false;
+
+        fetchCalendarFeed()
+            .then((result) => {
+                if (!cancelled) setFeed(result);
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    toast.error(error instanceof Error ? error.message : "Failed to load your calendar link.");
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleCopy = async () => {
+        if (!feed?.url) return;
+        try {
+            await navigator.clipboard.writeText(feed.url);
+            toast.success("Calendar link copied.");
+        } catch {
+            toast.error("Could not copy automatically. Select the link and copy it manually.");
+        }
+    };
+
+    const handleRotate = async () => {
+        setIsRotating(true);
+        try {
+            setFeed(await rotateCalendarFeed());
+            toast.success("Calendar link reset. Re-subscribe with the new link.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to reset your calendar link.");
+        } finally {
+            setIsRotating(false);
+        }
+    };
+
+    return (
+        <Card className={className}>
+            <CardHeader>
+                <CardTitle className={cn("text-sm font-semibold", titleClassName)}>Calendar subscription</CardTitle>
+                <CardDescription className="text-xs text-muted-foreground">
+                    Add this private link to Google Calendar, Outlook or Apple Calendar to see your upcoming counseling
+                    sessions. Reschedules and cancellations update automatically. Do not share it.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+                <Input
+                    readOnly
+                    value={isLoading ? "Loading…" : (feed?.url ?? "")}
+                    onFocus={(e) => e.currentTarget.select()}
+                    className="font-mono text-xs"
+                    aria-label="Calendar feed link"
+                />
+            </CardContent>
+
+            <CardFooter className="flex flex-col items-start gap-2 sm:flex-row sm:items-center">
+                <Button
+                    type="button"
+                    size="sm"
+                    className="w-full gap-1 sm:w-auto"
+                    disabled={!feed?.url}
+                    onClick={() => void handleCopy()}
+                >
+                    <Copy className="h-3 w-3" />
+                    <span>Copy link</span>
+                </Button>
+
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="w-full gap-1 sm:w-auto"
+                    disabled={!feed?.url}
+                    onClick={() => {
+                        // webcal:// hands the link to the device's calendar app
+                        if (feed?.url) window.location.href = toWebcalUrl(feed.url);
+                    }}
+                >
+                    <CalendarPlus className="h-3 w-3" />
+                    <span>Subscribe</span>
+                </Button>
+
+                <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="w-full gap-1 sm:w-auto"
+                            disabled={!feed || isRotating}
+                        >
+                            {isRotating ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                            <span>Reset link</span>
+                        </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Reset your calendar link?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                Calendars subscribed with the current link will stop receiving updates. Use this if the
+                                link was shared by mistake.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => void handleRotate()}>Reset link</AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </CardFooter>
+        </Card>
+    );
+};
+
+export default CalendarFeedCard;
@@ -0,0 +1,273 @@
+import React from "react";
+import { FileText, Loader2, Paperclip, ShieldAlert, ShieldQuestion, X } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+    MESSAGE_ATTACHMENT_ACCEPT,
+    fetchMessageAttachment,
+    formatFileSize,
+    isAttachmentAvailable,
+    isImageAttachment,
+    validateMessageAttachments,
+    type MessageAttachment,
+} from "@/lib/messages";
+import { resolveStorageUrl } from "@/lib/storage-url";
+import { cn } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+
+/** While a file is being scanned, re-check its status this often. */
+const SCAN_POLL_MS = 4_000;
+
+type AttachmentPickerButtonProps = {
+    files: File[];
+    onChange: (files: File[]) => void;
+    disabled?: boolean;
+    className?: string;
+};
+
+/**
+ * Paperclip button of the composer. Rejects files over the size / type / count
+ * limits before they are queued.
+ */
+export const AttachmentPickerButton: React.FC<AttachmentPickerButtonProps> = ({
+    files,
+    onChange,
+    disabled,
+    className,
+}) => {
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const picked = Array.from(e.target.files ?? []);
+        e.target.value = "";
+        if (picked.length === 0) return;
+
+        const problem = validateMessageAttachments(picked, files.length);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        onChange([...files, ...picked]);
+    };
+
+    return (
+        <>
+            <input
+                ref={inputRef}
+                type="file"
+                multiple
+                accept={MESSAGE_ATTACHMENT_ACCEPT}
+                className="hidden"
+                onChange={handlePick}
+            />
+            <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className={cn("h-11 w-11 shrink-0 rounded-2xl", className)}
+                disabled={disabled}
+                onClick={() => inputRef.current?.click()}
+                aria-label="Attach files"
+                title="Attach images or PDFs"
+            >
+                <Paperclip className="h-4 w-4" />
+            </Button>
+        </>
+    );
+};
+
+type SelectedAttachmentsProps = {
+    files: File[];
+    onRemove: (index: number) => void;
+    disabled?: boolean;
+};
+
+/** Files queued in the composer, each removable before sending. */
+export const SelectedAttachments: React.FC<SelectedAttachmentsProps> = ({ files, onRemove, disabled }) => {
+    if (files.length === 0) return null;
+
+    return (
+        <div className="mb-2 flex flex-wrap gap-2">
+            {files.map((file, index) => (
+                <span
+                    key={`${file.name}-${file.size}-${index}`}
+                    className="inline-flex max-w-full items-center gap-1.5 rounded-full border bg-white px-2.5 py-1 text-xs text-slate-700"
+                >
+                    <Paperclip className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    <span className="max-w-40 truncate">{file.name}</span>
+                    <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+                    <button
+                        type="button"
+                        className="rounded-full p-0.5 text-muted-foreground hover:bg-slate-100 hover:text-slate-900 disabled:opacity-50"
+                        onClick={() => onRemove(index)}
+                        disabled={disabled}
+                        aria-label={`Remove ${file.name}`}
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </span>
+            ))}
+        </div>
+    );
+};
+
+function isUrlExpired(attachment: MessageAttachment): boolean {
+    if (!attachment.url_expires_at) return false;
+    const expiresAt = Date.parse(attachment.url_expires_at);
+    return Number.isFinite(expiresAt) && expiresAt <= Date.now();
+}
+
+/**
+ * One attachment: an inline preview (images) or a file card (PDF) once the
+ * virus scan passes; a status placeholder until then.
+ */
+const MessageAttachmentItem: React.FC<{ attachment: MessageAttachment }> = ({ attachment: initial }) => {
+    const [attachment, setAttachment] = React.useState(initial);
+    const [imageFailed, setImageFailed] = React.useState(false);
+
+    React.useEffect(() => {
+        setAttachment(initial);
+        setImageFailed(false);
+    }, [initial]);
+
+    // ✅ Scanning: poll until the backend reports a result
+    React.useEffect(() => {
+        if (attachment.scan_status !== "pending") return;
+
+        let cancelled = false;
+        const timer = window.setTimeout(() => {
+            fetchMessageAttachment(attachment.id)
+                .then((next) => {
+                    if (!cancelled) setAttachment(next);
+                })
+                .catch(() => {
+                    // keep the placeholder; the next inbox refresh brings the status
+                });
+        }, SCAN_POLL_MS);
+
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [attachment]);
+
+    /** Signed URLs expire; fetch a fresh one before opening a stale link. */
+    const open = async (e: React.MouseEvent<HTMLAnchorElement>) => {
+        if (!isUrlExpired(attachment)) return;
+        e.preventDefault();
+
+        try {
+            const next = await fetchMessageAttachment(attachment.id);
+            setAttachment(next);
+            const href = resolveStorageUrl(next.url);
+            if (href) window.open(href, "_blank", "noopener,noreferrer");
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Could not open the attachment.");
+        }
+    };
+
+    const refreshAfterImageError = () => {
+        if (imageFailed) return;
+        setImageFailed(true);
+        fetchMessageAttachment(attachment.id)
+            .then((next) => {
+                setAttachment(next);
+                setImageFailed(false);
+            })
+            .catch(() => undefined);
+    };
+
+    const meta = (
+        <span className="min-w-0">
+            <span className="block truncate font-medium text-slate-800">{attachment.file_name}</span>
+            <span className="block text-[0.70rem] text-muted-foreground">{formatFileSize(attachment.size)}</span>
+        </span>
+    );
+
+    if (attachment.scan_status === "pending") {
+        return (
+            <div className="flex items-center gap-2 rounded-xl border border-dashed bg-white/70 px-3 py-2 text-xs">
+                <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+                {meta}
+                <span className="ml-auto shrink-0 text-[0.70rem] text-muted-foreground">Scanning for viruses…</span>
+            </div>
+        );
+    }
+
+    if (attachment.scan_status === "infected") {
+        return (
+            <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs">
+                <ShieldAlert className="h-4 w-4 shrink-0 text-red-600" />
+                {meta}
+                <span className="ml-auto shrink-0 text-[0.70rem] font-medium text-red-700">Blocked: failed virus scan</span>
+            </div>
+        );
+    }
+
+    const href = isAttachmentAvailable(attachment) ? resolveStorageUrl(attachment.url) : null;
+
+    if (!href) {
+        return (
+            <div className="flex items-center gap-2 rounded-xl border bg-slate-50 px-3 py-2 text-xs">
+                <ShieldQuestion className="h-4 w-4 shrink-0 text-amber-600" />
+                {meta}
+                <span className="ml-auto shrink-0 text-[0.70rem] text-muted-foreground">Unavailable (not scanned)</span>
+            </div>
+        );
+    }
+
+    if (isImageAttachment(attachment) && !imageFailed) {
+        return (
+            <a
+                href={href}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={open}
+                className="block overflow-hidden rounded-xl border bg-white"
+            >
+                <img
+                    src={href}
+                    alt={attachment.file_name}
+                    loading="lazy"
+                    className="max-h-56 w-full object-contain"
+                    onError={refreshAfterImageError}
+                />
+                <span className="flex items-center gap-2 px-3 py-1.5 text-xs">{meta}</span>
+            </a>
+        );
+    }
+
+    return (
+        <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={open}
+            className="flex items-center gap-2 rounded-xl border bg-white px-3 py-2 text-xs hover:bg-slate-50"
+        >
+            <FileText className="h-5 w-5 shrink-0 text-red-600" />
+            {meta}
+            <span className="ml-auto shrink-0 text-[0.70rem] font-medium text-emerald-700">Open</span>
+        </a>
+    );
+};
+
+type MessageAttachmentListProps = {
+    attachments: MessageAttachment[] | null | undefined;
+    className?: string;
+};
+
+/** Attachments of one message bubble. */
+export const MessageAttachmentList: React.FC<MessageAttachmentListProps> = ({ attachments, className }) => {
+    if (!attachments || attachments.length === 0) return null;
+
+    return (
+        <div className={cn("flex w-64 max-w-full flex-col gap-2 sm:w-72", className)}>
+            {attachments.map((attachment) => (
+                <MessageAttachmentItem key={attachment.id} attachment={attachment} />
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,121 @@
+import React from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+
+import { fetchMessageRevisions, type MessageRevision } from "@/lib/messages";
+
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+type MessageRevisionsDialogProps = {
+    /** Message whose log is shown; null keeps the dialog empty */
+    messageId: number | string | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+};
+
+const ROLE_LABELS: Record<string, string> = {
+    admin: "Admin",
+    counselor: "Counselor",
+    student: "Student",
+    guest: "Guest",
+    referral_user: "Referral user",
+};
+
+function formatWhen(iso: string): string {
+    const d = new Date(iso);
+    return Number.isNaN(d.getTime()) ? "" : format(d, "MMM d, yyyy • h:mm a");
+}
+
+const RevisionText: React.FC<{ label: string; text: string | null }> = ({ label, text }) => (
+    <div className="space-y-1">
+        <div className="text-[0.70rem] font-medium uppercase tracking-wide text-muted-foreground">{label}</div>
+        <div className="whitespace-pre-wrap rounded-lg border bg-muted/40 px-3 py-2 text-sm">
+            {text && text.trim() ? text : <span className="italic text-muted-foreground">No text</span>}
+        </div>
+    </div>
+);
+
+/**
+ * ✅ Admin view of a message's revision log (oldest first): every edit with the
+ * text before and after, and the delete-for-everyone. Entries are read-only.
+ */
+export function MessageRevisionsDialog({ messageId, open, onOpenChange }: MessageRevisionsDialogProps) {
+    const [revisions, setRevisions] = React.useState<MessageRevision[]>([]);
+    const [isLoading, setIsLoading] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        if (!open || messageId == null) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        fetchMessageRevisions(messageId)
+            .then((rows) => {
+                if (!cancelled) setRevisions(rows);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                setRevisions([]);
+                setError(err instanceof Error ? err.message : "Failed to load the revision history.");
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [open, messageId]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Message history</DialogTitle>
+                    <DialogDescription>Every edit and delete of this message, oldest first.</DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Loading history…
+                    </div>
+                ) : error ? (
+                    <div className="py-10 text-center text-sm text-destructive">{error}</div>
+                ) : revisions.length === 0 ? (
+                    <div className="py-10 text-center text-sm text-muted-foreground">
+                        This message was never edited or deleted.
+                    </div>
+                ) : (
+                    <ScrollArea className="max-h-[60vh] pr-3">
+                        <ol className="space-y-4">
+                            {revisions.map((r) => (
+                                <li key={String(r.id)} className="space-y-2 rounded-xl border p-3">
+                                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                                        <Badge variant={r.action === "deleted" ? "destructive" : "secondary"}>
+                                            {r.action === "deleted" ? "Deleted" : "Edited"}
+                                        </Badge>
+                                        <span className="font-medium text-foreground">{r.actor_name ?? "Unknown user"}</span>
+                                        {r.actor_role ? (
+                                            <span className="text-muted-foreground">
+                                                ({ROLE_LABELS[r.actor_role] ?? r.actor_role})
+                                            </span>
+                                        ) : null}
+                                        <span className="ml-auto text-muted-foreground">{formatWhen(r.created_at)}</span>
+                                    </div>
+
+                                    <RevisionText label="Before" text={r.previous_content} />
+                                    {r.action === "deleted" ? null : <RevisionText label="After" text={r.content} />}
+                                </li>
+                            ))}
+                        </ol>
+                    </ScrollArea>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
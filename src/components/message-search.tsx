@@ -0,0 +1,349 @@
+import React from "react";
+import { format } from "date-fns";
+import { Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+    MESSAGE_SEARCH_MIN_LENGTH,
+    messageSearchSnippet,
+    messageSearchTerms,
+    splitSearchMatches,
+} from "@/lib/messages";
+import { cn } from "@/lib/utils";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+/** Wait this long after the last keystroke before searching. */
+const SEARCH_DEBOUNCE_MS = 350;
+
+const ALL = "all";
+
+const SENDER_ROLE_OPTIONS: Array<{ value: string; label: string }> = [
+    { value: "student", label: "Student" },
+    { value: "guest", label: "Guest" },
+    { value: "counselor", label: "Counselor" },
+    { value: "admin", label: "Admin" },
+    { value: "referral_user", label: "Referral user" },
+];
+
+function senderRoleLabel(role: string): string {
+    return SENDER_ROLE_OPTIONS.find((o) => o.value === role)?.label ?? "System";
+}
+
+export type MessageSearchRequest = {
+    q: string;
+    /** Sender role, or "" for any */
+    senderRole: string;
+    /** YYYY-MM-DD or "" */
+    from: string;
+    to: string;
+    /** Key of the conversation option, or "" for every conversation */
+    conversationKey: string;
+    page: number;
+};
+
+export type MessageSearchResult<T> = {
+    id: number | string;
+    content: string;
+    senderName: string;
+    senderRole: string;
+    createdAt: string;
+    /** Who the conversation is with (or between) */
+    conversationLabel: string;
+    /** The raw hit, handed back on select */
+    source: T;
+};
+
+export type MessageSearchResponse<T> = {
+    results: MessageSearchResult<T>[];
+    total: number;
+    lastPage: number;
+};
+
+type MessageSearchDialogProps<T> = {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Options of the conversation filter */
+    conversations: Array<{ key: string; label: string }>;
+    search: (request: MessageSearchRequest) => Promise<MessageSearchResponse<T>>;
+    onSelect: (result: MessageSearchResult<T>) => void;
+    description?: string;
+};
+
+/** `text` with every search term wrapped in <mark>. */
+export const HighlightedText: React.FC<{ text: string; terms: string[]; className?: string }> = ({
+    text,
+    terms,
+    className,
+}) => (
+    <span className={className}>
+        {splitSearchMatches(text, terms).map((part, i) =>
+            part.match ? (
+                <mark key={i} className="rounded bg-amber-200/80 px-0.5 text-inherit">
+                    {part.text}
+                </mark>
+            ) : (
+                <React.Fragment key={i}>{part.text}</React.Fragment>
+            ),
+        )}
+    </span>
+);
+
+function formatHitDate(iso: string): string {
+    const d = new Date(iso);
+    return Number.isNaN(d.getTime()) ? "" : format(d, "MMM d, yyyy • h:mm a");
+}
+
+/**
+ * Full-text search over message content with sender role / date range /
+ * conversation filters. Picking a result closes the dialog and hands the hit
+ * back so the page can open its thread at that message.
+ */
+export function MessageSearchDialog<T>({
+    open,
+    onOpenChange,
+    conversations,
+    search,
+    onSelect,
+    description = "Find messages by their text. Every word must match.",
+}: MessageSearchDialogProps<T>) {
+    const [query, setQuery] = React.useState("");
+    const [senderRole, setSenderRole] = React.useState(ALL);
+    const [from, setFrom] = React.useState("");
+    const [to, setTo] = React.useState("");
+    const [conversationKey, setConversationKey] = React.useState(ALL);
+
+    const [results, setResults] = React.useState<MessageSearchResult<T>[]>([]);
+    const [total, setTotal] = React.useState(0);
+    const [page, setPage] = React.useState(1);
+    const [lastPage, setLastPage] = React.useState(1);
+    const [isSearching, setIsSearching] = React.useState(false);
+    const [searchedQuery, setSearchedQuery] = React.useState("");
+
+    const requestIdRef = React.useRef(0);
+    const searchRef = React.useRef(search);
+
+    React.useEffect(() => {
+        searchRef.current = search;
+    }, [search]);
+
+    const q = query.trim();
+    const tooShort = q.length < MESSAGE_SEARCH_MIN_LENGTH;
+    const terms = React.useMemo(() => messageSearchTerms(searchedQuery), [searchedQuery]);
+
+    const run = React.useCallback(
+        async (nextPage: number) => {
+            const requestId = ++requestIdRef.current;
+            setIsSearching(true);
+
+            try {
+                const res = await searchRef.current({
+                    q,
+                    senderRole: senderRole === ALL ? "" : senderRole,
+                    from,
+                    to,
+                    conversationKey: conversationKey === ALL ? "" : conversationKey,
+                    page: nextPage,
+                });
+                if (requestId !== requestIdRef.current) return;
+
+                setResults((prev) => (nextPage === 1 ? res.results : [...prev, ...res.results]));
+                setTotal(res.total);
+                setPage(nextPage);
+                setLastPage(res.lastPage);
+                setSearchedQuery(q);
+            } catch (err) {
+                if (requestId !== requestIdRef.current) return;
+                toast.error(err instanceof Error ? err.message : "Search failed.");
+            } finally {
+                if (requestId === requestIdRef.current) setIsSearching(false);
+            }
+        },
+        [q, senderRole, from, to, conversationKey],
+    );
+
+    // ✅ Re-run from the first page whenever the query or a filter changes
+    React.useEffect(() => {
+        if (!open) return;
+
+        if (tooShort) {
+            requestIdRef.current++;
+            setResults([]);
+            setTotal(0);
+            setSearchedQuery("");
+            setIsSearching(false);
+            return;
+        }
+
+        const timer = window.setTimeout(() => void run(1), SEARCH_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [open, tooShort, run]);
+
+    const clearFilters = () => {
+        setSenderRole(ALL);
+        setFrom("");
+        setTo("");
+        setConversationKey(ALL);
+    };
+
+    const hasFilters = senderRole !== ALL || !!from || !!to || conversationKey !== ALL;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>Search messages</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-3">
+                    <div className="relative">
+                        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                            autoFocus
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search message text…"
+                            className="h-10 pl-9"
+                            aria-label="Search message text"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-2 sm:grid-cols-4">
+                        <div className="space-y-1">
+                            <Label className="text-xs">Sender</Label>
+                            <Select value={senderRole} onValueChange={setSenderRole}>
+                                <SelectTrigger className="h-9 w-full">
+                                    <SelectValue placeholder="Any sender" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>Any sender</SelectItem>
+                                    {SENDER_ROLE_OPTIONS.map((o) => (
+                                        <SelectItem key={o.value} value={o.value}>
+                                            {o.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-1 sm:col-span-1">
+                            <Label className="text-xs">Conversation</Label>
+                            <Select value={conversationKey} onValueChange={setConversationKey}>
+                                <SelectTrigger className="h-9 w-full">
+                                    <SelectValue placeholder="All conversations" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL}>All conversations</SelectItem>
+                                    {conversations.map((c) => (
+                                        <SelectItem key={c.key} value={c.key}>
+                                            {c.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-1">
+                            <Label className="text-xs" htmlFor="message-search-from">
+                                From
+                            </Label>
+                            <Input
+                                id="message-search-from"
+                                type="date"
+                                value={from}
+                                max={to || undefined}
+                                onChange={(e) => setFrom(e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+
+                        <div className="space-y-1">
+                            <Label className="text-xs" htmlFor="message-search-to">
+                                To
+                            </Label>
+                            <Input
+                                id="message-search-to"
+                                type="date"
+                                value={to}
+                                min={from || undefined}
+                                onChange={(e) => setTo(e.target.value)}
+                                className="h-9"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                            {tooShort
+                                ? `Type at least ${MESSAGE_SEARCH_MIN_LENGTH} characters.`
+                                : isSearching && results.length === 0
+                                    ? "Searching…"
+                                    : `${total} ${total === 1 ? "match" : "matches"}`}
+                        </span>
+                        {hasFilters ? (
+                            <button type="button" className="underline-offset-2 hover:underline" onClick={clearFilters}>
+                                Clear filters
+                            </button>
+                        ) : null}
+                    </div>
+
+                    <ScrollArea className="h-80 rounded-xl border">
+                        <div className="divide-y">
+                            {results.map((r) => (
+                                <button
+                                    key={String(r.id)}
+                                    type="button"
+                                    className="block w-full px-3 py-2.5 text-left hover:bg-muted/60 focus:bg-muted/60 focus:outline-none"
+                                    onClick={() => {
+                                        onSelect(r);
+                                        onOpenChange(false);
+                                    }}
+                                >
+                                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+                                        <span className="font-medium text-slate-900">{r.senderName}</span>
+                                        <Badge variant="secondary" className="px-1.5 py-0 text-[0.65rem]">
+                                            {senderRoleLabel(r.senderRole)}
+                                        </Badge>
+                                        <span className="truncate text-muted-foreground">in {r.conversationLabel}</span>
+                                        <span className="ml-auto shrink-0 text-muted-foreground">{formatHitDate(r.createdAt)}</span>
+                                    </div>
+                                    <HighlightedText
+                                        text={messageSearchSnippet(r.content, terms)}
+                                        terms={terms}
+                                        className="mt-1 block text-sm text-slate-700"
+                                    />
+                                </button>
+                            ))}
+
+                            {!tooShort && !isSearching && results.length === 0 && searchedQuery ? (
+                                <div className="px-3 py-10 text-center text-sm text-muted-foreground">No messages match.</div>
+                            ) : null}
+                        </div>
+
+                        {page < lastPage ? (
+                            <div className="p-3 text-center">
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={isSearching}
+                                    onClick={() => void run(page + 1)}
+                                >
+                                    {isSearching ? <Loader2 className={cn("mr-2 h-3.5 w-3.5 animate-spin")} /> : null}
+                                    Load more
+                                </Button>
+                            </div>
+                        ) : null}
+                    </ScrollArea>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -11,6 +11,9 @@ import {
     BarChart3,
     Share2,
     FileText,
+    Clock,
+    CalendarDays,
+    UsersRound,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 
@@ -31,9 +34,11 @@ import {
     subscribeToSession,
     type AuthSession,
 } from "@/lib/authentication";
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
+import { apiFetch } from "@/api/client";
+import { subscribeToNotificationCounts } from "@/lib/notifications";
+import { useRealtimeStatus } from "@/hooks/use-realtime";
 
-type BadgeKey = "messages" | "appointments" | "referrals";
+type BadgeKey = "messages" | "appointments" | "referrals" | "riskAlerts";
 
 type NavItem = {
     title: string;
@@ -49,6 +54,7 @@ type NotificationCounts = {
     messages: number; // ✅ UNREAD messages only
     appointments: number;
     referrals: number;
+    riskAlerts: number; // ✅ unacknowledged self-harm flags (counselor)
 };
 
 function normalizePath(path: string): string {
@@ -106,10 +112,19 @@ function mapCountsFromApi(payload: any): NotificationCounts {
             0,
         );
 
+    const riskAlerts =
+        safeNumber(
+            src?.urgent_risk_alerts ??
+            src?.urgentRiskAlerts ??
+            src?.high_risk_assessments ??
+            0,
+        );
+
     return {
         messages: unreadMessages,
         appointments: pendingAppointments,
         referrals: newReferrals,
+        riskAlerts,
     };
 }
 
@@ -121,6 +136,7 @@ const studentNavItems: NavItem[] = [
     { title: "Intake", to: "/dashboard/student/intake", icon: ClipboardList },
     { title: "Messages", to: "/dashboard/student/messages", icon: MessageCircle, badgeKey: "messages" },
     { title: "Evaluation", to: "/dashboard/student/evaluation", icon: CalendarClock },
+    { title: "Group Sessions", to: "/dashboard/student/group-sessions", icon: UsersRound },
     { title: "Settings", to: "/dashboard/student/settings", icon: Settings },
 ];
 
@@ -129,8 +145,11 @@ const studentNavItems: NavItem[] = [
  */
 const counselorNavItems: NavItem[] = [
     { title: "Overview", to: "/dashboard/counselor", icon: LayoutDashboard, exact: true },
-    { title: "Intake", to: "/dashboard/counselor/intake", icon: ClipboardList },
+    { title: "Intake", to: "/dashboard/counselor/intake", icon: ClipboardList, badgeKey: "riskAlerts" },
     { title: "Appointments", to: "/dashboard/counselor/appointments", icon: CalendarClock, badgeKey: "appointments" },
+    { title: "Calendar", to: "/dashboard/counselor/calendar", icon: CalendarDays },
+    { title: "Availability", to: "/dashboard/counselor/availability", icon: Clock },
+    { title: "Group Sessions", to: "/dashboard/counselor/group-sessions", icon: UsersRound },
     { title: "Messages", to: "/dashboard/counselor/messages", icon: MessageCircle, badgeKey: "messages" },
     { title: "Referrals", to: "/dashboard/counselor/referrals", icon: Share2, badgeKey: "referrals" },
     { title: "Case Load", to: "/dashboard/counselor/case-load", icon: Users },
@@ -182,27 +201,8 @@ function useAuthSession(): AuthSession {
     return session;
 }
 
-function trimSlash(s: string) {
-    return s.replace(/\/+$/, "");
-}
-
 async function fetchNotificationCountsRaw(authToken?: string | null): Promise<any> {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-
-    const url = `${trimSlash(AUTH_API_BASE_URL)}/notifications/counts`;
-
-    const headers: Record<string, string> = { Accept: "application/json" };
-    if (authToken) headers.Authorization = `Bearer ${authToken}`;
-
-    const res = await fetch(url, { method: "GET", headers, credentials: "include" });
-
-    if (!res.ok) {
-        throw new Error(`Failed to fetch notification counts (${res.status})`);
-    }
-
-    const json = await res.json();
+    const json = await apiFetch<any>("/notifications/counts", { method: "GET", token: authToken });
 
     if (import.meta.env.DEV) {
         console.debug("[/notifications/counts] raw payload:", json);
@@ -263,6 +263,7 @@ export const NavMain: React.FC = () => {
         messages: 0,
         appointments: 0,
         referrals: 0,
+        riskAlerts: 0,
     });
 
     const authToken =
@@ -273,6 +274,10 @@ export const NavMain: React.FC = () => {
 
     const shouldFetchCounts = !!user;
 
+    // ✅ Counts are pushed while the socket is up; polling is the fallback
+    const realtimeStatus = useRealtimeStatus();
+    const live = realtimeStatus === "connected";
+
     const refreshCounts = React.useCallback(async () => {
         if (!shouldFetchCounts) return;
 
@@ -285,9 +290,15 @@ export const NavMain: React.FC = () => {
         }
     }, [authToken, shouldFetchCounts]);
 
+    // Also re-sync when the socket (re)connects, to pick up changes missed while it was down
     React.useEffect(() => {
         refreshCounts();
-    }, [location.pathname, refreshCounts]);
+    }, [location.pathname, refreshCounts, live]);
+
+    React.useEffect(() => {
+        if (!shouldFetchCounts) return;
+        return subscribeToNotificationCounts((payload) => setCounts(mapCountsFromApi(payload)));
+    }, [shouldFetchCounts]);
 
     React.useEffect(() => {
         if (!shouldFetchCounts) return;
@@ -295,9 +306,11 @@ export const NavMain: React.FC = () => {
         const fastPoll = isMessagesRoute && counts.messages > 0;
         const intervalMs = fastPoll ? 3000 : 30000;
 
-        const interval = window.setInterval(() => {
-            refreshCounts();
-        }, intervalMs);
+        const interval = live
+            ? null
+            : window.setInterval(() => {
+                refreshCounts();
+            }, intervalMs);
 
         const onFocus = () => refreshCounts();
 
@@ -305,21 +318,27 @@ export const NavMain: React.FC = () => {
             if (document.visibilityState === "visible") refreshCounts();
         };
 
+        // Pages ask for a refresh after marking messages read
+        const onRefreshRequest = () => refreshCounts();
+
         window.addEventListener("focus", onFocus);
         document.addEventListener("visibilitychange", onVisibilityChange);
+        window.addEventListener("notifications:refresh", onRefreshRequest);
 
         return () => {
-            window.clearInterval(interval);
+            if (interval != null) window.clearInterval(interval);
             window.removeEventListener("focus", onFocus);
             document.removeEventListener("visibilitychange", onVisibilityChange);
+            window.removeEventListener("notifications:refresh", onRefreshRequest);
         };
-    }, [refreshCounts, shouldFetchCounts, isMessagesRoute, counts.messages]);
+    }, [refreshCounts, shouldFetchCounts, isMessagesRoute, counts.messages, live]);
 
     const getBadgeForItem = (badgeKey?: BadgeKey): string => {
         if (!badgeKey) return "";
         if (badgeKey === "messages") return formatBadgeValue(counts.messages);
         if (badgeKey === "appointments") return formatBadgeValue(counts.appointments);
         if (badgeKey === "referrals") return formatBadgeValue(counts.referrals);
+        if (badgeKey === "riskAlerts") return formatBadgeValue(counts.riskAlerts);
         return "";
     };
 
@@ -356,7 +375,8 @@ export const NavMain: React.FC = () => {
 
                                         {badgeText ? (
                                             <Badge
-                                                variant="secondary"
+                                                variant={item.badgeKey === "riskAlerts" ? "destructive" : "secondary"}
+                                                title={item.badgeKey === "riskAlerts" ? "Urgent: self-harm flags awaiting follow-up" : undefined}
                                                 className="ml-auto min-w-5 justify-center rounded-full px-2 py-0.5 text-[0.7rem] font-semibold"
                                             >
                                                 {badgeText}
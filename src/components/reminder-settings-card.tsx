@@ -0,0 +1,151 @@
+import React from "react";
+import { BellRing, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+    DEFAULT_REMINDER_SETTINGS,
+    REMINDER_CHANNEL_LABELS,
+    REMINDER_OFFSET_OPTIONS,
+    fetchReminderSettings,
+    formatReminderOffset,
+    saveReminderSettings,
+    type ReminderChannel,
+    type ReminderSettings,
+} from "@/lib/reminders";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+type ReminderSettingsCardProps = {
+    /** Theme classes of the surrounding settings page */
+    className?: string;
+    titleClassName?: string;
+};
+
+const CHANNELS = Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[];
+
+function toggle<T>(list: T[], value: T): T[] {
+    return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+/**
+ * How and when the signed-in user is reminded of upcoming counseling sessions.
+ */
+export const ReminderSettingsCard: React.FC<ReminderSettingsCardProps> = ({ className, titleClassName }) => {
+    const [settings, setSettings] = React.useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+    const [isLoading, setIsLoading] = React.useState(true);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    React.useEffect(() => {
+        let cancelled = false;
+
+        fetchReminderSettings()
+            .then((result) => {
+                if (!cancelled) setSettings(result);
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    toast.error(error instanceof Error ? error.message : "Failed to load reminder preferences.");
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleSave = async () => {
+        if (settings.channels.length > 0 && settings.offsets_minutes.length === 0) {
+            toast.error("Pick at least one reminder time, or turn off both channels.");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            setSettings(await saveReminderSettings(settings));
+            toast.success("Reminder preferences saved.");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save reminder preferences.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const disabled = isLoading || isSaving;
+
+    return (
+        <Card className={className}>
+            <CardHeader>
+                <CardTitle className={cn("text-sm font-semibold", titleClassName)}>Session reminders</CardTitle>
+                <CardDescription className="text-xs text-muted-foreground">
+                    Get reminded before your scheduled counseling sessions. Reminders are sent again if a session is
+                    rescheduled.
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-4 text-xs">
+                <div className="space-y-2">
+                    <p className="font-medium text-foreground">Send reminders by</p>
+                    <div className="flex flex-wrap gap-4">
+                        {CHANNELS.map((channel) => (
+                            <label key={channel} className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.channels.includes(channel)}
+                                    onChange={() =>
+                                        setSettings((prev) => ({ ...prev, channels: toggle(prev.channels, channel) }))
+                                    }
+                                    disabled={disabled}
+                                    className="h-4 w-4 rounded border-muted-foreground/40"
+                                />
+                                <span>{REMINDER_CHANNEL_LABELS[channel]}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="font-medium text-foreground">Remind me</p>
+                    <div className="flex flex-wrap gap-4">
+                        {REMINDER_OFFSET_OPTIONS.map((offset) => (
+                            <label key={offset} className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.offsets_minutes.includes(offset)}
+                                    onChange={() =>
+                                        setSettings((prev) => ({
+                                            ...prev,
+                                            offsets_minutes: toggle(prev.offsets_minutes, offset),
+                                        }))
+                                    }
+                                    disabled={disabled || settings.channels.length === 0}
+                                    className="h-4 w-4 rounded border-muted-foreground/40"
+                                />
+                                <span>{formatReminderOffset(offset)}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            </CardContent>
+
+            <CardFooter>
+                <Button
+                    type="button"
+                    size="sm"
+                    className="w-full gap-1 sm:w-auto"
+                    disabled={disabled}
+                    onClick={() => void handleSave()}
+                >
+                    {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <BellRing className="h-3 w-3" />}
+                    <span>Save reminders</span>
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+};
+
+export default ReminderSettingsCard;
@@ -0,0 +1,481 @@
+import React from "react";
+import { format as formatDate, parseISO } from "date-fns";
+import { FilePenLine, History, Loader2, Lock, PenLine, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { getCurrentSession } from "@/lib/authentication";
+import {
+    SESSION_NOTE_FORMAT_LABELS,
+    SESSION_NOTE_SECTIONS,
+    SESSION_NOTE_STATUS_LABELS,
+    amendSessionNote,
+    deleteSessionNoteDraft,
+    emptySessionNoteSections,
+    fetchSessionNotes,
+    lockSessionNote,
+    missingSessionNoteSections,
+    saveSessionNoteDraft,
+    sessionNoteSectionsEqual,
+    signSessionNote,
+    type SessionNote,
+    type SessionNoteFormat,
+    type SessionNoteSections,
+    type SessionNoteSubjectType,
+} from "@/lib/session-notes";
+import { cn } from "@/lib/utils";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type SessionNotesPanelProps = {
+    subjectType: SessionNoteSubjectType;
+    subjectId: number | string;
+};
+
+/** create: new draft · edit: existing draft · amend: signed note */
+type EditorState = {
+    mode: "create" | "edit" | "amend";
+    note: SessionNote | null;
+    format: SessionNoteFormat;
+    sections: SessionNoteSections;
+    reason: string;
+};
+
+type PendingAction = { kind: "sign" | "lock" | "discard"; note: SessionNote };
+
+const STATUS_CLASS: Record<SessionNote["status"], string> = {
+    draft: "border-amber-200 bg-amber-50 text-amber-800",
+    signed: "border-emerald-200 bg-emerald-50 text-emerald-800",
+    locked: "border-slate-300 bg-slate-100 text-slate-700",
+};
+
+const ACTION_COPY: Record<PendingAction["kind"], { title: string; description: string; confirm: string }> = {
+    sign: {
+        title: "Sign this note?",
+        description: "The text is frozen once signed. Later corrections are recorded as amendments with a reason.",
+        confirm: "Sign note",
+    },
+    lock: {
+        title: "Lock this note?",
+        description: "Locked notes can no longer be amended. Do this once the record is final.",
+        confirm: "Lock note",
+    },
+    discard: {
+        title: "Discard this draft?",
+        description: "The draft is deleted. This cannot be undone.",
+        confirm: "Discard",
+    },
+};
+
+function fmtDateTime(value: string | null): string {
+    if (!value) return "—";
+    try {
+        return formatDate(parseISO(value), "MMM d, yyyy · h:mm a");
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Confidential SOAP / DAP notes of one appointment or referral session.
+ * Only counselors can load them; only the author can edit, sign, amend or lock.
+ */
+export const SessionNotesPanel: React.FC<SessionNotesPanelProps> = ({ subjectType, subjectId }) => {
+    const [notes, setNotes] = React.useState<SessionNote[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [editor, setEditor] = React.useState<EditorState | null>(null);
+    const [busy, setBusy] = React.useState(false);
+    const [pending, setPending] = React.useState<PendingAction | null>(null);
+    const [openHistoryId, setOpenHistoryId] = React.useState<number | null>(null);
+
+    const currentUserId = String(getCurrentSession().user?.id ?? "");
+
+    React.useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setEditor(null);
+
+        fetchSessionNotes(subjectType, subjectId)
+            .then((rows) => {
+                if (!cancelled) setNotes(rows);
+            })
+            .catch((error) => {
+                if (!cancelled) toast.error(error instanceof Error ? error.message : "Failed to load session notes.");
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [subjectType, subjectId]);
+
+    const upsert = (note: SessionNote) => {
+        setNotes((prev) =>
+            prev.some((n) => n.id === note.id) ? prev.map((n) => (n.id === note.id ? note : n)) : [...prev, note],
+        );
+    };
+
+    const startEditor = (mode: EditorState["mode"], note: SessionNote | null, format: SessionNoteFormat = "soap") => {
+        setEditor({
+            mode,
+            note,
+            format: note?.format ?? format,
+            sections: emptySessionNoteSections(note?.format ?? format, note?.sections),
+            reason: "",
+        });
+    };
+
+    const handleSave = async () => {
+        if (!editor) return;
+
+        setBusy(true);
+        try {
+            if (editor.mode === "amend" && editor.note) {
+                if (!editor.reason.trim()) {
+                    toast.error("Please give the reason for the amendment.");
+                    return;
+                }
+                if (sessionNoteSectionsEqual(editor.sections, editor.note.sections)) {
+                    toast.error("Nothing was changed.");
+                    return;
+                }
+                upsert(await amendSessionNote(editor.note.id, editor.sections, editor.reason));
+                toast.success("Amendment recorded.");
+            } else {
+                upsert(
+                    await saveSessionNoteDraft({
+                        id: editor.note?.id ?? null,
+                        subjectType,
+                        subjectId,
+                        format: editor.format,
+                        sections: editor.sections,
+                    }),
+                );
+                toast.success("Draft saved.");
+            }
+            setEditor(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save the note.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const confirmPending = async () => {
+        if (!pending) return;
+        const { kind, note } = pending;
+
+        setBusy(true);
+        try {
+            if (kind === "discard") {
+                await deleteSessionNoteDraft(note.id);
+                setNotes((prev) => prev.filter((n) => n.id !== note.id));
+                toast.success("Draft discarded.");
+            } else {
+                upsert(kind === "sign" ? await signSessionNote(note.id) : await lockSessionNote(note.id));
+                toast.success(kind === "sign" ? "Note signed." : "Note locked.");
+            }
+            setPending(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Something went wrong.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const askSign = (note: SessionNote) => {
+        const missing = missingSessionNoteSections(note);
+        if (missing.length > 0) {
+            toast.error(`Fill in ${missing.map((s) => s.label).join(", ")} before signing.`);
+            return;
+        }
+        setPending({ kind: "sign", note });
+    };
+
+    if (loading) {
+        return (
+            <div className="space-y-2">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-24 w-full" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3 text-xs">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="flex items-center gap-1.5 text-[0.7rem] text-muted-foreground">
+                    <ShieldCheck className="h-3.5 w-3.5" />
+                    Confidential: visible to counselors only.
+                </p>
+                {editor == null ? (
+                    <div className="flex gap-1.5">
+                        {(Object.keys(SESSION_NOTE_FORMAT_LABELS) as SessionNoteFormat[]).map((f) => (
+                            <Button
+                                key={f}
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-8 gap-1 text-[0.7rem]"
+                                onClick={() => startEditor("create", null, f)}
+                            >
+                                <Plus className="h-3.5 w-3.5" />
+                                {SESSION_NOTE_FORMAT_LABELS[f]} note
+                            </Button>
+                        ))}
+                    </div>
+                ) : null}
+            </div>
+
+            {editor ? (
+                <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50/40 p-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-semibold text-amber-900">
+                            {editor.mode === "amend"
+                                ? "Amend signed note"
+                                : editor.mode === "edit"
+                                  ? "Edit draft"
+                                  : "New draft"}
+                        </p>
+                        {editor.mode !== "amend" ? (
+                            <div className="flex gap-1">
+                                {(Object.keys(SESSION_NOTE_FORMAT_LABELS) as SessionNoteFormat[]).map((f) => (
+                                    <Button
+                                        key={f}
+                                        type="button"
+                                        size="sm"
+                                        variant={editor.format === f ? "default" : "outline"}
+                                        className="h-7 text-[0.7rem]"
+                                        onClick={() =>
+                                            setEditor((prev) =>
+                                                prev
+                                                    ? { ...prev, format: f, sections: emptySessionNoteSections(f, prev.sections) }
+                                                    : prev,
+                                            )
+                                        }
+                                        disabled={busy}
+                                    >
+                                        {SESSION_NOTE_FORMAT_LABELS[f]}
+                                    </Button>
+                                ))}
+                            </div>
+                        ) : (
+                            <Badge variant="outline">{SESSION_NOTE_FORMAT_LABELS[editor.format]}</Badge>
+                        )}
+                    </div>
+
+                    {SESSION_NOTE_SECTIONS[editor.format].map((section) => (
+                        <div key={section.key} className="space-y-1">
+                            <Label htmlFor={`note_${section.key}`} className="text-xs font-medium text-amber-900">
+                                {section.label}
+                            </Label>
+                            <Textarea
+                                id={`note_${section.key}`}
+                                value={editor.sections[section.key] ?? ""}
+                                onChange={(e) =>
+                                    setEditor((prev) =>
+                                        prev
+                                            ? { ...prev, sections: { ...prev.sections, [section.key]: e.target.value } }
+                                            : prev,
+                                    )
+                                }
+                                placeholder={section.hint}
+                                className="min-h-16 bg-white text-xs"
+                                disabled={busy}
+                            />
+                        </div>
+                    ))}
+
+                    {editor.mode === "amend" ? (
+                        <div className="space-y-1">
+                            <Label htmlFor="note_amend_reason" className="text-xs font-medium text-amber-900">
+                                Reason for amendment
+                            </Label>
+                            <Input
+                                id="note_amend_reason"
+                                value={editor.reason}
+                                onChange={(e) => setEditor((prev) => (prev ? { ...prev, reason: e.target.value } : prev))}
+                                placeholder="e.g. Corrected the PHQ-9 score."
+                                className="h-8 bg-white text-xs"
+                                disabled={busy}
+                            />
+                        </div>
+                    ) : null}
+
+                    <div className="flex justify-end gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setEditor(null)} disabled={busy}>
+                            Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={() => void handleSave()} disabled={busy} className="gap-1">
+                            {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                            {editor.mode === "amend" ? "Save amendment" : "Save draft"}
+                        </Button>
+                    </div>
+                </div>
+            ) : null}
+
+            {notes.length === 0 && editor == null ? (
+                <p className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
+                    No session notes yet.
+                </p>
+            ) : null}
+
+            {notes.map((note) => {
+                const isAuthor = String(note.author_id) === currentUserId;
+                const editingThis = editor?.note?.id === note.id;
+
+                return (
+                    <div key={note.id} className={cn("space-y-2 rounded-md border bg-white p-3", editingThis && "opacity-50")}>
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <Badge variant="outline">{SESSION_NOTE_FORMAT_LABELS[note.format]}</Badge>
+                                <Badge className={cn("border", STATUS_CLASS[note.status])}>
+                                    {SESSION_NOTE_STATUS_LABELS[note.status]}
+                                </Badge>
+                                <span className="text-[0.7rem] text-muted-foreground">
+                                    {note.author_name ?? "Counselor"} ·{" "}
+                                    {note.signed_at ? `signed ${fmtDateTime(note.signed_at)}` : `saved ${fmtDateTime(note.updated_at)}`}
+                                    {note.locked_at ? ` · locked ${fmtDateTime(note.locked_at)}` : ""}
+                                </span>
+                            </div>
+
+                            {isAuthor && editor == null ? (
+                                <div className="flex gap-1">
+                                    {note.status === "draft" ? (
+                                        <>
+                                            <Button size="sm" variant="ghost" className="h-7 gap-1 text-[0.7rem]" onClick={() => startEditor("edit", note)}>
+                                                <PenLine className="h-3.5 w-3.5" />
+                                                Edit
+                                            </Button>
+                                            <Button size="sm" variant="ghost" className="h-7 gap-1 text-[0.7rem]" onClick={() => askSign(note)}>
+                                                <ShieldCheck className="h-3.5 w-3.5" />
+                                                Sign
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                className="h-7 text-[0.7rem] text-destructive"
+                                                onClick={() => setPending({ kind: "discard", note })}
+                                            >
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </>
+                                    ) : note.status === "signed" ? (
+                                        <>
+                                            <Button size="sm" variant="ghost" className="h-7 gap-1 text-[0.7rem]" onClick={() => startEditor("amend", note)}>
+                                                <FilePenLine className="h-3.5 w-3.5" />
+                                                Amend
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                className="h-7 gap-1 text-[0.7rem]"
+                                                onClick={() => setPending({ kind: "lock", note })}
+                                            >
+                                                <Lock className="h-3.5 w-3.5" />
+                                                Lock
+                                            </Button>
+                                        </>
+                                    ) : null}
+                                </div>
+                            ) : null}
+                        </div>
+
+                        <dl className="space-y-1.5">
+                            {SESSION_NOTE_SECTIONS[note.format].map((section) => (
+                                <div key={section.key}>
+                                    <dt className="font-semibold text-amber-900">{section.label}</dt>
+                                    <dd className="whitespace-pre-wrap text-foreground">
+                                        {note.sections[section.key] || <span className="text-muted-foreground">—</span>}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+
+                        {note.amendments.length > 0 ? (
+                            <div className="border-t pt-2">
+                                <Button
+                                    type="button"
+                                    variant="link"
+                                    className="h-auto p-0 text-[0.7rem] text-amber-900"
+                                    onClick={() => setOpenHistoryId((id) => (id === note.id ? null : note.id))}
+                                >
+                                    <History className="mr-1 h-3.5 w-3.5" />
+                                    {note.amendments.length} amendment{note.amendments.length === 1 ? "" : "s"}
+                                </Button>
+
+                                {openHistoryId === note.id ? (
+                                    <ol className="mt-2 space-y-2">
+                                        {note.amendments.map((a) => (
+                                            <li key={a.id} className="rounded border bg-slate-50 p-2">
+                                                <div className="text-[0.7rem] text-muted-foreground">
+                                                    {fmtDateTime(a.created_at)} · {a.amended_by_name ?? "Counselor"}
+                                                </div>
+                                                <div className="font-medium">Reason: {a.reason}</div>
+                                                {SESSION_NOTE_SECTIONS[note.format]
+                                                    .filter((s) => (a.previous_sections[s.key] ?? "") !== (a.sections[s.key] ?? ""))
+                                                    .map((s) => (
+                                                        <div key={s.key} className="mt-1">
+                                                            <span className="font-semibold">{s.label}: </span>
+                                                            <span className="text-muted-foreground line-through">
+                                                                {a.previous_sections[s.key] || "—"}
+                                                            </span>
+                                                            <span> → {a.sections[s.key] || "—"}</span>
+                                                        </div>
+                                                    ))}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                ) : null}
+                            </div>
+                        ) : null}
+                    </div>
+                );
+            })}
+
+            <AlertDialog open={pending != null} onOpenChange={(open) => !open && !busy && setPending(null)}>
+                <AlertDialogContent className="w-[calc(100vw-2rem)] max-w-md sm:w-full">
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="text-sm font-semibold text-amber-900">
+                            {pending ? ACTION_COPY[pending.kind].title : ""}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription className="text-xs text-muted-foreground">
+                            {pending ? ACTION_COPY[pending.kind].description : ""}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter className="gap-2 sm:gap-0">
+                        <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                void confirmPending();
+                            }}
+                            disabled={busy}
+                        >
+                            {busy ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : null}
+                            {pending ? ACTION_COPY[pending.kind].confirm : ""}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+};
+
+export default SessionNotesPanel;
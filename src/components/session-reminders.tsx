@@ -0,0 +1,57 @@
+import React from "react";
+import { toast } from "sonner";
+
+import { getCurrentSession } from "@/lib/authentication";
+import { fetchUnreadReminders, formatReminderOffset, markReminderRead } from "@/lib/reminders";
+
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Shows due in-app session reminders as toasts until the user dismisses them.
+ * Renders nothing; mounted once by `DashboardLayout`.
+ */
+export const SessionReminders: React.FC = () => {
+    React.useEffect(() => {
+        let cancelled = false;
+
+        const poll = async () => {
+            if (!getCurrentSession().user) return;
+
+            try {
+                const reminders = await fetchUnreadReminders();
+                if (cancelled) return;
+
+                reminders.forEach((reminder) => {
+                    const dismiss = () => {
+                        void markReminderRead(reminder.id).catch(() => {
+                            // silent fail: it is shown again on the next poll
+                        });
+                    };
+
+                    // same toast id → an open reminder is not stacked again on every poll
+                    toast.info(reminder.title, {
+                        id: `session-reminder-${reminder.id}`,
+                        description: `${reminder.body} (${formatReminderOffset(reminder.offset_minutes)})`,
+                        duration: Infinity,
+                        action: { label: "Got it", onClick: dismiss },
+                        onDismiss: dismiss,
+                    });
+                });
+            } catch {
+                // silent fail: reminders are best-effort
+            }
+        };
+
+        void poll();
+        const interval = window.setInterval(() => void poll(), POLL_INTERVAL_MS);
+
+        return () => {
+            cancelled = true;
+            window.clearInterval(interval);
+        };
+    }, []);
+
+    return null;
+};
+
+export default SessionReminders;
@@ -0,0 +1,614 @@
+import React from "react";
+import { format as formatDate, parseISO } from "date-fns";
+import { ClipboardList, History, Loader2, PenLine, Plus, Target, Trash2, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+
+import { getCurrentSession } from "@/lib/authentication";
+import {
+    GOAL_PROGRESS_LABELS,
+    GOAL_PROGRESS_RATINGS,
+    TREATMENT_GOAL_STATUS_LABELS,
+    TREATMENT_PLAN_STATUS_LABELS,
+    activeTreatmentPlan,
+    emptyTreatmentGoalDraft,
+    fetchTreatmentPlans,
+    ratableGoals,
+    recordTreatmentProgress,
+    saveTreatmentPlan,
+    treatmentPlanDraft,
+    treatmentProgressScore,
+    validateTreatmentPlanDraft,
+    type GoalProgressRating,
+    type TreatmentGoalDraft,
+    type TreatmentGoalStatus,
+    type TreatmentPlan,
+    type TreatmentPlanDraft,
+    type TreatmentPlanStatus,
+} from "@/lib/treatment-plans";
+import { cn } from "@/lib/utils";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type TreatmentPlanPanelProps = {
+    studentId: number | string;
+    /** Called after the plan was created, edited or rated */
+    onChanged?: (plan: TreatmentPlan) => void;
+};
+
+type EditorState =
+    | { kind: "plan"; plan: TreatmentPlan | null; draft: TreatmentPlanDraft }
+    | {
+          kind: "progress";
+          plan: TreatmentPlan;
+          sessionDate: string;
+          note: string;
+          ratings: Partial<Record<number, GoalProgressRating>>;
+      };
+
+const PLAN_STATUS_CLASS: Record<TreatmentPlanStatus, string> = {
+    active: "border-emerald-200 bg-emerald-50 text-emerald-800",
+    completed: "border-sky-200 bg-sky-50 text-sky-800",
+    discontinued: "border-slate-300 bg-slate-100 text-slate-700",
+};
+
+const GOAL_STATUS_CLASS: Record<TreatmentGoalStatus, string> = {
+    in_progress: "border-amber-200 bg-amber-50 text-amber-800",
+    achieved: "border-emerald-200 bg-emerald-50 text-emerald-800",
+    discontinued: "border-slate-300 bg-slate-100 text-slate-700",
+};
+
+function todayIso(): string {
+    return formatDate(new Date(), "yyyy-MM-dd");
+}
+
+function fmtDate(value: string | null): string {
+    if (!value) return "—";
+    try {
+        return formatDate(parseISO(value), "MMM d, yyyy");
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Treatment plan of one student: goals with interventions and target dates,
+ * rated after each session. Ratings also land in the manual score history.
+ * Any counselor can read the plan; only its counselor can change it.
+ */
+export const TreatmentPlanPanel: React.FC<TreatmentPlanPanelProps> = ({ studentId, onChanged }) => {
+    const [plans, setPlans] = React.useState<TreatmentPlan[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [editor, setEditor] = React.useState<EditorState | null>(null);
+    const [busy, setBusy] = React.useState(false);
+    const [showHistory, setShowHistory] = React.useState(false);
+
+    const currentUserId = String(getCurrentSession().user?.id ?? "");
+
+    React.useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setEditor(null);
+
+        fetchTreatmentPlans(studentId)
+            .then((rows) => {
+                if (!cancelled) setPlans(rows);
+            })
+            .catch((error) => {
+                if (!cancelled) toast.error(error instanceof Error ? error.message : "Failed to load the treatment plan.");
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [studentId]);
+
+    const plan = activeTreatmentPlan(plans) ?? plans[0] ?? null;
+    const pastPlans = plans.filter((p) => p.id !== plan?.id);
+    const canEdit = plan != null && String(plan.counselor_id) === currentUserId;
+
+    const upsert = (saved: TreatmentPlan) => {
+        setPlans((prev) =>
+            prev.some((p) => p.id === saved.id) ? prev.map((p) => (p.id === saved.id ? saved : p)) : [saved, ...prev],
+        );
+        onChanged?.(saved);
+    };
+
+    const updateDraft = (patch: Partial<TreatmentPlanDraft>) => {
+        setEditor((prev) => (prev?.kind === "plan" ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+    };
+
+    const updateGoal = (index: number, patch: Partial<TreatmentGoalDraft>) => {
+        setEditor((prev) =>
+            prev?.kind === "plan"
+                ? {
+                      ...prev,
+                      draft: {
+                          ...prev.draft,
+                          goals: prev.draft.goals.map((g, i) => (i === index ? { ...g, ...patch } : g)),
+                      },
+                  }
+                : prev,
+        );
+    };
+
+    const startProgress = (target: TreatmentPlan) => {
+        const ratings: Partial<Record<number, GoalProgressRating>> = {};
+        for (const goal of ratableGoals(target)) {
+            if (goal.progress != null) ratings[goal.id] = goal.progress;
+        }
+        setEditor({ kind: "progress", plan: target, sessionDate: todayIso(), note: "", ratings });
+    };
+
+    const handleSavePlan = async () => {
+        if (editor?.kind !== "plan") return;
+
+        const problem = validateTreatmentPlanDraft(editor.draft);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        setBusy(true);
+        try {
+            upsert(await saveTreatmentPlan({ id: editor.plan?.id ?? null, studentId, draft: editor.draft }));
+            toast.success(editor.plan ? "Treatment plan saved." : "Treatment plan created.");
+            setEditor(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save the treatment plan.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSaveProgress = async () => {
+        if (editor?.kind !== "progress") return;
+
+        const unrated = ratableGoals(editor.plan).find((g) => editor.ratings[g.id] == null);
+        if (unrated) {
+            toast.error(`Rate "${unrated.description}" first.`);
+            return;
+        }
+
+        setBusy(true);
+        try {
+            const res = await recordTreatmentProgress(editor.plan.id, {
+                sessionDate: editor.sessionDate,
+                note: editor.note,
+                ratings: editor.ratings as Record<number, GoalProgressRating>,
+            });
+            upsert(res.plan);
+            toast.success(
+                res.score
+                    ? `Progress recorded. Score ${res.score.score} (${res.score.rating}) added to the score history.`
+                    : "Progress recorded.",
+            );
+            setEditor(null);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to record progress.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="space-y-2">
+                <Skeleton className="h-20 w-full" />
+                <Skeleton className="h-20 w-full" />
+            </div>
+        );
+    }
+
+    const hasActivePlan = plans.some((p) => p.status === "active");
+    const previewScore =
+        editor?.kind === "progress"
+            ? treatmentProgressScore(editor.plan.goals, editor.ratings as Record<number, GoalProgressRating>)
+            : null;
+
+    return (
+        <div className="space-y-3 text-xs">
+            {editor == null && !hasActivePlan ? (
+                <div className="flex justify-end">
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-8 gap-1 text-[0.7rem]"
+                        onClick={() => setEditor({ kind: "plan", plan: null, draft: treatmentPlanDraft(null, todayIso()) })}
+                    >
+                        <Plus className="h-3.5 w-3.5" />
+                        New treatment plan
+                    </Button>
+                </div>
+            ) : null}
+
+            {editor?.kind === "plan" ? (
+                <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50/40 p-3">
+                    <p className="font-semibold text-amber-900">{editor.plan ? "Edit treatment plan" : "New treatment plan"}</p>
+
+                    <div className="space-y-1">
+                        <Label htmlFor="plan_title" className="text-xs font-medium text-amber-900">
+                            Title
+                        </Label>
+                        <Input
+                            id="plan_title"
+                            value={editor.draft.title}
+                            onChange={(e) => updateDraft({ title: e.target.value })}
+                            placeholder="e.g. Managing exam anxiety"
+                            className="h-8 bg-white text-xs"
+                            disabled={busy}
+                        />
+                    </div>
+
+                    <div className="space-y-1">
+                        <Label htmlFor="plan_summary" className="text-xs font-medium text-amber-900">
+                            Presenting concern / summary
+                        </Label>
+                        <Textarea
+                            id="plan_summary"
+                            value={editor.draft.summary}
+                            onChange={(e) => updateDraft({ summary: e.target.value })}
+                            className="min-h-14 bg-white text-xs"
+                            disabled={busy}
+                        />
+                    </div>
+
+                    <div className="grid gap-2 sm:grid-cols-3">
+                        <div className="space-y-1">
+                            <Label htmlFor="plan_start" className="text-xs font-medium text-amber-900">
+                                Start date
+                            </Label>
+                            <Input
+                                id="plan_start"
+                                type="date"
+                                value={editor.draft.start_date}
+                                onChange={(e) => updateDraft({ start_date: e.target.value })}
+                                className="h-8 bg-white text-xs"
+                                disabled={busy}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="plan_review" className="text-xs font-medium text-amber-900">
+                                Review date
+                            </Label>
+                            <Input
+                                id="plan_review"
+                                type="date"
+                                value={editor.draft.review_date}
+                                onChange={(e) => updateDraft({ review_date: e.target.value })}
+                                className="h-8 bg-white text-xs"
+                                disabled={busy}
+                            />
+                        </div>
+                        {editor.plan ? (
+                            <div className="space-y-1">
+                                <Label className="text-xs font-medium text-amber-900">Status</Label>
+                                <Select
+                                    value={editor.draft.status}
+                                    onValueChange={(v) => updateDraft({ status: v as TreatmentPlanStatus })}
+                                    disabled={busy}
+                                >
+                                    <SelectTrigger className="h-8 bg-white text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(TREATMENT_PLAN_STATUS_LABELS) as TreatmentPlanStatus[]).map((s) => (
+                                            <SelectItem key={s} value={s}>
+                                                {TREATMENT_PLAN_STATUS_LABELS[s]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ) : null}
+                    </div>
+
+                    <div className="space-y-2">
+                        <p className="font-medium text-amber-900">Goals</p>
+                        {editor.draft.goals.map((goal, index) => (
+                            <div key={goal.id ?? `new-${index}`} className="space-y-2 rounded border bg-white p-2">
+                                <div className="flex items-start gap-2">
+                                    <Input
+                                        value={goal.description}
+                                        onChange={(e) => updateGoal(index, { description: e.target.value })}
+                                        placeholder={`Goal ${index + 1}`}
+                                        className="h-8 text-xs"
+                                        disabled={busy}
+                                    />
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-8 text-destructive"
+                                        onClick={() =>
+                                            updateDraft({ goals: editor.draft.goals.filter((_, i) => i !== index) })
+                                        }
+                                        disabled={busy || editor.draft.goals.length === 1}
+                                        aria-label="Remove goal"
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                                <Textarea
+                                    value={goal.interventions}
+                                    onChange={(e) => updateGoal(index, { interventions: e.target.value })}
+                                    placeholder="Interventions (techniques, homework, referrals)"
+                                    className="min-h-12 text-xs"
+                                    disabled={busy}
+                                />
+                                <div className="grid gap-2 sm:grid-cols-2">
+                                    <div className="space-y-1">
+                                        <Label className="text-[0.7rem] text-muted-foreground">Target date</Label>
+                                        <Input
+                                            type="date"
+                                            value={goal.target_date}
+                                            onChange={(e) => updateGoal(index, { target_date: e.target.value })}
+                                            className="h-8 text-xs"
+                                            disabled={busy}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label className="text-[0.7rem] text-muted-foreground">Status</Label>
+                                        <Select
+                                            value={goal.status}
+                                            onValueChange={(v) => updateGoal(index, { status: v as TreatmentGoalStatus })}
+                                            disabled={busy}
+                                        >
+                                            <SelectTrigger className="h-8 text-xs">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {(Object.keys(TREATMENT_GOAL_STATUS_LABELS) as TreatmentGoalStatus[]).map((s) => (
+                                                    <SelectItem key={s} value={s}>
+                                                        {TREATMENT_GOAL_STATUS_LABELS[s]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                        <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-7 gap-1 text-[0.7rem]"
+                            onClick={() => updateDraft({ goals: [...editor.draft.goals, emptyTreatmentGoalDraft()] })}
+                            disabled={busy}
+                        >
+                            <Plus className="h-3.5 w-3.5" />
+                            Add goal
+                        </Button>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setEditor(null)} disabled={busy}>
+                            Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={() => void handleSavePlan()} disabled={busy} className="gap-1">
+                            {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                            {editor.plan ? "Save plan" : "Create plan"}
+                        </Button>
+                    </div>
+                </div>
+            ) : null}
+
+            {editor?.kind === "progress" ? (
+                <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50/40 p-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-semibold text-amber-900">Record session progress</p>
+                        <Badge variant="outline">Score preview: {previewScore ?? "—"}</Badge>
+                    </div>
+
+                    <div className="space-y-1">
+                        <Label htmlFor="progress_date" className="text-xs font-medium text-amber-900">
+                            Session date
+                        </Label>
+                        <Input
+                            id="progress_date"
+                            type="date"
+                            value={editor.sessionDate}
+                            onChange={(e) =>
+                                setEditor((prev) => (prev?.kind === "progress" ? { ...prev, sessionDate: e.target.value } : prev))
+                            }
+                            className="h-8 w-44 bg-white text-xs"
+                            disabled={busy}
+                        />
+                    </div>
+
+                    {ratableGoals(editor.plan).map((goal) => (
+                        <div key={goal.id} className="flex flex-wrap items-center justify-between gap-2">
+                            <span className="min-w-0 flex-1 font-medium">{goal.description}</span>
+                            <Select
+                                value={editor.ratings[goal.id] != null ? String(editor.ratings[goal.id]) : undefined}
+                                onValueChange={(v) =>
+                                    setEditor((prev) =>
+                                        prev?.kind === "progress"
+                                            ? { ...prev, ratings: { ...prev.ratings, [goal.id]: Number(v) as GoalProgressRating } }
+                                            : prev,
+                                    )
+                                }
+                                disabled={busy}
+                            >
+                                <SelectTrigger className="h-8 w-48 bg-white text-xs">
+                                    <SelectValue placeholder="Rate progress" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {GOAL_PROGRESS_RATINGS.map((r) => (
+                                        <SelectItem key={r} value={String(r)}>
+                                            {r} · {GOAL_PROGRESS_LABELS[r]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ))}
+
+                    <div className="space-y-1">
+                        <Label htmlFor="progress_note" className="text-xs font-medium text-amber-900">
+                            Note
+                        </Label>
+                        <Textarea
+                            id="progress_note"
+                            value={editor.note}
+                            onChange={(e) =>
+                                setEditor((prev) => (prev?.kind === "progress" ? { ...prev, note: e.target.value } : prev))
+                            }
+                            placeholder="Saved as the remarks of the manual score."
+                            className="min-h-12 bg-white text-xs"
+                            disabled={busy}
+                        />
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setEditor(null)} disabled={busy}>
+                            Cancel
+                        </Button>
+                        <Button type="button" size="sm" onClick={() => void handleSaveProgress()} disabled={busy} className="gap-1">
+                            {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                            Save progress
+                        </Button>
+                    </div>
+                </div>
+            ) : null}
+
+            {plan == null && editor == null ? (
+                <p className="rounded-md border border-dashed p-4 text-center text-muted-foreground">
+                    No treatment plan yet.
+                </p>
+            ) : null}
+
+            {plan != null ? (
+                <div className={cn("space-y-3 rounded-md border bg-white p-3", editor?.plan?.id === plan.id && "opacity-50")}>
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                        <div className="min-w-0 space-y-1">
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <ClipboardList className="h-4 w-4 text-amber-900" />
+                                <span className="font-semibold text-amber-900">{plan.title}</span>
+                                <Badge className={cn("border", PLAN_STATUS_CLASS[plan.status])}>
+                                    {TREATMENT_PLAN_STATUS_LABELS[plan.status]}
+                                </Badge>
+                            </div>
+                            <p className="text-[0.7rem] text-muted-foreground">
+                                {plan.counselor_name ?? "Counselor"} · started {fmtDate(plan.start_date)}
+                                {plan.review_date ? ` · review ${fmtDate(plan.review_date)}` : ""}
+                            </p>
+                        </div>
+
+                        {canEdit && editor == null ? (
+                            <div className="flex gap-1">
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 gap-1 text-[0.7rem]"
+                                    onClick={() => setEditor({ kind: "plan", plan, draft: treatmentPlanDraft(plan, todayIso()) })}
+                                >
+                                    <PenLine className="h-3.5 w-3.5" />
+                                    Edit
+                                </Button>
+                                {plan.status === "active" && ratableGoals(plan).length > 0 ? (
+                                    <Button size="sm" variant="ghost" className="h-7 gap-1 text-[0.7rem]" onClick={() => startProgress(plan)}>
+                                        <TrendingUp className="h-3.5 w-3.5" />
+                                        Record progress
+                                    </Button>
+                                ) : null}
+                            </div>
+                        ) : null}
+                    </div>
+
+                    {plan.summary ? <p className="whitespace-pre-wrap text-foreground">{plan.summary}</p> : null}
+
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between text-[0.7rem] text-muted-foreground">
+                            <span>Overall progress</span>
+                            <span>{plan.latest_score != null ? `${plan.latest_score}%` : "Not rated yet"}</span>
+                        </div>
+                        <Progress value={plan.latest_score ?? 0} className="h-1.5" />
+                    </div>
+
+                    <ul className="space-y-2">
+                        {plan.goals.map((goal) => (
+                            <li key={goal.id} className="rounded border bg-slate-50 p-2">
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <span className="flex items-center gap-1.5 font-medium">
+                                        <Target className="h-3.5 w-3.5 text-muted-foreground" />
+                                        {goal.description}
+                                    </span>
+                                    <Badge className={cn("border", GOAL_STATUS_CLASS[goal.status])}>
+                                        {TREATMENT_GOAL_STATUS_LABELS[goal.status]}
+                                    </Badge>
+                                </div>
+                                {goal.interventions ? (
+                                    <p className="mt-1 whitespace-pre-wrap text-muted-foreground">{goal.interventions}</p>
+                                ) : null}
+                                <p className="mt-1 text-[0.7rem] text-muted-foreground">
+                                    Target {fmtDate(goal.target_date)} · Latest rating:{" "}
+                                    {goal.progress != null ? `${goal.progress}/4 (${GOAL_PROGRESS_LABELS[goal.progress]})` : "—"}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {plan.progress_updates.length > 0 ? (
+                        <div className="border-t pt-2">
+                            <Button
+                                type="button"
+                                variant="link"
+                                className="h-auto p-0 text-[0.7rem] text-amber-900"
+                                onClick={() => setShowHistory((v) => !v)}
+                            >
+                                <History className="mr-1 h-3.5 w-3.5" />
+                                {plan.progress_updates.length} progress update{plan.progress_updates.length === 1 ? "" : "s"}
+                            </Button>
+
+                            {showHistory ? (
+                                <ol className="mt-2 space-y-1.5">
+                                    {plan.progress_updates.map((u) => (
+                                        <li key={u.id} className="rounded border bg-slate-50 p-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="font-medium">{fmtDate(u.session_date)}</span>
+                                                <Badge variant="outline">{u.score}%</Badge>
+                                            </div>
+                                            <div className="text-[0.7rem] text-muted-foreground">
+                                                {u.recorded_by_name ?? "Counselor"}
+                                                {u.note ? ` · ${u.note}` : ""}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ol>
+                            ) : null}
+                        </div>
+                    ) : null}
+                </div>
+            ) : null}
+
+            {pastPlans.length > 0 ? (
+                <div className="space-y-1">
+                    <p className="text-[0.7rem] font-medium text-muted-foreground">Earlier plans</p>
+                    {pastPlans.map((p) => (
+                        <div key={p.id} className="flex items-center justify-between gap-2 rounded border px-2 py-1.5">
+                            <span className="truncate">{p.title}</span>
+                            <span className="shrink-0 text-[0.7rem] text-muted-foreground">
+                                {TREATMENT_PLAN_STATUS_LABELS[p.status]} · {fmtDate(p.start_date)}
+                                {p.latest_score != null ? ` · ${p.latest_score}%` : ""}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            ) : null}
+        </div>
+    );
+};
+
+export default TreatmentPlanPanel;
@@ -0,0 +1,254 @@
+import React from "react";
+import type { ConversationMessagesPage } from "@/lib/messages";
+
+export type HistoryMessage = ConversationMessagesPage["messages"][number];
+
+export interface ConversationHistory {
+    /** The newest page was fetched at least once */
+    loaded: boolean;
+    loading: boolean;
+    /** Older messages remain on the server */
+    hasMore: boolean;
+}
+
+type HistoryEntry = ConversationHistory & { cursor: string | null };
+
+type PageLoader = (peerId: number | string, cursor: string | null) => Promise<ConversationMessagesPage>;
+
+const EMPTY_HISTORY: HistoryEntry = { loaded: false, loading: false, hasMore: false, cursor: null };
+
+/** Replace messages already in the list (same id), append the rest. */
+export function mergeMessagesById<T extends { id: number | string }>(prev: T[], next: T[]): T[] {
+    if (next.length === 0) return prev;
+
+    const incoming = new Map(next.map((m) => [String(m.id), m]));
+    const merged = prev.map((m) => {
+        const hit = incoming.get(String(m.id));
+        if (!hit) return m;
+        incoming.delete(String(m.id));
+        return hit;
+    });
+
+    return [...merged, ...incoming.values()];
+}
+
+/**
+ * ✅ Cursor pagination per conversation for the chat pane: the newest page when
+ * a conversation opens, older pages on demand. Each page goes to `onMessages`;
+ * the page merges it into its own list (see `mergeMessagesById`).
+ */
+export function useConversationHistory(loadPage: PageLoader, onMessages: (messages: HistoryMessage[]) => void) {
+    const [entries, setEntries] = React.useState<Record<string, HistoryEntry>>({});
+    const entriesRef = React.useRef(entries);
+    const inflightRef = React.useRef(new Map<string, Promise<unknown>>());
+    const loadPageRef = React.useRef(loadPage);
+    const onMessagesRef = React.useRef(onMessages);
+
+    React.useEffect(() => {
+        loadPageRef.current = loadPage;
+        onMessagesRef.current = onMessages;
+    }, [loadPage, onMessages]);
+
+    const update = React.useCallback((key: string, patch: Partial<HistoryEntry>) => {
+        const current = entriesRef.current[key] ?? EMPTY_HISTORY;
+        entriesRef.current = { ...entriesRef.current, [key]: { ...current, ...patch } };
+        setEntries(entriesRef.current);
+    }, []);
+
+    const historyFor = React.useCallback((key: string): ConversationHistory => entries[key] ?? EMPTY_HISTORY, [entries]);
+
+    /** One request at a time per conversation; the page goes to `onMessages`. */
+    const fetchPage = React.useCallback(
+        async (key: string, peerId: number | string, cursor: string | null): Promise<HistoryMessage[]> => {
+            const wasLoaded = !!entriesRef.current[key]?.loaded;
+            update(key, { loading: true });
+
+            const request = loadPageRef.current(peerId, cursor);
+            inflightRef.current.set(key, request);
+            try {
+                const page = await request;
+                onMessagesRef.current(page.messages);
+
+                // Re-fetching the newest page keeps the cursor into older pages
+                const keepCursor = cursor == null && wasLoaded;
+                update(
+                    key,
+                    keepCursor
+                        ? { loading: false }
+                        : { loaded: true, loading: false, cursor: page.next_cursor, hasMore: page.next_cursor != null },
+                );
+                return page.messages;
+            } catch (err) {
+                update(key, { loading: false });
+                throw err;
+            } finally {
+                inflightRef.current.delete(key);
+            }
+        },
+        [update],
+    );
+
+    /** Fetch (or re-fetch) the newest page. */
+    const loadLatest = React.useCallback(
+        async (key: string, peerId: number | string) => {
+            if (entriesRef.current[key]?.loading) return;
+            await fetchPage(key, peerId, null);
+        },
+        [fetchPage],
+    );
+
+    /** Fetch the newest page unless this conversation was loaded already. */
+    const ensureLoaded = React.useCallback(
+        async (key: string, peerId: number | string) => {
+            if (entriesRef.current[key]?.loaded) return;
+            await loadLatest(key, peerId);
+        },
+        [loadLatest],
+    );
+
+    /** Fetch the next older page. Resolves `true` when messages were added. */
+    const loadOlder = React.useCallback(
+        async (key: string, peerId: number | string): Promise<boolean> => {
+            const current = entriesRef.current[key];
+            if (!current?.loaded || current.loading || !current.cursor) return false;
+
+            const messages = await fetchPage(key, peerId, current.cursor);
+            return messages.length > 0;
+        },
+        [fetchPage],
+    );
+
+    /**
+     * Page back until `messageId` is loaded (jumping to a search result). Only
+     * pages not fetched yet are searched. Resolves `false` if it never shows up.
+     */
+    const loadThrough = React.useCallback(
+        async (key: string, peerId: number | string, messageId: number | string): Promise<boolean> => {
+            const target = String(messageId);
+
+            // Let an in-flight request (e.g. the open-thread fetch) land first
+            await inflightRef.current.get(key)?.catch(() => undefined);
+
+            if (!entriesRef.current[key]?.loaded) {
+                const newest = await fetchPage(key, peerId, null);
+                if (newest.some((m) => String(m.id) === target)) return true;
+            }
+
+            let cursor = entriesRef.current[key]?.cursor ?? null;
+            while (cursor) {
+                const older = await fetchPage(key, peerId, cursor);
+                if (older.some((m) => String(m.id) === target)) return true;
+                cursor = entriesRef.current[key]?.cursor ?? null;
+            }
+
+            return false;
+        },
+        [fetchPage],
+    );
+
+    /** Forget every conversation except `keep`, so they re-fetch when opened again. */
+    const reset = React.useCallback((keep?: string) => {
+        const kept = keep && entriesRef.current[keep] ? { [keep]: entriesRef.current[keep] } : {};
+        entriesRef.current = kept;
+        setEntries(kept);
+    }, []);
+
+    return { historyFor, loadLatest, ensureLoaded, loadOlder, loadThrough, reset };
+}
+
+/** How long a message opened from search stays highlighted. */
+const JUMP_HIGHLIGHT_MS = 2_500;
+
+/**
+ * ✅ Scroll a message into view once it renders (bubbles carry
+ * `data-message-id`) and highlight it briefly. While a jump is pending,
+ * `jumpPendingRef` lets the chat pane skip its scroll-to-newest.
+ */
+export function useJumpToMessage(contentKey: unknown) {
+    const [target, setTarget] = React.useState<string | null>(null);
+    const [highlightedId, setHighlightedId] = React.useState<string | null>(null);
+    const jumpPendingRef = React.useRef(false);
+
+    const jumpTo = React.useCallback((messageId: number | string | null) => {
+        jumpPendingRef.current = messageId != null;
+        setTarget(messageId == null ? null : String(messageId));
+    }, []);
+
+    React.useEffect(() => {
+        if (!target || typeof document === "undefined") return;
+
+        const el = document.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(target)}"]`);
+        if (!el) return;
+
+        el.scrollIntoView({ block: "center", behavior: "smooth" });
+        jumpPendingRef.current = false;
+        setTarget(null);
+        setHighlightedId(target);
+    }, [target, contentKey]);
+
+    React.useEffect(() => {
+        if (!highlightedId) return;
+        const timer = window.setTimeout(() => setHighlightedId(null), JUMP_HIGHLIGHT_MS);
+        return () => window.clearTimeout(timer);
+    }, [highlightedId]);
+
+    return { jumpTo, highlightedId, jumpPendingRef };
+}
+
+/** Scrolling upward within this distance of the top loads the next older page. */
+const LOAD_OLDER_THRESHOLD_PX = 120;
+
+/**
+ * ✅ Infinite scroll upward: calls `onLoadOlder` when the user scrolls up near the
+ * top of the ScrollArea that contains `innerRef`, then keeps the visible messages
+ * in place once the older page renders. Only upward scrolling counts, so the
+ * jump to the newest message on open does not trigger a load. `contentKey` must
+ * change when messages are prepended (e.g. the id of the first message).
+ */
+export function useLoadOlderOnScroll(
+    innerRef: React.RefObject<HTMLElement | null>,
+    options: { enabled: boolean; onLoadOlder: () => Promise<boolean>; contentKey: unknown },
+): void {
+    const { enabled, onLoadOlder, contentKey } = options;
+    const anchorRef = React.useRef<{ viewport: HTMLElement; height: number; top: number } | null>(null);
+    const callbackRef = React.useRef(onLoadOlder);
+
+    React.useEffect(() => {
+        callbackRef.current = onLoadOlder;
+    }, [onLoadOlder]);
+
+    React.useEffect(() => {
+        const inner = innerRef.current;
+        if (!enabled || !inner) return;
+
+        const viewport = inner.closest<HTMLElement>('[data-slot="scroll-area-viewport"]') ?? inner.parentElement;
+        if (!viewport) return;
+
+        let lastTop = viewport.scrollTop;
+        let requested = false;
+
+        const onScroll = () => {
+            const top = viewport.scrollTop;
+            const goingUp = top < lastTop;
+            lastTop = top;
+            if (requested || !goingUp || top > LOAD_OLDER_THRESHOLD_PX) return;
+
+            requested = true;
+            anchorRef.current = { viewport, height: viewport.scrollHeight, top };
+            void callbackRef.current().then((added) => {
+                if (!added) anchorRef.current = null;
+            });
+        };
+
+        viewport.addEventListener("scroll", onScroll, { passive: true });
+        return () => viewport.removeEventListener("scroll", onScroll);
+    }, [enabled, contentKey, innerRef]);
+
+    React.useLayoutEffect(() => {
+        const anchor = anchorRef.current;
+        if (!anchor) return;
+
+        anchorRef.current = null;
+        anchor.viewport.scrollTop = anchor.viewport.scrollHeight - anchor.height + anchor.top;
+    }, [contentKey]);
+}
@@ -0,0 +1,38 @@
+import React from "react";
+import { getRealtimeStatus, subscribeToRealtimeStatus, type RealtimeStatus } from "@/lib/realtime";
+
+/**
+ * Status of the push channel. Keeps the socket open while mounted; anything
+ * but `connected` means "keep polling".
+ */
+export function useRealtimeStatus(): RealtimeStatus {
+    const [status, setStatus] = React.useState<RealtimeStatus>(() => getRealtimeStatus());
+
+    React.useEffect(() => subscribeToRealtimeStatus(setStatus), []);
+
+    return status;
+}
+
+/**
+ * Runs `onReconnect` when the channel comes back after having been down, so a
+ * page can re-fetch whatever it missed in between.
+ */
+export function useRealtimeReconnect(onReconnect: () => void): RealtimeStatus {
+    const status = useRealtimeStatus();
+    const callbackRef = React.useRef(onReconnect);
+    const wasDownRef = React.useRef(false);
+
+    React.useEffect(() => {
+        callbackRef.current = onReconnect;
+    }, [onReconnect]);
+
+    React.useEffect(() => {
+        if (status === "unavailable") wasDownRef.current = true;
+        if (status === "connected" && wasDownRef.current) {
+            wasDownRef.current = false;
+            callbackRef.current();
+        }
+    }, [status]);
+
+    return status;
+}
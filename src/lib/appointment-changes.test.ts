@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import type { AppointmentChangeRequestDto, IntakeRequestDto } from "@/api/intake/route";
+import { canRequestAppointmentChange, pendingChangeRequest } from "@/lib/appointment-changes";
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+function changeRequest(status: AppointmentChangeRequestDto["status"]): AppointmentChangeRequestDto {
+    return {
+        id: 3,
+        appointment_id: 8,
+        type: "reschedule",
+        proposed_date: "2026-10-22",
+        proposed_time: "10:00",
+        reason: "Exam conflict",
+        status,
+        requested_by_name: "Ana Cruz",
+        decision_note: null,
+        decided_by_name: null,
+        decided_at: null,
+        created_at: "2026-10-19T08:00:00Z",
+    };
+}
+
+type ChangeableAppointment = Pick<IntakeRequestDto, "status" | "change_request" | "scheduled_date" | "scheduled_time">;
+
+function appointment(overrides: Partial<ChangeableAppointment> = {}): ChangeableAppointment {
+    return { status: "scheduled", change_request: null, scheduled_date: "2026-10-21", scheduled_time: "09:00", ...overrides };
+}
+
+describe("pendingChangeRequest", () => {
+    it("only returns a request still waiting for the counselor", () => {
+        expect(pendingChangeRequest({ change_request: changeRequest("pending") })?.id).toBe(3);
+        expect(pendingChangeRequest({ change_request: changeRequest("declined") })).toBeNull();
+        expect(pendingChangeRequest({})).toBeNull();
+    });
+});
+
+describe("canRequestAppointmentChange", () => {
+    it("allows upcoming scheduled and rescheduled sessions", () => {
+        expect(canRequestAppointmentChange(appointment(), NOW)).toBe(true);
+        expect(canRequestAppointmentChange(appointment({ status: "rescheduled" }), NOW)).toBe(true);
+    });
+
+    it("refuses sessions that already started, are not scheduled or are under review", () => {
+        expect(canRequestAppointmentChange(appointment({ scheduled_date: "2026-10-19", scheduled_time: "11:00" }), NOW)).toBe(false);
+        expect(canRequestAppointmentChange(appointment({ status: "completed" }), NOW)).toBe(false);
+        expect(canRequestAppointmentChange(appointment({ scheduled_time: null }), NOW)).toBe(false);
+        expect(canRequestAppointmentChange(appointment({ change_request: changeRequest("pending") }), NOW)).toBe(false);
+    });
+});
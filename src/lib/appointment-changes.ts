@@ -0,0 +1,83 @@
+import {
+    createAppointmentChangeRequestApi,
+    type CreateAppointmentChangeRequestPayload,
+} from "@/api/evaluation/route";
+import {
+    acceptAppointmentChangeRequestApi,
+    declineAppointmentChangeRequestApi,
+    type AppointmentChangeRequestDto,
+    type AppointmentChangeRequestStatusApi,
+    type AppointmentChangeTypeApi,
+    type IntakeRequestDto,
+} from "@/api/intake/route";
+import { isActiveAppointmentStatus, normalizeAppointmentStatus } from "@/lib/appointment-status";
+import { sessionStart } from "@/lib/attendance";
+
+export type AppointmentChangeType = AppointmentChangeTypeApi;
+export type AppointmentChangeRequestStatus = AppointmentChangeRequestStatusApi;
+export type AppointmentChangeRequest = AppointmentChangeRequestDto;
+
+export const APPOINTMENT_CHANGE_TYPE_LABELS: Record<AppointmentChangeType, string> = {
+    reschedule: "Reschedule",
+    cancel: "Cancellation",
+};
+
+export const APPOINTMENT_CHANGE_STATUS_LABELS: Record<AppointmentChangeRequestStatus, string> = {
+    pending: "Awaiting counselor",
+    accepted: "Accepted",
+    declined: "Declined",
+};
+
+/**
+ * The student's change request still waiting for the counselor, if any.
+ */
+export function pendingChangeRequest(
+    appointment: Pick<IntakeRequestDto, "change_request">,
+): AppointmentChangeRequest | null {
+    const request = appointment.change_request ?? null;
+    return request?.status === "pending" ? request : null;
+}
+
+/**
+ * Students can ask to move or cancel upcoming scheduled sessions that are not already under review.
+ */
+export function canRequestAppointmentChange(
+    appointment: Pick<IntakeRequestDto, "status" | "change_request" | "scheduled_date" | "scheduled_time">,
+    now: Date = new Date(),
+): boolean {
+    const start = sessionStart(appointment);
+    return (
+        isActiveAppointmentStatus(normalizeAppointmentStatus(appointment.status)) &&
+        start != null &&
+        start > now &&
+        !pendingChangeRequest(appointment)
+    );
+}
+
+/**
+ * ✅ Student: propose a new time or ask to cancel. Returns the appointment with the new request.
+ */
+export async function requestAppointmentChange(
+    appointmentId: number | string,
+    payload: CreateAppointmentChangeRequestPayload,
+): Promise<IntakeRequestDto> {
+    const res = await createAppointmentChangeRequestApi(appointmentId, payload);
+    return res.appointment;
+}
+
+/**
+ * ✅ Counselor: accept (applies the change) or decline a student's request.
+ * Returns the updated appointment.
+ */
+export async function decideAppointmentChange(
+    requestId: number | string,
+    decision: "accept" | "decline",
+    note?: string | null,
+): Promise<IntakeRequestDto> {
+    const payload = { note: note?.trim() || null };
+    const res =
+        decision === "accept"
+            ? await acceptAppointmentChangeRequestApi(requestId, payload)
+            : await declineAppointmentChangeRequestApi(requestId, payload);
+    return res.appointment;
+}
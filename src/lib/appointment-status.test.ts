@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    APPOINTMENT_STATUSES,
+    APPOINTMENT_STATUS_TRANSITIONS,
+    canTransitionAppointment,
+    formatAppointmentStatus,
+    isActiveAppointmentStatus,
+    isClosedAppointmentStatus,
+    manualNextStatuses,
+    normalizeAppointmentStatus,
+    parseAppointmentStatus,
+    statusAfterScheduleChange,
+} from "@/lib/appointment-status";
+
+describe("parseAppointmentStatus / normalizeAppointmentStatus", () => {
+    it("accepts lifecycle values in any case", () => {
+        expect(parseAppointmentStatus("scheduled")).toBe("scheduled");
+        expect(parseAppointmentStatus(" No_Show ")).toBe("no_show");
+    });
+
+    it("maps legacy values onto the lifecycle", () => {
+        expect(parseAppointmentStatus("pending")).toBe("requested");
+        expect(parseAppointmentStatus("canceled")).toBe("cancelled");
+        expect(parseAppointmentStatus("rejected")).toBe("cancelled");
+        expect(parseAppointmentStatus("no-show")).toBe("no_show");
+        expect(parseAppointmentStatus("noshow")).toBe("no_show");
+    });
+
+    it("treats missing and unknown values as requested", () => {
+        expect(parseAppointmentStatus("archived")).toBeNull();
+        expect(normalizeAppointmentStatus("archived")).toBe("requested");
+        expect(normalizeAppointmentStatus(null)).toBe("requested");
+        expect(formatAppointmentStatus("no-show")).toBe("No-show");
+    });
+});
+
+describe("APPOINTMENT_STATUS_TRANSITIONS", () => {
+    it("only allows the documented lifecycle", () => {
+        expect(canTransitionAppointment("requested", "scheduled")).toBe(true);
+        expect(canTransitionAppointment("requested", "completed")).toBe(false);
+        expect(canTransitionAppointment("scheduled", "no_show")).toBe(true);
+        expect(canTransitionAppointment("rescheduled", "rescheduled")).toBe(true);
+        expect(canTransitionAppointment("scheduled", "requested")).toBe(false);
+    });
+
+    it("closes completed, cancelled and no-show appointments", () => {
+        const closed = APPOINTMENT_STATUSES.filter(isClosedAppointmentStatus);
+
+        expect(closed).toEqual(["completed", "cancelled", "no_show"]);
+        closed.forEach((from) => {
+            APPOINTMENT_STATUSES.forEach((to) => expect(canTransitionAppointment(from, to)).toBe(false));
+        });
+    });
+
+    it("only targets known statuses", () => {
+        Object.values(APPOINTMENT_STATUS_TRANSITIONS)
+            .flat()
+            .forEach((to) => expect(APPOINTMENT_STATUSES).toContain(to));
+    });
+});
+
+describe("scheduling helpers", () => {
+    it("leaves scheduling and rescheduling to the schedule dialog", () => {
+        expect(manualNextStatuses("requested")).toEqual(["cancelled"]);
+        expect(manualNextStatuses("scheduled")).toEqual(["completed", "cancelled", "no_show"]);
+    });
+
+    it("moves to scheduled first and rescheduled afterwards", () => {
+        expect(statusAfterScheduleChange("requested")).toBe("scheduled");
+        expect(statusAfterScheduleChange("scheduled")).toBe("rescheduled");
+        expect(statusAfterScheduleChange("rescheduled")).toBe("rescheduled");
+    });
+
+    it("holds the counselor's time only while scheduled", () => {
+        expect(APPOINTMENT_STATUSES.filter(isActiveAppointmentStatus)).toEqual(["scheduled", "rescheduled"]);
+    });
+});
@@ -0,0 +1,112 @@
+import {
+    getAppointmentStatusHistoryApi,
+    type AppointmentStatusApi,
+    type AppointmentStatusChangeDto,
+} from "@/api/intake/route";
+
+/**
+ * Appointment lifecycle:
+ *
+ *   requested → scheduled → rescheduled ⟲ → completed / cancelled / no_show
+ *
+ * The backend enforces the same table; checking it here keeps the counselor
+ * UI from offering transitions that would be rejected.
+ */
+
+export type AppointmentStatus = AppointmentStatusApi;
+export type AppointmentStatusChange = AppointmentStatusChangeDto;
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+    requested: "Requested",
+    scheduled: "Scheduled",
+    rescheduled: "Rescheduled",
+    completed: "Completed",
+    cancelled: "Cancelled",
+    no_show: "No-show",
+};
+
+export const APPOINTMENT_STATUSES = Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[];
+
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+    requested: ["scheduled", "cancelled"],
+    scheduled: ["rescheduled", "completed", "cancelled", "no_show"],
+    rescheduled: ["rescheduled", "completed", "cancelled", "no_show"],
+    completed: [],
+    cancelled: [],
+    no_show: [],
+};
+
+/** Values written before the lifecycle was introduced. */
+const LEGACY_STATUS_ALIASES: Record<string, AppointmentStatus> = {
+    pending: "requested",
+    canceled: "cancelled",
+    rejected: "cancelled",
+    "no-show": "no_show",
+    noshow: "no_show",
+};
+
+/**
+ * Known status (legacy aliases mapped), or null for anything else.
+ */
+export function parseAppointmentStatus(value: unknown): AppointmentStatus | null {
+    const raw = String(value ?? "").trim().toLowerCase();
+    if ((APPOINTMENT_STATUSES as string[]).includes(raw)) return raw as AppointmentStatus;
+    return LEGACY_STATUS_ALIASES[raw] ?? null;
+}
+
+/**
+ * ✅ Status of a record as a lifecycle value (missing / unknown → "requested")
+ */
+export function normalizeAppointmentStatus(value: unknown): AppointmentStatus {
+    return parseAppointmentStatus(value) ?? "requested";
+}
+
+export function formatAppointmentStatus(value: unknown): string {
+    return APPOINTMENT_STATUS_LABELS[normalizeAppointmentStatus(value)];
+}
+
+export function canTransitionAppointment(from: AppointmentStatus, to: AppointmentStatus): boolean {
+    return APPOINTMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Holds the counselor's time (counts for double-booking, reminders, feeds). */
+export function isActiveAppointmentStatus(status: AppointmentStatus): boolean {
+    return status === "scheduled" || status === "rescheduled";
+}
+
+/** No further transitions. */
+export function isClosedAppointmentStatus(status: AppointmentStatus): boolean {
+    return APPOINTMENT_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/** Statuses only reachable by setting a (new) final schedule. */
+export function requiresSchedule(status: AppointmentStatus): boolean {
+    return status === "scheduled" || status === "rescheduled";
+}
+
+export function requiresStatusReason(status: AppointmentStatus): boolean {
+    return status === "cancelled";
+}
+
+/**
+ * Statuses a counselor can pick directly; scheduling / rescheduling goes
+ * through the schedule dialog instead.
+ */
+export function manualNextStatuses(from: AppointmentStatus): AppointmentStatus[] {
+    return APPOINTMENT_STATUS_TRANSITIONS[from].filter((s) => !requiresSchedule(s));
+}
+
+/**
+ * Status after a counselor sets or moves the final schedule.
+ */
+export function statusAfterScheduleChange(from: AppointmentStatus): AppointmentStatus {
+    return from === "requested" ? "scheduled" : "rescheduled";
+}
+
+/**
+ * ✅ Status history of one appointment, oldest first
+ */
+export async function fetchAppointmentStatusHistory(id: number | string): Promise<AppointmentStatusChange[]> {
+    const res = await getAppointmentStatusHistoryApi(id);
+    return Array.isArray(res.history) ? res.history : [];
+}
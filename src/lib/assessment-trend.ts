@@ -0,0 +1,265 @@
+import { parseISO } from "date-fns";
+
+import {
+    getCounselorStudentHistoryApi,
+    getCounselorStudentProfileApi,
+    type CounselorStudentProfileDto,
+    type IntakeRequestDto,
+} from "@/api/intake/route";
+import {
+    SCREENING_INSTRUMENTS,
+    instrumentMaxScore,
+    scoreAssessmentScreenings,
+    type InstrumentResult,
+} from "@/lib/instruments";
+import { fetchCounselorAssessments, type CounselorAssessmentRecord } from "@/lib/intake";
+import { fetchStudentManualScores, type ManualScoreRecord } from "@/lib/manual-scores";
+import { PHQ9_MAX_SCORE, PHQ9_RELIABLE_CHANGE, scorePhq9, type Phq9Result } from "@/lib/phq9";
+
+/**
+ * Longitudinal view of one student (counselor "Trend" page).
+ *
+ * Combines every intake assessment (PHQ-9 + additional instruments), the
+ * hardcopy scores encoded by counselors and the student's appointment dates
+ * into one timeline, and compares consecutive assessments against each
+ * measure's reliable-change threshold.
+ */
+
+export interface TrendMeasure {
+    /** "phq9" or a screening instrument id */
+    id: string;
+    label: string;
+    maxScore: number;
+    /** Points needed for a reliable change; null when the measure has none. */
+    reliableChange: number | null;
+}
+
+export const PHQ9_TREND_MEASURE: TrendMeasure = {
+    id: "phq9",
+    label: "PHQ-9",
+    maxScore: PHQ9_MAX_SCORE,
+    reliableChange: PHQ9_RELIABLE_CHANGE,
+};
+
+/** PHQ-9 first, then the registered instruments in wizard order. */
+export const TREND_MEASURES: TrendMeasure[] = [
+    PHQ9_TREND_MEASURE,
+    ...SCREENING_INSTRUMENTS.map((instrument) => ({
+        id: instrument.id,
+        label: instrument.shortName,
+        maxScore: instrumentMaxScore(instrument),
+        reliableChange: instrument.reliableChange ?? null,
+    })),
+];
+
+export interface TrendAssessment {
+    id: number | string;
+    date: string;
+    /** Epoch milliseconds (chart x value) */
+    time: number;
+    phq9: Phq9Result;
+    screenings: InstrumentResult[];
+    /** Measure id → band score; null when incomplete, absent when not administered. */
+    scores: Record<string, number | null>;
+}
+
+export interface TrendManualScore {
+    id: number | string;
+    date: string;
+    time: number;
+    score: number;
+    rating: string | null;
+    remarks: string | null;
+}
+
+export interface TrendAppointment {
+    id: number | string;
+    date: string;
+    time: number;
+    status: string;
+    concernType: string | null;
+}
+
+export type ReliableChangeDirection = "improved" | "worsened" | "unchanged";
+
+export interface ReliableChange {
+    measure: TrendMeasure;
+    fromDate: string;
+    toDate: string;
+    from: number;
+    to: number;
+    /** `to − from`; lower scores are better on every measure. */
+    delta: number;
+    /** null when the measure has no reliable-change threshold. */
+    direction: ReliableChangeDirection | null;
+}
+
+/** One point on the chart: measure ids and/or `manual` as keys. */
+export interface TrendChartRow {
+    time: number;
+    [key: string]: number | null | undefined;
+}
+
+export interface StudentTrend {
+    /** Oldest first */
+    assessments: TrendAssessment[];
+    manualScores: TrendManualScore[];
+    appointments: TrendAppointment[];
+    /** Measures administered at least once */
+    measures: TrendMeasure[];
+    /** Consecutive-assessment comparisons, oldest first per measure. */
+    changes: ReliableChange[];
+    chartRows: TrendChartRow[];
+}
+
+export interface StudentTrendInput {
+    assessments: CounselorAssessmentRecord[];
+    manualScores: ManualScoreRecord[];
+    appointments: IntakeRequestDto[];
+}
+
+/** Appointment statuses that never took place. */
+const INACTIVE_APPOINTMENT_STATUS = /cancel|reject|declin/i;
+
+function toTime(value: unknown): number | null {
+    if (typeof value !== "string" || !value) return null;
+    const time = parseISO(value).getTime();
+    return Number.isFinite(time) ? time : null;
+}
+
+function byTime<T extends { time: number }>(a: T, b: T): number {
+    return a.time - b.time;
+}
+
+function toTrendAssessment(record: CounselorAssessmentRecord): TrendAssessment | null {
+    const date = record.created_at ?? record.updated_at ?? null;
+    const time = toTime(date);
+    if (date == null || time == null) return null;
+
+    const phq9 = scorePhq9(record);
+    const screenings = scoreAssessmentScreenings(record);
+
+    const scores: Record<string, number | null> = { [PHQ9_TREND_MEASURE.id]: phq9.bandScore };
+    screenings.forEach((result) => {
+        scores[result.instrument.id] = result.bandScore;
+    });
+
+    return { id: record.id, date, time, phq9, screenings, scores };
+}
+
+function toTrendManualScore(record: ManualScoreRecord): TrendManualScore | null {
+    const date = record.assessed_date ?? record.date ?? null;
+    const time = toTime(date);
+    const score = Number(record.score);
+    if (date == null || time == null || !Number.isFinite(score)) return null;
+
+    return {
+        id: record.id,
+        date,
+        time,
+        score,
+        rating: record.rating ? String(record.rating) : null,
+        remarks: record.remarks ?? null,
+    };
+}
+
+function toTrendAppointment(record: IntakeRequestDto): TrendAppointment | null {
+    if (INACTIVE_APPOINTMENT_STATUS.test(record.status ?? "")) return null;
+
+    const date = record.scheduled_date ?? null;
+    const time = toTime(date);
+    if (date == null || time == null) return null;
+
+    return { id: record.id, date, time, status: record.status, concernType: record.concern_type ?? null };
+}
+
+export function reliableChangeDirection(measure: TrendMeasure, delta: number): ReliableChangeDirection | null {
+    if (measure.reliableChange == null) return null;
+    if (delta <= -measure.reliableChange) return "improved";
+    if (delta >= measure.reliableChange) return "worsened";
+    return "unchanged";
+}
+
+function consecutiveChanges(measure: TrendMeasure, assessments: TrendAssessment[]): ReliableChange[] {
+    const scored = assessments.filter((a) => a.scores[measure.id] != null);
+
+    return scored.slice(1).map((current, idx) => {
+        const previous = scored[idx];
+        const from = previous.scores[measure.id] as number;
+        const to = current.scores[measure.id] as number;
+        const delta = to - from;
+
+        return {
+            measure,
+            fromDate: previous.date,
+            toDate: current.date,
+            from,
+            to,
+            delta,
+            direction: reliableChangeDirection(measure, delta),
+        };
+    });
+}
+
+/**
+ * Build the timeline for one student. Records without a usable date are dropped.
+ */
+export function buildStudentTrend(input: StudentTrendInput): StudentTrend {
+    const assessments = input.assessments
+        .map(toTrendAssessment)
+        .filter((a): a is TrendAssessment => a != null)
+        .sort(byTime);
+
+    const manualScores = input.manualScores
+        .map(toTrendManualScore)
+        .filter((m): m is TrendManualScore => m != null)
+        .sort(byTime);
+
+    const appointments = input.appointments
+        .map(toTrendAppointment)
+        .filter((a): a is TrendAppointment => a != null)
+        .sort(byTime);
+
+    const measures = TREND_MEASURES.filter((measure) => assessments.some((a) => measure.id in a.scores));
+
+    const chartRows: TrendChartRow[] = [
+        ...assessments.map((a) => ({ time: a.time, ...a.scores })),
+        ...manualScores.map((m) => ({ time: m.time, manual: m.score })),
+    ].sort(byTime);
+
+    return {
+        assessments,
+        manualScores,
+        appointments,
+        measures,
+        changes: measures.flatMap((measure) => consecutiveChanges(measure, assessments)),
+        chartRows,
+    };
+}
+
+export interface StudentTrendData extends StudentTrend {
+    student: CounselorStudentProfileDto | null;
+}
+
+/**
+ * ✅ Counselor: load everything the trend page needs for one student (users.id).
+ */
+export async function fetchStudentTrend(studentId: number | string): Promise<StudentTrendData> {
+    const [profile, history, assessments, manualScores] = await Promise.all([
+        getCounselorStudentProfileApi(studentId),
+        getCounselorStudentHistoryApi(studentId),
+        fetchCounselorAssessments(),
+        fetchStudentManualScores(studentId),
+    ]);
+
+    const own = assessments.filter((a) => String(a.user_id ?? a.user?.id) === String(studentId));
+
+    return {
+        student: profile?.student ?? null,
+        ...buildStudentTrend({
+            assessments: own,
+            manualScores,
+            appointments: history?.history?.appointments ?? [],
+        }),
+    };
+}
@@ -0,0 +1,57 @@
+import {
+    markAppointmentAttendanceApi,
+    type AttendanceStatusApi,
+    type IntakeRequestDto,
+} from "@/api/intake/route";
+import { timeToMinutes } from "@/lib/availability";
+
+export type AttendanceStatus = AttendanceStatusApi;
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+    attended: "Attended",
+    no_show: "No-show",
+    late_cancel: "Late cancel",
+};
+
+export const ATTENDANCE_STATUSES = Object.keys(ATTENDANCE_STATUS_LABELS) as AttendanceStatus[];
+
+export function isAttendanceStatus(value: unknown): value is AttendanceStatus {
+    return typeof value === "string" && (ATTENDANCE_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Local start of the final schedule; null until the session has a date and a parseable time.
+ */
+export function sessionStart(req: Pick<IntakeRequestDto, "scheduled_date" | "scheduled_time">): Date | null {
+    const minutes = timeToMinutes(req.scheduled_time);
+    if (!req.scheduled_date || minutes == null) return null;
+
+    const [y, m, d] = String(req.scheduled_date).slice(0, 10).split("-").map(Number);
+    const start = new Date(y, m - 1, d, 0, minutes);
+    return Number.isNaN(start.getTime()) ? null : start;
+}
+
+/**
+ * Which attendance outcomes the counselor can record right now:
+ * late cancellations any time before the session, attended / no-show once it started.
+ */
+export function allowedAttendanceStatuses(
+    req: Pick<IntakeRequestDto, "scheduled_date" | "scheduled_time">,
+    now: Date = new Date(),
+): AttendanceStatus[] {
+    const start = sessionStart(req);
+    if (!start) return [];
+    return start <= now ? ATTENDANCE_STATUSES : ["late_cancel"];
+}
+
+/**
+ * ✅ Counselor: mark a scheduled appointment as attended / no-show / late cancel.
+ * Returns the updated appointment.
+ */
+export async function markAppointmentAttendance(
+    id: number | string,
+    attendance: AttendanceStatus,
+): Promise<IntakeRequestDto> {
+    const res = await markAppointmentAttendanceApi(id, { attendance });
+    return res.appointment;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+    SESSION_STORAGE_KEY,
+    clearSession,
+    fetchCurrentUserFromServer,
+    getCurrentSession,
+    loginWithEmailPassword,
+    logoutFromServer,
+    setSession,
+    subscribeToSession,
+} from "@/lib/authentication";
+import { stubApi, stubStatus } from "@/test/api-stub";
+
+const stored = () => JSON.parse(window.localStorage.getItem(SESSION_STORAGE_KEY) ?? "null");
+
+describe("session storage", () => {
+    it("persists the session to localStorage", () => {
+        setSession({ user: { id: 4, email: "student@jrmsu.test", role: "student" }, token: "abc" });
+
+        expect(getCurrentSession()).toEqual({ user: { id: 4, email: "student@jrmsu.test", role: "student" }, token: "abc" });
+        expect(stored()).toEqual({ user: { id: 4, email: "student@jrmsu.test", role: "student" }, token: "abc" });
+    });
+
+    it("removes the stored entry when cleared", () => {
+        setSession({ user: { id: 4, email: "student@jrmsu.test" }, token: "abc" });
+        clearSession();
+
+        expect(getCurrentSession()).toEqual({ user: null, token: null });
+        expect(window.localStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it("does not store an empty session", () => {
+        setSession({ user: null, token: null });
+        expect(window.localStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it("hands out copies, not the live session", () => {
+        setSession({ user: null, token: "abc" });
+        const session = getCurrentSession();
+        session.token = "changed";
+
+        expect(getCurrentSession().token).toBe("abc");
+    });
+
+    it("notifies subscribers immediately and on every change", () => {
+        const seen: Array<string | null> = [];
+        const unsubscribe = subscribeToSession((s) => seen.push(s.token));
+
+        setSession({ user: null, token: "one" });
+        unsubscribe();
+        setSession({ user: null, token: "two" });
+
+        expect(seen).toEqual([null, "one"]);
+    });
+
+    it("restores the stored session when the module loads", async () => {
+        window.localStorage.setItem(
+            SESSION_STORAGE_KEY,
+            JSON.stringify({ user: { id: 2, email: "counselor@jrmsu.test", role: "counselor" }, token: "xyz" }),
+        );
+
+        vi.resetModules();
+        const fresh = await import("@/lib/authentication");
+
+        expect(fresh.getCurrentSession()).toEqual({
+            user: { id: 2, email: "counselor@jrmsu.test", role: "counselor" },
+            token: "xyz",
+        });
+    });
+
+    it("starts empty when the stored entry is corrupt", async () => {
+        window.localStorage.setItem(SESSION_STORAGE_KEY, "{not json");
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        vi.resetModules();
+        const fresh = await import("@/lib/authentication");
+
+        expect(fresh.getCurrentSession()).toEqual({ user: null, token: null });
+    });
+});
+
+describe("login / logout", () => {
+    it("stores the normalized user and token after login", async () => {
+        const api = stubApi({
+            user: { id: 1, email: "admin@jrmsu.test", roles: [{ name: "Admin" }], first_name: "Ada", last_name: "Reyes" },
+            access_token: 77,
+        });
+
+        const result = await loginWithEmailPassword({ email: "admin@jrmsu.test", password: "password" });
+
+        expect(api.last()).toMatchObject({
+            method: "POST",
+            path: "/auth/login",
+            body: { email: "admin@jrmsu.test", password: "password" },
+        });
+        expect(result.token).toBe("77");
+        expect(result.user).toMatchObject({ id: 1, name: "Ada Reyes", role: "Admin" });
+        expect(stored().token).toBe("77");
+    });
+
+    it("sends the stored token as a Bearer header", async () => {
+        setSession({ user: { id: 1, email: "admin@jrmsu.test" }, token: "secret" });
+        const api = stubApi({ user: { id: 1, email: "admin@jrmsu.test", role: "admin" } });
+
+        await fetchCurrentUserFromServer();
+
+        expect(api.last().headers.Authorization).toBe("Bearer secret");
+        expect(getCurrentSession()).toMatchObject({ token: "secret", user: { role: "admin" } });
+    });
+
+    it("clears the session when the server no longer accepts it", async () => {
+        setSession({ user: { id: 1, email: "admin@jrmsu.test" }, token: "expired" });
+        stubApi(stubStatus(401, { message: "Unauthenticated." }));
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        await expect(fetchCurrentUserFromServer()).resolves.toBeNull();
+        expect(getCurrentSession()).toEqual({ user: null, token: null });
+    });
+
+    it("clears the session on logout even if the request fails", async () => {
+        setSession({ user: { id: 1, email: "admin@jrmsu.test" }, token: "abc" });
+        stubApi(stubStatus(500, { message: "Server Error" }));
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+        await logoutFromServer();
+
+        expect(getCurrentSession()).toEqual({ user: null, token: null });
+        expect(window.localStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+});
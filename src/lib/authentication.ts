@@ -4,12 +4,12 @@ import {
     registerApi,
     logoutApi,
     meApi,
-    AUTH_API_BASE_URL,
     type LoginResponseDto,
     type RegisterResponseDto,
     type AuthenticatedUserDto,
     type RegisterRequestDto,
 } from "@/api/auth/route";
+import { AUTH_API_BASE_URL, apiFetch } from "@/api/client";
 
 export type Role =
     | "admin"
@@ -227,15 +227,6 @@ function normaliseUser(dto: AuthenticatedUserDto): AuthUser {
     };
 }
 
-function resolveStudentApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
 export function getCurrentSession(): AuthSession {
     return { ...currentSession };
 }
@@ -349,54 +340,14 @@ export interface UploadAvatarResponseDto {
 export async function uploadCurrentUserAvatar(
     file: File,
 ): Promise<{ avatarUrl: string; raw: UploadAvatarResponseDto }> {
-    const url = resolveStudentApiUrl("/student/profile/avatar");
-
     const formData = new FormData();
     formData.append("avatar", file);
 
-    const response = await fetch(url, {
+    const body = await apiFetch<UploadAvatarResponseDto>("/student/profile/avatar", {
         method: "POST",
         body: formData,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-        },
     });
 
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while uploading your avatar.";
-
-        const error = new Error(message);
-        (error as any).status = response.status;
-        (error as any).data = body ?? text;
-        throw error;
-    }
-
-    const body = data as UploadAvatarResponseDto;
-
     if (!body || !body.user) {
         throw new Error("Invalid avatar upload response from server.");
     }
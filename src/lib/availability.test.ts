@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { ApiError } from "@/api/client";
+import {
+    describeScheduleConflict,
+    formatTimeLabel,
+    minutesToHHmm,
+    timeToMinutes,
+    toAppointmentTimeValue,
+    toHHmm,
+} from "@/lib/availability";
+
+describe("timeToMinutes", () => {
+    it("reads 24-hour times, with or without seconds", () => {
+        expect(timeToMinutes("00:00")).toBe(0);
+        expect(timeToMinutes("9:05")).toBe(545);
+        expect(timeToMinutes("14:30:00")).toBe(870);
+    });
+
+    it("reads 12-hour times around noon and midnight", () => {
+        expect(timeToMinutes("12:00 AM")).toBe(0);
+        expect(timeToMinutes("12:30 pm")).toBe(750);
+        expect(timeToMinutes("8 PM")).toBe(1200);
+        expect(timeToMinutes("08:15AM")).toBe(495);
+    });
+
+    it("returns null for anything else", () => {
+        expect(timeToMinutes("24:00")).toBeNull();
+        expect(timeToMinutes("13:00 PM")).toBeNull();
+        expect(timeToMinutes("noon")).toBeNull();
+        expect(timeToMinutes(null)).toBeNull();
+    });
+});
+
+describe("time formatting", () => {
+    it("normalizes to HH:mm", () => {
+        expect(minutesToHHmm(545)).toBe("09:05");
+        expect(toHHmm("2:30 PM")).toBe("14:30");
+        expect(toHHmm(" soon ")).toBe("soon");
+    });
+
+    it("labels times for display and for intake requests", () => {
+        expect(formatTimeLabel("14:30")).toBe("2:30 PM");
+        expect(formatTimeLabel("00:10")).toBe("12:10 AM");
+        expect(formatTimeLabel("")).toBe("—");
+        expect(toAppointmentTimeValue("14:30")).toBe("02:30 PM");
+        expect(toAppointmentTimeValue("12:00")).toBe("12:00 PM");
+    });
+});
+
+describe("describeScheduleConflict", () => {
+    it("explains a 409 double-booking", () => {
+        const error = new ApiError("Already booked", 409, {
+            conflict: { type: "referral", id: 3, counselor_id: 2, date: "2026-10-21", time: "14:00", student_name: "Ana Cruz" },
+        });
+
+        expect(describeScheduleConflict(error)).toBe(
+            "The counselor already has a referral appointment with Ana Cruz on 2026-10-21 at 2:00 PM. Pick another slot.",
+        );
+    });
+
+    it("ignores other errors", () => {
+        expect(describeScheduleConflict(new ApiError("Already booked", 409, { message: "Already booked" }))).toBeNull();
+        expect(describeScheduleConflict(new ApiError("Invalid", 422, { conflict: {} }))).toBeNull();
+        expect(describeScheduleConflict(new Error("offline"))).toBeNull();
+    });
+});
@@ -0,0 +1,147 @@
+import {
+    createAvailabilityBlockApi,
+    deleteAvailabilityBlockApi,
+    getAvailableSlotsApi,
+    getCounselorAvailabilityApi,
+    getScheduleConflict,
+    saveWeeklyAvailabilityApi,
+    type AvailabilityBlockDto,
+    type AvailabilityBlockKindApi,
+    type AvailabilityRuleDto,
+    type AvailableSlotDto,
+    type CounselorAvailabilityDto,
+    type CreateAvailabilityBlockPayload,
+    type GetAvailableSlotsQuery,
+    type SaveWeeklyAvailabilityPayload,
+} from "@/api/availability/route";
+
+export type AvailabilityRule = AvailabilityRuleDto;
+export type AvailabilityBlock = AvailabilityBlockDto;
+export type AvailabilityBlockKind = AvailabilityBlockKindApi;
+export type CounselorAvailability = CounselorAvailabilityDto;
+export type AvailableSlot = AvailableSlotDto;
+
+/** Indexed by `Date#getDay()` */
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const SLOT_MINUTE_OPTIONS = [30, 45, 60, 90];
+
+export const AVAILABILITY_BLOCK_KIND_LABELS: Record<AvailabilityBlockKind, string> = {
+    holiday: "Holiday (office closed)",
+    blocked: "Blocked time",
+};
+
+function pad2(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+/**
+ * Minutes after midnight for "HH:mm", "H:mm", "08:00 AM" or "8 PM"; null when unparseable.
+ */
+export function timeToMinutes(value: unknown): number | null {
+    const raw = String(value ?? "").trim();
+
+    const h24 = raw.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+    if (h24) {
+        const h = Number(h24[1]);
+        const m = Number(h24[2]);
+        return h <= 23 && m <= 59 ? h * 60 + m : null;
+    }
+
+    const h12 = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/i);
+    if (h12) {
+        let h = Number(h12[1]);
+        const m = Number(h12[2] ?? 0);
+        if (h < 1 || h > 12 || m > 59) return null;
+        const pm = h12[3].toLowerCase() === "pm";
+        if (h === 12) h = 0;
+        return (pm ? h + 12 : h) * 60 + m;
+    }
+
+    return null;
+}
+
+export function minutesToHHmm(minutes: number): string {
+    return `${pad2(Math.floor(minutes / 60))}:${pad2(minutes % 60)}`;
+}
+
+/**
+ * Normalize any supported time string to "HH:mm" (unparseable values are returned trimmed).
+ */
+export function toHHmm(value: unknown): string {
+    const minutes = timeToMinutes(value);
+    return minutes == null ? String(value ?? "").trim() : minutesToHHmm(minutes);
+}
+
+/**
+ * "14:30" → "2:30 PM"
+ */
+export function formatTimeLabel(value: unknown): string {
+    const minutes = timeToMinutes(value);
+    if (minutes == null) return String(value ?? "").trim() || "—";
+
+    const h = Math.floor(minutes / 60);
+    const h12 = h % 12 === 0 ? 12 : h % 12;
+    return `${h12}:${pad2(minutes % 60)} ${h < 12 ? "AM" : "PM"}`;
+}
+
+/**
+ * "14:30" → "02:30 PM" — the format stored in `preferred_time` / `scheduled_time` of intake requests.
+ */
+export function toAppointmentTimeValue(value: unknown): string {
+    const minutes = timeToMinutes(value);
+    if (minutes == null) return String(value ?? "").trim();
+
+    const h = Math.floor(minutes / 60);
+    const h12 = h % 12 === 0 ? 12 : h % 12;
+    return `${pad2(h12)}:${pad2(minutes % 60)} ${h < 12 ? "AM" : "PM"}`;
+}
+
+export async function fetchCounselorAvailability(): Promise<CounselorAvailabilityDto> {
+    const res = await getCounselorAvailabilityApi();
+    return res.availability;
+}
+
+export async function saveWeeklyAvailability(payload: SaveWeeklyAvailabilityPayload): Promise<CounselorAvailabilityDto> {
+    const res = await saveWeeklyAvailabilityApi(payload);
+    return res.availability;
+}
+
+export async function addAvailabilityBlock(payload: CreateAvailabilityBlockPayload): Promise<AvailabilityBlockDto> {
+    const res = await createAvailabilityBlockApi(payload);
+    return res.block;
+}
+
+export async function removeAvailabilityBlock(id: number | string): Promise<void> {
+    await deleteAvailabilityBlockApi(id);
+}
+
+/**
+ * ✅ Open slots, sorted by date, time and counselor
+ */
+export async function fetchAvailableSlots(query: GetAvailableSlotsQuery): Promise<AvailableSlotDto[]> {
+    const res = await getAvailableSlotsApi(query);
+    return [...res.slots].sort(
+        (a, b) =>
+            a.date.localeCompare(b.date) ||
+            (timeToMinutes(a.start_time) ?? 0) - (timeToMinutes(b.start_time) ?? 0) ||
+            String(a.counselor_name ?? "").localeCompare(String(b.counselor_name ?? "")),
+    );
+}
+
+/**
+ * Toast-ready message for a double-booking rejection, or null for any other error.
+ */
+export function describeScheduleConflict(error: unknown): string | null {
+    const conflict = getScheduleConflict(error);
+    if (!conflict) return null;
+
+    const what =
+        conflict.type === "group_session"
+            ? `the group session "${conflict.title ?? "Workshop"}"`
+            : conflict.type === "referral"
+              ? "a referral appointment"
+              : "an appointment";
+    const who = conflict.student_name ? ` with ${conflict.student_name}` : "";
+    return `The counselor already has ${what}${who} on ${conflict.date} at ${formatTimeLabel(conflict.time)}. Pick another slot.`;
+}
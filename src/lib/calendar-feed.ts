@@ -0,0 +1,31 @@
+import { getCalendarFeedApi, rotateCalendarFeedApi, type CalendarFeedDto } from "@/api/calendar-feed/route";
+import { resolveApiUrl } from "@/api/client";
+
+export type CalendarFeed = CalendarFeedDto;
+
+/**
+ * The backend may return the feed path relative to the API base; calendar apps need an absolute URL.
+ */
+function toAbsoluteFeed(feed: CalendarFeedDto): CalendarFeedDto {
+    let url = String(feed.url ?? "").trim();
+    if (url && !/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) url = resolveApiUrl(url);
+    if (url.startsWith("/")) url = `${window.location.origin}${url}`;
+    return { ...feed, url };
+}
+
+/**
+ * "https://…/feed.ics" → "webcal://…/feed.ics" (opens the calendar app's subscribe dialog)
+ */
+export function toWebcalUrl(url: string): string {
+    return url.replace(/^https?:\/\//i, "webcal://");
+}
+
+export async function fetchCalendarFeed(): Promise<CalendarFeedDto> {
+    const res = await getCalendarFeedApi();
+    return toAbsoluteFeed(res.feed);
+}
+
+export async function rotateCalendarFeed(): Promise<CalendarFeedDto> {
+    const res = await rotateCalendarFeedApi();
+    return toAbsoluteFeed(res.feed);
+}
@@ -0,0 +1,161 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    getCounselorAppointmentsApi,
+    updateCounselorAppointmentApi,
+    type IntakeRequestDto,
+} from "@/api/intake/route";
+import type { ReferralDto } from "@/api/referrals/route";
+import { minutesToHHmm, timeToMinutes, toAppointmentTimeValue } from "@/lib/availability";
+import { isClosedAppointmentStatus, normalizeAppointmentStatus } from "@/lib/appointment-status";
+import { fetchCounselorReferrals, updateCounselorReferral } from "@/lib/referrals";
+
+/**
+ * Counselor calendar: intake appointments and referral-scheduled sessions on
+ * one timeline.
+ */
+
+export type CalendarEventSource = "appointment" | "referral";
+
+export type CalendarUrgency = "low" | "medium" | "high" | "unknown";
+
+export interface CalendarEvent {
+    /** Unique across both sources, e.g. "appointment-12" */
+    key: string;
+    source: CalendarEventSource;
+    id: number | string;
+    date: string; // YYYY-MM-DD
+    /** "HH:mm", null when the record has a date but no usable time */
+    time: string | null;
+    /** Minutes after midnight of `time` */
+    minutes: number | null;
+    title: string;
+    concern: string | null;
+    urgency: CalendarUrgency;
+    status: string;
+    /**
+     * Appointments without a final schedule are shown on the student's preferred
+     * date; referrals only appear once a counselor scheduled them.
+     */
+    tentative: boolean;
+    /** Finished / cancelled sessions cannot be dragged. */
+    movable: boolean;
+}
+
+/** Cap on appointment pages fetched for the calendar (100 per page). */
+const MAX_APPOINTMENT_PAGES = 10;
+
+const CLOSED_REFERRAL_STATUSES = ["closed"];
+
+function normalizeUrgency(value: unknown): CalendarUrgency {
+    const v = String(value ?? "").trim().toLowerCase();
+    return v === "low" || v === "medium" || v === "high" ? v : "unknown";
+}
+
+function studentName(record: any, fallbackId: unknown): string {
+    const name = record?.student_name ?? record?.user?.name ?? record?.student?.name;
+    if (name && typeof name === "string") return name;
+    return fallbackId != null ? `Student #${String(fallbackId)}` : "Unknown student";
+}
+
+function toTime(value: unknown): { time: string | null; minutes: number | null } {
+    const minutes = timeToMinutes(value);
+    return minutes == null ? { time: null, minutes: null } : { time: minutesToHHmm(minutes), minutes };
+}
+
+export function appointmentToCalendarEvent(req: IntakeRequestDto): CalendarEvent | null {
+    const tentative = !req.scheduled_date;
+    const date = req.scheduled_date ?? req.preferred_date;
+    if (!date) return null;
+
+    const status = normalizeAppointmentStatus(req.status);
+    return {
+        key: `appointment-${req.id}`,
+        source: "appointment",
+        id: req.id,
+        date: String(date).slice(0, 10),
+        ...toTime(tentative ? req.preferred_time : req.scheduled_time),
+        title: studentName(req, req.user_id),
+        concern: req.concern_type ?? null,
+        urgency: normalizeUrgency(req.urgency),
+        status,
+        tentative,
+        movable: !isClosedAppointmentStatus(status),
+    };
+}
+
+export function referralToCalendarEvent(referral: ReferralDto): CalendarEvent | null {
+    if (!referral.scheduled_date) return null;
+
+    const status = String(referral.status ?? "pending").toLowerCase();
+    return {
+        key: `referral-${referral.id}`,
+        source: "referral",
+        id: referral.id,
+        date: String(referral.scheduled_date).slice(0, 10),
+        ...toTime(referral.scheduled_time),
+        title: studentName(referral, referral.student?.student_id ?? referral.student_id),
+        concern: referral.concern_type ?? null,
+        urgency: normalizeUrgency(referral.urgency),
+        status,
+        tentative: false,
+        movable: !CLOSED_REFERRAL_STATUSES.includes(status),
+    };
+}
+
+async function fetchAllCounselorAppointments(): Promise<IntakeRequestDto[]> {
+    const out: IntakeRequestDto[] = [];
+
+    for (let page = 1; page <= MAX_APPOINTMENT_PAGES; page++) {
+        const res = await getCounselorAppointmentsApi({ page, per_page: 100 });
+        out.push(...(res.data ?? []));
+
+        const lastPage = Number(res.meta?.last_page ?? res.last_page ?? 1) || 1;
+        if (page >= lastPage) break;
+    }
+
+    return out;
+}
+
+/**
+ * ✅ Every appointment and scheduled referral session, sorted by date and time
+ */
+export async function fetchCalendarEvents(): Promise<CalendarEvent[]> {
+    const [appointments, referrals] = await Promise.all([
+        fetchAllCounselorAppointments(),
+        fetchCounselorReferrals({ per_page: 200 }),
+    ]);
+
+    const events = [
+        ...appointments.map(appointmentToCalendarEvent),
+        ...referrals.map(referralToCalendarEvent),
+    ].filter((e): e is CalendarEvent => e != null);
+
+    return events.sort((a, b) => a.date.localeCompare(b.date) || (a.minutes ?? -1) - (b.minutes ?? -1));
+}
+
+/**
+ * ✅ Move an event to a new date (and optionally time) through the source's own update API.
+ * Keeps the current time when `time` is omitted. Rejects with the 409 double-booking error.
+ */
+export async function rescheduleCalendarEvent(
+    event: CalendarEvent,
+    target: { date: string; time?: string | null },
+): Promise<CalendarEvent> {
+    const time = target.time ?? event.time;
+    if (!time) throw new Error("Set a time for this session before moving it on the calendar.");
+
+    if (event.source === "appointment") {
+        const res = await updateCounselorAppointmentApi(event.id, {
+            scheduled_date: target.date,
+            // intake appointments store "08:00 AM" style times
+            scheduled_time: toAppointmentTimeValue(time),
+        });
+        return appointmentToCalendarEvent(res.appointment) ?? { ...event, date: target.date, ...toTime(time) };
+    }
+
+    const updated = await updateCounselorReferral(event.id, {
+        scheduled_date: target.date,
+        scheduled_time: minutesToHHmm(timeToMinutes(time) ?? 0),
+    });
+    return referralToCalendarEvent(updated) ?? { ...event, date: target.date, ...toTime(time) };
+}
@@ -0,0 +1,194 @@
+import {
+    assignIntakeRequestApi,
+    closeCaseApi,
+    getAdminCaseloadsApi,
+    getAssignmentSuggestionsApi,
+    getCaseOutcomeApi,
+    getCasesApi,
+    getCounselorCaseloadsApi,
+    reopenCaseApi,
+    transferCaseApi,
+    updateCounselorSpecializationsApi,
+    type AssignIntakeResponseDto,
+    type AssignmentSuggestionDto,
+    type CaseClosureDto,
+    type CaseDto,
+    type CaseOutcomeDto,
+    type CaseStatusApi,
+    type CaseTerminationReasonApi,
+    type CaseTransferDto,
+    type CounselorCaseloadDto,
+    type OutcomeComparisonDto,
+} from "@/api/cases/route";
+import { PHQ9_TREND_MEASURE, reliableChangeDirection, type ReliableChangeDirection } from "@/lib/assessment-trend";
+
+export type StudentCase = CaseDto;
+export type CaseStatus = CaseStatusApi;
+export type CaseTransfer = CaseTransferDto;
+export type CaseClosure = CaseClosureDto;
+export type CaseOutcome = CaseOutcomeDto;
+export type OutcomeComparison = OutcomeComparisonDto;
+export type CaseTerminationReason = CaseTerminationReasonApi;
+export type CounselorCaseload = CounselorCaseloadDto;
+export type AssignmentSuggestion = AssignmentSuggestionDto;
+
+/** Concern types of the intake form, which are also what counselors specialize in. */
+export const CONCERN_TYPE_LABELS: Record<string, string> = {
+    academic: "Academic",
+    personal: "Personal / emotional",
+    family: "Family",
+    mental_health: "Mental health",
+    career: "Career / future",
+    other: "Other",
+};
+
+export const SPECIALIZATION_OPTIONS = Object.keys(CONCERN_TYPE_LABELS).filter((k) => k !== "other");
+
+/** A specialization match counts as this many open cases lighter when ranking. */
+export const SPECIALIZATION_WEIGHT = 2;
+
+export function concernTypeLabel(value: string | null | undefined): string {
+    if (!value) return "—";
+    return CONCERN_TYPE_LABELS[value] ?? value;
+}
+
+/**
+ * ✅ Rank counselors for a new intake: the counselor who already owns the
+ * student's case comes first; everyone else by open cases, with a
+ * specialization match counting `SPECIALIZATION_WEIGHT` cases lighter, then by
+ * upcoming appointments. Same order the backend returns.
+ */
+export function rankCounselorsForIntake(
+    loads: CounselorCaseload[],
+    params: { concernType: string | null; caseCounselorId: number | null },
+): AssignmentSuggestion[] {
+    const weight = (s: AssignmentSuggestion) => s.open_cases - (s.specialization_match ? SPECIALIZATION_WEIGHT : 0);
+
+    return loads
+        .map((load) => {
+            const ownsCase = params.caseCounselorId != null && load.counselor_id === params.caseCounselorId;
+            const match = params.concernType != null && load.specializations.includes(params.concernType);
+            const cases = `${load.open_cases} open case${load.open_cases === 1 ? "" : "s"}`;
+
+            return {
+                ...load,
+                owns_case: ownsCase,
+                specialization_match: match,
+                reason: ownsCase
+                    ? "Already handles this student's case"
+                    : match
+                      ? `Specializes in ${concernTypeLabel(params.concernType).toLowerCase()} · ${cases}`
+                      : cases,
+            };
+        })
+        .sort(
+            (a, b) =>
+                Number(b.owns_case) - Number(a.owns_case) ||
+                weight(a) - weight(b) ||
+                a.upcoming_appointments - b.upcoming_appointments ||
+                a.counselor_name.localeCompare(b.counselor_name),
+        );
+}
+
+export const CASE_TERMINATION_REASON_LABELS: Record<CaseTerminationReason, string> = {
+    goals_met: "Goals met",
+    student_withdrew: "Student withdrew",
+    referred_out: "Referred to outside provider",
+    left_school: "Left the university",
+    no_contact: "No contact / did not return",
+    other: "Other",
+};
+
+export const CASE_TERMINATION_REASONS = Object.keys(CASE_TERMINATION_REASON_LABELS) as CaseTerminationReason[];
+
+export function terminationReasonLabel(value: string | null | undefined): string {
+    if (!value) return "—";
+    return CASE_TERMINATION_REASON_LABELS[value as CaseTerminationReason] ?? value;
+}
+
+/**
+ * ✅ Direction of a closure comparison. PHQ-9 only counts a reliable change
+ * (`PHQ9_RELIABLE_CHANGE` points, lower is better); manual scores are 0–100
+ * where higher is better, so any difference counts. Null with a single score.
+ */
+export function outcomeDirection(
+    comparison: OutcomeComparison | null,
+    measure: "phq9" | "manual_score",
+): ReliableChangeDirection | null {
+    if (!comparison || comparison.count < 2) return null;
+    const delta = comparison.last - comparison.first;
+    if (measure === "phq9") return reliableChangeDirection(PHQ9_TREND_MEASURE, delta);
+    return delta > 0 ? "improved" : delta < 0 ? "worsened" : "unchanged";
+}
+
+/** Latest closure of a closed case. */
+export function latestClosure(item: StudentCase): CaseClosure | null {
+    return item.status === "closed" ? (item.closures[item.closures.length - 1] ?? null) : null;
+}
+
+/** Open cases relative to the busiest counselor (0–100, for load bars). */
+export function caseloadShare(load: CounselorCaseload, all: CounselorCaseload[]): number {
+    const max = Math.max(0, ...all.map((c) => c.open_cases));
+    return max === 0 ? 0 : Math.round((load.open_cases / max) * 100);
+}
+
+export async function fetchCases(studentId?: number | string | null, status?: CaseStatus): Promise<StudentCase[]> {
+    const res = await getCasesApi(studentId, status);
+    return Array.isArray(res.cases) ? res.cases : [];
+}
+
+export async function fetchCaseOutcome(caseId: number): Promise<CaseOutcome> {
+    const res = await getCaseOutcomeApi(caseId);
+    return res.outcome;
+}
+
+export async function closeCase(
+    caseId: number,
+    terminationReason: CaseTerminationReason,
+    outcomeSummary: string,
+): Promise<StudentCase> {
+    const res = await closeCaseApi(caseId, {
+        termination_reason: terminationReason,
+        outcome_summary: outcomeSummary.trim(),
+    });
+    return res.case;
+}
+
+export async function reopenCase(caseId: number, reason: string): Promise<StudentCase> {
+    const res = await reopenCaseApi(caseId, reason.trim());
+    return res.case;
+}
+
+export async function transferCase(
+    caseId: number,
+    counselorId: number | string,
+    handoffNote: string,
+): Promise<StudentCase> {
+    const res = await transferCaseApi(caseId, { counselor_id: counselorId, handoff_note: handoffNote.trim() });
+    return res.case;
+}
+
+export async function fetchCounselorCaseloads(scope: "counselor" | "admin" = "counselor"): Promise<CounselorCaseload[]> {
+    const res = scope === "admin" ? await getAdminCaseloadsApi() : await getCounselorCaseloadsApi();
+    return Array.isArray(res.counselors) ? res.counselors : [];
+}
+
+export async function updateCounselorSpecializations(
+    counselorId: number | string,
+    specializations: string[],
+): Promise<CounselorCaseload> {
+    const res = await updateCounselorSpecializationsApi(counselorId, specializations);
+    return res.counselor;
+}
+
+export async function fetchAssignmentSuggestions(intakeRequestId: number | string): Promise<AssignmentSuggestion[]> {
+    const res = await getAssignmentSuggestionsApi(intakeRequestId);
+    return Array.isArray(res.suggestions) ? res.suggestions : [];
+}
+
+export async function assignIntakeRequest(
+    intakeRequestId: number | string,
+    counselorId: number | string,
+): Promise<AssignIntakeResponseDto> {
+    return assignIntakeRequestApi(intakeRequestId, counselorId);
+}
@@ -0,0 +1,151 @@
+import {
+    cancelGroupSessionApi,
+    createGroupSessionApi,
+    enrollInGroupSessionApi,
+    getCounselorGroupSessionsApi,
+    getStudentGroupSessionsApi,
+    markGroupAttendanceApi,
+    updateGroupSessionApi,
+    withdrawFromGroupSessionApi,
+    type GroupSessionDto,
+    type GroupSessionKindApi,
+    type GroupSessionParticipantDto,
+    type SaveGroupSessionPayload,
+} from "@/api/group-sessions/route";
+import type { AttendanceStatus } from "@/lib/attendance";
+import { timeToMinutes } from "@/lib/availability";
+
+export type GroupSession = GroupSessionDto;
+export type GroupSessionKind = GroupSessionKindApi;
+export type GroupSessionParticipant = GroupSessionParticipantDto;
+export type GroupSessionInput = SaveGroupSessionPayload;
+
+export const GROUP_SESSION_KIND_LABELS: Record<GroupSessionKind, string> = {
+    group: "Group counseling",
+    workshop: "Workshop",
+};
+
+export const GROUP_SESSION_KINDS = Object.keys(GROUP_SESSION_KIND_LABELS) as GroupSessionKind[];
+
+/** Largest group the office rooms hold. */
+export const MAX_GROUP_CAPACITY = 200;
+
+/**
+ * Local start / end of a session; null when the date or times are unparseable.
+ */
+export function groupSessionStart(session: Pick<GroupSession, "date" | "start_time">): Date | null {
+    return atMinutes(session.date, timeToMinutes(session.start_time));
+}
+
+export function groupSessionEnd(session: Pick<GroupSession, "date" | "end_time">): Date | null {
+    return atMinutes(session.date, timeToMinutes(session.end_time));
+}
+
+function atMinutes(date: string, minutes: number | null): Date | null {
+    if (!date || minutes == null) return null;
+    const [y, m, d] = String(date).slice(0, 10).split("-").map(Number);
+    const at = new Date(y, m - 1, d, 0, minutes);
+    return Number.isNaN(at.getTime()) ? null : at;
+}
+
+export function isUpcomingGroupSession(session: GroupSession, now: Date = new Date()): boolean {
+    const start = groupSessionStart(session);
+    return session.status === "open" && start != null && start > now;
+}
+
+/**
+ * Students can enroll in open, upcoming sessions that still have a seat.
+ */
+export function canEnrollInGroupSession(session: GroupSession, now: Date = new Date()): boolean {
+    return isUpcomingGroupSession(session, now) && !session.is_enrolled && session.seats_left > 0;
+}
+
+/**
+ * Outcomes the counselor can record for a participant: late cancels before the
+ * session, attended / no-show once it started.
+ */
+export function allowedGroupAttendance(session: GroupSession, now: Date = new Date()): AttendanceStatus[] {
+    const start = groupSessionStart(session);
+    if (!start || session.status !== "open") return [];
+    return start <= now ? ["attended", "no_show", "late_cancel"] : ["late_cancel"];
+}
+
+/**
+ * Client-side checks mirroring the backend; returns the first problem or null.
+ */
+export function validateGroupSessionInput(input: GroupSessionInput, enrolledCount = 0): string | null {
+    if (!input.title.trim()) return "Please enter a title.";
+    if (!input.topic.trim()) return "Please enter a topic.";
+    if (!input.date) return "Please pick a date.";
+
+    const start = timeToMinutes(input.start_time);
+    const end = timeToMinutes(input.end_time);
+    if (start == null || end == null) return "Please set a start and end time.";
+    if (end <= start) return "The end time must be after the start time.";
+
+    if (!Number.isInteger(input.capacity) || input.capacity < 1 || input.capacity > MAX_GROUP_CAPACITY) {
+        return `Capacity must be between 1 and ${MAX_GROUP_CAPACITY}.`;
+    }
+    if (input.capacity < enrolledCount) {
+        return `${enrolledCount} students are already enrolled; capacity cannot be lower.`;
+    }
+    return null;
+}
+
+/**
+ * ✅ Counselor: own sessions, soonest first
+ */
+export async function fetchCounselorGroupSessions(): Promise<GroupSession[]> {
+    const res = await getCounselorGroupSessionsApi();
+    return sortGroupSessions(res.group_sessions ?? []);
+}
+
+/**
+ * ✅ Student: open sessions to join plus own enrollments, soonest first
+ */
+export async function fetchStudentGroupSessions(): Promise<GroupSession[]> {
+    const res = await getStudentGroupSessionsApi();
+    return sortGroupSessions(res.group_sessions ?? []);
+}
+
+function sortGroupSessions(rows: GroupSession[]): GroupSession[] {
+    return [...rows].sort(
+        (a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time) || a.id - b.id,
+    );
+}
+
+export async function saveGroupSession(input: GroupSessionInput, id?: number | null): Promise<GroupSession> {
+    const payload: GroupSessionInput = {
+        ...input,
+        title: input.title.trim(),
+        topic: input.topic.trim(),
+        description: input.description?.trim() || null,
+        location: input.location?.trim() || null,
+    };
+    const res = id != null ? await updateGroupSessionApi(id, payload) : await createGroupSessionApi(payload);
+    return res.group_session;
+}
+
+export async function cancelGroupSession(id: number, reason: string): Promise<GroupSession> {
+    const res = await cancelGroupSessionApi(id, { reason: reason.trim() });
+    return res.group_session;
+}
+
+export async function markGroupAttendance(
+    sessionId: number,
+    enrollmentId: number,
+    attendance: AttendanceStatus,
+): Promise<GroupSession> {
+    const res = await markGroupAttendanceApi(sessionId, enrollmentId, { attendance });
+    return res.group_session;
+}
+
+export async function enrollInGroupSession(id: number): Promise<GroupSession> {
+    const res = await enrollInGroupSessionApi(id);
+    return res.group_session;
+}
+
+export async function withdrawFromGroupSession(id: number): Promise<GroupSession> {
+    const res = await withdrawFromGroupSessionApi(id);
+    return res.group_session;
+}
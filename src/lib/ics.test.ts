@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { buildIcsCalendar, sessionToIcsEvent, type IcsEvent } from "@/lib/ics";
+
+const originalTz = process.env.TZ;
+
+function event(overrides: Partial<IcsEvent> = {}): IcsEvent {
+    return {
+        uid: "intake-request-8@ecounseling.jrmsu-tampilisan",
+        sequence: 0,
+        date: "2026-10-20",
+        startMinutes: 9 * 60,
+        durationMinutes: 60,
+        summary: "Counseling session",
+        status: "CONFIRMED",
+        updatedAt: "2026-10-19T08:00:00Z",
+        ...overrides,
+    };
+}
+
+function line(ics: string, name: string): string | undefined {
+    return ics.split("\r\n").find((l) => l.startsWith(name));
+}
+
+afterEach(() => {
+    process.env.TZ = originalTz;
+});
+
+describe("buildIcsCalendar", () => {
+    it("writes session times as Asia/Manila wall-clock time", () => {
+        const ics = buildIcsCalendar({ events: [event()] });
+
+        expect(line(ics, "DTSTART;")).toBe("DTSTART;TZID=Asia/Manila:20261020T090000");
+        expect(line(ics, "DTEND;")).toBe("DTEND;TZID=Asia/Manila:20261020T100000");
+        expect(line(ics, "DTSTAMP")).toBe("DTSTAMP:20261019T080000Z");
+    });
+
+    it("rolls a session that ends after midnight into the next day", () => {
+        const ics = buildIcsCalendar({ events: [event({ startMinutes: 23 * 60 + 30 })] });
+
+        expect(line(ics, "DTEND;")).toBe("DTEND;TZID=Asia/Manila:20261021T003000");
+    });
+
+    it("does not depend on the viewer's timezone", () => {
+        // 02:30 does not exist in New York on the day DST starts
+        process.env.TZ = "America/New_York";
+
+        const ics = buildIcsCalendar({ events: [event({ date: "2026-03-08", startMinutes: 2 * 60 + 30 })] });
+
+        expect(line(ics, "DTSTART;")).toBe("DTSTART;TZID=Asia/Manila:20260308T023000");
+        expect(line(ics, "DTEND;")).toBe("DTEND;TZID=Asia/Manila:20260308T033000");
+    });
+});
+
+describe("sessionToIcsEvent", () => {
+    it("needs a date and a parseable time", () => {
+        const base = { kind: "appointment" as const, id: 8, summary: "Counseling session", status: "scheduled" };
+
+        expect(sessionToIcsEvent({ ...base, scheduled_date: "2026-10-20", scheduled_time: "9:00 AM" })).toMatchObject({
+            date: "2026-10-20",
+            startMinutes: 540,
+            status: "CONFIRMED",
+        });
+        expect(sessionToIcsEvent({ ...base, scheduled_date: null, scheduled_time: "09:00" })).toBeNull();
+        expect(sessionToIcsEvent({ ...base, scheduled_date: "2026-10-20", scheduled_time: "soon" })).toBeNull();
+    });
+});
@@ -0,0 +1,285 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { IntakeRequestDto } from "@/api/intake/route";
+import type { ReferralDto } from "@/api/referrals/route";
+import { timeToMinutes } from "@/lib/availability";
+
+/**
+ * iCalendar (RFC 5545) export of scheduled counseling sessions.
+ *
+ * Each session keeps a stable UID; the backend bumps `schedule_sequence`
+ * whenever the schedule or status changes, so calendar apps replace the old
+ * copy instead of adding a duplicate. Cancelled sessions are still emitted
+ * (STATUS:CANCELLED) so subscribers remove them.
+ */
+
+/** Sessions are held on campus; times are local to the Philippines (no DST). */
+export const ICS_TIMEZONE = "Asia/Manila";
+
+export const DEFAULT_SESSION_MINUTES = 60;
+
+const PRODID = "-//JRMSU Tampilisan//E-Counseling//EN";
+const UID_DOMAIN = "ecounseling.jrmsu-tampilisan";
+const SESSION_LOCATION = "Guidance & Counseling Office, JRMSU Tampilisan Campus";
+
+const VTIMEZONE = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${ICS_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0800",
+    "TZOFFSETTO:+0800",
+    "TZNAME:PHT",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+];
+
+const CANCELLED_STATUSES = ["cancelled", "canceled", "rejected", "closed"];
+const CONFIRMED_STATUSES = ["scheduled", "rescheduled", "handled", "completed", "no_show"];
+
+export type IcsEventStatus = "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+
+export type IcsPerspective = "student" | "counselor";
+
+export interface IcsEvent {
+    uid: string;
+    /** Incremented by the backend on every schedule / status change */
+    sequence: number;
+    date: string; // YYYY-MM-DD
+    /** Minutes after midnight */
+    startMinutes: number;
+    durationMinutes: number;
+    summary: string;
+    description?: string | null;
+    location?: string | null;
+    status: IcsEventStatus;
+    /** ISO timestamp of the last change (LAST-MODIFIED / DTSTAMP) */
+    updatedAt?: string | null;
+}
+
+export interface IcsSessionInput {
+    kind: "appointment" | "referral";
+    id: number | string;
+    scheduled_date: string | null | undefined;
+    scheduled_time: string | null | undefined;
+    status: string | null | undefined;
+    sequence?: number | null;
+    summary: string;
+    description?: string | null;
+    updated_at?: string | null;
+}
+
+function pad2(n: number): string {
+    return String(n).padStart(2, "0");
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Split a content line into 75-octet chunks (continuation lines start with a space).
+ */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const out: string[] = [];
+    let current = "";
+    let size = 0;
+
+    for (const ch of line) {
+        const bytes = encoder.encode(ch).length;
+        const limit = out.length === 0 ? 75 : 74;
+        if (size + bytes > limit) {
+            out.push(current);
+            current = "";
+            size = 0;
+        }
+        current += ch;
+        size += bytes;
+    }
+    out.push(current);
+
+    return out.join("\r\n ");
+}
+
+/**
+ * Wall-clock time in ICS_TIMEZONE. Computed in UTC so the viewer's own timezone
+ * (and its DST gaps) cannot shift it; minutes past midnight roll into the next day.
+ */
+function formatLocal(date: string, minutes: number): string {
+    const [y, m, d] = date.split("-").map(Number);
+    const at = new Date(Date.UTC(y, m - 1, d, 0, minutes));
+    return (
+        `${at.getUTCFullYear()}${pad2(at.getUTCMonth() + 1)}${pad2(at.getUTCDate())}` +
+        `T${pad2(at.getUTCHours())}${pad2(at.getUTCMinutes())}00`
+    );
+}
+
+function formatUtc(value: Date): string {
+    return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function parseStamp(value: string | null | undefined): Date {
+    const parsed = value ? new Date(value) : null;
+    return parsed && !Number.isNaN(parsed.getTime()) ? parsed : new Date();
+}
+
+function eventLines(event: IcsEvent): string[] {
+    const stamp = formatUtc(parseStamp(event.updatedAt));
+    const lines = [
+        "BEGIN:VEVENT",
+        `UID:${event.uid}`,
+        `SEQUENCE:${Math.max(0, Math.floor(event.sequence))}`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${stamp}`,
+        `DTSTART;TZID=${ICS_TIMEZONE}:${formatLocal(event.date, event.startMinutes)}`,
+        `DTEND;TZID=${ICS_TIMEZONE}:${formatLocal(event.date, event.startMinutes + event.durationMinutes)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+        `STATUS:${event.status}`,
+    ];
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push("END:VEVENT");
+    return lines;
+}
+
+/**
+ * ✅ Serialize events into one VCALENDAR document (CRLF line endings)
+ */
+export function buildIcsCalendar(params: { name?: string; events: IcsEvent[] }): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+    ];
+    if (params.name) {
+        lines.push(`X-WR-CALNAME:${escapeText(params.name)}`);
+        lines.push(`X-WR-TIMEZONE:${ICS_TIMEZONE}`);
+    }
+    lines.push(...VTIMEZONE);
+    params.events.forEach((event) => lines.push(...eventLines(event)));
+    lines.push("END:VCALENDAR");
+
+    return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+export function sessionIcsUid(kind: IcsSessionInput["kind"], id: number | string): string {
+    return `${kind === "referral" ? "referral" : "intake-request"}-${id}@${UID_DOMAIN}`;
+}
+
+function icsStatus(status: string | null | undefined): IcsEventStatus {
+    const s = String(status ?? "").toLowerCase();
+    if (CANCELLED_STATUSES.includes(s)) return "CANCELLED";
+    if (CONFIRMED_STATUSES.includes(s)) return "CONFIRMED";
+    return "TENTATIVE";
+}
+
+/**
+ * Null until the session has a final date and a parseable time.
+ */
+export function sessionToIcsEvent(input: IcsSessionInput): IcsEvent | null {
+    const startMinutes = timeToMinutes(input.scheduled_time);
+    if (!input.scheduled_date || startMinutes == null) return null;
+
+    return {
+        uid: sessionIcsUid(input.kind, input.id),
+        sequence: Number(input.sequence ?? 0) || 0,
+        date: String(input.scheduled_date).slice(0, 10),
+        startMinutes,
+        durationMinutes: DEFAULT_SESSION_MINUTES,
+        summary: input.summary,
+        description: input.description,
+        location: SESSION_LOCATION,
+        status: icsStatus(input.status),
+        updatedAt: input.updated_at,
+    };
+}
+
+function describeSession(parts: Array<[string, unknown]>): string {
+    return parts
+        .filter(([, value]) => value != null && String(value).trim() !== "")
+        .map(([label, value]) => `${label}: ${String(value)}`)
+        .join("\n");
+}
+
+export function appointmentToIcsEvent(req: IntakeRequestDto, perspective: IcsPerspective): IcsEvent | null {
+    const studentName = req.student_name ?? (req.user as any)?.name ?? null;
+
+    return sessionToIcsEvent({
+        kind: "appointment",
+        id: req.id,
+        scheduled_date: req.scheduled_date,
+        scheduled_time: req.scheduled_time,
+        status: req.status,
+        sequence: req.schedule_sequence,
+        summary:
+            perspective === "counselor" && studentName
+                ? `Counseling session: ${studentName}`
+                : "Counseling session (Guidance Office)",
+        description: describeSession([
+            ["Concern", req.concern_type],
+            ["Urgency", req.urgency],
+            ["Status", req.status],
+        ]),
+        updated_at: req.updated_at,
+    });
+}
+
+export function referralToIcsEvent(referral: ReferralDto, perspective: IcsPerspective): IcsEvent | null {
+    const studentName = referral.student?.name ?? referral.student_name;
+
+    return sessionToIcsEvent({
+        kind: "referral",
+        id: referral.id,
+        scheduled_date: referral.scheduled_date,
+        scheduled_time: referral.scheduled_time,
+        status: referral.status,
+        sequence: referral.schedule_sequence,
+        summary:
+            perspective === "counselor" && studentName
+                ? `Referral session: ${studentName}`
+                : "Referral counseling session (Guidance Office)",
+        description: describeSession([
+            ["Concern", referral.concern_type],
+            ["Referred by", referral.requested_by_name],
+            ["Status", referral.status],
+        ]),
+        updated_at: referral.updated_at,
+    });
+}
+
+/**
+ * ✅ Save a .ics file through the browser
+ */
+export function downloadIcsFile(fileName: string, content: string): void {
+    const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName.endsWith(".ics") ? fileName : `${fileName}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Download one appointment as .ics; returns false when it has no final schedule yet.
+ */
+export function downloadAppointmentIcs(req: IntakeRequestDto, perspective: IcsPerspective): boolean {
+    const event = appointmentToIcsEvent(req, perspective);
+    if (!event) return false;
+
+    downloadIcsFile(
+        `counseling-session-${event.date}-${req.id}.ics`,
+        buildIcsCalendar({ events: [event] }),
+    );
+    return true;
+}
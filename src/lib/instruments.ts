@@ -0,0 +1,277 @@
+import type { IntakeAssessmentDto, ScreeningResponseDto } from "@/api/intake/route";
+import { PHQ9_FREQUENCY_LABELS, PHQ9_FREQUENCY_POINTS, PHQ9_FREQUENCY_VALUES, PHQ9_INCOMPLETE } from "@/lib/phq9";
+
+/**
+ * Screening instruments administered alongside the PHQ-9 (intake Step 3).
+ *
+ * Each instrument is plain data: items, answer options, scoring direction and
+ * severity bands. Adding an instrument to `SCREENING_INSTRUMENTS` is enough for
+ * the student wizard, counselor dialog, reports and PDFs to pick it up.
+ * Answers are stored on the assessment as `screenings: [{ instrument, responses }]`.
+ *
+ * The PHQ-9 keeps its own module (`@/lib/phq9`) because its items are columns
+ * on the assessment and it drives the self-harm triage.
+ */
+
+export interface InstrumentOption {
+    value: string;
+    label: string;
+    points: number;
+}
+
+export interface InstrumentItem {
+    key: string;
+    label: string;
+    /** Scored as (highest option points − points), e.g. PSS-10 positive items. */
+    reverseScored?: boolean;
+}
+
+export type InstrumentTone = "minimal" | "mild" | "moderate" | "high";
+
+export interface InstrumentBand {
+    label: string;
+    /** Inclusive score range */
+    min: number;
+    max: number;
+    tone: InstrumentTone;
+}
+
+export interface ScreeningInstrument {
+    id: string;
+    name: string;
+    shortName: string;
+    /** What the instrument measures, e.g. "Anxiety". */
+    construct: string;
+    instructions: string;
+    options: InstrumentOption[];
+    items: InstrumentItem[];
+    bands: InstrumentBand[];
+    /** Up to this many unanswered items are prorated; more → "Incomplete". */
+    maxMissing: number;
+    /** Reliable change threshold in total-score points; omitted when no published value applies. */
+    reliableChange?: number;
+}
+
+export interface InstrumentItemResult {
+    key: string;
+    label: string;
+    response: string | null;
+    /** "—" when unanswered */
+    responseLabel: string;
+    /** Points after reverse scoring */
+    points: number | null;
+}
+
+export interface InstrumentResult {
+    instrument: ScreeningInstrument;
+    score: number;
+    maxScore: number;
+    /** Score used for the band (prorated when allowed), null when incomplete. */
+    bandScore: number | null;
+    answered: number;
+    missing: string[];
+    prorated: boolean;
+    severity: string;
+    tone: InstrumentTone | null;
+    items: InstrumentItemResult[];
+}
+
+const FREQUENCY_OPTIONS: InstrumentOption[] = PHQ9_FREQUENCY_VALUES.map((value) => ({
+    value,
+    label: PHQ9_FREQUENCY_LABELS[value],
+    points: PHQ9_FREQUENCY_POINTS[value],
+}));
+
+export const GAD7: ScreeningInstrument = {
+    id: "gad7",
+    name: "Generalized Anxiety Disorder scale (GAD-7)",
+    shortName: "GAD-7",
+    construct: "Anxiety",
+    instructions: "Over the last two weeks, how often have you been bothered by the following problems?",
+    options: FREQUENCY_OPTIONS,
+    items: [
+        { key: "gad_nervous", label: "Feeling nervous, anxious, or on edge" },
+        { key: "gad_control_worry", label: "Not being able to stop or control worrying" },
+        { key: "gad_worry_too_much", label: "Worrying too much about different things" },
+        { key: "gad_trouble_relaxing", label: "Trouble relaxing" },
+        { key: "gad_restless", label: "Being so restless that it is hard to sit still" },
+        { key: "gad_irritable", label: "Becoming easily annoyed or irritable" },
+        { key: "gad_afraid", label: "Feeling afraid, as if something awful might happen" },
+    ],
+    bands: [
+        { label: "Minimal", min: 0, max: 4, tone: "minimal" },
+        { label: "Mild", min: 5, max: 9, tone: "mild" },
+        { label: "Moderate", min: 10, max: 14, tone: "moderate" },
+        { label: "Severe", min: 15, max: 21, tone: "high" },
+    ],
+    maxMissing: 1,
+    reliableChange: 4,
+};
+
+export const PSS10: ScreeningInstrument = {
+    id: "pss10",
+    name: "Perceived Stress Scale (PSS-10)",
+    shortName: "PSS-10",
+    construct: "Perceived stress",
+    instructions: "In the last month, how often have you…",
+    options: [
+        { value: "never", label: "Never", points: 0 },
+        { value: "almost_never", label: "Almost never", points: 1 },
+        { value: "sometimes", label: "Sometimes", points: 2 },
+        { value: "fairly_often", label: "Fairly often", points: 3 },
+        { value: "very_often", label: "Very often", points: 4 },
+    ],
+    items: [
+        { key: "pss_upset_unexpected", label: "Been upset because of something that happened unexpectedly" },
+        { key: "pss_unable_control", label: "Felt that you were unable to control the important things in your life" },
+        { key: "pss_nervous_stressed", label: "Felt nervous and stressed" },
+        {
+            key: "pss_confident_handle",
+            label: "Felt confident about your ability to handle your personal problems",
+            reverseScored: true,
+        },
+        { key: "pss_going_your_way", label: "Felt that things were going your way", reverseScored: true },
+        { key: "pss_could_not_cope", label: "Found that you could not cope with all the things that you had to do" },
+        { key: "pss_control_irritations", label: "Been able to control irritations in your life", reverseScored: true },
+        { key: "pss_on_top", label: "Felt that you were on top of things", reverseScored: true },
+        { key: "pss_angered", label: "Been angered because of things that happened that were outside of your control" },
+        {
+            key: "pss_difficulties_piling",
+            label: "Felt difficulties were piling up so high that you could not overcome them",
+        },
+    ],
+    bands: [
+        { label: "Low stress", min: 0, max: 13, tone: "minimal" },
+        { label: "Moderate stress", min: 14, max: 26, tone: "moderate" },
+        { label: "High stress", min: 27, max: 40, tone: "high" },
+    ],
+    maxMissing: 1,
+};
+
+/** Instruments administered in the student intake, in wizard order. */
+export const SCREENING_INSTRUMENTS: ScreeningInstrument[] = [GAD7, PSS10];
+
+export function getScreeningInstrument(id: string): ScreeningInstrument | undefined {
+    return SCREENING_INSTRUMENTS.find((i) => i.id === id);
+}
+
+function maxOptionPoints(instrument: ScreeningInstrument): number {
+    return Math.max(...instrument.options.map((o) => o.points));
+}
+
+export function instrumentMaxScore(instrument: ScreeningInstrument): number {
+    return maxOptionPoints(instrument) * instrument.items.length;
+}
+
+function bandFor(instrument: ScreeningInstrument, score: number): InstrumentBand {
+    return (
+        instrument.bands.find((b) => score >= b.min && score <= b.max) ??
+        instrument.bands[instrument.bands.length - 1]
+    );
+}
+
+/**
+ * Score one instrument from its stored responses (item key → option value).
+ */
+export function scoreScreening(
+    instrument: ScreeningInstrument,
+    responses: Record<string, string | null | undefined> | null | undefined,
+): InstrumentResult {
+    const top = maxOptionPoints(instrument);
+
+    const items: InstrumentItemResult[] = instrument.items.map((item) => {
+        const option = instrument.options.find((o) => o.value === responses?.[item.key]);
+        const points = option == null ? null : item.reverseScored ? top - option.points : option.points;
+        return {
+            key: item.key,
+            label: item.label,
+            response: option?.value ?? null,
+            responseLabel: option?.label ?? "—",
+            points,
+        };
+    });
+
+    const answeredItems = items.filter((i) => i.points != null);
+    const answered = answeredItems.length;
+    const score = answeredItems.reduce((sum, i) => sum + (i.points ?? 0), 0);
+    const missing = items.filter((i) => i.points == null).map((i) => i.key);
+
+    let bandScore: number | null = null;
+    if (missing.length === 0) bandScore = score;
+    else if (answered > 0 && missing.length <= instrument.maxMissing) {
+        bandScore = Math.round((score / answered) * instrument.items.length);
+    }
+
+    const band = bandScore == null ? null : bandFor(instrument, bandScore);
+
+    return {
+        instrument,
+        score,
+        maxScore: instrumentMaxScore(instrument),
+        bandScore,
+        answered,
+        missing,
+        prorated: bandScore != null && missing.length > 0,
+        severity: band?.label ?? PHQ9_INCOMPLETE,
+        tone: band?.tone ?? null,
+        items,
+    };
+}
+
+/**
+ * Stored responses for one instrument, or null when it was not administered.
+ */
+export function findScreeningResponses(
+    assessment: Pick<IntakeAssessmentDto, "screenings"> | null | undefined,
+    instrumentId: string,
+): ScreeningResponseDto["responses"] | null {
+    const list = Array.isArray(assessment?.screenings) ? assessment.screenings : [];
+    return list.find((s) => s?.instrument === instrumentId)?.responses ?? null;
+}
+
+/**
+ * Results for every registered instrument administered in this assessment.
+ */
+export function scoreAssessmentScreenings(
+    assessment: Pick<IntakeAssessmentDto, "screenings"> | null | undefined,
+): InstrumentResult[] {
+    return SCREENING_INSTRUMENTS.flatMap((instrument) => {
+        const responses = findScreeningResponses(assessment, instrument.id);
+        return responses ? [scoreScreening(instrument, responses)] : [];
+    });
+}
+
+export interface InstrumentSummary {
+    instrument: ScreeningInstrument;
+    /** Assessments in which the instrument was administered */
+    administered: number;
+    /** Mean total score (administered only) */
+    averageScore: number;
+    bandCounts: { band: InstrumentBand; count: number }[];
+    incomplete: number;
+}
+
+/**
+ * Per-instrument totals across a set of assessments (reports and report PDFs).
+ */
+export function summarizeScreenings(
+    assessments: Pick<IntakeAssessmentDto, "screenings">[],
+): InstrumentSummary[] {
+    return SCREENING_INSTRUMENTS.map((instrument) => {
+        const results = assessments.flatMap((a) => {
+            const responses = findScreeningResponses(a, instrument.id);
+            return responses ? [scoreScreening(instrument, responses)] : [];
+        });
+
+        return {
+            instrument,
+            administered: results.length,
+            averageScore: results.length ? results.reduce((sum, r) => sum + r.score, 0) / results.length : 0,
+            bandCounts: instrument.bands.map((band) => ({
+                band,
+                count: results.filter((r) => r.severity === band.label).length,
+            })),
+            incomplete: results.filter((r) => r.bandScore == null).length,
+        };
+    });
+}
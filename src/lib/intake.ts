@@ -3,6 +3,7 @@ import {
     createIntakeAssessmentApi,
     getStudentAssessmentsApi,
     getCounselorAssessmentsApi,
+    acknowledgeAssessmentRiskApi,
     type CreateIntakeRequestPayload,
     type CreateIntakeRequestResponseDto,
     type CreateIntakeAssessmentPayload,
@@ -10,7 +11,10 @@ import {
     type GetStudentAssessmentsResponseDto,
     type IntakeAssessmentDto,
     type CounselorAssessmentRecordDto,
+    type AcknowledgeAssessmentRiskPayload,
+    type RiskFollowUpActionApi,
 } from "@/api/intake/route";
+import { scorePhq9 } from "@/lib/phq9";
 
 /**
  * Payload for the main counseling request (Step 4 – concern & schedule).
@@ -38,6 +42,21 @@ export type GetStudentAssessmentsResult = GetStudentAssessmentsResponseDto;
  */
 export type CounselorAssessmentRecord = CounselorAssessmentRecordDto;
 
+export type RiskFollowUpAction = RiskFollowUpActionApi;
+export type RiskAcknowledgmentPayload = AcknowledgeAssessmentRiskPayload;
+
+/**
+ * Follow-up options offered when a counselor acknowledges a self-harm flag.
+ */
+export const RISK_FOLLOW_UP_ACTION_LABELS: Record<RiskFollowUpAction, string> = {
+    contacted_student: "Contacted the student directly",
+    urgent_session_scheduled: "Scheduled an urgent counseling session",
+    guardian_notified: "Notified parent / guardian",
+    referred_external: "Referred to external mental health services",
+    emergency_services: "Contacted emergency services / campus security",
+    other: "Other (see notes)",
+};
+
 /**
  * High-level helper used by the React intake page to submit the main
  * counseling request (Step 4).
@@ -73,3 +92,30 @@ export async function fetchCounselorAssessments(): Promise<CounselorAssessmentRe
     const res = await getCounselorAssessmentsApi();
     return res.assessments ?? [];
 }
+
+/**
+ * ✅ High risk = flagged by the backend, or item 9 (self-harm) answered anything
+ * other than "Not at all" (covers records saved before the backend flagged them).
+ */
+export function isHighRiskAssessment(assessment: IntakeAssessmentDto): boolean {
+    return assessment.high_risk === true || scorePhq9(assessment).selfHarmFlag;
+}
+
+/**
+ * High-risk assessment with no documented counselor follow-up yet.
+ */
+export function needsRiskAcknowledgment(assessment: IntakeAssessmentDto): boolean {
+    return isHighRiskAssessment(assessment) && !assessment.risk_acknowledged_at;
+}
+
+/**
+ * ✅ Counselor: acknowledge a self-harm flag with the follow-up taken.
+ * Returns the updated assessment.
+ */
+export async function acknowledgeAssessmentRisk(
+    id: number | string,
+    payload: RiskAcknowledgmentPayload,
+): Promise<CounselorAssessmentRecordDto> {
+    const res = await acknowledgeAssessmentRiskApi(id, payload);
+    return res.assessment;
+}
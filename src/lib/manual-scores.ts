@@ -5,6 +5,7 @@ import {
     getCounselorManualScoresApi,
     saveManualScoreApi,
     getStudentUsersApi,
+    caseLoadStudentSchema,
     type CaseLoadStudentDto,
     type ManualAssessmentScoreDto,
     type SaveManualScorePayload,
@@ -12,6 +13,7 @@ import {
 } from "@/api/manual-scores/route"
 
 import { AUTH_API_BASE_URL } from "@/api/auth/route"
+import { parseDto } from "@/api/schema"
 
 export type CaseLoadStudent = CaseLoadStudentDto
 export type ManualScoreRecord = ManualAssessmentScoreDto
@@ -62,44 +64,18 @@ function resolveAbsoluteUrl(raw: unknown): string | null {
     return `${origin}/${p}`
 }
 
-function normalizeStudent(raw: CaseLoadStudentDto): CaseLoadStudentDto {
-    const anyR = raw as any
-
-    const computedName =
-        raw?.name ??
-        anyR?.full_name ??
-        anyR?.fullName ??
-        anyR?.student_name ??
-        anyR?.studentName ??
-        anyR?.user?.name ??
-        anyR?.student?.name ??
-        (anyR?.first_name || anyR?.last_name
-            ? `${anyR?.first_name ?? ""} ${anyR?.last_name ?? ""}`.trim()
-            : null)
-
-    const computedAvatar =
-        resolveAbsoluteUrl(
-            raw?.avatar_url ??
-            anyR?.avatarUrl ??
-            anyR?.profile_photo_url ??
-            anyR?.user?.avatar_url ??
-            anyR?.user?.avatarUrl ??
-            null,
-        ) ?? null
+function normalizeStudent(raw: unknown, idx: number): CaseLoadStudentDto {
+    const student = parseDto(caseLoadStudentSchema, raw, `students[${idx}]`)
 
     return {
-        ...raw,
-        name: computedName != null && String(computedName).trim() ? String(computedName).trim() : raw?.name ?? null,
-        avatar_url: computedAvatar ?? raw?.avatar_url ?? null,
-        email: raw?.email ?? anyR?.user?.email ?? null,
-        student_id: raw?.student_id ?? anyR?.student_id ?? anyR?.studentId ?? anyR?.user?.student_id ?? null,
-        program: raw?.program ?? anyR?.program ?? anyR?.course ?? anyR?.user?.program ?? null,
-        year_level: raw?.year_level ?? anyR?.year_level ?? anyR?.yearLevel ?? anyR?.user?.year_level ?? null,
+        ...student,
+        name: student.name?.trim() || null,
+        avatar_url: resolveAbsoluteUrl(student.avatar_url) ?? null,
     }
 }
 
-function extractStudentsFromAny(json: any): CaseLoadStudentDto[] {
-    const arr = __internal_extractArray<CaseLoadStudentDto>(json)
+function extractStudentsFromAny(json: any): unknown[] {
+    const arr = __internal_extractArray(json)
     return Array.isArray(arr) ? arr : []
 }
 
@@ -118,13 +94,19 @@ export async function fetchCounselorCaseLoad(): Promise<CaseLoadStudentDto[]> {
  * Behavior:
  * 1) Try counselor case-load first (if endpoint exists and has assigned students)
  * 2) If empty or endpoint missing, fall back to general student directory endpoints (/students, /users?role=student, etc.)
+ *
+ * `directoryWhenEmpty: false` keeps an empty case load empty (the case-load page, where
+ * closing the last case must not show the whole directory); a missing endpoint still falls back.
  */
-export async function fetchStudentsForManualScores(): Promise<CaseLoadStudentDto[]> {
+export async function fetchStudentsForManualScores(
+    options: { directoryWhenEmpty?: boolean } = {},
+): Promise<CaseLoadStudentDto[]> {
+    const { directoryWhenEmpty = true } = options
     let firstErr: any = null
 
     try {
         const list = await fetchCounselorCaseLoad()
-        if (Array.isArray(list) && list.length > 0) return list
+        if (Array.isArray(list) && (list.length > 0 || !directoryWhenEmpty)) return list
     } catch (e: any) {
         firstErr = e
     }
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import type { MessageAttachmentDto } from "@/api/messages/route";
+import {
+    MESSAGE_ATTACHMENT_MAX_BYTES,
+    formatFileSize,
+    isAttachmentAvailable,
+    isWithinEditWindow,
+    messagePreviewText,
+    validateMessageAttachments,
+} from "@/lib/messages";
+
+function file(name: string, type: string, size = 1024): File {
+    const f = new File(["x"], name, { type });
+    Object.defineProperty(f, "size", { value: size });
+    return f;
+}
+
+function attachment(overrides: Partial<MessageAttachmentDto> = {}): MessageAttachmentDto {
+    return {
+        id: 5,
+        message_id: 31,
+        file_name: "plan.pdf",
+        mime_type: "application/pdf",
+        size: 2048,
+        scan_status: "clean",
+        url: "http://files.test/5",
+        url_expires_at: null,
+        created_at: "2026-10-19T08:00:00Z",
+        ...overrides,
+    };
+}
+
+describe("validateMessageAttachments", () => {
+    it("accepts images and PDFs within the limits", () => {
+        expect(validateMessageAttachments([file("a.png", "image/png"), file("b.pdf", "application/pdf")])).toBeNull();
+        expect(validateMessageAttachments([file("big.jpg", "image/jpeg", MESSAGE_ATTACHMENT_MAX_BYTES)])).toBeNull();
+    });
+
+    it("counts files already picked for the message", () => {
+        const files = [file("a.png", "image/png"), file("b.png", "image/png")];
+
+        expect(validateMessageAttachments(files, 3)).toBeNull();
+        expect(validateMessageAttachments(files, 4)).toBe("You can attach up to 5 files per message.");
+    });
+
+    it("names the first file with the wrong type or size", () => {
+        expect(validateMessageAttachments([file("a.png", "image/png"), file("notes.docx", "application/msword")])).toBe(
+            '"notes.docx" is not supported. Attach images (JPG, PNG, GIF, WebP) or PDFs.',
+        );
+        expect(validateMessageAttachments([file("scan.pdf", "application/pdf", MESSAGE_ATTACHMENT_MAX_BYTES + 1)])).toBe(
+            '"scan.pdf" is larger than 10 MB.',
+        );
+    });
+});
+
+describe("attachment display", () => {
+    it("formats sizes", () => {
+        expect(formatFileSize(512)).toBe("512 B");
+        expect(formatFileSize(2048)).toBe("2 KB");
+        expect(formatFileSize(1.5 * 1024 * 1024)).toBe("1.5 MB");
+    });
+
+    it("only offers clean files with a URL", () => {
+        expect(isAttachmentAvailable(attachment())).toBe(true);
+        expect(isAttachmentAvailable(attachment({ scan_status: "pending" }))).toBe(false);
+        expect(isAttachmentAvailable(attachment({ url: null }))).toBe(false);
+    });
+
+    it("previews file-only messages by their files", () => {
+        expect(messagePreviewText({ content: " Hi ", attachments: [attachment()] })).toBe("Hi");
+        expect(messagePreviewText({ content: "", attachments: [attachment()] })).toBe("📎 plan.pdf");
+        expect(messagePreviewText({ content: null, attachments: [attachment(), attachment()] })).toBe("📎 2 attachments");
+    });
+});
+
+describe("isWithinEditWindow", () => {
+    const sent = "2026-10-19T08:00:00Z";
+    const minutesLater = (minutes: number) => Date.parse(sent) + minutes * 60_000;
+
+    it("allows edits for 15 minutes after sending", () => {
+        expect(isWithinEditWindow(sent, minutesLater(0))).toBe(true);
+        expect(isWithinEditWindow(sent, minutesLater(15))).toBe(true);
+        expect(isWithinEditWindow(sent, minutesLater(15) + 1)).toBe(false);
+    });
+
+    it("refuses messages without a readable send time", () => {
+        expect(isWithinEditWindow("", minutesLater(0))).toBe(false);
+        expect(isWithinEditWindow("yesterday", minutesLater(0))).toBe(false);
+    });
+});
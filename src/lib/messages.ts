@@ -2,21 +2,52 @@
 import {
     // Student/Guest APIs
     getStudentMessagesApi,
+    getStudentConversationsApi,
+    getStudentConversationMessagesApi,
     createStudentMessageApi,
     markStudentMessagesReadApi,
 
     // Counselor APIs
     getCounselorMessagesApi,
+    getCounselorConversationsApi,
+    getCounselorConversationMessagesApi,
+    searchCounselorMessagesApi,
     createCounselorMessageApi,
     markCounselorMessagesReadApi,
 
     // Referral User APIs
     getReferralUserMessagesApi,
+    getReferralUserConversationsApi,
+    getReferralUserConversationMessagesApi,
     createReferralUserMessageApi,
     markReferralUserMessagesReadApi,
 
+    // Attachments
+    getMessageAttachmentApi,
+    parseMessageAttachments,
+
+    // Edit & delete
+    updateMessageApi,
+    deleteMessageApi,
+    type MessageDeleteScopeApi,
+    type UpdateMessageResponseDto,
+    type DeleteMessageResponseDto,
+
+    // Push events
+    parseMessage,
+    type MessageSentEventDto,
+    type MessageUpdatedEventDto,
+    type MessagesReadEventDto,
+
     // Types
     type MessageDto,
+    type MessageConversationDto,
+    type MessageSearchHitDto,
+    type MessageSearchQuery,
+    type SearchMessagesResponseDto,
+    type GetConversationMessagesResponseDto,
+    type MessageAttachmentDto,
+    type MessageAttachmentScanStatusApi,
     type GetStudentMessagesResponseDto,
     type CreateStudentMessagePayload,
     type CreateStudentMessageResponseDto,
@@ -37,15 +68,22 @@ import {
     updateAdminMessageApi,
     deleteAdminMessageApi,
     createAdminMessageApi,
+    searchAdminMessagesApi,
+    getMessageRevisionsApi,
+    type AdminMessageSearchQuery,
     type CreateAdminMessagePayload,
     type CreateAdminMessageResponseDto,
 
     type AdminConversationDto,
     type AdminMessageDto,
+    type DeleteAdminMessageResponseDto,
+    type MessageRevisionDto,
     type GetAdminConversationsResponseDto,
     type GetAdminConversationMessagesResponseDto,
+    type SearchAdminMessagesResponseDto,
     type UpdateAdminMessageResponseDto,
 } from "@/api/admin/messages/route";
+import { subscribeToRealtimeEvent } from "@/lib/realtime";
 
 export type StudentMessage = MessageDto;
 export type CounselorMessage = MessageDto;
@@ -59,6 +97,265 @@ export type SendStudentMessagePayload = CreateStudentMessagePayload;
 export type SendCounselorMessagePayload = CreateCounselorMessagePayload;
 export type SendReferralUserMessagePayload = CreateReferralUserMessagePayload;
 
+export type MessagesReadEvent = MessagesReadEventDto;
+export type MessageConversation = MessageConversationDto;
+export type ConversationMessagesPage = GetConversationMessagesResponseDto;
+export type MessageAttachment = MessageAttachmentDto;
+export type MessageAttachmentScanStatus = MessageAttachmentScanStatusApi;
+
+/* ---------------------------------------
+ * ✅ Attachments
+ * --------------------------------------*/
+
+/** Same limits the backend validates (`attachments.*` rules). */
+export const MESSAGE_ATTACHMENT_MAX_FILES = 5;
+export const MESSAGE_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Allowed MIME types → short label */
+export const MESSAGE_ATTACHMENT_TYPES: Record<string, string> = {
+    "image/jpeg": "JPG",
+    "image/png": "PNG",
+    "image/gif": "GIF",
+    "image/webp": "WebP",
+    "application/pdf": "PDF",
+};
+
+/** `accept` attribute for the file picker */
+export const MESSAGE_ATTACHMENT_ACCEPT = Object.keys(MESSAGE_ATTACHMENT_TYPES).join(",");
+
+export function formatFileSize(bytes: number): string {
+    if (!Number.isFinite(bytes) || bytes < 1024) return `${Math.max(0, Math.round(bytes || 0))} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, "")} MB`;
+}
+
+/**
+ * ✅ Check files before upload (count, size, type). Returns the first problem, or null.
+ * `alreadySelected` counts files picked earlier for the same message.
+ */
+export function validateMessageAttachments(files: File[], alreadySelected = 0): string | null {
+    if (alreadySelected + files.length > MESSAGE_ATTACHMENT_MAX_FILES) {
+        return `You can attach up to ${MESSAGE_ATTACHMENT_MAX_FILES} files per message.`;
+    }
+
+    for (const file of files) {
+        if (!MESSAGE_ATTACHMENT_TYPES[file.type]) {
+            return `"${file.name}" is not supported. Attach images (JPG, PNG, GIF, WebP) or PDFs.`;
+        }
+        if (file.size > MESSAGE_ATTACHMENT_MAX_BYTES) {
+            return `"${file.name}" is larger than ${formatFileSize(MESSAGE_ATTACHMENT_MAX_BYTES)}.`;
+        }
+    }
+
+    return null;
+}
+
+export function isImageAttachment(attachment: Pick<MessageAttachment, "mime_type">): boolean {
+    return attachment.mime_type.startsWith("image/");
+}
+
+/** Only clean files with a (signed) URL can be previewed or downloaded. */
+export function isAttachmentAvailable(attachment: MessageAttachment): boolean {
+    return attachment.scan_status === "clean" && !!attachment.url;
+}
+
+/** Attachments of a raw message record (pages that read `/messages` without the schema). */
+export function messageAttachmentsOf(raw: any): MessageAttachment[] {
+    return parseMessageAttachments(raw?.attachments ?? raw?.files);
+}
+
+/** Conversation list preview: the text, or the file names of a file-only message. */
+export function messagePreviewText(message: {
+    content?: string | null;
+    attachments?: MessageAttachment[] | null;
+    /** Deleted for everyone */
+    deletedAt?: string | null;
+}): string {
+    if (message.deletedAt) return DELETED_MESSAGE_TEXT;
+
+    const text = (message.content ?? "").trim();
+    const files = message.attachments ?? [];
+    if (text || files.length === 0) return text;
+    return files.length === 1 ? `📎 ${files[0].file_name}` : `📎 ${files.length} attachments`;
+}
+
+/**
+ * ✅ Re-read one attachment (scan status, fresh signed URL). Conversation participants only.
+ */
+export async function fetchMessageAttachment(id: number | string): Promise<MessageAttachment> {
+    const res = await getMessageAttachmentApi(id);
+    return res.attachment;
+}
+
+/* ---------------------------------------
+ * ✅ Conversations & paginated history
+ * --------------------------------------*/
+
+/** Messages per history page (the chat pane loads older pages on scroll). */
+export const MESSAGE_HISTORY_PAGE_SIZE = 30;
+
+function markReadPayload(
+    messageIds?: Array<number | string>,
+    peerId?: number | string | null,
+): MarkMessagesReadPayload | undefined {
+    const payload: MarkMessagesReadPayload = {};
+    if (messageIds && messageIds.length > 0) payload.message_ids = messageIds;
+    if (peerId != null && String(peerId).trim()) payload.peer_id = peerId;
+    return Object.keys(payload).length > 0 ? payload : undefined;
+}
+
+export async function fetchStudentConversations(): Promise<MessageConversation[]> {
+    const res = await getStudentConversationsApi();
+    return res.conversations;
+}
+
+export async function fetchStudentConversationMessages(
+    peerId: number | string,
+    cursor?: string | null,
+): Promise<ConversationMessagesPage> {
+    return getStudentConversationMessagesApi(peerId, { cursor, per_page: MESSAGE_HISTORY_PAGE_SIZE });
+}
+
+export async function fetchCounselorConversations(): Promise<MessageConversation[]> {
+    const res = await getCounselorConversationsApi();
+    return res.conversations;
+}
+
+export async function fetchCounselorConversationMessages(
+    peerId: number | string,
+    cursor?: string | null,
+): Promise<ConversationMessagesPage> {
+    return getCounselorConversationMessagesApi(peerId, { cursor, per_page: MESSAGE_HISTORY_PAGE_SIZE });
+}
+
+export async function fetchReferralUserConversations(): Promise<MessageConversation[]> {
+    const res = await getReferralUserConversationsApi();
+    return res.conversations;
+}
+
+export async function fetchReferralUserConversationMessages(
+    peerId: number | string,
+    cursor?: string | null,
+): Promise<ConversationMessagesPage> {
+    return getReferralUserConversationMessagesApi(peerId, { cursor, per_page: MESSAGE_HISTORY_PAGE_SIZE });
+}
+
+/* ---------------------------------------
+ * ✅ Edit & delete
+ * --------------------------------------*/
+
+export type MessageDeleteScope = MessageDeleteScopeApi;
+
+/** Senders can edit, or delete for everyone, this long after sending (the backend enforces it too). */
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+/** Shown in place of a message deleted for everyone. */
+export const DELETED_MESSAGE_TEXT = "This message was deleted.";
+
+/** Still inside the edit window. */
+export function isWithinEditWindow(createdAt: string, now = Date.now()): boolean {
+    const sent = Date.parse(createdAt);
+    return Number.isFinite(sent) && now - sent <= MESSAGE_EDIT_WINDOW_MINUTES * 60_000;
+}
+
+export async function editMessage(id: number | string, content: string): Promise<UpdateMessageResponseDto> {
+    return updateMessageApi(id, { content });
+}
+
+export async function deleteMessage(id: number | string, scope: MessageDeleteScope): Promise<DeleteMessageResponseDto> {
+    return deleteMessageApi(id, scope);
+}
+
+/* ---------------------------------------
+ * ✅ Full-text search
+ * --------------------------------------*/
+
+export type MessageSearchFilters = MessageSearchQuery;
+export type MessageSearchHit = MessageSearchHitDto;
+export type AdminMessageSearchFilters = AdminMessageSearchQuery;
+
+/** Shorter queries are not sent (they match nearly everything). */
+export const MESSAGE_SEARCH_MIN_LENGTH = 2;
+export const MESSAGE_SEARCH_PAGE_SIZE = 20;
+
+/** Lower-cased, de-duplicated words of a search query. */
+export function messageSearchTerms(query: string): string[] {
+    return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+/** Every term occurs in `text` (case-insensitive), like the backend's `LIKE %term%` per word. */
+export function messageMatchesSearch(text: string, terms: string[]): boolean {
+    const haystack = text.toLowerCase();
+    return terms.length > 0 && terms.every((term) => haystack.includes(term));
+}
+
+/** Split `text` into matched / unmatched runs so the matches can be highlighted. */
+export function splitSearchMatches(text: string, terms: string[]): Array<{ text: string; match: boolean }> {
+    if (terms.length === 0 || !text) return [{ text, match: false }];
+
+    const escaped = [...terms].sort((a, b) => b.length - a.length).map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+
+    return text
+        .split(pattern)
+        .filter((part) => part !== "")
+        .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/** The part of a long message around its first match (with ellipses). */
+export function messageSearchSnippet(text: string, terms: string[], radius = 80): string {
+    const flat = text.replace(/\s+/g, " ").trim();
+    if (flat.length <= radius * 2) return flat;
+
+    const lower = flat.toLowerCase();
+    const hits = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+    const at = hits.length > 0 ? Math.min(...hits) : 0;
+
+    const start = Math.max(0, at - radius);
+    const end = Math.min(flat.length, start + radius * 2);
+    return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+export async function searchCounselorMessages(filters: MessageSearchFilters): Promise<SearchMessagesResponseDto> {
+    return searchCounselorMessagesApi({ per_page: MESSAGE_SEARCH_PAGE_SIZE, ...filters });
+}
+
+export async function searchAdminMessages(filters: AdminMessageSearchFilters): Promise<SearchAdminMessagesResponseDto> {
+    return searchAdminMessagesApi({ per_page: MESSAGE_SEARCH_PAGE_SIZE, ...filters });
+}
+
+export const MESSAGE_SENT_EVENT = "message.sent";
+export const MESSAGE_UPDATED_EVENT = "message.updated";
+export const MESSAGES_READ_EVENT = "messages.read";
+
+/**
+ * ✅ New messages pushed over the user channel (sent by or to the signed-in user).
+ * Returns a function that stops listening.
+ */
+export function subscribeToIncomingMessages(handler: (message: MessageDto) => void): () => void {
+    return subscribeToRealtimeEvent<MessageSentEventDto>(MESSAGE_SENT_EVENT, (event) => {
+        if (event?.message) handler(parseMessage(event.message));
+    });
+}
+
+/**
+ * ✅ Edits and deletes-for-everyone in the signed-in user's conversations.
+ */
+export function subscribeToMessageUpdates(handler: (message: MessageDto) => void): () => void {
+    return subscribeToRealtimeEvent<MessageUpdatedEventDto>(MESSAGE_UPDATED_EVENT, (event) => {
+        if (event?.message) handler(parseMessage(event.message));
+    });
+}
+
+/**
+ * ✅ Read receipts for messages the signed-in user sent.
+ */
+export function subscribeToReadReceipts(handler: (event: MessagesReadEvent) => void): () => void {
+    return subscribeToRealtimeEvent<MessagesReadEventDto>(MESSAGES_READ_EVENT, (event) => {
+        if (Array.isArray(event?.message_ids)) handler(event);
+    });
+}
+
 export async function fetchStudentMessages(): Promise<GetStudentMessagesResponseDto> {
     return getStudentMessagesApi();
 }
@@ -70,13 +367,14 @@ export async function sendStudentMessage(
     return createStudentMessageApi(payload);
 }
 
+/**
+ * ✅ Mark messages read: the given ids, every unread message from `peerId`, or (neither) the whole inbox.
+ */
 export async function markStudentMessagesAsRead(
     messageIds?: Array<number | string>,
+    peerId?: number | string | null,
 ): Promise<MarkMessagesReadResponseDto> {
-    const payload: MarkMessagesReadPayload | undefined =
-        messageIds && messageIds.length > 0 ? { message_ids: messageIds } : undefined;
-
-    return markStudentMessagesReadApi(payload);
+    return markStudentMessagesReadApi(markReadPayload(messageIds, peerId));
 }
 
 export async function fetchCounselorMessages(): Promise<GetCounselorMessagesResponseDto> {
@@ -90,13 +388,14 @@ export async function sendCounselorMessage(
     return createCounselorMessageApi(payload);
 }
 
+/**
+ * ✅ Mark messages read: the given ids, every unread message from `peerId`, or (neither) the whole inbox.
+ */
 export async function markCounselorMessagesAsRead(
     messageIds?: Array<number | string>,
+    peerId?: number | string | null,
 ): Promise<MarkMessagesReadResponseDto> {
-    const payload: MarkMessagesReadPayload | undefined =
-        messageIds && messageIds.length > 0 ? { message_ids: messageIds } : undefined;
-
-    return markCounselorMessagesReadApi(payload);
+    return markCounselorMessagesReadApi(markReadPayload(messageIds, peerId));
 }
 
 /**
@@ -116,13 +415,14 @@ export async function sendReferralUserMessage(
     return createReferralUserMessageApi(payload);
 }
 
+/**
+ * ✅ Mark messages read: the given ids, every unread message from `peerId`, or (neither) the whole inbox.
+ */
 export async function markReferralUserMessagesAsRead(
     messageIds?: Array<number | string>,
+    peerId?: number | string | null,
 ): Promise<MarkMessagesReadResponseDto> {
-    const payload: MarkMessagesReadPayload | undefined =
-        messageIds && messageIds.length > 0 ? { message_ids: messageIds } : undefined;
-
-    return markReferralUserMessagesReadApi(payload);
+    return markReferralUserMessagesReadApi(markReadPayload(messageIds, peerId));
 }
 
 /* ---------------------------------------
@@ -131,6 +431,7 @@ export async function markReferralUserMessagesAsRead(
 
 export type AdminMessage = AdminMessageDto;
 export type AdminConversationSummary = AdminConversationDto;
+export type MessageRevision = MessageRevisionDto;
 
 export async function fetchAdminMessageConversations(args?: {
     page?: number;
@@ -161,17 +462,23 @@ export async function updateAdminMessage(
     return updateAdminMessageApi(id, { content });
 }
 
-export async function deleteAdminMessage(
-    id: number | string,
-): Promise<{ message?: string; id: number | string;[key: string]: unknown }> {
+export async function deleteAdminMessage(id: number | string): Promise<DeleteAdminMessageResponseDto> {
     return deleteAdminMessageApi(id);
 }
 
+/**
+ * ✅ Revision log of one message (oldest first). Admins only.
+ */
+export async function fetchMessageRevisions(id: number | string): Promise<MessageRevision[]> {
+    const res = await getMessageRevisionsApi(id);
+    return res.revisions;
+}
+
 export type SendAdminMessagePayload = CreateAdminMessagePayload;
 
 export async function sendAdminMessage(
     input: string | SendAdminMessagePayload,
 ): Promise<CreateAdminMessageResponseDto> {
-    const payload: CreateAdminMessagePayload = typeof input === "string" ? ({ content: input } as any) : input;
+    const payload: CreateAdminMessagePayload = typeof input === "string" ? { content: input } : input;
     return createAdminMessageApi(payload);
 }
@@ -1,5 +1,20 @@
-import { getNotificationCountsApi, type NotificationCountsResponseDto } from "@/api/notifications/route";
+import {
+    getNotificationCountsApi,
+    type NotificationCountsDto,
+    type NotificationCountsEventDto,
+    type NotificationCountsResponseDto,
+} from "@/api/notifications/route";
+import { subscribeToRealtimeEvent } from "@/lib/realtime";
+
+export const NOTIFICATION_COUNTS_EVENT = "notification.counts";
 
 export async function fetchNotificationCounts(): Promise<NotificationCountsResponseDto> {
     return getNotificationCountsApi();
 }
+
+/** Badge counts pushed by the backend whenever one changes. */
+export function subscribeToNotificationCounts(handler: (counts: NotificationCountsDto) => void): () => void {
+    return subscribeToRealtimeEvent<NotificationCountsEventDto>(NOTIFICATION_COUNTS_EVENT, (event) => {
+        if (event?.counts) handler(event.counts);
+    });
+}
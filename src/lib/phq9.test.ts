@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import type { MentalFrequencyApi } from "@/api/intake/route";
+import {
+    PHQ9_INCOMPLETE,
+    PHQ9_ITEM_KEYS,
+    formatPhq9Frequency,
+    phq9Points,
+    phq9SeverityForScore,
+    scorePhq9,
+    type Phq9ItemKey,
+} from "@/lib/phq9";
+
+/** Every item answered with `value`, then `overrides` applied. */
+function answers(
+    value: MentalFrequencyApi | null,
+    overrides: Partial<Record<Phq9ItemKey, MentalFrequencyApi | null>> = {},
+): Partial<Record<Phq9ItemKey, MentalFrequencyApi | null>> {
+    return { ...Object.fromEntries(PHQ9_ITEM_KEYS.map((key) => [key, value])), ...overrides };
+}
+
+describe("phq9Points / formatPhq9Frequency", () => {
+    it("maps each answer to 0–3 points", () => {
+        expect(phq9Points("not_at_all")).toBe(0);
+        expect(phq9Points("several_days")).toBe(1);
+        expect(phq9Points("more_than_half")).toBe(2);
+        expect(phq9Points("nearly_every_day")).toBe(3);
+    });
+
+    it("treats blank and unknown answers as unanswered", () => {
+        expect(phq9Points(null)).toBeNull();
+        expect(phq9Points("")).toBeNull();
+        expect(phq9Points("sometimes")).toBeNull();
+        expect(phq9Points(2)).toBeNull();
+    });
+
+    it("does not mistake inherited object keys for answers", () => {
+        expect(phq9Points("toString")).toBeNull();
+        expect(phq9Points("constructor")).toBeNull();
+        expect(formatPhq9Frequency("toString")).toBe("toString");
+        expect(scorePhq9(answers("not_at_all", { mh_sleep: "toString" as MentalFrequencyApi }))).toMatchObject({
+            score: 0,
+            answered: 8,
+            missing: ["mh_sleep"],
+        });
+    });
+
+    it("labels answers for display", () => {
+        expect(formatPhq9Frequency("more_than_half")).toBe("More than half the days");
+        expect(formatPhq9Frequency(null)).toBe("—");
+        expect(formatPhq9Frequency("sometimes")).toBe("sometimes");
+    });
+});
+
+describe("phq9SeverityForScore", () => {
+    it.each([
+        [0, "Minimal"],
+        [4, "Minimal"],
+        [5, "Mild"],
+        [9, "Mild"],
+        [10, "Moderate"],
+        [14, "Moderate"],
+        [15, "Moderately severe"],
+        [19, "Moderately severe"],
+        [20, "Severe"],
+        [27, "Severe"],
+    ])("scores %i as %s", (score, band) => {
+        expect(phq9SeverityForScore(score)).toBe(band);
+    });
+});
+
+describe("scorePhq9", () => {
+    it("sums a complete assessment", () => {
+        const result = scorePhq9(answers("several_days"));
+
+        expect(result.score).toBe(9);
+        expect(result.bandScore).toBe(9);
+        expect(result.answered).toBe(9);
+        expect(result.missing).toEqual([]);
+        expect(result.prorated).toBe(false);
+        expect(result.severity).toBe("Mild");
+    });
+
+    it("scores the extremes", () => {
+        expect(scorePhq9(answers("not_at_all"))).toMatchObject({ score: 0, severity: "Minimal", selfHarmFlag: false });
+        expect(scorePhq9(answers("nearly_every_day"))).toMatchObject({ score: 27, severity: "Severe", selfHarmFlag: true });
+    });
+
+    it("prorates the band score when one or two items are missing", () => {
+        const result = scorePhq9(answers("more_than_half", { mh_sleep: null, mh_motor: null }));
+
+        expect(result.score).toBe(14);
+        expect(result.bandScore).toBe(18);
+        expect(result.prorated).toBe(true);
+        expect(result.missing).toEqual(["mh_sleep", "mh_motor"]);
+        expect(result.severity).toBe("Moderately severe");
+        expect(result.notes.some((n) => n.includes("prorated score of 18"))).toBe(true);
+    });
+
+    it("gives no band when more than two items are missing", () => {
+        const result = scorePhq9(answers("nearly_every_day", { mh_sleep: null, mh_energy: null, mh_appetite: null }));
+
+        expect(result.score).toBe(18);
+        expect(result.bandScore).toBeNull();
+        expect(result.severity).toBe(PHQ9_INCOMPLETE);
+    });
+
+    it("scores an empty or missing assessment as incomplete", () => {
+        expect(scorePhq9(null)).toMatchObject({ score: 0, answered: 0, severity: PHQ9_INCOMPLETE });
+        expect(scorePhq9({})).toMatchObject({ score: 0, answered: 0, severity: PHQ9_INCOMPLETE });
+    });
+
+    it("flags any endorsement of item 9", () => {
+        const result = scorePhq9(answers("not_at_all", { mh_self_harm: "several_days" }));
+
+        expect(result.selfHarmFlag).toBe(true);
+        expect(result.selfHarmResponse).toBe("several_days");
+        expect(result.severity).toBe("Minimal");
+        expect(result.notes[0]).toContain("suicide risk assessment");
+    });
+
+    it("notes functional impairment and a major depressive pattern", () => {
+        const result = scorePhq9(
+            answers("not_at_all", {
+                mh_feeling_down: "nearly_every_day",
+                mh_sleep: "more_than_half",
+                mh_energy: "more_than_half",
+                mh_appetite: "more_than_half",
+                mh_concentration: "more_than_half",
+            }),
+        );
+
+        expect(result.notes).toContain(
+            "Functional impairment: sleep, energy, appetite and concentration affected more than half the days — ask about the impact on classes, work and daily routines.",
+        );
+        expect(result.notes.some((n) => n.includes("major depressive syndrome"))).toBe(true);
+    });
+
+    it("ignores answers that are not PHQ-9 options", () => {
+        const result = scorePhq9({ ...answers("several_days"), mh_sleep: "often" as MentalFrequencyApi });
+
+        expect(result.answered).toBe(8);
+        expect(result.missing).toEqual(["mh_sleep"]);
+        expect(result.items.find((i) => i.key === "mh_sleep")).toMatchObject({ response: null, points: null, responseLabel: "—" });
+    });
+});
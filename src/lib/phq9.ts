@@ -0,0 +1,240 @@
+import type { IntakeAssessmentDto, MentalFrequencyApi } from "@/api/intake/route";
+
+/**
+ * PHQ-9 scoring engine (intake Step 3 — mental health status).
+ *
+ * Every screen and PDF that shows a score, a severity band or an item answer
+ * goes through this module, so the same assessment always gets the same label.
+ */
+
+export const PHQ9_ITEM_KEYS = [
+    "mh_little_interest",
+    "mh_feeling_down",
+    "mh_sleep",
+    "mh_energy",
+    "mh_appetite",
+    "mh_self_esteem",
+    "mh_concentration",
+    "mh_motor",
+    "mh_self_harm",
+] as const;
+
+export type Phq9ItemKey = (typeof PHQ9_ITEM_KEYS)[number];
+
+export const PHQ9_ITEM_LABELS: Record<Phq9ItemKey, string> = {
+    mh_little_interest: "Little interest or pleasure in doing things",
+    mh_feeling_down: "Feeling down, depressed, or hopeless",
+    mh_sleep: "Trouble falling/staying asleep, or sleeping too much",
+    mh_energy: "Feeling tired or having little energy",
+    mh_appetite: "Poor appetite or overeating",
+    mh_self_esteem:
+        "Feeling bad about yourself — or that you are a failure or have let yourself or your family down",
+    mh_concentration: "Trouble concentrating on things (e.g., reading or watching television)",
+    mh_motor: "Moving/speaking slowly, or the opposite — fidgety/restless",
+    mh_self_harm: "Thoughts that you would be better off dead or of hurting yourself",
+};
+
+/** Answer options in questionnaire order. */
+export const PHQ9_FREQUENCY_VALUES: MentalFrequencyApi[] = [
+    "not_at_all",
+    "several_days",
+    "more_than_half",
+    "nearly_every_day",
+];
+
+export const PHQ9_FREQUENCY_LABELS: Record<MentalFrequencyApi, string> = {
+    not_at_all: "Not at all",
+    several_days: "Several days",
+    more_than_half: "More than half the days",
+    nearly_every_day: "Nearly every day",
+};
+
+export const PHQ9_FREQUENCY_POINTS: Record<MentalFrequencyApi, number> = {
+    not_at_all: 0,
+    several_days: 1,
+    more_than_half: 2,
+    nearly_every_day: 3,
+};
+
+export const PHQ9_MAX_SCORE = 27;
+
+export const PHQ9_SEVERITY_BANDS = ["Minimal", "Mild", "Moderate", "Moderately severe", "Severe"] as const;
+
+export type Phq9Severity = (typeof PHQ9_SEVERITY_BANDS)[number];
+
+/** Shown instead of a band when too many items are unanswered to score reliably. */
+export const PHQ9_INCOMPLETE = "Incomplete" as const;
+
+export type Phq9SeverityLabel = Phq9Severity | typeof PHQ9_INCOMPLETE;
+
+/**
+ * More than this many unanswered items → no severity band.
+ * With 1–2 missing items the total is prorated (mean item score × 9).
+ */
+export const PHQ9_MAX_MISSING_ITEMS = 2;
+
+/**
+ * Smallest change in total score between two administrations that exceeds
+ * measurement error (reliable change index, 95% confidence).
+ */
+export const PHQ9_RELIABLE_CHANGE = 6;
+
+/** Items that describe day-to-day functioning (somatic / cognitive symptoms). */
+const FUNCTIONAL_ITEMS: Phq9ItemKey[] = ["mh_sleep", "mh_energy", "mh_appetite", "mh_concentration", "mh_motor"];
+
+const FUNCTIONAL_ITEM_NAMES: Record<Phq9ItemKey, string> = {
+    mh_little_interest: "interest",
+    mh_feeling_down: "mood",
+    mh_sleep: "sleep",
+    mh_energy: "energy",
+    mh_appetite: "appetite",
+    mh_self_esteem: "self-esteem",
+    mh_concentration: "concentration",
+    mh_motor: "psychomotor activity",
+    mh_self_harm: "self-harm thoughts",
+};
+
+export interface Phq9ItemResult {
+    key: Phq9ItemKey;
+    label: string;
+    response: MentalFrequencyApi | null;
+    /** "—" when unanswered */
+    responseLabel: string;
+    points: number | null;
+}
+
+export interface Phq9Result {
+    /** Sum of the answered items (0–27). */
+    score: number;
+    /** Score used for the band: `score`, prorated when 1–2 items are missing, null when incomplete. */
+    bandScore: number | null;
+    answered: number;
+    missing: Phq9ItemKey[];
+    /** True when at least one item was missing and the band score was prorated. */
+    prorated: boolean;
+    severity: Phq9SeverityLabel;
+    /** Item 9 endorsed at all ("Several days" or more). */
+    selfHarmFlag: boolean;
+    selfHarmResponse: MentalFrequencyApi | null;
+    items: Phq9ItemResult[];
+    /** Plain-language interpretation notes (functional impairment, item 9, missing items). */
+    notes: string[];
+}
+
+function isFrequency(value: unknown): value is MentalFrequencyApi {
+    return typeof value === "string" && Object.hasOwn(PHQ9_FREQUENCY_POINTS, value);
+}
+
+/**
+ * Points for one answer, or null when unanswered / not a PHQ-9 option.
+ */
+export function phq9Points(value: unknown): number | null {
+    return isFrequency(value) ? PHQ9_FREQUENCY_POINTS[value] : null;
+}
+
+/**
+ * Display label for one answer ("—" when unanswered).
+ */
+export function formatPhq9Frequency(value: unknown): string {
+    if (value == null || value === "") return "—";
+    return isFrequency(value) ? PHQ9_FREQUENCY_LABELS[value] : String(value);
+}
+
+/**
+ * Standard PHQ-9 cut-offs: 0–4, 5–9, 10–14, 15–19, 20–27.
+ */
+export function phq9SeverityForScore(score: number): Phq9Severity {
+    if (score <= 4) return "Minimal";
+    if (score <= 9) return "Mild";
+    if (score <= 14) return "Moderate";
+    if (score <= 19) return "Moderately severe";
+    return "Severe";
+}
+
+function joinNames(names: string[]): string {
+    if (names.length <= 1) return names.join("");
+    return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+function buildNotes(result: Omit<Phq9Result, "notes">): string[] {
+    const notes: string[] = [];
+    const pointsOf = (key: Phq9ItemKey) => result.items.find((i) => i.key === key)?.points ?? 0;
+
+    if (result.selfHarmFlag) {
+        notes.push(
+            `Item 9 (self-harm thoughts) answered "${formatPhq9Frequency(result.selfHarmResponse)}" — complete a suicide risk assessment before closing the review.`,
+        );
+    }
+
+    const functional = FUNCTIONAL_ITEMS.filter((key) => pointsOf(key) >= 2).map((key) => FUNCTIONAL_ITEM_NAMES[key]);
+    if (functional.length > 0) {
+        notes.push(
+            `Functional impairment: ${joinNames(functional)} affected more than half the days — ask about the impact on classes, work and daily routines.`,
+        );
+    }
+
+    // DSM-based provisional pattern: ≥5 items (or 2–4) at "more than half the days", one of them mood or anhedonia.
+    // Item 9 counts whenever it is endorsed at all.
+    const elevated = result.items.filter((i) => (i.key === "mh_self_harm" ? (i.points ?? 0) >= 1 : (i.points ?? 0) >= 2));
+    const hasCoreSymptom = pointsOf("mh_little_interest") >= 2 || pointsOf("mh_feeling_down") >= 2;
+
+    if (hasCoreSymptom && elevated.length >= 5) {
+        notes.push("Symptom pattern is consistent with a major depressive syndrome — confirm with a clinical interview.");
+    } else if (hasCoreSymptom && elevated.length >= 2) {
+        notes.push("Symptom pattern is consistent with another depressive syndrome — confirm with a clinical interview.");
+    }
+
+    if (result.missing.length > PHQ9_MAX_MISSING_ITEMS) {
+        notes.push(
+            `${result.missing.length} of 9 items unanswered — too incomplete for a severity band; re-administer the questionnaire.`,
+        );
+    } else if (result.prorated) {
+        notes.push(
+            `${result.missing.length} item(s) unanswered — severity uses a prorated score of ${result.bandScore} (raw ${result.score}).`,
+        );
+    }
+
+    return notes;
+}
+
+/**
+ * Score one intake assessment.
+ */
+export function scorePhq9(assessment: Partial<IntakeAssessmentDto> | null | undefined): Phq9Result {
+    const items: Phq9ItemResult[] = PHQ9_ITEM_KEYS.map((key) => {
+        const raw = assessment?.[key];
+        const response = isFrequency(raw) ? raw : null;
+        return {
+            key,
+            label: PHQ9_ITEM_LABELS[key],
+            response,
+            responseLabel: formatPhq9Frequency(response),
+            points: phq9Points(response),
+        };
+    });
+
+    const answeredItems = items.filter((i) => i.points != null);
+    const answered = answeredItems.length;
+    const score = answeredItems.reduce((sum, i) => sum + (i.points ?? 0), 0);
+    const missing = items.filter((i) => i.points == null).map((i) => i.key);
+
+    let bandScore: number | null = null;
+    if (missing.length === 0) bandScore = score;
+    else if (missing.length <= PHQ9_MAX_MISSING_ITEMS) bandScore = Math.round((score / answered) * PHQ9_ITEM_KEYS.length);
+
+    const selfHarmResponse = items[items.length - 1].response;
+
+    const result = {
+        score,
+        bandScore,
+        answered,
+        missing,
+        prorated: bandScore != null && missing.length > 0,
+        severity: bandScore == null ? PHQ9_INCOMPLETE : phq9SeverityForScore(bandScore),
+        selfHarmFlag: (phq9Points(selfHarmResponse) ?? 0) > 0,
+        selfHarmResponse,
+        items,
+    };
+
+    return { ...result, notes: buildNotes(result) };
+}
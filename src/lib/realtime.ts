@@ -0,0 +1,348 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { API_MOCK_ENABLED } from "@/api/client";
+import { authorizeBroadcastChannelApi } from "@/api/broadcasting/route";
+import { getCurrentSession, subscribeToSession } from "@/lib/authentication";
+
+/**
+ * Push channel to the Laravel backend.
+ *
+ * Speaks the Pusher protocol over a plain WebSocket — the wire format of
+ * Laravel Reverb, soketi and Pusher, i.e. what Laravel Echo talks to — so a
+ * local `php artisan reverb:start` (or soketi) is enough to test it.
+ *
+ * One socket per signed-in user, subscribed to the private channel
+ * `private-App.Models.User.{id}` (authorized through `POST /broadcasting/auth`).
+ * The backend broadcasts there with these `broadcastAs` names:
+ * - `message.sent`        { message }                        — to sender and recipient
+ * - `messages.read`       { reader_id, message_ids, read_at } — to the senders of the read messages
+ * - `notification.counts` { counts }                         — whenever a badge count changes
+ *
+ * Features:
+ * - configuration from `VITE_REVERB_APP_KEY` / `_HOST` / `_PORT` / `_SCHEME`; without a key the channel stays `disabled`
+ * - connects while something listens and a user is signed in; follows login / logout
+ * - automatic reconnect with backoff (immediately when the browser comes back online)
+ * - keep-alive pings after `activity_timeout`; a socket that stops answering is dropped
+ * - a swappable socket factory (the mock backend plugs in here, see `src/mock/realtime.ts`)
+ *
+ * Callers keep their polling for as long as the status is not `connected`.
+ */
+
+export type RealtimeStatus = "disabled" | "connecting" | "connected" | "unavailable";
+
+/** App key of the socket server; the mock backend serves its own channel. */
+export const REALTIME_APP_KEY: string =
+    String(import.meta.env.VITE_REVERB_APP_KEY ?? "").trim() || (API_MOCK_ENABLED ? "mock" : "");
+
+/** Reconnect delays; the last one repeats. */
+const RECONNECT_DELAYS_MS = [1_000, 2_000, 5_000, 10_000, 30_000];
+
+/** Wait this long for `pusher:pong` before treating the socket as dead. */
+const PONG_TIMEOUT_MS = 30_000;
+
+const DEFAULT_ACTIVITY_TIMEOUT_S = 120;
+
+/** The subset of `WebSocket` the channel uses. */
+export interface RealtimeSocket {
+    send(data: string): void;
+    close(code?: number, reason?: string): void;
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: { data: any }) => void) | null;
+    onclose: ((event: { code?: number }) => void) | null;
+    onerror: ((event: any) => void) | null;
+}
+
+export type RealtimeSocketFactory = (url: string) => RealtimeSocket;
+
+const webSocketFactory: RealtimeSocketFactory = (url) => new WebSocket(url) as unknown as RealtimeSocket;
+
+type EventHandler = (data: any) => void;
+type StatusListener = (status: RealtimeStatus) => void;
+
+let socketFactory: RealtimeSocketFactory = webSocketFactory;
+let socket: RealtimeSocket | null = null;
+let socketId: string | null = null;
+let channelUserId: string | null = null;
+let status: RealtimeStatus = "disabled";
+
+let attempts = 0;
+/** Set by a `pusher:error` in the 4000–4099 range: the server refuses this app, do not retry. */
+let refused = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let activityTimer: ReturnType<typeof setTimeout> | null = null;
+let pongTimer: ReturnType<typeof setTimeout> | null = null;
+let activityTimeoutMs = DEFAULT_ACTIVITY_TIMEOUT_S * 1000;
+
+const eventHandlers = new Map<string, Set<EventHandler>>();
+const statusListeners = new Set<StatusListener>();
+let stopSessionWatch: (() => void) | null = null;
+
+export function userChannelName(userId: number | string): string {
+    return `private-App.Models.User.${userId}`;
+}
+
+function socketUrl(): string {
+    const scheme = String(import.meta.env.VITE_REVERB_SCHEME ?? "https").toLowerCase() === "http" ? "ws" : "wss";
+    const host =
+        String(import.meta.env.VITE_REVERB_HOST ?? "").trim() ||
+        (typeof window !== "undefined" ? window.location.hostname : "localhost");
+    const port = String(import.meta.env.VITE_REVERB_PORT ?? "").trim() || (scheme === "wss" ? "443" : "80");
+    return `${scheme}://${host}:${port}/app/${encodeURIComponent(REALTIME_APP_KEY)}?protocol=7&client=js&version=8.4.0&flash=false`;
+}
+
+function setStatus(next: RealtimeStatus): void {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach((listener) => listener(next));
+}
+
+function hasListeners(): boolean {
+    return statusListeners.size > 0 || Array.from(eventHandlers.values()).some((set) => set.size > 0);
+}
+
+function parseData(raw: unknown): any {
+    if (typeof raw !== "string") return raw ?? null;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+function send(ws: RealtimeSocket, event: string, data: unknown): void {
+    try {
+        ws.send(JSON.stringify({ event, data }));
+    } catch {
+        // closing already; onclose schedules the reconnect
+    }
+}
+
+function clearKeepAlive(): void {
+    if (activityTimer) clearTimeout(activityTimer);
+    if (pongTimer) clearTimeout(pongTimer);
+    activityTimer = null;
+    pongTimer = null;
+}
+
+/** Any frame counts as activity; after `activity_timeout` of silence, ping and expect a pong. */
+function touchActivity(ws: RealtimeSocket): void {
+    clearKeepAlive();
+    activityTimer = setTimeout(() => {
+        send(ws, "pusher:ping", {});
+        pongTimer = setTimeout(() => ws.close(4201, "Pong reply not received"), PONG_TIMEOUT_MS);
+    }, activityTimeoutMs);
+}
+
+function closeSocket(): void {
+    clearKeepAlive();
+    const current = socket;
+    socket = null;
+    socketId = null;
+    if (!current) return;
+
+    current.onopen = null;
+    current.onmessage = null;
+    current.onclose = null;
+    current.onerror = null;
+    try {
+        current.close(1000, "Client closed");
+    } catch {
+        // already closed
+    }
+}
+
+function scheduleReconnect(code: number | undefined): void {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+
+    if (refused || !hasListeners() || channelUserId == null) {
+        setStatus(refused ? "unavailable" : "disabled");
+        return;
+    }
+
+    setStatus("unavailable");
+
+    // 4200–4299: the server asks for an immediate reconnect
+    const immediate = code != null && code >= 4200 && code <= 4299;
+    const delay = immediate ? 0 : RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)];
+    attempts += 1;
+
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        open();
+    }, delay);
+}
+
+async function subscribeUserChannel(ws: RealtimeSocket): Promise<void> {
+    if (socketId == null || channelUserId == null) return;
+    const channel = userChannelName(channelUserId);
+
+    try {
+        const res = await authorizeBroadcastChannelApi({ socket_id: socketId, channel_name: channel });
+        if (socket !== ws) return;
+        send(ws, "pusher:subscribe", { channel, auth: res.auth, channel_data: res.channel_data });
+    } catch {
+        // Auth failed (expired session, backend down): retry with a fresh socket
+        if (socket === ws) ws.close(4100, "Channel authorization failed");
+    }
+}
+
+function handleFrame(ws: RealtimeSocket, raw: unknown): void {
+    const frame = parseData(raw);
+    if (!frame || typeof frame !== "object" || typeof frame.event !== "string") return;
+
+    touchActivity(ws);
+    const data = parseData(frame.data);
+
+    switch (frame.event) {
+        case "pusher:connection_established": {
+            socketId = data?.socket_id != null ? String(data.socket_id) : null;
+            const timeout = Number(data?.activity_timeout);
+            activityTimeoutMs = (Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_ACTIVITY_TIMEOUT_S) * 1000;
+            touchActivity(ws);
+            void subscribeUserChannel(ws);
+            return;
+        }
+        case "pusher:ping":
+            send(ws, "pusher:pong", {});
+            return;
+        case "pusher:pong":
+            return;
+        case "pusher:error": {
+            const code = Number(data?.code);
+            if (code >= 4000 && code <= 4099) {
+                refused = true;
+                console.warn("[realtime] The socket server refused the connection:", data?.message ?? code);
+            }
+            return;
+        }
+        case "pusher_internal:subscription_succeeded":
+            attempts = 0;
+            setStatus("connected");
+            return;
+        case "pusher:subscription_error":
+            ws.close(4100, "Subscription rejected");
+            return;
+    }
+
+    if (channelUserId != null && frame.channel === userChannelName(channelUserId)) {
+        eventHandlers.get(frame.event)?.forEach((handler) => handler(data));
+    }
+}
+
+function open(): void {
+    closeSocket();
+    setStatus("connecting");
+
+    let ws: RealtimeSocket;
+    try {
+        ws = socketFactory(socketUrl());
+    } catch {
+        scheduleReconnect(undefined);
+        return;
+    }
+
+    socket = ws;
+    ws.onmessage = (event) => {
+        if (socket === ws) handleFrame(ws, event.data);
+    };
+    ws.onclose = (event) => {
+        if (socket !== ws) return;
+        socket = null;
+        socketId = null;
+        clearKeepAlive();
+        scheduleReconnect(event?.code);
+    };
+    ws.onerror = () => {
+        // onclose follows and schedules the reconnect
+    };
+}
+
+/** Connect, reconnect for another user, or close, depending on session and listeners. */
+function sync(): void {
+    const userId = getCurrentSession().user?.id;
+    const wanted = REALTIME_APP_KEY && userId != null && hasListeners() ? String(userId) : null;
+
+    if (wanted == null) {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+        channelUserId = null;
+        closeSocket();
+        setStatus("disabled");
+        return;
+    }
+
+    if (wanted === channelUserId && (socket || reconnectTimer || refused)) return;
+
+    channelUserId = wanted;
+    attempts = 0;
+    refused = false;
+    open();
+}
+
+function onOnline(): void {
+    if (status !== "unavailable" || refused || !reconnectTimer) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    open();
+}
+
+function start(): void {
+    if (stopSessionWatch) return;
+    stopSessionWatch = subscribeToSession(() => sync());
+    if (typeof window !== "undefined") window.addEventListener("online", onOnline);
+}
+
+function stopIfIdle(): void {
+    if (hasListeners()) return;
+    stopSessionWatch?.();
+    stopSessionWatch = null;
+    if (typeof window !== "undefined") window.removeEventListener("online", onOnline);
+    sync();
+}
+
+/**
+ * Listen to one event of the user channel. The socket stays open while at
+ * least one listener is registered. Returns a function that removes it.
+ */
+export function subscribeToRealtimeEvent<T = unknown>(event: string, handler: (data: T) => void): () => void {
+    const set = eventHandlers.get(event) ?? new Set<EventHandler>();
+    set.add(handler as EventHandler);
+    eventHandlers.set(event, set);
+    start();
+    sync();
+
+    return () => {
+        set.delete(handler as EventHandler);
+        stopIfIdle();
+    };
+}
+
+export function getRealtimeStatus(): RealtimeStatus {
+    return status;
+}
+
+/** Called with the current status right away, then on every change. */
+export function subscribeToRealtimeStatus(listener: StatusListener): () => void {
+    statusListeners.add(listener);
+    start();
+    sync();
+    listener(status);
+
+    return () => {
+        statusListeners.delete(listener);
+        stopIfIdle();
+    };
+}
+
+/**
+ * Replace the socket factory (pass `null` to restore `WebSocket`). An open
+ * channel reconnects through the new factory.
+ */
+export function setRealtimeSocketFactory(next: RealtimeSocketFactory | null): void {
+    socketFactory = next ?? webSocketFactory;
+    if (channelUserId != null) {
+        attempts = 0;
+        refused = false;
+        open();
+    }
+}
@@ -29,7 +29,7 @@ export async function fetchCounselorReferrals(
         token,
     )
 
-    return Array.isArray(res?.referrals) ? res.referrals : []
+    return res.referrals
 }
 
 export async function fetchReferralUserReferrals(
@@ -43,7 +43,7 @@ export async function fetchReferralUserReferrals(
         token,
     )
 
-    return Array.isArray(res?.referrals) ? res.referrals : []
+    return res.referrals
 }
 
 export async function fetchCounselorReferralById(id: number | string, token?: string | null): Promise<ReferralDto> {
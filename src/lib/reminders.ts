@@ -0,0 +1,64 @@
+import {
+    getReminderSettingsApi,
+    getRemindersApi,
+    markReminderReadApi,
+    updateReminderSettingsApi,
+    type ReminderChannelApi,
+    type ReminderDto,
+    type ReminderSettingsDto,
+} from "@/api/reminders/route";
+
+export type ReminderChannel = ReminderChannelApi;
+export type Reminder = ReminderDto;
+export type ReminderSettings = ReminderSettingsDto;
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+    in_app: "In-app notification",
+    email: "Email",
+};
+
+/** Offsets (minutes before the session) users can pick from. */
+export const REMINDER_OFFSET_OPTIONS = [15, 60, 180, 1440, 2880];
+
+/** Same defaults the backend applies when a user never saved preferences. */
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+    channels: ["in_app", "email"],
+    offsets_minutes: [1440, 60],
+};
+
+/**
+ * 15 → "15 minutes before", 1440 → "1 day before"
+ */
+export function formatReminderOffset(minutes: number): string {
+    const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? "" : "s"}`;
+
+    if (minutes % 1440 === 0) return `${plural(minutes / 1440, "day")} before`;
+    if (minutes % 60 === 0) return `${plural(minutes / 60, "hour")} before`;
+    return `${plural(minutes, "minute")} before`;
+}
+
+export async function fetchReminderSettings(): Promise<ReminderSettings> {
+    const res = await getReminderSettingsApi();
+    return res.settings ?? DEFAULT_REMINDER_SETTINGS;
+}
+
+export async function saveReminderSettings(settings: ReminderSettings): Promise<ReminderSettings> {
+    const res = await updateReminderSettingsApi({
+        channels: settings.channels,
+        offsets_minutes: [...settings.offsets_minutes].sort((a, b) => b - a),
+    });
+    return res.settings;
+}
+
+/**
+ * ✅ In-app reminders not dismissed yet
+ */
+export async function fetchUnreadReminders(): Promise<Reminder[]> {
+    const res = await getRemindersApi({ unread: true });
+    return Array.isArray(res.reminders) ? res.reminders : [];
+}
+
+export async function markReminderRead(id: number | string): Promise<Reminder> {
+    const res = await markReminderReadApi(id);
+    return res.reminder;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeRole, resolveDashboardPathForRole } from "@/lib/role";
+
+describe("normalizeRole", () => {
+    it("trims and lowercases", () => {
+        expect(normalizeRole("  Counselor ")).toBe("counselor");
+        expect(normalizeRole("REFERRAL_USER")).toBe("referral_user");
+    });
+
+    it("returns an empty string for missing roles", () => {
+        expect(normalizeRole(null)).toBe("");
+        expect(normalizeRole(undefined)).toBe("");
+        expect(normalizeRole("")).toBe("");
+    });
+});
+
+describe("resolveDashboardPathForRole", () => {
+    it.each([
+        ["admin", "/dashboard/admin"],
+        ["Super Admin", "/dashboard/admin"],
+        ["counselor", "/dashboard/counselor"],
+        ["Guidance Counsellor", "/dashboard/counselor"],
+        ["referral_user", "/dashboard/referral-user"],
+        ["dean", "/dashboard/referral-user"],
+        ["registrar", "/dashboard/referral-user"],
+        ["program_chair", "/dashboard/referral-user"],
+        ["Program Chair", "/dashboard/referral-user"],
+        ["student", "/dashboard/student"],
+        ["guest", "/dashboard/student"],
+    ])("sends %s to %s", (role, path) => {
+        expect(resolveDashboardPathForRole(role)).toBe(path);
+    });
+
+    it("falls back to the student dashboard for unknown or missing roles", () => {
+        expect(resolveDashboardPathForRole("alumni")).toBe("/dashboard/student");
+        expect(resolveDashboardPathForRole(null)).toBe("/dashboard/student");
+        expect(resolveDashboardPathForRole(undefined)).toBe("/dashboard/student");
+    });
+});
@@ -0,0 +1,123 @@
+import {
+    amendSessionNoteApi,
+    createSessionNoteApi,
+    deleteSessionNoteApi,
+    getSessionNotesApi,
+    lockSessionNoteApi,
+    signSessionNoteApi,
+    updateSessionNoteApi,
+    type SessionNoteDto,
+    type SessionNoteFormatApi,
+    type SessionNoteSectionsDto,
+    type SessionNoteStatusApi,
+    type SessionNoteSubjectTypeApi,
+} from "@/api/session-notes/route";
+
+export type SessionNote = SessionNoteDto;
+export type SessionNoteFormat = SessionNoteFormatApi;
+export type SessionNoteStatus = SessionNoteStatusApi;
+export type SessionNoteSubjectType = SessionNoteSubjectTypeApi;
+export type SessionNoteSections = SessionNoteSectionsDto;
+
+export interface SessionNoteSection {
+    key: string;
+    label: string;
+    hint: string;
+}
+
+export const SESSION_NOTE_FORMAT_LABELS: Record<SessionNoteFormat, string> = {
+    soap: "SOAP",
+    dap: "DAP",
+};
+
+/** Fields of each format, in writing order. */
+export const SESSION_NOTE_SECTIONS: Record<SessionNoteFormat, SessionNoteSection[]> = {
+    soap: [
+        { key: "subjective", label: "Subjective", hint: "What the student reports: concerns, feelings, history." },
+        { key: "objective", label: "Objective", hint: "What you observed: affect, behavior, scores, records." },
+        { key: "assessment", label: "Assessment", hint: "Your clinical impression and risk level." },
+        { key: "plan", label: "Plan", hint: "Interventions, homework, referrals, next session." },
+    ],
+    dap: [
+        { key: "data", label: "Data", hint: "What the student said and what you observed." },
+        { key: "assessment", label: "Assessment", hint: "Your interpretation and risk level." },
+        { key: "plan", label: "Plan", hint: "Interventions, homework, referrals, next session." },
+    ],
+};
+
+export const SESSION_NOTE_STATUS_LABELS: Record<SessionNoteStatus, string> = {
+    draft: "Draft",
+    signed: "Signed",
+    locked: "Locked",
+};
+
+/**
+ * Empty sections of a format (keeps the text of fields both formats share).
+ */
+export function emptySessionNoteSections(
+    format: SessionNoteFormat,
+    from: SessionNoteSections = {},
+): SessionNoteSections {
+    return Object.fromEntries(SESSION_NOTE_SECTIONS[format].map((s) => [s.key, from[s.key] ?? ""]));
+}
+
+/** Signing requires every section. */
+export function missingSessionNoteSections(note: Pick<SessionNote, "format" | "sections">): SessionNoteSection[] {
+    return SESSION_NOTE_SECTIONS[note.format].filter((s) => !String(note.sections[s.key] ?? "").trim());
+}
+
+export function sessionNoteSectionsEqual(a: SessionNoteSections, b: SessionNoteSections): boolean {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((k) => (a[k] ?? "").trim() === (b[k] ?? "").trim());
+}
+
+function trimSections(sections: SessionNoteSections): SessionNoteSections {
+    return Object.fromEntries(Object.entries(sections).map(([k, v]) => [k, v.trim()]));
+}
+
+export async function fetchSessionNotes(subjectType: SessionNoteSubjectType, subjectId: number | string): Promise<SessionNote[]> {
+    const res = await getSessionNotesApi({ subject_type: subjectType, subject_id: subjectId });
+    return Array.isArray(res.notes) ? res.notes : [];
+}
+
+/**
+ * ✅ Create (no `id`) or save a draft
+ */
+export async function saveSessionNoteDraft(params: {
+    id?: number | null;
+    subjectType: SessionNoteSubjectType;
+    subjectId: number | string;
+    format: SessionNoteFormat;
+    sections: SessionNoteSections;
+}): Promise<SessionNote> {
+    const sections = trimSections(params.sections);
+    const res =
+        params.id != null
+            ? await updateSessionNoteApi(params.id, { format: params.format, sections })
+            : await createSessionNoteApi({
+                  subject_type: params.subjectType,
+                  subject_id: params.subjectId,
+                  format: params.format,
+                  sections,
+              });
+    return res.note;
+}
+
+export async function deleteSessionNoteDraft(id: number): Promise<void> {
+    await deleteSessionNoteApi(id);
+}
+
+export async function signSessionNote(id: number): Promise<SessionNote> {
+    const res = await signSessionNoteApi(id);
+    return res.note;
+}
+
+export async function amendSessionNote(id: number, sections: SessionNoteSections, reason: string): Promise<SessionNote> {
+    const res = await amendSessionNoteApi(id, { sections: trimSections(sections), reason: reason.trim() });
+    return res.note;
+}
+
+export async function lockSessionNote(id: number): Promise<SessionNote> {
+    const res = await lockSessionNoteApi(id);
+    return res.note;
+}
@@ -0,0 +1,82 @@
+import { AUTH_API_BASE_URL } from "@/api/client";
+
+/**
+ * Resolve file URLs coming from Laravel storage (avatars, message attachments).
+ */
+
+function getApiOrigin(): string {
+    if (!AUTH_API_BASE_URL) return "";
+    try {
+        return new URL(AUTH_API_BASE_URL).origin;
+    } catch {
+        return "";
+    }
+}
+
+function looksLikeFilePath(s: string): boolean {
+    return (
+        /\.[a-z0-9]{2,5}(\?.*)?$/i.test(s) ||
+        /(^|\/)(avatars|avatar|profile|profiles|images|uploads|attachments)(\/|$)/i.test(s)
+    );
+}
+
+/**
+ * Supports common Laravel storage formats:
+ * - "avatars/foo.jpg"                 -> "/storage/avatars/foo.jpg"
+ * - "public/avatars/foo.jpg"          -> "/storage/avatars/foo.jpg"
+ * - "storage/app/public/avatars/..."  -> "/storage/avatars/..."
+ * - "/storage/avatars/foo.jpg"        -> "/storage/avatars/foo.jpg"
+ * - Absolute URLs stay untouched (signed URLs keep their query string)
+ *
+ * If backend accidentally returns absolute URLs containing "/api/storage/...",
+ * rewrite them to "/storage/..." because the public storage route is "/storage/*".
+ */
+export function resolveStorageUrl(raw?: string | null): string | null {
+    const s0 = typeof raw === "string" ? raw : "";
+    let s = s0.trim();
+    if (!s) return null;
+
+    s = s.replace(/\\/g, "/");
+
+    if (/^(data:|blob:)/i.test(s)) return s;
+
+    if (/^https?:\/\//i.test(s)) {
+        try {
+            const u = new URL(s);
+            const p = (u.pathname || "").replace(/\\/g, "/");
+
+            u.pathname = p
+                .replace(/^\/api\/storage\//i, "/storage/")
+                .replace(/^\/api\/public\/storage\//i, "/storage/")
+                .replace(/^\/storage\/app\/public\//i, "/storage/");
+
+            return u.toString();
+        } catch {
+            return s;
+        }
+    }
+
+    if (s.startsWith("//")) {
+        const protocol = typeof window !== "undefined" ? window.location.protocol : "https:";
+        return `${protocol}${s}`;
+    }
+
+    s = s.replace(/^storage\/app\/public\//i, "");
+    s = s.replace(/^public\//i, "");
+
+    const normalized = s.replace(/^\/+/, "");
+    const alreadyStorage =
+        normalized.toLowerCase().startsWith("storage/") ||
+        normalized.toLowerCase().startsWith("api/storage/");
+
+    let path = normalized;
+    if (!alreadyStorage && looksLikeFilePath(normalized)) {
+        path = `storage/${normalized}`;
+    }
+
+    path = path.replace(/^api\/storage\//i, "storage/");
+
+    const finalPath = path.startsWith("/") ? path : `/${path}`;
+    const origin = getApiOrigin();
+    return origin ? `${origin}${finalPath}` : finalPath;
+}
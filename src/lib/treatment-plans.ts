@@ -0,0 +1,188 @@
+import {
+    createTreatmentPlanApi,
+    getTreatmentPlansApi,
+    recordTreatmentProgressApi,
+    updateTreatmentPlanApi,
+    type GoalProgressRatingApi,
+    type RecordTreatmentProgressPayload,
+    type TreatmentGoalDto,
+    type TreatmentGoalStatusApi,
+    type TreatmentPlanDto,
+    type TreatmentPlanStatusApi,
+    type TreatmentProgressDto,
+} from "@/api/treatment-plans/route";
+import type { ManualScoreRecord } from "@/lib/manual-scores";
+
+export type TreatmentPlan = TreatmentPlanDto;
+export type TreatmentGoal = TreatmentGoalDto;
+export type TreatmentProgress = TreatmentProgressDto;
+export type TreatmentPlanStatus = TreatmentPlanStatusApi;
+export type TreatmentGoalStatus = TreatmentGoalStatusApi;
+export type GoalProgressRating = GoalProgressRatingApi;
+
+export const TREATMENT_PLAN_STATUS_LABELS: Record<TreatmentPlanStatus, string> = {
+    active: "Active",
+    completed: "Completed",
+    discontinued: "Discontinued",
+};
+
+export const TREATMENT_GOAL_STATUS_LABELS: Record<TreatmentGoalStatus, string> = {
+    in_progress: "In progress",
+    achieved: "Achieved",
+    discontinued: "Discontinued",
+};
+
+export const GOAL_PROGRESS_RATINGS: GoalProgressRating[] = [0, 1, 2, 3, 4];
+
+export const GOAL_PROGRESS_LABELS: Record<GoalProgressRating, string> = {
+    0: "Not started",
+    1: "Minimal progress",
+    2: "Some progress",
+    3: "Significant progress",
+    4: "Achieved",
+};
+
+/** Editable goal row (no `id` until saved). */
+export interface TreatmentGoalDraft {
+    id: number | null;
+    description: string;
+    interventions: string;
+    target_date: string;
+    status: TreatmentGoalStatus;
+}
+
+export interface TreatmentPlanDraft {
+    title: string;
+    summary: string;
+    start_date: string;
+    review_date: string;
+    status: TreatmentPlanStatus;
+    goals: TreatmentGoalDraft[];
+}
+
+export function emptyTreatmentGoalDraft(): TreatmentGoalDraft {
+    return { id: null, description: "", interventions: "", target_date: "", status: "in_progress" };
+}
+
+export function treatmentPlanDraft(plan: TreatmentPlan | null, today: string): TreatmentPlanDraft {
+    if (!plan) {
+        return {
+            title: "",
+            summary: "",
+            start_date: today,
+            review_date: "",
+            status: "active",
+            goals: [emptyTreatmentGoalDraft()],
+        };
+    }
+
+    return {
+        title: plan.title,
+        summary: plan.summary ?? "",
+        start_date: plan.start_date,
+        review_date: plan.review_date ?? "",
+        status: plan.status,
+        goals: plan.goals.map((g) => ({
+            id: g.id,
+            description: g.description,
+            interventions: g.interventions ?? "",
+            target_date: g.target_date ?? "",
+            status: g.status,
+        })),
+    };
+}
+
+/**
+ * ✅ Client-side checks (the backend repeats them); returns the first problem.
+ */
+export function validateTreatmentPlanDraft(draft: TreatmentPlanDraft): string | null {
+    if (!draft.title.trim()) return "Give the plan a title.";
+    if (!draft.start_date) return "Pick a start date.";
+    if (draft.review_date && draft.review_date < draft.start_date) {
+        return "The review date cannot be before the start date.";
+    }
+    if (draft.goals.length === 0) return "Add at least one goal.";
+    if (draft.goals.some((g) => !g.description.trim())) return "Every goal needs a description.";
+    return null;
+}
+
+/** Goals rated after each session (achieved and discontinued goals are not). */
+export function ratableGoals(plan: Pick<TreatmentPlan, "goals">): TreatmentGoal[] {
+    return plan.goals.filter((g) => g.status === "in_progress");
+}
+
+/**
+ * ✅ Overall progress as a 0–100 percentage: achieved goals count as fully met,
+ * discontinued goals are left out. Same formula the backend uses for the
+ * manual score it writes.
+ */
+export function treatmentProgressScore(
+    goals: Array<Pick<TreatmentGoal, "id" | "status">>,
+    ratings: Record<number, GoalProgressRating>,
+): number | null {
+    const counted = goals.filter((g) => g.status !== "discontinued");
+    if (counted.length === 0) return null;
+
+    const total = counted.reduce((sum, g) => sum + (g.status === "achieved" ? 4 : ratings[g.id] ?? 0), 0);
+    return Math.round((total / (counted.length * 4)) * 100);
+}
+
+export function activeTreatmentPlan(plans: TreatmentPlan[]): TreatmentPlan | null {
+    return plans.find((p) => p.status === "active") ?? null;
+}
+
+export async function fetchTreatmentPlans(studentId?: number | string | null): Promise<TreatmentPlan[]> {
+    const res = await getTreatmentPlansApi(studentId);
+    return Array.isArray(res.plans) ? res.plans : [];
+}
+
+function draftPayload(draft: TreatmentPlanDraft) {
+    return {
+        title: draft.title.trim(),
+        summary: draft.summary.trim() || null,
+        start_date: draft.start_date,
+        review_date: draft.review_date || null,
+        goals: draft.goals.map((g) => ({
+            id: g.id,
+            description: g.description.trim(),
+            interventions: g.interventions.trim() || null,
+            target_date: g.target_date || null,
+            status: g.status,
+        })),
+    };
+}
+
+/**
+ * ✅ Create (no `id`) or update a plan
+ */
+export async function saveTreatmentPlan(params: {
+    id?: number | null;
+    studentId: number | string;
+    draft: TreatmentPlanDraft;
+}): Promise<TreatmentPlan> {
+    const payload = draftPayload(params.draft);
+    const res =
+        params.id != null
+            ? await updateTreatmentPlanApi(params.id, { ...payload, status: params.draft.status })
+            : await createTreatmentPlanApi({ ...payload, student_id: params.studentId });
+    return res.plan;
+}
+
+export async function recordTreatmentProgress(
+    planId: number,
+    input: {
+        sessionDate: string;
+        intakeRequestId?: number | string | null;
+        note?: string;
+        ratings: Record<number, GoalProgressRating>;
+    },
+): Promise<{ plan: TreatmentPlan; score: ManualScoreRecord | null }> {
+    const payload: RecordTreatmentProgressPayload = {
+        session_date: input.sessionDate,
+        intake_request_id: input.intakeRequestId ?? null,
+        note: input.note?.trim() || null,
+        ratings: Object.entries(input.ratings).map(([goalId, rating]) => ({ goal_id: Number(goalId), rating })),
+    };
+    const res = await recordTreatmentProgressApi(planId, payload);
+    return { plan: res.plan, score: res.score ?? null };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import type { FreedSlotDto, IntakeRequestDto } from "@/api/intake/route";
+import { compareWaitlist, isWaitlisted, nextWaitlistedFor } from "@/lib/waitlist";
+
+function request(id: number, overrides: Partial<IntakeRequestDto> = {}): IntakeRequestDto {
+    return {
+        id,
+        user_id: 100 + id,
+        concern_type: "academic",
+        urgency: "medium",
+        preferred_date: "2026-10-21",
+        preferred_time: "09:00",
+        details: "",
+        status: "requested",
+        counselor_id: null,
+        waitlisted_at: "2026-10-19T08:00:00Z",
+        ...overrides,
+    };
+}
+
+const slot: FreedSlotDto = { appointment_id: 8, counselor_id: 2, counselor_name: "Ms. Reyes", date: "2026-10-21", time: "10:00 AM" };
+
+describe("isWaitlisted", () => {
+    it("only counts requests still waiting for a slot", () => {
+        expect(isWaitlisted(request(1))).toBe(true);
+        expect(isWaitlisted(request(1, { status: "pending" as IntakeRequestDto["status"] }))).toBe(true);
+        expect(isWaitlisted(request(1, { status: "scheduled" }))).toBe(false);
+        expect(isWaitlisted(request(1, { waitlisted_at: null }))).toBe(false);
+    });
+});
+
+describe("compareWaitlist", () => {
+    it("orders by urgency, then by time on the list, then by id", () => {
+        const queue = [
+            request(1, { urgency: "low", waitlisted_at: "2026-10-01T00:00:00Z" }),
+            request(2, { urgency: "medium", waitlisted_at: "2026-10-19T10:00:00Z" }),
+            request(3, { urgency: "high", waitlisted_at: "2026-10-19T11:00:00Z" }),
+            request(4, { urgency: "medium", waitlisted_at: "2026-10-19T09:00:00Z" }),
+            request(5, { urgency: "medium", waitlisted_at: "2026-10-19T09:00:00Z" }),
+        ];
+
+        expect([...queue].sort(compareWaitlist).map((r) => r.id)).toEqual([3, 4, 5, 2, 1]);
+    });
+
+    it("ranks unknown urgencies with low", () => {
+        const queue = [request(1, { urgency: null }), request(2, { urgency: "LOW" }), request(3, { urgency: "High" })];
+
+        expect([...queue].sort(compareWaitlist).map((r) => r.id)).toEqual([3, 1, 2]);
+    });
+});
+
+describe("nextWaitlistedFor", () => {
+    it("skips requests waiting for another counselor", () => {
+        const waitlist = [
+            request(1, { urgency: "high", counselor_id: 7 }),
+            request(2, { urgency: "high", counselor_id: "2", waitlisted_at: "2026-10-19T09:00:00Z" }),
+            request(3, { urgency: "high" }),
+        ];
+
+        expect(nextWaitlistedFor(waitlist, slot)?.id).toBe(3);
+        expect(nextWaitlistedFor(waitlist.slice(0, 2), slot)?.id).toBe(2);
+        expect(nextWaitlistedFor(waitlist.slice(0, 1), slot)).toBeNull();
+    });
+
+    it("leaves the given list in its order", () => {
+        const waitlist = [request(1, { urgency: "low" }), request(2, { urgency: "high" })];
+
+        expect(nextWaitlistedFor(waitlist, slot)?.id).toBe(2);
+        expect(waitlist.map((r) => r.id)).toEqual([1, 2]);
+    });
+});
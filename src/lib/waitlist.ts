@@ -0,0 +1,64 @@
+import {
+    backfillFreedSlotApi,
+    getCounselorWaitlistApi,
+    type FreedSlotDto,
+    type GetCounselorWaitlistResponseDto,
+    type IntakeRequestDto,
+} from "@/api/intake/route";
+import { normalizeAppointmentStatus } from "@/lib/appointment-status";
+
+export type FreedSlot = FreedSlotDto;
+export type CounselorWaitlist = GetCounselorWaitlistResponseDto;
+
+/** Queue order: most urgent first. */
+export const URGENCY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Still waiting for a slot (scheduling or cancelling the request takes it off the list).
+ */
+export function isWaitlisted(req: Pick<IntakeRequestDto, "status" | "waitlisted_at">): boolean {
+    return Boolean(req.waitlisted_at) && normalizeAppointmentStatus(req.status) === "requested";
+}
+
+/**
+ * Urgency first, then whoever joined the waitlist earlier.
+ */
+export function compareWaitlist(
+    a: Pick<IntakeRequestDto, "id" | "urgency" | "waitlisted_at">,
+    b: Pick<IntakeRequestDto, "id" | "urgency" | "waitlisted_at">,
+): number {
+    const rank = (u: unknown) => URGENCY_RANK[String(u ?? "").toLowerCase()] ?? URGENCY_RANK.low;
+    return (
+        rank(a.urgency) - rank(b.urgency) ||
+        String(a.waitlisted_at ?? "").localeCompare(String(b.waitlisted_at ?? "")) ||
+        Number(a.id) - Number(b.id)
+    );
+}
+
+/**
+ * First request in the queue that can take `slot` (no counselor preference, or the slot's counselor).
+ */
+export function nextWaitlistedFor(waitlist: IntakeRequestDto[], slot: FreedSlot): IntakeRequestDto | null {
+    return (
+        [...waitlist]
+            .sort(compareWaitlist)
+            .find((req) => req.counselor_id == null || String(req.counselor_id) === String(slot.counselor_id)) ?? null
+    );
+}
+
+export async function fetchCounselorWaitlist(): Promise<CounselorWaitlist> {
+    const res = await getCounselorWaitlistApi();
+    return { ...res, waitlist: [...res.waitlist].sort(compareWaitlist) };
+}
+
+/**
+ * ✅ Book a freed slot for the next waitlisted student (or `intakeRequestId`).
+ * Returns the newly scheduled appointment.
+ */
+export async function offerFreedSlot(
+    slot: FreedSlot,
+    intakeRequestId?: number | string | null,
+): Promise<IntakeRequestDto> {
+    const res = await backfillFreedSlotApi(slot.appointment_id, { intake_request_id: intakeRequestId ?? null });
+    return res.appointment;
+}
@@ -2,9 +2,20 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { API_MOCK_ENABLED } from './api/client'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+async function bootstrap() {
+  // Offline/demo mode: serve the API from the in-memory mock backend (src/mock)
+  if (API_MOCK_ENABLED) {
+    const { installMockBackend } = await import('./mock')
+    installMockBackend()
+  }
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+}
+
+void bootstrap()
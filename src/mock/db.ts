@@ -0,0 +1,1263 @@
+/**
+ * In-memory data store for the mock backend.
+ *
+ * Rows mirror the Laravel tables (snake_case columns, numeric ids) so handlers
+ * can serialize them exactly like the real API resources. Data lives for the
+ * lifetime of the page; `resetMockDb()` restores the seed.
+ */
+
+export type MockRole =
+    | "admin"
+    | "counselor"
+    | "student"
+    | "guest"
+    | "referral_user"
+    | "dean"
+    | "registrar"
+    | "program_chair";
+
+export const MOCK_ROLES: MockRole[] = [
+    "admin",
+    "counselor",
+    "student",
+    "guest",
+    "referral_user",
+    "dean",
+    "registrar",
+    "program_chair",
+];
+
+/** Password shared by every seeded account. */
+export const MOCK_PASSWORD = "password";
+
+export interface MockUser {
+    id: number;
+    name: string;
+    email: string;
+    password: string;
+    role: MockRole;
+    account_type: "student" | "guest" | "referral_user" | null;
+    gender: string | null;
+    student_id: string | null;
+    program: string | null;
+    course: string | null;
+    year_level: string | null;
+    avatar_url: string | null;
+    email_verified_at: string | null;
+    /** Counselors: concern types they prefer to take (used for assignment suggestions) */
+    specializations?: string[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface MockIntakeRequest {
+    id: number;
+    user_id: number;
+    counselor_id: number | null;
+    concern_type: string;
+    urgency: "low" | "medium" | "high";
+    /** null for waitlisted requests (no slot booked) */
+    preferred_date: string | null;
+    preferred_time: string | null;
+    scheduled_date: string | null;
+    scheduled_time: string | null;
+    /** iCalendar SEQUENCE: bumped when the schedule or status changes (missing = 0). */
+    schedule_sequence?: number;
+    details: string;
+    status: MockAppointmentStatus;
+    /** Recorded by the counselor after (or, for late cancels, before) the session. */
+    attendance?: MockAttendance | null;
+    attendance_marked_at?: string | null;
+    attendance_marked_by?: number | null;
+    /** Queued for the next freed slot (stays set for history once scheduled). */
+    waitlisted_at?: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type MockAttendance = "attended" | "no_show" | "late_cancel";
+
+export type MockAppointmentStatus = "requested" | "scheduled" | "rescheduled" | "completed" | "cancelled" | "no_show";
+
+/** Audit row written on every appointment status change or reschedule. */
+export interface MockAppointmentStatusChange {
+    id: number;
+    intake_request_id: number;
+    from_status: MockAppointmentStatus | null;
+    to_status: MockAppointmentStatus;
+    reason: string | null;
+    scheduled_date: string | null;
+    scheduled_time: string | null;
+    changed_by: number | null;
+    created_at: string;
+}
+
+export type MockAppointmentChangeType = "reschedule" | "cancel";
+
+/** Student request to move / cancel a scheduled session, decided by the counselor. */
+export interface MockAppointmentChangeRequest {
+    id: number;
+    intake_request_id: number;
+    requested_by: number;
+    type: MockAppointmentChangeType;
+    proposed_date: string | null;
+    proposed_time: string | null;
+    reason: string;
+    status: "pending" | "accepted" | "declined";
+    decision_note: string | null;
+    decided_by: number | null;
+    decided_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type MockGroupSessionKind = "group" | "workshop";
+
+/** Group counseling session or workshop run by one counselor (times "HH:mm"). */
+export interface MockGroupSession {
+    id: number;
+    counselor_id: number;
+    kind: MockGroupSessionKind;
+    title: string;
+    topic: string;
+    description: string | null;
+    location: string | null;
+    date: string;
+    start_time: string;
+    end_time: string;
+    capacity: number;
+    status: "open" | "cancelled";
+    cancel_reason: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** A student's seat in a group session; withdrawn rows free the seat. */
+export interface MockGroupEnrollment {
+    id: number;
+    group_session_id: number;
+    student_id: number;
+    status: "enrolled" | "withdrawn";
+    attendance: MockAttendance | null;
+    attendance_marked_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type MockSessionNoteFormat = "soap" | "dap";
+
+/**
+ * Confidential counselor documentation of one appointment or referral session.
+ * `sections` holds the format's fields (SOAP: subjective / objective /
+ * assessment / plan, DAP: data / assessment / plan). Draft → signed → locked.
+ */
+export interface MockSessionNote {
+    id: number;
+    subject_type: "appointment" | "referral";
+    subject_id: number;
+    format: MockSessionNoteFormat;
+    sections: Record<string, string>;
+    status: "draft" | "signed" | "locked";
+    author_id: number;
+    signed_at: string | null;
+    locked_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Change made to a signed note; keeps the text it replaced. */
+export interface MockSessionNoteAmendment {
+    id: number;
+    session_note_id: number;
+    reason: string;
+    previous_sections: Record<string, string>;
+    sections: Record<string, string>;
+    amended_by: number;
+    created_at: string;
+}
+
+/** A student's case: the counselor who owns it. At most one open case per student. */
+export interface MockCase {
+    id: number;
+    student_id: number;
+    counselor_id: number;
+    status: "open" | "closed";
+    opened_at: string;
+    /** null when opened automatically by a booking */
+    opened_by: number | null;
+    /** Latest closure; cleared again on reopen */
+    closed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** First and latest score of one measure over a case. */
+export interface MockOutcomeComparison {
+    first: number;
+    first_date: string;
+    first_label: string;
+    last: number;
+    last_date: string;
+    last_label: string;
+    count: number;
+}
+
+/** One closure of a case with its outcome snapshot; reopening fills the `reopened_*` fields. */
+export interface MockCaseClosure {
+    id: number;
+    case_id: number;
+    counselor_id: number;
+    termination_reason: string;
+    outcome_summary: string;
+    phq9: MockOutcomeComparison | null;
+    manual_score: MockOutcomeComparison | null;
+    closed_by: number;
+    closed_at: string;
+    reopened_at: string | null;
+    reopened_by: number | null;
+    reopen_reason: string | null;
+}
+
+/** Hand-over of a case to another counselor. */
+export interface MockCaseTransfer {
+    id: number;
+    case_id: number;
+    from_counselor_id: number;
+    to_counselor_id: number;
+    handoff_note: string;
+    transferred_by: number;
+    created_at: string;
+}
+
+/** Goal of a treatment plan; `progress` is the latest 0–4 rating. */
+export interface MockTreatmentGoal {
+    id: number;
+    description: string;
+    interventions: string | null;
+    target_date: string | null;
+    status: "in_progress" | "achieved" | "discontinued";
+    progress: number | null;
+}
+
+/** Per-student plan kept by a counselor (at most one active plan per student). */
+export interface MockTreatmentPlan {
+    id: number;
+    student_id: number;
+    counselor_id: number;
+    title: string;
+    summary: string | null;
+    status: "active" | "completed" | "discontinued";
+    start_date: string;
+    review_date: string | null;
+    goals: MockTreatmentGoal[];
+    created_at: string;
+    updated_at: string;
+}
+
+/** Goal ratings recorded after a session; each one writes a manual score. */
+export interface MockTreatmentProgress {
+    id: number;
+    treatment_plan_id: number;
+    session_date: string;
+    intake_request_id: number | null;
+    ratings: Array<{ goal_id: number; rating: number }>;
+    note: string | null;
+    score: number;
+    manual_score_id: number | null;
+    recorded_by: number;
+    created_at: string;
+}
+
+export type MockFrequency = "not_at_all" | "several_days" | "more_than_half" | "nearly_every_day";
+
+/** Answers to an additional instrument (GAD-7, PSS-10) stored with the assessment. */
+export interface MockScreening {
+    instrument: string;
+    responses: Record<string, string | null>;
+}
+
+export interface MockAssessment {
+    id: number;
+    user_id: number;
+    consent: boolean;
+    student_name: string | null;
+    age: number | null;
+    gender: string | null;
+    occupation: string | null;
+    living_situation: string | null;
+    living_situation_other: string | null;
+    mh_little_interest: MockFrequency | null;
+    mh_feeling_down: MockFrequency | null;
+    mh_sleep: MockFrequency | null;
+    mh_energy: MockFrequency | null;
+    mh_appetite: MockFrequency | null;
+    mh_self_esteem: MockFrequency | null;
+    mh_concentration: MockFrequency | null;
+    mh_motor: MockFrequency | null;
+    mh_self_harm: MockFrequency | null;
+    /** Item 9 answered above "not_at_all" */
+    high_risk: boolean;
+    risk_flagged_at: string | null;
+    risk_acknowledged_at: string | null;
+    risk_acknowledged_by: number | null;
+    risk_follow_up_action: string | null;
+    risk_follow_up_notes: string | null;
+    screenings: MockScreening[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface MockReferral {
+    id: number;
+    student_id: number;
+    requested_by_id: number;
+    counselor_id: number | null;
+    concern_type: string;
+    urgency: "low" | "medium" | "high";
+    details: string;
+    status: "pending" | "handled" | "closed";
+    remarks: string | null;
+    scheduled_date: string | null;
+    scheduled_time: string | null;
+    /** iCalendar SEQUENCE: bumped when the schedule or status changes (missing = 0). */
+    schedule_sequence?: number;
+    handled_at: string | null;
+    closed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Weekly availability window (`weekday` = `Date#getDay()`, times "HH:mm"). */
+export interface MockAvailabilityRule {
+    id: number;
+    counselor_id: number;
+    weekday: number;
+    start_time: string;
+    end_time: string;
+    slot_minutes: number;
+}
+
+/** Holiday (office-wide, `counselor_id` null) or one counselor's blocked time. */
+export interface MockAvailabilityBlock {
+    id: number;
+    counselor_id: number | null;
+    kind: "holiday" | "blocked";
+    date: string;
+    start_time: string | null;
+    end_time: string | null;
+    reason: string | null;
+    created_at: string;
+}
+
+/** Hardcopy assessment score encoded by a counselor (`manual_assessment_scores`). */
+export interface MockManualScore {
+    id: number;
+    student_id: number;
+    counselor_id: number;
+    score: number;
+    rating: string;
+    assessed_date: string;
+    remarks: string | null;
+    /** Set when the score was written by a treatment plan progress update */
+    treatment_plan_id: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** Secret token of a user's private `.ics` subscription feed. */
+export interface MockCalendarFeed {
+    user_id: number;
+    token: string;
+    created_at: string;
+}
+
+export type MockReminderChannel = "in_app" | "email";
+
+/** Reminder preferences; users without a row get `DEFAULT_REMINDER_SETTINGS`. */
+export interface MockReminderSettings {
+    user_id: number;
+    channels: MockReminderChannel[];
+    offsets_minutes: number[];
+    updated_at: string;
+}
+
+/** A reminder that was sent (email rows double as the outbox log). */
+export interface MockReminder {
+    id: number;
+    user_id: number;
+    channel: MockReminderChannel;
+    session_type: "appointment" | "referral";
+    session_id: number;
+    /** Schedule version the reminder was sent for; a reschedule re-arms reminders */
+    schedule_sequence: number;
+    offset_minutes: number;
+    session_date: string;
+    session_time: string | null;
+    title: string;
+    body: string;
+    created_at: string;
+    read_at: string | null;
+}
+
+export interface MockMessage {
+    id: number;
+    /** Student / guest / referral user that owns the thread (null for counselor ↔ counselor). */
+    user_id: number | null;
+    sender_id: number;
+    sender: string;
+    recipient_id: number;
+    recipient_role: string;
+    content: string;
+    is_read: boolean;
+    created_at: string;
+    updated_at: string;
+    /** Last edit by the sender (or an admin) */
+    edited_at?: string | null;
+    /** Deleted for everyone: the row stays as a placeholder with its text cleared */
+    deleted_at?: string | null;
+    /** Users who deleted it for themselves only */
+    hidden_for?: number[];
+}
+
+/** Append-only log of edits and deletes-for-everyone; keeps the text that was replaced. */
+export interface MockMessageRevision {
+    id: number;
+    message_id: number;
+    action: "edited" | "deleted";
+    previous_content: string;
+    /** Null for deletes */
+    content: string | null;
+    actor_id: number;
+    created_at: string;
+}
+
+export type MockScanStatus = "pending" | "clean" | "infected" | "failed";
+
+export interface MockMessageAttachment {
+    id: number;
+    message_id: number;
+    file_name: string;
+    mime_type: string;
+    size: number;
+    /** Stored result; `pending` settles once `scan_ready_at` passes (stand-in for the scanner job). */
+    scan_status: MockScanStatus;
+    scan_ready_at: string;
+    /** Object URL of the uploaded blob (stands in for the private disk) */
+    blob_url: string;
+    created_at: string;
+}
+
+export interface MockDb {
+    users: MockUser[];
+    intakeRequests: MockIntakeRequest[];
+    appointmentStatusChanges: MockAppointmentStatusChange[];
+    appointmentChangeRequests: MockAppointmentChangeRequest[];
+    groupSessions: MockGroupSession[];
+    groupEnrollments: MockGroupEnrollment[];
+    sessionNotes: MockSessionNote[];
+    sessionNoteAmendments: MockSessionNoteAmendment[];
+    cases: MockCase[];
+    caseTransfers: MockCaseTransfer[];
+    caseClosures: MockCaseClosure[];
+    treatmentPlans: MockTreatmentPlan[];
+    treatmentProgress: MockTreatmentProgress[];
+    assessments: MockAssessment[];
+    referrals: MockReferral[];
+    manualScores: MockManualScore[];
+    availabilityRules: MockAvailabilityRule[];
+    availabilityBlocks: MockAvailabilityBlock[];
+    calendarFeeds: MockCalendarFeed[];
+    reminderSettings: MockReminderSettings[];
+    reminders: MockReminder[];
+    messages: MockMessage[];
+    messageAttachments: MockMessageAttachment[];
+    messageRevisions: MockMessageRevision[];
+    /** Bearer token → user id */
+    tokens: Map<string, number>;
+}
+
+function daysFromNow(days: number, hour = 9): Date {
+    const d = new Date();
+    d.setDate(d.getDate() + days);
+    d.setHours(hour, 0, 0, 0);
+    return d;
+}
+
+function isoDaysAgo(days: number, hour = 9): string {
+    return daysFromNow(-days, hour).toISOString();
+}
+
+function dateOnly(d: Date): string {
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, "0");
+    const day = String(d.getDate()).padStart(2, "0");
+    return `${y}-${m}-${day}`;
+}
+
+function seedUser(
+    id: number,
+    name: string,
+    email: string,
+    role: MockRole,
+    extra: Partial<MockUser> = {},
+): MockUser {
+    const createdAt = isoDaysAgo(120);
+    return {
+        id,
+        name,
+        email,
+        password: MOCK_PASSWORD,
+        role,
+        account_type: null,
+        gender: null,
+        student_id: null,
+        program: null,
+        course: null,
+        year_level: null,
+        avatar_url: null,
+        email_verified_at: createdAt,
+        created_at: createdAt,
+        updated_at: createdAt,
+        ...extra,
+    };
+}
+
+function seedUsers(): MockUser[] {
+    const student = (
+        id: number,
+        name: string,
+        email: string,
+        studentId: string,
+        program: string,
+        yearLevel: string,
+        gender: string,
+    ) =>
+        seedUser(id, name, email, "student", {
+            account_type: "student",
+            student_id: studentId,
+            program,
+            course: program,
+            year_level: yearLevel,
+            gender,
+        });
+
+    return [
+        seedUser(1, "Admin Office", "admin@jrmsu.test", "admin", { gender: "female" }),
+        seedUser(2, "Maria Santos", "counselor@jrmsu.test", "counselor", {
+            gender: "female",
+            specializations: ["personal", "family", "mental_health"],
+        }),
+        seedUser(3, "Jose Ramirez", "counselor2@jrmsu.test", "counselor", {
+            gender: "male",
+            specializations: ["academic", "career"],
+        }),
+        student(4, "Juan Dela Cruz", "student@jrmsu.test", "TC-2021-0001", "BSIT", "3rd Year", "male"),
+        student(5, "Ana Reyes", "ana.reyes@jrmsu.test", "TC-2022-0142", "BSED", "2nd Year", "female"),
+        student(6, "Mark Villanueva", "mark.villanueva@jrmsu.test", "TC-2023-0310", "BSCRIM", "1st Year", "male"),
+        seedUser(7, "Guest Visitor", "guest@jrmsu.test", "guest", { account_type: "guest" }),
+        seedUser(8, "Dean Alvarez", "dean@jrmsu.test", "dean", { account_type: "referral_user", gender: "male" }),
+        seedUser(9, "Registrar Office", "registrar@jrmsu.test", "registrar", { account_type: "referral_user" }),
+    ];
+}
+
+function seedIntakeRequests(): MockIntakeRequest[] {
+    const row = (
+        id: number,
+        userId: number,
+        daysAgo: number,
+        fields: Partial<MockIntakeRequest>,
+    ): MockIntakeRequest => {
+        const createdAt = isoDaysAgo(daysAgo);
+        return {
+            id,
+            user_id: userId,
+            counselor_id: null,
+            concern_type: "academic",
+            urgency: "medium",
+            preferred_date: dateOnly(daysFromNow(-daysAgo + 3)),
+            preferred_time: "9:00 AM",
+            scheduled_date: null,
+            scheduled_time: null,
+            details: "",
+            status: "requested",
+            created_at: createdAt,
+            updated_at: createdAt,
+            ...fields,
+        };
+    };
+
+    return [
+        row(1, 4, 2, {
+            concern_type: "academic",
+            urgency: "medium",
+            details: "Struggling to keep up with requirements this semester.",
+        }),
+        row(2, 5, 6, {
+            concern_type: "personal",
+            urgency: "high",
+            details: "Having trouble sleeping and feeling anxious before exams.",
+            counselor_id: 2,
+            status: "scheduled",
+            scheduled_date: dateOnly(daysFromNow(2)),
+            scheduled_time: "10:00 AM",
+        }),
+        row(3, 6, 20, {
+            concern_type: "career",
+            urgency: "low",
+            details: "Would like guidance on choosing a specialization.",
+            counselor_id: 3,
+            status: "completed",
+            scheduled_date: dateOnly(daysFromNow(-14)),
+            scheduled_time: "2:00 PM",
+            attendance: "attended",
+            attendance_marked_at: isoDaysAgo(14, 16),
+            attendance_marked_by: 3,
+        }),
+        row(4, 4, 45, {
+            concern_type: "family",
+            urgency: "medium",
+            details: "Family situation is affecting my studies.",
+            counselor_id: 2,
+            status: "completed",
+            scheduled_date: dateOnly(daysFromNow(-40)),
+            scheduled_time: "1:30 PM",
+            attendance: "attended",
+            attendance_marked_at: isoDaysAgo(40, 15),
+            attendance_marked_by: 2,
+        }),
+        row(5, 7, 1, {
+            concern_type: "other",
+            urgency: "low",
+            details: "Inquiry about counseling services for new enrollees.",
+        }),
+        row(6, 5, 9, {
+            concern_type: "academic",
+            urgency: "medium",
+            details: "Follow-up on exam anxiety coping plan.",
+            counselor_id: 2,
+            status: "scheduled",
+            scheduled_date: dateOnly(daysFromNow(-2)),
+            scheduled_time: "3:00 PM",
+        }),
+        row(7, 6, 1, {
+            concern_type: "mental_health",
+            urgency: "high",
+            details: "Panic attacks during class; no open slot this week.",
+            preferred_date: null,
+            preferred_time: null,
+            waitlisted_at: isoDaysAgo(1),
+        }),
+    ];
+}
+
+function seedAssessments(): MockAssessment[] {
+    const row = (
+        id: number,
+        userId: number,
+        name: string,
+        daysAgo: number,
+        answers: MockFrequency[],
+        extra: Partial<MockAssessment> = {},
+    ): MockAssessment => {
+        const createdAt = isoDaysAgo(daysAgo);
+        const [a, b, c, d, e, f, g, h, i] = answers;
+        return {
+            id,
+            user_id: userId,
+            consent: true,
+            student_name: name,
+            age: 20,
+            gender: null,
+            occupation: "Student",
+            living_situation: "with_family",
+            living_situation_other: null,
+            mh_little_interest: a,
+            mh_feeling_down: b,
+            mh_sleep: c,
+            mh_energy: d,
+            mh_appetite: e,
+            mh_self_esteem: f,
+            mh_concentration: g,
+            mh_motor: h,
+            mh_self_harm: i,
+            high_risk: i != null && i !== "not_at_all",
+            risk_flagged_at: i != null && i !== "not_at_all" ? createdAt : null,
+            risk_acknowledged_at: null,
+            risk_acknowledged_by: null,
+            risk_follow_up_action: null,
+            risk_follow_up_notes: null,
+            screenings: [],
+            created_at: createdAt,
+            updated_at: createdAt,
+            ...extra,
+        };
+    };
+
+    const none: MockFrequency = "not_at_all";
+    const some: MockFrequency = "several_days";
+    const half: MockFrequency = "more_than_half";
+    const most: MockFrequency = "nearly_every_day";
+
+    const screening = (instrument: string, keys: string[], answers: string[]): MockScreening => ({
+        instrument,
+        responses: Object.fromEntries(keys.map((key, idx) => [key, answers[idx] ?? null])),
+    });
+
+    const gadKeys = [
+        "gad_nervous",
+        "gad_control_worry",
+        "gad_worry_too_much",
+        "gad_trouble_relaxing",
+        "gad_restless",
+        "gad_irritable",
+        "gad_afraid",
+    ];
+    const pssKeys = [
+        "pss_upset_unexpected",
+        "pss_unable_control",
+        "pss_nervous_stressed",
+        "pss_confident_handle",
+        "pss_going_your_way",
+        "pss_could_not_cope",
+        "pss_control_irritations",
+        "pss_on_top",
+        "pss_angered",
+        "pss_difficulties_piling",
+    ];
+
+    return [
+        row(1, 4, "Juan Dela Cruz", 3, [some, some, half, some, none, some, half, none, none], {
+            gender: "male",
+            screenings: [
+                screening("gad7", gadKeys, [half, half, some, half, some, some, none]),
+                screening("pss10", pssKeys, [
+                    "sometimes",
+                    "fairly_often",
+                    "fairly_often",
+                    "sometimes",
+                    "almost_never",
+                    "sometimes",
+                    "sometimes",
+                    "almost_never",
+                    "sometimes",
+                    "fairly_often",
+                ]),
+            ],
+        }),
+        row(2, 5, "Ana Reyes", 7, [half, most, most, half, half, half, most, some, some], {
+            gender: "female",
+            age: 19,
+            screenings: [screening("gad7", gadKeys, [most, most, half, most, half, half, half])],
+        }),
+        row(3, 6, "Mark Villanueva", 25, [none, some, none, none, none, none, some, none, none], { gender: "male", age: 18 }),
+        row(4, 4, "Juan Dela Cruz", 50, [half, half, most, half, some, half, half, some, some], {
+            gender: "male",
+            risk_acknowledged_at: isoDaysAgo(49),
+            risk_acknowledged_by: 2,
+            risk_follow_up_action: "urgent_session_scheduled",
+            risk_follow_up_notes: "Called the student the same day; safety plan agreed and session held the next morning.",
+        }),
+    ];
+}
+
+function seedManualScores(): MockManualScore[] {
+    const row = (
+        id: number,
+        studentId: number,
+        daysAgo: number,
+        score: number,
+        rating: string,
+        remarks: string | null = null,
+        treatmentPlanId: number | null = null,
+    ): MockManualScore => {
+        const createdAt = isoDaysAgo(daysAgo, 15);
+        return {
+            id,
+            student_id: studentId,
+            counselor_id: 2,
+            score,
+            rating,
+            assessed_date: dateOnly(daysFromNow(-daysAgo)),
+            remarks,
+            treatment_plan_id: treatmentPlanId,
+            created_at: createdAt,
+            updated_at: createdAt,
+        };
+    };
+
+    return [
+        row(1, 4, 60, 48, "Poor", "Paper inventory at first walk-in."),
+        row(2, 4, 30, 62, "Fair"),
+        row(3, 4, 5, 75, "Good", 'Treatment plan "Coping with family changes": Reports better sleep and class attendance.', 1),
+        row(4, 5, 10, 55, "Fair"),
+    ];
+}
+
+function seedAvailability(): Pick<MockDb, "availabilityRules" | "availabilityBlocks"> {
+    const rules: MockAvailabilityRule[] = [];
+    const rule = (counselorId: number, weekday: number, start: string, end: string, slotMinutes: number) => {
+        rules.push({
+            id: rules.length + 1,
+            counselor_id: counselorId,
+            weekday,
+            start_time: start,
+            end_time: end,
+            slot_minutes: slotMinutes,
+        });
+    };
+
+    // Maria Santos: weekdays, 8–12 and 1–5
+    [1, 2, 3, 4, 5].forEach((weekday) => {
+        rule(2, weekday, "08:00", "12:00", 60);
+        rule(2, weekday, "13:00", "17:00", 60);
+    });
+
+    // Jose Ramirez: Monday / Wednesday / Friday mornings
+    [1, 3, 5].forEach((weekday) => rule(3, weekday, "09:00", "12:00", 30));
+
+    const createdAt = isoDaysAgo(10);
+    return {
+        availabilityRules: rules,
+        availabilityBlocks: [
+            {
+                id: 1,
+                counselor_id: null,
+                kind: "holiday",
+                date: dateOnly(daysFromNow(9)),
+                start_time: null,
+                end_time: null,
+                reason: "University foundation day",
+                created_at: createdAt,
+            },
+            {
+                id: 2,
+                counselor_id: 2,
+                kind: "blocked",
+                date: dateOnly(daysFromNow(3)),
+                start_time: "13:00",
+                end_time: "15:00",
+                reason: "Faculty meeting",
+                created_at: createdAt,
+            },
+        ],
+    };
+}
+
+/**
+ * Exam-week stress-management workshops (one held last month, one coming up)
+ * and a small peer support group.
+ */
+function seedGroupSessions(): Pick<MockDb, "groupSessions" | "groupEnrollments"> {
+    const session = (
+        id: number,
+        days: number,
+        fields: Pick<MockGroupSession, "counselor_id" | "kind" | "title" | "topic" | "start_time" | "end_time" | "capacity"> &
+            Partial<MockGroupSession>,
+    ): MockGroupSession => ({
+        id,
+        description: null,
+        location: "Guidance Office Conference Room",
+        date: dateOnly(daysFromNow(days)),
+        status: "open",
+        cancel_reason: null,
+        created_at: isoDaysAgo(Math.max(1, 14 - days)),
+        updated_at: isoDaysAgo(Math.max(1, 14 - days)),
+        ...fields,
+    });
+
+    const groupSessions: MockGroupSession[] = [
+        session(1, -30, {
+            counselor_id: 2,
+            kind: "workshop",
+            title: "Stress Management for Midterms",
+            topic: "Stress management",
+            description: "Breathing exercises, study planning and sleep hygiene before exam week.",
+            start_time: "14:00",
+            end_time: "16:00",
+            capacity: 25,
+        }),
+        session(2, 6, {
+            counselor_id: 2,
+            kind: "workshop",
+            title: "Stress Management for Finals",
+            topic: "Stress management",
+            description: "Practical coping skills for exam week. Bring a notebook.",
+            start_time: "14:00",
+            end_time: "16:00",
+            capacity: 25,
+        }),
+        session(3, 8, {
+            counselor_id: 3,
+            kind: "group",
+            title: "First-Year Adjustment Circle",
+            topic: "Adjustment",
+            location: "Guidance Office Room 2",
+            start_time: "09:00",
+            end_time: "10:30",
+            capacity: 8,
+        }),
+    ];
+
+    const enrollment = (
+        id: number,
+        groupSessionId: number,
+        studentId: number,
+        attendance: MockAttendance | null = null,
+    ): MockGroupEnrollment => ({
+        id,
+        group_session_id: groupSessionId,
+        student_id: studentId,
+        status: "enrolled",
+        attendance,
+        attendance_marked_at: attendance ? isoDaysAgo(30, 17) : null,
+        created_at: isoDaysAgo(35),
+        updated_at: isoDaysAgo(attendance ? 30 : 35),
+    });
+
+    return {
+        groupSessions,
+        groupEnrollments: [
+            enrollment(1, 1, 4, "attended"),
+            enrollment(2, 1, 5, "attended"),
+            enrollment(3, 1, 6, "no_show"),
+            enrollment(4, 2, 5),
+        ],
+    };
+}
+
+/** Signed SOAP note of Juan's completed session. */
+function seedSessionNotes(): MockSessionNote[] {
+    const signedAt = isoDaysAgo(40, 16);
+    return [
+        {
+            id: 1,
+            subject_type: "appointment",
+            subject_id: 4,
+            format: "soap",
+            sections: {
+                subjective: "Parents recently separated; finds it hard to focus on studies and has missed two classes.",
+                objective: "Alert and cooperative; tearful when describing home. Grades slipping in two subjects.",
+                assessment: "Adjustment difficulties linked to family changes. No risk indicators.",
+                plan: "Weekly study plan and coping strategies. Follow-up in two weeks; invite to the stress workshop.",
+            },
+            status: "signed",
+            author_id: 2,
+            signed_at: signedAt,
+            locked_at: null,
+            created_at: isoDaysAgo(40, 15),
+            updated_at: signedAt,
+        },
+    ];
+}
+
+/** Cases of the students each counselor has seen so far. */
+function seedCases(): MockCase[] {
+    const row = (id: number, studentId: number, counselorId: number, daysAgo: number): MockCase => {
+        const openedAt = isoDaysAgo(daysAgo);
+        return {
+            id,
+            student_id: studentId,
+            counselor_id: counselorId,
+            status: "open",
+            opened_at: openedAt,
+            opened_by: null,
+            closed_at: null,
+            created_at: openedAt,
+            updated_at: openedAt,
+        };
+    };
+
+    return [row(1, 4, 2, 45), row(2, 5, 2, 9), row(3, 6, 3, 20)];
+}
+
+/** Juan's plan after his family-concern session, rated once since. */
+function seedTreatmentPlans(): Pick<MockDb, "treatmentPlans" | "treatmentProgress"> {
+    const createdAt = isoDaysAgo(40, 16);
+    const ratedAt = isoDaysAgo(5, 15);
+    return {
+        treatmentPlans: [
+            {
+                id: 1,
+                student_id: 4,
+                counselor_id: 2,
+                title: "Coping with family changes",
+                summary: "Adjustment difficulties after the parents' separation; focus on routine and school engagement.",
+                status: "active",
+                start_date: dateOnly(daysFromNow(-40)),
+                review_date: dateOnly(daysFromNow(20)),
+                goals: [
+                    {
+                        id: 1,
+                        description: "Attend all classes for four straight weeks",
+                        interventions: "Weekly study plan; check-ins with the class adviser.",
+                        target_date: dateOnly(daysFromNow(10)),
+                        status: "in_progress",
+                        progress: 3,
+                    },
+                    {
+                        id: 2,
+                        description: "Use two coping strategies when feeling overwhelmed",
+                        interventions: "Breathing and journaling practice; stress management workshop.",
+                        target_date: dateOnly(daysFromNow(20)),
+                        status: "in_progress",
+                        progress: 2,
+                    },
+                    {
+                        id: 3,
+                        description: "Sleep at least seven hours on school nights",
+                        interventions: "Sleep hygiene handout; screen curfew agreed with the student.",
+                        target_date: dateOnly(daysFromNow(-10)),
+                        status: "achieved",
+                        progress: 4,
+                    },
+                ],
+                created_at: createdAt,
+                updated_at: ratedAt,
+            },
+        ],
+        treatmentProgress: [
+            {
+                id: 1,
+                treatment_plan_id: 1,
+                session_date: dateOnly(daysFromNow(-5)),
+                intake_request_id: null,
+                ratings: [
+                    { goal_id: 1, rating: 3 },
+                    { goal_id: 2, rating: 2 },
+                    { goal_id: 3, rating: 4 },
+                ],
+                note: "Reports better sleep and class attendance.",
+                score: 75,
+                manual_score_id: 3,
+                recorded_by: 2,
+                created_at: ratedAt,
+            },
+        ],
+    };
+}
+
+function seedReferrals(): MockReferral[] {
+    const row = (id: number, daysAgo: number, fields: Partial<MockReferral>): MockReferral => {
+        const createdAt = isoDaysAgo(daysAgo);
+        return {
+            id,
+            student_id: 4,
+            requested_by_id: 8,
+            counselor_id: null,
+            concern_type: "academic",
+            urgency: "medium",
+            details: "",
+            status: "pending",
+            remarks: null,
+            scheduled_date: null,
+            scheduled_time: null,
+            handled_at: null,
+            closed_at: null,
+            created_at: createdAt,
+            updated_at: createdAt,
+            ...fields,
+        };
+    };
+
+    return [
+        row(1, 1, {
+            student_id: 6,
+            concern_type: "behavioral",
+            urgency: "high",
+            details: "Repeated absences and withdrawn behavior in class.",
+        }),
+        row(2, 9, {
+            student_id: 5,
+            requested_by_id: 9,
+            counselor_id: 2,
+            concern_type: "academic",
+            urgency: "medium",
+            details: "Pending incomplete grades; student requested support.",
+            status: "handled",
+            remarks: "Initial session done, follow-up scheduled.",
+            scheduled_date: dateOnly(daysFromNow(3)),
+            scheduled_time: "9:00 AM",
+            handled_at: isoDaysAgo(7),
+        }),
+        row(3, 30, {
+            student_id: 4,
+            counselor_id: 3,
+            concern_type: "personal",
+            urgency: "low",
+            details: "Adjustment concerns after transferring sections.",
+            status: "closed",
+            remarks: "Resolved after two sessions.",
+            handled_at: isoDaysAgo(28),
+            closed_at: isoDaysAgo(21),
+        }),
+    ];
+}
+
+function seedMessages(): MockMessage[] {
+    const row = (
+        id: number,
+        minutesAgo: number,
+        fields: Omit<MockMessage, "id" | "created_at" | "updated_at" | "is_read"> & { is_read?: boolean },
+    ): MockMessage => {
+        const createdAt = new Date(Date.now() - minutesAgo * 60_000).toISOString();
+        return { id, is_read: true, created_at: createdAt, updated_at: createdAt, ...fields };
+    };
+
+    return [
+        row(1, 60 * 26, {
+            user_id: 4,
+            sender_id: 4,
+            sender: "student",
+            recipient_id: 2,
+            recipient_role: "counselor",
+            content: "Good morning po, can I ask about my appointment request?",
+        }),
+        row(2, 60 * 25, {
+            user_id: 4,
+            sender_id: 2,
+            sender: "counselor",
+            recipient_id: 4,
+            recipient_role: "student",
+            content: "Good morning Juan! I received it and will schedule you this week.",
+        }),
+        row(3, 35, {
+            user_id: 4,
+            sender_id: 2,
+            sender: "counselor",
+            recipient_id: 4,
+            recipient_role: "student",
+            content: "Does Thursday 9:00 AM work for you?",
+            is_read: false,
+        }),
+        row(4, 90, {
+            user_id: 5,
+            sender_id: 5,
+            sender: "student",
+            recipient_id: 2,
+            recipient_role: "counselor",
+            content: "Thank you for yesterday's session, ma'am.",
+            is_read: false,
+        }),
+        row(5, 60 * 5, {
+            user_id: 8,
+            sender_id: 8,
+            sender: "referral_user",
+            recipient_id: 2,
+            recipient_role: "counselor",
+            content: "I submitted a referral for Mark Villanueva. Please check when available.",
+            is_read: false,
+        }),
+        row(6, 60 * 48, {
+            user_id: null,
+            sender_id: 3,
+            sender: "counselor",
+            recipient_id: 2,
+            recipient_role: "counselor",
+            content: "Can you cover my 2 PM slot on Friday?",
+        }),
+    ];
+}
+
+/**
+ * History consistent with the seeded statuses: requested by the student,
+ * scheduled by the counselor, then closed when the session took place.
+ */
+function seedStatusChanges(requests: MockIntakeRequest[]): MockAppointmentStatusChange[] {
+    const out: MockAppointmentStatusChange[] = [];
+    const push = (
+        r: MockIntakeRequest,
+        from: MockAppointmentStatus | null,
+        to: MockAppointmentStatus,
+        changedBy: number | null,
+        at: string,
+    ) =>
+        out.push({
+            id: out.length + 1,
+            intake_request_id: r.id,
+            from_status: from,
+            to_status: to,
+            reason: null,
+            scheduled_date: to === "requested" ? null : r.scheduled_date,
+            scheduled_time: to === "requested" ? null : r.scheduled_time,
+            changed_by: changedBy,
+            created_at: at,
+        });
+
+    requests.forEach((r) => {
+        push(r, null, "requested", r.user_id, r.created_at);
+        if (r.status === "requested") return;
+
+        const scheduledAt = new Date(new Date(r.created_at).getTime() + 86_400_000).toISOString();
+        push(r, "requested", "scheduled", r.counselor_id, scheduledAt);
+        if (r.status !== "scheduled") push(r, "scheduled", r.status, r.counselor_id, r.attendance_marked_at ?? r.updated_at);
+    });
+
+    return out;
+}
+
+function createSeed(): MockDb {
+    const intakeRequests = seedIntakeRequests();
+
+    return {
+        users: seedUsers(),
+        intakeRequests,
+        appointmentStatusChanges: seedStatusChanges(intakeRequests),
+        appointmentChangeRequests: [],
+        ...seedGroupSessions(),
+        sessionNotes: seedSessionNotes(),
+        sessionNoteAmendments: [],
+        cases: seedCases(),
+        caseTransfers: [],
+        caseClosures: [],
+        ...seedTreatmentPlans(),
+        assessments: seedAssessments(),
+        referrals: seedReferrals(),
+        manualScores: seedManualScores(),
+        ...seedAvailability(),
+        calendarFeeds: [],
+        reminderSettings: [],
+        reminders: [],
+        messages: seedMessages(),
+        messageAttachments: [],
+        messageRevisions: [],
+        tokens: new Map(),
+    };
+}
+
+export const db: MockDb = createSeed();
+
+/**
+ * Restore the seeded fixtures (drops every change and every issued token).
+ */
+export function resetMockDb(): void {
+    Object.assign(db, createSeed());
+}
+
+/**
+ * Next auto-increment id for a table.
+ */
+export function nextId(rows: Array<{ id: number }>): number {
+    return rows.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+}
+
+export function nowIso(): string {
+    return new Date().toISOString();
+}
+
+export function findUser(id: unknown): MockUser | undefined {
+    const n = Number(id);
+    return db.users.find((u) => u.id === n);
+}
+
+export function isReferralRole(role: string): boolean {
+    return role === "referral_user" || role === "dean" || role === "registrar" || role === "program_chair";
+}
+
+/**
+ * Public shape of a user (what Laravel's UserResource returns — never the password).
+ */
+export function toUserResource(user: MockUser) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { password, ...rest } = user;
+    return rest;
+}
@@ -0,0 +1,149 @@
+import { db, findUser, MOCK_ROLES, nextId, nowIso, toUserResource, type MockRole, type MockUser } from "@/mock/db";
+import {
+    hasField,
+    matchesSearch,
+    notFound,
+    optionalString,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+function requireRole(value: unknown): MockRole {
+    const role = String(value ?? "").trim().toLowerCase();
+    if (!MOCK_ROLES.includes(role as MockRole)) validationError("role", "The selected role is invalid.");
+    return role as MockRole;
+}
+
+function assertEmailAvailable(email: string, exceptId?: number): void {
+    const e = email.toLowerCase();
+    if (db.users.some((u) => u.email.toLowerCase() === e && u.id !== exceptId)) {
+        validationError("email", "The email has already been taken.");
+    }
+}
+
+function assertPassword(body: Record<string, unknown>): string {
+    const password = requiredString(body, "password");
+    if (password.length < 8) validationError("password", "The password field must be at least 8 characters.");
+    if (password !== String(body.password_confirmation ?? "")) {
+        validationError("password", "The password field confirmation does not match.");
+    }
+    return password;
+}
+
+function accountTypeForRole(role: MockRole): MockUser["account_type"] {
+    if (role === "student" || role === "guest") return role;
+    if (role === "referral_user" || role === "dean" || role === "registrar" || role === "program_chair") {
+        return "referral_user";
+    }
+    return null;
+}
+
+export function registerAdminRoutes(router: MockRouter): void {
+    router
+        .get("/admin/roles", (req) => {
+            requireUser(req, ["admin"]);
+            return { roles: MOCK_ROLES };
+        })
+        .get("/admin/users", (req) => {
+            requireUser(req, ["admin"]);
+            const role = req.query.get("role");
+
+            const users = db.users
+                .filter((u) => !role || u.role === role)
+                .filter((u) => matchesSearch(req.query, u.name, u.email, u.student_id))
+                .map(toUserResource);
+
+            return { users };
+        })
+        .post("/admin/users", (req) => {
+            requireUser(req, ["admin"]);
+            const body = req.body ?? {};
+
+            const name = requiredString(body, "name");
+            const email = requiredString(body, "email");
+            assertEmailAvailable(email);
+            const role = requireRole(body.role);
+            const password = assertPassword(body);
+
+            const now = nowIso();
+            const user: MockUser = {
+                id: nextId(db.users),
+                name,
+                email,
+                password,
+                role,
+                account_type: accountTypeForRole(role),
+                gender: optionalString(body, "gender"),
+                student_id: null,
+                program: null,
+                course: null,
+                year_level: null,
+                avatar_url: null,
+                email_verified_at: now,
+                created_at: now,
+                updated_at: now,
+            };
+            db.users.push(user);
+
+            return respond(201, { message: "User created.", user: toUserResource(user) });
+        })
+        .patch("/admin/users/:id", (req) => {
+            requireUser(req, ["admin"]);
+            const user = findUser(req.params.id) ?? notFound("User not found.");
+            const body = req.body ?? {};
+
+            if (hasField(body, "name")) user.name = requiredString(body, "name");
+            if (hasField(body, "email")) {
+                const email = requiredString(body, "email");
+                assertEmailAvailable(email, user.id);
+                user.email = email;
+            }
+            if (hasField(body, "role")) {
+                user.role = requireRole(body.role);
+                user.account_type = accountTypeForRole(user.role);
+            }
+            if (hasField(body, "gender")) user.gender = optionalString(body, "gender");
+            if (optionalString(body, "password")) user.password = assertPassword(body);
+
+            user.updated_at = nowIso();
+            return { message: "User updated.", user: toUserResource(user) };
+        })
+        .patch("/admin/users/:id/role", (req) => {
+            requireUser(req, ["admin"]);
+            const user = findUser(req.params.id) ?? notFound("User not found.");
+
+            user.role = requireRole(req.body?.role);
+            user.account_type = accountTypeForRole(user.role);
+            user.updated_at = nowIso();
+
+            return { message: "Role updated.", user: toUserResource(user) };
+        })
+        .delete("/admin/users/:id", (req) => {
+            const admin = requireUser(req, ["admin"]);
+            const user = findUser(req.params.id) ?? notFound("User not found.");
+            if (user.id === admin.id) validationError("user", "You cannot delete your own account.");
+
+            db.users = db.users.filter((u) => u.id !== user.id);
+            db.tokens.forEach((userId, token) => {
+                if (userId === user.id) db.tokens.delete(token);
+            });
+
+            return { message: "User deleted." };
+        })
+        .get("/counselor/users", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            const role = req.query.get("role");
+            const limit = Number(req.query.get("limit")) || 50;
+
+            const users = db.users
+                .filter((u) => !role || u.role === role)
+                .filter((u) => matchesSearch(req.query, u.name, u.email, u.student_id))
+                .slice(0, limit)
+                .map(toUserResource);
+
+            return { users };
+        });
+}
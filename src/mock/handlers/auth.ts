@@ -0,0 +1,147 @@
+import { db, nextId, nowIso, toUserResource, type MockRole, type MockUser } from "@/mock/db";
+import {
+    hasField,
+    optionalString,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+function issueToken(user: MockUser): string {
+    const token = `mock-${user.id}-${Math.random().toString(36).slice(2, 12)}`;
+    db.tokens.set(token, user.id);
+    return token;
+}
+
+function findByEmail(email: string): MockUser | undefined {
+    const e = email.trim().toLowerCase();
+    return db.users.find((u) => u.email.toLowerCase() === e);
+}
+
+function assertPasswordConfirmed(body: Record<string, unknown>): string {
+    const password = requiredString(body, "password");
+    if (password.length < 8) validationError("password", "The password field must be at least 8 characters.");
+    if (password !== String(body?.password_confirmation ?? "")) {
+        validationError("password", "The password field confirmation does not match.");
+    }
+    return password;
+}
+
+/**
+ * PATCH /profile (and the role-prefixed variants used by the settings pages).
+ */
+function updateProfile(req: MockRequest) {
+    const user = requireUser(req);
+    const body = req.body ?? {};
+
+    if (hasField(body, "email")) {
+        const email = requiredString(body, "email");
+        const taken = findByEmail(email);
+        if (taken && taken.id !== user.id) validationError("email", "The email has already been taken.");
+        user.email = email;
+    }
+
+    if (hasField(body, "name")) user.name = requiredString(body, "name");
+    if (hasField(body, "gender")) user.gender = optionalString(body, "gender");
+
+    if (optionalString(body, "password")) {
+        if (body.current_password != null && String(body.current_password) !== user.password) {
+            validationError("current_password", "The current password is incorrect.");
+        }
+        user.password = assertPasswordConfirmed(body);
+    }
+
+    user.updated_at = nowIso();
+    return { message: "Profile updated successfully.", user: toUserResource(user) };
+}
+
+function uploadAvatar(req: MockRequest) {
+    const user = requireUser(req);
+    const file = req.body?.avatar;
+
+    if (!(typeof Blob !== "undefined" && file instanceof Blob)) {
+        validationError("avatar", "The avatar field is required.");
+    }
+
+    user.avatar_url = URL.createObjectURL(file);
+    user.updated_at = nowIso();
+    return { message: "Avatar updated.", user: toUserResource(user), avatar_url: user.avatar_url };
+}
+
+export function registerAuthRoutes(router: MockRouter): void {
+    router
+        .post("/auth/login", (req) => {
+            const email = requiredString(req.body, "email");
+            const password = requiredString(req.body, "password");
+
+            const user = findByEmail(email);
+            if (!user || user.password !== password) {
+                validationError("email", "These credentials do not match our records.");
+            }
+
+            return { user: toUserResource(user), token: issueToken(user) };
+        })
+        .post("/auth/register", (req) => {
+            const body = req.body ?? {};
+            const name = requiredString(body, "name");
+            const email = requiredString(body, "email");
+            if (findByEmail(email)) validationError("email", "The email has already been taken.");
+            const password = assertPasswordConfirmed(body);
+
+            const accountType = requiredString(body, "account_type", "account type");
+            if (!["student", "guest", "referral_user"].includes(accountType)) {
+                validationError("account_type", "The selected account type is invalid.");
+            }
+
+            const now = nowIso();
+            const user: MockUser = {
+                id: nextId(db.users),
+                name,
+                email,
+                password,
+                role: accountType as MockRole,
+                account_type: accountType as MockUser["account_type"],
+                gender: optionalString(body, "gender"),
+                student_id: optionalString(body, "student_id"),
+                program: optionalString(body, "program"),
+                course: optionalString(body, "course"),
+                year_level: optionalString(body, "year_level"),
+                avatar_url: null,
+                // Mock accounts skip the e-mail round trip
+                email_verified_at: now,
+                created_at: now,
+                updated_at: now,
+            };
+            db.users.push(user);
+
+            return respond(201, { user: toUserResource(user), token: issueToken(user) });
+        })
+        .post("/auth/logout", (req) => {
+            if (req.token) db.tokens.delete(req.token);
+            return { message: "Logged out." };
+        })
+        .get("/auth/me", (req) => ({ user: toUserResource(requireUser(req)) }))
+        .post("/auth/password/forgot", (req) => {
+            requiredString(req.body, "email");
+            return { message: "We have emailed your password reset link." };
+        })
+        .post("/auth/password/reset", (req) => {
+            const user = findByEmail(requiredString(req.body, "email"));
+            requiredString(req.body, "token");
+            if (!user) validationError("email", "We can't find a user with that email address.");
+
+            user.password = assertPasswordConfirmed(req.body);
+            return { message: "Your password has been reset." };
+        })
+        .post("/auth/email/resend-verification", () => ({ message: "Verification link sent." }))
+        .patch("/profile", updateProfile)
+        .patch("/student/profile", updateProfile)
+        .patch("/counselor/profile", updateProfile)
+        .patch("/admin/profile", updateProfile)
+        .patch("/referral-user/profile", updateProfile)
+        .post("/student/profile/avatar", uploadAvatar)
+        .post("/profile/avatar", uploadAvatar);
+}
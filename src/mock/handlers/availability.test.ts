@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { db, resetMockDb, type MockIntakeRequest } from "@/mock/db";
+import { assertNoScheduleConflict } from "@/mock/handlers/availability";
+import { MockHttpError } from "@/mock/http";
+
+const DATE = "2030-01-07";
+
+function counselorIds(): number[] {
+    return db.users.filter((u) => u.role === "counselor").map((u) => u.id);
+}
+
+function book(overrides: Partial<MockIntakeRequest>): MockIntakeRequest {
+    const row: MockIntakeRequest = {
+        id: db.intakeRequests.length + 100,
+        user_id: db.users.find((u) => u.role === "student")!.id,
+        counselor_id: counselorIds()[0],
+        concern_type: "academic",
+        urgency: "medium",
+        preferred_date: DATE,
+        preferred_time: "10:00",
+        scheduled_date: DATE,
+        scheduled_time: "10:00",
+        details: "",
+        status: "scheduled",
+        created_at: "2030-01-01T00:00:00Z",
+        updated_at: "2030-01-01T00:00:00Z",
+        ...overrides,
+    };
+    db.intakeRequests.push(row);
+    return row;
+}
+
+/** Try booking `time` for the first counselor; the thrown error, or null. */
+function conflictAt(time: string, ignoreId = 0): MockHttpError | null {
+    try {
+        assertNoScheduleConflict({
+            counselorId: counselorIds()[0],
+            date: DATE,
+            time,
+            ignore: { type: "appointment", id: ignoreId },
+        });
+        return null;
+    } catch (e) {
+        return e as MockHttpError;
+    }
+}
+
+describe("assertNoScheduleConflict", () => {
+    beforeEach(() => {
+        resetMockDb();
+        db.intakeRequests = [];
+        db.referrals = [];
+        db.availabilityRules = db.availabilityRules.map((r) => ({ ...r, slot_minutes: 60 }));
+    });
+
+    it("rejects any slot overlapping an existing booking", () => {
+        book({ scheduled_time: "10:00 AM" });
+
+        expect(conflictAt("10:00")?.status).toBe(409);
+        expect(conflictAt("10:30")?.status).toBe(409);
+        expect(conflictAt("09:30")?.status).toBe(409);
+    });
+
+    it("allows back-to-back slots", () => {
+        book({});
+
+        expect(conflictAt("09:00")).toBeNull();
+        expect(conflictAt("11:00")).toBeNull();
+    });
+
+    it("ignores the booking being moved, released bookings and other counselors", () => {
+        const own = book({});
+        book({ id: 201, status: "cancelled" });
+        book({ id: 202, counselor_id: counselorIds()[1] });
+
+        expect(conflictAt("10:00", own.id)).toBeNull();
+    });
+
+    it("counts a student's preferred slot until the request is scheduled", () => {
+        book({ scheduled_date: null, scheduled_time: null, preferred_time: "02:00 PM", status: "requested" });
+
+        expect(conflictAt("14:30")?.status).toBe(409);
+    });
+
+    it("describes the clashing booking", () => {
+        const other = book({});
+
+        expect(conflictAt("10:15")?.body).toMatchObject({
+            conflict: { type: "appointment", id: other.id, date: DATE, time: "10:00" },
+            errors: { scheduled_time: [expect.stringContaining(`is already booked on ${DATE} at 10:00`)] },
+        });
+    });
+});
@@ -0,0 +1,365 @@
+import { minutesToHHmm, timeToMinutes } from "@/lib/availability";
+import { db, findUser, nextId, nowIso, type MockAvailabilityBlock, type MockAvailabilityRule } from "@/mock/db";
+import {
+    MockHttpError,
+    notFound,
+    optionalString,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+const DEFAULT_SLOT_MINUTES = 60;
+const MAX_SLOT_RANGE_DAYS = 62;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Statuses whose schedule no longer holds the counselor's time. */
+const RELEASED_STATUSES = ["cancelled", "canceled", "rejected", "no_show"];
+
+function dayString(d: Date): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function parseDay(value: string): Date {
+    const [y, m, d] = value.split("-").map(Number);
+    return new Date(y, m - 1, d);
+}
+
+function slotMinutesFor(counselorId: number): number {
+    return db.availabilityRules.find((r) => r.counselor_id === counselorId)?.slot_minutes ?? DEFAULT_SLOT_MINUTES;
+}
+
+interface Booking {
+    type: "appointment" | "referral" | "group_session";
+    id: number;
+    counselor_id: number;
+    date: string;
+    start: number;
+    end: number;
+    time: string;
+    /** null for group sessions */
+    student_id: number | null;
+    title?: string;
+}
+
+/**
+ * Every schedule that holds a counselor's time: final schedules, slots a
+ * student booked (preferred date/time with a counselor) that are not final yet,
+ * and group sessions / workshops the counselor runs.
+ */
+function bookingsOn(counselorId: number, date: string): Booking[] {
+    const length = slotMinutesFor(counselorId);
+    const out: Booking[] = [];
+
+    db.intakeRequests.forEach((r) => {
+        if (r.counselor_id !== counselorId || RELEASED_STATUSES.includes(r.status)) return;
+        const day = r.scheduled_date ?? r.preferred_date;
+        const time = r.scheduled_date ? r.scheduled_time : r.preferred_time;
+        const start = timeToMinutes(time);
+        if (day !== date || start == null) return;
+        out.push({
+            type: "appointment",
+            id: r.id,
+            counselor_id: counselorId,
+            date,
+            start,
+            end: start + length,
+            time: String(time),
+            student_id: r.user_id,
+        });
+    });
+
+    db.referrals.forEach((r) => {
+        if (r.counselor_id !== counselorId || r.scheduled_date !== date) return;
+        const start = timeToMinutes(r.scheduled_time);
+        if (start == null) return;
+        out.push({
+            type: "referral",
+            id: r.id,
+            counselor_id: counselorId,
+            date,
+            start,
+            end: start + length,
+            time: String(r.scheduled_time),
+            student_id: r.student_id,
+        });
+    });
+
+    db.groupSessions.forEach((g) => {
+        if (g.counselor_id !== counselorId || g.date !== date || g.status === "cancelled") return;
+        const start = timeToMinutes(g.start_time);
+        const end = timeToMinutes(g.end_time);
+        if (start == null || end == null) return;
+        out.push({
+            type: "group_session",
+            id: g.id,
+            counselor_id: counselorId,
+            date,
+            start,
+            end,
+            time: g.start_time,
+            student_id: null,
+            title: g.title,
+        });
+    });
+
+    return out;
+}
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
+    return aStart < bEnd && bStart < aEnd;
+}
+
+function blocksOn(counselorId: number, date: string): MockAvailabilityBlock[] {
+    return db.availabilityBlocks.filter(
+        (b) => b.date === date && (b.counselor_id == null || b.counselor_id === counselorId),
+    );
+}
+
+function isBlocked(counselorId: number, date: string, start: number, end: number): boolean {
+    return blocksOn(counselorId, date).some((b) => {
+        const bStart = timeToMinutes(b.start_time);
+        const bEnd = timeToMinutes(b.end_time);
+        if (bStart == null || bEnd == null) return true; // whole day
+        return overlaps(start, end, bStart, bEnd);
+    });
+}
+
+interface SlotOptions {
+    ignoreIntakeId?: number | null;
+    ignoreReferralId?: number | null;
+}
+
+function openSlotsOn(counselorId: number, date: string, options: SlotOptions = {}) {
+    const day = parseDay(date);
+    const now = new Date();
+    const today = dayString(now);
+    if (date < today) return [];
+
+    const nowMinutes = date === today ? now.getHours() * 60 + now.getMinutes() : -1;
+    const taken = bookingsOn(counselorId, date).filter(
+        (b) =>
+            !(b.type === "appointment" && b.id === options.ignoreIntakeId) &&
+            !(b.type === "referral" && b.id === options.ignoreReferralId),
+    );
+
+    return db.availabilityRules
+        .filter((r) => r.counselor_id === counselorId && r.weekday === day.getDay())
+        .flatMap((rule) => {
+            const start = timeToMinutes(rule.start_time) ?? 0;
+            const end = timeToMinutes(rule.end_time) ?? 0;
+            const slots: Array<{ start: number; end: number }> = [];
+            for (let t = start; t + rule.slot_minutes <= end; t += rule.slot_minutes) {
+                slots.push({ start: t, end: t + rule.slot_minutes });
+            }
+            return slots;
+        })
+        .filter((s) => s.start > nowMinutes)
+        .filter((s) => !isBlocked(counselorId, date, s.start, s.end))
+        .filter((s) => !taken.some((b) => overlaps(s.start, s.end, b.start, b.end)))
+        .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * True when `time` starts one of the counselor's open slots on `date`.
+ */
+export function isOpenSlot(counselorId: number, date: string, time: unknown, options: SlotOptions = {}): boolean {
+    const start = timeToMinutes(time);
+    return start != null && openSlotsOn(counselorId, date, options).some((s) => s.start === start);
+}
+
+/**
+ * 409 when another appointment, referral or group session already holds the
+ * counselor at that time. `endTime` defaults to one slot after `time`.
+ */
+export function assertNoScheduleConflict(params: {
+    counselorId: number;
+    date: string;
+    time: unknown;
+    endTime?: unknown;
+    ignore: { type: Booking["type"]; id: number } | null;
+}): void {
+    const start = timeToMinutes(params.time);
+    if (start == null) return;
+    const end = timeToMinutes(params.endTime) ?? start + slotMinutesFor(params.counselorId);
+
+    const clash = bookingsOn(params.counselorId, params.date).find(
+        (b) => !(b.type === params.ignore?.type && b.id === params.ignore?.id) && overlaps(start, end, b.start, b.end),
+    );
+    if (!clash) return;
+
+    const counselor = findUser(params.counselorId);
+    const message = `${counselor?.name ?? "The counselor"} is already booked on ${clash.date} at ${clash.time}.`;
+    const error = new MockHttpError(409, message, { scheduled_time: [message] });
+    error.body = {
+        ...(error.body as Record<string, unknown>),
+        conflict: {
+            type: clash.type,
+            id: clash.id,
+            counselor_id: clash.counselor_id,
+            date: clash.date,
+            time: clash.time,
+            student_name: findUser(clash.student_id)?.name ?? null,
+            title: clash.title ?? null,
+        },
+    };
+    throw error;
+}
+
+function toAvailabilityResource(counselorId: number) {
+    return {
+        counselor_id: counselorId,
+        slot_minutes: slotMinutesFor(counselorId),
+        rules: db.availabilityRules
+            .filter((r) => r.counselor_id === counselorId)
+            .sort((a, b) => a.weekday - b.weekday || a.start_time.localeCompare(b.start_time)),
+        blocks: db.availabilityBlocks
+            .filter((b) => b.counselor_id == null || b.counselor_id === counselorId)
+            .sort((a, b) => a.date.localeCompare(b.date)),
+    };
+}
+
+function parseRule(entry: Record<string, unknown> | undefined, idx: number, counselorId: number, slotMinutes: number): Omit<MockAvailabilityRule, "id"> {
+    const weekday = Number(entry?.weekday);
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+        validationError(`rules.${idx}.weekday`, "The weekday must be between 0 (Sunday) and 6 (Saturday).");
+    }
+
+    const start = timeToMinutes(entry?.start_time);
+    const end = timeToMinutes(entry?.end_time);
+    if (start == null) validationError(`rules.${idx}.start_time`, "The start time must be a valid time (HH:mm).");
+    if (end == null) validationError(`rules.${idx}.end_time`, "The end time must be a valid time (HH:mm).");
+    if (end - start < slotMinutes) {
+        validationError(`rules.${idx}.end_time`, "Each window must be at least one slot long.");
+    }
+
+    return { counselor_id: counselorId, weekday, start_time: minutesToHHmm(start), end_time: minutesToHHmm(end), slot_minutes: slotMinutes };
+}
+
+export function registerAvailabilityRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/availability", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            return { availability: toAvailabilityResource(counselor.id) };
+        })
+        .put("/counselor/availability", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const body = req.body ?? {};
+
+            const slotMinutes = Number(body.slot_minutes);
+            if (!Number.isInteger(slotMinutes) || slotMinutes < 15 || slotMinutes > 240) {
+                validationError("slot_minutes", "The slot length must be between 15 and 240 minutes.");
+            }
+            if (!Array.isArray(body.rules)) validationError("rules", "The rules field must be an array.");
+
+            const rules = (body.rules as Array<Record<string, unknown> | undefined>).map((entry, idx) => parseRule(entry, idx, counselor.id, slotMinutes));
+
+            rules.forEach((rule, idx) => {
+                const clash = rules.findIndex(
+                    (other, j) =>
+                        j !== idx &&
+                        other.weekday === rule.weekday &&
+                        overlaps(
+                            timeToMinutes(rule.start_time) ?? 0,
+                            timeToMinutes(rule.end_time) ?? 0,
+                            timeToMinutes(other.start_time) ?? 0,
+                            timeToMinutes(other.end_time) ?? 0,
+                        ),
+                );
+                if (clash >= 0) validationError(`rules.${idx}.start_time`, "Windows on the same day must not overlap.");
+            });
+
+            db.availabilityRules = [
+                ...db.availabilityRules.filter((r) => r.counselor_id !== counselor.id),
+                ...rules.map((rule, idx) => ({ ...rule, id: nextId(db.availabilityRules) + idx })),
+            ];
+
+            return { message: "Weekly availability saved.", availability: toAvailabilityResource(counselor.id) };
+        })
+        .post("/counselor/availability/blocks", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const body = req.body ?? {};
+
+            const kind = requiredString(body, "kind");
+            if (kind !== "holiday" && kind !== "blocked") validationError("kind", "The selected kind is invalid.");
+
+            const date = requiredString(body, "date");
+            if (!DATE_PATTERN.test(date)) validationError("date", "The date must be a valid date (YYYY-MM-DD).");
+
+            const startRaw = optionalString(body, "start_time");
+            const endRaw = optionalString(body, "end_time");
+            if ((startRaw == null) !== (endRaw == null)) {
+                validationError("end_time", "Provide both start and end time, or neither for the whole day.");
+            }
+
+            let start: number | null = null;
+            let end: number | null = null;
+            if (startRaw != null) {
+                start = timeToMinutes(startRaw);
+                end = timeToMinutes(endRaw);
+                if (start == null) validationError("start_time", "The start time must be a valid time (HH:mm).");
+                if (end == null || end <= start) validationError("end_time", "The end time must be after the start time.");
+            }
+
+            const row: MockAvailabilityBlock = {
+                id: nextId(db.availabilityBlocks),
+                counselor_id: kind === "holiday" ? null : counselor.id,
+                kind,
+                date,
+                start_time: start == null ? null : minutesToHHmm(start),
+                end_time: end == null ? null : minutesToHHmm(end),
+                reason: optionalString(body, "reason"),
+                created_at: nowIso(),
+            };
+            db.availabilityBlocks.push(row);
+
+            return respond(201, { message: kind === "holiday" ? "Holiday added." : "Time blocked.", block: row });
+        })
+        .delete("/counselor/availability/blocks/:id", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const row = db.availabilityBlocks.find((b) => b.id === Number(req.params.id)) ?? notFound("Block not found.");
+            if (row.counselor_id != null && row.counselor_id !== counselor.id) notFound("Block not found.");
+
+            db.availabilityBlocks = db.availabilityBlocks.filter((b) => b.id !== row.id);
+            return { message: "Block removed." };
+        })
+        .get("/availability/slots", (req) => {
+            requireUser(req);
+
+            const from = req.query.get("from") ?? "";
+            const to = req.query.get("to") ?? "";
+            if (!DATE_PATTERN.test(from)) validationError("from", "The from date must be a valid date (YYYY-MM-DD).");
+            if (!DATE_PATTERN.test(to) || to < from) validationError("to", "The to date must be on or after the from date.");
+
+            const rawCounselor = req.query.get("counselor_id") ?? "";
+            const counselorFilter = /^\d+$/.test(rawCounselor) ? Number(rawCounselor) : null;
+            const ignoreIntakeId = Number(req.query.get("ignore_intake_id")) || null;
+            const ignoreReferralId = Number(req.query.get("ignore_referral_id")) || null;
+
+            const counselors = db.users.filter(
+                (u) => u.role === "counselor" && (counselorFilter == null || u.id === counselorFilter),
+            );
+
+            const slots: Array<Record<string, unknown>> = [];
+            const cursor = parseDay(from);
+            const last = parseDay(to);
+            for (let i = 0; cursor <= last && i < MAX_SLOT_RANGE_DAYS; i++, cursor.setDate(cursor.getDate() + 1)) {
+                const date = dayString(cursor);
+                counselors.forEach((c) => {
+                    openSlotsOn(c.id, date, { ignoreIntakeId, ignoreReferralId }).forEach((s) => {
+                        slots.push({
+                            counselor_id: c.id,
+                            counselor_name: c.name,
+                            date,
+                            start_time: minutesToHHmm(s.start),
+                            end_time: minutesToHHmm(s.end),
+                        });
+                    });
+                });
+            }
+
+            return { slots };
+        });
+}
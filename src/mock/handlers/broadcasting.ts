@@ -0,0 +1,19 @@
+import { userChannelName } from "@/lib/realtime";
+import { MockHttpError, requireUser, requiredString } from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { mockChannelAuth } from "@/mock/realtime";
+
+export function registerBroadcastingRoutes(router: MockRouter): void {
+    router.post("/broadcasting/auth", (req) => {
+        const user = requireUser(req);
+        const socketId = requiredString(req.body, "socket_id", "socket id");
+        const channel = requiredString(req.body, "channel_name", "channel name");
+
+        // routes/channels.php: users may only listen on their own channel
+        if (channel !== userChannelName(user.id)) {
+            throw new MockHttpError(403, "This action is unauthorized.");
+        }
+
+        return { auth: mockChannelAuth(socketId, channel) };
+    });
+}
@@ -0,0 +1,119 @@
+import { db, findUser, isReferralRole, nowIso, type MockCalendarFeed, type MockUser } from "@/mock/db";
+import { notFound, requireUser, respond } from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { buildIcsCalendar, sessionToIcsEvent, type IcsEvent } from "@/lib/ics";
+
+/** Cancelled sessions stay in the feed this long so subscribed calendars drop them. */
+const CANCELLED_GRACE_DAYS = 30;
+
+function newFeedToken(): string {
+    return Array.from({ length: 4 }, () => Math.random().toString(36).slice(2, 10)).join("");
+}
+
+function feedFor(user: MockUser): MockCalendarFeed {
+    const existing = db.calendarFeeds.find((f) => f.user_id === user.id);
+    if (existing) return existing;
+
+    const feed: MockCalendarFeed = { user_id: user.id, token: newFeedToken(), created_at: nowIso() };
+    db.calendarFeeds.push(feed);
+    return feed;
+}
+
+function toFeedResource(feed: MockCalendarFeed) {
+    return { url: `calendar/feed/${feed.token}.ics`, token: feed.token, created_at: feed.created_at };
+}
+
+function dayString(d: Date): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Upcoming sessions of one user, plus recently cancelled ones (STATUS:CANCELLED).
+ */
+function feedEvents(user: MockUser): IcsEvent[] {
+    const today = dayString(new Date());
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - CANCELLED_GRACE_DAYS);
+    const cancelledCutoff = dayString(cutoff);
+    const isCounselor = user.role === "counselor";
+
+    const keep = (date: string | null, event: IcsEvent | null): event is IcsEvent =>
+        !!date && !!event && (date >= today || (event.status === "CANCELLED" && date >= cancelledCutoff));
+
+    const appointments = db.intakeRequests
+        .filter((r) => (isCounselor ? r.counselor_id === user.id : r.user_id === user.id))
+        .map((r) => {
+            const student = findUser(r.user_id);
+            return {
+                date: r.scheduled_date,
+                event: sessionToIcsEvent({
+                    kind: "appointment",
+                    id: r.id,
+                    scheduled_date: r.scheduled_date,
+                    scheduled_time: r.scheduled_time,
+                    status: r.status,
+                    sequence: r.schedule_sequence,
+                    summary: isCounselor
+                        ? `Counseling session: ${student?.name ?? `Student #${r.user_id}`}`
+                        : "Counseling session (Guidance Office)",
+                    description: `Concern: ${r.concern_type}\nStatus: ${r.status}`,
+                    updated_at: r.updated_at,
+                }),
+            };
+        });
+
+    const referrals = db.referrals
+        .filter((r) =>
+            isCounselor
+                ? r.counselor_id === user.id
+                : isReferralRole(user.role)
+                  ? r.requested_by_id === user.id
+                  : r.student_id === user.id,
+        )
+        .map((r) => {
+            const student = findUser(r.student_id);
+            return {
+                date: r.scheduled_date,
+                event: sessionToIcsEvent({
+                    kind: "referral",
+                    id: r.id,
+                    scheduled_date: r.scheduled_date,
+                    scheduled_time: r.scheduled_time,
+                    status: r.status,
+                    sequence: r.schedule_sequence,
+                    summary:
+                        isCounselor || isReferralRole(user.role)
+                            ? `Referral session: ${student?.name ?? `Student #${r.student_id}`}`
+                            : "Referral counseling session (Guidance Office)",
+                    description: `Concern: ${r.concern_type}\nStatus: ${r.status}`,
+                    updated_at: r.updated_at,
+                }),
+            };
+        });
+
+    return [...appointments, ...referrals]
+        .filter((x) => keep(x.date, x.event))
+        .map((x) => x.event as IcsEvent)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.startMinutes - b.startMinutes);
+}
+
+export function registerCalendarFeedRoutes(router: MockRouter): void {
+    router
+        .get("/calendar/feed", (req) => {
+            const user = requireUser(req);
+            return { feed: toFeedResource(feedFor(user)) };
+        })
+        .post("/calendar/feed/rotate", (req) => {
+            const user = requireUser(req);
+            db.calendarFeeds = db.calendarFeeds.filter((f) => f.user_id !== user.id);
+            return { message: "Calendar link reset. The old link no longer works.", feed: toFeedResource(feedFor(user)) };
+        })
+        // Public: calendar apps fetch this without a bearer token
+        .get("/calendar/feed/:token", (req) => {
+            const token = req.params.token.replace(/\.ics$/i, "");
+            const feed = db.calendarFeeds.find((f) => f.token === token) ?? notFound("Calendar feed not found.");
+            const user = findUser(feed.user_id) ?? notFound("Calendar feed not found.");
+
+            return respond(200, buildIcsCalendar({ name: "JRMSU Counseling Sessions", events: feedEvents(user) }));
+        });
+}
@@ -0,0 +1,355 @@
+import { format } from "date-fns";
+
+import { isActiveAppointmentStatus, normalizeAppointmentStatus } from "@/lib/appointment-status";
+import { CASE_TERMINATION_REASONS, SPECIALIZATION_OPTIONS, type CaseTerminationReason } from "@/lib/cases";
+import { PHQ9_ITEM_KEYS, scorePhq9 } from "@/lib/phq9";
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    type MockCase,
+    type MockCaseClosure,
+    type MockOutcomeComparison,
+    type MockUser,
+} from "@/mock/db";
+import { deliverMessage } from "@/mock/handlers/messages";
+import {
+    MockHttpError,
+    notFound,
+    optionalString,
+    requireUser,
+    requiredString,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+export function toCaseResource(row: MockCase) {
+    return {
+        id: row.id,
+        student_id: row.student_id,
+        student_name: findUser(row.student_id)?.name ?? null,
+        counselor_id: row.counselor_id,
+        counselor_name: findUser(row.counselor_id)?.name ?? null,
+        status: row.status,
+        opened_at: row.opened_at,
+        closed_at: row.closed_at,
+        transfers: db.caseTransfers
+            .filter((t) => t.case_id === row.id)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+            .map((t) => ({
+                id: t.id,
+                from_counselor_id: t.from_counselor_id,
+                from_counselor_name: findUser(t.from_counselor_id)?.name ?? null,
+                to_counselor_id: t.to_counselor_id,
+                to_counselor_name: findUser(t.to_counselor_id)?.name ?? null,
+                handoff_note: t.handoff_note,
+                transferred_by_name: findUser(t.transferred_by)?.name ?? null,
+                created_at: t.created_at,
+            })),
+        closures: db.caseClosures
+            .filter((c) => c.case_id === row.id)
+            .sort((a, b) => a.closed_at.localeCompare(b.closed_at) || a.id - b.id)
+            .map((c) => ({
+                id: c.id,
+                counselor_id: c.counselor_id,
+                counselor_name: findUser(c.counselor_id)?.name ?? null,
+                termination_reason: c.termination_reason,
+                outcome_summary: c.outcome_summary,
+                phq9: c.phq9,
+                manual_score: c.manual_score,
+                closed_by_name: findUser(c.closed_by)?.name ?? null,
+                closed_at: c.closed_at,
+                reopened_at: c.reopened_at,
+                reopened_by_name: c.reopened_by != null ? (findUser(c.reopened_by)?.name ?? null) : null,
+                reopen_reason: c.reopen_reason,
+            })),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+export function openCaseOf(studentId: number): MockCase | undefined {
+    return db.cases.find((c) => c.student_id === studentId && c.status === "open");
+}
+
+/** Reopen a closed case for `counselorId`; the closure keeps who reopened it and why. */
+function reopen(row: MockCase, counselorId: number, reopenedBy: number | null, reason: string | null): void {
+    const now = nowIso();
+    const closure = db.caseClosures
+        .filter((c) => c.case_id === row.id && c.reopened_at == null)
+        .sort((a, b) => b.closed_at.localeCompare(a.closed_at))[0];
+    if (closure) {
+        closure.reopened_at = now;
+        closure.reopened_by = reopenedBy;
+        closure.reopen_reason = reason;
+    }
+
+    row.status = "open";
+    row.counselor_id = counselorId;
+    row.closed_at = null;
+    row.updated_at = now;
+}
+
+/**
+ * The student's open case; when there is none, reopens their last closed case
+ * (or opens a new one) owned by `counselorId`. An open case keeps its owner
+ * (moving it is a transfer).
+ */
+export function ensureOpenCase(studentId: number, counselorId: number, openedBy: number | null): MockCase {
+    const existing = openCaseOf(studentId);
+    if (existing) return existing;
+
+    const closed = db.cases
+        .filter((c) => c.student_id === studentId && c.status === "closed")
+        .sort((a, b) => (b.closed_at ?? "").localeCompare(a.closed_at ?? ""))[0];
+    if (closed) {
+        reopen(closed, counselorId, openedBy, "Booked a new appointment.");
+        return closed;
+    }
+
+    const now = nowIso();
+    const row: MockCase = {
+        id: nextId(db.cases),
+        student_id: studentId,
+        counselor_id: counselorId,
+        status: "open",
+        opened_at: now,
+        opened_by: openedBy,
+        closed_at: null,
+        created_at: now,
+        updated_at: now,
+    };
+    db.cases.push(row);
+    return row;
+}
+
+function compare(scores: { value: number; date: string; label: string }[]): MockOutcomeComparison | null {
+    if (scores.length === 0) return null;
+    const first = scores[0];
+    const last = scores[scores.length - 1];
+    return {
+        first: first.value,
+        first_date: first.date,
+        first_label: first.label,
+        last: last.value,
+        last_date: last.date,
+        last_label: last.label,
+        count: scores.length,
+    };
+}
+
+/** First on record vs latest PHQ-9 (scorable only) and manual score of the student. */
+function caseOutcome(studentId: number): Pick<MockCaseClosure, "phq9" | "manual_score"> {
+    const phq9 = db.assessments
+        .filter((a) => a.user_id === studentId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+        .map((a) => ({
+            result: scorePhq9(Object.fromEntries(PHQ9_ITEM_KEYS.map((key) => [key, a[key]]))),
+            date: a.created_at,
+        }))
+        .filter(({ result }) => result.bandScore != null)
+        .map(({ result, date }) => ({ value: result.bandScore as number, date, label: result.severity }));
+
+    const manual = db.manualScores
+        .filter((m) => m.student_id === studentId)
+        .sort((a, b) => a.assessed_date.localeCompare(b.assessed_date) || a.id - b.id)
+        .map((m) => ({ value: m.score, date: m.assessed_date, label: m.rating }));
+
+    return { phq9: compare(phq9), manual_score: compare(manual) };
+}
+
+function toCaseloadResource(counselor: MockUser) {
+    const today = format(new Date(), "yyyy-MM-dd");
+    return {
+        counselor_id: counselor.id,
+        counselor_name: counselor.name,
+        specializations: counselor.specializations ?? [],
+        open_cases: db.cases.filter((c) => c.counselor_id === counselor.id && c.status === "open").length,
+        upcoming_appointments: db.intakeRequests.filter(
+            (r) =>
+                r.counselor_id === counselor.id &&
+                isActiveAppointmentStatus(normalizeAppointmentStatus(r.status)) &&
+                r.scheduled_date != null &&
+                r.scheduled_date >= today,
+        ).length,
+    };
+}
+
+export function counselorCaseloads() {
+    return db.users
+        .filter((u) => u.role === "counselor")
+        .map(toCaseloadResource)
+        .sort((a, b) => b.open_cases - a.open_cases || a.counselor_name.localeCompare(b.counselor_name));
+}
+
+function findCase(req: MockRequest): MockCase {
+    return db.cases.find((c) => c.id === Number(req.params.id)) ?? notFound("Case not found.");
+}
+
+function assertCaseOwner(user: MockUser, row: MockCase, action: string): void {
+    if (user.role !== "admin" && row.counselor_id !== user.id) {
+        throw new MockHttpError(403, `Only the counselor who owns this case can ${action} it.`);
+    }
+}
+
+export function registerCaseRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/cases", (req) => {
+            const user = requireUser(req, ["counselor", "admin"]);
+            const raw = req.query.get("student_id") ?? "";
+            const studentId = /^\d+$/.test(raw) ? Number(raw) : null;
+            const rawStatus = req.query.get("status");
+            const status = rawStatus === "open" || rawStatus === "closed" ? rawStatus : null;
+
+            // Without a student: the signed-in counselor's open (or `status`) cases
+            const cases = db.cases
+                .filter((c) => (studentId != null ? c.student_id === studentId : c.counselor_id === user.id))
+                .filter((c) => (status ?? (studentId != null ? c.status : "open")) === c.status)
+                .sort((a, b) => b.opened_at.localeCompare(a.opened_at) || b.id - a.id)
+                .map(toCaseResource);
+
+            return { cases };
+        })
+        .post("/counselor/cases/:id/transfer", (req) => {
+            const user = requireUser(req, ["counselor", "admin"]);
+            const row = findCase(req);
+            if (row.status !== "open") validationError("status", "Only open cases can be transferred.");
+            assertCaseOwner(user, row, "transfer");
+
+            const body = req.body ?? {};
+            const target = findUser(body.counselor_id);
+            if (!target || target.role !== "counselor") {
+                validationError("counselor_id", "The selected counselor is invalid.");
+            }
+            if (target.id === row.counselor_id) {
+                validationError("counselor_id", "The case already belongs to this counselor.");
+            }
+            const handoffNote = requiredString(body, "handoff_note", "handoff note");
+
+            const now = nowIso();
+            const fromId = row.counselor_id;
+            db.caseTransfers.push({
+                id: nextId(db.caseTransfers),
+                case_id: row.id,
+                from_counselor_id: fromId,
+                to_counselor_id: target.id,
+                handoff_note: handoffNote,
+                transferred_by: user.id,
+                created_at: now,
+            });
+            row.counselor_id = target.id;
+            row.updated_at = now;
+
+            // The active treatment plan follows the case so the new counselor can keep rating it
+            for (const plan of db.treatmentPlans) {
+                if (plan.student_id === row.student_id && plan.status === "active" && plan.counselor_id === fromId) {
+                    plan.counselor_id = target.id;
+                    plan.updated_at = now;
+                }
+            }
+
+            const student = findUser(row.student_id);
+            deliverMessage(
+                user,
+                target,
+                `${student?.name ?? "A student"}'s case has been transferred to you by ${user.name}.\n\nHandoff note: ${handoffNote}`,
+            );
+
+            return { message: "Case transferred.", case: toCaseResource(row) };
+        })
+        .get("/counselor/cases/:id/outcome", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            const row = findCase(req);
+            return { outcome: caseOutcome(row.student_id) };
+        })
+        .post("/counselor/cases/:id/close", (req) => {
+            const user = requireUser(req, ["counselor", "admin"]);
+            const row = findCase(req);
+            if (row.status !== "open") validationError("status", "This case is already closed.");
+            assertCaseOwner(user, row, "close");
+
+            const body = req.body ?? {};
+            const reason = String(body.termination_reason ?? "") as CaseTerminationReason;
+            if (!CASE_TERMINATION_REASONS.includes(reason)) {
+                validationError("termination_reason", "Select a termination reason.");
+            }
+            const summary = requiredString(body, "outcome_summary", "outcome summary");
+
+            const today = format(new Date(), "yyyy-MM-dd");
+            const upcoming = db.intakeRequests.some(
+                (r) =>
+                    r.user_id === row.student_id &&
+                    isActiveAppointmentStatus(normalizeAppointmentStatus(r.status)) &&
+                    r.scheduled_date != null &&
+                    r.scheduled_date >= today,
+            );
+            if (upcoming) {
+                validationError("status", "Complete or cancel the student's upcoming appointments before closing the case.");
+            }
+
+            const now = nowIso();
+            db.caseClosures.push({
+                id: nextId(db.caseClosures),
+                case_id: row.id,
+                counselor_id: row.counselor_id,
+                termination_reason: reason,
+                outcome_summary: summary,
+                ...caseOutcome(row.student_id),
+                closed_by: user.id,
+                closed_at: now,
+                reopened_at: null,
+                reopened_by: null,
+                reopen_reason: null,
+            });
+            row.status = "closed";
+            row.closed_at = now;
+            row.updated_at = now;
+
+            // The active treatment plan ends with the case
+            for (const plan of db.treatmentPlans) {
+                if (plan.student_id === row.student_id && plan.status === "active") {
+                    plan.status = reason === "goals_met" ? "completed" : "discontinued";
+                    plan.updated_at = now;
+                }
+            }
+
+            return { message: "Case closed.", case: toCaseResource(row) };
+        })
+        .post("/counselor/cases/:id/reopen", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const row = findCase(req);
+            if (row.status !== "closed") validationError("status", "Only closed cases can be reopened.");
+            if (openCaseOf(row.student_id)) {
+                validationError("status", "This student already has an open case.");
+            }
+
+            reopen(row, counselor.id, counselor.id, optionalString(req.body ?? {}, "reason"));
+
+            return { message: "Case reopened.", case: toCaseResource(row) };
+        })
+        .get("/counselor/caseloads", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            return { counselors: counselorCaseloads() };
+        })
+        .get("/admin/caseloads", (req) => {
+            requireUser(req, ["admin"]);
+            return { counselors: counselorCaseloads() };
+        })
+        .put("/admin/counselors/:id/specializations", (req) => {
+            requireUser(req, ["admin"]);
+            const counselor = findUser(req.params.id);
+            if (!counselor || counselor.role !== "counselor") notFound("Counselor not found.");
+
+            const raw: unknown[] = Array.isArray(req.body?.specializations) ? req.body.specializations : [];
+            const specializations = Array.from(new Set(raw.map((s) => String(s))));
+            const unknown = specializations.find((s) => !SPECIALIZATION_OPTIONS.includes(s));
+            if (unknown) validationError("specializations", `"${unknown}" is not a concern type.`);
+
+            counselor.specializations = specializations;
+            counselor.updated_at = nowIso();
+
+            return { message: "Specializations saved.", counselor: toCaseloadResource(counselor) };
+        });
+}
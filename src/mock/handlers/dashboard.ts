@@ -0,0 +1,186 @@
+import { db, isReferralRole, type MockAttendance, type MockUser } from "@/mock/db";
+import { requireUser, type MockRequest } from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+function startOfSemester(now: Date): Date {
+    // 1st semester: Aug–Dec, 2nd semester: Jan–Jul
+    const month = now.getMonth();
+    return month >= 7 ? new Date(now.getFullYear(), 7, 1) : new Date(now.getFullYear(), 0, 1);
+}
+
+function parseDay(value: string | null, endOfDay = false): Date | null {
+    if (!value) return null;
+    const d = new Date(`${value}T${endOfDay ? "23:59:59" : "00:00:00"}`);
+    return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function localDay(d: Date): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function analyticsRange(req: MockRequest, now: Date): { start: Date; end: Date } {
+    return {
+        start: parseDay(req.query.get("start_date")) ?? startOfSemester(now),
+        end: parseDay(req.query.get("end_date"), true) ?? now,
+    };
+}
+
+/**
+ * Same payload as the Laravel analytics controllers: counseling requests
+ * created this month / this semester, plus monthly buckets within the range.
+ */
+function countingAnalytics(req: MockRequest) {
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const semesterStart = startOfSemester(now);
+
+    const { start, end } = analyticsRange(req, now);
+
+    const created = db.intakeRequests.map((r) => new Date(r.created_at));
+
+    const buckets = new Map<string, { year: number; month: number; count: number }>();
+    created
+        .filter((d) => d >= start && d <= end)
+        .forEach((d) => {
+            const key = `${d.getFullYear()}-${d.getMonth() + 1}`;
+            const row = buckets.get(key) ?? { year: d.getFullYear(), month: d.getMonth() + 1, count: 0 };
+            row.count += 1;
+            buckets.set(key, row);
+        });
+
+    const toDay = (d: Date) => d.toISOString().slice(0, 10);
+
+    return {
+        message: "Analytics fetched.",
+        this_month_count: created.filter((d) => d >= monthStart).length,
+        this_semester_count: created.filter((d) => d >= semesterStart).length,
+        range: { start_date: toDay(start), end_date: toDay(end) },
+        monthly_counts: Array.from(buckets.values()).sort((a, b) => a.year - b.year || a.month - b.month),
+    };
+}
+
+/**
+ * Attendance of sessions scheduled inside the range. `unmarked` counts past
+ * scheduled sessions the counselor has not marked yet; the no-show rate is
+ * no-shows + late cancels over all marked sessions (percent, one decimal).
+ */
+function attendanceAnalytics(req: MockRequest) {
+    const now = new Date();
+    const { start, end } = analyticsRange(req, now);
+    const todayKey = localDay(now);
+    const startKey = localDay(start);
+    const endKey = localDay(end);
+
+    const sessions = db.intakeRequests.filter(
+        (r) => r.scheduled_date && r.scheduled_date >= startKey && r.scheduled_date <= endKey,
+    );
+
+    const totals: Record<MockAttendance, number> = { attended: 0, no_show: 0, late_cancel: 0 };
+    const buckets = new Map<string, { year: number; month: number } & Record<MockAttendance, number>>();
+    let unmarked = 0;
+
+    sessions.forEach((r) => {
+        if (!r.attendance) {
+            const active = r.status === "scheduled" || r.status === "rescheduled";
+            if (active && (r.scheduled_date ?? "") <= todayKey) unmarked += 1;
+            return;
+        }
+
+        totals[r.attendance] += 1;
+
+        const [year, month] = (r.scheduled_date ?? "").split("-").map(Number);
+        const key = `${year}-${month}`;
+        const row = buckets.get(key) ?? { year, month, attended: 0, no_show: 0, late_cancel: 0 };
+        row[r.attendance] += 1;
+        buckets.set(key, row);
+    });
+
+    const marked = totals.attended + totals.no_show + totals.late_cancel;
+    const missed = totals.no_show + totals.late_cancel;
+
+    return {
+        attendance: {
+            ...totals,
+            unmarked,
+            no_show_rate: marked > 0 ? Math.round((missed / marked) * 1000) / 10 : 0,
+        },
+        monthly_attendance: Array.from(buckets.values()).sort((a, b) => a.year - b.year || a.month - b.month),
+    };
+}
+
+/**
+ * Group sessions / workshops held inside the range (cancelled ones excluded),
+ * bucketed by session month with enrolled and attended participants.
+ */
+function groupSessionAnalytics(req: MockRequest) {
+    const { start, end } = analyticsRange(req, new Date());
+    const startKey = localDay(start);
+    const endKey = localDay(end);
+
+    const buckets = new Map<string, { year: number; month: number; sessions: number; participants: number; attended: number }>();
+
+    db.groupSessions
+        .filter((g) => g.status !== "cancelled" && g.date >= startKey && g.date <= endKey)
+        .forEach((g) => {
+            const seats = db.groupEnrollments.filter((e) => e.group_session_id === g.id && e.status === "enrolled");
+            const [year, month] = g.date.split("-").map(Number);
+            const key = `${year}-${month}`;
+            const row = buckets.get(key) ?? { year, month, sessions: 0, participants: 0, attended: 0 };
+            row.sessions += 1;
+            row.participants += seats.length;
+            row.attended += seats.filter((e) => e.attendance === "attended").length;
+            buckets.set(key, row);
+        });
+
+    return {
+        monthly_group_sessions: Array.from(buckets.values()).sort((a, b) => a.year - b.year || a.month - b.month),
+    };
+}
+
+/** Badge counts of the nav menu; also pushed over the mock socket (`src/mock/realtime.ts`). */
+export function notificationCountsFor(user: MockUser) {
+    const unreadMessages = db.messages.filter((m) => m.recipient_id === user.id && !m.is_read).length;
+
+    let pendingAppointments = 0;
+    let newReferrals = 0;
+    let urgentRiskAlerts = 0;
+
+    if (user.role === "counselor") {
+        // New requests plus student reschedule / cancellation requests to decide
+        pendingAppointments =
+            db.intakeRequests.filter((r) => r.status === "requested").length +
+            db.appointmentChangeRequests.filter((c) => c.status === "pending").length;
+        newReferrals = db.referrals.filter((r) => r.status === "pending").length;
+        urgentRiskAlerts = db.assessments.filter((a) => a.high_risk && !a.risk_acknowledged_at).length;
+    } else if (user.role === "student" || user.role === "guest") {
+        pendingAppointments = db.intakeRequests.filter(
+            (r) =>
+                r.user_id === user.id &&
+                (r.status === "requested" || r.status === "scheduled" || r.status === "rescheduled"),
+        ).length;
+    } else if (isReferralRole(user.role)) {
+        newReferrals = db.referrals.filter(
+            (r) => r.requested_by_id === user.id && r.status !== "pending" && r.status !== "closed",
+        ).length;
+    }
+
+    return {
+        unread_messages: unreadMessages,
+        pending_appointments: pendingAppointments,
+        new_referrals: newReferrals,
+        urgent_risk_alerts: urgentRiskAlerts,
+    };
+}
+
+export function registerDashboardRoutes(router: MockRouter): void {
+    router
+        .get("/notifications/counts", (req) => ({ counts: notificationCountsFor(requireUser(req)) }))
+        .get("/counselor/analytics", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            return { ...countingAnalytics(req), ...attendanceAnalytics(req), ...groupSessionAnalytics(req) };
+        })
+        .get("/admin/analytics", (req) => {
+            requireUser(req, ["admin"]);
+            return countingAnalytics(req);
+        });
+}
@@ -0,0 +1,325 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    type MockAttendance,
+    type MockGroupSession,
+    type MockGroupSessionKind,
+    type MockUser,
+} from "@/mock/db";
+import {
+    MockHttpError,
+    notFound,
+    optionalString,
+    requireUser,
+    requiredString,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { assertNoScheduleConflict } from "@/mock/handlers/availability";
+import { deliverMessage } from "@/mock/handlers/messages";
+import { timeToMinutes } from "@/lib/availability";
+
+const KINDS: MockGroupSessionKind[] = ["group", "workshop"];
+const ATTENDANCE_STATUSES: MockAttendance[] = ["attended", "no_show", "late_cancel"];
+const MAX_CAPACITY = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function startOf(row: Pick<MockGroupSession, "date" | "start_time">): Date | null {
+    const minutes = timeToMinutes(row.start_time);
+    if (!DATE_PATTERN.test(row.date) || minutes == null) return null;
+    const [y, m, d] = row.date.split("-").map(Number);
+    return new Date(y, m - 1, d, 0, minutes);
+}
+
+function seatsOf(sessionId: number) {
+    return db.groupEnrollments.filter((e) => e.group_session_id === sessionId && e.status === "enrolled");
+}
+
+function toGroupSessionResource(row: MockGroupSession, viewer: MockUser) {
+    const seats = seatsOf(row.id);
+    const mine = seats.find((e) => e.student_id === viewer.id);
+    const isStaff = viewer.role === "counselor" || viewer.role === "admin";
+
+    return {
+        id: row.id,
+        counselor_id: row.counselor_id,
+        counselor_name: findUser(row.counselor_id)?.name ?? null,
+        kind: row.kind,
+        title: row.title,
+        topic: row.topic,
+        description: row.description,
+        location: row.location,
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        capacity: row.capacity,
+        enrolled_count: seats.length,
+        seats_left: Math.max(0, row.capacity - seats.length),
+        status: row.status,
+        cancel_reason: row.cancel_reason,
+        ...(isStaff
+            ? {
+                  participants: seats.map((e) => {
+                      const student = findUser(e.student_id);
+                      return {
+                          id: e.id,
+                          student_id: e.student_id,
+                          student_name: student?.name ?? null,
+                          student_email: student?.email ?? null,
+                          attendance: e.attendance,
+                          attendance_marked_at: e.attendance_marked_at,
+                          enrolled_at: e.created_at,
+                      };
+                  }),
+              }
+            : { is_enrolled: !!mine, my_attendance: mine?.attendance ?? null }),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function findSession(req: MockRequest): MockGroupSession {
+    return db.groupSessions.find((g) => g.id === Number(req.params.id)) ?? notFound("Group session not found.");
+}
+
+/** Counselors manage their own sessions; admins any. */
+function findOwnSession(req: MockRequest, counselor: MockUser): MockGroupSession {
+    const row = findSession(req);
+    if (counselor.role !== "admin" && row.counselor_id !== counselor.id) {
+        throw new MockHttpError(403, "This action is unauthorized.");
+    }
+    return row;
+}
+
+function parseGroupSession(body: any, existing: MockGroupSession | null, counselorId: number) {
+    const kind = requiredString(body, "kind") as MockGroupSessionKind;
+    if (!KINDS.includes(kind)) validationError("kind", "The selected kind is invalid.");
+
+    const date = requiredString(body, "date");
+    if (!DATE_PATTERN.test(date)) validationError("date", "The date must be a valid date (YYYY-MM-DD).");
+
+    const startTime = requiredString(body, "start_time", "start time");
+    const endTime = requiredString(body, "end_time", "end time");
+    const start = timeToMinutes(startTime);
+    const end = timeToMinutes(endTime);
+    if (start == null) validationError("start_time", "The start time must be a valid time (HH:mm).");
+    if (end == null || end <= start) validationError("end_time", "The end time must be after the start time.");
+
+    const capacity = Number(body?.capacity);
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_CAPACITY) {
+        validationError("capacity", `The capacity must be between 1 and ${MAX_CAPACITY}.`);
+    }
+    const enrolled = existing ? seatsOf(existing.id).length : 0;
+    if (capacity < enrolled) {
+        validationError("capacity", `${enrolled} students are already enrolled; the capacity cannot be lower.`);
+    }
+
+    const fields = {
+        kind,
+        title: requiredString(body, "title"),
+        topic: requiredString(body, "topic"),
+        description: optionalString(body, "description"),
+        location: optionalString(body, "location"),
+        date,
+        start_time: startTime,
+        end_time: endTime,
+        capacity,
+    };
+
+    const moved = !existing || existing.date !== date || existing.start_time !== startTime || existing.end_time !== endTime;
+    if (moved) {
+        if ((startOf(fields) ?? new Date(0)) <= new Date()) {
+            validationError("date", "The session must start in the future.");
+        }
+        assertNoScheduleConflict({
+            counselorId,
+            date,
+            time: startTime,
+            endTime,
+            ignore: existing ? { type: "group_session", id: existing.id } : null,
+        });
+    }
+
+    return fields;
+}
+
+function describeWhen(row: MockGroupSession): string {
+    return `${row.date}, ${row.start_time}–${row.end_time}`;
+}
+
+function notifyParticipants(row: MockGroupSession, sender: MockUser, content: string): void {
+    seatsOf(row.id).forEach((e) => {
+        const student = findUser(e.student_id);
+        if (student) deliverMessage(sender, student, content);
+    });
+}
+
+function counselorList(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const rows = db.groupSessions.filter((g) => counselor.role === "admin" || g.counselor_id === counselor.id);
+    return { group_sessions: rows.map((g) => toGroupSessionResource(g, counselor)) };
+}
+
+function counselorCreate(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const fields = parseGroupSession(req.body ?? {}, null, counselor.id);
+
+    const now = nowIso();
+    const row: MockGroupSession = {
+        id: nextId(db.groupSessions),
+        counselor_id: counselor.id,
+        ...fields,
+        status: "open",
+        cancel_reason: null,
+        created_at: now,
+        updated_at: now,
+    };
+    db.groupSessions.push(row);
+
+    return { message: "Group session created.", group_session: toGroupSessionResource(row, counselor) };
+}
+
+function counselorUpdate(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = findOwnSession(req, counselor);
+    if (row.status === "cancelled") validationError("status", "Cancelled sessions cannot be edited.");
+
+    const before = describeWhen(row);
+    Object.assign(row, parseGroupSession(req.body ?? {}, row, row.counselor_id), { updated_at: nowIso() });
+
+    if (describeWhen(row) !== before) {
+        notifyParticipants(
+            row,
+            counselor,
+            `"${row.title}" has moved from ${before} to ${describeWhen(row)}. You are still enrolled.`,
+        );
+    }
+
+    return { message: "Group session updated.", group_session: toGroupSessionResource(row, counselor) };
+}
+
+function counselorCancel(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = findOwnSession(req, counselor);
+    if (row.status === "cancelled") validationError("status", "This session is already cancelled.");
+
+    const reason = requiredString(req.body ?? {}, "reason");
+    row.status = "cancelled";
+    row.cancel_reason = reason;
+    row.updated_at = nowIso();
+
+    notifyParticipants(row, counselor, `"${row.title}" on ${describeWhen(row)} has been cancelled. Reason: ${reason}`);
+
+    return { message: "Group session cancelled.", group_session: toGroupSessionResource(row, counselor) };
+}
+
+/**
+ * Attended / no-show once the session started; a late cancel any time before
+ * (same rule as one-to-one appointments).
+ */
+function counselorMarkAttendance(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = findOwnSession(req, counselor);
+    const enrollment =
+        seatsOf(row.id).find((e) => e.id === Number(req.params.enrollmentId)) ?? notFound("Participant not found.");
+
+    const attendance = requiredString(req.body ?? {}, "attendance") as MockAttendance;
+    if (!ATTENDANCE_STATUSES.includes(attendance)) {
+        validationError("attendance", "The selected attendance is invalid.");
+    }
+    if (row.status === "cancelled") validationError("attendance", "This session was cancelled.");
+
+    const start = startOf(row);
+    if (attendance !== "late_cancel" && (!start || start > new Date())) {
+        validationError("attendance", "Attendance can only be recorded once the session has started.");
+    }
+
+    const now = nowIso();
+    enrollment.attendance = attendance;
+    enrollment.attendance_marked_at = now;
+    enrollment.updated_at = now;
+
+    return { message: "Attendance recorded.", group_session: toGroupSessionResource(row, counselor) };
+}
+
+function studentList(req: MockRequest) {
+    const student = requireUser(req, ["student", "guest"]);
+    const now = new Date();
+    const mine = new Set(
+        db.groupEnrollments
+            .filter((e) => e.student_id === student.id && e.status === "enrolled")
+            .map((e) => e.group_session_id),
+    );
+
+    const rows = db.groupSessions.filter(
+        (g) => mine.has(g.id) || (g.status === "open" && (startOf(g) ?? now) > now),
+    );
+    return { group_sessions: rows.map((g) => toGroupSessionResource(g, student)) };
+}
+
+function studentEnroll(req: MockRequest) {
+    const student = requireUser(req, ["student", "guest"]);
+    const row = findSession(req);
+
+    if (row.status !== "open" || (startOf(row) ?? new Date(0)) <= new Date()) {
+        validationError("group_session", "This session is no longer open for enrollment.");
+    }
+    if (seatsOf(row.id).some((e) => e.student_id === student.id)) {
+        validationError("group_session", "You are already enrolled in this session.");
+    }
+    if (seatsOf(row.id).length >= row.capacity) {
+        validationError("group_session", "This session is full.");
+    }
+
+    const now = nowIso();
+    const previous = db.groupEnrollments.find((e) => e.group_session_id === row.id && e.student_id === student.id);
+    if (previous) {
+        Object.assign(previous, { status: "enrolled", attendance: null, attendance_marked_at: null, updated_at: now });
+    } else {
+        db.groupEnrollments.push({
+            id: nextId(db.groupEnrollments),
+            group_session_id: row.id,
+            student_id: student.id,
+            status: "enrolled",
+            attendance: null,
+            attendance_marked_at: null,
+            created_at: now,
+            updated_at: now,
+        });
+    }
+
+    return { message: `You're enrolled in "${row.title}".`, group_session: toGroupSessionResource(row, student) };
+}
+
+function studentWithdraw(req: MockRequest) {
+    const student = requireUser(req, ["student", "guest"]);
+    const row = findSession(req);
+    const enrollment =
+        seatsOf(row.id).find((e) => e.student_id === student.id) ??
+        validationError("group_session", "You are not enrolled in this session.");
+
+    if ((startOf(row) ?? new Date(0)) <= new Date()) {
+        validationError("group_session", "This session has already started.");
+    }
+
+    enrollment.status = "withdrawn";
+    enrollment.updated_at = nowIso();
+
+    return { message: "You have left the session.", group_session: toGroupSessionResource(row, student) };
+}
+
+export function registerGroupSessionRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/group-sessions", counselorList)
+        .post("/counselor/group-sessions", counselorCreate)
+        .put("/counselor/group-sessions/:id", counselorUpdate)
+        .post("/counselor/group-sessions/:id/cancel", counselorCancel)
+        .post("/counselor/group-sessions/:id/participants/:enrollmentId/attendance", counselorMarkAttendance)
+        .get("/student/group-sessions", studentList)
+        .post("/student/group-sessions/:id/enroll", studentEnroll)
+        .delete("/student/group-sessions/:id/enroll", studentWithdraw);
+}
@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { db, resetMockDb, type MockIntakeRequest, type MockUser } from "@/mock/db";
+import { handleMockRequest } from "@/mock/index";
+
+function userByEmail(email: string): MockUser {
+    const user = db.users.find((u) => u.email === email);
+    if (!user) throw new Error(`No seeded user ${email}`);
+    return user;
+}
+
+/** Send one request through the mock backend as `user`. */
+function call(user: MockUser, method: string, path: string, body?: unknown) {
+    const token = `test-${user.id}`;
+    db.tokens.set(token, user.id);
+    return handleMockRequest({
+        path,
+        url: `http://mock.local${path}`,
+        init: { method, headers: { Authorization: `Bearer ${token}` }, body: body === undefined ? undefined : JSON.stringify(body) },
+    });
+}
+
+describe("acknowledge-risk", () => {
+    beforeEach(() => resetMockDb());
+
+    const followUp = { follow_up_action: "contacted_student", follow_up_notes: "Called; safe with family." };
+
+    it("accepts an older assessment flagged only by item 9", () => {
+        const row = db.assessments[0];
+        Object.assign(row, { mh_self_harm: "several_days", high_risk: false, risk_acknowledged_at: null });
+
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", `/counselor/assessments/${row.id}/acknowledge-risk`, followUp);
+
+        expect(res.status).toBe(200);
+        expect(row.risk_follow_up_action).toBe("contacted_student");
+    });
+
+    it("rejects an assessment without a self-harm answer", () => {
+        const row = db.assessments[0];
+        Object.assign(row, { mh_self_harm: "not_at_all", high_risk: false, risk_acknowledged_at: null });
+
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", `/counselor/assessments/${row.id}/acknowledge-risk`, followUp);
+
+        expect(res.status).toBe(422);
+        expect(row.risk_acknowledged_at).toBeNull();
+    });
+});
+
+describe("backfill", () => {
+    let freed: MockIntakeRequest;
+    let waitingForOther: MockIntakeRequest;
+    let anyCounselor: MockIntakeRequest;
+
+    beforeEach(() => {
+        resetMockDb();
+        const counselor = userByEmail("counselor@jrmsu.test");
+        const other = userByEmail("counselor2@jrmsu.test");
+        const rule = db.availabilityRules.find((r) => r.counselor_id === counselor.id);
+        if (!rule) throw new Error("No seeded availability");
+
+        // An open slot next week: nothing else booked or blocked that day
+        const day = new Date();
+        day.setDate(day.getDate() + 7 + ((rule.weekday - day.getDay() + 7) % 7));
+        const date = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, "0")}-${String(day.getDate()).padStart(2, "0")}`;
+        db.availabilityBlocks = [];
+        db.referrals = [];
+
+        anyCounselor = db.intakeRequests.find((r) => r.waitlisted_at) as MockIntakeRequest;
+        freed = {
+            ...anyCounselor,
+            id: 100,
+            counselor_id: counselor.id,
+            scheduled_date: date,
+            scheduled_time: rule.start_time,
+            status: "cancelled",
+            waitlisted_at: null,
+        };
+        waitingForOther = { ...anyCounselor, id: 101, counselor_id: other.id, waitlisted_at: "2000-01-01T00:00:00Z" };
+        db.intakeRequests = [anyCounselor, freed, waitingForOther];
+    });
+
+    it("auto-picks the first request this counselor can take", () => {
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", `/counselor/appointments/${freed.id}/backfill`, {});
+
+        expect(res.status).toBe(200);
+        expect(anyCounselor).toMatchObject({ status: "scheduled", counselor_id: freed.counselor_id });
+        expect(waitingForOther.status).toBe("requested");
+    });
+
+    it("refuses a picked request that waits for another counselor", () => {
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", `/counselor/appointments/${freed.id}/backfill`, {
+            intake_request_id: waitingForOther.id,
+        });
+
+        expect(res.status).toBe(422);
+        expect(res.body).toMatchObject({ errors: { intake_request_id: ["That request is waiting for another counselor."] } });
+        expect(waitingForOther).toMatchObject({ status: "requested", counselor_id: userByEmail("counselor2@jrmsu.test").id });
+    });
+
+    it("books a picked request without a counselor preference", () => {
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", `/counselor/appointments/${freed.id}/backfill`, {
+            intake_request_id: anyCounselor.id,
+        });
+
+        expect(res.status).toBe(200);
+        expect(anyCounselor.status).toBe("scheduled");
+    });
+});
+
+describe("appointment change requests", () => {
+    let appointment: MockIntakeRequest;
+
+    beforeEach(() => {
+        resetMockDb();
+        const owner = userByEmail("counselor@jrmsu.test");
+        appointment = db.intakeRequests.find(
+            (r) => r.counselor_id === owner.id && r.status === "scheduled",
+        ) as MockIntakeRequest;
+        db.appointmentChangeRequests = [
+            {
+                id: 1,
+                intake_request_id: appointment.id,
+                requested_by: appointment.user_id,
+                type: "cancel",
+                proposed_date: null,
+                proposed_time: null,
+                reason: "Exam conflict",
+                status: "pending",
+                decision_note: null,
+                decided_by: null,
+                decided_at: null,
+                created_at: "2026-10-19T08:00:00Z",
+                updated_at: "2026-10-19T08:00:00Z",
+            },
+        ];
+    });
+
+    it.each(["accept", "decline"])("only lets the appointment's counselor %s", (decision) => {
+        const res = call(userByEmail("counselor2@jrmsu.test"), "POST", `/counselor/appointment-change-requests/1/${decision}`, {});
+
+        expect(res.status).toBe(403);
+        expect(db.appointmentChangeRequests[0].status).toBe("pending");
+        expect(appointment.status).toBe("scheduled");
+    });
+
+    it("applies the change for the owner", () => {
+        const res = call(userByEmail("counselor@jrmsu.test"), "POST", "/counselor/appointment-change-requests/1/accept", {});
+
+        expect(res.status).toBe(200);
+        expect(appointment.status).toBe("cancelled");
+    });
+
+    it("lets an admin decide", () => {
+        const res = call(userByEmail("admin@jrmsu.test"), "POST", "/counselor/appointment-change-requests/1/decline", {});
+
+        expect(res.status).toBe(200);
+        expect(db.appointmentChangeRequests[0].status).toBe("declined");
+    });
+});
@@ -0,0 +1,913 @@
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    toUserResource,
+    type MockAssessment,
+    type MockAppointmentChangeRequest,
+    type MockAppointmentChangeType,
+    type MockAppointmentStatus,
+    type MockAttendance,
+    type MockFrequency,
+    type MockIntakeRequest,
+    type MockScreening,
+    type MockUser,
+} from "@/mock/db";
+import {
+    byNewest,
+    hasField,
+    matchesSearch,
+    MockHttpError,
+    notFound,
+    optionalString,
+    paginate,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { assertNoScheduleConflict, isOpenSlot } from "@/mock/handlers/availability";
+import { counselorCaseloads, ensureOpenCase, openCaseOf, toCaseResource } from "@/mock/handlers/cases";
+import { deliverMessage } from "@/mock/handlers/messages";
+import {
+    APPOINTMENT_STATUS_LABELS,
+    canTransitionAppointment,
+    isActiveAppointmentStatus,
+    isClosedAppointmentStatus,
+    normalizeAppointmentStatus,
+    parseAppointmentStatus,
+    requiresSchedule,
+    requiresStatusReason,
+    statusAfterScheduleChange,
+} from "@/lib/appointment-status";
+import { timeToMinutes } from "@/lib/availability";
+import { rankCounselorsForIntake } from "@/lib/cases";
+import { scorePhq9 } from "@/lib/phq9";
+import { compareWaitlist, isWaitlisted } from "@/lib/waitlist";
+
+const ATTENDANCE_STATUSES: MockAttendance[] = ["attended", "no_show", "late_cancel"];
+
+/** Status an appointment closes with once attendance is recorded. */
+const ATTENDANCE_OUTCOME: Record<MockAttendance, MockAppointmentStatus> = {
+    attended: "completed",
+    no_show: "no_show",
+    late_cancel: "cancelled",
+};
+
+const CHANGE_TYPES: MockAppointmentChangeType[] = ["reschedule", "cancel"];
+
+const APPOINTMENT_CHANGE_PREFIX: Record<MockAppointmentChangeType, string> = {
+    reschedule: "[Reschedule request]",
+    cancel: "[Cancellation request]",
+};
+
+const FREQUENCIES: MockFrequency[] = ["not_at_all", "several_days", "more_than_half", "nearly_every_day"];
+
+const MH_FIELDS = [
+    "mh_little_interest",
+    "mh_feeling_down",
+    "mh_sleep",
+    "mh_energy",
+    "mh_appetite",
+    "mh_self_esteem",
+    "mh_concentration",
+    "mh_motor",
+    "mh_self_harm",
+] as const;
+
+function toChangeRequestResource(row: MockAppointmentChangeRequest) {
+    return {
+        id: row.id,
+        appointment_id: row.intake_request_id,
+        type: row.type,
+        proposed_date: row.proposed_date,
+        proposed_time: row.proposed_time,
+        reason: row.reason,
+        status: row.status,
+        requested_by_name: findUser(row.requested_by)?.name ?? null,
+        decision_note: row.decision_note,
+        decided_by_name: row.decided_by != null ? (findUser(row.decided_by)?.name ?? null) : null,
+        decided_at: row.decided_at,
+        created_at: row.created_at,
+    };
+}
+
+function latestChangeRequest(intakeId: number): MockAppointmentChangeRequest | undefined {
+    return db.appointmentChangeRequests
+        .filter((c) => c.intake_request_id === intakeId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)[0];
+}
+
+function waitlistQueue(): MockIntakeRequest[] {
+    return db.intakeRequests.filter(isWaitlisted).sort(compareWaitlist);
+}
+
+/**
+ * Counseling request with the student columns the counselor tables display.
+ */
+function toIntakeResource(row: MockIntakeRequest) {
+    const student = findUser(row.user_id);
+    const changeRequest = latestChangeRequest(row.id);
+    const position = isWaitlisted(row) ? waitlistQueue().findIndex((r) => r.id === row.id) + 1 : 0;
+    return {
+        ...row,
+        waitlisted_at: row.waitlisted_at ?? null,
+        waitlist_position: position || null,
+        schedule_sequence: row.schedule_sequence ?? 0,
+        attendance: row.attendance ?? null,
+        attendance_marked_at: row.attendance_marked_at ?? null,
+        change_request: changeRequest ? toChangeRequestResource(changeRequest) : null,
+        counselor_name: findUser(row.counselor_id)?.name ?? null,
+        student_name: student?.name ?? null,
+        student_email: student?.email ?? null,
+        student_id: student?.student_id ?? null,
+        user: student ? toUserResource(student) : null,
+    };
+}
+
+const SCREENING_INSTRUMENTS = ["gad7", "pss10"];
+
+function parseScreenings(value: unknown): MockScreening[] {
+    if (value == null) return [];
+    if (!Array.isArray(value)) validationError("screenings", "The screenings field must be an array.");
+
+    return value.map((entry, idx) => {
+        const instrument = String(entry?.instrument ?? "");
+        if (!SCREENING_INSTRUMENTS.includes(instrument)) {
+            validationError(`screenings.${idx}.instrument`, "The selected instrument is invalid.");
+        }
+
+        const raw = entry?.responses;
+        if (raw == null || typeof raw !== "object" || Array.isArray(raw)) {
+            validationError(`screenings.${idx}.responses`, "The responses field must be an object.");
+        }
+
+        const responses = Object.fromEntries(
+            Object.entries(raw as Record<string, unknown>).map(([key, v]) => [key, v == null ? null : String(v)]),
+        );
+        return { instrument, responses };
+    });
+}
+
+const RISK_FOLLOW_UP_ACTIONS = [
+    "contacted_student",
+    "urgent_session_scheduled",
+    "guardian_notified",
+    "referred_external",
+    "emergency_services",
+    "other",
+];
+
+function toAssessmentResource(row: MockAssessment) {
+    const student = findUser(row.user_id);
+    const acknowledgedBy = row.risk_acknowledged_by == null ? undefined : findUser(row.risk_acknowledged_by);
+    return {
+        ...row,
+        risk_acknowledged_by_name: acknowledgedBy?.name ?? null,
+        user: student ? { id: student.id, name: student.name, email: student.email } : null,
+    };
+}
+
+/**
+ * Student-facing copy: counselor follow-up documentation stays internal.
+ */
+function toStudentAssessmentResource(row: MockAssessment) {
+    return {
+        ...row,
+        risk_acknowledged_at: null,
+        risk_acknowledged_by: null,
+        risk_follow_up_action: null,
+        risk_follow_up_notes: null,
+    };
+}
+
+function findRequest(req: MockRequest): MockIntakeRequest {
+    return db.intakeRequests.find((r) => r.id === Number(req.params.id)) ?? notFound("Counseling request not found.");
+}
+
+function counselorListing(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    const status = req.query.get("status");
+
+    const rows = db.intakeRequests
+        .filter((r) => !status || status === "all" || r.status === parseAppointmentStatus(status))
+        .map(toIntakeResource)
+        .filter((r) => matchesSearch(req.query, r.student_name, r.student_email, r.concern_type, r.details))
+        .sort(byNewest);
+
+    return paginate(rows, req.query);
+}
+
+/**
+ * Append to the appointment's audit trail.
+ */
+function recordStatusChange(
+    row: MockIntakeRequest,
+    from: MockAppointmentStatus | null,
+    reason: string | null,
+    changedBy: number | null,
+): void {
+    db.appointmentStatusChanges.push({
+        id: nextId(db.appointmentStatusChanges),
+        intake_request_id: row.id,
+        from_status: from,
+        to_status: row.status,
+        reason,
+        scheduled_date: row.scheduled_date,
+        scheduled_time: row.scheduled_time,
+        changed_by: changedBy,
+        created_at: nowIso(),
+    });
+}
+
+function statusLabel(status: MockAppointmentStatus): string {
+    return APPOINTMENT_STATUS_LABELS[status];
+}
+
+function sessionStartOf(date: string | null, time: string | null): Date | null {
+    const minutes = timeToMinutes(time);
+    if (!date || minutes == null) return null;
+    const [y, m, d] = date.split("-").map(Number);
+    return new Date(y, m - 1, d, 0, minutes);
+}
+
+function describeSchedule(date: string | null, time: string | null): string {
+    return `${date ?? "an unscheduled date"}${time ? ` at ${time}` : ""}`;
+}
+
+/**
+ * Once the counselor closes an appointment directly, a pending student request is moot.
+ */
+function settlePendingChangeRequest(row: MockIntakeRequest, counselorId: number): void {
+    if (!isClosedAppointmentStatus(row.status)) return;
+
+    const now = nowIso();
+    db.appointmentChangeRequests
+        .filter((c) => c.intake_request_id === row.id && c.status === "pending")
+        .forEach((c) => {
+            c.status = "declined";
+            c.decision_note = `The appointment was marked ${statusLabel(row.status).toLowerCase()}.`;
+            c.decided_by = counselorId;
+            c.decided_at = now;
+            c.updated_at = now;
+        });
+}
+
+/**
+ * Schedule and/or status update. A new final schedule moves the request to
+ * scheduled (first time) or rescheduled; explicit statuses must follow the
+ * lifecycle and cancellations need a reason.
+ */
+function counselorUpdate(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+    const body = req.body ?? {};
+    const current = normalizeAppointmentStatus(row.status);
+
+    const scheduledDate = hasField(body, "scheduled_date") ? optionalString(body, "scheduled_date") : row.scheduled_date;
+    const scheduledTime = hasField(body, "scheduled_time") ? optionalString(body, "scheduled_time") : row.scheduled_time;
+    const scheduleChanged = scheduledDate !== row.scheduled_date || scheduledTime !== row.scheduled_time;
+
+    const requested = optionalString(body, "status");
+    let status = requested ? parseAppointmentStatus(requested) : current;
+    if (!status) validationError("status", "The selected status is invalid.");
+
+    if (scheduleChanged) {
+        if (isClosedAppointmentStatus(current)) {
+            validationError("scheduled_date", `${statusLabel(current)} appointments cannot be rescheduled.`);
+        }
+        if (requiresSchedule(status) || status === current) status = statusAfterScheduleChange(current);
+    } else if (status === "rescheduled" && current !== "rescheduled") {
+        validationError("scheduled_date", "Pick a new date or time to reschedule this appointment.");
+    }
+
+    if (status !== current && !canTransitionAppointment(current, status)) {
+        validationError("status", `Cannot change status from ${statusLabel(current)} to ${statusLabel(status)}.`);
+    }
+    if (requiresSchedule(status) && (!scheduledDate || !scheduledTime)) {
+        validationError("scheduled_date", "Set a final date and time before scheduling this appointment.");
+    }
+
+    const reason = optionalString(body, "status_reason");
+    if (status !== current && requiresStatusReason(status) && !reason) {
+        validationError("status_reason", "The cancellation reason field is required.");
+    }
+
+    const counselorId = row.counselor_id ?? (scheduledDate ? counselor.id : null);
+
+    if (counselorId != null && scheduledDate && scheduledTime && isActiveAppointmentStatus(status)) {
+        assertNoScheduleConflict({
+            counselorId,
+            date: scheduledDate,
+            time: scheduledTime,
+            ignore: { type: "appointment", id: row.id },
+        });
+    }
+
+    const statusChanged = status !== row.status;
+    if (scheduleChanged || statusChanged) {
+        row.schedule_sequence = (row.schedule_sequence ?? 0) + 1;
+    }
+    row.scheduled_date = scheduledDate;
+    row.scheduled_time = scheduledTime;
+    row.status = status;
+    row.counselor_id = counselorId;
+    if (hasField(body, "details")) row.details = String(body.details ?? "");
+    if ((status === "completed" || status === "no_show") && !row.attendance) {
+        row.attendance = status === "completed" ? "attended" : "no_show";
+        row.attendance_marked_at = nowIso();
+        row.attendance_marked_by = counselor.id;
+    }
+    row.updated_at = nowIso();
+
+    if (scheduleChanged || status !== current) recordStatusChange(row, current, reason, counselor.id);
+    settlePendingChangeRequest(row, counselor.id);
+    if (counselorId != null) ensureOpenCase(row.user_id, counselorId, counselor.id);
+
+    return { message: "Appointment updated.", appointment: toIntakeResource(row) };
+}
+
+/**
+ * Attended / no-show once the session started; a late cancel any time before.
+ * Also closes the appointment (completed / no_show / cancelled).
+ */
+function counselorMarkAttendance(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+    const attendance = requiredString(req.body ?? {}, "attendance") as MockAttendance;
+
+    if (!ATTENDANCE_STATUSES.includes(attendance)) {
+        validationError("attendance", "The selected attendance is invalid.");
+    }
+
+    const current = normalizeAppointmentStatus(row.status);
+    const start = sessionStartOf(row.scheduled_date, row.scheduled_time);
+    if (!isActiveAppointmentStatus(current) || !start) {
+        validationError("attendance", "Only scheduled sessions can be marked.");
+    }
+
+    if (attendance !== "late_cancel" && start > new Date()) {
+        validationError("attendance", "Attendance can only be recorded once the session has started.");
+    }
+
+    const now = nowIso();
+    row.attendance = attendance;
+    row.attendance_marked_at = now;
+    row.attendance_marked_by = counselor.id;
+    row.status = ATTENDANCE_OUTCOME[attendance];
+    row.schedule_sequence = (row.schedule_sequence ?? 0) + 1;
+    row.updated_at = now;
+
+    recordStatusChange(row, current, attendance === "late_cancel" ? "Late cancellation" : null, counselor.id);
+    settlePendingChangeRequest(row, counselor.id);
+
+    return { message: "Attendance recorded.", appointment: toIntakeResource(row) };
+}
+
+function counselorStatusHistory(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+
+    const history = db.appointmentStatusChanges
+        .filter((c) => c.intake_request_id === row.id)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+        .map((c) => {
+            const user = c.changed_by != null ? findUser(c.changed_by) : undefined;
+            return {
+                id: c.id,
+                from_status: c.from_status,
+                to_status: c.to_status,
+                reason: c.reason,
+                scheduled_date: c.scheduled_date,
+                scheduled_time: c.scheduled_time,
+                changed_by_id: c.changed_by,
+                changed_by_name: user?.name ?? null,
+                changed_by_role: user?.role ?? null,
+                changed_at: c.created_at,
+            };
+        });
+
+    return { history };
+}
+
+/**
+ * Pending change request of an appointment the counselor holds (admins: any appointment).
+ */
+function findChangeRequest(
+    req: MockRequest,
+    counselor: MockUser,
+): { change: MockAppointmentChangeRequest; row: MockIntakeRequest } {
+    const change =
+        db.appointmentChangeRequests.find((c) => c.id === Number(req.params.id)) ?? notFound("Change request not found.");
+    const row = db.intakeRequests.find((r) => r.id === change.intake_request_id) ?? notFound("Counseling request not found.");
+    if (counselor.role !== "admin" && row.counselor_id !== counselor.id) {
+        throw new MockHttpError(403, "This action is unauthorized.");
+    }
+    if (change.status !== "pending") validationError("change_request", "This request has already been decided.");
+    return { change, row };
+}
+
+function decide(change: MockAppointmentChangeRequest, status: "accepted" | "declined", counselorId: number, note: string | null) {
+    const now = nowIso();
+    change.status = status;
+    change.decision_note = note;
+    change.decided_by = counselorId;
+    change.decided_at = now;
+    change.updated_at = now;
+}
+
+/**
+ * Message the student about the counselor's decision (shows up in their inbox).
+ */
+function notifyStudentOfDecision(change: MockAppointmentChangeRequest, counselorId: number): void {
+    const counselor = findUser(counselorId);
+    const student = findUser(change.requested_by);
+    if (!counselor || !student) return;
+
+    const what =
+        change.type === "reschedule"
+            ? `reschedule your session to ${describeSchedule(change.proposed_date, change.proposed_time)}`
+            : "cancel your session";
+    const note = change.decision_note ? ` Note: ${change.decision_note}` : "";
+    deliverMessage(counselor, student, `Your request to ${what} was ${change.status}.${note}`);
+}
+
+/**
+ * Applies the student's proposal: moves the session (→ rescheduled) or cancels it.
+ */
+function counselorAcceptChange(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const { change, row } = findChangeRequest(req, counselor);
+    const current = normalizeAppointmentStatus(row.status);
+
+    if (!isActiveAppointmentStatus(current)) {
+        validationError("change_request", `${statusLabel(current)} appointments can no longer be changed.`);
+    }
+
+    const counselorId = row.counselor_id ?? counselor.id;
+    if (change.type === "reschedule") {
+        assertNoScheduleConflict({
+            counselorId,
+            date: change.proposed_date ?? "",
+            time: change.proposed_time,
+            ignore: { type: "appointment", id: row.id },
+        });
+        row.scheduled_date = change.proposed_date;
+        row.scheduled_time = change.proposed_time;
+        row.status = statusAfterScheduleChange(current);
+    } else {
+        row.status = "cancelled";
+    }
+
+    row.counselor_id = counselorId;
+    row.schedule_sequence = (row.schedule_sequence ?? 0) + 1;
+    row.updated_at = nowIso();
+    recordStatusChange(row, current, `Requested by student: ${change.reason}`, counselor.id);
+
+    decide(change, "accepted", counselor.id, optionalString(req.body ?? {}, "note"));
+    notifyStudentOfDecision(change, counselor.id);
+
+    return { message: "Change request accepted.", appointment: toIntakeResource(row) };
+}
+
+function counselorDeclineChange(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const { change, row } = findChangeRequest(req, counselor);
+
+    decide(change, "declined", counselor.id, optionalString(req.body ?? {}, "note"));
+    notifyStudentOfDecision(change, counselor.id);
+
+    return { message: "Change request declined.", appointment: toIntakeResource(row) };
+}
+
+/**
+ * Upcoming slots of cancelled sessions that nobody has taken since.
+ */
+function freedSlots() {
+    const now = new Date();
+    const seen = new Set<string>();
+
+    return db.intakeRequests
+        .filter((r) => r.status === "cancelled" && r.counselor_id != null && r.scheduled_date && r.scheduled_time)
+        .filter((r) => (sessionStartOf(r.scheduled_date, r.scheduled_time) ?? now) > now)
+        .filter((r) => isOpenSlot(r.counselor_id as number, r.scheduled_date as string, r.scheduled_time))
+        .sort(
+            (a, b) =>
+                (sessionStartOf(a.scheduled_date, a.scheduled_time)?.getTime() ?? 0) -
+                (sessionStartOf(b.scheduled_date, b.scheduled_time)?.getTime() ?? 0),
+        )
+        .filter((r) => {
+            const key = `${r.counselor_id}|${r.scheduled_date}|${timeToMinutes(r.scheduled_time)}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map((r) => ({
+            appointment_id: r.id,
+            counselor_id: r.counselor_id as number,
+            counselor_name: findUser(r.counselor_id)?.name ?? null,
+            date: r.scheduled_date as string,
+            time: r.scheduled_time as string,
+        }));
+}
+
+function counselorWaitlist(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    return { waitlist: waitlistQueue().map(toIntakeResource), freed_slots: freedSlots() };
+}
+
+/**
+ * Books the slot of a cancelled session for the next eligible waitlisted
+ * request (or the one picked by the counselor) and messages the student.
+ */
+function counselorBackfill(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const cancelled = findRequest(req);
+    const slot = freedSlots().find((s) => s.appointment_id === cancelled.id);
+    if (!slot) validationError("appointment", "This slot is no longer available.");
+
+    // No counselor preference, or waiting for this slot's counselor
+    const canTake = (r: MockIntakeRequest) => r.counselor_id == null || r.counselor_id === slot.counselor_id;
+    const pickedId = req.body?.intake_request_id;
+    const queue = waitlistQueue();
+    const picked = pickedId != null && pickedId !== "";
+    const candidate = picked ? queue.find((r) => r.id === Number(pickedId)) : queue.find(canTake);
+    if (!candidate) {
+        validationError(
+            "intake_request_id",
+            picked ? "That request is not on the waitlist." : "Nobody on the waitlist can take this slot.",
+        );
+    }
+    if (!canTake(candidate)) validationError("intake_request_id", "That request is waiting for another counselor.");
+
+    const now = nowIso();
+    candidate.counselor_id = slot.counselor_id;
+    candidate.scheduled_date = slot.date;
+    candidate.scheduled_time = slot.time;
+    candidate.status = "scheduled";
+    candidate.schedule_sequence = (candidate.schedule_sequence ?? 0) + 1;
+    candidate.updated_at = now;
+    recordStatusChange(candidate, "requested", "Offered a slot freed by a cancellation", counselor.id);
+    ensureOpenCase(candidate.user_id, slot.counselor_id, counselor.id);
+
+    const student = findUser(candidate.user_id);
+    if (student) {
+        deliverMessage(
+            counselor,
+            student,
+            `Good news: a counseling slot opened up. Your session is scheduled on ${describeSchedule(slot.date, slot.time)}` +
+                `${slot.counselor_name ? ` with ${slot.counselor_name}` : ""}. If this time doesn't work, you can ask to reschedule from your Evaluation page.`,
+        );
+    }
+
+    return { message: "Slot offered to the waitlist.", appointment: toIntakeResource(candidate) };
+}
+
+/** Counselors ranked for the request: case owner first, then load and specialization. */
+function counselorAssignmentSuggestions(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+    return {
+        concern_type: row.concern_type,
+        suggestions: rankCounselorsForIntake(counselorCaseloads(), {
+            concernType: row.concern_type,
+            caseCounselorId: openCaseOf(row.user_id)?.counselor_id ?? null,
+        }),
+    };
+}
+
+/**
+ * Gives an unassigned request to a counselor (no slot is booked) and opens
+ * the student's case when they have none.
+ */
+function counselorAssign(req: MockRequest) {
+    const user = requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+    if (row.counselor_id != null) {
+        validationError("counselor_id", "This request already has a counselor. Transfer the case instead.");
+    }
+    if (isClosedAppointmentStatus(normalizeAppointmentStatus(row.status))) {
+        validationError("status", "Only open requests can be assigned.");
+    }
+
+    const target = findUser(req.body?.counselor_id);
+    if (!target || target.role !== "counselor") validationError("counselor_id", "The selected counselor is invalid.");
+
+    row.counselor_id = target.id;
+    row.updated_at = nowIso();
+    const studentCase = ensureOpenCase(row.user_id, target.id, user.id);
+
+    if (target.id !== user.id) {
+        const student = findUser(row.user_id);
+        deliverMessage(
+            user,
+            target,
+            `${user.name} assigned you ${student?.name ?? "a student"}'s counseling request (${row.concern_type}). Please set a schedule.`,
+        );
+    }
+
+    return { message: "Request assigned.", intake: toIntakeResource(row), case: toCaseResource(studentCase) };
+}
+
+function counselorDelete(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    const row = findRequest(req);
+    db.intakeRequests = db.intakeRequests.filter((r) => r.id !== row.id);
+    return { message: "Counseling request deleted." };
+}
+
+function counselorAssessments(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    return { assessments: [...db.assessments].sort(byNewest).map(toAssessmentResource) };
+}
+
+function counselorDeleteAssessment(req: MockRequest) {
+    requireUser(req, ["counselor", "admin"]);
+    const id = Number(req.params.id);
+    if (!db.assessments.some((a) => a.id === id)) notFound("Assessment not found.");
+    db.assessments = db.assessments.filter((a) => a.id !== id);
+    return { message: "Assessment deleted." };
+}
+
+function counselorAcknowledgeRisk(req: MockRequest) {
+    const counselor = requireUser(req, ["counselor", "admin"]);
+    const row = db.assessments.find((a) => a.id === Number(req.params.id)) ?? notFound("Assessment not found.");
+    const body = req.body ?? {};
+
+    // Same rule as `isHighRiskAssessment`: older rows may carry item 9 without the stored flag
+    if (!row.high_risk && !scorePhq9({ mh_self_harm: row.mh_self_harm }).selfHarmFlag) {
+        validationError("assessment", "This assessment is not flagged as high risk.");
+    }
+    if (row.risk_acknowledged_at) validationError("assessment", "This flag has already been acknowledged.");
+
+    const action = requiredString(body, "follow_up_action", "follow up action");
+    if (!RISK_FOLLOW_UP_ACTIONS.includes(action)) {
+        validationError("follow_up_action", "The selected follow up action is invalid.");
+    }
+
+    const notes = requiredString(body, "follow_up_notes", "follow up notes");
+
+    const now = nowIso();
+    row.risk_acknowledged_at = now;
+    row.risk_acknowledged_by = counselor.id;
+    row.risk_follow_up_action = action;
+    row.risk_follow_up_notes = notes;
+    row.updated_at = now;
+
+    return { message: "Self-harm flag acknowledged.", assessment: toAssessmentResource(row) };
+}
+
+function studentOwnRequest(req: MockRequest): MockIntakeRequest {
+    const user = requireUser(req, ["student", "guest"]);
+    const row = findRequest(req);
+    if (row.user_id !== user.id) notFound("Counseling request not found.");
+    return row;
+}
+
+export function registerIntakeRoutes(router: MockRouter): void {
+    router
+        // Student / guest
+        .post("/student/intake", (req) => {
+            const user = requireUser(req, ["student", "guest"]);
+            const body = req.body ?? {};
+
+            const urgency = requiredString(body, "urgency");
+            if (!["low", "medium", "high"].includes(urgency)) validationError("urgency", "The selected urgency is invalid.");
+
+            const waitlist = body.waitlist === true;
+            let counselorId: number | null = null;
+            let preferredDate: string | null = null;
+            let preferredTime: string | null = null;
+
+            if (waitlist) {
+                // Optional counselor preference; no slot is held
+                const preferred = body.counselor_id != null && body.counselor_id !== "" ? findUser(body.counselor_id) : undefined;
+                if (preferred && preferred.role !== "counselor") validationError("counselor_id", "The selected counselor is invalid.");
+                counselorId = preferred?.id ?? null;
+            } else {
+                // Students book one of the counselor's open slots
+                const counselor = findUser(body.counselor_id);
+                if (!counselor || counselor.role !== "counselor") {
+                    validationError("counselor_id", "Please pick an available slot.");
+                }
+                preferredDate = requiredString(body, "preferred_date", "preferred date");
+                preferredTime = requiredString(body, "preferred_time", "preferred time");
+                if (!isOpenSlot(counselor.id, preferredDate, preferredTime)) {
+                    validationError("preferred_time", "The selected slot is no longer available. Please pick another one.");
+                }
+                counselorId = counselor.id;
+            }
+
+            const now = nowIso();
+            const row: MockIntakeRequest = {
+                id: nextId(db.intakeRequests),
+                user_id: user.id,
+                counselor_id: counselorId,
+                concern_type: requiredString(body, "concern_type", "concern type"),
+                urgency: urgency as MockIntakeRequest["urgency"],
+                preferred_date: preferredDate,
+                preferred_time: preferredTime,
+                scheduled_date: null,
+                scheduled_time: null,
+                details: requiredString(body, "details"),
+                status: "requested",
+                waitlisted_at: waitlist ? now : null,
+                created_at: now,
+                updated_at: now,
+            };
+            db.intakeRequests.push(row);
+            recordStatusChange(row, null, null, user.id);
+            if (counselorId != null && !waitlist) ensureOpenCase(user.id, counselorId, null);
+
+            const message = waitlist
+                ? `You're on the waitlist (#${waitlistQueue().findIndex((r) => r.id === row.id) + 1}). We'll message you as soon as a slot opens up.`
+                : "Counseling request submitted.";
+            return respond(201, { message, intake: toIntakeResource(row) });
+        })
+        .post("/student/intake/assessment", (req) => {
+            const user = requireUser(req, ["student", "guest"]);
+            const body = req.body ?? {};
+            if (body.consent !== true) validationError("consent", "The consent field must be accepted.");
+
+            const answers = {} as Pick<MockAssessment, (typeof MH_FIELDS)[number]>;
+            MH_FIELDS.forEach((field) => {
+                const value = body[field];
+                if (value != null && !FREQUENCIES.includes(value)) {
+                    validationError(field, `The selected ${field.replace(/_/g, " ")} is invalid.`);
+                }
+                answers[field] = (value as MockFrequency | undefined) ?? null;
+            });
+
+            const now = nowIso();
+            const highRisk = answers.mh_self_harm != null && answers.mh_self_harm !== "not_at_all";
+            const row: MockAssessment = {
+                id: nextId(db.assessments),
+                user_id: user.id,
+                consent: true,
+                student_name: optionalString(body, "student_name") ?? user.name,
+                age: body.age != null && body.age !== "" ? Number(body.age) : null,
+                gender: optionalString(body, "gender") ?? user.gender,
+                occupation: optionalString(body, "occupation"),
+                living_situation: optionalString(body, "living_situation"),
+                living_situation_other: optionalString(body, "living_situation_other"),
+                ...answers,
+                high_risk: highRisk,
+                risk_flagged_at: highRisk ? now : null,
+                risk_acknowledged_at: null,
+                risk_acknowledged_by: null,
+                risk_follow_up_action: null,
+                risk_follow_up_notes: null,
+                screenings: parseScreenings(body.screenings),
+                created_at: now,
+                updated_at: now,
+            };
+            db.assessments.push(row);
+
+            return respond(201, { message: "Assessment submitted.", assessment: toStudentAssessmentResource(row) });
+        })
+        .get("/student/intake/assessments", (req) => {
+            const user = requireUser(req, ["student", "guest"]);
+            const assessments = db.assessments
+                .filter((a) => a.user_id === user.id)
+                .sort(byNewest)
+                .map(toStudentAssessmentResource);
+            return { assessments };
+        })
+        .get("/student/appointments", (req) => {
+            const user = requireUser(req, ["student", "guest"]);
+            const appointments = db.intakeRequests
+                .filter((r) => r.user_id === user.id)
+                .sort(byNewest)
+                .map(toIntakeResource);
+            return { appointments };
+        })
+        .put("/student/appointments/:id", (req) => {
+            const row = studentOwnRequest(req);
+            row.details = requiredString(req.body, "details");
+            row.updated_at = nowIso();
+            return { message: "Details updated.", appointment: toIntakeResource(row) };
+        })
+        .delete("/student/appointments/:id", (req) => {
+            const row = studentOwnRequest(req);
+            if (normalizeAppointmentStatus(row.status) !== "requested") {
+                validationError("status", "Only requests that are not scheduled yet can be deleted.");
+            }
+            db.intakeRequests = db.intakeRequests.filter((r) => r.id !== row.id);
+            return { message: "Counseling request deleted." };
+        })
+        .post("/student/appointments/:id/change-requests", (req) => {
+            const row = studentOwnRequest(req);
+            const body = req.body ?? {};
+
+            if (!isActiveAppointmentStatus(normalizeAppointmentStatus(row.status))) {
+                validationError("type", "Only scheduled sessions can be rescheduled or cancelled.");
+            }
+            const start = sessionStartOf(row.scheduled_date, row.scheduled_time);
+            if (start && start <= new Date()) {
+                validationError("type", "This session has already started. Please message your counselor instead.");
+            }
+            if (db.appointmentChangeRequests.some((c) => c.intake_request_id === row.id && c.status === "pending")) {
+                validationError("type", "You already have a request waiting for your counselor.");
+            }
+
+            const type = requiredString(body, "type") as MockAppointmentChangeType;
+            if (!CHANGE_TYPES.includes(type)) validationError("type", "The selected type is invalid.");
+
+            let proposedDate: string | null = null;
+            let proposedTime: string | null = null;
+            if (type === "reschedule") {
+                proposedDate = requiredString(body, "proposed_date", "proposed date");
+                proposedTime = requiredString(body, "proposed_time", "proposed time");
+
+                const unchanged =
+                    proposedDate === row.scheduled_date &&
+                    timeToMinutes(proposedTime) === timeToMinutes(row.scheduled_time);
+                if (unchanged) validationError("proposed_time", "Pick a different time than your current schedule.");
+
+                if (row.counselor_id == null || !isOpenSlot(row.counselor_id, proposedDate, proposedTime, { ignoreIntakeId: row.id })) {
+                    validationError("proposed_time", "The selected slot is no longer available. Please pick another one.");
+                }
+            }
+
+            const now = nowIso();
+            const change: MockAppointmentChangeRequest = {
+                id: nextId(db.appointmentChangeRequests),
+                intake_request_id: row.id,
+                requested_by: row.user_id,
+                type,
+                proposed_date: proposedDate,
+                proposed_time: proposedTime,
+                reason: requiredString(body, "reason"),
+                status: "pending",
+                decision_note: null,
+                decided_by: null,
+                decided_at: null,
+                created_at: now,
+                updated_at: now,
+            };
+            db.appointmentChangeRequests.push(change);
+
+            // Let the counselor know in the student's message thread
+            const student = findUser(row.user_id);
+            const counselor = findUser(row.counselor_id);
+            if (student && counselor) {
+                const current = describeSchedule(row.scheduled_date, row.scheduled_time);
+                const ask =
+                    type === "reschedule"
+                        ? `I'd like to move my session on ${current} to ${describeSchedule(proposedDate, proposedTime)}.`
+                        : `I'd like to cancel my session on ${current}.`;
+                deliverMessage(student, counselor, `${APPOINTMENT_CHANGE_PREFIX[type]} ${ask} Reason: ${change.reason}`);
+            }
+
+            return respond(201, { message: "Request sent to your counselor.", appointment: toIntakeResource(row) });
+        })
+
+        // Counselor
+        .get("/counselor/intake/requests", counselorListing)
+        .get("/counselor/appointments", counselorListing)
+        .put("/counselor/appointments/:id", counselorUpdate)
+        .patch("/counselor/appointments/:id", counselorUpdate)
+        .patch("/counselor/intake/requests/:id", counselorUpdate)
+        .post("/counselor/appointments/:id/attendance", counselorMarkAttendance)
+        .get("/counselor/appointments/:id/status-history", counselorStatusHistory)
+        .get("/counselor/waitlist", counselorWaitlist)
+        .post("/counselor/appointments/:id/backfill", counselorBackfill)
+        .post("/counselor/appointment-change-requests/:id/accept", counselorAcceptChange)
+        .post("/counselor/appointment-change-requests/:id/decline", counselorDeclineChange)
+        .delete("/counselor/appointments/:id", counselorDelete)
+        .delete("/counselor/intake/requests/:id", counselorDelete)
+        .get("/counselor/intake/assessments", counselorAssessments)
+        .get("/counselor/assessments", counselorAssessments)
+        .delete("/counselor/intake/assessments/:id", counselorDeleteAssessment)
+        .delete("/counselor/assessments/:id", counselorDeleteAssessment)
+        .post("/counselor/assessments/:id/acknowledge-risk", counselorAcknowledgeRisk)
+        .post("/counselor/intake/assessments/:id/acknowledge-risk", counselorAcknowledgeRisk)
+        .get("/counselor/students/:id", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            const student = findUser(req.params.id) ?? notFound("Student not found.");
+            return { student: toUserResource(student) };
+        })
+        .get("/counselor/students/:id/history", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            const student = findUser(req.params.id) ?? notFound("Student not found.");
+            const appointments = db.intakeRequests
+                .filter((r) => r.user_id === student.id)
+                .sort(byNewest)
+                .map(toIntakeResource);
+            return { history: { total_appointments: appointments.length, appointments } };
+        })
+        .get("/counselor/intake/requests/:id/assignment-suggestions", counselorAssignmentSuggestions)
+        .post("/counselor/intake/requests/:id/assign", counselorAssign)
+        .get("/counselor/case-load", (req) => {
+            // Students whose open case this counselor owns
+            const counselor = requireUser(req, ["counselor"]);
+            const studentIds = new Set(
+                db.cases.filter((c) => c.counselor_id === counselor.id && c.status === "open").map((c) => c.student_id),
+            );
+            const students = db.users.filter((u) => studentIds.has(u.id)).map(toUserResource);
+            return { students };
+        });
+}
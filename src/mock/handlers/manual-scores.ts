@@ -0,0 +1,77 @@
+import { db, findUser, nextId, nowIso, type MockManualScore, type MockUser } from "@/mock/db";
+import { byNewest, optionalString, requireUser, requiredString, respond, validationError } from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+/** Same cut-offs as the encoding page (score is a 0–100 percentage). */
+export function scoreToRating(score: number): string {
+    if (score < 50) return "Poor";
+    if (score < 70) return "Fair";
+    if (score < 85) return "Good";
+    return "Very Good";
+}
+
+function toUserMini(user: MockUser | undefined) {
+    if (!user) return null;
+    return { id: user.id, name: user.name, email: user.email, student_id: user.student_id };
+}
+
+export function toManualScoreResource(row: MockManualScore) {
+    return {
+        ...row,
+        date: row.assessed_date,
+        student: toUserMini(findUser(row.student_id)),
+        counselor: toUserMini(findUser(row.counselor_id)),
+    };
+}
+
+export function registerManualScoreRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/manual-scores", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            // Non-numeric filters are ignored, like the Laravel controller
+            const raw = req.query.get("student_id") ?? "";
+            const studentId = /^\d+$/.test(raw) ? Number(raw) : null;
+
+            const scores = db.manualScores
+                .filter((s) => studentId == null || s.student_id === studentId)
+                .sort(byNewest)
+                .map(toManualScoreResource);
+            return { scores };
+        })
+        .post("/counselor/manual-scores", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const body = req.body ?? {};
+
+            const student = findUser(body.student_id);
+            if (!student || student.role !== "student") {
+                validationError("student_id", "The selected student id is invalid.");
+            }
+
+            const score = Number(body.score);
+            if (body.score == null || body.score === "" || !Number.isFinite(score) || score < 0 || score > 100) {
+                validationError("score", "The score must be a number between 0 and 100.");
+            }
+
+            const assessedDate = requiredString(body, "assessed_date", "assessed date");
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(assessedDate)) {
+                validationError("assessed_date", "The assessed date must be a valid date (YYYY-MM-DD).");
+            }
+
+            const now = nowIso();
+            const row: MockManualScore = {
+                id: nextId(db.manualScores),
+                student_id: student.id,
+                counselor_id: counselor.id,
+                score,
+                rating: scoreToRating(score),
+                assessed_date: assessedDate,
+                remarks: optionalString(body, "remarks"),
+                treatment_plan_id: null,
+                created_at: now,
+                updated_at: now,
+            };
+            db.manualScores.push(row);
+
+            return respond(201, { message: "Score saved.", scoreRecord: toManualScoreResource(row) });
+        });
+}
@@ -0,0 +1,609 @@
+import {
+    MESSAGE_EDIT_WINDOW_MINUTES,
+    MESSAGE_SEARCH_MIN_LENGTH,
+    isWithinEditWindow,
+    messageMatchesSearch,
+    messageSearchTerms,
+    validateMessageAttachments,
+} from "@/lib/messages";
+import {
+    db,
+    findUser,
+    isReferralRole,
+    nextId,
+    nowIso,
+    type MockMessage,
+    type MockMessageAttachment,
+    type MockMessageRevision,
+    type MockUser,
+} from "@/mock/db";
+import {
+    MockHttpError,
+    notFound,
+    optionalString,
+    paginate,
+    matchesSearch,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { broadcastToUser } from "@/mock/realtime";
+
+/** Uploads stay `pending` this long (stand-in for the queued virus scan). */
+const SCAN_DELAY_MS = 3_000;
+
+/** Lifetime of the signed URLs (`URL::temporarySignedRoute` on the Laravel side). */
+const SIGNED_URL_TTL_MS = 30 * 60 * 1000;
+
+/** Inbox roles as stored in `messages.sender` / `messages.recipient_role`. */
+function inboxRole(user: MockUser): string {
+    return isReferralRole(user.role) ? "referral_user" : user.role;
+}
+
+function settleScan(row: MockMessageAttachment): MockMessageAttachment {
+    if (row.scan_status === "pending" && Date.parse(row.scan_ready_at) <= Date.now()) {
+        // The EICAR test file name trips the placeholder scanner, so the warning can be tried out
+        row.scan_status = /eicar/i.test(row.file_name) ? "infected" : "clean";
+    }
+    return row;
+}
+
+function toAttachmentResource(row: MockMessageAttachment) {
+    const clean = settleScan(row).scan_status === "clean";
+
+    return {
+        id: row.id,
+        message_id: row.message_id,
+        file_name: row.file_name,
+        mime_type: row.mime_type,
+        size: row.size,
+        scan_status: row.scan_status,
+        url: clean ? row.blob_url : null,
+        url_expires_at: clean ? new Date(Date.now() + SIGNED_URL_TTL_MS).toISOString() : null,
+        created_at: row.created_at,
+    };
+}
+
+function toMessageResource(row: MockMessage) {
+    const sender = findUser(row.sender_id);
+    const recipient = findUser(row.recipient_id);
+    const owner = row.user_id == null ? undefined : findUser(row.user_id);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { hidden_for, ...fields } = row;
+
+    return {
+        ...fields,
+        edited_at: row.edited_at ?? null,
+        deleted_at: row.deleted_at ?? null,
+        conversation_id: null,
+        sender_name: sender?.name ?? null,
+        sender_avatar_url: sender?.avatar_url ?? null,
+        recipient_name: recipient?.name ?? null,
+        recipient_avatar_url: recipient?.avatar_url ?? null,
+        user_name: owner?.name ?? null,
+        attachments: db.messageAttachments.filter((a) => a.message_id === row.id).map(toAttachmentResource),
+    };
+}
+
+/** The user takes part in the thread and has not deleted the message for themselves. */
+function visibleTo(row: MockMessage, user: MockUser): boolean {
+    return (row.sender_id === user.id || row.recipient_id === user.id) && !row.hidden_for?.includes(user.id);
+}
+
+function inboxFor(user: MockUser) {
+    const messages = db.messages
+        .filter((m) => visibleTo(m, user))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(toMessageResource);
+
+    return { messages };
+}
+
+function byOldest(a: MockMessage, b: MockMessage): number {
+    return a.created_at.localeCompare(b.created_at) || a.id - b.id;
+}
+
+function peerOf(row: MockMessage, user: MockUser): number {
+    return row.sender_id === user.id ? row.recipient_id : row.sender_id;
+}
+
+/** Inbox rows: one per user the signed-in user has messaged with, most recent first. */
+function conversationsFor(user: MockUser) {
+    const threads = new Map<number, MockMessage[]>();
+    db.messages
+        .filter((m) => visibleTo(m, user))
+        .sort(byOldest)
+        .forEach((m) => {
+            const peerId = peerOf(m, user);
+            threads.set(peerId, [...(threads.get(peerId) ?? []), m]);
+        });
+
+    const conversations = Array.from(threads.entries()).map(([peerId, rows]) => {
+        const peer = findUser(peerId);
+        const last = rows[rows.length - 1];
+
+        return {
+            conversation_id: null,
+            peer_id: peerId,
+            peer_role: peer ? inboxRole(peer) : "student",
+            peer_name: peer?.name ?? null,
+            peer_avatar_url: peer?.avatar_url ?? null,
+            unread_count: rows.filter((m) => m.recipient_id === user.id && !m.is_read).length,
+            last_message: toMessageResource(last),
+            last_message_at: last.created_at,
+        };
+    });
+
+    conversations.sort((a, b) => b.last_message_at.localeCompare(a.last_message_at));
+    return { conversations };
+}
+
+interface HistoryCursor {
+    created_at: string;
+    id: number;
+}
+
+function decodeCursor(raw: string | null): HistoryCursor | null {
+    if (!raw) return null;
+    try {
+        const parsed = JSON.parse(atob(raw));
+        if (typeof parsed?.created_at === "string" && Number.isInteger(parsed?.id)) return parsed;
+    } catch {
+        // fall through
+    }
+    return validationError("cursor", "The cursor is invalid.");
+}
+
+/**
+ * One page of a conversation, newest first like `cursorPaginate` over
+ * `created_at desc`, returned oldest first for the chat pane.
+ */
+function conversationPage(req: MockRequest, user: MockUser) {
+    const peer = findUser(req.params.userId) ?? notFound("User not found.");
+    const perPage = Math.min(100, Math.max(1, Number(req.query.get("per_page")) || 30));
+    const cursor = decodeCursor(req.query.get("cursor"));
+
+    const older = db.messages
+        .filter((m) => visibleTo(m, user) && peerOf(m, user) === peer.id)
+        .filter(
+            (m) =>
+                !cursor || m.created_at < cursor.created_at || (m.created_at === cursor.created_at && m.id < cursor.id),
+        )
+        .sort(byOldest);
+
+    const page = older.slice(-perPage);
+    const first = page[0];
+
+    return {
+        messages: page.map(toMessageResource),
+        next_cursor:
+            older.length > page.length && first ? btoa(JSON.stringify({ created_at: first.created_at, id: first.id })) : null,
+        per_page: perPage,
+    };
+}
+
+/** Search filters shared by the counselor and admin search (`q`, `sender_role`, `from`, `to`). */
+function searchFilter(req: MockRequest): (row: MockMessage) => boolean {
+    const q = (req.query.get("q") ?? "").trim();
+    if (q.length < MESSAGE_SEARCH_MIN_LENGTH) {
+        validationError("q", `The search must be at least ${MESSAGE_SEARCH_MIN_LENGTH} characters.`);
+    }
+
+    const terms = messageSearchTerms(q);
+    const senderRole = req.query.get("sender_role") || null;
+    const from = req.query.get("from") || null;
+    const to = req.query.get("to") || null;
+    if (from && to && from > to) validationError("to", "The end date must be a date after or equal to the start date.");
+
+    return (row) => {
+        const sender = findUser(row.sender_id);
+        const day = row.created_at.slice(0, 10);
+
+        return (
+            messageMatchesSearch(row.content, terms) &&
+            (!senderRole || (sender ? inboxRole(sender) : row.sender) === senderRole) &&
+            (!from || day >= from) &&
+            (!to || day <= to)
+        );
+    };
+}
+
+function searchCounselorMessages(req: MockRequest) {
+    const user = requireUser(req, ["counselor"]);
+    const matches = searchFilter(req);
+    const peerId = req.query.get("peer_id") ? Number(req.query.get("peer_id")) : null;
+
+    const rows = db.messages
+        .filter((m) => visibleTo(m, user))
+        .filter((m) => peerId == null || peerOf(m, user) === peerId)
+        .filter(matches)
+        .sort((a, b) => byOldest(b, a));
+
+    const { data, meta } = paginate(rows, req.query, 20);
+    return {
+        hits: data.map((m) => {
+            const peer = findUser(peerOf(m, user));
+            return {
+                message: toMessageResource(m),
+                peer_id: peerOf(m, user),
+                peer_role: peer ? inboxRole(peer) : "student",
+                peer_name: peer?.name ?? null,
+                peer_avatar_url: peer?.avatar_url ?? null,
+            };
+        }),
+        meta,
+    };
+}
+
+/**
+ * Admin views group messages per client (`student-4`, `referral_user-8`) and
+ * staff-only threads per pair (`counselor-2-3`), the ids the admin page parses.
+ */
+function adminConversationId(row: MockMessage): string {
+    const owner = row.user_id == null ? undefined : findUser(row.user_id);
+    if (owner) return `${inboxRole(owner)}-${owner.id}`;
+
+    const [a, b] = [row.sender_id, row.recipient_id].sort((x, y) => x - y);
+    return `counselor-${a}-${b}`;
+}
+
+function toAdminMessageResource(row: MockMessage) {
+    const sender = findUser(row.sender_id);
+    const recipient = findUser(row.recipient_id);
+    const owner = row.user_id == null ? undefined : findUser(row.user_id);
+
+    return {
+        ...toMessageResource(row),
+        conversation_id: adminConversationId(row),
+        sender_role: sender ? inboxRole(sender) : row.sender,
+        sender_email: sender?.email ?? null,
+        recipient_email: recipient?.email ?? null,
+        recipient_user_role: recipient?.role ?? null,
+        owner_user_id: owner?.id ?? null,
+        owner_name: owner?.name ?? null,
+        owner_email: owner?.email ?? null,
+        owner_role: owner ? inboxRole(owner) : null,
+        owner_avatar_url: owner?.avatar_url ?? null,
+        revision_count: db.messageRevisions.filter((r) => r.message_id === row.id).length,
+        // Admins only oversee; nothing is unread for them
+        admin_is_read: true,
+    };
+}
+
+function adminConversations(req: MockRequest) {
+    requireUser(req, ["admin"]);
+
+    const latest = new Map<string, MockMessage>();
+    [...db.messages].sort(byOldest).forEach((m) => latest.set(adminConversationId(m), m));
+
+    const rows = Array.from(latest.entries())
+        .map(([conversationId, last]) => ({ conversation_id: conversationId, last_message: toAdminMessageResource(last) }))
+        .filter((c) => matchesSearch(req.query, c.last_message.owner_name, c.last_message.sender_name, c.last_message.content))
+        .sort((a, b) => b.last_message.created_at.localeCompare(a.last_message.created_at));
+
+    const { data, meta } = paginate(rows, req.query, 50);
+    return { conversations: data, pagination: meta };
+}
+
+function adminConversationMessages(req: MockRequest) {
+    requireUser(req, ["admin"]);
+
+    const rows = db.messages.filter((m) => adminConversationId(m) === req.params.conversationId).sort(byOldest);
+    if (rows.length === 0) notFound("Conversation not found.");
+
+    const { data, meta } = paginate(rows, req.query, 50);
+    return { conversation_id: req.params.conversationId, messages: data.map(toAdminMessageResource), pagination: meta };
+}
+
+function searchAdminMessages(req: MockRequest) {
+    requireUser(req, ["admin"]);
+    const matches = searchFilter(req);
+    const conversationId = req.query.get("conversation_id") || null;
+
+    const rows = db.messages
+        .filter((m) => !conversationId || adminConversationId(m) === conversationId)
+        .filter(matches)
+        .sort((a, b) => byOldest(b, a));
+
+    const { data, meta } = paginate(rows, req.query, 20);
+    return { messages: data.map(toAdminMessageResource), pagination: meta };
+}
+
+function resolveRecipient(req: MockRequest, allowedRoles: string[], fallback?: () => MockUser | undefined): MockUser {
+    const rawId = req.body?.recipient_id;
+    const recipient = rawId != null && rawId !== "" ? findUser(rawId) : fallback?.();
+
+    if (!recipient) validationError("recipient_id", "The selected recipient id is invalid.");
+    if (!allowedRoles.includes(inboxRole(recipient))) {
+        validationError("recipient_role", "You cannot message this user.");
+    }
+    return recipient;
+}
+
+/** `attachments[]` of a multipart send, validated like `attachments.*` => file|mimes|max. */
+function uploadedFiles(body: MockRequest["body"]): File[] {
+    const raw = body?.attachments;
+    const files: unknown[] = Array.isArray(raw) ? raw : raw != null ? [raw] : [];
+
+    if (files.some((f) => !(typeof File !== "undefined" && f instanceof File))) {
+        validationError("attachments", "Each attachment must be a file.");
+    }
+
+    const problem = validateMessageAttachments(files as File[]);
+    if (problem) validationError("attachments", problem);
+    return files as File[];
+}
+
+/** Text is optional when files are attached (`required_without:attachments`). */
+function messageContent(body: MockRequest["body"], files: File[]): string {
+    return files.length > 0 ? (optionalString(body, "content") ?? "") : requiredString(body, "content");
+}
+
+/**
+ * Store a message in the thread between two users (also used for system notices).
+ */
+export function deliverMessage(sender: MockUser, recipient: MockUser, content: string, files: File[] = []): MockMessage {
+    const now = nowIso();
+    const senderRole = inboxRole(sender);
+    const recipientRole = inboxRole(recipient);
+
+    // Threads are owned by the non-staff party (student, guest, referral user)
+    const owner = [sender, recipient].find((u) => !["counselor", "admin"].includes(inboxRole(u)));
+
+    const row: MockMessage = {
+        id: nextId(db.messages),
+        user_id: owner?.id ?? null,
+        sender_id: sender.id,
+        sender: senderRole,
+        recipient_id: recipient.id,
+        recipient_role: recipientRole,
+        content,
+        is_read: false,
+        created_at: now,
+        updated_at: now,
+    };
+    db.messages.push(row);
+
+    files.forEach((file) => {
+        db.messageAttachments.push({
+            id: nextId(db.messageAttachments),
+            message_id: row.id,
+            file_name: file.name,
+            mime_type: file.type,
+            size: file.size,
+            scan_status: "pending",
+            scan_ready_at: new Date(Date.now() + SCAN_DELAY_MS).toISOString(),
+            blob_url: URL.createObjectURL(file),
+            created_at: now,
+        });
+    });
+
+    const payload = { message: toMessageResource(row) };
+    broadcastToUser(recipient.id, "message.sent", payload);
+    if (sender.id !== recipient.id) broadcastToUser(sender.id, "message.sent", payload);
+
+    return row;
+}
+
+function send(req: MockRequest, sender: MockUser, recipient: MockUser) {
+    const files = uploadedFiles(req.body);
+    const row = deliverMessage(sender, recipient, messageContent(req.body, files), files);
+    return respond(201, { message: "Message sent.", messageRecord: toMessageResource(row) });
+}
+
+function markRead(req: MockRequest) {
+    const user = requireUser(req);
+    const ids: unknown[] = Array.isArray(req.body?.message_ids) ? req.body.message_ids : [];
+    const only = new Set(ids.map(Number));
+    const peerId = req.body?.peer_id != null && req.body.peer_id !== "" ? Number(req.body.peer_id) : null;
+
+    const read = db.messages.filter(
+        (m) =>
+            m.recipient_id === user.id &&
+            !m.is_read &&
+            (only.size === 0 || only.has(m.id)) &&
+            (peerId == null || m.sender_id === peerId),
+    );
+    const readAt = nowIso();
+    read.forEach((m) => {
+        m.is_read = true;
+        m.updated_at = readAt;
+    });
+
+    // Read receipts go to whoever sent the messages
+    new Set(read.map((m) => m.sender_id)).forEach((senderId) => {
+        broadcastToUser(senderId, "messages.read", {
+            reader_id: user.id,
+            message_ids: read.filter((m) => m.sender_id === senderId).map((m) => m.id),
+            read_at: readAt,
+        });
+    });
+
+    return { message: "Messages marked as read.", updated_count: read.length };
+}
+
+/* ----------------------------- Edit & delete ----------------------------- */
+
+function toRevisionResource(row: MockMessageRevision) {
+    const actor = findUser(row.actor_id);
+    return {
+        ...row,
+        actor_name: actor?.name ?? null,
+        actor_role: actor ? inboxRole(actor) : null,
+    };
+}
+
+/** `message.updated` to both participants. */
+function broadcastUpdate(row: MockMessage): void {
+    const payload = { message: toMessageResource(row) };
+    broadcastToUser(row.sender_id, "message.updated", payload);
+    if (row.recipient_id !== row.sender_id) broadcastToUser(row.recipient_id, "message.updated", payload);
+}
+
+function recordRevision(row: MockMessage, actor: MockUser, action: MockMessageRevision["action"], content: string | null) {
+    db.messageRevisions.push({
+        id: nextId(db.messageRevisions),
+        message_id: row.id,
+        action,
+        previous_content: row.content,
+        content,
+        actor_id: actor.id,
+        created_at: nowIso(),
+    });
+}
+
+function editMessageRow(row: MockMessage, actor: MockUser, content: string): void {
+    if (row.deleted_at) validationError("content", "Deleted messages cannot be edited.");
+    if (content === row.content) return;
+
+    recordRevision(row, actor, "edited", content);
+    const now = nowIso();
+    row.content = content;
+    row.edited_at = now;
+    row.updated_at = now;
+    broadcastUpdate(row);
+}
+
+/** Clears the text and files; the row stays as a "deleted" placeholder. */
+function deleteMessageRowForEveryone(row: MockMessage, actor: MockUser): void {
+    if (row.deleted_at) validationError("scope", "This message was already deleted.");
+
+    recordRevision(row, actor, "deleted", null);
+    const now = nowIso();
+    row.content = "";
+    row.deleted_at = now;
+    row.updated_at = now;
+    db.messageAttachments = db.messageAttachments.filter((a) => {
+        if (a.message_id !== row.id) return true;
+        URL.revokeObjectURL(a.blob_url);
+        return false;
+    });
+    broadcastUpdate(row);
+}
+
+function findMessage(req: MockRequest): MockMessage {
+    return db.messages.find((m) => m.id === Number(req.params.id)) ?? notFound("Message not found.");
+}
+
+/** A message in one of the user's threads that they have not hidden. */
+function visibleMessage(req: MockRequest, user: MockUser): MockMessage {
+    const row = findMessage(req);
+    return visibleTo(row, user) ? row : notFound("Message not found.");
+}
+
+function assertEditWindow(row: MockMessage, field: string): void {
+    if (!isWithinEditWindow(row.created_at)) {
+        validationError(field, `Messages can only be changed within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.`);
+    }
+}
+
+function updateOwnMessage(req: MockRequest) {
+    const user = requireUser(req);
+    const row = visibleMessage(req, user);
+    if (row.sender_id !== user.id) throw new MockHttpError(403, "You can only edit your own messages.");
+
+    const content = requiredString(req.body, "content");
+    assertEditWindow(row, "content");
+    editMessageRow(row, user, content);
+
+    return { message: "Message updated.", messageRecord: toMessageResource(row) };
+}
+
+function deleteOwnMessage(req: MockRequest) {
+    const user = requireUser(req);
+    const row = visibleMessage(req, user);
+    const scope = req.query.get("scope") || "me";
+
+    if (scope === "me") {
+        row.hidden_for = [...(row.hidden_for ?? []), user.id];
+        return { message: "Message deleted for you.", scope, messageRecord: null };
+    }
+    if (scope !== "everyone") validationError("scope", "The selected scope is invalid.");
+
+    if (row.sender_id !== user.id) throw new MockHttpError(403, "Only the sender can delete a message for everyone.");
+    assertEditWindow(row, "scope");
+    deleteMessageRowForEveryone(row, user);
+
+    return { message: "Message deleted for everyone.", scope, messageRecord: toMessageResource(row) };
+}
+
+function firstCounselor(): MockUser | undefined {
+    return db.users.find((u) => u.role === "counselor");
+}
+
+export function registerMessageRoutes(router: MockRouter): void {
+    router
+        .get("/student/messages", (req) => inboxFor(requireUser(req, ["student", "guest"])))
+        .get("/student/messages/conversations", (req) => conversationsFor(requireUser(req, ["student", "guest"])))
+        .get("/student/messages/conversations/:userId", (req) => conversationPage(req, requireUser(req, ["student", "guest"])))
+        .post("/student/messages", (req) => {
+            const user = requireUser(req, ["student", "guest"]);
+            const recipient = resolveRecipient(req, ["counselor"], firstCounselor);
+            return send(req, user, recipient);
+        })
+        .post("/student/messages/mark-as-read", markRead)
+
+        .get("/counselor/messages", (req) => inboxFor(requireUser(req, ["counselor"])))
+        .get("/counselor/messages/search", searchCounselorMessages)
+        .get("/counselor/messages/conversations", (req) => conversationsFor(requireUser(req, ["counselor"])))
+        .get("/counselor/messages/conversations/:userId", (req) => conversationPage(req, requireUser(req, ["counselor"])))
+        .post("/counselor/messages", (req) => {
+            const user = requireUser(req, ["counselor"]);
+            const recipient = resolveRecipient(req, ["student", "guest", "counselor", "admin", "referral_user"]);
+            return send(req, user, recipient);
+        })
+        .post("/counselor/messages/mark-as-read", markRead)
+
+        .get("/referral-user/messages", (req) => inboxFor(requireUser(req, ["referral_user"])))
+        .get("/referral-user/messages/conversations", (req) => conversationsFor(requireUser(req, ["referral_user"])))
+        .get("/referral-user/messages/conversations/:userId", (req) => conversationPage(req, requireUser(req, ["referral_user"])))
+        .post("/referral-user/messages", (req) => {
+            const user = requireUser(req, ["referral_user"]);
+            const recipient = resolveRecipient(req, ["counselor"]);
+            return send(req, user, recipient);
+        })
+        .post("/referral-user/messages/mark-as-read", markRead)
+
+        // Admin oversight: conversation list, one thread, search, moderation with an audit trail
+        .get("/admin/messages", adminConversations)
+        .get("/admin/messages/search", searchAdminMessages)
+        .get("/admin/messages/conversations/:conversationId", adminConversationMessages)
+        .patch("/admin/messages/:id", (req) => {
+            const admin = requireUser(req, ["admin"]);
+            const row = findMessage(req);
+            editMessageRow(row, admin, requiredString(req.body, "content"));
+            return { message: "Message updated.", data: toAdminMessageResource(row) };
+        })
+        .delete("/admin/messages/:id", (req) => {
+            const admin = requireUser(req, ["admin"]);
+            const row = findMessage(req);
+            deleteMessageRowForEveryone(row, admin);
+            return { message: "Message deleted.", id: row.id, messageRecord: toAdminMessageResource(row) };
+        })
+        .get("/admin/messages/:id/revisions", (req) => {
+            requireUser(req, ["admin"]);
+            const row = findMessage(req);
+            const revisions = db.messageRevisions.filter((r) => r.message_id === row.id).sort((a, b) => a.id - b.id);
+            return { message_id: row.id, revisions: revisions.map(toRevisionResource) };
+        })
+
+        .get("/messages/attachments/:id", (req) => {
+            const user = requireUser(req);
+            const row =
+                db.messageAttachments.find((a) => a.id === Number(req.params.id)) ??
+                notFound("Attachment not found.");
+            const message = db.messages.find((m) => m.id === row.message_id) ?? notFound("Attachment not found.");
+
+            if (message.sender_id !== user.id && message.recipient_id !== user.id && user.role !== "admin") {
+                throw new MockHttpError(403, "Only the people in this conversation can open its attachments.");
+            }
+
+            return { attachment: toAttachmentResource(row) };
+        })
+
+        .patch("/messages/:id", updateOwnMessage)
+        .delete("/messages/:id", deleteOwnMessage);
+}
@@ -0,0 +1,202 @@
+import { db, findUser, nextId, nowIso, type MockReferral, type MockUser } from "@/mock/db";
+import {
+    byNewest,
+    hasField,
+    matchesSearch,
+    notFound,
+    optionalString,
+    paginate,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { assertNoScheduleConflict } from "@/mock/handlers/availability";
+
+const URGENCIES = ["low", "medium", "high"];
+const STATUSES = ["pending", "handled", "closed"];
+
+function toUserMini(user: MockUser | undefined) {
+    if (!user) return null;
+    return { id: user.id, name: user.name, email: user.email, role: user.role, student_id: user.student_id };
+}
+
+/**
+ * Same shape as the Laravel ReferralResource (relations + flat display columns).
+ */
+function toReferralResource(row: MockReferral) {
+    const student = findUser(row.student_id);
+    const requestedBy = findUser(row.requested_by_id);
+    const counselor = row.counselor_id == null ? undefined : findUser(row.counselor_id);
+
+    return {
+        ...row,
+        schedule_sequence: row.schedule_sequence ?? 0,
+        student: toUserMini(student),
+        requested_by: toUserMini(requestedBy),
+        counselor: toUserMini(counselor),
+        student_name: student?.name ?? null,
+        student_email: student?.email ?? null,
+        requested_by_name: requestedBy?.name ?? null,
+        requested_by_role: requestedBy?.role ?? null,
+        requested_by_email: requestedBy?.email ?? null,
+        counselor_name: counselor?.name ?? null,
+        counselor_email: counselor?.email ?? null,
+    };
+}
+
+function listing(req: MockRequest, rows: MockReferral[]) {
+    const status = req.query.get("status");
+    const filtered = rows
+        .filter((r) => !status || status === "all" || r.status === status)
+        .map(toReferralResource)
+        .filter((r) => matchesSearch(req.query, r.student_name, r.concern_type, r.details))
+        .sort(byNewest);
+
+    const { data, meta } = paginate(filtered, req.query, 15);
+    return { referrals: data, meta };
+}
+
+function findReferral(req: MockRequest): MockReferral {
+    return db.referrals.find((r) => r.id === Number(req.params.id)) ?? notFound("Referral not found.");
+}
+
+function ownReferral(req: MockRequest): MockReferral {
+    const user = requireUser(req, ["referral_user"]);
+    const row = findReferral(req);
+    if (row.requested_by_id !== user.id) notFound("Referral not found.");
+    return row;
+}
+
+/**
+ * `student_id` is the school id number (users.student_id); users.id is accepted as a fallback.
+ */
+function resolveStudent(value: string): MockUser {
+    const student =
+        db.users.find((u) => u.role === "student" && u.student_id === value) ??
+        db.users.find((u) => u.role === "student" && String(u.id) === value);
+
+    if (!student) validationError("student_id", "The selected student id is invalid.");
+    return student;
+}
+
+function applyReferralFields(row: MockReferral, body: Record<string, unknown>): void {
+    if (hasField(body, "student_id")) row.student_id = resolveStudent(requiredString(body, "student_id", "student id")).id;
+    if (hasField(body, "concern_type")) row.concern_type = requiredString(body, "concern_type", "concern type");
+    if (hasField(body, "details")) row.details = requiredString(body, "details");
+    if (hasField(body, "urgency")) {
+        const urgency = requiredString(body, "urgency");
+        if (!URGENCIES.includes(urgency)) validationError("urgency", "The selected urgency is invalid.");
+        row.urgency = urgency as MockReferral["urgency"];
+    }
+}
+
+export function registerReferralRoutes(router: MockRouter): void {
+    router
+        // Referral users (dean / registrar / program chair)
+        .get("/referral-user/referrals", (req) => {
+            const user = requireUser(req, ["referral_user"]);
+            return listing(
+                req,
+                db.referrals.filter((r) => r.requested_by_id === user.id),
+            );
+        })
+        .post("/referral-user/referrals", (req) => {
+            const user = requireUser(req, ["referral_user"]);
+            const body = req.body ?? {};
+
+            const now = nowIso();
+            const row: MockReferral = {
+                id: nextId(db.referrals),
+                student_id: resolveStudent(requiredString(body, "student_id", "student id")).id,
+                requested_by_id: user.id,
+                counselor_id: null,
+                concern_type: requiredString(body, "concern_type", "concern type"),
+                urgency: "medium",
+                details: requiredString(body, "details"),
+                status: "pending",
+                remarks: null,
+                scheduled_date: null,
+                scheduled_time: null,
+                handled_at: null,
+                closed_at: null,
+                created_at: now,
+                updated_at: now,
+            };
+            applyReferralFields(row, { urgency: body.urgency ?? "medium" });
+            db.referrals.push(row);
+
+            return respond(201, { message: "Referral submitted.", referral: toReferralResource(row) });
+        })
+        .get("/referral-user/referrals/:id", (req) => ({ referral: toReferralResource(ownReferral(req)) }))
+        .patch("/referral-user/referrals/:id", (req) => {
+            const row = ownReferral(req);
+            if (row.status !== "pending") validationError("status", "Only pending referrals can be edited.");
+
+            applyReferralFields(row, req.body ?? {});
+            row.updated_at = nowIso();
+            return { message: "Referral updated.", referral: toReferralResource(row) };
+        })
+        .delete("/referral-user/referrals/:id", (req) => {
+            const row = ownReferral(req);
+            if (row.status !== "pending") validationError("status", "Only pending referrals can be deleted.");
+
+            db.referrals = db.referrals.filter((r) => r.id !== row.id);
+            return { message: "Referral deleted." };
+        })
+
+        // Counselor
+        .get("/counselor/referrals", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            return listing(req, db.referrals);
+        })
+        .get("/counselor/referrals/:id", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            return { referral: toReferralResource(findReferral(req)) };
+        })
+        .patch("/counselor/referrals/:id", (req) => {
+            requireUser(req, ["counselor", "admin"]);
+            const row = findReferral(req);
+            const body = req.body ?? {};
+            const now = nowIso();
+
+            const status = optionalString(body, "status") ? String(body.status).toLowerCase() : row.status;
+            if (!STATUSES.includes(status)) validationError("status", "The selected status is invalid.");
+
+            let counselorId = row.counselor_id;
+            if (hasField(body, "counselor_id")) {
+                counselorId = body.counselor_id == null || body.counselor_id === "" ? null : Number(body.counselor_id);
+                if (counselorId != null && findUser(counselorId)?.role !== "counselor") {
+                    validationError("counselor_id", "The selected counselor id is invalid.");
+                }
+            }
+
+            const scheduledDate = hasField(body, "scheduled_date") ? optionalString(body, "scheduled_date") : row.scheduled_date;
+            const scheduledTime = hasField(body, "scheduled_time") ? optionalString(body, "scheduled_time") : row.scheduled_time;
+
+            if (counselorId != null && scheduledDate && scheduledTime && status !== "closed") {
+                assertNoScheduleConflict({
+                    counselorId,
+                    date: scheduledDate,
+                    time: scheduledTime,
+                    ignore: { type: "referral", id: row.id },
+                });
+            }
+
+            if (scheduledDate !== row.scheduled_date || scheduledTime !== row.scheduled_time || status !== row.status) {
+                row.schedule_sequence = (row.schedule_sequence ?? 0) + 1;
+            }
+            if (status === "handled" && !row.handled_at) row.handled_at = now;
+            if (status === "closed" && !row.closed_at) row.closed_at = now;
+            row.status = status as MockReferral["status"];
+            if (hasField(body, "remarks")) row.remarks = optionalString(body, "remarks");
+            row.scheduled_date = scheduledDate;
+            row.scheduled_time = scheduledTime;
+            row.counselor_id = counselorId;
+
+            row.updated_at = now;
+            return { message: "Referral updated.", referral: toReferralResource(row) };
+        });
+}
@@ -0,0 +1,235 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    type MockReminder,
+    type MockReminderChannel,
+    type MockReminderSettings,
+    type MockUser,
+} from "@/mock/db";
+import { notFound, requireUser, validationError } from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+import { timeToMinutes } from "@/lib/availability";
+
+const CHANNELS: MockReminderChannel[] = ["in_app", "email"];
+
+/** Same defaults as `DEFAULT_REMINDER_SETTINGS` in `@/lib/reminders`. */
+const DEFAULT_REMINDER_SETTINGS = { channels: CHANNELS, offsets_minutes: [1440, 60] };
+
+/** Longest offset accepted (one week). */
+const MAX_OFFSET_MINUTES = 7 * 24 * 60;
+const MAX_OFFSETS = 5;
+
+interface UpcomingSession {
+    type: MockReminder["session_type"];
+    id: number;
+    sequence: number;
+    date: string;
+    time: string | null;
+    start: Date;
+    studentId: number;
+    counselorId: number | null;
+}
+
+function settingsFor(userId: number): Omit<MockReminderSettings, "user_id" | "updated_at"> {
+    const saved = db.reminderSettings.find((s) => s.user_id === userId);
+    return saved ? { channels: saved.channels, offsets_minutes: saved.offsets_minutes } : DEFAULT_REMINDER_SETTINGS;
+}
+
+function startOf(date: string | null, time: string | null): Date | null {
+    const minutes = timeToMinutes(time);
+    if (!date || minutes == null) return null;
+    const [y, m, d] = date.split("-").map(Number);
+    return new Date(y, m - 1, d, 0, minutes);
+}
+
+function scheduledSessions(): UpcomingSession[] {
+    const out: UpcomingSession[] = [];
+
+    db.intakeRequests
+        .filter((r) => (r.status === "scheduled" || r.status === "rescheduled") && !r.attendance)
+        .forEach((r) => {
+            const start = startOf(r.scheduled_date, r.scheduled_time);
+            if (!start || !r.scheduled_date) return;
+            out.push({
+                type: "appointment",
+                id: r.id,
+                sequence: r.schedule_sequence ?? 0,
+                date: r.scheduled_date,
+                time: r.scheduled_time,
+                start,
+                studentId: r.user_id,
+                counselorId: r.counselor_id,
+            });
+        });
+
+    db.referrals
+        .filter((r) => r.status !== "closed")
+        .forEach((r) => {
+            const start = startOf(r.scheduled_date, r.scheduled_time);
+            if (!start || !r.scheduled_date) return;
+            out.push({
+                type: "referral",
+                id: r.id,
+                sequence: r.schedule_sequence ?? 0,
+                date: r.scheduled_date,
+                time: r.scheduled_time,
+                start,
+                studentId: r.student_id,
+                counselorId: r.counselor_id,
+            });
+        });
+
+    return out;
+}
+
+function describeSession(session: UpcomingSession, recipient: MockUser): string {
+    const when = `${session.date}${session.time ? ` at ${session.time}` : ""}`;
+
+    if (recipient.id === session.studentId) {
+        const counselor = findUser(session.counselorId);
+        return `Your counseling session${counselor ? ` with ${counselor.name}` : ""} is on ${when} at the Guidance Office.`;
+    }
+
+    const student = findUser(session.studentId);
+    const kind = session.type === "referral" ? "referral session" : "counseling session";
+    return `Your ${kind} with ${student?.name ?? `Student #${session.studentId}`} is on ${when}.`;
+}
+
+/**
+ * What the Laravel scheduler does every minute: for each participant of an
+ * upcoming session, send the closest offset whose time has come (one reminder
+ * per offset, channel and schedule version — rescheduling re-arms them).
+ */
+export function dispatchDueReminders(now: Date = new Date()): void {
+    const upcoming = scheduledSessions().filter((session) => session.start > now);
+
+    // Reminders of a past, cancelled or since-rescheduled schedule are stale
+    const live = new Set(upcoming.map((s) => `${s.type}:${s.id}:${s.sequence}`));
+    db.reminders
+        .filter((r) => !r.read_at && !live.has(`${r.session_type}:${r.session_id}:${r.schedule_sequence}`))
+        .forEach((r) => {
+            r.read_at = nowIso();
+        });
+
+    upcoming.forEach((session) => {
+        const minutesLeft = (session.start.getTime() - now.getTime()) / 60_000;
+
+        [session.studentId, session.counselorId].forEach((userId) => {
+            const recipient = userId != null ? findUser(userId) : undefined;
+            if (!recipient) return;
+
+            const settings = settingsFor(recipient.id);
+            const due = settings.offsets_minutes.filter((o) => o >= minutesLeft);
+            if (due.length === 0) return;
+            const offset = Math.min(...due);
+
+            settings.channels.forEach((channel) => {
+                const alreadySent = db.reminders.some(
+                    (r) =>
+                        r.user_id === recipient.id &&
+                        r.channel === channel &&
+                        r.session_type === session.type &&
+                        r.session_id === session.id &&
+                        r.schedule_sequence === session.sequence &&
+                        r.offset_minutes <= offset,
+                );
+                if (alreadySent) return;
+
+                const createdAt = nowIso();
+                db.reminders.push({
+                    id: nextId(db.reminders),
+                    user_id: recipient.id,
+                    channel,
+                    session_type: session.type,
+                    session_id: session.id,
+                    schedule_sequence: session.sequence,
+                    offset_minutes: offset,
+                    session_date: session.date,
+                    session_time: session.time,
+                    title: "Upcoming counseling session",
+                    body: describeSession(session, recipient),
+                    created_at: createdAt,
+                    // email reminders are "read" once delivered
+                    read_at: channel === "email" ? createdAt : null,
+                });
+            });
+        });
+    });
+}
+
+function toReminderResource(row: MockReminder) {
+    return {
+        id: row.id,
+        channel: row.channel,
+        session_type: row.session_type,
+        session_id: row.session_id,
+        offset_minutes: row.offset_minutes,
+        session_date: row.session_date,
+        session_time: row.session_time,
+        title: row.title,
+        body: row.body,
+        created_at: row.created_at,
+        read_at: row.read_at,
+    };
+}
+
+function parseSettings(body: any): Omit<MockReminderSettings, "user_id" | "updated_at"> {
+    const channels = Array.isArray(body?.channels) ? body.channels.map(String) : null;
+    if (!channels || channels.some((c: string) => !CHANNELS.includes(c as MockReminderChannel))) {
+        validationError("channels", "The channels field must list in_app and/or email.");
+    }
+
+    const offsets = Array.isArray(body?.offsets_minutes) ? body.offsets_minutes.map(Number) : null;
+    if (!offsets || offsets.some((o: number) => !Number.isInteger(o) || o < 5 || o > MAX_OFFSET_MINUTES)) {
+        validationError("offsets_minutes", "Each reminder offset must be between 5 minutes and 7 days.");
+    }
+    if (offsets.length > MAX_OFFSETS) {
+        validationError("offsets_minutes", `You can set at most ${MAX_OFFSETS} reminders per session.`);
+    }
+
+    return {
+        channels: Array.from(new Set(channels)) as MockReminderChannel[],
+        offsets_minutes: Array.from(new Set<number>(offsets)).sort((a, b) => b - a),
+    };
+}
+
+export function registerReminderRoutes(router: MockRouter): void {
+    router
+        .get("/reminders/settings", (req) => {
+            const user = requireUser(req);
+            return { settings: settingsFor(user.id) };
+        })
+        .put("/reminders/settings", (req) => {
+            const user = requireUser(req);
+            const next = parseSettings(req.body);
+
+            db.reminderSettings = db.reminderSettings.filter((s) => s.user_id !== user.id);
+            db.reminderSettings.push({ user_id: user.id, ...next, updated_at: nowIso() });
+
+            return { message: "Reminder preferences saved.", settings: next };
+        })
+        .get("/reminders", (req) => {
+            const user = requireUser(req);
+            dispatchDueReminders();
+
+            const unreadOnly = ["1", "true"].includes(req.query.get("unread") ?? "");
+            const reminders = db.reminders
+                .filter((r) => r.user_id === user.id && r.channel === "in_app" && (!unreadOnly || !r.read_at))
+                .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+                .map(toReminderResource);
+
+            return { reminders };
+        })
+        .post("/reminders/:id/read", (req) => {
+            const user = requireUser(req);
+            const row =
+                db.reminders.find((r) => r.id === Number(req.params.id) && r.user_id === user.id) ??
+                notFound("Reminder not found.");
+
+            row.read_at = row.read_at ?? nowIso();
+            return { message: "Reminder dismissed.", reminder: toReminderResource(row) };
+        });
+}
@@ -0,0 +1,221 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { SESSION_NOTE_SECTIONS } from "@/lib/session-notes";
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    type MockSessionNote,
+    type MockSessionNoteFormat,
+    type MockUser,
+} from "@/mock/db";
+import {
+    MockHttpError,
+    notFound,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+const FORMATS: MockSessionNoteFormat[] = ["soap", "dap"];
+const SUBJECT_TYPES: MockSessionNote["subject_type"][] = ["appointment", "referral"];
+
+/** Session notes are clinical records: counselors only (not admins, never students). */
+const NOTE_ROLES = ["counselor"];
+
+function toSessionNoteResource(row: MockSessionNote) {
+    return {
+        id: row.id,
+        subject_type: row.subject_type,
+        subject_id: row.subject_id,
+        format: row.format,
+        sections: row.sections,
+        status: row.status,
+        author_id: row.author_id,
+        author_name: findUser(row.author_id)?.name ?? null,
+        signed_at: row.signed_at,
+        locked_at: row.locked_at,
+        amendments: db.sessionNoteAmendments
+            .filter((a) => a.session_note_id === row.id)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+            .map((a) => ({
+                id: a.id,
+                reason: a.reason,
+                previous_sections: a.previous_sections,
+                sections: a.sections,
+                amended_by_name: findUser(a.amended_by)?.name ?? null,
+                created_at: a.created_at,
+            })),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function parseSubject(source: { get(name: string): string | null }) {
+    const subjectType = source.get("subject_type") as MockSessionNote["subject_type"];
+    if (!SUBJECT_TYPES.includes(subjectType)) {
+        validationError("subject_type", "The subject type must be appointment or referral.");
+    }
+
+    const subjectId = Number(source.get("subject_id"));
+    const exists =
+        subjectType === "appointment"
+            ? db.intakeRequests.some((r) => r.id === subjectId)
+            : db.referrals.some((r) => r.id === subjectId);
+    if (!exists) notFound(subjectType === "appointment" ? "Appointment not found." : "Referral not found.");
+
+    return { subject_type: subjectType, subject_id: subjectId };
+}
+
+function parseFormat(body: any): MockSessionNoteFormat {
+    const format = requiredString(body, "format") as MockSessionNoteFormat;
+    if (!FORMATS.includes(format)) validationError("format", "The format must be soap or dap.");
+    return format;
+}
+
+/** Only the format's own sections are kept. */
+function parseSections(body: any, format: MockSessionNoteFormat): Record<string, string> {
+    const raw = body?.sections && typeof body.sections === "object" ? body.sections : {};
+    return Object.fromEntries(
+        SESSION_NOTE_SECTIONS[format].map((s) => [s.key, raw[s.key] == null ? "" : String(raw[s.key]).trim()]),
+    );
+}
+
+function findNote(req: MockRequest): MockSessionNote {
+    return db.sessionNotes.find((n) => n.id === Number(req.params.id)) ?? notFound("Session note not found.");
+}
+
+function findOwnNote(req: MockRequest, counselor: MockUser): MockSessionNote {
+    const row = findNote(req);
+    if (row.author_id !== counselor.id) {
+        throw new MockHttpError(403, "Only the author can change this note.");
+    }
+    return row;
+}
+
+function assertDraft(row: MockSessionNote): void {
+    if (row.status !== "draft") validationError("status", "Signed notes can only be amended.");
+}
+
+export function registerSessionNoteRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/session-notes", (req) => {
+            requireUser(req, NOTE_ROLES);
+            const subject = parseSubject(req.query);
+
+            const notes = db.sessionNotes
+                .filter((n) => n.subject_type === subject.subject_type && n.subject_id === subject.subject_id)
+                .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id)
+                .map(toSessionNoteResource);
+
+            return { notes };
+        })
+        .post("/counselor/session-notes", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const body = req.body ?? {};
+            const subject = parseSubject({ get: (name) => (body[name] == null ? null : String(body[name])) });
+            const format = parseFormat(body);
+
+            const now = nowIso();
+            const row: MockSessionNote = {
+                id: nextId(db.sessionNotes),
+                ...subject,
+                format,
+                sections: parseSections(body, format),
+                status: "draft",
+                author_id: counselor.id,
+                signed_at: null,
+                locked_at: null,
+                created_at: now,
+                updated_at: now,
+            };
+            db.sessionNotes.push(row);
+
+            return respond(201, { message: "Draft saved.", note: toSessionNoteResource(row) });
+        })
+        .put("/counselor/session-notes/:id", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const row = findOwnNote(req, counselor);
+            assertDraft(row);
+
+            const format = parseFormat(req.body ?? {});
+            row.format = format;
+            row.sections = parseSections(req.body, format);
+            row.updated_at = nowIso();
+
+            return { message: "Draft saved.", note: toSessionNoteResource(row) };
+        })
+        .delete("/counselor/session-notes/:id", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const row = findOwnNote(req, counselor);
+            assertDraft(row);
+
+            db.sessionNotes = db.sessionNotes.filter((n) => n.id !== row.id);
+            return { message: "Draft discarded." };
+        })
+        .post("/counselor/session-notes/:id/sign", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const row = findOwnNote(req, counselor);
+            assertDraft(row);
+
+            const missing = SESSION_NOTE_SECTIONS[row.format].find((s) => !row.sections[s.key]);
+            if (missing) validationError(`sections.${missing.key}`, `Fill in ${missing.label} before signing.`);
+
+            const now = nowIso();
+            row.status = "signed";
+            row.signed_at = now;
+            row.updated_at = now;
+
+            return { message: "Note signed.", note: toSessionNoteResource(row) };
+        })
+        .post("/counselor/session-notes/:id/amendments", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const row = findOwnNote(req, counselor);
+            if (row.status !== "signed") {
+                validationError(
+                    "status",
+                    row.status === "locked" ? "Locked notes cannot be amended." : "Drafts are edited directly.",
+                );
+            }
+
+            const reason = requiredString(req.body ?? {}, "reason");
+            const sections = parseSections(req.body, row.format);
+            const missing = SESSION_NOTE_SECTIONS[row.format].find((s) => !sections[s.key]);
+            if (missing) validationError(`sections.${missing.key}`, `${missing.label} cannot be empty.`);
+
+            const changed = Object.keys(sections).some((k) => sections[k] !== (row.sections[k] ?? ""));
+            if (!changed) validationError("sections", "The amendment does not change anything.");
+
+            const now = nowIso();
+            db.sessionNoteAmendments.push({
+                id: nextId(db.sessionNoteAmendments),
+                session_note_id: row.id,
+                reason,
+                previous_sections: row.sections,
+                sections,
+                amended_by: counselor.id,
+                created_at: now,
+            });
+            row.sections = sections;
+            row.updated_at = now;
+
+            return { message: "Amendment recorded.", note: toSessionNoteResource(row) };
+        })
+        .post("/counselor/session-notes/:id/lock", (req) => {
+            const counselor = requireUser(req, NOTE_ROLES);
+            const row = findOwnNote(req, counselor);
+            if (row.status !== "signed") {
+                validationError("status", row.status === "locked" ? "This note is already locked." : "Sign the note first.");
+            }
+
+            const now = nowIso();
+            row.status = "locked";
+            row.locked_at = now;
+            row.updated_at = now;
+
+            return { message: "Note locked.", note: toSessionNoteResource(row) };
+        });
+}
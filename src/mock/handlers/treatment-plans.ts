@@ -0,0 +1,262 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { treatmentProgressScore, type GoalProgressRating } from "@/lib/treatment-plans";
+import {
+    db,
+    findUser,
+    nextId,
+    nowIso,
+    type MockManualScore,
+    type MockTreatmentGoal,
+    type MockTreatmentPlan,
+    type MockUser,
+} from "@/mock/db";
+import { scoreToRating, toManualScoreResource } from "@/mock/handlers/manual-scores";
+import {
+    MockHttpError,
+    byNewest,
+    notFound,
+    optionalString,
+    requireUser,
+    requiredString,
+    respond,
+    validationError,
+    type MockRequest,
+} from "@/mock/http";
+import type { MockRouter } from "@/mock/router";
+
+const PLAN_STATUSES: MockTreatmentPlan["status"][] = ["active", "completed", "discontinued"];
+const GOAL_STATUSES: MockTreatmentGoal["status"][] = ["in_progress", "achieved", "discontinued"];
+
+function toTreatmentPlanResource(row: MockTreatmentPlan) {
+    const progress = db.treatmentProgress.filter((p) => p.treatment_plan_id === row.id).sort(byNewest);
+
+    return {
+        id: row.id,
+        student_id: row.student_id,
+        student_name: findUser(row.student_id)?.name ?? null,
+        counselor_id: row.counselor_id,
+        counselor_name: findUser(row.counselor_id)?.name ?? null,
+        title: row.title,
+        summary: row.summary,
+        status: row.status,
+        start_date: row.start_date,
+        review_date: row.review_date,
+        goals: row.goals,
+        progress_updates: progress.map((p) => ({
+            id: p.id,
+            session_date: p.session_date,
+            intake_request_id: p.intake_request_id,
+            ratings: p.ratings,
+            note: p.note,
+            score: p.score,
+            manual_score_id: p.manual_score_id,
+            recorded_by_name: findUser(p.recorded_by)?.name ?? null,
+            created_at: p.created_at,
+        })),
+        latest_score: progress[0]?.score ?? null,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+function parseDate(body: any, field: string, label: string, required: boolean): string | null {
+    const value = required ? requiredString(body, field, label) : optionalString(body, field);
+    if (value != null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        validationError(field, `The ${label} must be a valid date (YYYY-MM-DD).`);
+    }
+    return value;
+}
+
+/** Goals keep their id and latest rating when listed again; the rest are dropped. */
+function parseGoals(body: any, existing: MockTreatmentGoal[]): MockTreatmentGoal[] {
+    const raw = Array.isArray(body?.goals) ? body.goals : [];
+    if (raw.length === 0) validationError("goals", "Add at least one goal.");
+
+    let nextGoalId = Math.max(0, ...existing.map((g) => g.id)) + 1;
+    return raw.map((g: any, i: number) => {
+        const description = g?.description == null ? "" : String(g.description).trim();
+        if (!description) validationError(`goals.${i}.description`, "Every goal needs a description.");
+
+        const status = (g?.status ?? "in_progress") as MockTreatmentGoal["status"];
+        if (!GOAL_STATUSES.includes(status)) {
+            validationError(`goals.${i}.status`, "The goal status must be in_progress, achieved or discontinued.");
+        }
+
+        const kept = existing.find((e) => g?.id != null && e.id === Number(g.id));
+        return {
+            id: kept?.id ?? nextGoalId++,
+            description,
+            interventions: optionalString(g, "interventions"),
+            target_date: parseDate(g, "target_date", "target date", false),
+            status,
+            progress: kept?.progress ?? null,
+        };
+    });
+}
+
+function parsePlanFields(body: any, existing: MockTreatmentGoal[]) {
+    const startDate = parseDate(body, "start_date", "start date", true) as string;
+    const reviewDate = parseDate(body, "review_date", "review date", false);
+    if (reviewDate && reviewDate < startDate) {
+        validationError("review_date", "The review date cannot be before the start date.");
+    }
+
+    return {
+        title: requiredString(body, "title"),
+        summary: optionalString(body, "summary"),
+        start_date: startDate,
+        review_date: reviewDate,
+        goals: parseGoals(body, existing),
+    };
+}
+
+function assertNoOtherActivePlan(studentId: number, ignoreId: number | null): void {
+    const clash = db.treatmentPlans.some(
+        (p) => p.student_id === studentId && p.status === "active" && p.id !== ignoreId,
+    );
+    if (clash) validationError("status", "This student already has an active treatment plan.");
+}
+
+function findOwnPlan(req: MockRequest, counselor: MockUser): MockTreatmentPlan {
+    const row = db.treatmentPlans.find((p) => p.id === Number(req.params.id)) ?? notFound("Treatment plan not found.");
+    if (row.counselor_id !== counselor.id) {
+        throw new MockHttpError(403, "Only the counselor who owns this plan can change it.");
+    }
+    return row;
+}
+
+export function registerTreatmentPlanRoutes(router: MockRouter): void {
+    router
+        .get("/counselor/treatment-plans", (req) => {
+            const user = requireUser(req, ["counselor", "admin"]);
+            const raw = req.query.get("student_id") ?? "";
+            const studentId = /^\d+$/.test(raw) ? Number(raw) : null;
+
+            // Without a student: the signed-in counselor's own plans (case load badges)
+            const plans = db.treatmentPlans
+                .filter((p) => (studentId != null ? p.student_id === studentId : p.counselor_id === user.id))
+                .sort(byNewest)
+                .map(toTreatmentPlanResource);
+
+            return { plans };
+        })
+        .post("/counselor/treatment-plans", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const body = req.body ?? {};
+
+            const student = findUser(body.student_id);
+            if (!student || student.role !== "student") {
+                validationError("student_id", "The selected student id is invalid.");
+            }
+
+            const fields = parsePlanFields(body, []);
+            assertNoOtherActivePlan(student.id, null);
+
+            const now = nowIso();
+            const row: MockTreatmentPlan = {
+                id: nextId(db.treatmentPlans),
+                student_id: student.id,
+                counselor_id: counselor.id,
+                ...fields,
+                status: "active",
+                created_at: now,
+                updated_at: now,
+            };
+            db.treatmentPlans.push(row);
+
+            return respond(201, { message: "Treatment plan created.", plan: toTreatmentPlanResource(row) });
+        })
+        .put("/counselor/treatment-plans/:id", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const row = findOwnPlan(req, counselor);
+            const body = req.body ?? {};
+
+            const status = (body.status ?? row.status) as MockTreatmentPlan["status"];
+            if (!PLAN_STATUSES.includes(status)) {
+                validationError("status", "The status must be active, completed or discontinued.");
+            }
+
+            const fields = parsePlanFields(body, row.goals);
+            if (status === "active") assertNoOtherActivePlan(row.student_id, row.id);
+
+            Object.assign(row, fields, { status, updated_at: nowIso() });
+
+            return { message: "Treatment plan saved.", plan: toTreatmentPlanResource(row) };
+        })
+        .post("/counselor/treatment-plans/:id/progress", (req) => {
+            const counselor = requireUser(req, ["counselor"]);
+            const row = findOwnPlan(req, counselor);
+            const body = req.body ?? {};
+            if (row.status !== "active") validationError("status", "Only active plans can be rated.");
+
+            const sessionDate = parseDate(body, "session_date", "session date", true) as string;
+
+            let intakeRequestId: number | null = null;
+            if (body.intake_request_id != null && body.intake_request_id !== "") {
+                const appointment = db.intakeRequests.find((r) => r.id === Number(body.intake_request_id));
+                if (!appointment || appointment.user_id !== row.student_id) {
+                    validationError("intake_request_id", "The selected appointment is invalid.");
+                }
+                intakeRequestId = appointment.id;
+            }
+
+            const given = new Map<number, number>(
+                (Array.isArray(body.ratings) ? body.ratings : []).map((r: any) => [Number(r?.goal_id), Number(r?.rating)]),
+            );
+            const ratings: Record<number, GoalProgressRating> = {};
+            for (const goal of row.goals.filter((g) => g.status === "in_progress")) {
+                const rating = given.get(goal.id);
+                if (rating == null || !Number.isInteger(rating) || rating < 0 || rating > 4) {
+                    validationError(`ratings.${goal.id}`, `Rate "${goal.description}" from 0 to 4.`);
+                }
+                ratings[goal.id] = rating as GoalProgressRating;
+            }
+
+            const score = treatmentProgressScore(row.goals, ratings);
+            if (score == null) validationError("goals", "This plan has no goals left to rate.");
+
+            const note = optionalString(body, "note");
+            const now = nowIso();
+
+            // Progress joins the manual assessment score history of the student
+            const scoreRow: MockManualScore = {
+                id: nextId(db.manualScores),
+                student_id: row.student_id,
+                counselor_id: counselor.id,
+                score,
+                rating: scoreToRating(score),
+                assessed_date: sessionDate,
+                remarks: `Treatment plan "${row.title}"${note ? `: ${note}` : ""}`,
+                treatment_plan_id: row.id,
+                created_at: now,
+                updated_at: now,
+            };
+            db.manualScores.push(scoreRow);
+
+            db.treatmentProgress.push({
+                id: nextId(db.treatmentProgress),
+                treatment_plan_id: row.id,
+                session_date: sessionDate,
+                intake_request_id: intakeRequestId,
+                ratings: row.goals
+                    .filter((g) => g.status !== "discontinued")
+                    .map((g) => ({ goal_id: g.id, rating: g.status === "achieved" ? 4 : ratings[g.id] })),
+                note,
+                score,
+                manual_score_id: scoreRow.id,
+                recorded_by: counselor.id,
+                created_at: now,
+            });
+
+            for (const goal of row.goals) {
+                if (ratings[goal.id] != null) goal.progress = ratings[goal.id];
+            }
+            row.updated_at = now;
+
+            return respond(201, {
+                message: "Progress recorded.",
+                plan: toTreatmentPlanResource(row),
+                score: toManualScoreResource(scoreRow),
+            });
+        });
+}
@@ -0,0 +1,127 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { db, findUser, isReferralRole, type MockUser } from "@/mock/db";
+
+/**
+ * Request as seen by a mock handler (already routed and decoded).
+ */
+export interface MockRequest {
+    method: string;
+    /** Path relative to the API base, e.g. `/counselor/referrals/3` */
+    path: string;
+    query: URLSearchParams;
+    params: Record<string, string>;
+    body: any;
+    token: string | null;
+    user: MockUser | null;
+}
+
+export interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+/**
+ * Thrown by handlers to short-circuit with a Laravel-style error body.
+ */
+export class MockHttpError extends Error {
+    status: number;
+    body: unknown;
+
+    constructor(status: number, message: string, errors?: Record<string, string[]>) {
+        super(message);
+        this.name = "MockHttpError";
+        this.status = status;
+        this.body = errors ? { message, errors } : { message };
+    }
+}
+
+const responses = new WeakSet<MockResponse>();
+
+/**
+ * Explicit status + body (handlers that just return a value answer 200).
+ */
+export function respond(status: number, body: unknown): MockResponse {
+    const res: MockResponse = { status, body };
+    responses.add(res);
+    return res;
+}
+
+export function isMockResponse(value: unknown): value is MockResponse {
+    return !!value && typeof value === "object" && responses.has(value as MockResponse);
+}
+
+export function notFound(message = "Not found."): never {
+    throw new MockHttpError(404, message);
+}
+
+/**
+ * 422 with Laravel's `{ message, errors: { field: [msg] } }` body.
+ */
+export function validationError(field: string, message: string): never {
+    throw new MockHttpError(422, message, { [field]: [message] });
+}
+
+/**
+ * Resolve the signed-in user or fail with 401 / 403 (like `auth:sanctum` + role middleware).
+ * `roles` accepts "referral_user" to mean any referral role (dean, registrar, ...).
+ */
+export function requireUser(req: MockRequest, roles?: string[]): MockUser {
+    if (!req.user) throw new MockHttpError(401, "Unauthenticated.");
+    if (!roles || roles.length === 0) return req.user;
+
+    const role = req.user.role;
+    const allowed = roles.some((r) => r === role || (r === "referral_user" && isReferralRole(role)));
+    if (!allowed) throw new MockHttpError(403, "This action is unauthorized.");
+
+    return req.user;
+}
+
+export function resolveTokenUser(token: string | null): MockUser | null {
+    if (!token) return null;
+    const userId = db.tokens.get(token);
+    return userId == null ? null : findUser(userId) ?? null;
+}
+
+export function requiredString(body: any, field: string, label = field.replace(/_/g, " ")): string {
+    const value = body?.[field];
+    const s = value == null ? "" : String(value).trim();
+    if (!s) validationError(field, `The ${label} field is required.`);
+    return s;
+}
+
+export function optionalString(body: any, field: string): string | null {
+    const value = body?.[field];
+    if (value == null) return null;
+    const s = String(value).trim();
+    return s ? s : null;
+}
+
+export function hasField(body: any, field: string): boolean {
+    return body != null && Object.prototype.hasOwnProperty.call(body, field);
+}
+
+/**
+ * Laravel `paginate()` over an in-memory list (`?page` / `?per_page`).
+ */
+export function paginate<T>(rows: T[], query: URLSearchParams, defaultPerPage = 10) {
+    const perPage = Math.max(1, Number(query.get("per_page")) || defaultPerPage);
+    const total = rows.length;
+    const lastPage = Math.max(1, Math.ceil(total / perPage));
+    const page = Math.min(Math.max(1, Number(query.get("page")) || 1), lastPage);
+    const start = (page - 1) * perPage;
+
+    return {
+        data: rows.slice(start, start + perPage),
+        meta: { current_page: page, per_page: perPage, total, last_page: lastPage },
+    };
+}
+
+export function matchesSearch(query: URLSearchParams, ...values: Array<string | null | undefined>): boolean {
+    const q = (query.get("search") ?? query.get("q") ?? "").trim().toLowerCase();
+    if (!q) return true;
+    return values.some((v) => (v ?? "").toLowerCase().includes(q));
+}
+
+export function byNewest<T extends { created_at: string }>(a: T, b: T): number {
+    return b.created_at.localeCompare(a.created_at);
+}
@@ -0,0 +1,152 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Local mock backend for offline development and demos.
+ *
+ * Enabled with `VITE_API_MOCK=true` (see `main.tsx`). It replaces the transport
+ * of `apiFetch`, so every route module and page talks to an in-memory Laravel
+ * look-alike seeded from `db.ts`. Unknown routes answer 404 like Laravel, which
+ * keeps the multi-path probes (`apiFetchFirst`) working.
+ *
+ * Seeded logins (password: `password`):
+ * - admin@jrmsu.test, counselor@jrmsu.test, counselor2@jrmsu.test
+ * - student@jrmsu.test, guest@jrmsu.test, dean@jrmsu.test, registrar@jrmsu.test
+ */
+import { setApiTransport, type ApiRequestContext, type ApiTransport } from "@/api/client";
+import { setRealtimeSocketFactory } from "@/lib/realtime";
+import { registerAdminRoutes } from "@/mock/handlers/admin";
+import { registerAuthRoutes } from "@/mock/handlers/auth";
+import { registerAvailabilityRoutes } from "@/mock/handlers/availability";
+import { registerBroadcastingRoutes } from "@/mock/handlers/broadcasting";
+import { registerCalendarFeedRoutes } from "@/mock/handlers/calendar-feed";
+import { registerCaseRoutes } from "@/mock/handlers/cases";
+import { registerDashboardRoutes } from "@/mock/handlers/dashboard";
+import { registerGroupSessionRoutes } from "@/mock/handlers/group-sessions";
+import { registerIntakeRoutes } from "@/mock/handlers/intake";
+import { registerManualScoreRoutes } from "@/mock/handlers/manual-scores";
+import { registerMessageRoutes } from "@/mock/handlers/messages";
+import { registerReferralRoutes } from "@/mock/handlers/referrals";
+import { registerReminderRoutes } from "@/mock/handlers/reminders";
+import { registerSessionNoteRoutes } from "@/mock/handlers/session-notes";
+import { registerTreatmentPlanRoutes } from "@/mock/handlers/treatment-plans";
+import { MockHttpError, resolveTokenUser, respond, type MockResponse } from "@/mock/http";
+import { broadcastCountChanges, createMockSocket } from "@/mock/realtime";
+import { createMockRouter } from "@/mock/router";
+
+export { resetMockDb, MOCK_PASSWORD } from "@/mock/db";
+
+/** Simulated network latency so loading states stay visible. */
+const MOCK_LATENCY_MS = 150;
+
+const router = createMockRouter();
+registerAuthRoutes(router);
+registerBroadcastingRoutes(router);
+registerAdminRoutes(router);
+registerDashboardRoutes(router);
+registerIntakeRoutes(router);
+registerGroupSessionRoutes(router);
+registerManualScoreRoutes(router);
+registerCaseRoutes(router);
+registerAvailabilityRoutes(router);
+registerCalendarFeedRoutes(router);
+registerReminderRoutes(router);
+registerReferralRoutes(router);
+registerSessionNoteRoutes(router);
+registerTreatmentPlanRoutes(router);
+registerMessageRoutes(router);
+
+function readHeader(init: RequestInit, name: string): string | null {
+    const headers = init.headers;
+    if (!headers) return null;
+    if (headers instanceof Headers) return headers.get(name);
+
+    const entries = Array.isArray(headers) ? headers : Object.entries(headers);
+    const hit = entries.find(([k]) => k.toLowerCase() === name.toLowerCase());
+    return hit ? String(hit[1]) : null;
+}
+
+function decodeBody(body: RequestInit["body"]): any {
+    if (body == null) return null;
+
+    if (typeof body === "string") {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return body;
+        }
+    }
+
+    if (typeof FormData !== "undefined" && body instanceof FormData) {
+        const out: Record<string, unknown> = {};
+        body.forEach((value, key) => {
+            // `files[]` collects into an array, like Laravel's request parsing
+            if (key.endsWith("[]")) {
+                const name = key.slice(0, -2);
+                out[name] = [...((out[name] as unknown[] | undefined) ?? []), value];
+                return;
+            }
+            out[key] = value;
+        });
+        return out;
+    }
+
+    if (body instanceof URLSearchParams) return Object.fromEntries(body.entries());
+    return body;
+}
+
+/**
+ * Route one `apiFetch` request through the mock handlers.
+ */
+export function handleMockRequest(request: ApiRequestContext): MockResponse {
+    const url = new URL(request.url, "http://mock.local");
+    const [pathPart] = request.path.split("?");
+    const path = `/${pathPart.replace(/^\/+/, "")}`.replace(/\/+$/, "") || "/";
+
+    const bearer = readHeader(request.init, "Authorization");
+    const token = bearer ? bearer.replace(/^bearer\s+/i, "").trim() || null : null;
+
+    const method = (request.init.method ?? "GET").toUpperCase();
+
+    try {
+        const res = router.dispatch({
+            method,
+            path,
+            query: url.searchParams,
+            body: decodeBody(request.init.body),
+            token,
+            user: resolveTokenUser(token),
+        });
+
+        if (method !== "GET") broadcastCountChanges();
+
+        return res ?? respond(404, { message: `The route ${path.slice(1)} could not be found.` });
+    } catch (error) {
+        if (error instanceof MockHttpError) return respond(error.status, error.body);
+
+        console.error("[mock] Handler crashed", error);
+        return respond(500, { message: "Server Error" });
+    }
+}
+
+const mockTransport: ApiTransport = async (request) => {
+    await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+
+    const { status, body } = handleMockRequest(request);
+    return new Response(status === 204 ? null : JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+};
+
+/**
+ * Route every `apiFetch` call (and the push channel) to the in-memory backend.
+ * Returns a function that restores `fetch` and `WebSocket`.
+ */
+export function installMockBackend(): () => void {
+    setApiTransport(mockTransport);
+    setRealtimeSocketFactory(createMockSocket);
+    console.info("[mock] API requests are served by the in-memory mock backend.");
+    return () => {
+        setApiTransport(null);
+        setRealtimeSocketFactory(null);
+    };
+}
@@ -0,0 +1,133 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * In-memory stand-in for the socket server (Reverb / soketi) of the mock backend.
+ *
+ * `installMockBackend` plugs `createMockSocket` into `setRealtimeSocketFactory`,
+ * so the real Pusher-protocol client in `src/lib/realtime.ts` runs unchanged:
+ * handshake, private channel auth (`POST /broadcasting/auth`), pings and events.
+ * Handlers push with `broadcastToUser`.
+ */
+import type { RealtimeSocket } from "@/lib/realtime";
+import { userChannelName } from "@/lib/realtime";
+import { findUser, type MockUser } from "@/mock/db";
+import { notificationCountsFor } from "@/mock/handlers/dashboard";
+
+const ACTIVITY_TIMEOUT_S = 120;
+
+let nextSocketNumber = 1;
+const subscriptions = new Map<string, Set<MockSocket>>();
+
+/** Last counts pushed per user, so `broadcastCountChanges` only sends what changed. */
+const lastCounts = new Map<number, string>();
+
+/** Signature `/broadcasting/auth` hands out and `pusher:subscribe` checks. */
+export function mockChannelAuth(socketId: string, channel: string): string {
+    return `mock:${socketId}:${channel}`;
+}
+
+class MockSocket implements RealtimeSocket {
+    onopen: ((event: any) => void) | null = null;
+    onmessage: ((event: { data: any }) => void) | null = null;
+    onclose: ((event: { code?: number }) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+
+    readonly socketId = `${nextSocketNumber}.${nextSocketNumber++ * 7919}`;
+    private channels = new Set<string>();
+    private closed = false;
+
+    constructor() {
+        setTimeout(() => {
+            if (this.closed) return;
+            this.onopen?.({});
+            this.push({
+                event: "pusher:connection_established",
+                data: JSON.stringify({ socket_id: this.socketId, activity_timeout: ACTIVITY_TIMEOUT_S }),
+            });
+        }, 0);
+    }
+
+    push(frame: Record<string, unknown>): void {
+        if (this.closed) return;
+        setTimeout(() => {
+            if (!this.closed) this.onmessage?.({ data: JSON.stringify(frame) });
+        }, 0);
+    }
+
+    send(raw: string): void {
+        if (this.closed) return;
+
+        let frame: any = null;
+        try {
+            frame = JSON.parse(raw);
+        } catch {
+            return;
+        }
+
+        if (frame?.event === "pusher:ping") {
+            this.push({ event: "pusher:pong", data: "{}" });
+            return;
+        }
+
+        if (frame?.event === "pusher:subscribe") {
+            const channel = String(frame.data?.channel ?? "");
+            if (frame.data?.auth !== mockChannelAuth(this.socketId, channel)) {
+                this.push({
+                    event: "pusher:subscription_error",
+                    channel,
+                    data: JSON.stringify({ type: "AuthError", status: 403 }),
+                });
+                return;
+            }
+
+            this.channels.add(channel);
+            const set = subscriptions.get(channel) ?? new Set<MockSocket>();
+            set.add(this);
+            subscriptions.set(channel, set);
+            this.push({ event: "pusher_internal:subscription_succeeded", channel, data: "{}" });
+        }
+    }
+
+    close(code = 1000): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.channels.forEach((channel) => subscriptions.get(channel)?.delete(this));
+        this.channels.clear();
+        setTimeout(() => this.onclose?.({ code }), 0);
+    }
+}
+
+export function createMockSocket(): RealtimeSocket {
+    return new MockSocket();
+}
+
+/** Push one event to every socket subscribed to the user's private channel. */
+export function broadcastToUser(userId: number, event: string, payload: unknown): void {
+    const sockets = subscriptions.get(userChannelName(userId));
+    if (!sockets || sockets.size === 0) return;
+
+    const frame = { event, channel: userChannelName(userId), data: JSON.stringify(payload) };
+    sockets.forEach((socket) => socket.push(frame));
+}
+
+function connectedUsers(): MockUser[] {
+    const prefix = userChannelName("");
+    return Array.from(subscriptions.entries())
+        .filter(([channel, sockets]) => channel.startsWith(prefix) && sockets.size > 0)
+        .map(([channel]) => findUser(channel.slice(prefix.length)))
+        .filter((u): u is MockUser => u != null);
+}
+
+/**
+ * After a write, push `notification.counts` to every connected user whose
+ * badges changed (the Laravel side broadcasts from its model observers).
+ */
+export function broadcastCountChanges(): void {
+    connectedUsers().forEach((user) => {
+        const counts = notificationCountsFor(user);
+        const key = JSON.stringify(counts);
+        if (lastCounts.get(user.id) === key) return;
+
+        lastCounts.set(user.id, key);
+        broadcastToUser(user.id, "notification.counts", { counts });
+    });
+}
@@ -0,0 +1,89 @@
+import { isMockResponse, respond, type MockRequest, type MockResponse } from "@/mock/http";
+
+export type MockHandler = (req: MockRequest) => unknown;
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+interface MockRoute {
+    method: Method;
+    pattern: RegExp;
+    keys: string[];
+    handler: MockHandler;
+}
+
+export interface MockRouter {
+    get: (path: string, handler: MockHandler) => MockRouter;
+    post: (path: string, handler: MockHandler) => MockRouter;
+    put: (path: string, handler: MockHandler) => MockRouter;
+    patch: (path: string, handler: MockHandler) => MockRouter;
+    delete: (path: string, handler: MockHandler) => MockRouter;
+    /**
+     * Find the handler for a request. Returns `null` when no route matches (→ 404),
+     * or a 405 response when the path exists with another method.
+     */
+    dispatch: (req: Omit<MockRequest, "params">) => MockResponse | null;
+}
+
+function compile(path: string): { pattern: RegExp; keys: string[] } {
+    const keys: string[] = [];
+    const source = path
+        .replace(/\/+$/, "")
+        .split("/")
+        .map((segment) => {
+            if (!segment.startsWith(":")) return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            keys.push(segment.slice(1));
+            return "([^/]+)";
+        })
+        .join("/");
+
+    return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Minimal Laravel-style router: `/counselor/referrals/:id` patterns, one handler per method.
+ * Handlers return a body (sent as 200) or `respond(status, body)`.
+ */
+export function createMockRouter(): MockRouter {
+    const routes: MockRoute[] = [];
+
+    const add = (method: Method) => (path: string, handler: MockHandler) => {
+        routes.push({ method, handler, ...compile(path) });
+        return router;
+    };
+
+    const router: MockRouter = {
+        get: add("GET"),
+        post: add("POST"),
+        put: add("PUT"),
+        patch: add("PATCH"),
+        delete: add("DELETE"),
+
+        dispatch(req) {
+            let pathMatched = false;
+
+            for (const route of routes) {
+                const m = route.pattern.exec(req.path);
+                if (!m) continue;
+
+                pathMatched = true;
+                if (route.method !== req.method) continue;
+
+                const params: Record<string, string> = {};
+                route.keys.forEach((key, idx) => {
+                    params[key] = decodeURIComponent(m[idx + 1]);
+                });
+
+                const result = route.handler({ ...req, params });
+                return isMockResponse(result) ? result : respond(200, result ?? {});
+            }
+
+            if (pathMatched) {
+                return respond(405, { message: `The ${req.method} method is not supported for route ${req.path}.` });
+            }
+
+            return null;
+        },
+    };
+
+    return router;
+}
@@ -13,46 +13,23 @@ import heroIllustration from "@/assets/images/hero.png";
 import appLogo from "@/assets/images/ecounseling.svg";
 import { Link, useSearchParams } from "react-router-dom";
 import { useSession } from "@/hooks/use-session";
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
+import { apiFetch, isApiError } from "@/api/client";
 import { toast } from "sonner";
 
 const APP_NAME = "E-Guidance Appointment System";
 
 async function resendVerificationEmailRequest(email: string): Promise<void> {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error(
-            "The API base URL is not configured. Please set VITE_API_LARAVEL_BASE_URL in your .env file.",
-        );
-    }
-
-    // Backend route that should send a new verification email.
-    const url = `${AUTH_API_BASE_URL}/auth/email/resend-verification`;
-
-    const response = await fetch(url, {
-        method: "POST",
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({ email }),
-    });
-
-    if (!response.ok) {
-        let message =
-            "We couldn't resend the verification email right now. Please try again in a moment.";
-
-        try {
-            const data = await response.json();
-            if (data && typeof data === "object" && "message" in data) {
-                const anyData = data as { message?: unknown };
-                if (typeof anyData.message === "string" && anyData.message.trim()) {
-                    message = anyData.message;
-                }
-            }
-        } catch {
-            // Ignore JSON parse errors and use the fallback message.
-        }
+    try {
+        // Backend route that should send a new verification email.
+        await apiFetch("/auth/email/resend-verification", {
+            method: "POST",
+            body: JSON.stringify({ email }),
+        });
+    } catch (error) {
+        const message =
+            isApiError(error) && error.message.trim()
+                ? error.message
+                : "We couldn't resend the verification email right now. Please try again in a moment.";
 
         throw new Error(message);
     }
@@ -6,16 +6,32 @@ import { toast } from "sonner"
 import { format } from "date-fns"
 
 import { getCurrentSession } from "@/lib/authentication"
+import { apiFetch } from "@/api/client"
+import { resolveStorageUrl } from "@/lib/storage-url"
 import {
     fetchAdminMessageConversations,
     fetchAdminConversationMessages,
     deleteAdminConversation,
     updateAdminMessage,
     deleteAdminMessage,
+    DELETED_MESSAGE_TEXT,
     sendAdminMessage,
+    messagePreviewText,
+    searchAdminMessages,
     type AdminMessage,
+    type MessageAttachment,
     type AdminConversationSummary,
+    type SendAdminMessagePayload,
 } from "@/lib/messages"
+import { useJumpToMessage } from "@/hooks/use-message-history"
+import { MessageAttachmentList } from "@/components/message-attachments"
+import { MessageRevisionsDialog } from "@/components/message-revisions"
+import {
+    MessageSearchDialog,
+    type MessageSearchRequest,
+    type MessageSearchResponse,
+    type MessageSearchResult,
+} from "@/components/message-search"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -50,7 +66,7 @@ import {
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 
 import { cn } from "@/lib/utils"
-import { Check, ChevronsUpDown, MoreVertical, Pencil, RefreshCw, Trash2 } from "lucide-react"
+import { Check, ChevronsUpDown, History, MoreVertical, Pencil, RefreshCw, Search, Trash2 } from "lucide-react"
 
 type PeerRole = "student" | "guest" | "counselor" | "admin" | "referral_user"
 type SenderRole = PeerRole | "system"
@@ -63,6 +79,12 @@ type UiMessage = {
     content: string
     createdAt: string
     isUnread: boolean
+    attachments: MessageAttachment[]
+
+    editedAt?: string | null
+    deletedAt?: string | null
+    /** Entries in the revision log (edits + delete) */
+    revisionCount?: number
 
     senderId?: number | string | null
     recipientId?: number | string | null
@@ -101,78 +123,6 @@ type AutoStartConversationPayload = {
     name?: string
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-    if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-    const trimmed = path.replace(/^\/+/, "")
-    return `${API_BASE_URL}/${trimmed}`
-}
-
-function getApiOrigin(): string {
-    if (!API_BASE_URL) return ""
-    try {
-        return new URL(API_BASE_URL).origin
-    } catch {
-        return ""
-    }
-}
-
-function looksLikeFilePath(s: string): boolean {
-    return (
-        /\.[a-z0-9]{2,5}(\?.*)?$/i.test(s) ||
-        /(^|\/)(avatars|avatar|profile|profiles|images|uploads)(\/|$)/i.test(s)
-    )
-}
-
-/**
- * Avatar resolver compatible with common Laravel storage formats.
- * Keeps absolute URLs, normalizes wrong /api/storage -> /storage.
- */
-function resolveAvatarSrc(raw?: string | null): string | null {
-    const s0 = typeof raw === "string" ? raw : ""
-    let s = s0.trim()
-    if (!s) return null
-
-    s = s.replace(/\\/g, "/")
-
-    if (/^(data:|blob:)/i.test(s)) return s
-
-    if (/^https?:\/\//i.test(s)) {
-        try {
-            const u = new URL(s)
-            const p = (u.pathname || "").replace(/\\/g, "/")
-            u.pathname = p
-                .replace(/^\/api\/storage\//i, "/storage/")
-                .replace(/^\/api\/public\/storage\//i, "/storage/")
-                .replace(/^\/storage\/app\/public\//i, "/storage/")
-            return u.toString()
-        } catch {
-            return s
-        }
-    }
-
-    if (s.startsWith("//")) return `${window.location.protocol}${s}`
-
-    s = s.replace(/^storage\/app\/public\//i, "")
-    s = s.replace(/^public\//i, "")
-
-    const normalized = s.replace(/^\/+/, "")
-    const alreadyStorage =
-        normalized.toLowerCase().startsWith("storage/") || normalized.toLowerCase().startsWith("api/storage/")
-
-    let path = normalized
-    if (!alreadyStorage && looksLikeFilePath(normalized)) {
-        path = `storage/${normalized}`
-    }
-
-    path = path.replace(/^api\/storage\//i, "storage/")
-
-    const finalPath = path.startsWith("/") ? path : `/${path}`
-    const origin = getApiOrigin()
-    return origin ? `${origin}${finalPath}` : finalPath
-}
 
 function normalizeRawRoleString(raw: any): string {
     if (raw == null) return ""
@@ -262,40 +212,6 @@ function extractUsersArray(payload: any): any[] {
     return []
 }
 
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<unknown> {
-    const url = resolveApiUrl(path)
-    const res = await fetch(url, {
-        ...init,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-    })
-
-    const text = await res.text()
-    let data: any = null
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const msg = data?.message || data?.error || res.statusText || "Server request failed."
-        const err: any = new Error(msg)
-        err.status = res.status
-        err.data = data ?? text
-        throw err
-    }
-
-    return data
-}
-
 /**
  * ✅ Mark-as-read (Admin) — robust endpoint fallbacks.
  * We only call this AFTER the admin opens the thread OR sends a reply.
@@ -323,7 +239,7 @@ async function tryAdminMarkRead(messageIds: number[], token?: string | null): Pr
     for (const ep of endpoints) {
         for (const payload of payloads) {
             try {
-                await apiFetch(ep, { method: "POST", body: JSON.stringify(payload) }, token)
+                await apiFetch(ep, { method: "POST", body: JSON.stringify(payload), token })
                 return
             } catch (e) {
                 lastErr = e
@@ -385,7 +301,7 @@ async function trySearchUsersFromDb(role: PeerRole, query: string, token?: strin
 
     for (const path of candidates) {
         try {
-            const data = await apiFetch(path, { method: "GET" }, token)
+            const data = await apiFetch(path, { method: "GET", token })
             const arr = extractUsersArray(data)
             if (!Array.isArray(arr)) continue
 
@@ -568,27 +484,18 @@ function parseConversationId(conversationId: string): { role: PeerRole | null; i
     return { role: null, id: null }
 }
 
-function unreadFlagForAdmin(dto: any): boolean {
-    const candidates = [
-        dto?.admin_is_read,
-        dto?.is_read_by_admin,
-        dto?.read_by_admin,
-        dto?.admin_read,
-        dto?.is_read, // fallback
-    ]
-
-    for (const v of candidates) {
-        if (v === true || v === 1) return false
-        if (v === false || v === 0) return true
-    }
+function unreadFlagForAdmin(dto: AdminMessage): boolean {
+    const v = dto.admin_is_read ?? dto.is_read // is_read: fallback
+    if (v === true || v === 1) return false
+    if (v === false || v === 0) return true
     return false
 }
 
 function mapAdminMessageToUi(dto: AdminMessage, conversationFallback: string, myUserId?: string): UiMessage {
-    const sender = normalizeSender((dto as any).sender_role ?? (dto as any).sender ?? "system")
+    const sender = normalizeSender(dto.sender_role ?? dto.sender)
 
     const senderName =
-        (dto as any).sender_name ||
+        dto.sender_name ||
         (sender === "system"
             ? "System"
             : sender === "admin"
@@ -601,87 +508,66 @@ function mapAdminMessageToUi(dto: AdminMessage, conversationFallback: string, my
                             ? "Referral User"
                             : "Student")
 
-    const createdAt = (dto as any).created_at ?? new Date(0).toISOString()
-    const conversationId = String((dto as any).conversation_id ?? conversationFallback)
+    const createdAt = dto.created_at
+    const conversationId = String(dto.conversation_id ?? conversationFallback)
 
-    const recipientRole = toPeerRole((dto as any).recipient_role) ?? null
+    const recipientRole = toPeerRole(dto.recipient_role)
 
     // ✅ IMPORTANT:
     // Admin unread should be about what ADMIN has not read, not what the other party hasn't read.
     // If the message is sent by the current admin, it should never appear unread for admin.
-    const senderIdRaw = (dto as any).sender_id ?? null
-    const senderIsMe = sender === "admin" && myUserId && senderIdRaw != null && String(senderIdRaw) === String(myUserId)
-    const isUnread = senderIsMe ? false : unreadFlagForAdmin(dto as any)
-
-    const senderAvatarUrl =
-        (dto as any).sender_avatar_url ??
-        (dto as any).owner_avatar_url ??
-        null
-
-    const recipientAvatarUrl =
-        (dto as any).recipient_avatar_url ??
-        null
+    const senderIsMe = sender === "admin" && myUserId && dto.sender_id != null && String(dto.sender_id) === String(myUserId)
+    const isUnread = senderIsMe ? false : unreadFlagForAdmin(dto)
 
     return {
-        id: (dto as any).id ?? `${createdAt}-${sender}-${Math.random().toString(36).slice(2)}`,
+        id: dto.id !== "" ? dto.id : `${createdAt}-${sender}-${Math.random().toString(36).slice(2)}`,
         conversationId,
         sender,
         senderName: String(senderName || "").trim() || "Unknown",
-        content: (dto as any).content ?? "",
+        content: dto.content,
         createdAt,
         isUnread,
+        attachments: dto.attachments ?? [],
 
-        senderId: (dto as any).sender_id ?? null,
-        recipientId: (dto as any).recipient_id ?? null,
+        editedAt: dto.edited_at ?? null,
+        deletedAt: dto.deleted_at ?? null,
+        revisionCount: dto.revision_count ?? 0,
+
+        senderId: dto.sender_id ?? null,
+        recipientId: dto.recipient_id ?? null,
         recipientRole,
 
-        recipientName: (dto as any).recipient_name ?? null,
-        userName: (dto as any).owner_name ?? null,
+        recipientName: dto.recipient_name ?? null,
+        userName: dto.owner_name ?? null,
 
-        senderAvatarUrl,
-        recipientAvatarUrl,
+        senderAvatarUrl: dto.sender_avatar_url ?? dto.owner_avatar_url ?? null,
+        recipientAvatarUrl: dto.recipient_avatar_url ?? null,
     }
 }
 
 function mapAdminConversationToUi(c: AdminConversationSummary): Conversation {
-    const conversationId = String((c as any).conversation_id ?? "")
-    const last = (c as any).last_message as AdminMessage | undefined
+    const conversationId = String(c.conversation_id)
+    const last = c.last_message
 
     const parsed = parseConversationId(conversationId)
     const peerRoleFromId = parsed.role
     const peerIdFromId = parsed.id
 
-    const ownerRole = toPeerRole((last as any)?.owner_role ?? null)
-    const ownerId = (last as any)?.owner_user_id ?? null
+    const ownerRole = toPeerRole(last.owner_role)
+    const ownerId = last.owner_user_id ?? null
 
-    const peerRole = (peerRoleFromId ?? ownerRole ?? toPeerRole((last as any)?.recipient_role) ?? toPeerRole((last as any)?.sender_role) ?? "student") as PeerRole
-    const peerId =
-        peerIdFromId != null
-            ? peerIdFromId
-            : ownerId != null
-                ? ownerId
-                : (last as any)?.recipient_id ?? null
+    const peerRole = peerRoleFromId ?? ownerRole ?? toPeerRole(last.recipient_role) ?? toPeerRole(last.sender_role) ?? "student"
+    const peerId = peerIdFromId != null ? peerIdFromId : ownerId != null ? ownerId : last.recipient_id ?? null
 
     const peerName =
-        (typeof (last as any)?.owner_name === "string" && (last as any).owner_name.trim() && ownerId != null ? (last as any).owner_name : "") ||
-        (typeof (last as any)?.recipient_name === "string" && (last as any).recipient_name.trim() ? (last as any).recipient_name : "") ||
-        (typeof (last as any)?.sender_name === "string" && (last as any).sender_name.trim() ? (last as any).sender_name : "") ||
+        (last.owner_name?.trim() && ownerId != null ? last.owner_name : "") ||
+        (last.recipient_name?.trim() ? last.recipient_name : "") ||
+        (last.sender_name?.trim() ? last.sender_name : "") ||
         roleLabel(peerRole)
 
-    const peerAvatarUrl =
-        (last as any)?.owner_avatar_url ??
-        (last as any)?.recipient_avatar_url ??
-        (last as any)?.sender_avatar_url ??
-        null
-
-    const unreadCountRaw =
-        (c as any)?.unread_count ??
-        (c as any)?.unreadCount ??
-        (c as any)?.unread_messages ??
-        (c as any)?.unreadMessages ??
-        0
+    const peerAvatarUrl = last.owner_avatar_url ?? last.recipient_avatar_url ?? last.sender_avatar_url ?? null
 
-    const unreadCount = Number.isFinite(Number(unreadCountRaw)) ? Number(unreadCountRaw) : 0
+    const unreadCount = c.unread_count ?? 0
 
     return {
         id: conversationId,
@@ -690,8 +576,8 @@ function mapAdminConversationToUi(c: AdminConversationSummary): Conversation {
         peerId,
         subtitle: roleThreadLabel(peerRole),
         unreadCount,
-        lastMessage: (last as any)?.content ?? "",
-        lastTimestamp: (last as any)?.created_at ?? "",
+        lastMessage: messagePreviewText(last),
+        lastTimestamp: last.created_at,
         peerAvatarUrl,
     }
 }
@@ -701,8 +587,8 @@ const AdminMessages: React.FC = () => {
     const navigate = useNavigate()
 
     const session = getCurrentSession()
-    const token = (session as any)?.token ?? null
-    const adminName = session?.user && (session.user as any).name ? String((session.user as any).name) : "Admin"
+    const token = session.token ?? null
+    const adminName = session?.user?.name ? String(session.user.name) : "Admin"
     const myUserId = session?.user?.id != null ? String(session.user.id) : ""
 
     const [isLoading, setIsLoading] = React.useState(true)
@@ -760,6 +646,10 @@ const AdminMessages: React.FC = () => {
     const [deletingMessage, setDeletingMessage] = React.useState<UiMessage | null>(null)
     const [isDeletingMsg, setIsDeletingMsg] = React.useState(false)
 
+    // Revision history (view only)
+    const [historyOpen, setHistoryOpen] = React.useState(false)
+    const [historyMessageId, setHistoryMessageId] = React.useState<number | string | null>(null)
+
     // Delete conversation confirm
     const [deleteConvoOpen, setDeleteConvoOpen] = React.useState(false)
     const [isDeletingConvo, setIsDeletingConvo] = React.useState(false)
@@ -783,8 +673,7 @@ const AdminMessages: React.FC = () => {
                     per_page: 100,
                     search: search.trim() ? search.trim() : undefined,
                 })
-                const raw = Array.isArray((res as any).conversations) ? (res as any).conversations : []
-                const mapped: Conversation[] = raw.map((c: any) => mapAdminConversationToUi(c as AdminConversationSummary))
+                const mapped: Conversation[] = res.conversations.map(mapAdminConversationToUi)
 
                 setConversations(mapped)
 
@@ -809,26 +698,41 @@ const AdminMessages: React.FC = () => {
         [activeConversationId, draftConversations, search],
     )
 
+    // Opening a search result and the active-thread effect may ask for the same thread at once
+    const loadInflightRef = React.useRef(new Map<string, Promise<UiMessage[] | null>>())
+
     const loadConversationMessages = React.useCallback(
-        async (conversationId: string) => {
-            if (!conversationId) return
+        async (conversationId: string): Promise<UiMessage[] | null> => {
+            if (!conversationId) return null
             // draft conversation: local only
             if (conversationId.startsWith("new-")) {
                 setMessagesByConversation((prev) => ({ ...prev, [conversationId]: prev[conversationId] ?? [] }))
-                return
+                return null
             }
 
-            try {
-                const res = await fetchAdminConversationMessages(conversationId, { page: 1, per_page: 500 })
-                const raw = Array.isArray((res as any).messages) ? (res as any).messages : []
+            const pending = loadInflightRef.current.get(conversationId)
+            if (pending) return pending
 
-                const ui: UiMessage[] = raw.map((m: any) => mapAdminMessageToUi(m as AdminMessage, conversationId, myUserId))
-                ui.sort((a: UiMessage, b: UiMessage) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+            const request = (async () => {
+                try {
+                    const res = await fetchAdminConversationMessages(conversationId, { page: 1, per_page: 500 })
 
-                setMessagesByConversation((prev) => ({ ...prev, [conversationId]: ui }))
-            } catch (err) {
-                toast.error(err instanceof Error ? err.message : "Failed to load conversation messages.")
-            }
+
+                    const ui: UiMessage[] = res.messages.map((m) => mapAdminMessageToUi(m, conversationId, myUserId))
+                    ui.sort((a: UiMessage, b: UiMessage) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+
+                    setMessagesByConversation((prev) => ({ ...prev, [conversationId]: ui }))
+                    return ui
+                } catch (err) {
+                    toast.error(err instanceof Error ? err.message : "Failed to load conversation messages.")
+                    return null
+                } finally {
+                    loadInflightRef.current.delete(conversationId)
+                }
+            })()
+
+            loadInflightRef.current.set(conversationId, request)
+            return request
         },
         [myUserId],
     )
@@ -849,10 +753,13 @@ const AdminMessages: React.FC = () => {
         loadConversationMessages(activeConversationId)
     }, [activeConversationId, loadConversationMessages])
 
+    const { jumpTo, highlightedId, jumpPendingRef } = useJumpToMessage(activeMessageCount)
+
     // ✅ No complex expression in dependency array anymore
     React.useEffect(() => {
+        if (jumpPendingRef.current) return
         bottomRef.current?.scrollIntoView({ behavior: "smooth" })
-    }, [activeConversationId, activeMessageCount])
+    }, [activeConversationId, activeMessageCount, jumpPendingRef])
 
     // Debounced DB user search for new message
     React.useEffect(() => {
@@ -968,6 +875,75 @@ const AdminMessages: React.FC = () => {
         return messagesByConversation[activeConversationId] ?? []
     }, [messagesByConversation, activeConversationId])
 
+    // ✅ Full-text search over every conversation; a result opens its thread at the message
+    const [searchOpen, setSearchOpen] = React.useState(false)
+
+    const searchConversationOptions = React.useMemo(
+        () =>
+            mergedConversations
+                .filter((c) => !c.id.startsWith("new-"))
+                .map((c) => ({ key: c.id, label: c.peerName || roleLabel(c.peerRole) })),
+        [mergedConversations],
+    )
+
+    const runMessageSearch = React.useCallback(
+        async (request: MessageSearchRequest): Promise<MessageSearchResponse<UiMessage>> => {
+            const res = await searchAdminMessages({
+                q: request.q,
+                sender_role: request.senderRole || undefined,
+                from: request.from || undefined,
+                to: request.to || undefined,
+                conversation_id: request.conversationKey || undefined,
+                page: request.page,
+            })
+
+            return {
+                results: res.messages.map((dto) => {
+                    const ui = mapAdminMessageToUi(dto, "", myUserId)
+                    const convo = mergedConversations.find((c) => c.id === ui.conversationId)
+                    const label =
+                        convo?.peerName ||
+                        ui.userName ||
+                        [ui.senderName, ui.recipientName].filter(Boolean).join(" ↔ ") ||
+                        "Conversation"
+
+                    return {
+                        id: ui.id,
+                        content: ui.content,
+                        senderName: ui.senderName,
+                        senderRole: ui.sender,
+                        createdAt: ui.createdAt,
+                        conversationLabel: label,
+                        source: ui,
+                    }
+                }),
+                total: res.pagination.total,
+                lastPage: res.pagination.last_page,
+            }
+        },
+        [mergedConversations, myUserId],
+    )
+
+    const openSearchResult = React.useCallback(
+        async (result: MessageSearchResult<UiMessage>) => {
+            const conversationId = result.source.conversationId
+            if (!conversationId) return
+
+            const isLoaded = (messagesByConversation[conversationId] ?? []).some((m) => String(m.id) === String(result.id))
+
+            openConversation(conversationId)
+            jumpTo(result.id)
+            if (isLoaded) return
+
+            const ui = await loadConversationMessages(conversationId)
+            if (!ui?.some((m) => String(m.id) === String(result.id))) {
+                jumpTo(null)
+                if (ui) toast.error("That message is no longer in this conversation.")
+            }
+        },
+        [messagesByConversation, openConversation, jumpTo, loadConversationMessages],
+    )
+
     const handleRefresh = async () => {
         if (isLoading || isRefreshing) return
         await loadConversations("refresh")
@@ -1090,6 +1066,7 @@ const AdminMessages: React.FC = () => {
             content: text,
             createdAt: nowIso,
             isUnread: false,
+            attachments: [],
             senderId: myUserId || null,
             recipientRole: activeConversation.peerRole,
             recipientId: activeConversation.peerId ?? null,
@@ -1104,22 +1081,22 @@ const AdminMessages: React.FC = () => {
         setIsSending(true)
 
         try {
-            const payload: any = {
+            const payload: SendAdminMessagePayload = {
                 content: text,
                 recipient_role: activeConversation.peerRole,
-                recipient_id: activeConversation.peerId,
+                recipient_id: activeConversation.peerId ?? undefined,
                 // don't send local "new-..." ids as conversation_id; let backend canonicalize
                 ...(activeConversation.id.startsWith("new-") ? {} : { conversation_id: activeConversation.id }),
             }
 
-            const res: any = await sendAdminMessage(payload)
-            const dto = res?.messageRecord ?? res?.data ?? res?.message ?? res?.record ?? null
+            const res = await sendAdminMessage(payload)
+            const dto = res.messageRecord ?? null
 
             // Refresh the conversation list (server order/last message)
             await loadConversations("refresh")
 
-            if (dto && (dto.id != null || dto.content != null)) {
-                const serverMsg = mapAdminMessageToUi(dto as AdminMessage, activeConversation.id, myUserId)
+            if (dto) {
+                const serverMsg = mapAdminMessageToUi(dto, activeConversation.id, myUserId)
 
                 // if backend returned a canonical conversation id, switch to it
                 const serverConversationId =
@@ -1138,7 +1115,7 @@ const AdminMessages: React.FC = () => {
                         const moved = replaced.map((m) => ({ ...m, conversationId: serverConversationId }))
                         const existing = prev[serverConversationId] ?? []
                         const next = { ...prev }
-                        delete (next as any)[oldId]
+                        delete next[oldId]
                         next[serverConversationId] = [...existing, ...moved].filter(Boolean)
                         return next
                     }
@@ -1182,8 +1159,15 @@ const AdminMessages: React.FC = () => {
     }
 
     // ===== Edit / Delete message =====
-    const canEdit = (m: UiMessage) => m.sender !== "system"
-    const canDelete = (m: UiMessage) => m.sender !== "system"
+    // ✅ Admins are not bound by the edit window; deleted messages stay tombstones
+    const canEdit = (m: UiMessage) => m.sender !== "system" && !m.deletedAt
+    const canDelete = (m: UiMessage) => m.sender !== "system" && !m.deletedAt
+    const hasHistory = (m: UiMessage) => !!m.editedAt || !!m.deletedAt || (m.revisionCount ?? 0) > 0
+
+    const openHistory = (m: UiMessage) => {
+        setHistoryMessageId(m.id)
+        setHistoryOpen(true)
+    }
 
     const openEdit = (m: UiMessage) => {
         setEditingMessage(m)
@@ -1202,13 +1186,22 @@ const AdminMessages: React.FC = () => {
         const convoId = activeConversationId
         const id = editingMessage.id
         const prevContent = editingMessage.content
+        const prevEditedAt = editingMessage.editedAt ?? null
+        const prevRevisionCount = editingMessage.revisionCount ?? 0
 
         setIsSavingEdit(true)
 
         // optimistic update
         setMessagesByConversation((prev) => {
             const arr = prev[convoId] ?? []
-            return { ...prev, [convoId]: arr.map((m) => (m.id === id ? { ...m, content: next } : m)) }
+            return {
+                ...prev,
+                [convoId]: arr.map((m) =>
+                    m.id === id
+                        ? { ...m, content: next, editedAt: new Date().toISOString(), revisionCount: prevRevisionCount + 1 }
+                        : m,
+                ),
+            }
         })
 
         try {
@@ -1221,7 +1214,12 @@ const AdminMessages: React.FC = () => {
             // rollback
             setMessagesByConversation((prev) => {
                 const arr = prev[convoId] ?? []
-                return { ...prev, [convoId]: arr.map((m) => (m.id === id ? { ...m, content: prevContent } : m)) }
+                return {
+                    ...prev,
+                    [convoId]: arr.map((m) =>
+                        m.id === id ? { ...m, content: prevContent, editedAt: prevEditedAt, revisionCount: prevRevisionCount } : m,
+                    ),
+                }
             })
             toast.error(err instanceof Error ? err.message : "Failed to update message.")
         } finally {
@@ -1241,29 +1239,31 @@ const AdminMessages: React.FC = () => {
 
         setIsDeletingMsg(true)
 
-        let removed: { msg: UiMessage; index: number } | null = null
-        setMessagesByConversation((prev) => {
-            const arr = prev[convoId] ?? []
-            const index = arr.findIndex((x) => x.id === target.id)
-            removed = { msg: target, index: index < 0 ? arr.length : index }
-            return { ...prev, [convoId]: arr.filter((x) => x.id !== target.id) }
-        })
+        // ✅ Optimistic tombstone: the bubble stays, its content goes
+        const tombstone: UiMessage = {
+            ...target,
+            content: "",
+            attachments: [],
+            deletedAt: new Date().toISOString(),
+            revisionCount: (target.revisionCount ?? 0) + 1,
+        }
+        const replaceTarget = (next: UiMessage) =>
+            setMessagesByConversation((prev) => {
+                const arr = prev[convoId] ?? []
+                return { ...prev, [convoId]: arr.map((x) => (x.id === target.id ? next : x)) }
+            })
+
+        replaceTarget(tombstone)
 
         try {
-            await deleteAdminMessage(target.id)
+            const res = await deleteAdminMessage(target.id)
+            if (res.messageRecord) replaceTarget(mapAdminMessageToUi(res.messageRecord, convoId, myUserId))
             toast.success("Message deleted.")
             setDeleteMsgOpen(false)
             setDeletingMessage(null)
             await loadConversations("refresh")
         } catch (err) {
-            if (removed) {
-                setMessagesByConversation((prev) => {
-                    const arr = [...(prev[convoId] ?? [])]
-                    const idx = Math.max(0, Math.min(removed!.index, arr.length))
-                    arr.splice(idx, 0, removed!.msg)
-                    return { ...prev, [convoId]: arr }
-                })
-            }
+            replaceTarget(target)
             toast.error(err instanceof Error ? err.message : "Failed to delete message.")
         } finally {
             setIsDeletingMsg(false)
@@ -1317,7 +1317,7 @@ const AdminMessages: React.FC = () => {
     }
 
     const activePeerName = activeConversation ? activeConversation.peerName : ""
-    const activePeerAvatarSrc = resolveAvatarSrc(activeConversation?.peerAvatarUrl ?? null)
+    const activePeerAvatarSrc = resolveStorageUrl(activeConversation?.peerAvatarUrl ?? null)
 
     return (
         <DashboardLayout title="Messages" description="Admin messaging: send messages to any user and manage conversations.">
@@ -1359,6 +1359,16 @@ const AdminMessages: React.FC = () => {
                                         {showNewMessage ? "Close new message" : "Create new message"}
                                     </Button>
 
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        className="mt-2 h-10 w-full text-[0.85rem] sm:h-9 sm:text-xs"
+                                        onClick={() => setSearchOpen(true)}
+                                    >
+                                        <Search className="mr-2 h-4 w-4" />
+                                        Search messages
+                                    </Button>
+
                                     {showNewMessage ? (
                                         <div className="mt-3 rounded-xl border bg-white/60 p-3">
                                             <div className="grid grid-cols-1 gap-2">
@@ -1472,7 +1482,7 @@ const AdminMessages: React.FC = () => {
                                         ) : (
                                             filteredConversations.map((c) => {
                                                 const active = c.id === activeConversationId
-                                                const avatarSrc = resolveAvatarSrc(c.peerAvatarUrl ?? null)
+                                                const avatarSrc = resolveStorageUrl(c.peerAvatarUrl ?? null)
                                                 const displayName = c.peerName
 
                                                 return (
@@ -1609,7 +1619,7 @@ const AdminMessages: React.FC = () => {
                                                 const bubble = system ? "border bg-white/90" : mine ? "border-indigo-200 bg-indigo-50/90" : "border-slate-200 bg-white/90"
 
                                                 return (
-                                                    <div key={m.id} className={`flex ${align}`}>
+                                                    <div key={m.id} data-message-id={String(m.id)} className={`flex ${align}`}>
                                                         <div className="max-w-[94%] sm:max-w-[86%]">
                                                             {system ? (
                                                                 <div className="mb-1 text-center text-[0.70rem] text-muted-foreground">
@@ -1632,7 +1642,11 @@ const AdminMessages: React.FC = () => {
                                                                     {/* ✅ No in-thread NEW pill.
                                                                         Auto-read happens only after open/reply (see effects above). */}
 
-                                                                    {(canEdit(m) || canDelete(m)) && (
+                                                                    {m.editedAt && !m.deletedAt ? (
+                                                                        <span title={formatTimestamp(m.editedAt)}>(edited)</span>
+                                                                    ) : null}
+
+                                                                    {(canEdit(m) || canDelete(m) || hasHistory(m)) && (
                                                                         <DropdownMenu>
                                                                             <DropdownMenuTrigger asChild>
                                                                                 <Button type="button" variant="ghost" size="icon" className="h-7 w-7 sm:h-6 sm:w-6">
@@ -1651,7 +1665,18 @@ const AdminMessages: React.FC = () => {
                                                                                         Edit
                                                                                     </DropdownMenuItem>
                                                                                 )}
-                                                                                {canEdit(m) && canDelete(m) ? <DropdownMenuSeparator /> : null}
+                                                                                {hasHistory(m) && (
+                                                                                    <DropdownMenuItem
+                                                                                        onSelect={(e) => {
+                                                                                            e.preventDefault()
+                                                                                            openHistory(m)
+                                                                                        }}
+                                                                                    >
+                                                                                        <History className="mr-2 h-4 w-4" />
+                                                                                        View history
+                                                                                    </DropdownMenuItem>
+                                                                                )}
+                                                                                {(canEdit(m) || hasHistory(m)) && canDelete(m) ? <DropdownMenuSeparator /> : null}
                                                                                 {canDelete(m) && (
                                                                                     <DropdownMenuItem
                                                                                         className="text-destructive focus:text-destructive"
@@ -1670,8 +1695,24 @@ const AdminMessages: React.FC = () => {
                                                                 </div>
                                                             )}
 
-                                                            <div className={`rounded-2xl border px-3 py-2 text-[0.90rem] leading-relaxed shadow-sm sm:text-sm ${bubble}`}>
-                                                                {m.content}
+                                                            <div
+                                                                className={cn(
+                                                                    "rounded-2xl border px-3 py-2 text-[0.90rem] leading-relaxed shadow-sm transition-shadow sm:text-sm",
+                                                                    bubble,
+                                                                    highlightedId === String(m.id) && "ring-2 ring-amber-400 ring-offset-2",
+                                                                )}
+                                                            >
+                                                                {m.deletedAt ? (
+                                                                    <span className="italic text-muted-foreground">{DELETED_MESSAGE_TEXT}</span>
+                                                                ) : (
+                                                                    <>
+                                                                        {m.content}
+                                                                        <MessageAttachmentList
+                                                                            attachments={m.attachments}
+                                                                            className={m.content ? "mt-2" : undefined}
+                                                                        />
+                                                                    </>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     </div>
@@ -1710,6 +1751,15 @@ const AdminMessages: React.FC = () => {
                 </Card>
 
                 {/* Edit dialog */}
+                <MessageSearchDialog
+                    open={searchOpen}
+                    onOpenChange={setSearchOpen}
+                    conversations={searchConversationOptions}
+                    search={runMessageSearch}
+                    onSelect={(result) => void openSearchResult(result)}
+                    description="Find messages in every conversation by their text. Every word must match."
+                />
+
                 <Dialog open={editOpen} onOpenChange={(v) => (!isSavingEdit ? setEditOpen(v) : null)}>
                     <DialogContent>
                         <DialogHeader>
@@ -1730,12 +1780,16 @@ const AdminMessages: React.FC = () => {
                     </DialogContent>
                 </Dialog>
 
+                <MessageRevisionsDialog messageId={historyMessageId} open={historyOpen} onOpenChange={setHistoryOpen} />
+
                 {/* Delete message confirm */}
                 <AlertDialog open={deleteMsgOpen} onOpenChange={(v) => (!isDeletingMsg ? setDeleteMsgOpen(v) : null)}>
                     <AlertDialogContent>
                         <AlertDialogHeader>
                             <AlertDialogTitle>Delete message?</AlertDialogTitle>
-                            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+                            <AlertDialogDescription>
+                                Both participants will see that it was deleted. The original text stays in the message history.
+                            </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
                             <AlertDialogCancel disabled={isDeletingMsg}>Cancel</AlertDialogCancel>
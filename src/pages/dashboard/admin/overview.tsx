@@ -14,6 +14,8 @@ import {
     UserCheck,
     MessageCircle,
     BarChart3,
+    Briefcase,
+    Pencil,
 } from "lucide-react";
 
 import DashboardLayout from "@/components/DashboardLayout";
@@ -26,6 +28,16 @@ import {
     CardContent,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
 import {
     Table,
     TableBody,
@@ -35,10 +47,19 @@ import {
     TableRow,
 } from "@/components/ui/table";
 
-import { AUTH_API_BASE_URL, type AuthenticatedUserDto } from "@/api/auth/route";
+import type { AuthenticatedUserDto } from "@/api/auth/route";
+import { apiFetch } from "@/api/client";
 import { normalizeRole } from "@/lib/role";
 
 import { fetchAdminMessageConversations } from "@/lib/messages";
+import {
+    SPECIALIZATION_OPTIONS,
+    caseloadShare,
+    concernTypeLabel,
+    fetchCounselorCaseloads,
+    updateCounselorSpecializations,
+    type CounselorCaseload,
+} from "@/lib/cases";
 import { getAdminAnalyticsApi } from "@/api/admin-analytics/route";
 import type { MonthlyCountRow } from "@/api/analytics/route";
 
@@ -78,62 +99,6 @@ const FALLBACK_ROLES = ["admin", "counselor", "student", "referral_user", "guest
 const PIE_COLORS = ["#f59e0b", "#10b981", "#3b82f6", "#ef4444", "#a855f7", "#64748b"];
 const DAY_MS = 24 * 60 * 60 * 1000;
 
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
-async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const err = new Error(message) as any;
-        err.status = response.status;
-        err.data = body ?? text;
-        throw err;
-    }
-
-    return data as T;
-}
-
 function extractRoles(payload: RolesResponse): string[] {
     if (Array.isArray(payload)) return payload.filter(Boolean).map(String);
     const obj = payload as any;
@@ -412,6 +377,13 @@ const AdminOverview: React.FC = () => {
     }));
 
     // chart theme (analytics mini chart)
+    // Caseload balancing
+    const [caseloads, setCaseloads] = React.useState<CounselorCaseload[]>([]);
+    const [caseloadsError, setCaseloadsError] = React.useState<string | null>(null);
+    const [specTarget, setSpecTarget] = React.useState<CounselorCaseload | null>(null);
+    const [specDraft, setSpecDraft] = React.useState<string[]>([]);
+    const [isSavingSpecs, setIsSavingSpecs] = React.useState(false);
+
     const [theme, setTheme] = React.useState<ChartTheme>(() => readChartTheme());
 
     React.useEffect(() => {
@@ -565,6 +537,7 @@ const AdminOverview: React.FC = () => {
                     fetchUsersAndRoles(),
                     fetchMessagesOverview(),
                     fetchAnalyticsOverview(),
+                    fetchCounselorCaseloads("admin"),
                 ]);
 
                 const usersRoles = results[0];
@@ -593,6 +566,14 @@ const AdminOverview: React.FC = () => {
                     setAnalyticsError(msg);
                 }
 
+                const loads = results[3];
+                if (loads.status === "fulfilled") {
+                    setCaseloads(loads.value);
+                    setCaseloadsError(null);
+                } else {
+                    setCaseloadsError(loads.reason instanceof Error ? loads.reason.message : "Failed to load caseloads.");
+                }
+
                 const nowTs = Date.now();
                 setSnapshotNowTs(nowTs);
                 setLastUpdated(format(new Date(nowTs), "MMM d, yyyy – h:mm a"));
@@ -696,6 +677,21 @@ const AdminOverview: React.FC = () => {
         };
     }, [users, snapshotNowTs]);
 
+    const saveSpecializations = async () => {
+        if (!specTarget) return;
+        setIsSavingSpecs(true);
+        try {
+            const saved = await updateCounselorSpecializations(specTarget.counselor_id, specDraft);
+            setCaseloads((prev) => prev.map((c) => (c.counselor_id === saved.counselor_id ? saved : c)));
+            toast.success(`Specializations of ${saved.counselor_name} saved.`);
+            setSpecTarget(null);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to save specializations.");
+        } finally {
+            setIsSavingSpecs(false);
+        }
+    };
+
     const messagesRoleTop = React.useMemo(() => {
         return (messagesOverview.roleBreakdown ?? []).slice(0, 6);
     }, [messagesOverview.roleBreakdown]);
@@ -1158,6 +1154,135 @@ const AdminOverview: React.FC = () => {
                     </Card>
                 </div>
 
+                {/* Caseload balancing */}
+                <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
+                    <CardHeader className="space-y-1">
+                        <CardTitle className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+                            <Briefcase className="h-4 w-4" />
+                            Caseload balancing
+                        </CardTitle>
+                        <CardDescription className="text-xs text-muted-foreground">
+                            Open cases and upcoming appointments per counselor. New intakes are suggested to the counselor
+                            with the lightest load, favoring matching specializations.
+                        </CardDescription>
+                    </CardHeader>
+
+                    <CardContent>
+                        {isLoading ? (
+                            <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Loading caseloads...
+                            </div>
+                        ) : caseloadsError ? (
+                            <div className="rounded-md border border-red-100 bg-red-50 px-4 py-3 text-xs text-red-700">
+                                {caseloadsError}
+                            </div>
+                        ) : caseloads.length === 0 ? (
+                            <div className="rounded-md border border-dashed border-amber-100 bg-amber-50/60 px-4 py-8 text-center text-xs text-muted-foreground">
+                                No counselors found.
+                            </div>
+                        ) : (
+                            <div className="overflow-auto rounded-md border bg-white">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Counselor</TableHead>
+                                            <TableHead>Specializations</TableHead>
+                                            <TableHead className="w-56">Open cases</TableHead>
+                                            <TableHead className="w-28 text-right">Upcoming</TableHead>
+                                            <TableHead className="w-20" />
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {caseloads.map((c) => (
+                                            <TableRow key={c.counselor_id}>
+                                                <TableCell className="text-sm font-medium text-foreground">{c.counselor_name}</TableCell>
+                                                <TableCell>
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {c.specializations.length === 0 ? (
+                                                            <span className="text-xs text-muted-foreground">General</span>
+                                                        ) : (
+                                                            c.specializations.map((s) => (
+                                                                <Badge key={s} variant="secondary" className="text-[0.65rem]">
+                                                                    {concernTypeLabel(s)}
+                                                                </Badge>
+                                                            ))
+                                                        )}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell>
+                                                    <div className="flex items-center gap-2">
+                                                        <Progress value={caseloadShare(c, caseloads)} className="h-1.5" />
+                                                        <span className="w-6 text-right text-sm tabular-nums">{c.open_cases}</span>
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell className="text-right text-sm tabular-nums">{c.upcoming_appointments}</TableCell>
+                                                <TableCell className="text-right">
+                                                    <Button
+                                                        type="button"
+                                                        size="sm"
+                                                        variant="ghost"
+                                                        className="h-7 px-2"
+                                                        onClick={() => {
+                                                            setSpecTarget(c);
+                                                            setSpecDraft(c.specializations);
+                                                        }}
+                                                        aria-label={`Edit specializations of ${c.counselor_name}`}
+                                                    >
+                                                        <Pencil className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Dialog open={specTarget != null} onOpenChange={(open) => !open && !isSavingSpecs && setSpecTarget(null)}>
+                    <DialogContent className="max-w-md">
+                        <DialogHeader>
+                            <DialogTitle>Specializations</DialogTitle>
+                            <DialogDescription>
+                                Concern types {specTarget?.counselor_name} prefers to take. Used to rank counselors for new
+                                intakes.
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        <div className="flex flex-wrap gap-2">
+                            {SPECIALIZATION_OPTIONS.map((s) => {
+                                const on = specDraft.includes(s);
+                                return (
+                                    <Button
+                                        key={s}
+                                        type="button"
+                                        size="sm"
+                                        variant={on ? "default" : "outline"}
+                                        onClick={() =>
+                                            setSpecDraft((prev) => (on ? prev.filter((x) => x !== s) : [...prev, s]))
+                                        }
+                                        disabled={isSavingSpecs}
+                                    >
+                                        {concernTypeLabel(s)}
+                                    </Button>
+                                );
+                            })}
+                        </div>
+
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setSpecTarget(null)} disabled={isSavingSpecs}>
+                                Cancel
+                            </Button>
+                            <Button onClick={() => void saveSpecializations()} disabled={isSavingSpecs} className="gap-2">
+                                {isSavingSpecs ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                                Save
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+
                 {/* Recent users */}
                 <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
                     <CardHeader className="space-y-2">
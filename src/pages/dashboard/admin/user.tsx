@@ -60,7 +60,8 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 
-import { AUTH_API_BASE_URL, type AuthenticatedUserDto } from "@/api/auth/route";
+import type { AuthenticatedUserDto } from "@/api/auth/route";
+import { apiFetch } from "@/api/client";
 import {
     getCurrentSession,
     subscribeToSession,
@@ -81,64 +82,6 @@ type UsersResponse =
     | AdminUser[]
     | { users?: AdminUser[]; data?: AdminUser[];[k: string]: unknown };
 
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error(
-            "VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.",
-        );
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
-async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const err = new Error(message) as any;
-        err.status = response.status;
-        err.data = body ?? text;
-        throw err;
-    }
-
-    return data as T;
-}
-
 function extractRoles(payload: RolesResponse): string[] {
     if (Array.isArray(payload)) return payload.filter(Boolean).map(String);
     const obj = payload as any;
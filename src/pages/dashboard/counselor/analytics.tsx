@@ -3,8 +3,8 @@ import React from "react";
 import DashboardLayout from "@/components/DashboardLayout";
 import { toast } from "sonner";
 
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
-import { getCurrentSession } from "@/lib/authentication";
+import { fetchCounselorAnalytics } from "@/lib/analytics";
+import type { AttendanceSummaryDto, MonthlyAttendanceRow, MonthlyGroupSessionRow } from "@/api/analytics/route";
 
 import { cn } from "@/lib/utils";
 
@@ -40,6 +40,8 @@ import {
     CalendarRange,
     TrendingUp,
     AlertCircle,
+    UserX,
+    UsersRound,
 } from "lucide-react";
 
 type MonthlyCountRow = {
@@ -48,19 +50,35 @@ type MonthlyCountRow = {
     count: number;
 };
 
-type CounselorAnalyticsApiResponse = {
-    message?: string;
-    this_month_count: number;
-    this_semester_count: number;
-    range?: {
-        start_date?: string;
-        end_date?: string;
-    };
-    monthly_counts?: MonthlyCountRow[];
+type MonthlyTrendRow = {
+    label: string;
+    count: number;
+    groupSessions: number;
+    participants: number;
 };
 
-function trimSlash(s: string) {
-    return s.replace(/\/+$/, "");
+/** One row per month that has requests and/or group sessions, oldest first */
+function mergeMonthlyRows(requests: MonthlyCountRow[], groups: MonthlyGroupSessionRow[]): MonthlyTrendRow[] {
+    const rows = new Map<number, MonthlyTrendRow>();
+    const rowFor = (year: number, month: number) => {
+        const key = year * 12 + month;
+        const row = rows.get(key) ?? { label: monthLabel(year, month), count: 0, groupSessions: 0, participants: 0 };
+        rows.set(key, row);
+        return row;
+    };
+
+    requests.forEach((r) => {
+        rowFor(r.year, r.month).count += safeNumber(r.count);
+    });
+    groups.forEach((g) => {
+        const row = rowFor(g.year, g.month);
+        row.groupSessions += safeNumber(g.sessions);
+        row.participants += safeNumber(g.participants);
+    });
+
+    return Array.from(rows.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, row]) => row);
 }
 
 function monthLabel(year: number, month: number) {
@@ -78,83 +96,20 @@ function sumCounts(rows: MonthlyCountRow[]) {
     return rows.reduce((acc, r) => acc + safeNumber(r.count), 0);
 }
 
-async function fetchCounselorAnalyticsRaw(params?: { start_date?: string; end_date?: string }) {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.");
-    }
-
-    const base = trimSlash(AUTH_API_BASE_URL);
-    const sp = new URLSearchParams();
-
-    if (params?.start_date) sp.set("start_date", params.start_date);
-    if (params?.end_date) sp.set("end_date", params.end_date);
-
-    const qs = sp.toString() ? `?${sp.toString()}` : "";
-    const url = `${base}/counselor/analytics${qs}`;
-
-    const session = getCurrentSession();
-    const token =
-        (session as any)?.token ??
-        (session as any)?.access_token ??
-        (session as any)?.accessToken ??
-        null;
-
-    const headers: Record<string, string> = {
-        Accept: "application/json",
-    };
-
-    if (token) {
-        headers.Authorization = `Bearer ${token}`;
-    }
-
-    const res = await fetch(url, {
-        method: "GET",
-        headers,
-        credentials: "include",
-    });
-
-    const text = await res.text();
-    let json: any = null;
-
-    if (text) {
-        try {
-            json = JSON.parse(text);
-        } catch {
-            json = null;
-        }
-    }
-
-    if (!res.ok) {
-        const msg =
-            json?.message ||
-            json?.error ||
-            res.statusText ||
-            "Failed to fetch counselor analytics.";
-        throw new Error(msg);
-    }
-
-    const monthly_counts: MonthlyCountRow[] = Array.isArray(json?.monthly_counts)
-        ? json.monthly_counts.map((r: any) => ({
-            year: safeNumber(r?.year),
-            month: safeNumber(r?.month),
-            count: safeNumber(r?.count),
-        }))
-        : [];
-
-    const payload: CounselorAnalyticsApiResponse = {
-        message: json?.message,
-        this_month_count: safeNumber(json?.this_month_count),
-        this_semester_count: safeNumber(json?.this_semester_count),
-        range: {
-            start_date: json?.range?.start_date,
-            end_date: json?.range?.end_date,
-        },
-        monthly_counts,
-    };
-
-    return payload;
+/** No-shows + late cancels over marked sessions, in percent */
+function missedRate(row: { attended: number; no_show: number; late_cancel: number }) {
+    const marked = row.attended + row.no_show + row.late_cancel;
+    return marked > 0 ? Math.round(((row.no_show + row.late_cancel) / marked) * 1000) / 10 : 0;
 }
 
+const EMPTY_ATTENDANCE: AttendanceSummaryDto = {
+    attended: 0,
+    no_show: 0,
+    late_cancel: 0,
+    unmarked: 0,
+    no_show_rate: 0,
+};
+
 export default function CounselorAnalytics() {
     const [loading, setLoading] = React.useState<boolean>(true);
     const [error, setError] = React.useState<string>("");
@@ -167,7 +122,10 @@ export default function CounselorAnalytics() {
     const [rangeTotal, setRangeTotal] = React.useState<number>(0);
 
     const [rangeLabel, setRangeLabel] = React.useState<{ start?: string; end?: string }>({});
-    const [monthly, setMonthly] = React.useState<Array<{ label: string; count: number }>>([]);
+    const [monthly, setMonthly] = React.useState<MonthlyTrendRow[]>([]);
+
+    const [attendance, setAttendance] = React.useState<AttendanceSummaryDto>(EMPTY_ATTENDANCE);
+    const [monthlyAttendance, setMonthlyAttendance] = React.useState<Array<MonthlyAttendanceRow & { label: string }>>([]);
 
     const load = React.useCallback(
         async (opts?: { start_date?: string; end_date?: string; silent?: boolean }) => {
@@ -179,7 +137,7 @@ export default function CounselorAnalytics() {
             }
 
             try {
-                const res = await fetchCounselorAnalyticsRaw({
+                const res = await fetchCounselorAnalytics({
                     start_date: opts?.start_date,
                     end_date: opts?.end_date,
                 });
@@ -188,12 +146,12 @@ export default function CounselorAnalytics() {
                 setThisSemester(safeNumber(res.this_semester_count));
 
                 const rows = Array.isArray(res.monthly_counts) ? res.monthly_counts : [];
-                const mapped = rows.map((r) => ({
-                    label: monthLabel(r.year, r.month),
-                    count: safeNumber(r.count),
-                }));
 
-                setMonthly(mapped);
+                setMonthly(mergeMonthlyRows(rows, res.monthly_group_sessions ?? []));
+                setAttendance(res.attendance ?? EMPTY_ATTENDANCE);
+                setMonthlyAttendance(
+                    (res.monthly_attendance ?? []).map((r) => ({ ...r, label: monthLabel(r.year, r.month) })),
+                );
                 setRangeTotal(sumCounts(rows));
                 setRangeLabel({
                     start: res?.range?.start_date,
@@ -373,6 +331,70 @@ export default function CounselorAnalytics() {
                     </Card>
                 </div>
 
+                {/* Attendance */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <UserX className="h-5 w-5" />
+                            Attendance &amp; No-shows
+                        </CardTitle>
+                        <CardDescription>
+                            Sessions scheduled inside the selected range. The no-show rate counts no-shows and late
+                            cancellations against all sessions with recorded attendance.
+                        </CardDescription>
+                    </CardHeader>
+
+                    <CardContent className="space-y-4">
+                        {loading ? (
+                            <Skeleton className="h-16 w-full" />
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+                                {[
+                                    { label: "No-show rate", value: `${attendance.no_show_rate}%` },
+                                    { label: "Attended", value: attendance.attended },
+                                    { label: "No-shows", value: attendance.no_show },
+                                    { label: "Late cancels", value: attendance.late_cancel },
+                                    { label: "Not yet marked", value: attendance.unmarked },
+                                ].map((stat) => (
+                                    <div key={stat.label} className="rounded-md border p-3">
+                                        <div className="text-xs text-muted-foreground">{stat.label}</div>
+                                        <div className="text-2xl font-semibold">{stat.value}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {!loading && monthlyAttendance.length > 0 ? (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-[180px]">Month</TableHead>
+                                        <TableHead>Attended</TableHead>
+                                        <TableHead>No-shows</TableHead>
+                                        <TableHead>Late cancels</TableHead>
+                                        <TableHead className="text-right">No-show rate</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {monthlyAttendance.map((m) => (
+                                        <TableRow key={m.label}>
+                                            <TableCell className="font-medium">{m.label}</TableCell>
+                                            <TableCell>{m.attended}</TableCell>
+                                            <TableCell>{m.no_show}</TableCell>
+                                            <TableCell>{m.late_cancel}</TableCell>
+                                            <TableCell className="text-right">
+                                                <Badge variant={missedRate(m) >= 20 ? "destructive" : "outline"}>
+                                                    {missedRate(m)}%
+                                                </Badge>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        ) : null}
+                    </CardContent>
+                </Card>
+
                 {/* Trend */}
                 <Card>
                     <CardHeader>
@@ -381,7 +403,8 @@ export default function CounselorAnalytics() {
                             Monthly Trend
                         </CardTitle>
                         <CardDescription>
-                            Monthly request counts (bars are relative to the highest month in the current view).
+                            Monthly request counts (bars are relative to the highest month in the current view),
+                            with the group sessions and workshops held that month.
                         </CardDescription>
                     </CardHeader>
 
@@ -413,6 +436,13 @@ export default function CounselorAnalytics() {
                                             <TableHead className="w-[180px]">Month</TableHead>
                                             <TableHead className="w-[120px]">Requests</TableHead>
                                             <TableHead>Trend</TableHead>
+                                            <TableHead className="w-[140px]">
+                                                <span className="flex items-center gap-1">
+                                                    <UsersRound className="h-3.5 w-3.5" />
+                                                    Group sessions
+                                                </span>
+                                            </TableHead>
+                                            <TableHead className="w-[120px] text-right">Participants</TableHead>
                                         </TableRow>
                                     </TableHeader>
                                     <TableBody>
@@ -434,6 +464,10 @@ export default function CounselorAnalytics() {
                                                             </div>
                                                         </div>
                                                     </TableCell>
+                                                    <TableCell>
+                                                        <Badge variant="outline">{m.groupSessions}</Badge>
+                                                    </TableCell>
+                                                    <TableCell className="text-right">{m.participants}</TableCell>
                                                 </TableRow>
                                             );
                                         })}
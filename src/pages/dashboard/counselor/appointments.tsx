@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React from "react"
 import DashboardLayout from "@/components/DashboardLayout"
+import { SessionNotesPanel } from "@/components/session-notes-panel"
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,14 +11,19 @@ import { format, parseISO } from "date-fns"
 import {
     AlertCircle,
     Calendar as CalendarIcon,
+    CalendarPlus,
     CheckCircle2,
     ClipboardList as ClipboardListIcon,
+    History,
+    ListOrdered,
     Loader2,
+    NotebookPen,
     Pencil,
     Save,
     Search,
     Trash2,
     UserCircle2,
+    UserPlus,
     X,
 } from "lucide-react"
 
@@ -53,29 +59,53 @@ import {
     TableRow,
 } from "@/components/ui/table"
 
-import { AUTH_API_BASE_URL } from "@/api/auth/route"
+import { apiFetch } from "@/api/client"
 import type { IntakeRequestDto } from "@/api/intake/route"
-
-type TimeOption = { value: string; label: string }
-
-const TIME_OPTIONS: TimeOption[] = [
-    { value: "08:00 AM", label: "8:00 AM" },
-    { value: "08:30 AM", label: "8:30 AM" },
-    { value: "09:00 AM", label: "9:00 AM" },
-    { value: "09:30 AM", label: "9:30 AM" },
-    { value: "10:00 AM", label: "10:00 AM" },
-    { value: "10:30 AM", label: "10:30 AM" },
-    { value: "11:00 AM", label: "11:00 AM" },
-    { value: "11:30 AM", label: "11:30 AM" },
-    { value: "01:00 PM", label: "1:00 PM" },
-    { value: "01:30 PM", label: "1:30 PM" },
-    { value: "02:00 PM", label: "2:00 PM" },
-    { value: "02:30 PM", label: "2:30 PM" },
-    { value: "03:00 PM", label: "3:00 PM" },
-    { value: "03:30 PM", label: "3:30 PM" },
-    { value: "04:00 PM", label: "4:00 PM" },
-    { value: "04:30 PM", label: "4:30 PM" },
-]
+import { getCurrentSession } from "@/lib/authentication"
+import { downloadAppointmentIcs } from "@/lib/ics"
+import { assignIntakeRequest, fetchAssignmentSuggestions, type AssignmentSuggestion } from "@/lib/cases"
+import {
+    APPOINTMENT_STATUSES,
+    APPOINTMENT_STATUS_LABELS,
+    canTransitionAppointment,
+    fetchAppointmentStatusHistory,
+    formatAppointmentStatus,
+    isActiveAppointmentStatus,
+    isClosedAppointmentStatus,
+    manualNextStatuses,
+    normalizeAppointmentStatus,
+    requiresStatusReason,
+    statusAfterScheduleChange,
+    type AppointmentStatus,
+    type AppointmentStatusChange,
+} from "@/lib/appointment-status"
+import {
+    APPOINTMENT_CHANGE_TYPE_LABELS,
+    decideAppointmentChange,
+    pendingChangeRequest,
+    type AppointmentChangeRequest,
+} from "@/lib/appointment-changes"
+import {
+    ATTENDANCE_STATUS_LABELS,
+    allowedAttendanceStatuses,
+    isAttendanceStatus,
+    markAppointmentAttendance,
+    type AttendanceStatus,
+} from "@/lib/attendance"
+import {
+    fetchCounselorWaitlist,
+    nextWaitlistedFor,
+    offerFreedSlot,
+    type CounselorWaitlist,
+    type FreedSlot,
+} from "@/lib/waitlist"
+import {
+    describeScheduleConflict,
+    fetchAvailableSlots,
+    formatTimeLabel,
+    timeToMinutes,
+    toAppointmentTimeValue,
+} from "@/lib/availability"
 
 const CONCERN_LABELS: Record<string, string> = {
     academic: "Academic",
@@ -92,13 +122,6 @@ const URGENCY_LABELS: Record<string, string> = {
     high: "Urgent (as soon as possible)",
 }
 
-const STATUS_OPTIONS: { value: string; label: string }[] = [
-    { value: "pending", label: "Pending" },
-    { value: "scheduled", label: "Scheduled" },
-    { value: "completed", label: "Completed" },
-    { value: "cancelled", label: "Cancelled" },
-]
-
 type FinalFilter = "all" | "final_set" | "final_unset"
 
 type PaginationMeta = {
@@ -108,71 +131,6 @@ type PaginationMeta = {
     total: number
 }
 
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.")
-    }
-    const trimmed = path.replace(/^\/+/, "")
-    return `${AUTH_API_BASE_URL}/${trimmed}`
-}
-
-function buildQueryString(params?: Record<string, any>): string {
-    if (!params) return ""
-    const sp = new URLSearchParams()
-    Object.entries(params).forEach(([k, v]) => {
-        if (v === undefined || v === null || v === "") return
-        sp.set(k, String(v))
-    })
-    const qs = sp.toString()
-    return qs ? `?${qs}` : ""
-}
-
-async function counselorApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path)
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    })
-
-    const text = await response.text()
-    let data: unknown = null
-
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object" ? (Object.values(body.errors)[0] as any)?.[0] : undefined
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server."
-
-        const error = new Error(message) as Error & { status?: number; data?: unknown }
-        error.status = response.status
-        error.data = body ?? text
-        throw error
-    }
-
-    return data as T
-}
-
 /**
  * ✅ Supports BOTH:
  * - old response: array
@@ -182,13 +140,13 @@ async function fetchCounselingRequestsPage(args: {
     page: number
     perPage: number
 }): Promise<{ items: IntakeRequestDto[]; meta: PaginationMeta }> {
-    const qs = buildQueryString({
-        page: args.page,
-        per_page: args.perPage,
+    const raw = await apiFetch<any>("/counselor/intake/requests", {
+        query: {
+            page: args.page,
+            per_page: args.perPage,
+        },
     })
 
-    const raw = await counselorApiFetch<any>(`/counselor/intake/requests${qs}`)
-
     // ✅ If backend returns array (older behavior)
     if (Array.isArray(raw)) {
         const items = raw as IntakeRequestDto[]
@@ -228,7 +186,8 @@ async function fetchCounselingRequestsPage(args: {
 }
 
 type CounselorUpdatePayload = {
-    status?: string
+    status?: AppointmentStatus
+    status_reason?: string | null
     scheduled_date?: string
     scheduled_time?: string
 }
@@ -237,22 +196,23 @@ async function updateAppointmentSchedule(
     requestId: number | string,
     scheduledDate: string,
     scheduledTime: string,
+    status: AppointmentStatus,
 ): Promise<any> {
     const payload: CounselorUpdatePayload = {
         scheduled_date: scheduledDate,
         scheduled_time: scheduledTime,
-        status: "scheduled",
+        status,
     }
 
     try {
-        return await counselorApiFetch<any>(`/counselor/appointments/${requestId}`, {
+        return await apiFetch<any>(`/counselor/appointments/${requestId}`, {
             method: "PATCH",
             body: JSON.stringify(payload),
         })
     } catch (err) {
         const e = err as any
         if (e?.status === 404) {
-            return counselorApiFetch<any>(`/counselor/intake/requests/${requestId}`, {
+            return apiFetch<any>(`/counselor/intake/requests/${requestId}`, {
                 method: "PATCH",
                 body: JSON.stringify(payload),
             })
@@ -261,18 +221,22 @@ async function updateAppointmentSchedule(
     }
 }
 
-async function updateAppointmentStatus(requestId: number | string, status: string): Promise<any> {
-    const payload: CounselorUpdatePayload = { status }
+async function updateAppointmentStatus(
+    requestId: number | string,
+    status: AppointmentStatus,
+    reason?: string | null,
+): Promise<any> {
+    const payload: CounselorUpdatePayload = { status, status_reason: reason || null }
 
     try {
-        return await counselorApiFetch<any>(`/counselor/appointments/${requestId}`, {
+        return await apiFetch<any>(`/counselor/appointments/${requestId}`, {
             method: "PATCH",
             body: JSON.stringify(payload),
         })
     } catch (err) {
         const e = err as any
         if (e?.status === 404) {
-            return counselorApiFetch<any>(`/counselor/intake/requests/${requestId}`, {
+            return apiFetch<any>(`/counselor/intake/requests/${requestId}`, {
                 method: "PATCH",
                 body: JSON.stringify(payload),
             })
@@ -283,13 +247,13 @@ async function updateAppointmentStatus(requestId: number | string, status: strin
 
 async function deleteAppointment(requestId: number | string): Promise<any> {
     try {
-        return await counselorApiFetch<any>(`/counselor/appointments/${requestId}`, {
+        return await apiFetch<any>(`/counselor/appointments/${requestId}`, {
             method: "DELETE",
         })
     } catch (err) {
         const e = err as any
         if (e?.status === 404) {
-            return counselorApiFetch<any>(`/counselor/intake/requests/${requestId}`, {
+            return apiFetch<any>(`/counselor/intake/requests/${requestId}`, {
                 method: "DELETE",
             })
         }
@@ -323,6 +287,15 @@ function getStudentId(record: any): number | string | null {
     return id
 }
 
+/**
+ * Assigned counselor, or the signed-in counselor for requests nobody has taken yet.
+ */
+function getScheduleCounselorId(record: any): number | string | null {
+    const id = record?.counselor_id ?? record?.counselor?.id ?? getCurrentSession().user?.id ?? null
+    if (id === null || id === undefined) return null
+    return id
+}
+
 function formatDate(dateString?: string | null): string {
     if (!dateString || typeof dateString !== "string") return "—"
     try {
@@ -366,13 +339,12 @@ function urgencyClassName(raw?: string | null): string {
 }
 
 function statusClassName(raw?: string | null): string {
-    const value = (raw ?? "").toLowerCase()
-    if (value === "pending") return "border-amber-200 bg-amber-50 text-amber-900"
+    const value = normalizeAppointmentStatus(raw)
+    if (value === "requested") return "border-amber-200 bg-amber-50 text-amber-900"
     if (value === "scheduled") return "border-blue-200 bg-blue-50 text-blue-900"
+    if (value === "rescheduled") return "border-indigo-200 bg-indigo-50 text-indigo-900"
     if (value === "completed") return "border-emerald-200 bg-emerald-50 text-emerald-900"
-    if (value === "cancelled" || value === "canceled") {
-        return "border-slate-200 bg-slate-50 text-slate-800"
-    }
+    if (value === "no_show") return "border-red-200 bg-red-50 text-red-800"
     return "border-slate-200 bg-slate-50 text-slate-800"
 }
 
@@ -396,11 +368,11 @@ function useDebouncedValue<T>(value: T, delay = 300): T {
 }
 
 async function fetchCounselorStudentProfile(studentId: number | string): Promise<any> {
-    return counselorApiFetch<any>(`/counselor/students/${studentId}`)
+    return apiFetch<any>(`/counselor/students/${studentId}`)
 }
 
 async function fetchCounselorStudentHistory(studentId: number | string): Promise<any> {
-    return counselorApiFetch<any>(`/counselor/students/${studentId}/history`)
+    return apiFetch<any>(`/counselor/students/${studentId}/history`)
 }
 
 const PER_PAGE = 10
@@ -429,8 +401,38 @@ const CounselorAppointments: React.FC = () => {
     const [page, setPage] = React.useState<number>(1)
 
     // ✅ status update
-    const [statusDraftById, setStatusDraftById] = React.useState<Record<string, string>>({})
+    const [statusDraftById, setStatusDraftById] = React.useState<Record<string, AppointmentStatus | "">>({})
+    const [statusReasonById, setStatusReasonById] = React.useState<Record<string, string>>({})
     const [statusSavingId, setStatusSavingId] = React.useState<number | string | null>(null)
+    const [attendanceSavingId, setAttendanceSavingId] = React.useState<number | string | null>(null)
+
+    // ✅ session notes dialog (counselor-only SOAP / DAP notes)
+    const [notesTarget, setNotesTarget] = React.useState<IntakeRequestDto | null>(null)
+
+    // Assign counselor (unassigned requests)
+    const [assignTarget, setAssignTarget] = React.useState<IntakeRequestDto | null>(null)
+    const [suggestions, setSuggestions] = React.useState<AssignmentSuggestion[]>([])
+    const [suggestionsLoading, setSuggestionsLoading] = React.useState(false)
+    const [assigningCounselorId, setAssigningCounselorId] = React.useState<number | null>(null)
+
+    // ✅ status history dialog
+    const [statusHistoryOpen, setStatusHistoryOpen] = React.useState(false)
+    const [statusHistoryTarget, setStatusHistoryTarget] = React.useState<IntakeRequestDto | null>(null)
+    const [statusHistory, setStatusHistory] = React.useState<AppointmentStatusChange[]>([])
+    const [statusHistoryLoading, setStatusHistoryLoading] = React.useState(false)
+
+    // ✅ student reschedule / cancellation request being decided
+    const [changeDecision, setChangeDecision] = React.useState<{
+        req: IntakeRequestDto
+        request: AppointmentChangeRequest
+        decision: "accept" | "decline"
+    } | null>(null)
+    const [changeNote, setChangeNote] = React.useState("")
+    const [isDecidingChange, setIsDecidingChange] = React.useState(false)
+
+    // ✅ waitlist + slots freed by cancellations
+    const [waitlist, setWaitlist] = React.useState<CounselorWaitlist>({ waitlist: [], freed_slots: [] })
+    const [offeringSlotId, setOfferingSlotId] = React.useState<number | null>(null)
 
     // ✅ schedule dialog
     const [scheduleOpen, setScheduleOpen] = React.useState(false)
@@ -438,6 +440,8 @@ const CounselorAppointments: React.FC = () => {
     const [editDate, setEditDate] = React.useState<Date | undefined>(undefined)
     const [editTime, setEditTime] = React.useState<string>("")
     const [isSaving, setIsSaving] = React.useState(false)
+    const [openTimes, setOpenTimes] = React.useState<string[]>([])
+    const [isLoadingTimes, setIsLoadingTimes] = React.useState(false)
 
     // ✅ delete confirmation
     const [deleteOpen, setDeleteOpen] = React.useState(false)
@@ -461,12 +465,21 @@ const CounselorAppointments: React.FC = () => {
         setPage(1)
     }
 
+    const loadWaitlist = React.useCallback(async () => {
+        try {
+            setWaitlist(await fetchCounselorWaitlist())
+        } catch {
+            // silent: the appointments table still works without the waitlist panel
+        }
+    }, [])
+
     const reload = React.useCallback(
         async (goToPage?: number) => {
             const nextPage = goToPage ?? page
 
             setIsLoading(true)
             setError(null)
+            void loadWaitlist()
 
             try {
                 const { items, meta } = await fetchCounselingRequestsPage({
@@ -483,17 +496,6 @@ const CounselorAppointments: React.FC = () => {
 
                 setRequests(sorted)
                 setMeta(meta)
-
-                setStatusDraftById((prev) => {
-                    const next = { ...prev }
-                    for (const r of sorted) {
-                        const key = String(r.id)
-                        if (next[key] === undefined) {
-                            next[key] = String(r.status ?? "pending").toLowerCase() || "pending"
-                        }
-                    }
-                    return next
-                })
             } catch (err: any) {
                 const message = err instanceof Error ? err.message : "Failed to load appointments."
                 setError(message)
@@ -502,7 +504,7 @@ const CounselorAppointments: React.FC = () => {
                 setIsLoading(false)
             }
         },
-        [page],
+        [page, loadWaitlist],
     )
 
     // when search/status changes, reset to page 1
@@ -519,11 +521,11 @@ const CounselorAppointments: React.FC = () => {
         const q = normalizeText(debouncedSearch)
 
         return requests.filter((req) => {
-            const status = normalizeText(req.status)
+            const status = normalizeAppointmentStatus(req.status)
             const urgency = normalizeText(req.urgency)
             const concern = normalizeText(req.concern_type)
 
-            if (filterStatus !== "all" && status !== normalizeText(filterStatus)) return false
+            if (filterStatus !== "all" && status !== filterStatus) return false
             if (filterUrgency !== "all" && urgency !== normalizeText(filterUrgency)) return false
             if (filterConcern !== "all" && concern !== normalizeText(filterConcern)) return false
 
@@ -604,6 +606,48 @@ const CounselorAppointments: React.FC = () => {
         if (t) setEditTime(String(t))
     }
 
+    // ✅ Only the counselor's open slots (this appointment's own slot counts as open)
+    React.useEffect(() => {
+        if (!scheduleOpen || !scheduleTarget || !editDate) {
+            setOpenTimes([])
+            return
+        }
+
+        const day = format(editDate, "yyyy-MM-dd")
+        let cancelled = false
+        setIsLoadingTimes(true)
+
+        fetchAvailableSlots({
+            from: day,
+            to: day,
+            counselor_id: getScheduleCounselorId(scheduleTarget),
+            ignore_intake_id: scheduleTarget.id,
+        })
+            .then((slots) => {
+                if (!cancelled) setOpenTimes(slots.map((slot) => toAppointmentTimeValue(slot.start_time)))
+            })
+            .catch((err) => {
+                if (!cancelled) {
+                    setOpenTimes([])
+                    toast.error(err instanceof Error ? err.message : "Failed to load open slots.")
+                }
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoadingTimes(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [scheduleOpen, scheduleTarget, editDate])
+
+    const timeOptions = React.useMemo(() => {
+        const values = new Set(openTimes)
+        // Keep the current value selectable even if it falls outside the published hours
+        if (editTime) values.add(editTime)
+        return Array.from(values).sort((a, b) => (timeToMinutes(a) ?? 0) - (timeToMinutes(b) ?? 0))
+    }, [openTimes, editTime])
+
     const saveSchedule = async () => {
         if (!scheduleTarget) return
 
@@ -621,12 +665,18 @@ const CounselorAppointments: React.FC = () => {
 
         setIsSaving(true)
         try {
-            await updateAppointmentSchedule(scheduleTarget.id, scheduledDate, scheduledTime)
+            await updateAppointmentSchedule(
+                scheduleTarget.id,
+                scheduledDate,
+                scheduledTime,
+                statusAfterScheduleChange(normalizeAppointmentStatus(scheduleTarget.status)),
+            )
             toast.success("Final schedule saved (preferred schedule unchanged).")
             closeScheduleDialog()
             void reload(page)
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Failed to update schedule."
+            const message =
+                describeScheduleConflict(err) ?? (err instanceof Error ? err.message : "Failed to update schedule.")
             toast.error(message)
         } finally {
             setIsSaving(false)
@@ -634,18 +684,32 @@ const CounselorAppointments: React.FC = () => {
     }
 
     const handleUpdateStatus = async (req: IntakeRequestDto) => {
-        const draft = statusDraftById[String(req.id)] ?? String(req.status ?? "pending").toLowerCase()
-        const current = String(req.status ?? "pending").toLowerCase()
+        const key = String(req.id)
+        const draft = statusDraftById[key]
+        const current = normalizeAppointmentStatus(req.status)
+        const reason = (statusReasonById[key] ?? "").trim()
 
         if (!draft || draft === current) {
             toast.message("No status change to update.")
             return
         }
+        if (!canTransitionAppointment(current, draft)) {
+            toast.error(
+                `Cannot change status from ${APPOINTMENT_STATUS_LABELS[current]} to ${APPOINTMENT_STATUS_LABELS[draft]}.`,
+            )
+            return
+        }
+        if (requiresStatusReason(draft) && !reason) {
+            toast.error("Please give a reason for cancelling this appointment.")
+            return
+        }
 
         setStatusSavingId(req.id)
         try {
-            await updateAppointmentStatus(req.id, draft)
-            toast.success(`Status updated to ${draft}.`)
+            await updateAppointmentStatus(req.id, draft, reason)
+            toast.success(`Status updated to ${APPOINTMENT_STATUS_LABELS[draft].toLowerCase()}.`)
+            setStatusDraftById((prev) => ({ ...prev, [key]: "" }))
+            setStatusReasonById((prev) => ({ ...prev, [key]: "" }))
             void reload(page)
         } catch (err) {
             const message = err instanceof Error ? err.message : "Failed to update status."
@@ -655,6 +719,117 @@ const CounselorAppointments: React.FC = () => {
         }
     }
 
+    const openStatusHistory = async (req: IntakeRequestDto) => {
+        setStatusHistoryTarget(req)
+        setStatusHistory([])
+        setStatusHistoryOpen(true)
+        setStatusHistoryLoading(true)
+        try {
+            setStatusHistory(await fetchAppointmentStatusHistory(req.id))
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to load status history."
+            toast.error(message)
+        } finally {
+            setStatusHistoryLoading(false)
+        }
+    }
+
+    const handleMarkAttendance = async (req: IntakeRequestDto, attendance: AttendanceStatus) => {
+        setAttendanceSavingId(req.id)
+        try {
+            await markAppointmentAttendance(req.id, attendance)
+            toast.success(`Marked as ${ATTENDANCE_STATUS_LABELS[attendance].toLowerCase()}.`)
+            void reload(page)
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to record attendance."
+            toast.error(message)
+        } finally {
+            setAttendanceSavingId(null)
+        }
+    }
+
+    const askDecideChange = (
+        req: IntakeRequestDto,
+        request: AppointmentChangeRequest,
+        decision: "accept" | "decline",
+    ) => {
+        setChangeNote("")
+        setChangeDecision({ req, request, decision })
+    }
+
+    const confirmDecideChange = async () => {
+        if (!changeDecision) return
+
+        const { request, decision } = changeDecision
+        setIsDecidingChange(true)
+        try {
+            await decideAppointmentChange(request.id, decision, changeNote)
+            toast.success(
+                decision === "accept"
+                    ? "Request accepted. The student was notified."
+                    : "Request declined. The student was notified.",
+            )
+            setChangeDecision(null)
+            void reload(page)
+        } catch (err) {
+            const message =
+                describeScheduleConflict(err) ?? (err instanceof Error ? err.message : "Failed to update the request.")
+            toast.error(message)
+        } finally {
+            setIsDecidingChange(false)
+        }
+    }
+
+    const handleOfferSlot = async (slot: FreedSlot) => {
+        setOfferingSlotId(slot.appointment_id)
+        try {
+            const scheduled = await offerFreedSlot(slot)
+            toast.success(`Slot offered to ${getStudentDisplayName(scheduled)}. They were notified by message.`)
+            void reload(page)
+        } catch (err) {
+            const message =
+                describeScheduleConflict(err) ?? (err instanceof Error ? err.message : "Failed to offer the slot.")
+            toast.error(message)
+            void loadWaitlist()
+        } finally {
+            setOfferingSlotId(null)
+        }
+    }
+
+    const openAssignDialog = async (req: IntakeRequestDto) => {
+        setAssignTarget(req)
+        setSuggestions([])
+        setSuggestionsLoading(true)
+        try {
+            setSuggestions(await fetchAssignmentSuggestions(req.id))
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to load counselor suggestions.")
+        } finally {
+            setSuggestionsLoading(false)
+        }
+    }
+
+    const handleAssign = async (suggestion: AssignmentSuggestion) => {
+        if (!assignTarget) return
+        setAssigningCounselorId(suggestion.counselor_id)
+        try {
+            await assignIntakeRequest(assignTarget.id, suggestion.counselor_id)
+            toast.success(`${getStudentDisplayName(assignTarget)}'s request was assigned to ${suggestion.counselor_name}.`)
+            setAssignTarget(null)
+            void reload(page)
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to assign the request.")
+        } finally {
+            setAssigningCounselorId(null)
+        }
+    }
+
+    const downloadIcs = (req: IntakeRequestDto) => {
+        if (!downloadAppointmentIcs(req, "counselor")) {
+            toast.error("Schedule this appointment before adding it to a calendar.")
+        }
+    }
+
     const askDelete = (req: IntakeRequestDto) => {
         setDeleteTarget(req)
         setDeleteOpen(true)
@@ -757,6 +932,96 @@ const CounselorAppointments: React.FC = () => {
                         </div>
                     </div>
 
+                    {waitlist.waitlist.length > 0 || waitlist.freed_slots.length > 0 ? (
+                        <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
+                            <CardHeader className="space-y-1">
+                                <CardTitle className="flex items-center gap-2 text-base font-semibold text-amber-900">
+                                    <ListOrdered className="h-4 w-4 text-amber-600" />
+                                    Waitlist
+                                </CardTitle>
+                                <p className="text-xs text-muted-foreground">
+                                    Students who found no open slot, most urgent first. Slots freed by cancellations can be
+                                    offered to the next student in one click.
+                                </p>
+                            </CardHeader>
+
+                            <CardContent className="grid gap-4 text-xs md:grid-cols-2">
+                                <div className="space-y-2">
+                                    <p className="font-semibold text-amber-900">Freed slots</p>
+                                    {waitlist.freed_slots.length === 0 ? (
+                                        <p className="text-[0.7rem] text-muted-foreground">
+                                            No upcoming slots have been freed by cancellations.
+                                        </p>
+                                    ) : (
+                                        waitlist.freed_slots.map((slot) => {
+                                            const next = nextWaitlistedFor(waitlist.waitlist, slot)
+                                            return (
+                                                <div
+                                                    key={slot.appointment_id}
+                                                    className="flex flex-col gap-2 rounded-md border border-amber-100 bg-amber-50/50 px-3 py-2 sm:flex-row sm:items-center sm:justify-between"
+                                                >
+                                                    <div>
+                                                        <div className="font-medium text-foreground">
+                                                            {formatDate(slot.date)} · {slot.time}
+                                                        </div>
+                                                        <div className="text-[0.7rem] text-muted-foreground">
+                                                            {slot.counselor_name ?? "Counselor"}
+                                                            {next ? ` · next: ${getStudentDisplayName(next)} (${formatUrgency(next.urgency ?? undefined)})` : " · nobody eligible"}
+                                                        </div>
+                                                    </div>
+                                                    <Button
+                                                        type="button"
+                                                        size="sm"
+                                                        className="h-8 bg-amber-600 text-[0.7rem] text-white hover:bg-amber-700"
+                                                        onClick={() => void handleOfferSlot(slot)}
+                                                        disabled={!next || offeringSlotId != null}
+                                                    >
+                                                        {offeringSlotId === slot.appointment_id ? (
+                                                            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                                                        ) : null}
+                                                        Offer to next
+                                                    </Button>
+                                                </div>
+                                            )
+                                        })
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <p className="font-semibold text-amber-900">Queue</p>
+                                    {waitlist.waitlist.length === 0 ? (
+                                        <p className="text-[0.7rem] text-muted-foreground">Nobody is waiting.</p>
+                                    ) : (
+                                        <ol className="space-y-1.5">
+                                            {waitlist.waitlist.map((req, index) => (
+                                                <li key={req.id} className="flex items-start gap-2">
+                                                    <span className="w-6 shrink-0 font-semibold text-amber-900">#{index + 1}</span>
+                                                    <div className="min-w-0">
+                                                        <div className="flex flex-wrap items-center gap-1.5">
+                                                            <span className="font-medium text-foreground">
+                                                                {getStudentDisplayName(req)}
+                                                            </span>
+                                                            <Badge
+                                                                className={`rounded-full border px-2 py-0.5 text-[0.65rem] ${urgencyClassName(
+                                                                    req.urgency,
+                                                                )}`}
+                                                            >
+                                                                {formatUrgency(req.urgency ?? undefined)}
+                                                            </Badge>
+                                                        </div>
+                                                        <div className="text-[0.7rem] text-muted-foreground">
+                                                            Waiting since {formatDateTime(req.waitlisted_at)}
+                                                        </div>
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ) : null}
+
                     <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
                         <CardHeader className="space-y-1">
                             <CardTitle className="flex items-center gap-2 text-base font-semibold text-amber-900">
@@ -787,9 +1052,9 @@ const CounselorAppointments: React.FC = () => {
                                         </SelectTrigger>
                                         <SelectContent>
                                             <SelectItem value="all">All status</SelectItem>
-                                            {STATUS_OPTIONS.map((opt) => (
-                                                <SelectItem key={opt.value} value={opt.value}>
-                                                    {opt.label}
+                                            {APPOINTMENT_STATUSES.map((value) => (
+                                                <SelectItem key={value} value={value}>
+                                                    {APPOINTMENT_STATUS_LABELS[value]}
                                                 </SelectItem>
                                             ))}
                                         </SelectContent>
@@ -938,9 +1203,14 @@ const CounselorAppointments: React.FC = () => {
 
                                                 const created = formatDateTime(req.created_at)
 
-                                                const reqStatus = String(req.status ?? "pending").toLowerCase()
-                                                const draftStatus = statusDraftById[String(req.id)] ?? reqStatus
+                                                const reqStatus = normalizeAppointmentStatus(req.status)
+                                                const nextStatuses = manualNextStatuses(reqStatus)
+                                                const draftStatus = statusDraftById[String(req.id)] ?? ""
+                                                const draftReason = statusReasonById[String(req.id)] ?? ""
                                                 const statusIsSaving = statusSavingId === req.id
+                                                const attendance = isAttendanceStatus(req.attendance) ? req.attendance : null
+                                                const attendanceOptions = attendance ? [] : allowedAttendanceStatuses(req)
+                                                const changeRequest = pendingChangeRequest(req)
 
                                                 return (
                                                     <TableRow key={req.id}>
@@ -966,6 +1236,13 @@ const CounselorAppointments: React.FC = () => {
                                                                             {String(req.details)}
                                                                         </div>
                                                                     ) : null}
+                                                                    <div className="mt-1 text-[0.7rem] text-muted-foreground">
+                                                                        {req.counselor_id != null ? (
+                                                                            <>Counselor: {req.counselor_name ?? "Assigned"}</>
+                                                                        ) : (
+                                                                            <span className="font-medium text-amber-700">Unassigned</span>
+                                                                        )}
+                                                                    </div>
                                                                 </div>
                                                             </div>
                                                         </TableCell>
@@ -988,61 +1265,110 @@ const CounselorAppointments: React.FC = () => {
                                                             <div className="flex flex-col gap-2">
                                                                 <Badge
                                                                     className={`w-fit rounded-full border px-2 py-0.5 text-[0.65rem] ${statusClassName(
-                                                                        req.status,
+                                                                        reqStatus,
                                                                     )}`}
                                                                 >
                                                                     Status:{" "}
-                                                                    <span className="ml-1 capitalize">
-                                                                        {String(req.status ?? "pending")}
-                                                                    </span>
+                                                                    <span className="ml-1">{APPOINTMENT_STATUS_LABELS[reqStatus]}</span>
                                                                 </Badge>
 
-                                                                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
-                                                                    <div className="w-full sm:w-44">
-                                                                        <Select
-                                                                            value={draftStatus}
-                                                                            onValueChange={(value) =>
-                                                                                setStatusDraftById((prev) => ({
-                                                                                    ...prev,
-                                                                                    [String(req.id)]: value,
-                                                                                }))
-                                                                            }
-                                                                            disabled={statusIsSaving}
-                                                                        >
-                                                                            <SelectTrigger className="h-8 w-full bg-white text-[0.7rem]">
-                                                                                <SelectValue placeholder="Set status" />
-                                                                            </SelectTrigger>
-                                                                            <SelectContent>
-                                                                                {STATUS_OPTIONS.map((opt) => (
-                                                                                    <SelectItem key={opt.value} value={opt.value}>
-                                                                                        {opt.label}
-                                                                                    </SelectItem>
-                                                                                ))}
-                                                                            </SelectContent>
-                                                                        </Select>
-                                                                    </div>
+                                                                {req.waitlist_position ? (
+                                                                    <Badge className="w-fit rounded-full border border-violet-200 bg-violet-50 px-2 py-0.5 text-[0.65rem] text-violet-800">
+                                                                        Waitlist #{req.waitlist_position}
+                                                                    </Badge>
+                                                                ) : null}
+
+                                                                {nextStatuses.length > 0 ? (
+                                                                    <>
+                                                                        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                                                                            <div className="w-full sm:w-44">
+                                                                                <Select
+                                                                                    value={draftStatus}
+                                                                                    onValueChange={(value) =>
+                                                                                        setStatusDraftById((prev) => ({
+                                                                                            ...prev,
+                                                                                            [String(req.id)]: value as AppointmentStatus,
+                                                                                        }))
+                                                                                    }
+                                                                                    disabled={statusIsSaving}
+                                                                                >
+                                                                                    <SelectTrigger className="h-8 w-full bg-white text-[0.7rem]">
+                                                                                        <SelectValue placeholder="Change status" />
+                                                                                    </SelectTrigger>
+                                                                                    <SelectContent>
+                                                                                        {nextStatuses.map((value) => (
+                                                                                            <SelectItem key={value} value={value}>
+                                                                                                {APPOINTMENT_STATUS_LABELS[value]}
+                                                                                            </SelectItem>
+                                                                                        ))}
+                                                                                    </SelectContent>
+                                                                                </Select>
+                                                                            </div>
+
+                                                                            <Button
+                                                                                type="button"
+                                                                                size="sm"
+                                                                                variant="outline"
+                                                                                className="h-8 border-amber-200 bg-white text-[0.7rem] text-amber-900 hover:bg-amber-50"
+                                                                                onClick={() => void handleUpdateStatus(req)}
+                                                                                disabled={
+                                                                                    statusIsSaving ||
+                                                                                    !draftStatus ||
+                                                                                    (requiresStatusReason(draftStatus) && !draftReason.trim())
+                                                                                }
+                                                                            >
+                                                                                {statusIsSaving ? (
+                                                                                    <>
+                                                                                        <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                                                                                        Updating…
+                                                                                    </>
+                                                                                ) : (
+                                                                                    <>
+                                                                                        <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
+                                                                                        Update
+                                                                                    </>
+                                                                                )}
+                                                                            </Button>
+                                                                        </div>
 
-                                                                    <Button
-                                                                        type="button"
-                                                                        size="sm"
-                                                                        variant="outline"
-                                                                        className="h-8 border-amber-200 bg-white text-[0.7rem] text-amber-900 hover:bg-amber-50"
-                                                                        onClick={() => void handleUpdateStatus(req)}
-                                                                        disabled={statusIsSaving || (draftStatus ?? "") === reqStatus}
-                                                                    >
-                                                                        {statusIsSaving ? (
-                                                                            <>
-                                                                                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
-                                                                                Updating…
-                                                                            </>
-                                                                        ) : (
-                                                                            <>
-                                                                                <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
-                                                                                Update
-                                                                            </>
-                                                                        )}
-                                                                    </Button>
-                                                                </div>
+                                                                        {draftStatus && requiresStatusReason(draftStatus) ? (
+                                                                            <Input
+                                                                                value={draftReason}
+                                                                                onChange={(e) =>
+                                                                                    setStatusReasonById((prev) => ({
+                                                                                        ...prev,
+                                                                                        [String(req.id)]: e.target.value,
+                                                                                    }))
+                                                                                }
+                                                                                placeholder="Reason for cancelling (required)"
+                                                                                className="h-8 bg-white text-[0.7rem]"
+                                                                                disabled={statusIsSaving}
+                                                                            />
+                                                                        ) : null}
+                                                                    </>
+                                                                ) : (
+                                                                    <p className="text-[0.7rem] text-muted-foreground">Final status</p>
+                                                                )}
+
+                                                                <Button
+                                                                    type="button"
+                                                                    variant="link"
+                                                                    className="h-auto w-fit p-0 text-[0.7rem] text-amber-900"
+                                                                    onClick={() => void openStatusHistory(req)}
+                                                                >
+                                                                    <History className="mr-1 h-3.5 w-3.5" />
+                                                                    Status history
+                                                                </Button>
+
+                                                                <Button
+                                                                    type="button"
+                                                                    variant="link"
+                                                                    className="h-auto w-fit p-0 text-[0.7rem] text-amber-900"
+                                                                    onClick={() => setNotesTarget(req)}
+                                                                >
+                                                                    <NotebookPen className="mr-1 h-3.5 w-3.5" />
+                                                                    Session notes
+                                                                </Button>
                                                             </div>
                                                         </TableCell>
 
@@ -1062,6 +1388,69 @@ const CounselorAppointments: React.FC = () => {
                                                                     {finalTime !== "—" ? finalTime : "—"}
                                                                 </div>
                                                             </div>
+
+                                                            {attendance ? (
+                                                                <Badge
+                                                                    className={`mt-2 w-fit rounded-full border px-2 py-0.5 text-[0.65rem] ${
+                                                                        attendance === "attended"
+                                                                            ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+                                                                            : "border-red-200 bg-red-50 text-red-700"
+                                                                    }`}
+                                                                >
+                                                                    {ATTENDANCE_STATUS_LABELS[attendance]}
+                                                                </Badge>
+                                                            ) : attendanceOptions.length > 0 && isActiveAppointmentStatus(reqStatus) ? (
+                                                                <div className="mt-2 w-full sm:w-36">
+                                                                    <Select
+                                                                        value=""
+                                                                        onValueChange={(value) =>
+                                                                            void handleMarkAttendance(req, value as AttendanceStatus)
+                                                                        }
+                                                                        disabled={attendanceSavingId === req.id}
+                                                                    >
+                                                                        <SelectTrigger className="h-8 w-full bg-white text-[0.7rem]">
+                                                                            <SelectValue placeholder="Mark attendance" />
+                                                                        </SelectTrigger>
+                                                                        <SelectContent>
+                                                                            {attendanceOptions.map((opt) => (
+                                                                                <SelectItem key={opt} value={opt}>
+                                                                                    {ATTENDANCE_STATUS_LABELS[opt]}
+                                                                                </SelectItem>
+                                                                            ))}
+                                                                        </SelectContent>
+                                                                    </Select>
+                                                                </div>
+                                                            ) : null}
+
+                                                            {changeRequest ? (
+                                                                <div className="mt-2 space-y-1.5 rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-[0.7rem] text-amber-900">
+                                                                    <div className="font-medium">
+                                                                        {changeRequest.type === "reschedule"
+                                                                            ? `${APPOINTMENT_CHANGE_TYPE_LABELS.reschedule} requested: ${formatDate(changeRequest.proposed_date)} · ${changeRequest.proposed_time ?? "—"}`
+                                                                            : `${APPOINTMENT_CHANGE_TYPE_LABELS.cancel} requested`}
+                                                                    </div>
+                                                                    <div className="text-amber-900/80">Reason: {changeRequest.reason}</div>
+                                                                    <div className="flex gap-1.5">
+                                                                        <Button
+                                                                            type="button"
+                                                                            size="sm"
+                                                                            className="h-7 bg-amber-600 px-2 text-[0.7rem] text-white hover:bg-amber-700"
+                                                                            onClick={() => askDecideChange(req, changeRequest, "accept")}
+                                                                        >
+                                                                            Accept
+                                                                        </Button>
+                                                                        <Button
+                                                                            type="button"
+                                                                            size="sm"
+                                                                            variant="outline"
+                                                                            className="h-7 border-amber-200 bg-white px-2 text-[0.7rem] text-amber-900 hover:bg-amber-50"
+                                                                            onClick={() => askDecideChange(req, changeRequest, "decline")}
+                                                                        >
+                                                                            Decline
+                                                                        </Button>
+                                                                    </div>
+                                                                </div>
+                                                            ) : null}
                                                         </TableCell>
 
                                                         <TableCell className="align-top">
@@ -1070,17 +1459,44 @@ const CounselorAppointments: React.FC = () => {
 
                                                         <TableCell className="align-top text-right">
                                                             <div className="flex flex-col items-end gap-2">
+                                                                {req.counselor_id == null && !isClosedAppointmentStatus(reqStatus) ? (
+                                                                    <Button
+                                                                        type="button"
+                                                                        size="sm"
+                                                                        variant="outline"
+                                                                        className="h-8 w-full border-amber-200 bg-white text-[0.7rem] text-amber-900 hover:bg-amber-50 sm:w-auto"
+                                                                        onClick={() => void openAssignDialog(req)}
+                                                                    >
+                                                                        <UserPlus className="mr-1.5 h-3.5 w-3.5" />
+                                                                        Assign counselor
+                                                                    </Button>
+                                                                ) : null}
+
                                                                 <Button
                                                                     type="button"
                                                                     size="sm"
                                                                     variant="outline"
                                                                     className="h-8 w-full border-amber-200 bg-white text-[0.7rem] text-amber-900 hover:bg-amber-50 sm:w-auto"
                                                                     onClick={() => openScheduleDialog(req)}
+                                                                    disabled={isClosedAppointmentStatus(reqStatus)}
                                                                 >
                                                                     <Pencil className="mr-1.5 h-3.5 w-3.5" />
-                                                                    {reqStatus === "scheduled" ? "Reschedule" : "Schedule"}
+                                                                    {isActiveAppointmentStatus(reqStatus) ? "Reschedule" : "Schedule"}
                                                                 </Button>
 
+                                                                {req.scheduled_date && req.scheduled_time ? (
+                                                                    <Button
+                                                                        type="button"
+                                                                        size="sm"
+                                                                        variant="outline"
+                                                                        className="h-8 w-full border-amber-200 bg-white text-[0.7rem] text-amber-900 hover:bg-amber-50 sm:w-auto"
+                                                                        onClick={() => downloadIcs(req)}
+                                                                    >
+                                                                        <CalendarPlus className="mr-1.5 h-3.5 w-3.5" />
+                                                                        Add to calendar
+                                                                    </Button>
+                                                                ) : null}
+
                                                                 <Button
                                                                     type="button"
                                                                     size="sm"
@@ -1203,18 +1619,26 @@ const CounselorAppointments: React.FC = () => {
 
                                 <div className="space-y-1.5">
                                     <p className="text-[0.7rem] font-medium text-foreground">Final time</p>
-                                    <Select value={editTime} onValueChange={setEditTime} disabled={isSaving}>
+                                    <Select
+                                        value={editTime}
+                                        onValueChange={setEditTime}
+                                        disabled={isSaving || !editDate || isLoadingTimes}
+                                    >
                                         <SelectTrigger className="h-9 w-full text-left text-[0.75rem]">
-                                            <SelectValue placeholder="Select time" />
+                                            <SelectValue placeholder={isLoadingTimes ? "Loading…" : "Select time"} />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            {TIME_OPTIONS.map((slot) => (
-                                                <SelectItem key={slot.value} value={slot.value}>
-                                                    {slot.label}
+                                            {timeOptions.map((value) => (
+                                                <SelectItem key={value} value={value}>
+                                                    {formatTimeLabel(value)}
+                                                    {openTimes.includes(value) ? "" : " (outside open slots)"}
                                                 </SelectItem>
                                             ))}
                                         </SelectContent>
                                     </Select>
+                                    {editDate && !isLoadingTimes && openTimes.length === 0 ? (
+                                        <p className="text-[0.7rem] text-muted-foreground">No open slots on this day.</p>
+                                    ) : null}
                                 </div>
                             </div>
                         </div>
@@ -1366,10 +1790,10 @@ const CounselorAppointments: React.FC = () => {
                                                     <TableCell>
                                                         <Badge
                                                             className={`w-fit rounded-full border px-2 py-0.5 text-[0.65rem] ${statusClassName(
-                                                                r?.status ?? "pending",
+                                                                r?.status,
                                                             )}`}
                                                         >
-                                                            {String(r?.status ?? "pending")}
+                                                            {formatAppointmentStatus(r?.status)}
                                                         </Badge>
                                                     </TableCell>
                                                     <TableCell className="text-[0.75rem] text-muted-foreground">
@@ -1404,6 +1828,221 @@ const CounselorAppointments: React.FC = () => {
                 </DialogContent>
             </Dialog>
 
+            {/* ✅ Change Request Decision Dialog */}
+            <Dialog
+                open={changeDecision != null}
+                onOpenChange={(open) => {
+                    if (!open && !isDecidingChange) setChangeDecision(null)
+                }}
+            >
+                <DialogContent className="max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {changeDecision?.decision === "accept" ? "Accept request" : "Decline request"}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {changeDecision
+                                ? changeDecision.request.type === "reschedule"
+                                    ? `${getStudentDisplayName(changeDecision.req)} asks to move the session to ${formatDate(
+                                          changeDecision.request.proposed_date,
+                                      )} · ${changeDecision.request.proposed_time ?? "—"}.`
+                                    : `${getStudentDisplayName(changeDecision.req)} asks to cancel the session.`
+                                : ""}
+                            {changeDecision?.decision === "accept"
+                                ? " The appointment is updated right away and the student is notified."
+                                : " The appointment stays as scheduled and the student is notified."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-1.5 text-xs">
+                        <div className="text-muted-foreground">
+                            <span className="font-medium text-foreground">Student's reason:</span>{" "}
+                            {changeDecision?.request.reason}
+                        </div>
+                        <Input
+                            value={changeNote}
+                            onChange={(e) => setChangeNote(e.target.value)}
+                            placeholder={
+                                changeDecision?.decision === "decline"
+                                    ? "Note to the student (recommended)"
+                                    : "Note to the student (optional)"
+                            }
+                            className="h-9 text-xs"
+                            disabled={isDecidingChange}
+                        />
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setChangeDecision(null)}
+                            disabled={isDecidingChange}
+                        >
+                            Close
+                        </Button>
+                        <Button type="button" onClick={() => void confirmDecideChange()} disabled={isDecidingChange}>
+                            {isDecidingChange ? <Loader2 className="mr-1.5 h-4 w-4 animate-spin" /> : null}
+                            {changeDecision?.decision === "accept" ? "Accept" : "Decline"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* ✅ Assign Counselor Dialog */}
+            <Dialog open={assignTarget != null} onOpenChange={(open) => !open && assigningCounselorId == null && setAssignTarget(null)}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Assign counselor</DialogTitle>
+                        <DialogDescription>
+                            {assignTarget
+                                ? `${getStudentDisplayName(assignTarget)} · ${formatConcernType(assignTarget.concern_type ?? undefined)}. Counselors are ranked by current case load and specialization.`
+                                : "Counselors are ranked by current case load and specialization."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {suggestionsLoading ? (
+                        <div className="flex items-center gap-2 py-4 text-xs text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading counselors…
+                        </div>
+                    ) : suggestions.length === 0 ? (
+                        <div className="rounded-md border border-dashed p-4 text-center text-xs text-muted-foreground">
+                            No counselors available.
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {suggestions.map((s, index) => (
+                                <div
+                                    key={s.counselor_id}
+                                    className={`flex items-center justify-between gap-3 rounded-md border px-3 py-2 ${
+                                        index === 0 ? "border-amber-300 bg-amber-50" : "bg-white"
+                                    }`}
+                                >
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-1.5 text-[0.8rem] font-semibold text-amber-900">
+                                            {s.counselor_name}
+                                            {index === 0 ? (
+                                                <Badge className="rounded-full border border-amber-300 bg-white px-2 py-0 text-[0.6rem] text-amber-800">
+                                                    Suggested
+                                                </Badge>
+                                            ) : null}
+                                        </div>
+                                        <div className="text-[0.7rem] text-muted-foreground">
+                                            {s.reason} · {s.upcoming_appointments} upcoming
+                                        </div>
+                                    </div>
+                                    <Button
+                                        type="button"
+                                        size="sm"
+                                        variant={index === 0 ? "default" : "outline"}
+                                        className="h-8 shrink-0 text-[0.7rem]"
+                                        onClick={() => void handleAssign(s)}
+                                        disabled={assigningCounselorId != null}
+                                    >
+                                        {assigningCounselorId === s.counselor_id ? (
+                                            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                                        ) : null}
+                                        Assign
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+
+            {/* ✅ Session Notes Dialog */}
+            <Dialog open={notesTarget != null} onOpenChange={(open) => !open && setNotesTarget(null)}>
+                <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Session notes</DialogTitle>
+                        <DialogDescription>
+                            {notesTarget
+                                ? `Confidential SOAP / DAP documentation of the session with ${getStudentDisplayName(notesTarget)}.`
+                                : "SOAP / DAP documentation of this appointment."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {notesTarget ? <SessionNotesPanel subjectType="appointment" subjectId={notesTarget.id} /> : null}
+                </DialogContent>
+            </Dialog>
+
+            {/* ✅ Status History Dialog */}
+            <Dialog open={statusHistoryOpen} onOpenChange={setStatusHistoryOpen}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Status history</DialogTitle>
+                        <DialogDescription>
+                            {statusHistoryTarget
+                                ? `Every status change of ${getStudentDisplayName(statusHistoryTarget)}'s request, oldest first.`
+                                : "Every status change of this request, oldest first."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {statusHistoryLoading ? (
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading history…
+                        </div>
+                    ) : statusHistory.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No status changes recorded yet.</p>
+                    ) : (
+                        <ol className="max-h-96 space-y-3 overflow-y-auto border-l border-amber-200 pl-4">
+                            {statusHistory.map((change) => (
+                                <li key={change.id} className="space-y-1 text-xs">
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                        {change.from_status ? (
+                                            <>
+                                                <Badge
+                                                    className={`rounded-full border px-2 py-0.5 text-[0.65rem] ${statusClassName(
+                                                        change.from_status,
+                                                    )}`}
+                                                >
+                                                    {APPOINTMENT_STATUS_LABELS[change.from_status]}
+                                                </Badge>
+                                                <span className="text-muted-foreground">→</span>
+                                            </>
+                                        ) : null}
+                                        <Badge
+                                            className={`rounded-full border px-2 py-0.5 text-[0.65rem] ${statusClassName(
+                                                change.to_status,
+                                            )}`}
+                                        >
+                                            {APPOINTMENT_STATUS_LABELS[change.to_status]}
+                                        </Badge>
+                                    </div>
+                                    <div className="text-[0.7rem] text-muted-foreground">
+                                        {formatDateTime(change.changed_at)} · by{" "}
+                                        <span className="font-medium text-foreground">
+                                            {change.changed_by_name ?? "System"}
+                                        </span>
+                                        {change.changed_by_role ? ` (${change.changed_by_role})` : ""}
+                                    </div>
+                                    {change.scheduled_date && change.to_status !== "cancelled" ? (
+                                        <div className="text-[0.7rem] text-muted-foreground">
+                                            Schedule: {formatDate(change.scheduled_date)}
+                                            {change.scheduled_time ? ` · ${change.scheduled_time}` : ""}
+                                        </div>
+                                    ) : null}
+                                    {change.reason ? (
+                                        <div className="text-[0.7rem] text-slate-700">
+                                            <span className="font-medium">Reason:</span> {change.reason}
+                                        </div>
+                                    ) : null}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setStatusHistoryOpen(false)}>
+                            Close
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
             {/* ✅ Delete confirmation */}
             <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
                 <AlertDialogContent className="sm:max-w-lg">
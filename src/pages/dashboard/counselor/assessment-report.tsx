@@ -8,6 +8,8 @@ import { toast } from "sonner";
 import DashboardLayout from "@/components/DashboardLayout";
 import { fetchCounselorAssessments, type CounselorAssessmentRecord } from "@/lib/intake";
 import { fetchCounselorManualScores, type ManualScoreRecord } from "@/lib/manual-scores";
+import { scorePhq9 } from "@/lib/phq9";
+import { SCREENING_INSTRUMENTS, findScreeningResponses, scoreScreening } from "@/lib/instruments";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -19,15 +21,6 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
-type Freq =
-    | "not_at_all"
-    | "several_days"
-    | "more_than_half"
-    | "nearly_every_day"
-    | null
-    | undefined
-    | string;
-
 function safeLower(s: unknown) {
     return String(s ?? "").toLowerCase();
 }
@@ -41,39 +34,6 @@ function fmtDate(iso?: string | null): string {
     }
 }
 
-function freqToPoints(v: Freq): number {
-    const x = String(v ?? "");
-    if (x === "not_at_all") return 0;
-    if (x === "several_days") return 1;
-    if (x === "more_than_half") return 2;
-    if (x === "nearly_every_day") return 3;
-    return 0;
-}
-
-function computePhq9(a: any): { score: number; severity: string } {
-    const keys = [
-        "mh_little_interest",
-        "mh_feeling_down",
-        "mh_sleep",
-        "mh_energy",
-        "mh_appetite",
-        "mh_self_esteem",
-        "mh_concentration",
-        "mh_motor",
-        "mh_self_harm",
-    ];
-
-    const score = keys.reduce((sum, k) => sum + freqToPoints(a?.[k]), 0);
-
-    let severity = "Minimal";
-    if (score >= 5 && score <= 9) severity = "Mild";
-    else if (score >= 10 && score <= 14) severity = "Moderate";
-    else if (score >= 15 && score <= 19) severity = "Moderately severe";
-    else if (score >= 20) severity = "Severe";
-
-    return { score, severity };
-}
-
 export default function CounselorAssessmentReportPage() {
     const navigate = useNavigate();
 
@@ -188,7 +148,7 @@ export default function CounselorAssessmentReportPage() {
                     <Card>
                         <CardHeader className="space-y-1">
                             <CardTitle>Intake Assessments</CardTitle>
-                            <CardDescription>Latest intake assessment submissions (PHQ-9 computed in UI).</CardDescription>
+                            <CardDescription>Latest intake assessment submissions (PHQ-9 and additional screenings computed in UI).</CardDescription>
                         </CardHeader>
 
                         <CardContent className="space-y-3">
@@ -220,6 +180,9 @@ export default function CounselorAssessmentReportPage() {
                                                     <TableHead>Student</TableHead>
                                                     <TableHead className="text-right">PHQ-9</TableHead>
                                                     <TableHead>Severity</TableHead>
+                                                    {SCREENING_INSTRUMENTS.map((instrument) => (
+                                                        <TableHead key={instrument.id}>{instrument.shortName}</TableHead>
+                                                    ))}
                                                 </TableRow>
                                             </TableHeader>
 
@@ -227,13 +190,24 @@ export default function CounselorAssessmentReportPage() {
                                                 {filteredAssessments.map((r: any) => {
                                                     const created = r?.created_at ?? r?.updated_at ?? null;
                                                     const studentName = r?.user?.name ?? r?.student_name ?? "—";
-                                                    const phq = computePhq9(r);
+                                                    const phq = scorePhq9(r);
 
                                                     return (
                                                         <TableRow key={String(r?.id ?? `${r?.user_id}-${created}`)}>
                                                             <TableCell className="font-mono text-xs">{fmtDate(created)}</TableCell>
                                                             <TableCell className="max-w-56 truncate">
-                                                                <div className="font-medium text-foreground">{String(studentName)}</div>
+                                                                {r?.user_id != null ? (
+                                                                    <button
+                                                                        type="button"
+                                                                        className="font-medium text-foreground hover:underline"
+                                                                        title="View assessment trend"
+                                                                        onClick={() => navigate(`/dashboard/counselor/students/${r.user_id}/trend`)}
+                                                                    >
+                                                                        {String(studentName)}
+                                                                    </button>
+                                                                ) : (
+                                                                    <div className="font-medium text-foreground">{String(studentName)}</div>
+                                                                )}
                                                                 <div className="text-xs text-muted-foreground">
                                                                     {String(r?.user?.email ?? "—")}
                                                                 </div>
@@ -242,6 +216,26 @@ export default function CounselorAssessmentReportPage() {
                                                             <TableCell>
                                                                 <Badge variant="secondary">{phq.severity}</Badge>
                                                             </TableCell>
+                                                            {SCREENING_INSTRUMENTS.map((instrument) => {
+                                                                const responses = findScreeningResponses(r, instrument.id);
+                                                                if (!responses) {
+                                                                    return (
+                                                                        <TableCell key={instrument.id} className="text-xs text-muted-foreground">
+                                                                            Not administered
+                                                                        </TableCell>
+                                                                    );
+                                                                }
+
+                                                                const result = scoreScreening(instrument, responses);
+                                                                return (
+                                                                    <TableCell key={instrument.id} className="whitespace-nowrap">
+                                                                        <span className="mr-2 font-medium">
+                                                                            {result.score}/{result.maxScore}
+                                                                        </span>
+                                                                        <Badge variant="outline">{result.severity}</Badge>
+                                                                    </TableCell>
+                                                                );
+                                                            })}
                                                         </TableRow>
                                                     );
                                                 })}
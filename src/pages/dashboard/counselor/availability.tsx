@@ -0,0 +1,476 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, CalendarOff, Loader2, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import {
+    AVAILABILITY_BLOCK_KIND_LABELS,
+    SLOT_MINUTE_OPTIONS,
+    WEEKDAY_LABELS,
+    addAvailabilityBlock,
+    fetchCounselorAvailability,
+    formatTimeLabel,
+    removeAvailabilityBlock,
+    saveWeeklyAvailability,
+    timeToMinutes,
+    toHHmm,
+    type AvailabilityBlock,
+    type AvailabilityBlockKind,
+} from "@/lib/availability";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type WindowDraft = {
+    key: string;
+    weekday: number;
+    start_time: string;
+    end_time: string;
+};
+
+let draftKey = 0;
+
+function newWindow(weekday = 1, start_time = "08:00", end_time = "12:00"): WindowDraft {
+    draftKey += 1;
+    return { key: `w-${draftKey}`, weekday, start_time, end_time };
+}
+
+function fmtDate(value: string): string {
+    try {
+        return format(parseISO(value), "EEE, MMM d, yyyy");
+    } catch {
+        return value;
+    }
+}
+
+function blockTimeLabel(block: AvailabilityBlock): string {
+    if (!block.start_time || !block.end_time) return "Whole day";
+    return `${formatTimeLabel(block.start_time)} – ${formatTimeLabel(block.end_time)}`;
+}
+
+/**
+ * Client-side check mirroring the backend rules, so obvious mistakes are caught before saving.
+ */
+function validateWindows(windows: WindowDraft[], slotMinutes: number): string | null {
+    for (const w of windows) {
+        const start = timeToMinutes(w.start_time);
+        const end = timeToMinutes(w.end_time);
+        if (start == null || end == null) return `${WEEKDAY_LABELS[w.weekday]}: enter a start and end time.`;
+        if (end - start < slotMinutes) {
+            return `${WEEKDAY_LABELS[w.weekday]}: each window must fit at least one ${slotMinutes}-minute slot.`;
+        }
+        const clash = windows.some((other) => {
+            if (other === w || other.weekday !== w.weekday) return false;
+            const oStart = timeToMinutes(other.start_time) ?? 0;
+            const oEnd = timeToMinutes(other.end_time) ?? 0;
+            return start < oEnd && oStart < end;
+        });
+        if (clash) return `${WEEKDAY_LABELS[w.weekday]}: windows on the same day must not overlap.`;
+    }
+    return null;
+}
+
+const CounselorAvailability: React.FC = () => {
+    const [loading, setLoading] = React.useState(true);
+    const [savingWeekly, setSavingWeekly] = React.useState(false);
+    const [addingBlock, setAddingBlock] = React.useState(false);
+    const [removingId, setRemovingId] = React.useState<string | null>(null);
+
+    const [slotMinutes, setSlotMinutes] = React.useState(60);
+    const [windows, setWindows] = React.useState<WindowDraft[]>([]);
+    const [blocks, setBlocks] = React.useState<AvailabilityBlock[]>([]);
+
+    const [blockKind, setBlockKind] = React.useState<AvailabilityBlockKind>("blocked");
+    const [blockDate, setBlockDate] = React.useState("");
+    const [blockWholeDay, setBlockWholeDay] = React.useState(true);
+    const [blockStart, setBlockStart] = React.useState("13:00");
+    const [blockEnd, setBlockEnd] = React.useState("15:00");
+    const [blockReason, setBlockReason] = React.useState("");
+
+    const load = React.useCallback(async () => {
+        setLoading(true);
+        try {
+            const availability = await fetchCounselorAvailability();
+            setSlotMinutes(Number(availability.slot_minutes) || 60);
+            setWindows(
+                availability.rules.map((r) => newWindow(Number(r.weekday), toHHmm(r.start_time), toHHmm(r.end_time))),
+            );
+            setBlocks(availability.blocks);
+        } catch (err: any) {
+            toast.error(err?.message ?? "Failed to load availability.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void load();
+    }, [load]);
+
+    const sortedWindows = React.useMemo(
+        () =>
+            [...windows].sort(
+                (a, b) =>
+                    ((a.weekday + 6) % 7) - ((b.weekday + 6) % 7) ||
+                    (timeToMinutes(a.start_time) ?? 0) - (timeToMinutes(b.start_time) ?? 0),
+            ),
+        [windows],
+    );
+
+    const weeklySlotCount = React.useMemo(
+        () =>
+            windows.reduce((sum, w) => {
+                const span = (timeToMinutes(w.end_time) ?? 0) - (timeToMinutes(w.start_time) ?? 0);
+                return sum + Math.max(0, Math.floor(span / slotMinutes));
+            }, 0),
+        [windows, slotMinutes],
+    );
+
+    const updateWindow = (key: string, patch: Partial<WindowDraft>) => {
+        setWindows((prev) => prev.map((w) => (w.key === key ? { ...w, ...patch } : w)));
+    };
+
+    const handleSaveWeekly = async () => {
+        const problem = validateWindows(windows, slotMinutes);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        setSavingWeekly(true);
+        try {
+            const saved = await saveWeeklyAvailability({
+                slot_minutes: slotMinutes,
+                rules: windows.map((w) => ({ weekday: w.weekday, start_time: w.start_time, end_time: w.end_time })),
+            });
+            setWindows(saved.rules.map((r) => newWindow(Number(r.weekday), toHHmm(r.start_time), toHHmm(r.end_time))));
+            setSlotMinutes(Number(saved.slot_minutes) || slotMinutes);
+            toast.success("Weekly availability saved.");
+        } catch (err: any) {
+            toast.error(err?.message ?? "Failed to save weekly availability.");
+        } finally {
+            setSavingWeekly(false);
+        }
+    };
+
+    const handleAddBlock = async () => {
+        if (!blockDate) {
+            toast.error("Please pick a date.");
+            return;
+        }
+        if (!blockWholeDay && (timeToMinutes(blockEnd) ?? 0) <= (timeToMinutes(blockStart) ?? 0)) {
+            toast.error("The end time must be after the start time.");
+            return;
+        }
+
+        setAddingBlock(true);
+        try {
+            const block = await addAvailabilityBlock({
+                kind: blockKind,
+                date: blockDate,
+                start_time: blockWholeDay ? null : blockStart,
+                end_time: blockWholeDay ? null : blockEnd,
+                reason: blockReason.trim() || null,
+            });
+            setBlocks((prev) => [...prev, block].sort((a, b) => a.date.localeCompare(b.date)));
+            setBlockReason("");
+            toast.success(blockKind === "holiday" ? "Holiday added." : "Time blocked.");
+        } catch (err: any) {
+            toast.error(err?.message ?? "Failed to add the block.");
+        } finally {
+            setAddingBlock(false);
+        }
+    };
+
+    const handleRemoveBlock = async (block: AvailabilityBlock) => {
+        const id = String(block.id);
+        setRemovingId(id);
+        try {
+            await removeAvailabilityBlock(id);
+            setBlocks((prev) => prev.filter((b) => String(b.id) !== id));
+            toast.success("Block removed.");
+        } catch (err: any) {
+            toast.error(err?.message ?? "Failed to remove the block.");
+        } finally {
+            setRemovingId(null);
+        }
+    };
+
+    const todayStr = format(new Date(), "yyyy-MM-dd");
+    const upcomingBlocks = blocks.filter((b) => b.date >= todayStr);
+
+    return (
+        <DashboardLayout
+            title="Availability"
+            description="Publish your weekly counseling hours, holidays and blocked times. Students can only book open slots."
+        >
+            <div className="space-y-4">
+                <div className="flex justify-end">
+                    <Button variant="outline" className="gap-2" disabled={loading} onClick={() => void load()}>
+                        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                        Refresh
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarClock className="h-5 w-5" />
+                            Weekly hours
+                        </CardTitle>
+                        <CardDescription>
+                            Repeats every week. {weeklySlotCount} bookable slot{weeklySlotCount === 1 ? "" : "s"} per week.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {loading ? (
+                            <div className="space-y-2">
+                                <Skeleton className="h-9 w-full" />
+                                <Skeleton className="h-9 w-full" />
+                                <Skeleton className="h-9 w-full" />
+                            </div>
+                        ) : (
+                            <>
+                                <div className="max-w-xs space-y-1">
+                                    <Label>Slot length</Label>
+                                    <Select value={String(slotMinutes)} onValueChange={(v) => setSlotMinutes(Number(v))}>
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Slot length" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {SLOT_MINUTE_OPTIONS.map((m) => (
+                                                <SelectItem key={m} value={String(m)}>
+                                                    {m} minutes
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+
+                                {sortedWindows.length === 0 ? (
+                                    <div className="rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+                                        No weekly hours yet. Students cannot book you until you add at least one window.
+                                    </div>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {sortedWindows.map((w) => (
+                                            <div key={w.key} className="grid gap-2 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end">
+                                                <div className="space-y-1">
+                                                    <Label className="text-xs text-muted-foreground">Day</Label>
+                                                    <Select
+                                                        value={String(w.weekday)}
+                                                        onValueChange={(v) => updateWindow(w.key, { weekday: Number(v) })}
+                                                    >
+                                                        <SelectTrigger>
+                                                            <SelectValue placeholder="Day" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {WEEKDAY_LABELS.map((label, idx) => (
+                                                                <SelectItem key={label} value={String(idx)}>
+                                                                    {label}
+                                                                </SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <Label className="text-xs text-muted-foreground">From</Label>
+                                                    <Input
+                                                        type="time"
+                                                        value={w.start_time}
+                                                        onChange={(e) => updateWindow(w.key, { start_time: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <Label className="text-xs text-muted-foreground">To</Label>
+                                                    <Input
+                                                        type="time"
+                                                        value={w.end_time}
+                                                        onChange={(e) => updateWindow(w.key, { end_time: e.target.value })}
+                                                    />
+                                                </div>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    aria-label="Remove window"
+                                                    onClick={() => setWindows((prev) => prev.filter((x) => x.key !== w.key))}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="flex flex-col gap-2 sm:flex-row sm:justify-between">
+                                    <Button
+                                        variant="outline"
+                                        className="gap-2"
+                                        onClick={() => setWindows((prev) => [...prev, newWindow()])}
+                                    >
+                                        <Plus className="h-4 w-4" />
+                                        Add window
+                                    </Button>
+                                    <Button className="gap-2" disabled={savingWeekly} onClick={() => void handleSaveWeekly()}>
+                                        {savingWeekly ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                        Save weekly hours
+                                    </Button>
+                                </div>
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarOff className="h-5 w-5" />
+                            Holidays &amp; blocked times
+                        </CardTitle>
+                        <CardDescription>
+                            Holidays close the office for every counselor. Blocked times only affect your own schedule.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-3 rounded-md border p-3 sm:grid-cols-2 lg:grid-cols-3">
+                            <div className="space-y-1">
+                                <Label>Type</Label>
+                                <Select value={blockKind} onValueChange={(v) => setBlockKind(v as AvailabilityBlockKind)}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Type" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(AVAILABILITY_BLOCK_KIND_LABELS) as AvailabilityBlockKind[]).map((kind) => (
+                                            <SelectItem key={kind} value={kind}>
+                                                {AVAILABILITY_BLOCK_KIND_LABELS[kind]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="block_date">Date</Label>
+                                <Input
+                                    id="block_date"
+                                    type="date"
+                                    min={todayStr}
+                                    value={blockDate}
+                                    onChange={(e) => setBlockDate(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label>Duration</Label>
+                                <Select
+                                    value={blockWholeDay ? "day" : "range"}
+                                    onValueChange={(v) => setBlockWholeDay(v === "day")}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Duration" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="day">Whole day</SelectItem>
+                                        <SelectItem value="range">Specific hours</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {!blockWholeDay ? (
+                                <>
+                                    <div className="space-y-1">
+                                        <Label htmlFor="block_start">From</Label>
+                                        <Input
+                                            id="block_start"
+                                            type="time"
+                                            value={blockStart}
+                                            onChange={(e) => setBlockStart(e.target.value)}
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label htmlFor="block_end">To</Label>
+                                        <Input
+                                            id="block_end"
+                                            type="time"
+                                            value={blockEnd}
+                                            onChange={(e) => setBlockEnd(e.target.value)}
+                                        />
+                                    </div>
+                                </>
+                            ) : null}
+                            <div className="space-y-1 sm:col-span-2 lg:col-span-3">
+                                <Label htmlFor="block_reason">Reason (optional)</Label>
+                                <Input
+                                    id="block_reason"
+                                    placeholder="e.g. Faculty meeting"
+                                    value={blockReason}
+                                    onChange={(e) => setBlockReason(e.target.value)}
+                                />
+                            </div>
+                            <div className="sm:col-span-2 lg:col-span-3">
+                                <Button className="gap-2" disabled={addingBlock} onClick={() => void handleAddBlock()}>
+                                    {addingBlock ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                                    Add
+                                </Button>
+                            </div>
+                        </div>
+
+                        {loading ? (
+                            <Skeleton className="h-24 w-full" />
+                        ) : upcomingBlocks.length === 0 ? (
+                            <div className="text-sm text-muted-foreground">No upcoming holidays or blocked times.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Type</TableHead>
+                                        <TableHead>Time</TableHead>
+                                        <TableHead>Reason</TableHead>
+                                        <TableHead className="w-12" />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {upcomingBlocks.map((block) => (
+                                        <TableRow key={String(block.id)}>
+                                            <TableCell className="whitespace-nowrap">{fmtDate(block.date)}</TableCell>
+                                            <TableCell>
+                                                <Badge variant={block.kind === "holiday" ? "secondary" : "outline"}>
+                                                    {block.kind === "holiday" ? "Holiday" : "Blocked"}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="whitespace-nowrap">{blockTimeLabel(block)}</TableCell>
+                                            <TableCell className="text-muted-foreground">{block.reason || "—"}</TableCell>
+                                            <TableCell>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    aria-label="Remove"
+                                                    disabled={removingId === String(block.id)}
+                                                    onClick={() => void handleRemoveBlock(block)}
+                                                >
+                                                    {removingId === String(block.id) ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                    ) : (
+                                                        <Trash2 className="h-4 w-4" />
+                                                    )}
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </DashboardLayout>
+    );
+};
+
+export default CounselorAvailability;
@@ -0,0 +1,702 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React from "react";
+import { Link } from "react-router-dom";
+import {
+    addDays,
+    addMonths,
+    addWeeks,
+    eachDayOfInterval,
+    endOfWeek,
+    format,
+    isSameDay,
+    isToday,
+    parseISO,
+    startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, GripVertical, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import type { DayProps } from "react-day-picker";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import { describeScheduleConflict, formatTimeLabel } from "@/lib/availability";
+import {
+    fetchCalendarEvents,
+    rescheduleCalendarEvent,
+    type CalendarEvent,
+    type CalendarEventSource,
+    type CalendarUrgency,
+} from "@/lib/calendar";
+import { cn } from "@/lib/utils";
+
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+type CalendarView = "day" | "week" | "month";
+type SourceFilter = "all" | CalendarEventSource;
+
+/** Working hours shown in the day / week grid; events outside still widen it. */
+const DEFAULT_FIRST_HOUR = 8;
+const DEFAULT_LAST_HOUR = 17;
+const HOUR_ROW_HEIGHT = 56;
+const MONTH_MAX_VISIBLE = 3;
+
+const DRAG_MIME = "text/plain";
+
+const URGENCY_BORDER: Record<CalendarUrgency, string> = {
+    high: "border-l-red-500",
+    medium: "border-l-amber-500",
+    low: "border-l-emerald-500",
+    unknown: "border-l-slate-400",
+};
+
+const URGENCY_DOT: Record<CalendarUrgency, string> = {
+    high: "bg-red-500",
+    medium: "bg-amber-500",
+    low: "bg-emerald-500",
+    unknown: "bg-slate-400",
+};
+
+const URGENCY_LABELS: Record<CalendarUrgency, string> = {
+    high: "Urgent",
+    medium: "Soon",
+    low: "Not urgent",
+    unknown: "Unspecified",
+};
+
+function statusClass(status: string): string {
+    switch (status) {
+        case "scheduled":
+        case "rescheduled":
+        case "handled":
+            return "bg-sky-50 text-sky-900";
+        case "completed":
+            return "bg-slate-100 text-slate-500";
+        case "cancelled":
+        case "no_show":
+        case "closed":
+            return "bg-slate-50 text-slate-400 line-through";
+        default:
+            return "bg-amber-50 text-amber-900";
+    }
+}
+
+const STATUS_LEGEND: Array<{ label: string; status: string }> = [
+    { label: "Requested / pending", status: "requested" },
+    { label: "Scheduled / handled", status: "scheduled" },
+    { label: "Completed", status: "completed" },
+    { label: "Cancelled / no-show / closed", status: "cancelled" },
+];
+
+function dayKey(d: Date): string {
+    return format(d, "yyyy-MM-dd");
+}
+
+function rangeFor(view: CalendarView, cursor: Date): Date[] {
+    if (view === "day") return [cursor];
+    if (view === "week") {
+        return eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+    }
+    return [];
+}
+
+function rangeLabel(view: CalendarView, cursor: Date): string {
+    if (view === "day") return format(cursor, "EEEE, MMMM d, yyyy");
+    if (view === "week") {
+        const start = startOfWeek(cursor);
+        const end = endOfWeek(cursor);
+        return start.getMonth() === end.getMonth()
+            ? `${format(start, "MMM d")} – ${format(end, "d, yyyy")}`
+            : `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`;
+    }
+    return format(cursor, "MMMM yyyy");
+}
+
+function shift(view: CalendarView, cursor: Date, step: number): Date {
+    if (view === "day") return addDays(cursor, step);
+    if (view === "week") return addWeeks(cursor, step);
+    return addMonths(cursor, step);
+}
+
+function eventTooltip(event: CalendarEvent): string {
+    return [
+        event.title,
+        event.source === "referral" ? "Referral session" : event.tentative ? "Preferred (not final)" : "Appointment",
+        event.time ? formatTimeLabel(event.time) : "No time set",
+        `Urgency: ${URGENCY_LABELS[event.urgency]}`,
+        `Status: ${event.status.replace(/_/g, " ")}`,
+    ].join("\n");
+}
+
+type EventChipProps = {
+    event: CalendarEvent;
+    compact?: boolean;
+    saving?: boolean;
+    onOpen: (event: CalendarEvent) => void;
+    onDragStart: (event: CalendarEvent, e: React.DragEvent) => void;
+    onDragEnd: () => void;
+};
+
+function EventChip({ event, compact, saving, onOpen, onDragStart, onDragEnd }: EventChipProps) {
+    return (
+        <div
+            role="button"
+            tabIndex={0}
+            title={eventTooltip(event)}
+            draggable={event.movable && !saving}
+            onDragStart={(e) => onDragStart(event, e)}
+            onDragEnd={onDragEnd}
+            onClick={(e) => {
+                e.stopPropagation();
+                onOpen(event);
+            }}
+            onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                    e.preventDefault();
+                    onOpen(event);
+                }
+            }}
+            className={cn(
+                "flex w-full items-center gap-1 truncate rounded border border-l-4 px-1.5 py-0.5 text-left text-[0.7rem] leading-tight",
+                URGENCY_BORDER[event.urgency],
+                statusClass(event.status),
+                event.tentative && "border-dashed",
+                event.movable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+                saving && "opacity-60",
+            )}
+        >
+            {saving ? <Loader2 className="h-3 w-3 shrink-0 animate-spin" /> : null}
+            {!compact && event.movable && !saving ? (
+                <GripVertical className="h-3 w-3 shrink-0 text-muted-foreground" />
+            ) : null}
+            {event.time ? <span className="shrink-0 font-semibold tabular-nums">{formatTimeLabel(event.time)}</span> : null}
+            <span className="truncate">{event.title}</span>
+            {event.source === "referral" ? (
+                <span className="ml-auto shrink-0 rounded bg-violet-100 px-1 text-[0.6rem] font-semibold text-violet-800">
+                    REF
+                </span>
+            ) : null}
+        </div>
+    );
+}
+
+type DropTargetProps = {
+    onDragOver: (e: React.DragEvent) => void;
+    onDragLeave: () => void;
+    onDrop: (e: React.DragEvent) => void;
+};
+
+type MonthCellContextValue = {
+    eventsByDay: Map<string, CalendarEvent[]>;
+    dropTarget: string | null;
+    renderChip: (event: CalendarEvent, compact?: boolean) => React.ReactNode;
+    dropProps: (targetKey: string, target: { date: string; time?: string | null }) => DropTargetProps;
+    openDay: (date: Date) => void;
+};
+
+const MonthCellContext = React.createContext<MonthCellContextValue | null>(null);
+
+/**
+ * Month cell: react-day-picker renders the grid, each cell lists its events and
+ * accepts drops (the session keeps its time). Module-level so cells are not
+ * remounted while a drag is in progress.
+ */
+function MonthDay({ day, modifiers, className, children, ...props }: DayProps) {
+    const ctx = React.useContext(MonthCellContext);
+    if (!ctx) return <td {...props} className={className}>{children}</td>;
+
+    const key = dayKey(day.date);
+    const dayEvents = ctx.eventsByDay.get(key) ?? [];
+    const extra = dayEvents.length - MONTH_MAX_VISIBLE;
+    const targetKey = `month-${key}`;
+
+    return (
+        <td
+            {...props}
+            className={cn(
+                className,
+                "align-top",
+                modifiers.outside && "bg-muted/30",
+                ctx.dropTarget === targetKey && "bg-primary/10 ring-2 ring-primary/40 ring-inset",
+            )}
+            {...ctx.dropProps(targetKey, { date: key })}
+        >
+            <div className="flex items-center justify-end">{children}</div>
+            <div className="space-y-0.5 px-1 pb-1">
+                {dayEvents.slice(0, MONTH_MAX_VISIBLE).map((e) => ctx.renderChip(e, true))}
+                {extra > 0 ? (
+                    <button
+                        type="button"
+                        className="w-full text-left text-[0.65rem] font-medium text-muted-foreground hover:underline"
+                        onClick={() => ctx.openDay(day.date)}
+                    >
+                        +{extra} more
+                    </button>
+                ) : null}
+            </div>
+        </td>
+    );
+}
+
+export default function CounselorCalendarPage() {
+    const [view, setView] = React.useState<CalendarView>("week");
+    const [cursor, setCursor] = React.useState<Date>(() => new Date());
+    const [sourceFilter, setSourceFilter] = React.useState<SourceFilter>("all");
+
+    const [events, setEvents] = React.useState<CalendarEvent[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [savingKey, setSavingKey] = React.useState<string | null>(null);
+    const [draggingKey, setDraggingKey] = React.useState<string | null>(null);
+    const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+    const [selected, setSelected] = React.useState<CalendarEvent | null>(null);
+
+    const load = React.useCallback(async () => {
+        setLoading(true);
+        try {
+            setEvents(await fetchCalendarEvents());
+        } catch (err: any) {
+            toast.error(err?.message ?? "Failed to load the calendar.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void load();
+    }, [load]);
+
+    const visibleEvents = React.useMemo(
+        () => (sourceFilter === "all" ? events : events.filter((e) => e.source === sourceFilter)),
+        [events, sourceFilter],
+    );
+
+    const eventsByDay = React.useMemo(() => {
+        const map = new Map<string, CalendarEvent[]>();
+        visibleEvents.forEach((e) => {
+            const list = map.get(e.date) ?? [];
+            list.push(e);
+            map.set(e.date, list);
+        });
+        return map;
+    }, [visibleEvents]);
+
+    const eventDays = React.useMemo(
+        () => Array.from(eventsByDay.keys()).map((d) => parseISO(d)),
+        [eventsByDay],
+    );
+
+    const days = rangeFor(view, cursor);
+
+    let firstHour = DEFAULT_FIRST_HOUR;
+    let lastHour = DEFAULT_LAST_HOUR;
+    days.forEach((d) => {
+        (eventsByDay.get(dayKey(d)) ?? []).forEach((e) => {
+            if (e.minutes == null) return;
+            firstHour = Math.min(firstHour, Math.floor(e.minutes / 60));
+            lastHour = Math.max(lastHour, Math.floor(e.minutes / 60));
+        });
+    });
+    const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+
+    const handleDragStart = (event: CalendarEvent, e: React.DragEvent) => {
+        if (!event.movable) {
+            e.preventDefault();
+            return;
+        }
+        e.dataTransfer.setData(DRAG_MIME, event.key);
+        e.dataTransfer.effectAllowed = "move";
+        setDraggingKey(event.key);
+    };
+
+    const handleDragEnd = () => {
+        setDraggingKey(null);
+        setDropTarget(null);
+    };
+
+    const dropProps = (targetKey: string, target: { date: string; time?: string | null }): DropTargetProps => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!draggingKey) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+            if (dropTarget !== targetKey) setDropTarget(targetKey);
+        },
+        onDragLeave: () => {
+            if (dropTarget === targetKey) setDropTarget(null);
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            const key = e.dataTransfer.getData(DRAG_MIME) || draggingKey;
+            handleDragEnd();
+            const event = events.find((x) => x.key === key);
+            if (event) void moveEvent(event, target);
+        },
+    });
+
+    const moveEvent = async (event: CalendarEvent, target: { date: string; time?: string | null }) => {
+        const nextTime = target.time ?? event.time;
+        if (event.date === target.date && nextTime === event.time && !event.tentative) return;
+
+        if (!nextTime) {
+            toast.error("Drop this session on a time slot (day or week view) — it has no time yet.");
+            return;
+        }
+
+        const previous = event;
+        // optimistic move; reverted if the backend rejects it
+        setEvents((prev) =>
+            prev.map((x) => (x.key === event.key ? { ...x, date: target.date, time: nextTime, tentative: false } : x)),
+        );
+        setSavingKey(event.key);
+
+        try {
+            const updated = await rescheduleCalendarEvent(event, { date: target.date, time: nextTime });
+            setEvents((prev) => prev.map((x) => (x.key === event.key ? updated : x)));
+            toast.success(
+                `${event.title} moved to ${format(parseISO(target.date), "MMM d")} at ${formatTimeLabel(nextTime)}.`,
+            );
+        } catch (err: any) {
+            setEvents((prev) => prev.map((x) => (x.key === event.key ? previous : x)));
+            toast.error(describeScheduleConflict(err) ?? err?.message ?? "Failed to reschedule.");
+        } finally {
+            setSavingKey(null);
+        }
+    };
+
+    const chip = (event: CalendarEvent, compact?: boolean) => (
+        <EventChip
+            key={event.key}
+            event={event}
+            compact={compact}
+            saving={savingKey === event.key}
+            onOpen={setSelected}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+        />
+    );
+
+    const monthCell: MonthCellContextValue = {
+        eventsByDay,
+        dropTarget,
+        renderChip: chip,
+        dropProps,
+        openDay: (date) => {
+            setCursor(date);
+            setView("day");
+        },
+    };
+
+    const renderTimeGrid = () => {
+        const hasUntimed = days.some((d) => (eventsByDay.get(dayKey(d)) ?? []).some((e) => e.minutes == null));
+
+        return (
+            <div className="overflow-x-auto">
+                <div className={cn("min-w-[640px]", view === "day" && "min-w-0")}>
+                    <div
+                        className="grid border-b text-xs"
+                        style={{ gridTemplateColumns: `64px repeat(${days.length}, minmax(0, 1fr))` }}
+                    >
+                        <div />
+                        {days.map((d) => (
+                            <button
+                                key={dayKey(d)}
+                                type="button"
+                                className={cn(
+                                    "flex flex-col items-center gap-0.5 border-l py-2 hover:bg-muted/50",
+                                    isToday(d) && "text-primary",
+                                )}
+                                onClick={() => {
+                                    setCursor(d);
+                                    setView("day");
+                                }}
+                            >
+                                <span className="uppercase text-muted-foreground">{format(d, "EEE")}</span>
+                                <span className={cn("text-base font-semibold", isToday(d) && "rounded-full bg-primary px-2 text-primary-foreground")}>
+                                    {format(d, "d")}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+
+                    {hasUntimed ? (
+                        <div
+                            className="grid border-b bg-muted/20 text-xs"
+                            style={{ gridTemplateColumns: `64px repeat(${days.length}, minmax(0, 1fr))` }}
+                        >
+                            <div className="px-2 py-1 text-muted-foreground">No time</div>
+                            {days.map((d) => (
+                                <div key={dayKey(d)} className="space-y-0.5 border-l p-1">
+                                    {(eventsByDay.get(dayKey(d)) ?? []).filter((e) => e.minutes == null).map((e) => chip(e))}
+                                </div>
+                            ))}
+                        </div>
+                    ) : null}
+
+                    {hours.map((hour) => (
+                        <div
+                            key={hour}
+                            className="grid border-b text-xs"
+                            style={{ gridTemplateColumns: `64px repeat(${days.length}, minmax(0, 1fr))` }}
+                        >
+                            <div className="px-2 pt-1 text-right text-muted-foreground tabular-nums">
+                                {formatTimeLabel(`${String(hour).padStart(2, "0")}:00`)}
+                            </div>
+                            {days.map((d) => {
+                                const key = dayKey(d);
+                                const targetKey = `${key}-${hour}`;
+                                const cellEvents = (eventsByDay.get(key) ?? []).filter(
+                                    (e) => e.minutes != null && Math.floor(e.minutes / 60) === hour,
+                                );
+                                return (
+                                    <div
+                                        key={targetKey}
+                                        className={cn(
+                                            "space-y-0.5 border-l p-1",
+                                            dropTarget === targetKey && "bg-primary/10 ring-2 ring-primary/40 ring-inset",
+                                        )}
+                                        style={{ minHeight: HOUR_ROW_HEIGHT }}
+                                        {...dropProps(targetKey, {
+                                            date: key,
+                                            time: `${String(hour).padStart(2, "0")}:00`,
+                                        })}
+                                    >
+                                        {cellEvents.map((e) => chip(e))}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    const upcomingCount = React.useMemo(() => {
+        const today = dayKey(new Date());
+        return visibleEvents.filter((e) => e.date >= today && e.movable).length;
+    }, [visibleEvents]);
+
+    return (
+        <DashboardLayout
+            title="Calendar"
+            description="Intake appointments and referral sessions in one calendar. Drag a session to reschedule it."
+        >
+            <div className="space-y-4">
+                <Card>
+                    <CardHeader className="space-y-3">
+                        <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+                            <div className="space-y-1">
+                                <CardTitle>{rangeLabel(view, cursor)}</CardTitle>
+                                <CardDescription>
+                                    {loading ? "Loading sessions…" : `${upcomingCount} upcoming open session${upcomingCount === 1 ? "" : "s"}`}
+                                </CardDescription>
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-2">
+                                <div className="flex items-center gap-1">
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        aria-label="Previous"
+                                        onClick={() => setCursor((c) => shift(view, c, -1))}
+                                    >
+                                        <ChevronLeft className="h-4 w-4" />
+                                    </Button>
+                                    <Button variant="outline" onClick={() => setCursor(new Date())}>
+                                        Today
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        aria-label="Next"
+                                        onClick={() => setCursor((c) => shift(view, c, 1))}
+                                    >
+                                        <ChevronRight className="h-4 w-4" />
+                                    </Button>
+                                </div>
+
+                                <Tabs value={view} onValueChange={(v) => setView(v as CalendarView)}>
+                                    <TabsList>
+                                        <TabsTrigger value="day">Day</TabsTrigger>
+                                        <TabsTrigger value="week">Week</TabsTrigger>
+                                        <TabsTrigger value="month">Month</TabsTrigger>
+                                    </TabsList>
+                                </Tabs>
+
+                                <Select value={sourceFilter} onValueChange={(v) => setSourceFilter(v as SourceFilter)}>
+                                    <SelectTrigger className="h-9 w-[170px]">
+                                        <SelectValue placeholder="Show" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">All sessions</SelectItem>
+                                        <SelectItem value="appointment">Appointments</SelectItem>
+                                        <SelectItem value="referral">Referral sessions</SelectItem>
+                                    </SelectContent>
+                                </Select>
+
+                                <Button variant="outline" size="icon" aria-label="Refresh" disabled={loading} onClick={() => void load()}>
+                                    {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                                </Button>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[0.7rem] text-muted-foreground">
+                            {(Object.keys(URGENCY_LABELS) as CalendarUrgency[]).map((u) => (
+                                <span key={u} className="flex items-center gap-1">
+                                    <span className={cn("inline-block h-2.5 w-2.5 rounded-sm", URGENCY_DOT[u])} />
+                                    {URGENCY_LABELS[u]}
+                                </span>
+                            ))}
+                            <span className="hidden h-3 border-l sm:inline-block" />
+                            {STATUS_LEGEND.map((s) => (
+                                <span key={s.status} className={cn("rounded px-1.5", statusClass(s.status))}>
+                                    {s.label}
+                                </span>
+                            ))}
+                            <span className="rounded border border-dashed px-1.5">Preferred, not final</span>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent>
+                        {loading && events.length === 0 ? (
+                            <Skeleton className="h-[480px] w-full" />
+                        ) : view === "month" ? (
+                            <MonthCellContext.Provider value={monthCell}>
+                                <Calendar
+                                    mode="single"
+                                    month={cursor}
+                                    onMonthChange={setCursor}
+                                    selected={cursor}
+                                    onSelect={(d) => {
+                                        if (!d) return;
+                                        setCursor(d);
+                                        setView("day");
+                                    }}
+                                    hideNavigation
+                                    showOutsideDays
+                                    className="w-full p-0 [--cell-size:--spacing(7)]"
+                                    classNames={{
+                                        root: "w-full",
+                                        months: "w-full",
+                                        month: "flex w-full flex-col gap-2",
+                                        month_caption: "hidden",
+                                        weekdays: "grid grid-cols-7 border-b",
+                                        weekday: "py-1 text-center text-xs font-normal text-muted-foreground",
+                                        week: "grid grid-cols-7",
+                                        day: "min-h-[104px] border-b border-l p-0 last:border-r",
+                                    }}
+                                    components={{ Day: MonthDay }}
+                                />
+                            </MonthCellContext.Provider>
+                        ) : (
+                            <div className="grid gap-4 lg:grid-cols-[1fr_auto]">
+                                {renderTimeGrid()}
+                                <div className="hidden lg:block">
+                                    <Calendar
+                                        mode="single"
+                                        selected={cursor}
+                                        month={cursor}
+                                        onMonthChange={setCursor}
+                                        onSelect={(d) => d && setCursor(d)}
+                                        modifiers={{ hasEvents: eventDays }}
+                                        modifiersClassNames={{
+                                            hasEvents: "[&_button]:font-bold [&_button]:underline [&_button]:decoration-primary",
+                                        }}
+                                        className="rounded-md border"
+                                    />
+                                    <p className="mt-2 max-w-[250px] text-[0.7rem] text-muted-foreground">
+                                        Underlined days have sessions. Drop a session on an hour to move it there.
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+                <DialogContent className="sm:max-w-md">
+                    {selected ? (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle>{selected.title}</DialogTitle>
+                                <DialogDescription>
+                                    {selected.source === "referral" ? "Referral session" : "Intake appointment"}
+                                    {selected.tentative ? " (student's preferred schedule, not final yet)" : ""}
+                                </DialogDescription>
+                            </DialogHeader>
+
+                            <div className="grid gap-2 text-sm">
+                                <div className="flex justify-between gap-3">
+                                    <span className="text-muted-foreground">When</span>
+                                    <span className="font-medium">
+                                        {format(parseISO(selected.date), "EEE, MMM d, yyyy")}
+                                        {selected.time ? ` · ${formatTimeLabel(selected.time)}` : ""}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between gap-3">
+                                    <span className="text-muted-foreground">Concern</span>
+                                    <span className="font-medium">{selected.concern || "—"}</span>
+                                </div>
+                                <div className="flex justify-between gap-3">
+                                    <span className="text-muted-foreground">Urgency</span>
+                                    <span className="flex items-center gap-1 font-medium">
+                                        <span className={cn("inline-block h-2.5 w-2.5 rounded-sm", URGENCY_DOT[selected.urgency])} />
+                                        {URGENCY_LABELS[selected.urgency]}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between gap-3">
+                                    <span className="text-muted-foreground">Status</span>
+                                    <Badge variant="outline" className={cn("capitalize", statusClass(selected.status))}>
+                                        {selected.status.replace(/_/g, " ")}
+                                    </Badge>
+                                </div>
+                                {!selected.movable ? (
+                                    <p className="text-xs text-muted-foreground">
+                                        Finished and cancelled sessions cannot be moved.
+                                    </p>
+                                ) : null}
+                            </div>
+
+                            <DialogFooter>
+                                <Button asChild variant="outline">
+                                    <Link
+                                        to={
+                                            selected.source === "referral"
+                                                ? `/dashboard/counselor/referrals/${encodeURIComponent(String(selected.id))}`
+                                                : "/dashboard/counselor/appointments"
+                                        }
+                                    >
+                                        {selected.source === "referral" ? "Open referral" : "Open appointments"}
+                                    </Link>
+                                </Button>
+                                {isSameDay(parseISO(selected.date), cursor) && view === "day" ? null : (
+                                    <Button
+                                        onClick={() => {
+                                            setCursor(parseISO(selected.date));
+                                            setView("day");
+                                            setSelected(null);
+                                        }}
+                                    >
+                                        Show day
+                                    </Button>
+                                )}
+                            </DialogFooter>
+                        </>
+                    ) : null}
+                </DialogContent>
+            </Dialog>
+        </DashboardLayout>
+    );
+}
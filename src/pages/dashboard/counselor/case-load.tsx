@@ -1,11 +1,32 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React from "react"
 import { useNavigate } from "react-router-dom"
-import { Loader2, RefreshCcw, Users } from "lucide-react"
+import { ArchiveRestore, ArrowRightLeft, ClipboardList, FolderCheck, Loader2, RefreshCcw, Users } from "lucide-react"
 import { toast } from "sonner"
 
 import DashboardLayout from "@/components/DashboardLayout"
+import TreatmentPlanPanel from "@/components/treatment-plan-panel"
+import {
+    CASE_TERMINATION_REASONS,
+    CASE_TERMINATION_REASON_LABELS,
+    closeCase,
+    fetchCaseOutcome,
+    fetchCases,
+    fetchCounselorCaseloads,
+    latestClosure,
+    outcomeDirection,
+    reopenCase,
+    terminationReasonLabel,
+    transferCase,
+    type CaseOutcome,
+    type CaseTerminationReason,
+    type CounselorCaseload,
+    type OutcomeComparison,
+    type StudentCase,
+} from "@/lib/cases"
 import { fetchStudentsForManualScores, type CaseLoadStudent } from "@/lib/manual-scores"
+import { fetchTreatmentPlans, type TreatmentPlan } from "@/lib/treatment-plans"
+import { getCurrentSession } from "@/lib/authentication"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
@@ -16,6 +37,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 
 function initials(name?: string | null) {
     const n = (name ?? "").trim()
@@ -40,6 +65,49 @@ function getStudentDisplayName(s: CaseLoadStudent): string {
     return typeof name === "string" && name.trim() ? name.trim() : "Unknown Student"
 }
 
+const DIRECTION_LABELS = { improved: "Improved", worsened: "Worsened", unchanged: "No reliable change" } as const
+
+function OutcomeLine({
+    label,
+    comparison,
+    measure,
+}: {
+    label: string
+    comparison: OutcomeComparison | null
+    measure: "phq9" | "manual_score"
+}) {
+    if (!comparison) {
+        return (
+            <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">{label}</span>
+                <span className="text-xs text-muted-foreground">No scores on record</span>
+            </div>
+        )
+    }
+
+    const direction = outcomeDirection(comparison, measure)
+    const delta = comparison.last - comparison.first
+    const suffix = measure === "manual_score" ? "%" : ""
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-medium">{label}</span>
+            <span className="text-muted-foreground">
+                {comparison.first}
+                {suffix} ({comparison.first_label}, {new Date(comparison.first_date).toLocaleDateString()}) →{" "}
+                {comparison.last}
+                {suffix} ({comparison.last_label}, {new Date(comparison.last_date).toLocaleDateString()})
+                {comparison.count > 1 ? ` · ${delta > 0 ? "+" : ""}${delta}` : " · single score"}
+            </span>
+            {direction ? (
+                <Badge variant={direction === "worsened" ? "destructive" : direction === "improved" ? "default" : "secondary"}>
+                    {DIRECTION_LABELS[direction]}
+                </Badge>
+            ) : null}
+        </div>
+    )
+}
+
 export default function CounselorCaseLoadPage() {
     const navigate = useNavigate()
 
@@ -49,11 +117,59 @@ export default function CounselorCaseLoadPage() {
     const [query, setQuery] = React.useState("")
     const [error, setError] = React.useState<string | null>(null)
 
+    // Active plans by student id (the signed-in counselor's own plans)
+    const [plansByStudent, setPlansByStudent] = React.useState<Record<string, TreatmentPlan>>({})
+    const [planStudent, setPlanStudent] = React.useState<{ id: string; name: string } | null>(null)
+
+    // Open cases by student id (ownership + handoff history)
+    const [casesByStudent, setCasesByStudent] = React.useState<Record<string, StudentCase>>({})
+    const [transferTarget, setTransferTarget] = React.useState<{ studentCase: StudentCase; name: string } | null>(null)
+    const [caseloads, setCaseloads] = React.useState<CounselorCaseload[]>([])
+    const [transferTo, setTransferTo] = React.useState("")
+    const [handoffNote, setHandoffNote] = React.useState("")
+    const [transferring, setTransferring] = React.useState(false)
+
+    // Closing a case (reason, summary and the PHQ-9 / manual score comparison)
+    const [closeTarget, setCloseTarget] = React.useState<{ studentCase: StudentCase; name: string } | null>(null)
+    const [closeOutcome, setCloseOutcome] = React.useState<CaseOutcome | null>(null)
+    const [terminationReason, setTerminationReason] = React.useState<CaseTerminationReason | "">("")
+    const [outcomeSummary, setOutcomeSummary] = React.useState("")
+    const [closing, setClosing] = React.useState(false)
+
+    // Own closed cases, reopened when the student returns
+    const [closedCases, setClosedCases] = React.useState<StudentCase[]>([])
+    const [reopenTarget, setReopenTarget] = React.useState<StudentCase | null>(null)
+    const [reopenReason, setReopenReason] = React.useState("")
+    const [reopening, setReopening] = React.useState(false)
+
+    const currentUserId = String(getCurrentSession().user?.id ?? "")
+
+    const rememberPlan = React.useCallback((plan: TreatmentPlan) => {
+        setPlansByStudent((prev) => {
+            const next = { ...prev }
+            if (plan.status === "active") next[String(plan.student_id)] = plan
+            else if (next[String(plan.student_id)]?.id === plan.id) delete next[String(plan.student_id)]
+            return next
+        })
+    }, [])
+
     const load = React.useCallback(async () => {
         setError(null)
         try {
-            const res = await fetchStudentsForManualScores()
+            const [res, plans, cases, closed] = await Promise.all([
+                // Closed cases leave the case load, so an empty list stays empty
+                fetchStudentsForManualScores({ directoryWhenEmpty: false }),
+                // Badges are optional: the list still loads without them
+                fetchTreatmentPlans().catch(() => [] as TreatmentPlan[]),
+                fetchCases().catch(() => [] as StudentCase[]),
+                fetchCases(null, "closed").catch(() => [] as StudentCase[]),
+            ])
             setStudents(res ?? [])
+            setCasesByStudent(Object.fromEntries(cases.map((c) => [String(c.student_id), c])))
+            setClosedCases(closed)
+            setPlansByStudent(
+                Object.fromEntries(plans.filter((p) => p.status === "active").map((p) => [String(p.student_id), p])),
+            )
         } catch (e: any) {
             setError(e?.message ?? "Failed to load student users.")
         } finally {
@@ -65,6 +181,93 @@ export default function CounselorCaseLoadPage() {
         load()
     }, [load])
 
+    const openTransfer = React.useCallback(async (studentCase: StudentCase, name: string) => {
+        setTransferTarget({ studentCase, name })
+        setTransferTo("")
+        setHandoffNote("")
+        try {
+            setCaseloads(await fetchCounselorCaseloads())
+        } catch (e: any) {
+            toast.error(e?.message ?? "Failed to load counselor caseloads.")
+        }
+    }, [])
+
+    const onTransfer = React.useCallback(async () => {
+        if (!transferTarget) return
+        if (!transferTo) {
+            toast.error("Choose the counselor who will take the case.")
+            return
+        }
+        if (!handoffNote.trim()) {
+            toast.error("Write a handoff note for the receiving counselor.")
+            return
+        }
+
+        setTransferring(true)
+        try {
+            const moved = await transferCase(transferTarget.studentCase.id, transferTo, handoffNote)
+            toast.success(`Case transferred to ${moved.counselor_name ?? "the counselor"}.`)
+            setTransferTarget(null)
+            await load()
+        } catch (e: any) {
+            toast.error(e?.message ?? "Failed to transfer the case.")
+        } finally {
+            setTransferring(false)
+        }
+    }, [transferTarget, transferTo, handoffNote, load])
+
+    const openClose = React.useCallback(async (studentCase: StudentCase, name: string) => {
+        setCloseTarget({ studentCase, name })
+        setCloseOutcome(null)
+        setTerminationReason("")
+        setOutcomeSummary("")
+        try {
+            setCloseOutcome(await fetchCaseOutcome(studentCase.id))
+        } catch (e: any) {
+            toast.error(e?.message ?? "Failed to load the score comparison.")
+        }
+    }, [])
+
+    const onClose = React.useCallback(async () => {
+        if (!closeTarget) return
+        if (!terminationReason) {
+            toast.error("Choose why the case is being closed.")
+            return
+        }
+        if (!outcomeSummary.trim()) {
+            toast.error("Write an outcome summary.")
+            return
+        }
+
+        setClosing(true)
+        try {
+            await closeCase(closeTarget.studentCase.id, terminationReason, outcomeSummary)
+            toast.success(`${closeTarget.name}'s case was closed.`)
+            setCloseTarget(null)
+            await load()
+        } catch (e: any) {
+            toast.error(e?.message ?? "Failed to close the case.")
+        } finally {
+            setClosing(false)
+        }
+    }, [closeTarget, terminationReason, outcomeSummary, load])
+
+    const onReopen = React.useCallback(async () => {
+        if (!reopenTarget) return
+
+        setReopening(true)
+        try {
+            const reopened = await reopenCase(reopenTarget.id, reopenReason)
+            toast.success(`${reopened.student_name ?? "The student"}'s case was reopened.`)
+            setReopenTarget(null)
+            await load()
+        } catch (e: any) {
+            toast.error(e?.message ?? "Failed to reopen the case.")
+        } finally {
+            setReopening(false)
+        }
+    }, [reopenTarget, reopenReason, load])
+
     const onRefresh = React.useCallback(async () => {
         setRefreshing(true)
         try {
@@ -160,7 +363,7 @@ export default function CounselorCaseLoadPage() {
                         </div>
                     ) : (
                         <ScrollArea className="w-full">
-                            <div className="min-w-[760px]">
+                            <div className="min-w-[1220px]">
                                 <Table>
                                     <TableHeader>
                                         <TableRow>
@@ -168,6 +371,7 @@ export default function CounselorCaseLoadPage() {
                                             <TableHead>Student ID</TableHead>
                                             <TableHead>Program</TableHead>
                                             <TableHead>Year Level</TableHead>
+                                            <TableHead>Treatment Plan</TableHead>
                                             <TableHead className="text-right">Action</TableHead>
                                         </TableRow>
                                     </TableHeader>
@@ -180,6 +384,9 @@ export default function CounselorCaseLoadPage() {
                                             const program = anyS?.program ?? "—"
                                             const year = anyS?.year_level ?? "—"
                                             const avatar = anyS?.avatar_url ?? null
+                                            const plan = plansByStudent[String(anyS?.id ?? s.id)]
+                                            const studentCase = casesByStudent[String(anyS?.id ?? s.id)]
+                                            const handoff = studentCase?.transfers.at(-1)
 
                                             return (
                                                 <TableRow key={String(anyS?.id ?? s.id)}>
@@ -197,6 +404,15 @@ export default function CounselorCaseLoadPage() {
                                                                 <div className="truncate text-xs text-muted-foreground">
                                                                     {anyS?.email ?? "—"}
                                                                 </div>
+                                                                {handoff && String(handoff.to_counselor_id) === currentUserId ? (
+                                                                    <Badge
+                                                                        variant="outline"
+                                                                        className="mt-1 max-w-[240px] truncate text-[0.65rem]"
+                                                                        title={handoff.handoff_note}
+                                                                    >
+                                                                        Handed off by {handoff.from_counselor_name ?? "a counselor"}
+                                                                    </Badge>
+                                                                ) : null}
                                                             </div>
                                                         </div>
                                                     </TableCell>
@@ -204,21 +420,75 @@ export default function CounselorCaseLoadPage() {
                                                     <TableCell className="font-mono text-xs">{sid}</TableCell>
                                                     <TableCell>{program}</TableCell>
                                                     <TableCell>{year}</TableCell>
+                                                    <TableCell>
+                                                        {plan ? (
+                                                            <Badge variant="secondary" className="max-w-[180px] truncate">
+                                                                {plan.latest_score != null ? `${plan.latest_score}% · ` : ""}
+                                                                {plan.title}
+                                                            </Badge>
+                                                        ) : (
+                                                            <span className="text-xs text-muted-foreground">—</span>
+                                                        )}
+                                                    </TableCell>
 
                                                     <TableCell className="text-right">
-                                                        <Button
-                                                            onClick={() => {
-                                                                const id = String(anyS?.id ?? s.id)
-                                                                const name = encodeURIComponent(displayName)
-                                                                navigate(
-                                                                    `/dashboard/counselor/assessment-score-input?studentId=${encodeURIComponent(
-                                                                        id,
-                                                                    )}&studentName=${name}`,
-                                                                )
-                                                            }}
-                                                        >
-                                                            Encode Score
-                                                        </Button>
+                                                        <div className="flex justify-end gap-2">
+                                                            <Button
+                                                                variant="outline"
+                                                                className="gap-2"
+                                                                onClick={() =>
+                                                                    setPlanStudent({ id: String(anyS?.id ?? s.id), name: displayName })
+                                                                }
+                                                            >
+                                                                <ClipboardList className="h-4 w-4" />
+                                                                Treatment Plan
+                                                            </Button>
+                                                            {studentCase ? (
+                                                                <Button
+                                                                    variant="outline"
+                                                                    className="gap-2"
+                                                                    onClick={() => void openTransfer(studentCase, displayName)}
+                                                                >
+                                                                    <ArrowRightLeft className="h-4 w-4" />
+                                                                    Transfer
+                                                                </Button>
+                                                            ) : null}
+                                                            {studentCase ? (
+                                                                <Button
+                                                                    variant="outline"
+                                                                    className="gap-2"
+                                                                    onClick={() => void openClose(studentCase, displayName)}
+                                                                >
+                                                                    <FolderCheck className="h-4 w-4" />
+                                                                    Close Case
+                                                                </Button>
+                                                            ) : null}
+                                                            <Button
+                                                                variant="outline"
+                                                                onClick={() =>
+                                                                    navigate(
+                                                                        `/dashboard/counselor/students/${encodeURIComponent(
+                                                                            String(anyS?.id ?? s.id),
+                                                                        )}/trend`,
+                                                                    )
+                                                                }
+                                                            >
+                                                                View Trend
+                                                            </Button>
+                                                            <Button
+                                                                onClick={() => {
+                                                                    const id = String(anyS?.id ?? s.id)
+                                                                    const name = encodeURIComponent(displayName)
+                                                                    navigate(
+                                                                        `/dashboard/counselor/assessment-score-input?studentId=${encodeURIComponent(
+                                                                            id,
+                                                                        )}&studentName=${name}`,
+                                                                    )
+                                                                }}
+                                                            >
+                                                                Encode Score
+                                                            </Button>
+                                                        </div>
                                                     </TableCell>
                                                 </TableRow>
                                             )
@@ -230,6 +500,273 @@ export default function CounselorCaseLoadPage() {
                     )}
                 </CardContent>
             </Card>
+
+            {closedCases.length > 0 ? (
+                <Card className="mt-6">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <FolderCheck className="h-5 w-5" />
+                            Closed Cases
+                        </CardTitle>
+                        <CardDescription>
+                            Cases you closed. Reopen one when the student comes back; notes, plans and scores stay attached.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Student</TableHead>
+                                    <TableHead>Closed</TableHead>
+                                    <TableHead>Reason</TableHead>
+                                    <TableHead>Outcome</TableHead>
+                                    <TableHead className="text-right">Action</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {closedCases.map((c) => {
+                                    const closure = latestClosure(c)
+                                    return (
+                                        <TableRow key={c.id}>
+                                            <TableCell className="font-medium">{c.student_name ?? "Unknown Student"}</TableCell>
+                                            <TableCell>{c.closed_at ? new Date(c.closed_at).toLocaleDateString() : "—"}</TableCell>
+                                            <TableCell>{terminationReasonLabel(closure?.termination_reason)}</TableCell>
+                                            <TableCell className="max-w-[320px] truncate text-muted-foreground" title={closure?.outcome_summary}>
+                                                {closure?.outcome_summary ?? "—"}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button
+                                                    variant="outline"
+                                                    className="gap-2"
+                                                    onClick={() => {
+                                                        setReopenTarget(c)
+                                                        setReopenReason("")
+                                                    }}
+                                                >
+                                                    <ArchiveRestore className="h-4 w-4" />
+                                                    Reopen
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    )
+                                })}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            ) : null}
+
+            <Dialog open={closeTarget != null} onOpenChange={(open) => !open && !closing && setCloseTarget(null)}>
+                <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Close Case</DialogTitle>
+                        <DialogDescription>
+                            Close {closeTarget?.name}'s case and take them off your case load. Their active treatment plan
+                            ends with the case; everything stays on record if the case is reopened.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-2 rounded-md border bg-muted/30 p-3">
+                            <div className="text-xs font-medium text-muted-foreground">First vs latest score</div>
+                            {closeOutcome ? (
+                                <>
+                                    <OutcomeLine label="PHQ-9" comparison={closeOutcome.phq9} measure="phq9" />
+                                    <OutcomeLine
+                                        label="Manual score"
+                                        comparison={closeOutcome.manual_score}
+                                        measure="manual_score"
+                                    />
+                                </>
+                            ) : (
+                                <Skeleton className="h-10 w-full" />
+                            )}
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <Label>Termination reason</Label>
+                            <Select
+                                value={terminationReason}
+                                onValueChange={(v) => setTerminationReason(v as CaseTerminationReason)}
+                                disabled={closing}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Why is counseling ending?" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CASE_TERMINATION_REASONS.map((reason) => (
+                                        <SelectItem key={reason} value={reason}>
+                                            {CASE_TERMINATION_REASON_LABELS[reason]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <Label htmlFor="outcome_summary">Outcome summary</Label>
+                            <Textarea
+                                id="outcome_summary"
+                                value={outcomeSummary}
+                                onChange={(e) => setOutcomeSummary(e.target.value)}
+                                placeholder="What changed, what the student takes forward, recommendations if they return…"
+                                className="min-h-28"
+                                disabled={closing}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setCloseTarget(null)} disabled={closing}>
+                            Cancel
+                        </Button>
+                        <Button onClick={() => void onClose()} disabled={closing} className="gap-2">
+                            {closing ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                            Close Case
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={reopenTarget != null} onOpenChange={(open) => !open && !reopening && setReopenTarget(null)}>
+                <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Reopen Case</DialogTitle>
+                        <DialogDescription>
+                            {reopenTarget?.student_name ?? "The student"} returns to your case load with their earlier
+                            history.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {reopenTarget?.closures.map((closure) => (
+                            <div key={closure.id} className="space-y-2 rounded-md border bg-muted/30 p-3 text-xs">
+                                <div className="font-medium">
+                                    Closed {new Date(closure.closed_at).toLocaleDateString()} ·{" "}
+                                    {terminationReasonLabel(closure.termination_reason)}
+                                    <span className="ml-1 font-normal text-muted-foreground">
+                                        by {closure.closed_by_name ?? "a counselor"}
+                                    </span>
+                                </div>
+                                <div className="whitespace-pre-wrap text-muted-foreground">{closure.outcome_summary}</div>
+                                <OutcomeLine label="PHQ-9" comparison={closure.phq9} measure="phq9" />
+                                <OutcomeLine label="Manual score" comparison={closure.manual_score} measure="manual_score" />
+                                {closure.reopened_at ? (
+                                    <div className="text-muted-foreground">
+                                        Reopened {new Date(closure.reopened_at).toLocaleDateString()}
+                                        {closure.reopen_reason ? `: ${closure.reopen_reason}` : ""}
+                                    </div>
+                                ) : null}
+                            </div>
+                        ))}
+
+                        <div className="space-y-1.5">
+                            <Label htmlFor="reopen_reason">Reason (optional)</Label>
+                            <Textarea
+                                id="reopen_reason"
+                                value={reopenReason}
+                                onChange={(e) => setReopenReason(e.target.value)}
+                                placeholder="Why the student is back…"
+                                disabled={reopening}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setReopenTarget(null)} disabled={reopening}>
+                            Cancel
+                        </Button>
+                        <Button onClick={() => void onReopen()} disabled={reopening} className="gap-2">
+                            {reopening ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                            Reopen Case
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={planStudent != null} onOpenChange={(open) => !open && setPlanStudent(null)}>
+                <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+                    <DialogHeader>
+                        <DialogTitle>Treatment Plan</DialogTitle>
+                        <DialogDescription>
+                            {planStudent?.name}: goals, interventions and progress ratings. Each progress update is also
+                            saved to the manual assessment score history.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {planStudent ? <TreatmentPlanPanel studentId={planStudent.id} onChanged={rememberPlan} /> : null}
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={transferTarget != null} onOpenChange={(open) => !open && !transferring && setTransferTarget(null)}>
+                <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Transfer Case</DialogTitle>
+                        <DialogDescription>
+                            Hand {transferTarget?.name}'s case to another counselor. Their active treatment plan moves
+                            with the case; booked appointments stay with the counselor holding the slot.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="space-y-1.5">
+                            <Label>Receiving counselor</Label>
+                            <Select value={transferTo} onValueChange={setTransferTo} disabled={transferring}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choose a counselor" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {caseloads
+                                        .filter((c) => c.counselor_id !== transferTarget?.studentCase.counselor_id)
+                                        .map((c) => (
+                                            <SelectItem key={c.counselor_id} value={String(c.counselor_id)}>
+                                                {c.counselor_name} · {c.open_cases} open case{c.open_cases === 1 ? "" : "s"}
+                                            </SelectItem>
+                                        ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <Label htmlFor="handoff_note">Handoff note</Label>
+                            <Textarea
+                                id="handoff_note"
+                                value={handoffNote}
+                                onChange={(e) => setHandoffNote(e.target.value)}
+                                placeholder="Current concerns, risk level, what has been tried, agreed next steps…"
+                                className="min-h-28"
+                                disabled={transferring}
+                            />
+                        </div>
+
+                        {transferTarget && transferTarget.studentCase.transfers.length > 0 ? (
+                            <div className="space-y-2">
+                                <div className="text-xs font-medium text-muted-foreground">Earlier handoffs</div>
+                                {transferTarget.studentCase.transfers.map((t) => (
+                                    <div key={t.id} className="rounded-md border bg-muted/30 p-2 text-xs">
+                                        <div className="font-medium">
+                                            {t.from_counselor_name ?? "Counselor"} → {t.to_counselor_name ?? "Counselor"}
+                                            <span className="ml-1 font-normal text-muted-foreground">
+                                                · {new Date(t.created_at).toLocaleDateString()}
+                                            </span>
+                                        </div>
+                                        <div className="whitespace-pre-wrap text-muted-foreground">{t.handoff_note}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : null}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setTransferTarget(null)} disabled={transferring}>
+                            Cancel
+                        </Button>
+                        <Button onClick={() => void onTransfer()} disabled={transferring} className="gap-2">
+                            {transferring ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                            Transfer Case
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </DashboardLayout>
     )
 }
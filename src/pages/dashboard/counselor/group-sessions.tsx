@@ -0,0 +1,525 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { Ban, Loader2, Pencil, Plus, RefreshCw, UsersRound } from "lucide-react";
+import { toast } from "sonner";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import { ATTENDANCE_STATUS_LABELS, type AttendanceStatus } from "@/lib/attendance";
+import { describeScheduleConflict, formatTimeLabel } from "@/lib/availability";
+import {
+    GROUP_SESSION_KINDS,
+    GROUP_SESSION_KIND_LABELS,
+    MAX_GROUP_CAPACITY,
+    allowedGroupAttendance,
+    cancelGroupSession,
+    fetchCounselorGroupSessions,
+    groupSessionEnd,
+    markGroupAttendance,
+    saveGroupSession,
+    validateGroupSessionInput,
+    type GroupSession,
+    type GroupSessionInput,
+    type GroupSessionKind,
+} from "@/lib/group-sessions";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+const EMPTY_DRAFT: GroupSessionInput = {
+    kind: "workshop",
+    title: "",
+    topic: "",
+    description: "",
+    location: "Guidance Office Conference Room",
+    date: "",
+    start_time: "14:00",
+    end_time: "16:00",
+    capacity: 25,
+};
+
+function fmtDate(value: string): string {
+    try {
+        return format(parseISO(value), "EEE, MMM d, yyyy");
+    } catch {
+        return value;
+    }
+}
+
+function timeRange(session: Pick<GroupSession, "start_time" | "end_time">): string {
+    return `${formatTimeLabel(session.start_time)} – ${formatTimeLabel(session.end_time)}`;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+    return describeScheduleConflict(error) ?? (error instanceof Error ? error.message : fallback);
+}
+
+export default function CounselorGroupSessions() {
+    const [sessions, setSessions] = React.useState<GroupSession[]>([]);
+    const [loading, setLoading] = React.useState(true);
+
+    // ✅ create / edit dialog (editing = null → create)
+    const [editorOpen, setEditorOpen] = React.useState(false);
+    const [editing, setEditing] = React.useState<GroupSession | null>(null);
+    const [draft, setDraft] = React.useState<GroupSessionInput>(EMPTY_DRAFT);
+    const [saving, setSaving] = React.useState(false);
+
+    // ✅ cancel dialog
+    const [cancelling, setCancelling] = React.useState<GroupSession | null>(null);
+    const [cancelReason, setCancelReason] = React.useState("");
+
+    // ✅ participants / attendance dialog
+    const [rosterId, setRosterId] = React.useState<number | null>(null);
+    const [markingId, setMarkingId] = React.useState<number | null>(null);
+
+    const load = React.useCallback(async () => {
+        setLoading(true);
+        try {
+            setSessions(await fetchCounselorGroupSessions());
+        } catch (error) {
+            toast.error(errorMessage(error, "Failed to load group sessions."));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void load();
+    }, [load]);
+
+    const now = new Date();
+    const upcoming = sessions.filter((s) => (groupSessionEnd(s) ?? now) >= now);
+    const past = sessions.filter((s) => (groupSessionEnd(s) ?? now) < now).reverse();
+    const roster = sessions.find((s) => s.id === rosterId) ?? null;
+
+    const replaceSession = (updated: GroupSession) => {
+        setSessions((prev) => {
+            const exists = prev.some((s) => s.id === updated.id);
+            const next = exists ? prev.map((s) => (s.id === updated.id ? updated : s)) : [...prev, updated];
+            return [...next].sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+        });
+    };
+
+    const openEditor = (session: GroupSession | null) => {
+        setEditing(session);
+        setDraft(
+            session
+                ? {
+                      kind: session.kind,
+                      title: session.title,
+                      topic: session.topic,
+                      description: session.description ?? "",
+                      location: session.location ?? "",
+                      date: session.date,
+                      start_time: session.start_time,
+                      end_time: session.end_time,
+                      capacity: session.capacity,
+                  }
+                : EMPTY_DRAFT,
+        );
+        setEditorOpen(true);
+    };
+
+    const handleSave = async () => {
+        const problem = validateGroupSessionInput(draft, editing?.enrolled_count ?? 0);
+        if (problem) {
+            toast.error(problem);
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const saved = await saveGroupSession(draft, editing?.id ?? null);
+            replaceSession(saved);
+            toast.success(editing ? "Session updated." : "Session created. Students can now enroll.");
+            setEditorOpen(false);
+        } catch (error) {
+            toast.error(errorMessage(error, "Failed to save the session."));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!cancelling) return;
+        if (!cancelReason.trim()) {
+            toast.error("Please give a reason; enrolled students will see it.");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            replaceSession(await cancelGroupSession(cancelling.id, cancelReason));
+            toast.success("Session cancelled. Enrolled students were notified.");
+            setCancelling(null);
+            setCancelReason("");
+        } catch (error) {
+            toast.error(errorMessage(error, "Failed to cancel the session."));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMark = async (session: GroupSession, enrollmentId: number, attendance: AttendanceStatus) => {
+        setMarkingId(enrollmentId);
+        try {
+            replaceSession(await markGroupAttendance(session.id, enrollmentId, attendance));
+        } catch (error) {
+            toast.error(errorMessage(error, "Failed to record attendance."));
+        } finally {
+            setMarkingId(null);
+        }
+    };
+
+    const renderTable = (rows: GroupSession[], emptyText: string) =>
+        rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{emptyText}</p>
+        ) : (
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Session</TableHead>
+                        <TableHead>When</TableHead>
+                        <TableHead>Seats</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {rows.map((s) => {
+                        const attended = (s.participants ?? []).filter((p) => p.attendance === "attended").length;
+                        const isOpen = s.status === "open";
+
+                        return (
+                            <TableRow key={s.id} className={isOpen ? undefined : "opacity-60"}>
+                                <TableCell>
+                                    <div className="font-medium">{s.title}</div>
+                                    <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                                        <Badge variant="outline">{GROUP_SESSION_KIND_LABELS[s.kind]}</Badge>
+                                        <span>{s.topic}</span>
+                                        {s.location ? <span>· {s.location}</span> : null}
+                                    </div>
+                                    {!isOpen ? (
+                                        <div className="mt-1 text-xs text-destructive">
+                                            Cancelled{s.cancel_reason ? `: ${s.cancel_reason}` : ""}
+                                        </div>
+                                    ) : null}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                    <div>{fmtDate(s.date)}</div>
+                                    <div className="text-xs text-muted-foreground">{timeRange(s)}</div>
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                    <div>
+                                        {s.enrolled_count} / {s.capacity}
+                                    </div>
+                                    {attended > 0 ? (
+                                        <div className="text-xs text-muted-foreground">{attended} attended</div>
+                                    ) : null}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                    <div className="flex justify-end gap-1.5">
+                                        <Button size="sm" variant="outline" onClick={() => setRosterId(s.id)}>
+                                            <UsersRound className="mr-1.5 h-3.5 w-3.5" />
+                                            Participants
+                                        </Button>
+                                        {isOpen && (groupSessionEnd(s) ?? now) >= now ? (
+                                            <>
+                                                <Button size="sm" variant="outline" onClick={() => openEditor(s)}>
+                                                    <Pencil className="h-3.5 w-3.5" />
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="text-destructive"
+                                                    onClick={() => setCancelling(s)}
+                                                >
+                                                    <Ban className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </>
+                                        ) : null}
+                                    </div>
+                                </TableCell>
+                            </TableRow>
+                        );
+                    })}
+                </TableBody>
+            </Table>
+        );
+
+    return (
+        <DashboardLayout
+            title="Group Sessions"
+            description="Run group counseling sessions and workshops. Students enroll from their dashboard until the session is full."
+        >
+            <div className="space-y-4">
+                <div className="flex justify-end gap-2">
+                    <Button variant="outline" className="gap-2" disabled={loading} onClick={() => void load()}>
+                        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                        Refresh
+                    </Button>
+                    <Button className="gap-2" onClick={() => openEditor(null)}>
+                        <Plus className="h-4 w-4" />
+                        New session
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle className="flex items-center gap-2">
+                            <UsersRound className="h-5 w-5" />
+                            Upcoming
+                        </CardTitle>
+                        <CardDescription>
+                            Sessions hold your time: students cannot book one-to-one slots that overlap them.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {loading ? (
+                            <div className="space-y-2">
+                                <Skeleton className="h-12 w-full" />
+                                <Skeleton className="h-12 w-full" />
+                            </div>
+                        ) : (
+                            renderTable(upcoming, "No upcoming group sessions. Create one for the next exam week.")
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle>Past sessions</CardTitle>
+                        <CardDescription>Record attendance for each participant after the session.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {loading ? <Skeleton className="h-12 w-full" /> : renderTable(past, "No past sessions yet.")}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* ✅ Create / edit dialog */}
+            <Dialog open={editorOpen} onOpenChange={(open) => !saving && setEditorOpen(open)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>{editing ? "Edit session" : "New group session"}</DialogTitle>
+                        <DialogDescription>
+                            {editing && editing.enrolled_count > 0
+                                ? "Enrolled students are messaged if the date or time changes."
+                                : "Students see the title, topic, time, place and seats left."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        <div className="space-y-1 sm:col-span-2">
+                            <Label htmlFor="gs_title">Title</Label>
+                            <Input
+                                id="gs_title"
+                                value={draft.title}
+                                onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+                                placeholder="e.g. Stress Management for Finals"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Type</Label>
+                            <Select
+                                value={draft.kind}
+                                onValueChange={(v) => setDraft((d) => ({ ...d, kind: v as GroupSessionKind }))}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {GROUP_SESSION_KINDS.map((k) => (
+                                        <SelectItem key={k} value={k}>
+                                            {GROUP_SESSION_KIND_LABELS[k]}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="gs_topic">Topic</Label>
+                            <Input
+                                id="gs_topic"
+                                value={draft.topic}
+                                onChange={(e) => setDraft((d) => ({ ...d, topic: e.target.value }))}
+                                placeholder="e.g. Stress management"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="gs_date">Date</Label>
+                            <Input
+                                id="gs_date"
+                                type="date"
+                                value={draft.date}
+                                onChange={(e) => setDraft((d) => ({ ...d, date: e.target.value }))}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="gs_capacity">Capacity</Label>
+                            <Input
+                                id="gs_capacity"
+                                type="number"
+                                min={Math.max(1, editing?.enrolled_count ?? 0)}
+                                max={MAX_GROUP_CAPACITY}
+                                value={String(draft.capacity)}
+                                onChange={(e) => setDraft((d) => ({ ...d, capacity: Number(e.target.value) }))}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="gs_start">Starts</Label>
+                            <Input
+                                id="gs_start"
+                                type="time"
+                                value={draft.start_time}
+                                onChange={(e) => setDraft((d) => ({ ...d, start_time: e.target.value }))}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="gs_end">Ends</Label>
+                            <Input
+                                id="gs_end"
+                                type="time"
+                                value={draft.end_time}
+                                onChange={(e) => setDraft((d) => ({ ...d, end_time: e.target.value }))}
+                            />
+                        </div>
+                        <div className="space-y-1 sm:col-span-2">
+                            <Label htmlFor="gs_location">Location</Label>
+                            <Input
+                                id="gs_location"
+                                value={draft.location ?? ""}
+                                onChange={(e) => setDraft((d) => ({ ...d, location: e.target.value }))}
+                            />
+                        </div>
+                        <div className="space-y-1 sm:col-span-2">
+                            <Label htmlFor="gs_description">Description</Label>
+                            <Textarea
+                                id="gs_description"
+                                value={draft.description ?? ""}
+                                onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+                                className="min-h-20"
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" disabled={saving} onClick={() => setEditorOpen(false)}>
+                            Close
+                        </Button>
+                        <Button disabled={saving} onClick={() => void handleSave()} className="gap-2">
+                            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                            {editing ? "Save changes" : "Create session"}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* ✅ Cancel dialog */}
+            <Dialog open={cancelling != null} onOpenChange={(open) => !open && !saving && setCancelling(null)}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Cancel “{cancelling?.title}”?</DialogTitle>
+                        <DialogDescription>
+                            {cancelling?.enrolled_count
+                                ? `${cancelling.enrolled_count} enrolled student(s) will be messaged with your reason.`
+                                : "Nobody has enrolled yet."}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-1">
+                        <Label htmlFor="gs_cancel_reason">Reason</Label>
+                        <Textarea
+                            id="gs_cancel_reason"
+                            value={cancelReason}
+                            onChange={(e) => setCancelReason(e.target.value)}
+                            placeholder="e.g. Rescheduled because of the campus event."
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" disabled={saving} onClick={() => setCancelling(null)}>
+                            Keep session
+                        </Button>
+                        <Button variant="destructive" disabled={saving} onClick={() => void handleCancel()}>
+                            Cancel session
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* ✅ Participants / attendance dialog */}
+            <Dialog open={roster != null} onOpenChange={(open) => !open && setRosterId(null)}>
+                <DialogContent className="sm:max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>{roster?.title}</DialogTitle>
+                        <DialogDescription>
+                            {roster ? `${fmtDate(roster.date)} · ${timeRange(roster)} · ` : ""}
+                            {roster?.enrolled_count ?? 0} of {roster?.capacity ?? 0} seats taken
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {roster && (roster.participants ?? []).length > 0 ? (
+                        <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+                            {(roster.participants ?? []).map((p) => {
+                                const options = allowedGroupAttendance(roster);
+                                return (
+                                    <div
+                                        key={p.id}
+                                        className="flex items-center justify-between gap-3 rounded-md border px-3 py-2"
+                                    >
+                                        <div className="min-w-0">
+                                            <div className="truncate text-sm font-medium">
+                                                {p.student_name ?? `Student #${p.student_id}`}
+                                            </div>
+                                            <div className="truncate text-xs text-muted-foreground">
+                                                {p.student_email ?? ""}
+                                            </div>
+                                        </div>
+                                        {options.length > 0 ? (
+                                            <Select
+                                                value={p.attendance ?? undefined}
+                                                onValueChange={(v) =>
+                                                    void handleMark(roster, p.id, v as AttendanceStatus)
+                                                }
+                                                disabled={markingId === p.id}
+                                            >
+                                                <SelectTrigger className="h-8 w-36 text-xs">
+                                                    <SelectValue placeholder="Mark attendance" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {options.map((a) => (
+                                                        <SelectItem key={a} value={a}>
+                                                            {ATTENDANCE_STATUS_LABELS[a]}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <Badge variant="outline">
+                                                {p.attendance ? ATTENDANCE_STATUS_LABELS[p.attendance] : "Not marked"}
+                                            </Badge>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">No students have enrolled yet.</p>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </DashboardLayout>
+    );
+}
@@ -17,8 +17,34 @@ import {
 
 import { jsPDF } from "jspdf";
 
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
+import { apiFetch } from "@/api/client";
+import {
+    instrumentMaxScore,
+    scoreAssessmentScreenings,
+    summarizeScreenings,
+    type InstrumentTone,
+} from "@/lib/instruments";
+import {
+    RISK_FOLLOW_UP_ACTION_LABELS,
+    acknowledgeAssessmentRisk,
+    isHighRiskAssessment,
+    needsRiskAcknowledgment,
+    type RiskFollowUpAction,
+} from "@/lib/intake";
 import type { IntakeAssessmentDto, MentalFrequencyApi } from "@/api/intake/route";
+import {
+    PHQ9_FREQUENCY_LABELS,
+    PHQ9_FREQUENCY_VALUES,
+    PHQ9_INCOMPLETE,
+    PHQ9_ITEM_KEYS,
+    PHQ9_ITEM_LABELS,
+    PHQ9_SEVERITY_BANDS,
+    formatPhq9Frequency,
+    phq9Points,
+    scorePhq9,
+    type Phq9Severity,
+    type Phq9SeverityLabel,
+} from "@/lib/phq9";
 
 import {
     Card,
@@ -48,6 +74,7 @@ import {
     TableRow,
 } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Textarea } from "@/components/ui/textarea";
 
 import {
     Dialog,
@@ -69,113 +96,11 @@ import {
     AlertDialogAction,
 } from "@/components/ui/alert-dialog";
 
-const FREQUENCY_SCORES: Record<MentalFrequencyApi, number> = {
-    not_at_all: 0,
-    several_days: 1,
-    more_than_half: 2,
-    nearly_every_day: 3,
-};
-
-const MENTAL_FREQUENCY_LABELS: Record<MentalFrequencyApi, string> = {
-    not_at_all: "Not at all",
-    several_days: "Several days",
-    more_than_half: "More than half the days",
-    nearly_every_day: "Nearly every day",
-};
-
-const MH_KEYS: (keyof IntakeAssessmentDto)[] = [
-    "mh_little_interest",
-    "mh_feeling_down",
-    "mh_sleep",
-    "mh_energy",
-    "mh_appetite",
-    "mh_self_esteem",
-    "mh_concentration",
-    "mh_motor",
-    "mh_self_harm",
-];
-
-const MH_QUESTIONS: Record<(typeof MH_KEYS)[number], string> = {
-    mh_little_interest: "Little interest or pleasure in doing things",
-    mh_feeling_down: "Feeling down, depressed, or hopeless",
-    mh_sleep: "Trouble falling/staying asleep, or sleeping too much",
-    mh_energy: "Feeling tired or having little energy",
-    mh_appetite: "Poor appetite or overeating",
-    mh_self_esteem:
-        "Feeling bad about yourself — or that you are a failure or have let yourself or your family down",
-    mh_concentration:
-        "Trouble concentrating on things (e.g., reading or watching television)",
-    mh_motor: "Moving/speaking slowly, or the opposite — fidgety/restless",
-    mh_self_harm: "Thoughts that you would be better off dead or of hurting yourself",
-};
-
 type ReportRangePreset = "all" | "7d" | "30d" | "90d";
 type ReportConsentFilter = "all" | "consented" | "no_consent";
 
-// ✅ Shared runtime + typing source (fixes eslint "only used as type")
-const SEVERITY_BANDS = ["Minimal", "Mild", "Moderate", "Moderately severe", "Severe"] as const;
-type SeverityBand = (typeof SEVERITY_BANDS)[number];
-
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error(
-            "VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.",
-        );
-    }
-    const trimmed = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmed}`;
-}
-
-async function counselorIntakeApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as Error & { status?: number; data?: unknown };
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
-
 async function fetchAssessments(): Promise<IntakeAssessmentDto[]> {
-    const raw = await counselorIntakeApiFetch<any>("/counselor/intake/assessments", {
+    const raw = await apiFetch<any>("/counselor/intake/assessments", {
         method: "GET",
     });
 
@@ -201,7 +126,7 @@ async function deleteAssessment(assessmentId: number | string): Promise<any> {
     let lastErr: unknown = null;
     for (const path of candidates) {
         try {
-            return await counselorIntakeApiFetch<any>(path, { method: "DELETE" });
+            return await apiFetch<any>(path, { method: "DELETE" });
         } catch (err) {
             const e = err as any;
             lastErr = err;
@@ -261,37 +186,6 @@ function formatLivingSituation(raw?: string | null, other?: string | null): stri
     return raw;
 }
 
-function calculatePhqScore(
-    assessment: IntakeAssessmentDto,
-): { score: number; answered: number } {
-    let score = 0;
-    let answered = 0;
-
-    for (const key of MH_KEYS) {
-        const value = assessment[key] as MentalFrequencyApi | null | undefined;
-        if (!value) continue;
-        if (value in FREQUENCY_SCORES) {
-            score += FREQUENCY_SCORES[value];
-            answered += 1;
-        }
-    }
-
-    return { score, answered };
-}
-
-function phqSeverityLabel(score: number): SeverityBand {
-    if (score <= 4) return "Minimal";
-    if (score <= 9) return "Mild";
-    if (score <= 14) return "Moderate";
-    if (score <= 19) return "Moderately severe";
-    return "Severe";
-}
-
-function prettyFrequency(value?: MentalFrequencyApi | null): string {
-    if (!value) return "—";
-    return MENTAL_FREQUENCY_LABELS[value] ?? String(value);
-}
-
 function sanitizeFilename(name: string): string {
     return name
         .replace(/[\\/:*?"<>|]+/g, "")
@@ -317,6 +211,21 @@ function severityBadgeClass(severity: string): string {
     }
 }
 
+function toneBadgeClass(tone: InstrumentTone | null): string {
+    switch (tone) {
+        case "minimal":
+            return "border-emerald-200 bg-emerald-50 text-emerald-800";
+        case "mild":
+            return "border-sky-200 bg-sky-50 text-sky-800";
+        case "moderate":
+            return "border-amber-200 bg-amber-50 text-amber-900";
+        case "high":
+            return "border-red-200 bg-red-50 text-red-700";
+        default:
+            return "border-border bg-muted text-foreground";
+    }
+}
+
 function rangeLabel(preset: ReportRangePreset): string {
     if (preset === "all") return "All time";
     if (preset === "7d") return "Last 7 days";
@@ -335,8 +244,8 @@ function downloadAssessmentPdf(assessment: IntakeAssessmentDto): void {
     try {
         const studentName = getStudentDisplayName(assessment);
         const submitted = formatDateTime(assessment.created_at);
-        const { score, answered } = calculatePhqScore(assessment);
-        const severity = phqSeverityLabel(score);
+        const phq = scorePhq9(assessment);
+        const { score, answered, severity } = phq;
 
         const doc = new jsPDF({ unit: "pt", format: "a4", compress: true });
 
@@ -377,30 +286,34 @@ function downloadAssessmentPdf(assessment: IntakeAssessmentDto): void {
 
         // Header
         const headerH = 46;
-        doc.setFillColor(...COLORS.header);
-        doc.rect(0, 0, pageWidth, headerH, "F");
+        const drawHeader = () => {
+            doc.setFillColor(...COLORS.header);
+            doc.rect(0, 0, pageWidth, headerH, "F");
 
-        doc.setTextColor(...COLORS.headerText);
-        doc.setFont("helvetica", "bold");
-        doc.setFontSize(12);
-        doc.text("JRMSU Guidance & Counseling Office", margin, 22);
+            doc.setTextColor(...COLORS.headerText);
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(12);
+            doc.text("JRMSU Guidance & Counseling Office", margin, 22);
 
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(9);
-        doc.text("Mental health needs assessment (Steps 1–3)", margin, 38);
+            doc.setFont("helvetica", "normal");
+            doc.setFontSize(9);
+            doc.text("Mental health needs assessment (Steps 1–3)", margin, 38);
 
-        doc.setFont("helvetica", "bold");
-        doc.setFontSize(9);
-        doc.text("CONFIDENTIAL", pageWidth - margin, 22, { align: "right" });
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(9);
+            doc.text("CONFIDENTIAL", pageWidth - margin, 22, { align: "right" });
 
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(8);
-        doc.text(`Generated: ${format(new Date(), "MMM d, yyyy – h:mm a")}`, pageWidth - margin, 38, {
-            align: "right",
-        });
+            doc.setFont("helvetica", "normal");
+            doc.setFontSize(8);
+            doc.text(`Generated: ${format(new Date(), "MMM d, yyyy – h:mm a")}`, pageWidth - margin, 38, {
+                align: "right",
+            });
 
-        doc.setTextColor(...COLORS.ink);
-        cursor.y = headerH + 16;
+            doc.setTextColor(...COLORS.ink);
+            cursor.y = headerH + 16;
+        };
+
+        drawHeader();
 
         const sectionTitle = (title: string) => {
             doc.setFont("helvetica", "bold");
@@ -511,51 +424,59 @@ function downloadAssessmentPdf(assessment: IntakeAssessmentDto): void {
         const colQuestionW = tableWidth - colAnswerW;
 
         const th = 22;
-        doc.setFillColor(...COLORS.header);
-        doc.roundedRect(tableLeft, cursor.y, tableWidth, th, 8, 8, "F");
-        doc.setTextColor(...COLORS.headerText);
-        doc.setFont("helvetica", "bold");
-        doc.setFontSize(9);
-        doc.text("Question", tableLeft + 12, cursor.y + 15);
-        doc.text("Answer", tableLeft + tableWidth - 12, cursor.y + 15, { align: "right" });
-        doc.setTextColor(...COLORS.ink);
+        const padX = 12;
 
-        cursor.y += th;
+        const drawResponseTable = (rows: { question: string; answer: string }[], rowH: number) => {
+            doc.setFillColor(...COLORS.header);
+            doc.roundedRect(tableLeft, cursor.y, tableWidth, th, 8, 8, "F");
+            doc.setTextColor(...COLORS.headerText);
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(9);
+            doc.text("Question", tableLeft + 12, cursor.y + 15);
+            doc.text("Answer", tableLeft + tableWidth - 12, cursor.y + 15, { align: "right" });
+            doc.setTextColor(...COLORS.ink);
 
-        const rowH = 30;
-        const padX = 12;
+            cursor.y += th;
 
-        for (let i = 0; i < MH_KEYS.length; i += 1) {
-            const key = MH_KEYS[i];
-            const q = MH_QUESTIONS[key];
-            const a = prettyFrequency(assessment[key] as MentalFrequencyApi | null | undefined);
+            rows.forEach(({ question: q, answer: a }, i) => {
+                if (i % 2 === 0) {
+                    doc.setFillColor(...COLORS.zebra);
+                    doc.rect(tableLeft, cursor.y, tableWidth, rowH, "F");
+                }
 
-            if (i % 2 === 0) {
-                doc.setFillColor(...COLORS.zebra);
-                doc.rect(tableLeft, cursor.y, tableWidth, rowH, "F");
-            }
+                doc.setDrawColor(...COLORS.border);
+                doc.rect(tableLeft, cursor.y, tableWidth, rowH, "S");
+                doc.line(tableLeft + colQuestionW, cursor.y, tableLeft + colQuestionW, cursor.y + rowH);
 
-            doc.setDrawColor(...COLORS.border);
-            doc.rect(tableLeft, cursor.y, tableWidth, rowH, "S");
-            doc.line(tableLeft + colQuestionW, cursor.y, tableLeft + colQuestionW, cursor.y + rowH);
+                doc.setFont("helvetica", "normal");
+                doc.setFontSize(8.6);
+                doc.setTextColor(...COLORS.muted);
+                const qLines = wrapMaxLines(q, colQuestionW - padX * 2, 2);
+                doc.text(qLines, tableLeft + padX, cursor.y + 12);
 
-            doc.setFont("helvetica", "normal");
-            doc.setFontSize(8.6);
-            doc.setTextColor(...COLORS.muted);
-            const qLines = wrapMaxLines(q, colQuestionW - padX * 2, 2);
-            doc.text(qLines, tableLeft + padX, cursor.y + 12);
+                doc.setFont("helvetica", "bold");
+                doc.setFontSize(9);
+                doc.setTextColor(...COLORS.ink);
+                doc.text(a, tableLeft + tableWidth - padX, cursor.y + rowH / 2 + 3, { align: "right" });
 
-            doc.setFont("helvetica", "bold");
-            doc.setFontSize(9);
-            doc.setTextColor(...COLORS.ink);
-            doc.text(a, tableLeft + tableWidth - padX, cursor.y + 18, { align: "right" });
+                cursor.y += rowH;
+            });
+        };
 
-            cursor.y += rowH;
-        }
+        drawResponseTable(
+            phq.items.map((item) => ({ question: item.label, answer: item.responseLabel })),
+            30,
+        );
 
         cursor.y += 10;
 
-        const noteH = 44;
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(8);
+        const note =
+            "PHQ-9 style scoring for triage only; not a diagnosis. Handle as confidential.";
+        const noteLines = [...phq.notes.map((n) => `• ${n}`), note].flatMap((n) => wrapMaxLines(n, cardW - 24, 2));
+
+        const noteH = 34 + noteLines.length * 10;
         doc.setFillColor(...COLORS.brandLight);
         doc.setDrawColor(...COLORS.border);
         doc.roundedRect(margin, cursor.y, cardW, noteH, 8, 8, "FD");
@@ -563,23 +484,60 @@ function downloadAssessmentPdf(assessment: IntakeAssessmentDto): void {
         doc.setFont("helvetica", "bold");
         doc.setFontSize(9);
         doc.setTextColor(...COLORS.brand);
-        doc.text("Important note", margin + 12, cursor.y + 16);
+        doc.text("Interpretation", margin + 12, cursor.y + 16);
 
         doc.setFont("helvetica", "normal");
         doc.setFontSize(8);
         doc.setTextColor(...COLORS.muted);
-        const note =
-            "PHQ-9 style scoring for triage only; not a diagnosis. Handle as confidential.";
-        doc.text(wrapMaxLines(note, cardW - 24, 2), margin + 12, cursor.y + 30);
+        doc.text(noteLines, margin + 12, cursor.y + 30);
 
-        doc.setDrawColor(...COLORS.border);
-        doc.line(margin, pageHeight - 34, pageWidth - margin, pageHeight - 34);
+        const screenings = scoreAssessmentScreenings(assessment);
+        const totalPages = screenings.length > 0 ? 2 : 1;
 
-        doc.setFont("helvetica", "normal");
-        doc.setFontSize(8);
-        doc.setTextColor(...COLORS.muted);
-        doc.text("JRMSU Guidance & Counseling Office • Confidential", margin, pageHeight - 18);
-        doc.text("Page 1 of 1", pageWidth - margin, pageHeight - 18, { align: "right" });
+        const drawFooter = (page: number) => {
+            doc.setDrawColor(...COLORS.border);
+            doc.line(margin, pageHeight - 34, pageWidth - margin, pageHeight - 34);
+
+            doc.setFont("helvetica", "normal");
+            doc.setFontSize(8);
+            doc.setTextColor(...COLORS.muted);
+            doc.text("JRMSU Guidance & Counseling Office • Confidential", margin, pageHeight - 18);
+            doc.text(`Page ${page} of ${totalPages}`, pageWidth - margin, pageHeight - 18, { align: "right" });
+        };
+
+        drawFooter(1);
+
+        // Additional screening instruments (GAD-7, PSS-10, …)
+        if (screenings.length > 0) {
+            doc.addPage();
+            drawHeader();
+
+            for (const result of screenings) {
+                sectionTitle(`${result.instrument.name} — ${result.instrument.construct}`);
+
+                doc.setFont("helvetica", "normal");
+                doc.setFontSize(9);
+                doc.setTextColor(...COLORS.ink);
+                const summary =
+                    `Score: ${result.score} / ${result.maxScore}  ·  ${result.answered} of ${result.items.length} answered  ·  ` +
+                    `Severity: ${result.severity}` +
+                    (result.prorated ? ` (prorated score ${result.bandScore})` : "");
+                doc.text(summary, margin, cursor.y + 4);
+                cursor.y += 14;
+
+                drawResponseTable(
+                    result.items.map((item) => ({
+                        question: item.label,
+                        answer: item.points == null ? item.responseLabel : `${item.responseLabel} (${item.points})`,
+                    })),
+                    22,
+                );
+
+                cursor.y += 18;
+            }
+
+            drawFooter(2);
+        }
 
         const fileName = sanitizeFilename(
             `assessment-${studentName}-${(assessment.created_at ?? "submitted").toString().slice(0, 10)}.pdf`,
@@ -613,27 +571,22 @@ function downloadAssessmentReportPdf(
             }${opts.search.trim() ? ` • Search: "${opts.search.trim()}"` : ""}`;
 
         // Summary stats
-        const scores = items.map((a) => calculatePhqScore(a).score);
-        const avg = scores.length ? scores.reduce((s, n) => s + n, 0) / scores.length : 0;
+        const results = items.map((a) => scorePhq9(a));
+        const avg = results.length ? results.reduce((s, r) => s + r.score, 0) / results.length : 0;
 
-        const severityCounts = SEVERITY_BANDS.reduce((acc, sev) => {
+        const severityCounts = PHQ9_SEVERITY_BANDS.reduce((acc, sev) => {
             acc[sev] = 0;
             return acc;
-        }, {} as Record<SeverityBand, number>);
+        }, {} as Record<Phq9SeverityLabel, number>);
 
-        for (const a of items) {
-            const sc = calculatePhqScore(a).score;
-            const sev = phqSeverityLabel(sc);
-            severityCounts[sev] = (severityCounts[sev] ?? 0) + 1;
+        for (const r of results) {
+            severityCounts[r.severity] = (severityCounts[r.severity] ?? 0) + 1;
         }
 
         const consented = items.filter((a) => a.consent === true).length;
         const noConsent = items.length - consented;
 
-        const flagged = items.filter((a) => {
-            const v = a.mh_self_harm as MentalFrequencyApi | null | undefined;
-            return v === "more_than_half" || v === "nearly_every_day";
-        });
+        const flagged = items.filter((_, i) => results[i].selfHarmFlag);
 
         // Header
         doc.setFillColor(245, 158, 11);
@@ -691,7 +644,8 @@ function downloadAssessmentReportPdf(
         doc.text(`Consented: ${consented}`, leftX, y + 58);
         doc.text(`No consent: ${noConsent}`, rightX, y + 58);
 
-        doc.text(`Self-harm high-frequency flags: ${flagged.length}`, leftX, y + 76);
+        doc.text(`Self-harm item endorsed: ${flagged.length}`, leftX, y + 76);
+        doc.text(`Incomplete (not banded): ${severityCounts[PHQ9_INCOMPLETE] ?? 0}`, rightX, y + 76);
 
         y += 108;
 
@@ -710,7 +664,7 @@ function downloadAssessmentReportPdf(
         doc.setFontSize(9);
         doc.setTextColor(17, 24, 39);
 
-        for (const sev of SEVERITY_BANDS) {
+        for (const sev of PHQ9_SEVERITY_BANDS) {
             const count = severityCounts[sev] ?? 0;
             const pct = items.length ? Math.round((count / items.length) * 100) : 0;
             doc.text(`${sev}: ${count} (${pct}%)`, margin, y);
@@ -742,7 +696,7 @@ function downloadAssessmentReportPdf(
             for (const a of take) {
                 const name = getStudentDisplayName(a);
                 const created = formatDateTime(a.created_at);
-                const v = prettyFrequency(a.mh_self_harm as MentalFrequencyApi | null | undefined);
+                const v = formatPhq9Frequency(a.mh_self_harm);
                 doc.text(`• ${name} — ${created} — Self-harm: ${v}`, margin, y);
                 y += 14;
                 if (y > pageHeight - 60) break;
@@ -755,13 +709,58 @@ function downloadAssessmentReportPdf(
         }
 
         // Footer note
-        doc.setTextColor(75, 85, 99);
-        doc.setFontSize(8);
-        doc.text(
-            "PHQ-9 style scoring for triage only; not a diagnosis. Treat student data as confidential.",
-            margin,
-            pageHeight - 22,
-        );
+        const drawFooterNote = () => {
+            doc.setFont("helvetica", "normal");
+            doc.setTextColor(75, 85, 99);
+            doc.setFontSize(8);
+            doc.text(
+                "Screening scores for triage only; not a diagnosis. Treat student data as confidential.",
+                margin,
+                pageHeight - 22,
+            );
+        };
+
+        // Additional screening instruments (GAD-7, PSS-10, …)
+        for (const summary of summarizeScreenings(items)) {
+            const needed = 54 + summary.bandCounts.length * 14;
+            if (y + needed > pageHeight - 40) {
+                drawFooterNote();
+                doc.addPage();
+                y = margin + 8;
+            }
+
+            y += 6;
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(10);
+            doc.setTextColor(180, 83, 9);
+            doc.text(`${summary.instrument.shortName} — ${summary.instrument.construct}`, margin, y);
+            y += 10;
+
+            doc.setDrawColor(229, 231, 235);
+            doc.line(margin, y, pageWidth - margin, y);
+            y += 16;
+
+            doc.setFont("helvetica", "normal");
+            doc.setFontSize(9);
+            doc.setTextColor(17, 24, 39);
+
+            const maxScore = instrumentMaxScore(summary.instrument);
+            doc.text(
+                `Administered: ${summary.administered} of ${items.length}  •  Average score: ${summary.averageScore.toFixed(1)} / ${maxScore}` +
+                (summary.incomplete ? `  •  Incomplete: ${summary.incomplete}` : ""),
+                margin,
+                y,
+            );
+            y += 14;
+
+            for (const { band, count } of summary.bandCounts) {
+                const pct = summary.administered ? Math.round((count / summary.administered) * 100) : 0;
+                doc.text(`${band.label} (${band.min}–${band.max}): ${count} (${pct}%)`, margin, y);
+                y += 14;
+            }
+        }
+
+        drawFooterNote();
 
         const fileName = sanitizeFilename(
             `assessment-report-${format(new Date(), "yyyy-MM-dd")}.pdf`,
@@ -781,6 +780,11 @@ const CounselorIntake: React.FC = () => {
     const [selectedAssessment, setSelectedAssessment] =
         React.useState<IntakeAssessmentDto | null>(null);
 
+    // ✅ Self-harm flag acknowledgment (required follow-up documentation)
+    const [riskAction, setRiskAction] = React.useState<RiskFollowUpAction | "">("");
+    const [riskNotes, setRiskNotes] = React.useState("");
+    const [isAcknowledging, setIsAcknowledging] = React.useState(false);
+
     // Delete confirmation
     const [deleteOpen, setDeleteOpen] = React.useState(false);
     const [deleteTarget, setDeleteTarget] = React.useState<IntakeAssessmentDto | null>(null);
@@ -824,9 +828,51 @@ const CounselorIntake: React.FC = () => {
 
     const openAssessmentDialog = (assessment: IntakeAssessmentDto) => {
         setSelectedAssessment(assessment);
+        setRiskAction("");
+        setRiskNotes("");
         setIsDialogOpen(true);
     };
 
+    const pendingRiskAssessments = React.useMemo(
+        () => assessments.filter(needsRiskAcknowledgment),
+        [assessments],
+    );
+
+    const submitRiskAcknowledgment = async () => {
+        if (!selectedAssessment) return;
+
+        if (!riskAction) {
+            toast.error("Select the follow-up action you took.");
+            return;
+        }
+
+        if (!riskNotes.trim()) {
+            toast.error("Document the follow-up before acknowledging the flag.");
+            return;
+        }
+
+        setIsAcknowledging(true);
+        try {
+            const updated = await acknowledgeAssessmentRisk(selectedAssessment.id, {
+                follow_up_action: riskAction,
+                follow_up_notes: riskNotes.trim(),
+            });
+
+            const merged = { ...selectedAssessment, ...updated };
+            setAssessments((prev) => prev.map((a) => (a.id === merged.id ? merged : a)));
+            setSelectedAssessment(merged);
+            setRiskAction("");
+            setRiskNotes("");
+            toast.success("Self-harm flag acknowledged and follow-up recorded.");
+        } catch (error) {
+            const message =
+                error instanceof Error ? error.message : "Failed to acknowledge the self-harm flag.";
+            toast.error(message);
+        } finally {
+            setIsAcknowledging(false);
+        }
+    };
+
     const askDelete = (assessment: IntakeAssessmentDto) => {
         setDeleteTarget(assessment);
         setDeleteOpen(true);
@@ -855,10 +901,8 @@ const CounselorIntake: React.FC = () => {
         : "Assessment";
     const dialogSubmitted = selectedAssessment ? formatDateTime(selectedAssessment.created_at) : "—";
 
-    const dialogScore = selectedAssessment
-        ? calculatePhqScore(selectedAssessment)
-        : { score: 0, answered: 0 };
-    const dialogSeverity = selectedAssessment ? phqSeverityLabel(dialogScore.score) : "—";
+    const dialogScore = selectedAssessment ? scorePhq9(selectedAssessment) : null;
+    const dialogSeverity = dialogScore ? dialogScore.severity : "—";
 
     const reportFiltered = React.useMemo(() => {
         const startMs = presetStartMs(reportRange);
@@ -897,16 +941,10 @@ const CounselorIntake: React.FC = () => {
         let consented = 0;
 
         const scoreRows = reportFiltered.map((a) => {
-            const { score, answered } = calculatePhqScore(a);
+            const { score, answered, severity, selfHarmFlag: isFlagged } = scorePhq9(a);
             uniqueStudents.add(String(a.user_id ?? a.id));
             if (a.consent === true) consented += 1;
 
-            const severity = phqSeverityLabel(score);
-
-            const selfHarm = a.mh_self_harm as MentalFrequencyApi | null | undefined;
-            const isFlagged =
-                selfHarm === "more_than_half" || selfHarm === "nearly_every_day";
-
             return {
                 assessment: a,
                 score,
@@ -926,7 +964,7 @@ const CounselorIntake: React.FC = () => {
                 ? scoreRows.reduce((sum, r) => sum + r.answered, 0) / scoreRows.length
                 : 0;
 
-        const severityCounts: Record<SeverityBand, number> = {
+        const severityCounts: Record<Phq9Severity, number> = {
             Minimal: 0,
             Mild: 0,
             Moderate: 0,
@@ -935,14 +973,13 @@ const CounselorIntake: React.FC = () => {
         };
 
         for (const r of scoreRows) {
-            const k = r.severity as SeverityBand;
-            if (k in severityCounts) severityCounts[k] += 1;
+            if (r.severity !== PHQ9_INCOMPLETE) severityCounts[r.severity] += 1;
         }
 
         const flagged = scoreRows.filter((r) => r.isFlagged);
 
         // Item stats
-        const itemStats = MH_KEYS.map((key) => {
+        const itemStats = PHQ9_ITEM_KEYS.map((key) => {
             const counts: Record<MentalFrequencyApi, number> = {
                 not_at_all: 0,
                 several_days: 0,
@@ -954,26 +991,20 @@ const CounselorIntake: React.FC = () => {
             let sumScore = 0;
 
             for (const a of reportFiltered) {
-                const v = a[key] as MentalFrequencyApi | null | undefined;
-                if (!v) continue;
-                if (!(v in FREQUENCY_SCORES)) continue;
+                const v = a[key];
+                const points = phq9Points(v);
+                if (!v || points == null) continue;
                 counts[v] += 1;
                 answered += 1;
-                sumScore += FREQUENCY_SCORES[v];
+                sumScore += points;
             }
 
             const avgItem = answered > 0 ? sumScore / answered : 0;
 
             // most common frequency
-            const freqOrder: MentalFrequencyApi[] = [
-                "not_at_all",
-                "several_days",
-                "more_than_half",
-                "nearly_every_day",
-            ];
             let top: MentalFrequencyApi | null = null;
             let topCount = -1;
-            for (const f of freqOrder) {
+            for (const f of PHQ9_FREQUENCY_VALUES) {
                 if (counts[f] > topCount) {
                     top = f;
                     topCount = counts[f];
@@ -982,7 +1013,7 @@ const CounselorIntake: React.FC = () => {
 
             return {
                 key,
-                question: MH_QUESTIONS[key],
+                question: PHQ9_ITEM_LABELS[key],
                 answered,
                 avgItem,
                 mostCommon: top,
@@ -1008,6 +1039,7 @@ const CounselorIntake: React.FC = () => {
             flagged,
             scoreRows,
             itemStats,
+            screeningStats: summarizeScreenings(reportFiltered),
         };
     }, [reportFiltered]);
 
@@ -1045,6 +1077,41 @@ const CounselorIntake: React.FC = () => {
                         </Button>
                     </div>
 
+                    {pendingRiskAssessments.length > 0 && (
+                        <Alert className="border-red-300 bg-red-50 text-red-900">
+                            <ShieldAlert className="h-4 w-4" />
+                            <AlertTitle className="text-sm">
+                                Urgent: {pendingRiskAssessments.length} self-harm flag
+                                {pendingRiskAssessments.length === 1 ? "" : "s"} awaiting follow-up
+                            </AlertTitle>
+                            <AlertDescription className="space-y-2 text-xs text-red-800/90">
+                                <p>
+                                    These students answered the self-harm item (item 9) above &quot;Not at all&quot;.
+                                    Reach out, then acknowledge each flag with the follow-up action you took.
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                    {pendingRiskAssessments.slice(0, 8).map((a) => (
+                                        <Button
+                                            key={a.id}
+                                            type="button"
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-7 border-red-200 bg-white text-[0.7rem] text-red-700 hover:bg-red-100"
+                                            onClick={() => openAssessmentDialog(a)}
+                                        >
+                                            {getStudentDisplayName(a)} • {formatDateTime(a.created_at)}
+                                        </Button>
+                                    ))}
+                                    {pendingRiskAssessments.length > 8 && (
+                                        <span className="self-center text-[0.7rem]">
+                                            +{pendingRiskAssessments.length - 8} more
+                                        </span>
+                                    )}
+                                </div>
+                            </AlertDescription>
+                        </Alert>
+                    )}
+
                     <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
                         <CardHeader className="space-y-1">
                             <CardTitle className="flex items-center gap-2 text-base font-semibold text-amber-900">
@@ -1121,8 +1188,7 @@ const CounselorIntake: React.FC = () => {
                                                         const studentName = getStudentDisplayName(assessment);
                                                         const created = formatDateTime(assessment.created_at);
 
-                                                        const { score, answered } = calculatePhqScore(assessment);
-                                                        const severity = phqSeverityLabel(score);
+                                                        const { score, answered, severity } = scorePhq9(assessment);
 
                                                         const hasConsent = assessment.consent === true;
 
@@ -1176,14 +1242,35 @@ const CounselorIntake: React.FC = () => {
                                                                 </TableCell>
 
                                                                 <TableCell>
-                                                                    <Badge
-                                                                        variant="outline"
-                                                                        className={`text-[0.7rem] ${severityBadgeClass(
-                                                                            severity,
-                                                                        )}`}
-                                                                    >
-                                                                        {severity}
-                                                                    </Badge>
+                                                                    <div className="flex flex-wrap gap-1">
+                                                                        <Badge
+                                                                            variant="outline"
+                                                                            className={`text-[0.7rem] ${severityBadgeClass(
+                                                                                severity,
+                                                                            )}`}
+                                                                        >
+                                                                            {severity}
+                                                                        </Badge>
+
+                                                                        {isHighRiskAssessment(assessment) && (
+                                                                            <Badge
+                                                                                variant={
+                                                                                    assessment.risk_acknowledged_at
+                                                                                        ? "outline"
+                                                                                        : "destructive"
+                                                                                }
+                                                                                className={`text-[0.7rem] ${assessment.risk_acknowledged_at
+                                                                                        ? "border-red-200 bg-red-50 text-red-700"
+                                                                                        : ""
+                                                                                    }`}
+                                                                            >
+                                                                                <ShieldAlert className="h-3 w-3" />
+                                                                                {assessment.risk_acknowledged_at
+                                                                                    ? "High risk • followed up"
+                                                                                    : "High risk"}
+                                                                            </Badge>
+                                                                        )}
+                                                                    </div>
                                                                 </TableCell>
 
                                                                 <TableCell className="text-right">
@@ -1388,7 +1475,7 @@ const CounselorIntake: React.FC = () => {
                                                     </CardHeader>
 
                                                     <CardContent className="space-y-3">
-                                                        {SEVERITY_BANDS.map((sev) => {
+                                                        {PHQ9_SEVERITY_BANDS.map((sev) => {
                                                             const count = reportStats.severityCounts[sev] ?? 0;
                                                             const pct = reportStats.total
                                                                 ? Math.round((count / reportStats.total) * 100)
@@ -1438,7 +1525,7 @@ const CounselorIntake: React.FC = () => {
                                                             High-attention flags
                                                         </CardTitle>
                                                         <CardDescription className="text-xs">
-                                                            Flags are based on the self-harm item being “More than half” or “Nearly every day”.
+                                                            Flags are based on the self-harm item being answered above “Not at all”.
                                                             Follow your office protocol immediately.
                                                         </CardDescription>
                                                     </CardHeader>
@@ -1485,9 +1572,7 @@ const CounselorIntake: React.FC = () => {
                                                                                                 <p className="text-[0.7rem] text-muted-foreground">
                                                                                                     Self-harm:{" "}
                                                                                                     <span className="font-medium text-foreground">
-                                                                                                        {prettyFrequency(
-                                                                                                            a.mh_self_harm as MentalFrequencyApi | null | undefined,
-                                                                                                        )}
+                                                                                                        {formatPhq9Frequency(a.mh_self_harm)}
                                                                                                     </span>
                                                                                                 </p>
                                                                                             </div>
@@ -1523,6 +1608,52 @@ const CounselorIntake: React.FC = () => {
                                                 </Card>
                                             </div>
 
+                                            <div className="grid gap-3 lg:grid-cols-2">
+                                                {reportStats.screeningStats.map((summary) => (
+                                                    <Card key={summary.instrument.id} className="border-amber-100/80 bg-white/80">
+                                                        <CardHeader className="space-y-1">
+                                                            <CardTitle className="text-sm">
+                                                                {summary.instrument.shortName} — {summary.instrument.construct}
+                                                            </CardTitle>
+                                                            <CardDescription className="text-xs">
+                                                                Administered in {summary.administered} of {reportStats.total}{" "}
+                                                                submission(s) • Avg score{" "}
+                                                                {summary.averageScore.toFixed(1)} / {instrumentMaxScore(summary.instrument)}
+                                                            </CardDescription>
+                                                        </CardHeader>
+
+                                                        <CardContent className="space-y-3">
+                                                            {summary.bandCounts.map(({ band, count }) => {
+                                                                const pct = summary.administered
+                                                                    ? Math.round((count / summary.administered) * 100)
+                                                                    : 0;
+
+                                                                return (
+                                                                    <div key={band.label} className="space-y-1">
+                                                                        <div className="flex items-center justify-between text-xs">
+                                                                            <div className="flex items-center gap-2">
+                                                                                <Badge
+                                                                                    variant="outline"
+                                                                                    className={`text-[0.7rem] ${toneBadgeClass(band.tone)}`}
+                                                                                >
+                                                                                    {band.label}
+                                                                                </Badge>
+                                                                                <span className="text-muted-foreground">
+                                                                                    {count} student(s)
+                                                                                </span>
+                                                                            </div>
+                                                                            <span className="text-muted-foreground">{pct}%</span>
+                                                                        </div>
+
+                                                                        <Progress value={pct} className="h-2" />
+                                                                    </div>
+                                                                );
+                                                            })}
+                                                        </CardContent>
+                                                    </Card>
+                                                ))}
+                                            </div>
+
                                             <Card className="border-amber-100/80 bg-white/80">
                                                 <CardHeader className="space-y-1">
                                                     <CardTitle className="text-sm">
@@ -1548,7 +1679,7 @@ const CounselorIntake: React.FC = () => {
                                                             <TableBody>
                                                                 {reportStats.itemStats.map((row) => {
                                                                     const mostCommonLabel = row.mostCommon
-                                                                        ? MENTAL_FREQUENCY_LABELS[row.mostCommon]
+                                                                        ? PHQ9_FREQUENCY_LABELS[row.mostCommon]
                                                                         : "—";
                                                                     return (
                                                                         <TableRow key={String(row.key)}>
@@ -1705,8 +1836,88 @@ const CounselorIntake: React.FC = () => {
                     </DialogHeader>
 
                     <div className="max-h-[70vh] overflow-y-auto pr-2">
-                        {selectedAssessment ? (
+                        {selectedAssessment && dialogScore ? (
                             <div className="space-y-4 text-sm">
+                                {isHighRiskAssessment(selectedAssessment) && (
+                                    <div className="space-y-3 rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-900">
+                                        <p className="flex items-center gap-2 font-semibold">
+                                            <ShieldAlert className="h-4 w-4" />
+                                            High risk — self-harm item answered &quot;
+                                            {formatPhq9Frequency(selectedAssessment.mh_self_harm)}&quot;
+                                        </p>
+
+                                        {selectedAssessment.risk_acknowledged_at ? (
+                                            <div className="space-y-1">
+                                                <p>
+                                                    <span className="font-medium">Acknowledged:</span>{" "}
+                                                    {formatDateTime(selectedAssessment.risk_acknowledged_at)}
+                                                    {selectedAssessment.risk_acknowledged_by_name
+                                                        ? ` by ${selectedAssessment.risk_acknowledged_by_name}`
+                                                        : ""}
+                                                </p>
+                                                <p>
+                                                    <span className="font-medium">Follow-up:</span>{" "}
+                                                    {selectedAssessment.risk_follow_up_action
+                                                        ? RISK_FOLLOW_UP_ACTION_LABELS[selectedAssessment.risk_follow_up_action] ??
+                                                        selectedAssessment.risk_follow_up_action
+                                                        : "—"}
+                                                </p>
+                                                <p className="whitespace-pre-wrap">
+                                                    <span className="font-medium">Notes:</span>{" "}
+                                                    {selectedAssessment.risk_follow_up_notes?.trim() || "—"}
+                                                </p>
+                                            </div>
+                                        ) : (
+                                            <div className="space-y-2">
+                                                <p className="text-red-800/90">
+                                                    Contact the student as soon as possible. Acknowledging this flag
+                                                    requires documenting the follow-up action taken.
+                                                </p>
+
+                                                <Select
+                                                    value={riskAction}
+                                                    onValueChange={(v) => setRiskAction(v as RiskFollowUpAction)}
+                                                >
+                                                    <SelectTrigger className="h-8 bg-white text-xs">
+                                                        <SelectValue placeholder="Follow-up action taken…" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {Object.entries(RISK_FOLLOW_UP_ACTION_LABELS).map(([value, label]) => (
+                                                            <SelectItem key={value} value={value} className="text-xs">
+                                                                {label}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+
+                                                <Textarea
+                                                    value={riskNotes}
+                                                    onChange={(e) => setRiskNotes(e.target.value)}
+                                                    placeholder="What was done, when, and the agreed next steps…"
+                                                    className="min-h-20 bg-white text-xs"
+                                                />
+
+                                                <div className="flex justify-end">
+                                                    <Button
+                                                        type="button"
+                                                        size="sm"
+                                                        onClick={() => void submitRiskAcknowledgment()}
+                                                        disabled={isAcknowledging || !riskAction || !riskNotes.trim()}
+                                                        className="bg-red-600 text-xs text-white hover:bg-red-700"
+                                                    >
+                                                        {isAcknowledging ? (
+                                                            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                                                        ) : (
+                                                            <ShieldAlert className="mr-1.5 h-3.5 w-3.5" />
+                                                        )}
+                                                        Acknowledge &amp; record follow-up
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="grid gap-3 rounded-md border bg-muted/30 p-3 sm:grid-cols-2">
                                     <div className="space-y-1 text-xs">
                                         <p>
@@ -1753,6 +1964,13 @@ const CounselorIntake: React.FC = () => {
                                                 {dialogSeverity}
                                             </Badge>
                                         </p>
+                                        {dialogScore.notes.length > 0 && (
+                                            <ul className="list-disc space-y-0.5 pl-4 text-[0.7rem] text-amber-900">
+                                                {dialogScore.notes.map((note) => (
+                                                    <li key={note}>{note}</li>
+                                                ))}
+                                            </ul>
+                                        )}
                                         <p className="text-[0.7rem] text-muted-foreground">
                                             Based on PHQ-9 style scoring for triage only; not a diagnosis or clinical label.
                                         </p>
@@ -1772,15 +1990,13 @@ const CounselorIntake: React.FC = () => {
                                             </TableHeader>
 
                                             <TableBody>
-                                                {MH_KEYS.map((key) => (
-                                                    <TableRow key={String(key)}>
+                                                {dialogScore.items.map((item) => (
+                                                    <TableRow key={item.key}>
                                                         <TableCell className="py-3 text-xs text-muted-foreground">
-                                                            {MH_QUESTIONS[key]}
+                                                            {item.label}
                                                         </TableCell>
                                                         <TableCell className="py-3 text-right text-xs font-medium text-amber-900">
-                                                            {prettyFrequency(
-                                                                selectedAssessment[key] as MentalFrequencyApi | null | undefined,
-                                                            )}
+                                                            {item.responseLabel}
                                                         </TableCell>
                                                     </TableRow>
                                                 ))}
@@ -1788,6 +2004,56 @@ const CounselorIntake: React.FC = () => {
                                         </Table>
                                     </div>
                                 </div>
+
+                                {scoreAssessmentScreenings(selectedAssessment).map((result) => (
+                                    <div key={result.instrument.id} className="space-y-2">
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <p className="text-xs font-semibold text-amber-900">
+                                                {result.instrument.name} — {result.instrument.construct}
+                                            </p>
+                                            <div className="flex items-center gap-2 text-xs">
+                                                <span className="font-semibold">
+                                                    {result.score} / {result.maxScore}
+                                                </span>
+                                                <Badge
+                                                    variant="outline"
+                                                    className={`text-[0.7rem] ${toneBadgeClass(result.tone)}`}
+                                                >
+                                                    {result.severity}
+                                                </Badge>
+                                            </div>
+                                        </div>
+
+                                        {result.prorated && (
+                                            <p className="text-[0.7rem] text-muted-foreground">
+                                                {result.missing.length} item(s) unanswered — band uses a prorated
+                                                score of {result.bandScore}.
+                                            </p>
+                                        )}
+
+                                        <div className="rounded-md border bg-background">
+                                            <Table>
+                                                <TableBody>
+                                                    {result.items.map((item) => (
+                                                        <TableRow key={item.key}>
+                                                            <TableCell className="py-2 text-xs text-muted-foreground">
+                                                                {item.label}
+                                                            </TableCell>
+                                                            <TableCell className="py-2 text-right text-xs font-medium text-amber-900">
+                                                                {item.responseLabel}
+                                                                {item.points != null && (
+                                                                    <span className="ml-1 text-muted-foreground">
+                                                                        ({item.points})
+                                                                    </span>
+                                                                )}
+                                                            </TableCell>
+                                                        </TableRow>
+                                                    ))}
+                                                </TableBody>
+                                            </Table>
+                                        </div>
+                                    </div>
+                                ))}
                             </div>
                         ) : (
                             <div className="py-6 text-center text-xs text-muted-foreground">
@@ -1806,6 +2072,15 @@ const CounselorIntake: React.FC = () => {
                             Close
                         </Button>
 
+                        {selectedAssessment?.user_id != null ? (
+                            <Button asChild variant="outline" className="w-full sm:w-auto">
+                                <Link to={`/dashboard/counselor/students/${selectedAssessment.user_id}/trend`}>
+                                    <BarChart3 className="mr-2 h-4 w-4" />
+                                    View trend
+                                </Link>
+                            </Button>
+                        ) : null}
+
                         <Button
                             type="button"
                             onClick={() => {
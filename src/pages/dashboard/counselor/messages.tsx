@@ -5,15 +5,53 @@ import DashboardLayout from "@/components/DashboardLayout"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import { getCurrentSession } from "@/lib/authentication"
-import type { CounselorMessage } from "@/lib/messages"
+import { apiFetch } from "@/api/client"
+import { parseMessage, toMessageRequestBody } from "@/api/messages/route"
+import { resolveStorageUrl } from "@/lib/storage-url"
+import {
+    DELETED_MESSAGE_TEXT,
+    deleteMessage,
+    editMessage,
+    fetchCounselorConversationMessages,
+    fetchCounselorConversations,
+    isWithinEditWindow,
+    MESSAGE_EDIT_WINDOW_MINUTES,
+    messageAttachmentsOf,
+    messagePreviewText,
+    searchCounselorMessages,
+    subscribeToIncomingMessages,
+    subscribeToMessageUpdates,
+    subscribeToReadReceipts,
+    type MessageDeleteScope,
+    type CounselorMessage,
+    type MessageAttachment,
+    type MessageConversation,
+    type MessageSearchHit,
+} from "@/lib/messages"
+import { useRealtimeReconnect } from "@/hooks/use-realtime"
+import {
+    mergeMessagesById,
+    useConversationHistory,
+    useJumpToMessage,
+    useLoadOlderOnScroll,
+} from "@/hooks/use-message-history"
+import { AttachmentPickerButton, MessageAttachmentList, SelectedAttachments } from "@/components/message-attachments"
+import {
+    MessageSearchDialog,
+    type MessageSearchRequest,
+    type MessageSearchResponse,
+    type MessageSearchResult,
+} from "@/components/message-search"
 
 import { cn } from "@/lib/utils"
 import {
     Check,
+    CheckCheck,
     ChevronsUpDown,
     MoreVertical,
     Pencil,
     RefreshCw,
+    Search,
     Trash2,
     ChevronLeft,
 } from "lucide-react"
@@ -83,6 +121,13 @@ type UiMessage = {
     createdAt: string
 
     isUnread: boolean
+    /** The recipient has read it (read receipt on own messages) */
+    isSeen: boolean
+    attachments: MessageAttachment[]
+
+    editedAt?: string | null
+    /** Deleted for everyone (placeholder bubble) */
+    deletedAt?: string | null
 
     senderId?: number | string | null
     recipientId?: number | string | null
@@ -151,89 +196,6 @@ type PeerProfile = {
     avatar_url: string | null
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-    if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-    const trimmed = path.replace(/^\/+/, "")
-    return `${API_BASE_URL}/${trimmed}`
-}
-
-function getApiOrigin(): string {
-    if (!API_BASE_URL) return ""
-    try {
-        return new URL(API_BASE_URL).origin
-    } catch {
-        return ""
-    }
-}
-
-function looksLikeFilePath(s: string): boolean {
-    return (
-        /\.[a-z0-9]{2,5}(\?.*)?$/i.test(s) ||
-        /(^|\/)(avatars|avatar|profile|profiles|images|uploads)(\/|$)/i.test(s)
-    )
-}
-
-/**
- * Supports common Laravel avatar storage formats:
- * - "avatars/foo.jpg"                 -> "/storage/avatars/foo.jpg"
- * - "public/avatars/foo.jpg"          -> "/storage/avatars/foo.jpg"
- * - "storage/app/public/avatars/..."  -> "/storage/avatars/..."
- * - "/storage/avatars/foo.jpg"        -> "/storage/avatars/foo.jpg"
- * - Absolute URLs stay untouched
- *
- * If backend accidentally returns absolute URLs containing "/api/storage/...",
- * rewrite them to "/storage/..." because your public storage route is "/storage/*".
- */
-function resolveAvatarSrc(raw?: string | null): string | null {
-    const s0 = typeof raw === "string" ? raw : ""
-    let s = s0.trim()
-    if (!s) return null
-
-    s = s.replace(/\\/g, "/")
-
-    if (/^(data:|blob:)/i.test(s)) return s
-
-    if (/^https?:\/\//i.test(s)) {
-        try {
-            const u = new URL(s)
-            const p = (u.pathname || "").replace(/\\/g, "/")
-
-            u.pathname = p
-                .replace(/^\/api\/storage\//i, "/storage/")
-                .replace(/^\/api\/public\/storage\//i, "/storage/")
-                .replace(/^\/storage\/app\/public\//i, "/storage/")
-
-            return u.toString()
-        } catch {
-            return s
-        }
-    }
-
-    if (s.startsWith("//")) return `${window.location.protocol}${s}`
-
-    s = s.replace(/^storage\/app\/public\//i, "")
-    s = s.replace(/^public\//i, "")
-
-    const normalized = s.replace(/^\/+/, "")
-    const alreadyStorage =
-        normalized.toLowerCase().startsWith("storage/") ||
-        normalized.toLowerCase().startsWith("api/storage/")
-
-    let path = normalized
-    if (!alreadyStorage && looksLikeFilePath(normalized)) {
-        path = `storage/${normalized}`
-    }
-
-    path = path.replace(/^api\/storage\//i, "storage/")
-
-    const finalPath = path.startsWith("/") ? path : `/${path}`
-    const origin = getApiOrigin()
-    return origin ? `${origin}${finalPath}` : finalPath
-}
-
 function pickAvatarUrl(obj: any): string | null {
     const candidates = [
         obj?.avatar_url,
@@ -281,88 +243,23 @@ function pickAvatarUrl(obj: any): string | null {
     return null
 }
 
-/**
- * ✅ THOROUGH 401 FIX:
- * This apiFetch now attaches an Error.status + Error.data so we can reliably detect 401
- * and show a proper auth message (instead of a generic error).
- */
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<unknown> {
-    const url = resolveApiUrl(path)
-    const res = await fetch(url, {
-        ...init,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-    })
-
-    const text = await res.text()
-    let data: any = null
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const msg = data?.message || data?.error || res.statusText || "Server request failed."
-        const err: any = new Error(msg)
-        err.status = res.status
-        err.data = data ?? text
-        throw err
-    }
-
-    return data
-}
-
 /**
  * Force counselor inbox APIs to use the SAME fetch path as your other working calls,
  * AND always include Bearer token from the current session.
  */
-async function counselorInboxGet(token?: string | null) {
-    return apiFetch("/counselor/messages", { method: "GET" }, token) as Promise<any>
-}
 async function counselorInboxSend(payload: any, token?: string | null) {
-    return apiFetch("/counselor/messages", { method: "POST", body: JSON.stringify(payload) }, token) as Promise<any>
+    return apiFetch("/counselor/messages", { method: "POST", body: toMessageRequestBody(payload), token }) as Promise<any>
 }
-async function counselorInboxMarkRead(messageIds: number[], token?: string | null) {
+async function counselorInboxMarkRead(
+    payload: { message_ids?: number[]; peer_id?: number | string },
+    token?: string | null,
+) {
     return apiFetch(
         "/counselor/messages/mark-as-read",
-        { method: "POST", body: JSON.stringify({ message_ids: messageIds }) },
-        token,
+        { method: "POST", body: JSON.stringify(payload), token },
     ) as Promise<any>
 }
 
-async function tryDeleteMessageApi(messageId: number, token?: string | null) {
-    const candidates = [`/messages/${messageId}`, `/message/${messageId}`]
-    let lastErr: any = null
-
-    for (const p of candidates) {
-        try {
-            await apiFetch(p, { method: "DELETE" }, token)
-            return
-        } catch (e) {
-            lastErr = e
-        }
-    }
-    throw lastErr ?? new Error("Failed to delete message.")
-}
-
-async function tryUpdateMessageApi(messageId: number, content: string, token?: string | null) {
-    const payload = JSON.stringify({ content })
-    try {
-        await apiFetch(`/messages/${messageId}`, { method: "PATCH", body: payload }, token)
-        return
-    } catch {
-        await apiFetch(`/messages/${messageId}`, { method: "PUT", body: payload }, token)
-    }
-}
-
 /**
  * Delete (hide) a conversation for the current user.
  */
@@ -377,7 +274,7 @@ async function tryDeleteConversationApi(conversationId: string, token?: string |
 
     for (const p of candidates) {
         try {
-            await apiFetch(p, { method: "DELETE" }, token)
+            await apiFetch(p, { method: "DELETE", token })
             return
         } catch (e) {
             lastErr = e
@@ -503,8 +400,7 @@ function isUnreadFlag(dto: CounselorMessage): boolean {
 }
 
 function normalizeConversationIdFromDto(dto: CounselorMessage): string | null {
-    const raw = (dto as any).conversation_id ?? (dto as any).conversationId ?? null
-    const s = raw == null ? "" : String(raw).trim()
+    const s = dto.conversation_id == null ? "" : String(dto.conversation_id).trim()
     return s ? s : null
 }
 
@@ -536,12 +432,11 @@ function computeThreadId(myCounselorId: string, peerRole: PeerRole, peerId: numb
 function deriveThreadIdFromDto(dto: CounselorMessage, myCounselorId: string): string {
     const sender = normalizeSender(dto.sender)
 
-    const senderId = (dto as any).sender_id ?? null
-    const recipientId = (dto as any).recipient_id ?? null
-    const userId = (dto as any).user_id ?? dto.user_id ?? null
+    const senderId = dto.sender_id ?? null
+    const recipientId = dto.recipient_id ?? null
+    const userId = dto.user_id ?? null
 
-    const recipientRoleRaw = (dto as any).recipient_role ?? (dto as any).recipientRole ?? null
-    const recipientRole = normalizeRecipientRole(recipientRoleRaw)
+    const recipientRole = normalizeRecipientRole(dto.recipient_role)
 
     // If sender is counselor:
     // - if it's not ME, peer is that counselor
@@ -558,9 +453,7 @@ function deriveThreadIdFromDto(dto: CounselorMessage, myCounselorId: string): st
 
         // fallback: sometimes APIs attach user_id for student/guest but omit recipient_role
         if (userId != null) {
-            const possibleRole =
-                normalizeRecipientRole((dto as any).user_role ?? (dto as any).userRole ?? (dto as any)?.user?.role ?? null) ??
-                "student"
+            const possibleRole = normalizeRecipientRole(dto.user_role) ?? "student"
             return computeThreadId(myCounselorId, possibleRole, userId)
         }
 
@@ -592,28 +485,9 @@ function mapDtoToUi(dto: CounselorMessage, myCounselorId: string, counselorName:
 
     const createdAt = dto.created_at ?? new Date(0).toISOString()
 
-    const senderAvatarUrl =
-        pickAvatarUrl(dto as any) ?? pickAvatarUrl((dto as any)?.sender) ?? pickAvatarUrl((dto as any)?.user) ?? null
-
-    const recipientAvatarUrl =
-        pickAvatarUrl((dto as any)?.recipient) ??
-        pickAvatarUrl((dto as any)?.recipient_user) ??
-        (typeof (dto as any)?.recipient_avatar_url === "string" ? (dto as any).recipient_avatar_url : null)
-
-    const recipientRoleRaw = (dto as any).recipient_role ?? (dto as any).recipientRole ?? null
-    const recipientRole = normalizeRecipientRole(recipientRoleRaw)
-
-    const recipientNameRaw = (dto as any).recipient_name ?? (dto as any).recipientName ?? null
-    const userNameRaw = (dto as any).user_name ?? (dto as any).userName ?? null
-
-    const recipientName =
-        typeof recipientNameRaw === "string"
-            ? recipientNameRaw
-            : recipientNameRaw == null
-                ? null
-                : String(recipientNameRaw)
-
-    const userName = typeof userNameRaw === "string" ? userNameRaw : userNameRaw == null ? null : String(userNameRaw)
+    const recipientRole = normalizeRecipientRole(dto.recipient_role)
+    const recipientName = dto.recipient_name ?? null
+    const userName = dto.user_name ?? null
 
     const conversationId = normalizeConversationIdFromDto(dto)
     const threadId = deriveThreadIdFromDto(dto, myCounselorId)
@@ -630,17 +504,21 @@ function mapDtoToUi(dto: CounselorMessage, myCounselorId: string, counselorName:
         content: dto.content ?? "",
         createdAt,
         isUnread: isUnreadFlag(dto),
+        isSeen: dto.is_read === true || dto.is_read === 1,
+        attachments: messageAttachmentsOf(dto),
+        editedAt: dto.edited_at ?? null,
+        deletedAt: dto.deleted_at ?? null,
 
-        senderId: (dto as any).sender_id ?? null,
-        recipientId: (dto as any).recipient_id ?? null,
+        senderId: dto.sender_id ?? null,
+        recipientId: dto.recipient_id ?? null,
         recipientRole,
-        userId: (dto as any).user_id ?? dto.user_id ?? null,
+        userId: dto.user_id ?? null,
 
         recipientName: recipientName?.trim() ? recipientName.trim() : null,
         userName: userName?.trim() ? userName.trim() : null,
 
-        senderAvatarUrl,
-        recipientAvatarUrl,
+        senderAvatarUrl: dto.sender_avatar_url ?? null,
+        recipientAvatarUrl: dto.recipient_avatar_url ?? null,
     }
 }
 
@@ -654,7 +532,7 @@ function peerFromUiMessage(
     if (m.sender === "system") return null
 
     if (m.sender !== "counselor") {
-        const id = (m.senderId ?? m.userId) as any
+        const id = m.senderId ?? m.userId
         if (id == null || String(id).trim() === "") return null
         return { role: m.sender as PeerRole, id, dir: "incoming" }
     }
@@ -752,7 +630,7 @@ function buildConversations(messages: UiMessage[], myCounselorId: string, counse
             peerId,
             subtitle,
             unreadCount,
-            lastMessage: last?.content ?? "",
+            lastMessage: last ? messagePreviewText(last) : "",
             lastTimestamp: last?.createdAt ?? "",
             peerAvatarUrl,
         })
@@ -768,6 +646,28 @@ function buildConversations(messages: UiMessage[], myCounselorId: string, counse
     return conversations
 }
 
+/**
+ * One row of the server's conversation list (last message + unread count).
+ */
+function summaryFromServer(c: MessageConversation, myCounselorId: string, counselorName: string): Conversation {
+    const last = mapDtoToUi(c.last_message, myCounselorId, counselorName)
+    const peerRole = toPeerRole(c.peer_role) ?? "student"
+    const peerName = c.peer_name && c.peer_name.trim() ? c.peer_name.trim() : `${roleLabel(peerRole)} #${c.peer_id}`
+
+    return {
+        threadId: computeThreadId(myCounselorId, peerRole, c.peer_id),
+        conversationId: c.conversation_id != null ? String(c.conversation_id) : last.conversationId,
+        peerRole,
+        peerName,
+        peerId: c.peer_id,
+        subtitle: roleThreadLabel(peerRole),
+        unreadCount: c.unread_count,
+        lastMessage: messagePreviewText(last),
+        lastTimestamp: last.createdAt,
+        peerAvatarUrl: c.peer_avatar_url,
+    }
+}
+
 function peerKey(role: PeerRole, id?: number | string | null): string | null {
     if (id == null || String(id).trim() === "") return null
     return `${role}-${String(id)}`
@@ -951,7 +851,7 @@ async function trySearchUsersFromDb(role: PeerRole, query: string, token?: strin
 
     for (const path of candidates) {
         try {
-            const data = await apiFetch(path, { method: "GET" }, token)
+            const data = await apiFetch(path, { method: "GET", token })
             const arr = extractUsersArray(data)
             if (!Array.isArray(arr)) continue
 
@@ -1061,7 +961,7 @@ async function tryFetchUserProfileById(
 
     for (const path of candidates) {
         try {
-            const data: any = await apiFetch(path, { method: "GET", signal }, token)
+            const data: any = await apiFetch(path, { method: "GET", signal, token })
 
             const direct = data?.student ?? data?.user ?? null
             if (direct) {
@@ -1130,13 +1030,14 @@ const CounselorMessages: React.FC = () => {
     const navigate = useNavigate()
 
     const session = getCurrentSession()
-    const token = (session as any)?.token ?? null
-    const counselorName = session?.user && (session.user as any).name ? String((session.user as any).name) : "Counselor"
+    const token = session.token ?? null
+    const counselorName = session?.user?.name ? String(session.user.name) : "Counselor"
     const myUserId = session?.user?.id != null ? String(session.user.id) : ""
 
     const [isLoading, setIsLoading] = React.useState(true)
     const [isRefreshing, setIsRefreshing] = React.useState(false)
     const [isSending, setIsSending] = React.useState(false)
+    const [draftFiles, setDraftFiles] = React.useState<File[]>([])
 
     // manual "Mark read" button busy state
     const [isMarking, setIsMarking] = React.useState(false)
@@ -1148,6 +1049,7 @@ const CounselorMessages: React.FC = () => {
     const [draft, setDraft] = React.useState("")
 
     const [messages, setMessages] = React.useState<UiMessage[]>([])
+    const [summaries, setSummaries] = React.useState<Record<string, Conversation>>({})
     const [activeThreadId, setActiveThreadId] = React.useState<string>("")
 
     const [draftConversations, setDraftConversations] = React.useState<Conversation[]>([])
@@ -1175,6 +1077,7 @@ const CounselorMessages: React.FC = () => {
 
     const localIdRef = React.useRef(0)
     const bottomRef = React.useRef<HTMLDivElement | null>(null)
+    const topRef = React.useRef<HTMLDivElement | null>(null)
 
     // Edit message dialog
     const [editOpen, setEditOpen] = React.useState(false)
@@ -1220,7 +1123,7 @@ const CounselorMessages: React.FC = () => {
             if (m.sender === "system") continue
 
             if (m.sender !== "counselor") {
-                const id = (m.senderId ?? m.userId) as any
+                const id = m.senderId ?? m.userId
                 const k = peerKey(m.sender as PeerRole, id)
                 if (!k) continue
 
@@ -1268,30 +1171,66 @@ const CounselorMessages: React.FC = () => {
         }
     }, [])
 
+    // ✅ Threads load their newest page when opened; older pages on scroll
+    const addHistory = React.useCallback(
+        (dtos: CounselorMessage[]) => {
+            const ui = dtos.map((dto) => mapDtoToUi(dto, myUserId, counselorName))
+            setMessages((prev) => mergeMessagesById(prev, ui))
+            seedProfilesFromMessages(ui)
+        },
+        [myUserId, counselorName, seedProfilesFromMessages],
+    )
+
+    const {
+        historyFor,
+        loadLatest,
+        ensureLoaded,
+        loadOlder,
+        loadThrough,
+        reset: resetHistory,
+    } = useConversationHistory(fetchCounselorConversationMessages, addHistory)
+
+    const loadSummaries = async () => {
+        const res = await fetchCounselorConversations()
+        const convs = res.map((c) => summaryFromServer(c, myUserId, counselorName))
+
+        setSummaries(Object.fromEntries(convs.map((c) => [c.threadId, c])))
+
+        const seeded: Record<string, PeerProfile> = {}
+        for (const c of convs) {
+            const k = peerKey(c.peerRole, c.peerId)
+            if (!k || isPlaceholderPeerName(c.peerName, c.peerRole, c.peerId)) continue
+            if (profileCacheRef.current.get(k)?.name) continue
+            seeded[k] = { name: c.peerName, avatar_url: c.peerAvatarUrl ?? null }
+        }
+        if (Object.keys(seeded).length > 0) setProfileByPeerKey((p) => ({ ...p, ...seeded }))
+
+        return convs
+    }
+
     const loadMessages = async (mode: "initial" | "refresh" = "refresh") => {
         const setBusy = mode === "initial" ? setIsLoading : setIsRefreshing
 
         setBusy(true)
         try {
-            const res = await counselorInboxGet(token)
-            const raw = Array.isArray(res?.messages) ? res.messages : []
-            const ui = raw.map((dto: CounselorMessage) => mapDtoToUi(dto, myUserId, counselorName))
-
-            setMessages(ui)
-            seedProfilesFromMessages(ui)
+            const convs = await loadSummaries()
 
             // Do NOT auto-select / auto-activate a thread on page open.
             // Only clear the active thread if it no longer exists.
-            const convs = buildConversations(ui, myUserId, counselorName)
-
             const current = activeThreadId
-            const hasCurrentInServer = !!current && convs.some((c) => c.threadId === current)
+            const currentConvo = current ? convs.find((c) => c.threadId === current) ?? null : null
             const hasCurrentInDraft = !!current && draftConversations.some((d) => d.threadId === current)
 
-            if (current && !hasCurrentInServer && !hasCurrentInDraft) {
+            // Cached history of other threads may be stale; it reloads when opened
+            setMessages((prev) => prev.filter((m) => m.threadId === current))
+            resetHistory(current)
+
+            if (current && !currentConvo && !hasCurrentInDraft) {
                 openedThreadIdsRef.current.delete(current)
                 setActiveThreadId("")
                 setMobileView("list")
+            } else if (currentConvo?.peerId != null) {
+                await loadLatest(currentConvo.threadId, currentConvo.peerId)
             }
         } catch (err: any) {
             if (err?.status === 401) {
@@ -1315,8 +1254,17 @@ const CounselorMessages: React.FC = () => {
     )
 
     const conversations = React.useMemo(() => {
-        const map = new Map<string, Conversation>()
-        for (const c of conversationsFromMessages) map.set(c.threadId, c)
+        // Server rows carry the unread count; loaded messages may hold a newer last message
+        const map = new Map<string, Conversation>(Object.entries(summaries))
+        for (const c of conversationsFromMessages) {
+            const summary = map.get(c.threadId)
+            const localIsNewer =
+                !summary?.lastTimestamp ||
+                (!!c.lastTimestamp && new Date(c.lastTimestamp).getTime() >= new Date(summary.lastTimestamp).getTime())
+
+            if (!summary) map.set(c.threadId, c)
+            else if (localIsNewer) map.set(c.threadId, { ...summary, lastMessage: c.lastMessage, lastTimestamp: c.lastTimestamp })
+        }
         for (const d of draftConversations) {
             if (!map.has(d.threadId)) map.set(d.threadId, d)
         }
@@ -1330,7 +1278,7 @@ const CounselorMessages: React.FC = () => {
         })
 
         return merged
-    }, [conversationsFromMessages, draftConversations])
+    }, [summaries, conversationsFromMessages, draftConversations])
 
     const getPeerProfile = React.useCallback(
         (role: PeerRole, id?: number | string | null): PeerProfile | null => {
@@ -1354,7 +1302,7 @@ const CounselorMessages: React.FC = () => {
         (c: Conversation): string | null => {
             const prof = getPeerProfile(c.peerRole, c.peerId ?? null)
             const raw = c.peerAvatarUrl ?? prof?.avatar_url ?? null
-            return resolveAvatarSrc(raw)
+            return resolveStorageUrl(raw)
         },
         [getPeerProfile],
     )
@@ -1365,7 +1313,7 @@ const CounselorMessages: React.FC = () => {
             if (m.sender === "counselor") return m.senderName
 
             const role = m.sender as PeerRole
-            const id = (m.senderId ?? m.userId) as any
+            const id = m.senderId ?? m.userId
             const prof = getPeerProfile(role, id)
             const name = prof?.name ? String(prof.name).trim() : ""
             return name ? name : m.senderName
@@ -1529,9 +1477,158 @@ const CounselorMessages: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [myUserId, counselorName])
 
+    // ✅ Live updates over the push channel. Own messages are skipped: handleSend
+    // already swaps the optimistic bubble for the server record.
     React.useEffect(() => {
+        const stopMessages = subscribeToIncomingMessages((dto) => {
+            if (myUserId && String(dto.sender_id ?? "") === myUserId) return
+            const ui = mapDtoToUi(dto, myUserId, counselorName)
+            setMessages((prev) => (prev.some((m) => String(m.id) === String(ui.id)) ? prev : [...prev, ui]))
+            setSummaries((prev) => {
+                const current = prev[ui.threadId]
+                if (!current) return prev
+                return {
+                    ...prev,
+                    [ui.threadId]: {
+                        ...current,
+                        unreadCount: current.unreadCount + 1,
+                        lastMessage: messagePreviewText(ui),
+                        lastTimestamp: ui.createdAt,
+                    },
+                }
+            })
+            seedProfilesFromMessages([ui])
+        })
+
+        // Edits and deletes-for-everyone replace the bubble in place
+        const stopUpdates = subscribeToMessageUpdates((dto) => {
+            const ui = mapDtoToUi(dto, myUserId, counselorName)
+            setMessages((prev) => prev.map((m) => (String(m.id) === String(ui.id) ? { ...ui, isUnread: m.isUnread } : m)))
+        })
+
+        const stopReceipts = subscribeToReadReceipts((event) => {
+            const ids = new Set(event.message_ids.map(String))
+            setMessages((prev) => prev.map((m) => (ids.has(String(m.id)) ? { ...m, isSeen: true } : m)))
+        })
+
+        return () => {
+            stopMessages()
+            stopUpdates()
+            stopReceipts()
+        }
+    }, [myUserId, counselorName, seedProfilesFromMessages])
+
+    // Catch up on anything missed while the socket was down
+    useRealtimeReconnect(() => void loadMessages("refresh"))
+
+    const activePeerId = activeConversation?.peerId ?? null
+    const activeHistory = historyFor(activeThreadId)
+    const lastActiveMessageId = activeMessages.length > 0 ? activeMessages[activeMessages.length - 1].id : null
+
+    React.useEffect(() => {
+        if (!activeThreadId || activePeerId == null) return
+        ensureLoaded(activeThreadId, activePeerId).catch((err) => {
+            toast.error(err instanceof Error ? err.message : "Failed to load this conversation.")
+        })
+    }, [activeThreadId, activePeerId, ensureLoaded])
+
+    const { jumpTo, highlightedId, jumpPendingRef } = useJumpToMessage(activeMessages.length)
+
+    // Follow the newest message only; older pages prepend without moving the view
+    React.useEffect(() => {
+        if (jumpPendingRef.current) return
         bottomRef.current?.scrollIntoView({ behavior: "smooth" })
-    }, [activeThreadId, activeMessages.length])
+    }, [activeThreadId, lastActiveMessageId, jumpPendingRef])
+
+    const loadOlderActive = React.useCallback(async () => {
+        if (!activeThreadId || activePeerId == null) return false
+        try {
+            return await loadOlder(activeThreadId, activePeerId)
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to load older messages.")
+            return false
+        }
+    }, [activeThreadId, activePeerId, loadOlder])
+
+    useLoadOlderOnScroll(topRef, {
+        enabled: activeHistory.hasMore && !activeHistory.loading,
+        onLoadOlder: loadOlderActive,
+        contentKey: activeMessages.length > 0 ? activeMessages[0].id : null,
+    })
+
+    // ✅ Full-text search across every conversation; a result opens its thread at the message
+    const [searchOpen, setSearchOpen] = React.useState(false)
+
+    const searchConversationOptions = React.useMemo(() => {
+        const seen = new Set<string>()
+        const options: Array<{ key: string; label: string }> = []
+        for (const c of conversations) {
+            const key = String(c.peerId ?? "")
+            if (!key || seen.has(key)) continue
+            seen.add(key)
+            options.push({ key, label: getConversationDisplayName(c) })
+        }
+        return options
+    }, [conversations, getConversationDisplayName])
+
+    const runMessageSearch = React.useCallback(
+        async (request: MessageSearchRequest): Promise<MessageSearchResponse<MessageSearchHit>> => {
+            const res = await searchCounselorMessages({
+                q: request.q,
+                sender_role: request.senderRole || undefined,
+                from: request.from || undefined,
+                to: request.to || undefined,
+                peer_id: request.conversationKey || undefined,
+                page: request.page,
+            })
+
+            return {
+                results: res.hits.map((hit) => {
+                    const ui = mapDtoToUi(hit.message, myUserId, counselorName)
+                    const fromPeer = String(ui.senderId ?? "") === String(hit.peer_id)
+                    const peerName = hit.peer_name || `${roleLabel(toPeerRole(hit.peer_role) ?? "student")} #${hit.peer_id}`
+
+                    return {
+                        id: ui.id,
+                        content: ui.content,
+                        senderName: fromPeer ? peerName : "You",
+                        senderRole: fromPeer ? hit.peer_role : "counselor",
+                        createdAt: ui.createdAt,
+                        conversationLabel: peerName,
+                        source: hit,
+                    }
+                }),
+                total: res.meta.total,
+                lastPage: res.meta.last_page,
+            }
+        },
+        [myUserId, counselorName],
+    )
+
+    const openSearchResult = React.useCallback(
+        async (result: MessageSearchResult<MessageSearchHit>) => {
+            const hit = result.source
+            const peerRole = toPeerRole(hit.peer_role) ?? "student"
+            const threadId = computeThreadId(myUserId, peerRole, hit.peer_id)
+
+            openConversation(threadId)
+            jumpTo(result.id)
+
+            if (messages.some((m) => String(m.id) === String(result.id))) return
+
+            try {
+                const found = await loadThrough(threadId, hit.peer_id, result.id)
+                if (!found) {
+                    jumpTo(null)
+                    toast.error("That message is no longer in this conversation.")
+                }
+            } catch (err) {
+                jumpTo(null)
+                toast.error(err instanceof Error ? err.message : "Failed to load this conversation.")
+            }
+        },
+        [myUserId, messages, openConversation, jumpTo, loadThrough],
+    )
 
     // Fetch recipients from DB (debounced)
     React.useEffect(() => {
@@ -1575,7 +1672,8 @@ const CounselorMessages: React.FC = () => {
             if (markInflightRef.current.has(threadId)) return
 
             const unread = messages.filter((m) => m.threadId === threadId && m.isUnread)
-            if (unread.length === 0) return
+            const summary = summaries[threadId] ?? null
+            if (unread.length === 0 && !(summary && summary.unreadCount > 0)) return
 
             markInflightRef.current.add(threadId)
             try {
@@ -1583,11 +1681,17 @@ const CounselorMessages: React.FC = () => {
                     .map((m) => (typeof m.id === "number" ? m.id : Number.NaN))
                     .filter((n) => Number.isInteger(n)) as number[]
 
-                if (numericIds.length > 0) {
-                    await counselorInboxMarkRead(numericIds, token)
+                // With the peer id the server also clears unread messages not loaded yet
+                if (summary?.peerId != null) {
+                    await counselorInboxMarkRead({ peer_id: summary.peerId }, token)
+                } else if (numericIds.length > 0) {
+                    await counselorInboxMarkRead({ message_ids: numericIds }, token)
                 }
 
                 setMessages((prev) => prev.map((m) => (m.threadId === threadId ? { ...m, isUnread: false } : m)))
+                setSummaries((prev) =>
+                    prev[threadId] ? { ...prev, [threadId]: { ...prev[threadId], unreadCount: 0 } } : prev,
+                )
             } catch (err: any) {
                 if (!opts?.silent) {
                     if (err?.status === 401) toast.error("Unauthorized (401). Please log in again.")
@@ -1597,7 +1701,7 @@ const CounselorMessages: React.FC = () => {
                 markInflightRef.current.delete(threadId)
             }
         },
-        [messages, token],
+        [messages, summaries, token],
     )
 
     /**
@@ -1694,7 +1798,8 @@ const CounselorMessages: React.FC = () => {
         openedThreadIdsRef.current.add(activeConversation.threadId)
 
         const text = draft.trim()
-        if (!text) return
+        const files = draftFiles
+        if (!text && files.length === 0) return
 
         if (!activeConversation.peerId) {
             toast.error("This conversation has no recipient id. Please refresh.")
@@ -1720,6 +1825,8 @@ const CounselorMessages: React.FC = () => {
             content: text,
             createdAt: nowIso,
             isUnread: false,
+            isSeen: false,
+            attachments: [],
 
             senderId: myUserId || null,
             recipientRole: activeConversation.peerRole,
@@ -1728,6 +1835,7 @@ const CounselorMessages: React.FC = () => {
 
         setMessages((prev) => [...prev, optimistic])
         setDraft("")
+        setDraftFiles([])
         setIsSending(true)
 
         try {
@@ -1735,6 +1843,7 @@ const CounselorMessages: React.FC = () => {
                 content: text,
                 recipient_role: activeConversation.peerRole,
                 recipient_id: activeConversation.peerId,
+                attachments: files,
             }
 
             // ✅ CRITICAL FIX (NO DUPLICATE THREADS):
@@ -1747,8 +1856,8 @@ const CounselorMessages: React.FC = () => {
             }
 
             const res = await counselorInboxSend(payload, token)
-            const dto = res?.messageRecord ?? res?.message ?? null
-            const serverMsg = dto ? mapDtoToUi(dto, myUserId, counselorName) : null
+            const raw = res?.messageRecord ?? res?.message ?? null
+            const serverMsg = raw && typeof raw === "object" ? mapDtoToUi(parseMessage(raw), myUserId, counselorName) : null
 
             if (serverMsg) {
                 setMessages((prev) =>
@@ -1788,6 +1897,7 @@ const CounselorMessages: React.FC = () => {
             void markThreadReadById(activeConversation.threadId, { silent: true })
         } catch (err: any) {
             setMessages((prev) => prev.filter((m) => m.id !== tempId))
+            setDraftFiles(files)
             if (err?.status === 401) toast.error("Unauthorized (401). Please log in again.")
             else toast.error(err instanceof Error ? err.message : "Failed to send message.")
         } finally {
@@ -1796,9 +1906,13 @@ const CounselorMessages: React.FC = () => {
     }
 
     // ===== Edit / Delete message =====
+    // Own messages can be edited or deleted for everyone within the edit window;
+    // any message can be deleted for yourself.
     const isMine = (m: UiMessage) => m.sender === "counselor" && String(m.senderId ?? "") === myUserId
-    const canEdit = (m: UiMessage) => m.sender !== "system" && isMine(m)
+    const canEdit = (m: UiMessage) =>
+        m.sender !== "system" && isMine(m) && !m.deletedAt && typeof m.id === "number" && isWithinEditWindow(m.createdAt)
     const canDelete = (m: UiMessage) => m.sender !== "system"
+    const canDeleteForEveryone = (m: UiMessage) => canEdit(m)
 
     const openEdit = (m: UiMessage) => {
         setEditingMessage(m)
@@ -1816,19 +1930,22 @@ const CounselorMessages: React.FC = () => {
 
         const id = editingMessage.id
         const prevContent = editingMessage.content
+        const prevEditedAt = editingMessage.editedAt ?? null
 
         setIsSavingEdit(true)
-        setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: next } : m)))
+        setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: next, editedAt: new Date().toISOString() } : m)))
 
         try {
-            if (typeof id === "number") {
-                await tryUpdateMessageApi(id, next, token)
-            }
+            const res = await editMessage(id, next)
+            const saved = res.messageRecord
+            setMessages((prev) =>
+                prev.map((m) => (m.id === id ? { ...m, content: saved.content, editedAt: saved.edited_at ?? m.editedAt } : m)),
+            )
             setEditOpen(false)
             setEditingMessage(null)
             toast.success("Message updated.")
         } catch (err) {
-            setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: prevContent } : m)))
+            setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: prevContent, editedAt: prevEditedAt } : m)))
             toast.error(err instanceof Error ? err.message : "Failed to update message.")
         } finally {
             setIsSavingEdit(false)
@@ -1840,12 +1957,34 @@ const CounselorMessages: React.FC = () => {
         setDeleteMsgOpen(true)
     }
 
-    const confirmDeleteMessage = async () => {
+    const confirmDeleteMessage = async (scope: MessageDeleteScope) => {
         if (!deletingMessage) return
 
         const target = deletingMessage
         setIsDeletingMsg(true)
 
+        if (scope === "everyone") {
+            try {
+                const res = await deleteMessage(target.id, "everyone")
+                setMessages((prev) =>
+                    prev.map((m) =>
+                        m.id === target.id
+                            ? { ...m, content: "", attachments: [], deletedAt: res.messageRecord?.deleted_at ?? new Date().toISOString() }
+                            : m,
+                    ),
+                )
+                toast.success("Message deleted for everyone.")
+                setDeleteMsgOpen(false)
+                setDeletingMessage(null)
+                void loadSummaries().catch(() => undefined)
+            } catch (err) {
+                toast.error(err instanceof Error ? err.message : "Failed to delete message.")
+            } finally {
+                setIsDeletingMsg(false)
+            }
+            return
+        }
+
         let removed: { msg: UiMessage; index: number } | null = null
 
         setMessages((prev) => {
@@ -1856,11 +1995,14 @@ const CounselorMessages: React.FC = () => {
 
         try {
             if (typeof target.id === "number") {
-                await tryDeleteMessageApi(target.id, token)
+                await deleteMessage(target.id, "me")
             }
-            toast.success("Message deleted.")
+            toast.success("Message deleted for you.")
             setDeleteMsgOpen(false)
             setDeletingMessage(null)
+
+            // The deleted message may have been the thread's preview
+            void loadSummaries().catch(() => undefined)
         } catch (err) {
             if (removed) {
                 setMessages((prev) => {
@@ -1893,10 +2035,16 @@ const CounselorMessages: React.FC = () => {
         const removedPayload = {
             messages: toDelete,
             draft: draftConversations.find((d) => d.threadId === threadId) ?? null,
+            summary: summaries[threadId] ?? null,
         }
 
         setMessages((prev) => prev.filter((m) => m.threadId !== threadId))
         setDraftConversations((prev) => prev.filter((d) => d.threadId !== threadId))
+        setSummaries((prev) => {
+            const next = { ...prev }
+            delete next[threadId]
+            return next
+        })
 
         try {
             // Prefer backend conversation id, fallback to thread id (some APIs accept thread keys)
@@ -1913,6 +2061,7 @@ const CounselorMessages: React.FC = () => {
         } catch (err) {
             setMessages((prev) => [...prev, ...removedPayload.messages])
             if (removedPayload.draft) setDraftConversations((prev) => [removedPayload.draft!, ...prev])
+            if (removedPayload.summary) setSummaries((prev) => ({ ...prev, [threadId]: removedPayload.summary! }))
             toast.error(err instanceof Error ? err.message : "Failed to delete conversation.")
         } finally {
             setIsDeletingConvo(false)
@@ -1966,6 +2115,16 @@ const CounselorMessages: React.FC = () => {
                                         {showNewMessage ? "Close new message" : "Create new message"}
                                     </Button>
 
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        className="mt-2 h-10 w-full text-[0.85rem] sm:h-9 sm:text-xs"
+                                        onClick={() => setSearchOpen(true)}
+                                    >
+                                        <Search className="mr-2 h-4 w-4" />
+                                        Search messages
+                                    </Button>
+
                                     {showNewMessage ? (
                                         <div className="mt-3 rounded-xl border bg-card/70 p-3">
                                             <div className="grid grid-cols-1 gap-2">
@@ -2247,11 +2406,20 @@ const CounselorMessages: React.FC = () => {
 
                                 <ScrollArea className="h-[480px] bg-linear-to-b from-muted/40 to-background sm:h-[520px]">
                                     <div className="space-y-3 p-3 sm:p-4">
+                                        <div ref={topRef} />
+                                        {activeConversation && activeMessages.length > 0 ? (
+                                            activeHistory.loading ? (
+                                                <div className="text-center text-xs text-muted-foreground">Loading messages…</div>
+                                            ) : activeHistory.loaded && !activeHistory.hasMore ? (
+                                                <div className="text-center text-xs text-muted-foreground">Start of conversation</div>
+                                            ) : null
+                                        ) : null}
+
                                         {!activeConversation ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">
                                                 Choose a conversation from the left.
                                             </div>
-                                        ) : isLoading ? (
+                                        ) : isLoading || (activeHistory.loading && activeMessages.length === 0) ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">Loading messages…</div>
                                         ) : activeMessages.length === 0 ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">No messages yet.</div>
@@ -2268,7 +2436,7 @@ const CounselorMessages: React.FC = () => {
                                                         : "border-border bg-card text-foreground"
 
                                                 return (
-                                                    <div key={m.id} className={cn("flex", align)}>
+                                                    <div key={m.id} data-message-id={String(m.id)} className={cn("flex", align)}>
                                                         <div className="max-w-[94%] sm:max-w-[86%]">
                                                             {system ? (
                                                                 <div className="mb-1 text-center text-[0.70rem] text-muted-foreground">
@@ -2290,6 +2458,17 @@ const CounselorMessages: React.FC = () => {
                                                                     <span className="sm:hidden">{formatTimeOnly(m.createdAt)}</span>
                                                                     <span className="hidden sm:inline">{formatTimestamp(m.createdAt)}</span>
 
+                                                                    {m.editedAt && !m.deletedAt ? (
+                                                                        <span title={formatTimestamp(m.editedAt)}>(edited)</span>
+                                                                    ) : null}
+
+                                                                    {mine && m.isSeen ? (
+                                                                        <span className="inline-flex items-center gap-0.5 text-emerald-700">
+                                                                            <CheckCheck className="h-3 w-3" />
+                                                                            Seen
+                                                                        </span>
+                                                                    ) : null}
+
                                                                     {(canEdit(m) || canDelete(m)) && (
                                                                         <DropdownMenu>
                                                                             <DropdownMenuTrigger asChild>
@@ -2335,11 +2514,22 @@ const CounselorMessages: React.FC = () => {
 
                                                             <div
                                                                 className={cn(
-                                                                    "rounded-2xl border px-3 py-2 text-[0.90rem] leading-relaxed shadow-sm sm:text-sm",
+                                                                    "rounded-2xl border px-3 py-2 text-[0.90rem] leading-relaxed shadow-sm transition-shadow sm:text-sm",
                                                                     bubble,
+                                                                    highlightedId === String(m.id) && "ring-2 ring-amber-400 ring-offset-2",
                                                                 )}
                                                             >
-                                                                {m.content}
+                                                                {m.deletedAt ? (
+                                                                    <span className="italic text-muted-foreground">{DELETED_MESSAGE_TEXT}</span>
+                                                                ) : (
+                                                                    <>
+                                                                        {m.content}
+                                                                        <MessageAttachmentList
+                                                                            attachments={m.attachments}
+                                                                            className={m.content ? "mt-2" : undefined}
+                                                                        />
+                                                                    </>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     </div>
@@ -2354,6 +2544,11 @@ const CounselorMessages: React.FC = () => {
                                 <form onSubmit={handleSend} className="border-t bg-card/70 p-3 sm:p-4">
                                     <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:gap-2">
                                         <div className="flex-1">
+                                            <SelectedAttachments
+                                                files={draftFiles}
+                                                onRemove={(index) => setDraftFiles((prev) => prev.filter((_, i) => i !== index))}
+                                                disabled={isSending}
+                                            />
                                             <Textarea
                                                 value={draft}
                                                 onChange={(e) => setDraft(e.target.value)}
@@ -2363,10 +2558,16 @@ const CounselorMessages: React.FC = () => {
                                             />
                                         </div>
 
+                                        <AttachmentPickerButton
+                                            files={draftFiles}
+                                            onChange={setDraftFiles}
+                                            disabled={!activeConversation || isSending}
+                                        />
+
                                         <Button
                                             type="submit"
                                             className="h-11 w-full rounded-2xl px-5 sm:h-11 sm:w-auto"
-                                            disabled={!activeConversation || isSending || !draft.trim()}
+                                            disabled={!activeConversation || isSending || (!draft.trim() && draftFiles.length === 0)}
                                         >
                                             {isSending ? "Sending…" : "Send"}
                                         </Button>
@@ -2378,11 +2579,21 @@ const CounselorMessages: React.FC = () => {
                 </Card>
 
                 {/* Edit dialog */}
+                <MessageSearchDialog
+                    open={searchOpen}
+                    onOpenChange={setSearchOpen}
+                    conversations={searchConversationOptions}
+                    search={runMessageSearch}
+                    onSelect={(result) => void openSearchResult(result)}
+                />
+
                 <Dialog open={editOpen} onOpenChange={(v) => (!isSavingEdit ? setEditOpen(v) : null)}>
                     <DialogContent>
                         <DialogHeader>
                             <DialogTitle>Edit message</DialogTitle>
-                            <DialogDescription>Update your message then save.</DialogDescription>
+                            <DialogDescription>
+                                Messages can be edited within {MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending. The other person sees that it was edited.
+                            </DialogDescription>
                         </DialogHeader>
 
                         <Textarea value={editDraft} onChange={(e) => setEditDraft(e.target.value)} className="min-h-28" />
@@ -2403,17 +2614,34 @@ const CounselorMessages: React.FC = () => {
                     <AlertDialogContent>
                         <AlertDialogHeader>
                             <AlertDialogTitle>Delete message?</AlertDialogTitle>
-                            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+                            <AlertDialogDescription>
+                                {deletingMessage && canDeleteForEveryone(deletingMessage)
+                                    ? "Delete it from your inbox only, or for everyone in this conversation."
+                                    : "It will be removed from your inbox only. This action cannot be undone."}
+                            </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
                             <AlertDialogCancel disabled={isDeletingMsg}>Cancel</AlertDialogCancel>
                             <AlertDialogAction
-                                onClick={confirmDeleteMessage}
+                                onClick={() => void confirmDeleteMessage("me")}
                                 disabled={isDeletingMsg}
-                                className="bg-destructive text-white hover:bg-destructive/90"
+                                className={
+                                    deletingMessage && canDeleteForEveryone(deletingMessage)
+                                        ? undefined
+                                        : "bg-destructive text-white hover:bg-destructive/90"
+                                }
                             >
-                                {isDeletingMsg ? "Deleting…" : "Delete"}
+                                {isDeletingMsg ? "Deleting…" : "Delete for me"}
                             </AlertDialogAction>
+                            {deletingMessage && canDeleteForEveryone(deletingMessage) ? (
+                                <AlertDialogAction
+                                    onClick={() => void confirmDeleteMessage("everyone")}
+                                    disabled={isDeletingMsg}
+                                    className="bg-destructive text-white hover:bg-destructive/90"
+                                >
+                                    Delete for everyone
+                                </AlertDialogAction>
+                            ) : null}
                         </AlertDialogFooter>
                     </AlertDialogContent>
                 </AlertDialog>
@@ -18,12 +18,20 @@ import {
     Users as UsersIcon,
 } from "lucide-react";
 
-import { AUTH_API_BASE_URL, buildJsonHeaders } from "@/api/auth/route";
-import type { IntakeAssessmentDto, MentalFrequencyApi, IntakeRequestDto } from "@/api/intake/route";
-import { fetchCounselorMessages, type CounselorMessage } from "@/lib/messages";
+import { apiFetch } from "@/api/client";
+import type { IntakeAssessmentDto, IntakeRequestDto } from "@/api/intake/route";
+import { fetchCounselorConversations, type MessageConversation } from "@/lib/messages";
 import { fetchCounselorReferrals, type Referral } from "@/lib/referrals";
+import {
+    APPOINTMENT_STATUSES,
+    APPOINTMENT_STATUS_LABELS,
+    formatAppointmentStatus,
+    normalizeAppointmentStatus,
+    type AppointmentStatus,
+} from "@/lib/appointment-status";
 import { getCurrentSession } from "@/lib/authentication";
 import { normalizeRole } from "@/lib/role";
+import { PHQ9_SEVERITY_BANDS, scorePhq9 } from "@/lib/phq9";
 
 import {
     ResponsiveContainer,
@@ -41,107 +49,7 @@ import {
     Line,
 } from "recharts";
 
-// ===== Intake helpers (PHQ-style) =====
-const FREQUENCY_SCORES: Record<MentalFrequencyApi, number> = {
-    not_at_all: 0,
-    several_days: 1,
-    more_than_half: 2,
-    nearly_every_day: 3,
-};
-
-const MH_KEYS: (keyof IntakeAssessmentDto)[] = [
-    "mh_little_interest",
-    "mh_feeling_down",
-    "mh_sleep",
-    "mh_energy",
-    "mh_appetite",
-    "mh_self_esteem",
-    "mh_concentration",
-    "mh_motor",
-    "mh_self_harm",
-];
-
-function calculatePhqScore(assessment: IntakeAssessmentDto): { score: number; answered: number } {
-    let score = 0;
-    let answered = 0;
-
-    for (const key of MH_KEYS) {
-        const value = assessment[key] as MentalFrequencyApi | null | undefined;
-        if (!value) continue;
-        if (value in FREQUENCY_SCORES) {
-            score += FREQUENCY_SCORES[value];
-            answered += 1;
-        }
-    }
-
-    return { score, answered };
-}
-
-function phqSeverityLabel(score: number): string {
-    if (score <= 4) return "Minimal";
-    if (score <= 9) return "Mild";
-    if (score <= 14) return "Moderate";
-    if (score <= 19) return "Moderately severe";
-    return "Severe";
-}
-
 // ===== shared helpers =====
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.");
-    }
-    const trimmed = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmed}`;
-}
-
-async function counselorApiFetch<T>(path: string, init: RequestInit = {}, token?: string | null): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    // ✅ Use shared header builder so Bearer token from storage is auto-attached
-    // and still allow explicit override via `token`.
-    const mergedHeaders: HeadersInit = {
-        ...(init.headers ?? {}),
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    };
-
-    const res = await fetch(url, {
-        ...init,
-        headers: buildJsonHeaders(mergedHeaders),
-        credentials: "include",
-    });
-
-    const text = await res.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!res.ok) {
-        const body = data as any;
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object" ? (Object.values(body.errors)[0] as any)?.[0] : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            res.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const err = new Error(message) as Error & { status?: number; data?: unknown };
-        err.status = res.status;
-        err.data = body ?? text;
-        throw err;
-    }
-
-    return data as T;
-}
-
 function formatDateTime(dateString?: string | null): string {
     if (!dateString || typeof dateString !== "string") return "—";
     try {
@@ -240,7 +148,7 @@ async function fetchAssessments(token?: string | null): Promise<IntakeAssessment
 
     for (const path of tryPaths) {
         try {
-            const raw = await counselorApiFetch<any>(path, { method: "GET" }, token);
+            const raw = await apiFetch<any>(path, { method: "GET", token });
 
             const list =
                 Array.isArray(raw) && raw.length && typeof raw[0] === "object"
@@ -275,7 +183,7 @@ async function fetchRequests(token?: string | null): Promise<IntakeRequestDto[]>
 
     for (const path of tryPaths) {
         try {
-            const raw = await counselorApiFetch<any>(path, { method: "GET" }, token);
+            const raw = await apiFetch<any>(path, { method: "GET", token });
 
             const list =
                 Array.isArray(raw) && raw.length && typeof raw[0] === "object"
@@ -361,7 +269,7 @@ async function fetchCounselorStudentAndGuestUsers(token?: string | null): Promis
 
     for (const path of endpoints) {
         try {
-            const data = await counselorApiFetch<any>(path, { method: "GET" }, token);
+            const data = await apiFetch<any>(path, { method: "GET", token });
             const arr = extractUsersArray(data);
 
             const mapped = arr.map(mapToDirectoryUser).filter(Boolean) as DirectoryUser[];
@@ -392,20 +300,6 @@ async function fetchCounselorStudentAndGuestUsers(token?: string | null): Promis
     return merged;
 }
 
-// ===== Messages helpers =====
-function isUnreadFlag(dto: CounselorMessage): boolean {
-    return (dto as any)?.is_read === false || (dto as any)?.is_read === 0;
-}
-
-function safeConversationId(dto: CounselorMessage): string {
-    const raw = (dto as any)?.conversation_id ?? (dto as any)?.conversationId ?? dto.conversation_id;
-    if (raw != null && String(raw).trim()) return String(raw);
-
-    const sender = String(dto.sender ?? "system");
-    const userId = (dto as any)?.user_id ?? dto.user_id ?? "";
-    return userId ? `${sender}-${userId}` : "general";
-}
-
 const PIE_COLORS = ["#f59e0b", "#10b981", "#3b82f6", "#ef4444", "#a855f7", "#64748b"];
 const DAY_MS = 24 * 60 * 60 * 1000;
 
@@ -415,7 +309,7 @@ const CounselorOverview: React.FC = () => {
 
     const [assessments, setAssessments] = React.useState<IntakeAssessmentDto[]>([]);
     const [requests, setRequests] = React.useState<IntakeRequestDto[]>([]);
-    const [messages, setMessages] = React.useState<CounselorMessage[]>([]);
+    const [conversations, setConversations] = React.useState<MessageConversation[]>([]);
     const [referrals, setReferrals] = React.useState<Referral[]>([]);
     const [users, setUsers] = React.useState<DirectoryUser[]>([]);
 
@@ -438,7 +332,7 @@ const CounselorOverview: React.FC = () => {
             const settled = await Promise.allSettled([
                 fetchAssessments(token),
                 fetchRequests(token),
-                fetchCounselorMessages().then((r) => (Array.isArray(r?.messages) ? r.messages : []) as CounselorMessage[]),
+                fetchCounselorConversations(),
                 fetchCounselorReferrals({ status: "all", per_page: 200 }),
                 fetchCounselorStudentAndGuestUsers(token),
             ]);
@@ -465,9 +359,9 @@ const CounselorOverview: React.FC = () => {
 
             if (mRes.status === "fulfilled") {
                 const sorted = [...mRes.value].sort(
-                    (x, y) => (Date.parse(y.created_at ?? "") || 0) - (Date.parse(x.created_at ?? "") || 0),
+                    (x, y) => (Date.parse(y.last_message_at) || 0) - (Date.parse(x.last_message_at) || 0),
                 );
-                setMessages(sorted);
+                setConversations(sorted);
                 anyOk = true;
             }
 
@@ -525,16 +419,15 @@ const CounselorOverview: React.FC = () => {
     const intakeStats = React.useMemo(() => {
         const total = assessments.length;
 
-        const scored = assessments.map((a) => ({ a, s: calculatePhqScore(a).score }));
-        const avg = scored.length ? scored.reduce((sum, x) => sum + x.s, 0) / scored.length : 0;
+        const scored = assessments.map((a) => scorePhq9(a));
+        const avg = scored.length ? scored.reduce((sum, x) => sum + x.score, 0) / scored.length : 0;
 
         const severityCounts = new Map<string, number>();
-        for (const { s } of scored) {
-            const label = phqSeverityLabel(s);
-            severityCounts.set(label, (severityCounts.get(label) ?? 0) + 1);
+        for (const { severity } of scored) {
+            severityCounts.set(severity, (severityCounts.get(severity) ?? 0) + 1);
         }
 
-        const severityData = ["Minimal", "Mild", "Moderate", "Moderately severe", "Severe"].map((name) => ({
+        const severityData = PHQ9_SEVERITY_BANDS.map((name) => ({
             name,
             value: severityCounts.get(name) ?? 0,
         }));
@@ -548,13 +441,13 @@ const CounselorOverview: React.FC = () => {
                 : 0;
 
         const recent = assessments.slice(0, 5).map((x) => {
-            const { score } = calculatePhqScore(x);
+            const { score, severity } = scorePhq9(x);
             return {
                 id: x.id,
                 student: getStudentDisplayNameFromDirectory(x, directoryNameById),
                 submitted: formatDateTime(x.created_at),
                 score,
-                severity: phqSeverityLabel(score),
+                severity,
             };
         });
 
@@ -564,13 +457,13 @@ const CounselorOverview: React.FC = () => {
     const apptStats = React.useMemo(() => {
         const total = requests.length;
 
-        const byStatus = new Map<string, number>();
+        const byStatus = new Map<AppointmentStatus, number>();
         const byUrgency = new Map<string, number>();
 
         let finalSet = 0;
 
         for (const r of requests) {
-            const status = String((r as any)?.status ?? "pending").toLowerCase();
+            const status = normalizeAppointmentStatus((r as any)?.status);
             const urgency = String((r as any)?.urgency ?? "").toLowerCase();
 
             byStatus.set(status, (byStatus.get(status) ?? 0) + 1);
@@ -580,8 +473,8 @@ const CounselorOverview: React.FC = () => {
             if (hasFinal) finalSet += 1;
         }
 
-        const statusData = ["pending", "scheduled", "completed", "cancelled"].map((k) => ({
-            name: niceLabel(k),
+        const statusData = APPOINTMENT_STATUSES.map((k) => ({
+            name: APPOINTMENT_STATUS_LABELS[k],
             value: byStatus.get(k) ?? 0,
         }));
 
@@ -594,36 +487,34 @@ const CounselorOverview: React.FC = () => {
             id: x.id,
             student: getStudentDisplayNameFromDirectory(x, directoryNameById),
             requested: formatDateTime(x.created_at),
-            status: niceLabel(String((x as any)?.status ?? "pending")),
+            status: formatAppointmentStatus((x as any)?.status),
             concern: niceLabel(String((x as any)?.concern_type ?? "")) || "—",
         }));
 
-        const pending = byStatus.get("pending") ?? 0;
-        const scheduled = byStatus.get("scheduled") ?? 0;
+        const pending = byStatus.get("requested") ?? 0;
+        const scheduled = (byStatus.get("scheduled") ?? 0) + (byStatus.get("rescheduled") ?? 0);
 
         return { total, pending, scheduled, finalSet, statusData, urgencyData, recent };
     }, [requests, directoryNameById]);
 
     const messageStats = React.useMemo(() => {
-        const total = messages.length;
-        const unread = messages.filter((m) => isUnreadFlag(m)).length;
-
-        const conversations = new Set<string>();
-        for (const m of messages) conversations.add(safeConversationId(m));
-
-        const recent = messages.slice(0, 5).map((m) => ({
-            id: m.id,
-            sender: niceLabel(String(m.sender ?? "system")),
-            content: String((m as any)?.content ?? "").slice(0, 80),
-            created: formatDateTime(m.created_at),
-            isUnread: isUnreadFlag(m),
+        const conversationCount = conversations.length;
+        const unread = conversations.reduce((sum, c) => sum + c.unread_count, 0);
+        const unreadConversations = conversations.filter((c) => c.unread_count > 0).length;
+
+        const recent = conversations.slice(0, 5).map((c) => ({
+            id: c.peer_id,
+            peer: c.peer_name?.trim() || niceLabel(c.peer_role),
+            content: c.last_message.content.slice(0, 80),
+            created: formatDateTime(c.last_message_at),
+            unreadCount: c.unread_count,
         }));
 
         if (snapshotNowTs <= 0) {
-            return { total, unread, conversationCount: conversations.size, timeline: [], recent };
+            return { conversationCount, unread, unreadConversations, timeline: [], recent };
         }
 
-        // ✅ last 14 days timeline
+        // ✅ last 14 days timeline (by day of each conversation's latest message)
         const days = 14;
         const base = new Date(snapshotNowTs);
         const buckets = new Map<string, number>();
@@ -635,8 +526,8 @@ const CounselorOverview: React.FC = () => {
             buckets.set(key, 0);
         }
 
-        for (const m of messages) {
-            const t = Date.parse(m.created_at ?? "");
+        for (const c of conversations) {
+            const t = Date.parse(c.last_message_at);
             if (!Number.isFinite(t)) continue;
             const key = format(new Date(t), "yyyy-MM-dd");
             if (buckets.has(key)) buckets.set(key, (buckets.get(key) ?? 0) + 1);
@@ -647,8 +538,8 @@ const CounselorOverview: React.FC = () => {
             count,
         }));
 
-        return { total, unread, conversationCount: conversations.size, timeline, recent };
-    }, [messages, snapshotNowTs]);
+        return { conversationCount, unread, unreadConversations, timeline, recent };
+    }, [conversations, snapshotNowTs]);
 
     const referralStats = React.useMemo(() => {
         const total = referrals.length;
@@ -832,7 +723,8 @@ const CounselorOverview: React.FC = () => {
                                 <span className="font-semibold text-amber-900">{messageStats.conversationCount}</span>
                             </div>
                             <div className="text-xs text-muted-foreground">
-                                Total msgs: <span className="font-semibold text-amber-900">{messageStats.total}</span>
+                                With unread:{" "}
+                                <span className="font-semibold text-amber-900">{messageStats.unreadConversations}</span>
                             </div>
                             <div className="text-xs text-muted-foreground">
                                 Unread: <span className="font-semibold text-amber-900">{messageStats.unread}</span>
@@ -945,8 +837,8 @@ const CounselorOverview: React.FC = () => {
 
                     <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
                         <CardHeader className="space-y-1">
-                            <CardTitle className="text-sm font-semibold text-amber-900">Messages (last 14 days)</CardTitle>
-                            <CardDescription className="text-[0.7rem]">Total messages per day</CardDescription>
+                            <CardTitle className="text-sm font-semibold text-amber-900">Conversations (last 14 days)</CardTitle>
+                            <CardDescription className="text-[0.7rem]">Conversations by day of their latest message</CardDescription>
                         </CardHeader>
                         <CardContent>
                             <div className="h-64">
@@ -1179,11 +1071,11 @@ const CounselorOverview: React.FC = () => {
 
                     <Card className="border-amber-100/80 bg-white/80 shadow-sm shadow-amber-100/60 backdrop-blur">
                         <CardHeader className="space-y-1">
-                            <CardTitle className="text-sm font-semibold text-amber-900">Recent messages</CardTitle>
-                            <CardDescription className="text-[0.7rem]">Latest 5 messages</CardDescription>
+                            <CardTitle className="text-sm font-semibold text-amber-900">Recent conversations</CardTitle>
+                            <CardDescription className="text-[0.7rem]">Latest message of the 5 most recent conversations</CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-2">
-                            {isLoading && messages.length === 0 ? (
+                            {isLoading && conversations.length === 0 ? (
                                 <div className="flex items-center justify-center py-6 text-xs text-muted-foreground">
                                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                                     Loading…
@@ -1201,13 +1093,13 @@ const CounselorOverview: React.FC = () => {
                                         >
                                             <div className="flex flex-wrap items-center justify-between gap-2">
                                                 <div className="flex items-center gap-2 font-semibold text-amber-900">
-                                                    <span>{m.sender}</span>
-                                                    {m.isUnread ? (
+                                                    <span>{m.peer}</span>
+                                                    {m.unreadCount > 0 ? (
                                                         <Badge
                                                             variant="secondary"
                                                             className="rounded-full px-2 py-0.5 text-[0.65rem] font-semibold"
                                                         >
-                                                            NEW
+                                                            {m.unreadCount} NEW
                                                         </Badge>
                                                     ) : null}
                                                 </div>
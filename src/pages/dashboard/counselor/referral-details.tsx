@@ -10,15 +10,17 @@ import {
     BadgeInfo,
     Calendar,
     Clock,
+    NotebookPen,
     Trash2,
 } from "lucide-react"
 
 import DashboardLayout from "@/components/DashboardLayout"
+import { SessionNotesPanel } from "@/components/session-notes-panel"
 import { cn } from "@/lib/utils"
 
-import { fetchCounselorReferralById, updateCounselorReferral } from "@/lib/referrals"
-import { getCurrentSession } from "@/lib/authentication"
-import { AUTH_API_BASE_URL } from "@/api/auth/route"
+import { fetchCounselorReferralById, updateCounselorReferral, type Referral } from "@/lib/referrals"
+import { apiFetch } from "@/api/client"
+import { describeScheduleConflict, fetchAvailableSlots, timeToMinutes } from "@/lib/availability"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -34,42 +36,7 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 
 type ReferralStatus = "pending" | "handled" | "closed" | string
 
-type UserMini = {
-    id: number | string
-    name?: string | null
-    email?: string | null
-    role?: string | null
-}
-
-type ReferralView = {
-    id: number | string
-    status: ReferralStatus
-    concern_type?: string | null
-    urgency?: string | null
-    details?: string | null
-
-    remarks?: string | null
-    handled_at?: string | null
-    closed_at?: string | null
-
-    // ✅ Appointment (counselor sets this)
-    scheduled_date?: string | null // YYYY-MM-DD
-    scheduled_time?: string | null // e.g. "8:00 AM" or "14:30"
-
-    created_at?: string | null
-    updated_at?: string | null
-
-    student?: UserMini | null
-    requestedBy?: UserMini | null
-    counselor?: UserMini | null
-
-    student_name?: string | null
-    student_email?: string | null
-
-    requested_by_name?: string | null
-    requested_by_role?: string | null
-    requested_by_email?: string | null
-}
+type ReferralView = Referral
 
 type DirectoryUser = {
     id: number | string
@@ -183,164 +150,16 @@ function toDateOnlyLabel(value?: string | null) {
     return d.toLocaleDateString()
 }
 
-function normalizeUserMini(raw: any): UserMini | null {
-    if (!raw) return null
-    return {
-        id: raw?.id ?? "",
-        name: raw?.name ?? null,
-        email: raw?.email ?? null,
-        role: raw?.role ?? null,
-    }
-}
-
-function normalizeReferral(raw: any): ReferralView {
-    const student = normalizeUserMini(raw?.student) ?? null
-    const requestedBy =
-        normalizeUserMini(raw?.requested_by) ??
-        normalizeUserMini(raw?.requestedBy) ??
-        null
-    const counselor = normalizeUserMini(raw?.counselor) ?? null
-
-    // ✅ appointment fallbacks (just in case backend uses different naming)
-    const scheduledDate =
-        raw?.scheduled_date ??
-        raw?.appointment_date ??
-        raw?.schedule_date ??
-        raw?.counseling_date ??
-        null
-
-    const scheduledTime =
-        raw?.scheduled_time ??
-        raw?.appointment_time ??
-        raw?.schedule_time ??
-        raw?.counseling_time ??
-        null
-
-    return {
-        id: raw?.id ?? "",
-        status: raw?.status ?? "pending",
-        concern_type: raw?.concern_type ?? raw?.concern ?? null,
-        urgency: raw?.urgency ?? null,
-        details: raw?.details ?? null,
-
-        remarks: raw?.remarks ?? null,
-        handled_at: raw?.handled_at ?? null,
-        closed_at: raw?.closed_at ?? null,
-
-        scheduled_date: scheduledDate,
-        scheduled_time: scheduledTime,
-
-        created_at: raw?.created_at ?? null,
-        updated_at: raw?.updated_at ?? null,
-
-        student,
-        requestedBy,
-        counselor,
-
-        student_name: raw?.student_name ?? null,
-        student_email: raw?.student_email ?? null,
-
-        requested_by_name: raw?.requested_by_name ?? null,
-        requested_by_role: raw?.requested_by_role ?? null,
-        requested_by_email: raw?.requested_by_email ?? null,
-    }
-}
-
-function trimSlash(s: string) {
-    return s.replace(/\/+$/, "")
-}
-
-function resolveLaravelBaseUrl(): string {
-    const env = (import.meta as any)?.env ?? {}
-
-    const fromEnv =
-        env?.VITE_API_LARAVEL_BASE_URL ||
-        env?.VITE_LARAVEL_API_BASE_URL ||
-        env?.VITE_API_BASE_URL ||
-        ""
-
-    const fromAuthConst = typeof AUTH_API_BASE_URL === "string" ? AUTH_API_BASE_URL : ""
-
-    const raw = String(fromEnv || fromAuthConst || "").trim()
-
-    if (raw) return trimSlash(raw)
-
-    // ✅ dev-friendly fallback (prevents the app from crashing if env isn't injected)
-    // Only applies on localhost to avoid breaking production accidentally.
-    const isDev = Boolean(env?.DEV)
-    const onLocalhost =
-        typeof window !== "undefined" &&
-        (window.location.hostname === "localhost" || window.location.hostname === "127.0.0.1")
-
-    if (isDev && onLocalhost) return "http://localhost:8000"
-
-    return ""
-}
-
-function getSessionToken(): string | null {
-    try {
-        const session = getCurrentSession() as any
-        return session?.token ?? session?.access_token ?? null
-    } catch {
-        return null
-    }
-}
-
 async function fetchCounselorsDirectory(search?: string): Promise<DirectoryUser[]> {
-    const qs = new URLSearchParams()
-    qs.set("role", "counselor")
-    qs.set("limit", "50")
-    if (search && search.trim()) qs.set("search", search.trim())
-
-    const base = resolveLaravelBaseUrl()
-
-    if (!base) {
-        throw new Error(
-            [
-                "VITE_API_LARAVEL_BASE_URL is not defined.",
-                "Fix:",
-                "1) Put your frontend .env in the Vite project root (same level as package.json).",
-                "2) Ensure it is named exactly .env (or .env.development).",
-                "3) Restart the Vite dev server after editing env vars.",
-                "Expected: VITE_API_LARAVEL_BASE_URL=http://localhost:8000",
-            ].join("\n"),
-        )
-    }
-
-    const url = `${base}/counselor/users?${qs.toString()}`
-
-    const headers = new Headers()
-    headers.set("Accept", "application/json")
-
-    const token = getSessionToken()
-    if (token) {
-        headers.set("Authorization", `Bearer ${token}`)
-    }
-
-    const res = await fetch(url, {
+    const data = await apiFetch<any>("/counselor/users", {
         method: "GET",
-        headers,
-        credentials: "include",
+        query: {
+            role: "counselor",
+            limit: 50,
+            search: search?.trim(),
+        },
     })
 
-    const text = await res.text()
-    let data: any = null
-    try {
-        data = text ? JSON.parse(text) : null
-    } catch {
-        data = text
-    }
-
-    if (!res.ok) {
-        const msg =
-            data?.message ||
-            data?.error ||
-            (typeof data === "string" && data ? data.slice(0, 220) : "") ||
-            res.statusText ||
-            "Failed to fetch counselors."
-        throw new Error(msg)
-    }
-
     const users = Array.isArray(data?.users) ? data.users : []
     return users.map((u: any) => ({
         id: u?.id ?? "",
@@ -416,6 +235,10 @@ export default function CounselorReferralDetailsPage() {
     const [counselorLoading, setCounselorLoading] = React.useState(false)
     const [counselors, setCounselors] = React.useState<DirectoryUser[]>([])
 
+    // ✅ Open slots of the assigned counselor (null = no counselor yet, any time is allowed)
+    const [openTimes, setOpenTimes] = React.useState<string[] | null>(null)
+    const [openTimesLoading, setOpenTimesLoading] = React.useState(false)
+
     const load = React.useCallback(async () => {
         if (!id) {
             setReferral(null)
@@ -425,8 +248,7 @@ export default function CounselorReferralDetailsPage() {
 
         setLoading(true)
         try {
-            const raw = await fetchCounselorReferralById(id)
-            const data = normalizeReferral(raw)
+            const data = await fetchCounselorReferralById(id)
             setReferral(data)
 
             setStatus(data.status ?? "pending")
@@ -449,8 +271,7 @@ export default function CounselorReferralDetailsPage() {
         if (!id) return
         setRefreshing(true)
         try {
-            const raw = await fetchCounselorReferralById(id)
-            const data = normalizeReferral(raw)
+            const data = await fetchCounselorReferralById(id)
             setReferral(data)
             setStatus(data.status ?? "pending")
             setRemarks(data.remarks ?? "")
@@ -498,6 +319,51 @@ export default function CounselorReferralDetailsPage() {
         }
     }, [counselorSearch])
 
+    React.useEffect(() => {
+        if (!referral?.id || !assignedCounselorId || !scheduledDate) {
+            setOpenTimes(null)
+            return
+        }
+
+        let cancelled = false
+        setOpenTimesLoading(true)
+
+        fetchAvailableSlots({
+            from: scheduledDate,
+            to: scheduledDate,
+            counselor_id: assignedCounselorId,
+            ignore_referral_id: referral.id,
+        })
+            .then((slots) => {
+                if (!cancelled) setOpenTimes(slots.map((slot) => normalizeTimeToHHmm(slot.start_time)))
+            })
+            .catch(() => {
+                // fall back to the plain time list; the backend still rejects double-booking
+                if (!cancelled) setOpenTimes(null)
+            })
+            .finally(() => {
+                if (!cancelled) setOpenTimesLoading(false)
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [assignedCounselorId, referral?.id, scheduledDate])
+
+    const timeOptions = React.useMemo(() => {
+        if (openTimes == null) return TIME_OPTIONS
+
+        const values = new Set(openTimes)
+        // keep the saved value selectable even if it is outside the counselor's open slots
+        if (scheduledTime) values.add(scheduledTime)
+        return Array.from(values)
+            .sort((a, b) => (timeToMinutes(a) ?? 0) - (timeToMinutes(b) ?? 0))
+            .map((value) => ({
+                value,
+                label: openTimes.includes(value) ? timeToLabel(value) : `${timeToLabel(value)} (outside open slots)`,
+            }))
+    }, [openTimes, scheduledTime])
+
     const saveChanges = React.useCallback(async () => {
         if (!referral?.id) return
 
@@ -532,8 +398,7 @@ export default function CounselorReferralDetailsPage() {
                 scheduled_time: time ? time : null, // HH:mm
             }
 
-            const updatedRaw = await updateCounselorReferral(referral.id, payload)
-            const updated = normalizeReferral(updatedRaw)
+            const updated = await updateCounselorReferral(referral.id, payload)
 
             setReferral(updated)
 
@@ -549,7 +414,7 @@ export default function CounselorReferralDetailsPage() {
 
             toast.success("Referral updated successfully.")
         } catch (err: any) {
-            toast.error(err?.message || "Failed to update referral.")
+            toast.error(describeScheduleConflict(err) ?? (err?.message || "Failed to update referral."))
         }
     }, [assignedCounselorId, referral?.id, remarks, scheduledDate, scheduledTime, status])
 
@@ -865,12 +730,16 @@ export default function CounselorReferralDetailsPage() {
                                                     </Label>
 
                                                     {/* ✅ Shadcn Select for convenience */}
-                                                    <Select value={scheduledTime} onValueChange={(v) => setScheduledTime(v)}>
+                                                    <Select
+                                                        value={scheduledTime}
+                                                        onValueChange={(v) => setScheduledTime(v)}
+                                                        disabled={openTimesLoading}
+                                                    >
                                                         <SelectTrigger id="scheduled_time">
-                                                            <SelectValue placeholder="Select time" />
+                                                            <SelectValue placeholder={openTimesLoading ? "Loading…" : "Select time"} />
                                                         </SelectTrigger>
                                                         <SelectContent>
-                                                            {TIME_OPTIONS.map((t) => (
+                                                            {timeOptions.map((t) => (
                                                                 <SelectItem key={t.value} value={t.value}>
                                                                     {t.label}
                                                                 </SelectItem>
@@ -883,6 +752,11 @@ export default function CounselorReferralDetailsPage() {
                                             <div className="mt-2 text-xs text-muted-foreground">
                                                 Note: Date & time must both be filled. When set, the referral is automatically marked as{" "}
                                                 <span className="font-medium">handled</span>.
+                                                {openTimes != null
+                                                    ? openTimes.length === 0
+                                                        ? " The assigned counselor has no open slots on this day."
+                                                        : " Only the assigned counselor's open slots are listed."
+                                                    : null}
                                             </div>
                                         </div>
 
@@ -973,6 +847,24 @@ export default function CounselorReferralDetailsPage() {
                         )}
                     </CardContent>
                 </Card>
+
+                {/* ✅ Confidential session notes (SOAP / DAP) */}
+                {referral ? (
+                    <Card>
+                        <CardHeader className="gap-1">
+                            <CardTitle className="flex items-center gap-2">
+                                <NotebookPen className="h-4 w-4" />
+                                Session notes
+                            </CardTitle>
+                            <CardDescription>
+                                Document each referral session. Notes are never shown to the student or the referring office.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <SessionNotesPanel subjectType="referral" subjectId={referral.id} />
+                        </CardContent>
+                    </Card>
+                ) : null}
             </div>
         </DashboardLayout>
     )
@@ -16,7 +16,7 @@ import { toast } from "sonner"
 import DashboardLayout from "@/components/DashboardLayout"
 import { cn } from "@/lib/utils"
 
-import { fetchCounselorReferrals, updateCounselorReferral } from "@/lib/referrals"
+import { fetchCounselorReferrals, updateCounselorReferral, type Referral } from "@/lib/referrals"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -30,38 +30,7 @@ import { Skeleton } from "@/components/ui/skeleton"
 
 type ReferralStatus = "pending" | "handled" | "closed" | string
 
-type UserMini = {
-    id: number | string
-    name?: string | null
-    email?: string | null
-    role?: string | null
-}
-
-type ReferralView = {
-    id: number | string
-    status: ReferralStatus
-    concern_type?: string | null
-    urgency?: string | null
-    details?: string | null
-
-    // ✅ Appointment (read-only here)
-    scheduled_date?: string | null // YYYY-MM-DD
-    scheduled_time?: string | null // e.g. "8:00 AM" or "14:30"
-
-    created_at?: string | null
-    updated_at?: string | null
-
-    student?: UserMini | null
-    requestedBy?: UserMini | null
-    counselor?: UserMini | null
-
-    // fallback flat fields (if backend returns flat dto)
-    student_name?: string | null
-    student_email?: string | null
-    requested_by_name?: string | null
-    requested_by_role?: string | null
-    requested_by_email?: string | null
-}
+type ReferralView = Referral
 
 function safeStr(v: unknown) {
     return typeof v === "string" ? v : v == null ? "" : String(v)
@@ -114,60 +83,6 @@ function timeWithAmPm(value?: string | null) {
     return `${hour12}:${mm} ${period}`
 }
 
-function normalizeUserMini(raw: any): UserMini | null {
-    if (!raw) return null
-    return {
-        id: raw?.id ?? "",
-        name: raw?.name ?? null,
-        email: raw?.email ?? null,
-        role: raw?.role ?? null,
-    }
-}
-
-function normalizeReferral(raw: any): ReferralView {
-    const student = normalizeUserMini(raw?.student) ?? null
-    const requestedBy = normalizeUserMini(raw?.requested_by) ?? normalizeUserMini(raw?.requestedBy) ?? null
-    const counselor = normalizeUserMini(raw?.counselor) ?? null
-
-    const scheduledDate =
-        raw?.scheduled_date ??
-        raw?.appointment_date ??
-        raw?.schedule_date ??
-        raw?.counseling_date ??
-        null
-
-    const scheduledTime =
-        raw?.scheduled_time ??
-        raw?.appointment_time ??
-        raw?.schedule_time ??
-        raw?.counseling_time ??
-        null
-
-    return {
-        id: raw?.id ?? "",
-        status: raw?.status ?? "pending",
-        concern_type: raw?.concern_type ?? raw?.concern ?? null,
-        urgency: raw?.urgency ?? null,
-        details: raw?.details ?? null,
-
-        scheduled_date: scheduledDate,
-        scheduled_time: scheduledTime,
-
-        created_at: raw?.created_at ?? null,
-        updated_at: raw?.updated_at ?? null,
-
-        student,
-        requestedBy,
-        counselor,
-
-        student_name: raw?.student_name ?? null,
-        student_email: raw?.student_email ?? null,
-        requested_by_name: raw?.requested_by_name ?? null,
-        requested_by_role: raw?.requested_by_role ?? null,
-        requested_by_email: raw?.requested_by_email ?? null,
-    }
-}
-
 function statusBadge(status: ReferralStatus) {
     const s = String(status || "").toLowerCase()
 
@@ -228,7 +143,7 @@ export default function CounselorReferralsPage() {
         setLoading(true)
         try {
             const items = await fetchCounselorReferrals({ status: tab, per_page: 100 })
-            setRows(items.map(normalizeReferral))
+            setRows(items)
             setPage(1)
         } catch (err: any) {
             toast.error(err?.message || "Failed to load referrals.")
@@ -241,7 +156,7 @@ export default function CounselorReferralsPage() {
         setRefreshing(true)
         try {
             const items = await fetchCounselorReferrals({ status: tab, per_page: 100 })
-            setRows(items.map(normalizeReferral))
+            setRows(items)
         } catch {
             // silent
         } finally {
@@ -299,7 +214,7 @@ export default function CounselorReferralsPage() {
 
             try {
                 const updated = await updateCounselorReferral(id, { status: nextStatus })
-                setRows((curr) => curr.map((r) => (String(r.id) === String(id) ? normalizeReferral(updated) : r)))
+                setRows((curr) => curr.map((r) => (String(r.id) === String(id) ? updated : r)))
                 toast.success("Referral updated.")
             } catch (err: any) {
                 setRows(prev)
@@ -0,0 +1,449 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Loader2, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import {
+    ResponsiveContainer,
+    LineChart,
+    Line,
+    CartesianGrid,
+    XAxis,
+    YAxis,
+    Tooltip,
+    Legend,
+    ReferenceLine,
+} from "recharts";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import {
+    fetchStudentTrend,
+    type ReliableChange,
+    type ReliableChangeDirection,
+    type StudentTrendData,
+} from "@/lib/assessment-trend";
+import { cn } from "@/lib/utils";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+const MEASURE_COLORS = ["#3b82f6", "#a855f7", "#f59e0b", "#ef4444"];
+const MANUAL_COLOR = "#10b981";
+const APPOINTMENT_COLOR = "#94a3b8";
+
+type TimelineEvent = {
+    key: string;
+    time: number;
+    kind: string;
+    detail: string;
+};
+
+function fmtDay(time: number): string {
+    return format(new Date(time), "MMM d, yyyy");
+}
+
+function fmtDelta(delta: number): string {
+    return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function changeBadge(direction: ReliableChangeDirection | null): { label: string; className: string } {
+    if (direction === "improved") {
+        return { label: "Reliable improvement", className: "border-emerald-200 bg-emerald-50 text-emerald-800" };
+    }
+    if (direction === "worsened") {
+        return { label: "Reliable deterioration", className: "border-red-200 bg-red-50 text-red-800" };
+    }
+    if (direction === "unchanged") {
+        return { label: "No reliable change", className: "border-slate-200 bg-slate-50 text-slate-700" };
+    }
+    return { label: "No threshold", className: "text-muted-foreground" };
+}
+
+function TrendTooltipContent({ active, payload, label }: { active?: boolean; payload?: any[]; label?: number }) {
+    if (!active || !payload || payload.length === 0 || label == null) return null;
+
+    return (
+        <div className="rounded-lg border bg-card px-3 py-2 text-sm text-card-foreground shadow-sm">
+            <div className="text-xs text-muted-foreground">{fmtDay(label)}</div>
+            {payload.map((p: any) => (
+                <div key={String(p?.dataKey)} className="mt-1 flex items-center gap-3">
+                    <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: p?.color }} />
+                    <div className="flex w-full items-center justify-between gap-4">
+                        <span className="text-sm font-medium">{p?.name}</span>
+                        <span className="font-semibold tabular-nums">{p?.value}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export default function CounselorStudentTrendPage() {
+    const navigate = useNavigate();
+    const params = useParams();
+    const studentId = String(params.id ?? "");
+
+    const [loading, setLoading] = React.useState(true);
+    const [error, setError] = React.useState<string | null>(null);
+    const [trend, setTrend] = React.useState<StudentTrendData | null>(null);
+
+    const load = React.useCallback(async () => {
+        if (!studentId) return;
+        setError(null);
+        setLoading(true);
+
+        try {
+            setTrend(await fetchStudentTrend(studentId));
+        } catch (e: any) {
+            setError(e?.message ?? "Failed to load the student's assessment history.");
+            setTrend(null);
+        } finally {
+            setLoading(false);
+        }
+    }, [studentId]);
+
+    React.useEffect(() => {
+        void load();
+    }, [load]);
+
+    const studentName = trend?.student?.name?.trim() || "Student";
+    const latest = trend?.assessments[trend.assessments.length - 1] ?? null;
+
+    const questionnaireMax = React.useMemo(
+        () => Math.max(0, ...(trend?.measures ?? []).map((m) => m.maxScore)),
+        [trend],
+    );
+
+    const thresholds = React.useMemo(
+        () =>
+            (trend?.measures ?? [])
+                .filter((m) => m.reliableChange != null)
+                .map((m) => `${m.label} ±${m.reliableChange}`)
+                .join(", "),
+        [trend],
+    );
+
+    const timeline = React.useMemo<TimelineEvent[]>(() => {
+        if (!trend) return [];
+
+        const events: TimelineEvent[] = [
+            ...trend.assessments.map((a) => ({
+                key: `assessment-${a.id}`,
+                time: a.time,
+                kind: "Intake assessment",
+                detail: [
+                    `PHQ-9 ${a.phq9.score} (${a.phq9.severity})`,
+                    ...a.screenings.map((r) => `${r.instrument.shortName} ${r.score} (${r.severity})`),
+                ].join(" • "),
+            })),
+            ...trend.manualScores.map((m) => ({
+                key: `manual-${m.id}`,
+                time: m.time,
+                kind: "Hardcopy score",
+                detail: [`${m.score}${m.rating ? ` (${m.rating})` : ""}`, m.remarks].filter(Boolean).join(" • "),
+            })),
+            ...trend.appointments.map((a) => ({
+                key: `appointment-${a.id}`,
+                time: a.time,
+                kind: "Appointment",
+                detail: [a.concernType, a.status].filter(Boolean).join(" • "),
+            })),
+        ];
+
+        return events.sort((a, b) => b.time - a.time);
+    }, [trend]);
+
+    const hasData = !!trend && (trend.assessments.length > 0 || trend.manualScores.length > 0);
+
+    return (
+        <DashboardLayout
+            title="Assessment Trend"
+            description="How one student's intake assessments and hardcopy scores change over time."
+        >
+            <div className="space-y-4">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="min-w-0">
+                        <div className="truncate text-lg font-semibold text-foreground">
+                            {loading && !trend ? "Loading…" : studentName}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                            {[trend?.student?.student_id, trend?.student?.program ?? trend?.student?.course, trend?.student?.year_level]
+                                .filter(Boolean)
+                                .join(" • ") || `User #${studentId}`}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                        <Button variant="outline" className="gap-2" onClick={() => navigate(-1)}>
+                            <ArrowLeft className="h-4 w-4" />
+                            Back
+                        </Button>
+
+                        <Button
+                            variant="outline"
+                            onClick={() =>
+                                navigate(
+                                    `/dashboard/counselor/assessment-score-input?studentId=${encodeURIComponent(
+                                        studentId,
+                                    )}&studentName=${encodeURIComponent(studentName)}`,
+                                )
+                            }
+                        >
+                            Encode Score
+                        </Button>
+
+                        <Button
+                            className="gap-2"
+                            disabled={loading}
+                            onClick={() => {
+                                toast.message("Refreshing trend…");
+                                void load();
+                            }}
+                        >
+                            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                            Refresh
+                        </Button>
+                    </div>
+                </div>
+
+                {error ? (
+                    <Alert variant="destructive">
+                        <AlertTitle>Unable to load trend</AlertTitle>
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                ) : null}
+
+                <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Latest PHQ-9</CardDescription>
+                            <CardTitle className="text-2xl">{latest ? latest.phq9.score : "—"}</CardTitle>
+                        </CardHeader>
+                        <CardContent className="text-xs text-muted-foreground">
+                            {latest ? `${latest.phq9.severity} • ${fmtDay(latest.time)}` : "No intake assessment yet"}
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Intake assessments</CardDescription>
+                            <CardTitle className="text-2xl">{trend?.assessments.length ?? 0}</CardTitle>
+                        </CardHeader>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Hardcopy scores</CardDescription>
+                            <CardTitle className="text-2xl">{trend?.manualScores.length ?? 0}</CardTitle>
+                        </CardHeader>
+                    </Card>
+                    <Card>
+                        <CardHeader className="pb-2">
+                            <CardDescription>Appointments</CardDescription>
+                            <CardTitle className="text-2xl">{trend?.appointments.length ?? 0}</CardTitle>
+                        </CardHeader>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle>Timeline</CardTitle>
+                        <CardDescription>
+                            Questionnaire totals on the left axis, hardcopy scores (0–100) on the right. Dashed vertical
+                            lines mark scheduled appointments.
+                        </CardDescription>
+                    </CardHeader>
+
+                    <CardContent>
+                        {loading && !trend ? (
+                            <Skeleton className="h-80 w-full" />
+                        ) : !hasData ? (
+                            <div className="rounded-lg border bg-muted/30 p-6 text-sm text-muted-foreground">
+                                No intake assessments or hardcopy scores recorded for this student yet.
+                            </div>
+                        ) : (
+                            <div className="h-80 w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={trend?.chartRows} margin={{ top: 10, right: 10, bottom: 0, left: -10 }}>
+                                        <CartesianGrid strokeDasharray="3 3" />
+                                        <XAxis
+                                            dataKey="time"
+                                            type="number"
+                                            scale="time"
+                                            domain={["dataMin", "dataMax"]}
+                                            padding={{ left: 16, right: 16 }}
+                                            tickFormatter={(v) => format(new Date(Number(v)), "MMM d")}
+                                            tick={{ fontSize: 12 }}
+                                        />
+                                        <YAxis
+                                            yAxisId="questionnaire"
+                                            domain={[0, questionnaireMax || "auto"]}
+                                            allowDecimals={false}
+                                            tick={{ fontSize: 12 }}
+                                        />
+                                        {trend?.manualScores.length ? (
+                                            <YAxis
+                                                yAxisId="manual"
+                                                orientation="right"
+                                                domain={[0, 100]}
+                                                tick={{ fontSize: 12 }}
+                                            />
+                                        ) : null}
+                                        <Tooltip content={(p: any) => <TrendTooltipContent {...p} />} />
+                                        <Legend />
+
+                                        {trend?.appointments.map((a) => (
+                                            <ReferenceLine
+                                                key={`appointment-${a.id}`}
+                                                x={a.time}
+                                                yAxisId="questionnaire"
+                                                stroke={APPOINTMENT_COLOR}
+                                                strokeDasharray="4 4"
+                                                ifOverflow="extendDomain"
+                                            />
+                                        ))}
+
+                                        {trend?.measures.map((measure, idx) => (
+                                            <Line
+                                                key={measure.id}
+                                                yAxisId="questionnaire"
+                                                type="monotone"
+                                                dataKey={measure.id}
+                                                name={measure.label}
+                                                stroke={MEASURE_COLORS[idx % MEASURE_COLORS.length]}
+                                                strokeWidth={2}
+                                                connectNulls
+                                            />
+                                        ))}
+
+                                        {trend?.manualScores.length ? (
+                                            <Line
+                                                yAxisId="manual"
+                                                type="monotone"
+                                                dataKey="manual"
+                                                name="Hardcopy score"
+                                                stroke={MANUAL_COLOR}
+                                                strokeWidth={2}
+                                                strokeDasharray="6 3"
+                                                connectNulls
+                                            />
+                                        ) : null}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                    <Card>
+                        <CardHeader className="space-y-1">
+                            <CardTitle>Reliable change</CardTitle>
+                            <CardDescription>
+                                Consecutive intake assessments compared against each measure's reliable change threshold
+                                {thresholds ? ` (${thresholds})` : ""}. Smaller differences are within measurement error.
+                            </CardDescription>
+                        </CardHeader>
+
+                        <CardContent>
+                            {loading && !trend ? (
+                                <Skeleton className="h-24 w-full" />
+                            ) : !trend?.changes.length ? (
+                                <div className="rounded-lg border bg-muted/30 p-6 text-sm text-muted-foreground">
+                                    At least two scored intake assessments are needed to compare.
+                                </div>
+                            ) : (
+                                <ScrollArea className="w-full">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Measure</TableHead>
+                                                <TableHead>Period</TableHead>
+                                                <TableHead className="text-right">Score</TableHead>
+                                                <TableHead className="text-right">Change</TableHead>
+                                                <TableHead>Result</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {[...trend.changes].reverse().map((c: ReliableChange) => {
+                                                const badge = changeBadge(c.direction);
+                                                const Icon = c.delta < 0 ? TrendingDown : TrendingUp;
+
+                                                return (
+                                                    <TableRow key={`${c.measure.id}-${c.fromDate}-${c.toDate}`}>
+                                                        <TableCell className="font-medium">{c.measure.label}</TableCell>
+                                                        <TableCell className="whitespace-nowrap font-mono text-xs">
+                                                            {format(parseISO(c.fromDate), "MMM d")} → {format(parseISO(c.toDate), "MMM d, yyyy")}
+                                                        </TableCell>
+                                                        <TableCell className="text-right tabular-nums">
+                                                            {c.from} → {c.to}
+                                                        </TableCell>
+                                                        <TableCell className="text-right tabular-nums">
+                                                            <span className="inline-flex items-center gap-1">
+                                                                {c.delta !== 0 ? <Icon className="h-3.5 w-3.5" /> : null}
+                                                                {fmtDelta(c.delta)}
+                                                            </span>
+                                                        </TableCell>
+                                                        <TableCell>
+                                                            <Badge variant="outline" className={cn("whitespace-nowrap", badge.className)}>
+                                                                {badge.label}
+                                                            </Badge>
+                                                        </TableCell>
+                                                    </TableRow>
+                                                );
+                                            })}
+                                        </TableBody>
+                                    </Table>
+                                </ScrollArea>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader className="space-y-1">
+                            <CardTitle>History</CardTitle>
+                            <CardDescription>Assessments, hardcopy scores and appointments, newest first.</CardDescription>
+                        </CardHeader>
+
+                        <CardContent>
+                            {loading && !trend ? (
+                                <Skeleton className="h-24 w-full" />
+                            ) : timeline.length === 0 ? (
+                                <div className="rounded-lg border bg-muted/30 p-6 text-sm text-muted-foreground">
+                                    Nothing recorded yet.
+                                </div>
+                            ) : (
+                                <ScrollArea className="h-80 w-full">
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead>Event</TableHead>
+                                                <TableHead>Details</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {timeline.map((e) => (
+                                                <TableRow key={e.key}>
+                                                    <TableCell className="whitespace-nowrap font-mono text-xs">{fmtDay(e.time)}</TableCell>
+                                                    <TableCell className="whitespace-nowrap">
+                                                        <Badge variant="secondary">{e.kind}</Badge>
+                                                    </TableCell>
+                                                    <TableCell className="text-xs text-muted-foreground">{e.detail || "—"}</TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </ScrollArea>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </DashboardLayout>
+    );
+}
@@ -2,9 +2,10 @@
 import React from "react"
 import { useNavigate } from "react-router-dom"
 import DashboardLayout from "@/components/DashboardLayout"
+import TreatmentPlanPanel from "@/components/treatment-plan-panel"
 import { toast } from "sonner"
 
-import { AUTH_API_BASE_URL } from "@/api/auth/route"
+import { AUTH_API_BASE_URL, apiFetch } from "@/api/client"
 import { getCurrentSession } from "@/lib/authentication"
 import { normalizeRole } from "@/lib/role"
 import { cn } from "@/lib/utils"
@@ -34,6 +35,7 @@ import {
     UserRound,
     History,
     CalendarClock,
+    ClipboardList,
 } from "lucide-react"
 
 type DirectoryUser = {
@@ -92,62 +94,6 @@ function isAbortError(err: unknown): boolean {
     )
 }
 
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error("VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.")
-    }
-    const trimmed = path.replace(/^\/+/, "")
-    return `${AUTH_API_BASE_URL}/${trimmed}`
-}
-
-async function apiFetch<T>(
-    path: string,
-    init: RequestInit = {},
-    token?: string | null,
-): Promise<T> {
-    const url = resolveApiUrl(path)
-
-    const res = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    })
-
-    const text = await res.text()
-    let data: any = null
-
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const firstErrorFromLaravel =
-            data?.errors && typeof data.errors === "object"
-                ? (Object.values(data.errors)[0] as any)?.[0]
-                : undefined
-
-        const msg =
-            data?.message ||
-            data?.error ||
-            firstErrorFromLaravel ||
-            res.statusText ||
-            "Server request failed."
-
-        throw new Error(msg)
-    }
-
-    return data as T
-}
-
 function extractUsersArray(payload: any): any[] {
     if (!payload) return []
     if (Array.isArray(payload)) return payload
@@ -329,7 +275,7 @@ async function fetchCounselorStudentAndGuestUsers(
         }
 
         try {
-            const data = await apiFetch<any>(path, { method: "GET", signal }, token)
+            const data = await apiFetch<any>(path, { method: "GET", signal, token })
             const arr = extractUsersArray(data)
 
             const mapped = arr.map(mapToDirectoryUser).filter(Boolean) as DirectoryUser[]
@@ -466,7 +412,7 @@ async function fetchCounselorStudentProfile(
 ): Promise<CounselorStudentProfile | null> {
     const path = `/counselor/students/${encodeURIComponent(String(id))}`
 
-    const payload = await apiFetch<any>(path, { method: "GET", signal }, token)
+    const payload = await apiFetch<any>(path, { method: "GET", signal, token })
     const p = extractProfile(payload)
 
     if (!p) return null
@@ -494,7 +440,7 @@ async function fetchCounselorStudentHistory(
 ): Promise<CounselorStudentHistoryItem[]> {
     const path = `/counselor/students/${encodeURIComponent(String(id))}/history`
 
-    const payload = await apiFetch<any>(path, { method: "GET", signal }, token)
+    const payload = await apiFetch<any>(path, { method: "GET", signal, token })
     const arr = extractHistoryArray(payload)
 
     return arr.map((x, i) => mapHistoryItem(x, i))
@@ -1109,14 +1055,14 @@ const CounselorUsers: React.FC = () => {
                         if (!open) closeStudentModal()
                     }}
                 >
-                    <DialogContent className="max-w-3xl">
+                    <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
                         <DialogHeader>
                             <DialogTitle className="flex items-center gap-2">
                                 <UserRound className="h-5 w-5" />
                                 Student Profile
                             </DialogTitle>
                             <DialogDescription>
-                                Counselor-only view of student profile details and appointment history.
+                                Counselor-only view of student profile details, appointment history and treatment plan.
                             </DialogDescription>
                         </DialogHeader>
 
@@ -1248,6 +1194,16 @@ const CounselorUsers: React.FC = () => {
                                     </div>
                                 )}
                             </div>
+
+                            {profileUser ? (
+                                <div className="rounded-xl border bg-white/70 p-3">
+                                    <div className="mb-2 flex items-center gap-2">
+                                        <ClipboardList className="h-4 w-4" />
+                                        <div className="text-sm font-semibold text-slate-900">Treatment Plan</div>
+                                    </div>
+                                    <TreatmentPlanPanel studentId={profileUser.id} />
+                                </div>
+                            ) : null}
                         </div>
 
                         <DialogFooter className="gap-2 sm:gap-2">
@@ -4,10 +4,35 @@ import DashboardLayout from "@/components/DashboardLayout"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import { getCurrentSession } from "@/lib/authentication"
+import { apiFetch } from "@/api/client"
+import { parseMessage, toMessageRequestBody } from "@/api/messages/route"
+import { resolveStorageUrl } from "@/lib/storage-url"
+import {
+    DELETED_MESSAGE_TEXT,
+    deleteMessage,
+    editMessage,
+    fetchReferralUserConversationMessages,
+    fetchReferralUserConversations,
+    isWithinEditWindow,
+    MESSAGE_EDIT_WINDOW_MINUTES,
+    messageAttachmentsOf,
+    messagePreviewText,
+    subscribeToIncomingMessages,
+    subscribeToMessageUpdates,
+    subscribeToReadReceipts,
+    type MessageAttachment,
+    type MessageDeleteScope,
+    type MessageConversation,
+    type ReferralUserMessage,
+} from "@/lib/messages"
+import { useRealtimeReconnect } from "@/hooks/use-realtime"
+import { mergeMessagesById, useConversationHistory, useLoadOlderOnScroll } from "@/hooks/use-message-history"
+import { AttachmentPickerButton, MessageAttachmentList, SelectedAttachments } from "@/components/message-attachments"
 
 import { cn } from "@/lib/utils"
 import {
     Check,
+    CheckCheck,
     ChevronsUpDown,
     MoreVertical,
     Pencil,
@@ -56,6 +81,13 @@ type UiMessage = {
     createdAt: string
 
     isUnread: boolean
+    /** The recipient has read it (read receipt on own messages) */
+    isSeen: boolean
+    attachments: MessageAttachment[]
+
+    editedAt?: string | null
+    /** Deleted for everyone (placeholder bubble) */
+    deletedAt?: string | null
 
     senderId?: number | string | null
     recipientId?: number | string | null
@@ -89,76 +121,6 @@ type DirectoryUser = {
     avatar_url?: string | null
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-    if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-    const trimmed = path.replace(/^\/+/, "")
-    return `${API_BASE_URL}/${trimmed}`
-}
-
-function getApiOrigin(): string {
-    if (!API_BASE_URL) return ""
-    try {
-        return new URL(API_BASE_URL).origin
-    } catch {
-        return ""
-    }
-}
-
-function looksLikeFilePath(s: string): boolean {
-    return (
-        /\.[a-z0-9]{2,5}(\?.*)?$/i.test(s) ||
-        /(^|\/)(avatars|avatar|profile|profiles|images|uploads)(\/|$)/i.test(s)
-    )
-}
-
-function resolveAvatarSrc(raw?: string | null): string | null {
-    const s0 = typeof raw === "string" ? raw : ""
-    let s = s0.trim()
-    if (!s) return null
-
-    s = s.replace(/\\/g, "/")
-    if (/^(data:|blob:)/i.test(s)) return s
-
-    if (/^https?:\/\//i.test(s)) {
-        try {
-            const u = new URL(s)
-            const p = (u.pathname || "").replace(/\\/g, "/")
-
-            u.pathname = p
-                .replace(/^\/api\/storage\//i, "/storage/")
-                .replace(/^\/api\/public\/storage\//i, "/storage/")
-                .replace(/^\/storage\/app\/public\//i, "/storage/")
-
-            return u.toString()
-        } catch {
-            return s
-        }
-    }
-
-    if (s.startsWith("//")) return `${window.location.protocol}${s}`
-
-    s = s.replace(/^storage\/app\/public\//i, "")
-    s = s.replace(/^public\//i, "")
-
-    const normalized = s.replace(/^\/+/, "")
-    const alreadyStorage =
-        normalized.toLowerCase().startsWith("storage/") ||
-        normalized.toLowerCase().startsWith("api/storage/")
-
-    let path = normalized
-    if (!alreadyStorage && looksLikeFilePath(normalized)) {
-        path = `storage/${normalized}`
-    }
-
-    path = path.replace(/^api\/storage\//i, "storage/")
-
-    const finalPath = path.startsWith("/") ? path : `/${path}`
-    const origin = getApiOrigin()
-    return origin ? `${origin}${finalPath}` : finalPath
-}
 
 function initials(name: string) {
     const cleaned = (name || "").trim()
@@ -211,41 +173,6 @@ function pickAvatarUrl(obj: any): string | null {
     return null
 }
 
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<any> {
-    const url = resolveApiUrl(path)
-
-    const res = await fetch(url, {
-        ...init,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-    })
-
-    const text = await res.text()
-    let data: any = null
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const msg = data?.message || data?.error || res.statusText || "Server request failed."
-        const err: any = new Error(msg)
-        err.status = res.status
-        err.data = data ?? text
-        throw err
-    }
-
-    return data
-}
-
 function extractUsersArray(payload: any): any[] {
     if (!payload) return []
     if (Array.isArray(payload)) return payload
@@ -254,14 +181,6 @@ function extractUsersArray(payload: any): any[] {
     return []
 }
 
-function extractMessagesArray(payload: any): any[] {
-    if (!payload) return []
-    if (Array.isArray(payload)) return payload
-    const candidates = [payload.messages, payload.data, payload.results, payload.items, payload.records]
-    for (const c of candidates) if (Array.isArray(c)) return c
-    return []
-}
-
 function normalizeSender(raw: any): SenderKind {
     const s = String(raw ?? "").trim().toLowerCase()
     if (s === "student" || s === "guest" || s === "counselor" || s === "system") return s
@@ -269,8 +188,15 @@ function normalizeSender(raw: any): SenderKind {
     return "system"
 }
 
-function isUnreadFlag(dto: any): boolean {
-    return dto?.is_read === false || dto?.is_read === 0
+const RECIPIENT_ROLES = ["counselor", "student", "guest", "admin", "referral_user"] as const
+
+function normalizeRecipientRole(raw: string | null | undefined): UiMessage["recipientRole"] {
+    const s = String(raw ?? "").trim().toLowerCase()
+    return RECIPIENT_ROLES.find((r) => r === s) ?? null
+}
+
+function isUnreadFlag(dto: ReferralUserMessage): boolean {
+    return dto.is_read === false || dto.is_read === 0
 }
 
 function normalizeIdString(v: unknown): string {
@@ -290,13 +216,13 @@ function isCounselorSenderValue(raw: unknown): boolean {
  *    referral_user-{referralUserId}-counselor-{counselorId}
  * This prevents "new thread" duplication even if older messages are missing conversation_id.
  */
-function canonicalConversationIdFromDto(dto: any): string | null {
-    const senderRaw = dto?.sender ?? dto?.sender_role ?? dto?.senderRole
+function canonicalConversationIdFromDto(dto: ReferralUserMessage): string | null {
+    const senderRaw = dto.sender
     const senderKind = normalizeSender(senderRaw)
 
-    const senderId = normalizeIdString(dto?.sender_id ?? dto?.senderId)
-    const recipientId = normalizeIdString(dto?.recipient_id ?? dto?.recipientId)
-    const recipientRole = normalizeIdString(dto?.recipient_role ?? dto?.recipientRole).toLowerCase()
+    const senderId = normalizeIdString(dto.sender_id)
+    const recipientId = normalizeIdString(dto.recipient_id)
+    const recipientRole = normalizeIdString(dto.recipient_role).toLowerCase()
 
     // referral_user -> counselor
     if (senderKind === "referral_user" && recipientRole === "counselor" && senderId && recipientId) {
@@ -317,62 +243,57 @@ function canonicalConversationIdFromDto(dto: any): string | null {
     return null
 }
 
-function safeConversationId(dto: any): string {
-    const raw = dto?.conversation_id ?? dto?.conversationId
+function safeConversationId(dto: ReferralUserMessage): string {
+    const raw = dto.conversation_id
     if (raw != null && String(raw).trim()) return String(raw)
 
     const canonical = canonicalConversationIdFromDto(dto)
     if (canonical) return canonical
 
     // Stable fallback (avoid Date.now() which creates artificial new threads)
-    const userId = normalizeIdString(dto?.user_id ?? dto?.userId)
+    const userId = normalizeIdString(dto.user_id)
     if (userId) return `referral_user-${userId}`
 
     return "referral_user-office"
 }
 
-function mapDtoToUi(dto: any): UiMessage {
-    const sender = normalizeSender(dto?.sender)
+function mapDtoToUi(dto: ReferralUserMessage): UiMessage {
+    const sender = normalizeSender(dto.sender)
 
     const senderName =
-        (dto?.sender_name && String(dto.sender_name).trim()) ||
+        (dto.sender_name && String(dto.sender_name).trim()) ||
         (sender === "system"
             ? "Guidance & Counseling Office"
             : sender === "counselor"
                 ? "Counselor"
                 : "You")
 
-    const createdAt = dto?.created_at ?? new Date(0).toISOString()
-
-    const senderAvatarUrl = pickAvatarUrl(dto) ?? pickAvatarUrl(dto?.sender_user) ?? pickAvatarUrl(dto?.senderUser) ?? null
-    const recipientAvatarUrl = pickAvatarUrl(dto?.recipient_user) ?? pickAvatarUrl(dto?.recipientUser) ?? null
-
-    const recipientName =
-        (dto?.recipient_name && String(dto.recipient_name).trim()) ||
-        (dto?.recipientUser?.name && String(dto.recipientUser.name).trim()) ||
-        (dto?.recipient_user?.name && String(dto.recipient_user.name).trim()) ||
-        null
+    const createdAt = dto.created_at
 
     return {
-        id: dto?.id ?? `${createdAt}-${sender}-${Math.random().toString(36).slice(2)}`,
+        id: dto.id !== "" ? dto.id : `${createdAt}-${sender}-${Math.random().toString(36).slice(2)}`,
         conversationId: safeConversationId(dto),
 
         sender,
         senderName,
-        content: dto?.content ?? "",
+        content: dto.content,
         createdAt,
 
         isUnread: isUnreadFlag(dto),
+        isSeen: dto.is_read === true || dto.is_read === 1,
+        attachments: messageAttachmentsOf(dto),
+        editedAt: dto.edited_at ?? null,
+        deletedAt: dto.deleted_at ?? null,
 
-        senderId: dto?.sender_id ?? null,
-        recipientId: dto?.recipient_id ?? null,
-        recipientRole: dto?.recipient_role ?? null,
-        recipientName,
+        senderId: dto.sender_id ?? null,
+        recipientId: dto.recipient_id ?? null,
+        recipientRole: normalizeRecipientRole(dto.recipient_role),
+        recipientName: dto.recipient_name?.trim() || null,
 
-        userId: dto?.user_id ?? null,
+        userId: dto.user_id ?? null,
 
-        senderAvatarUrl,
-        recipientAvatarUrl,
+        senderAvatarUrl: dto.sender_avatar_url ?? null,
+        recipientAvatarUrl: dto.recipient_avatar_url ?? null,
     }
 }
 
@@ -413,7 +334,7 @@ function buildConversations(messages: UiMessage[]): Conversation[] {
             peerId,
             subtitle: "Counselor thread",
             unreadCount,
-            lastMessage: last?.content ?? "",
+            lastMessage: last ? messagePreviewText(last) : "",
             lastTimestamp: last?.createdAt ?? "",
             peerAvatarUrl,
         })
@@ -429,6 +350,25 @@ function buildConversations(messages: UiMessage[]): Conversation[] {
     return convs
 }
 
+/**
+ * One row of the server's conversation list (last message + unread count).
+ */
+function summaryFromServer(c: MessageConversation): Conversation {
+    const last = mapDtoToUi(c.last_message)
+
+    return {
+        id: last.conversationId,
+        peerRole: "counselor",
+        peerName: c.peer_name && c.peer_name.trim() ? c.peer_name.trim() : "Counselor",
+        peerId: c.peer_id,
+        subtitle: "Counselor thread",
+        unreadCount: c.unread_count,
+        lastMessage: messagePreviewText(last),
+        lastTimestamp: last.createdAt,
+        peerAvatarUrl: c.peer_avatar_url,
+    }
+}
+
 function isNumericId(id: unknown): boolean {
     if (typeof id === "number") return Number.isInteger(id)
     if (typeof id === "string") return /^\d+$/.test(id.trim())
@@ -444,17 +384,15 @@ function normalizeIdToNumberOrNull(id: unknown): number | null {
 /**
  * ✅ Referral user should ONLY use referral-user endpoints.
  */
-async function tryFetchReferralUserMessages(token?: string | null): Promise<any[]> {
-    const data = await apiFetch("/referral-user/messages", { method: "GET" }, token)
-    return extractMessagesArray(data)
-}
-
 async function trySendReferralUserMessage(payload: any, token?: string | null): Promise<any> {
-    return apiFetch("/referral-user/messages", { method: "POST", body: JSON.stringify(payload) }, token)
+    return apiFetch<any>("/referral-user/messages", { method: "POST", body: toMessageRequestBody(payload), token })
 }
 
-async function tryMarkMessagesAsRead(ids: number[], token?: string | null) {
-    await apiFetch("/referral-user/messages/mark-as-read", { method: "POST", body: JSON.stringify({ message_ids: ids }) }, token)
+async function tryMarkMessagesAsRead(
+    payload: { message_ids?: number[]; peer_id?: number | string },
+    token?: string | null,
+) {
+    await apiFetch<any>("/referral-user/messages/mark-as-read", { method: "POST", body: JSON.stringify(payload), token })
 }
 
 /**
@@ -470,7 +408,7 @@ async function tryDeleteConversationApi(conversationId: string, token?: string |
     let lastErr: any = null
     for (const p of candidates) {
         try {
-            await apiFetch(p, { method: "DELETE" }, token)
+            await apiFetch<any>(p, { method: "DELETE", token })
             return
         } catch (e) {
             lastErr = e
@@ -480,34 +418,6 @@ async function tryDeleteConversationApi(conversationId: string, token?: string |
     throw lastErr ?? new Error("Failed to delete conversation.")
 }
 
-/**
- * ✅ Update a single message (edit)
- */
-async function tryUpdateMessageApi(messageId: number, content: string, token?: string | null): Promise<any> {
-    const id = encodeURIComponent(String(messageId))
-    const methods: Array<"PATCH" | "PUT"> = ["PATCH", "PUT"]
-
-    let lastErr: any = null
-    for (const method of methods) {
-        try {
-            const data = await apiFetch(`/messages/${id}`, { method, body: JSON.stringify({ content }) }, token)
-            return data
-        } catch (e) {
-            lastErr = e
-        }
-    }
-
-    throw lastErr ?? new Error("Failed to update message.")
-}
-
-/**
- * ✅ Delete a single message
- */
-async function tryDeleteMessageApi(messageId: number, token?: string | null): Promise<any> {
-    const id = encodeURIComponent(String(messageId))
-    return apiFetch(`/messages/${id}`, { method: "DELETE" }, token)
-}
-
 async function trySearchCounselorsFromDb(query: string, token?: string | null): Promise<DirectoryUser[]> {
     const q = query.trim()
     const qq = encodeURIComponent(q)
@@ -525,7 +435,7 @@ async function trySearchCounselorsFromDb(query: string, token?: string | null):
 
     for (const path of candidates) {
         try {
-            const data = await apiFetch(path, { method: "GET" }, token)
+            const data = await apiFetch<any>(path, { method: "GET", token })
             const arr = extractUsersArray(data)
 
             const mapped: DirectoryUser[] = arr
@@ -639,14 +549,15 @@ function UserCombobox(props: {
 
 const ReferralUserMessages: React.FC = () => {
     const session = getCurrentSession()
-    const token = (session as any)?.token ?? (session as any)?.access_token ?? null
+    const token = session.token ?? null
 
-    const myName = session?.user && (session.user as any).name ? String((session.user as any).name) : "Referral User"
+    const myName = session?.user?.name ? String(session.user.name) : "Referral User"
     const myUserId = session?.user?.id != null ? String(session.user.id) : ""
 
     const [isLoading, setIsLoading] = React.useState(true)
     const [isRefreshing, setIsRefreshing] = React.useState(false)
     const [isSending, setIsSending] = React.useState(false)
+    const [draftFiles, setDraftFiles] = React.useState<File[]>([])
     const [isMarking, setIsMarking] = React.useState(false)
 
     const [search, setSearch] = React.useState("")
@@ -654,6 +565,7 @@ const ReferralUserMessages: React.FC = () => {
 
     const [draft, setDraft] = React.useState("")
     const [messages, setMessages] = React.useState<UiMessage[]>([])
+    const [summaries, setSummaries] = React.useState<Record<string, Conversation>>({})
     const [activeConversationId, setActiveConversationId] = React.useState<string>("")
 
     const [showNewMessage, setShowNewMessage] = React.useState(false)
@@ -663,6 +575,7 @@ const ReferralUserMessages: React.FC = () => {
     const [newRecipient, setNewRecipient] = React.useState<DirectoryUser | null>(null)
 
     const bottomRef = React.useRef<HTMLDivElement | null>(null)
+    const topRef = React.useRef<HTMLDivElement | null>(null)
 
     const [deleteConvoOpen, setDeleteConvoOpen] = React.useState(false)
     const [isDeletingConvo, setIsDeletingConvo] = React.useState(false)
@@ -706,28 +619,54 @@ const ReferralUserMessages: React.FC = () => {
         [myUserId],
     )
 
+    // ✅ Threads load their newest page when opened; older pages on scroll
+    const addHistory = React.useCallback(
+        (dtos: ReferralUserMessage[]) => {
+            const ui = dtos.map(mapDtoToUi).filter(isVisibleForMe)
+            setMessages((prev) => mergeMessagesById(prev, ui))
+        },
+        [isVisibleForMe],
+    )
+
+    const {
+        historyFor,
+        loadLatest,
+        ensureLoaded,
+        loadOlder,
+        reset: resetHistory,
+    } = useConversationHistory(fetchReferralUserConversationMessages, addHistory)
+
+    const loadSummaries = async () => {
+        const res = await fetchReferralUserConversations()
+        const convs = res.filter((c) => c.peer_role === "counselor").map(summaryFromServer)
+
+        setSummaries(Object.fromEntries(convs.map((c) => [c.id, c])))
+        return convs
+    }
+
     const loadMessages = async (mode: "initial" | "refresh" = "refresh") => {
         const setBusy = mode === "initial" ? setIsLoading : setIsRefreshing
         setBusy(true)
 
         try {
-            const raw = await tryFetchReferralUserMessages(token)
-            const uiAll = (Array.isArray(raw) ? raw : []).map(mapDtoToUi)
-            const ui = uiAll.filter(isVisibleForMe)
-
-            setMessages(ui)
-
-            const convs = buildConversations(ui)
+            const convs = await loadSummaries()
 
             // ✅ IMPORTANT: Do NOT auto-open / auto-select the first thread on page load.
             // Only clear the active thread if it no longer exists.
             const current = activeConversationId
-            const hasCurrent = !!current && convs.some((c) => c.id === current)
+            const currentConvo = current ? convs.find((c) => c.id === current) ?? null : null
+            const hasSeed = !!current && messages.some((m) => m.conversationId === current && m.sender === "system")
+
+            // Cached history of other threads may be stale; it reloads when opened
+            setMessages((prev) => prev.filter((m) => m.conversationId === current))
+            resetHistory(current)
 
-            if (current && !hasCurrent) {
+            if (current && !currentConvo && !hasSeed) {
                 openedConversationIdsRef.current.delete(current)
                 setActiveConversationId("")
                 setMobileView("list")
+            } else if (currentConvo?.peerId != null) {
+                await loadLatest(currentConvo.id, currentConvo.peerId)
             }
         } catch (err: any) {
             if (err?.status === 401) toast.error("Unauthorized (401). Please log in again, then retry.")
@@ -742,12 +681,78 @@ const ReferralUserMessages: React.FC = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [])
 
+    // ✅ Live updates over the push channel. Own messages are skipped: handleSend
+    // already swaps the optimistic bubble for the server record.
+    React.useEffect(() => {
+        const stopMessages = subscribeToIncomingMessages((dto) => {
+            if (myUserId && String(dto.sender_id ?? "") === myUserId) return
+            const ui = mapDtoToUi(dto)
+            if (!isVisibleForMe(ui)) return
+            setMessages((prev) => (prev.some((m) => String(m.id) === String(ui.id)) ? prev : [...prev, ui]))
+            setSummaries((prev) => {
+                const current = prev[ui.conversationId]
+                if (!current) return prev
+                return {
+                    ...prev,
+                    [ui.conversationId]: {
+                        ...current,
+                        unreadCount: current.unreadCount + 1,
+                        lastMessage: messagePreviewText(ui),
+                        lastTimestamp: ui.createdAt,
+                    },
+                }
+            })
+        })
+
+        // Edits and deletes-for-everyone replace the bubble in place
+        const stopUpdates = subscribeToMessageUpdates((dto) => {
+            const ui = mapDtoToUi(dto)
+            setMessages((prev) => prev.map((m) => (String(m.id) === String(ui.id) ? { ...ui, isUnread: m.isUnread } : m)))
+        })
+
+        const stopReceipts = subscribeToReadReceipts((event) => {
+            const ids = new Set(event.message_ids.map(String))
+            setMessages((prev) => prev.map((m) => (ids.has(String(m.id)) ? { ...m, isSeen: true } : m)))
+        })
+
+        return () => {
+            stopMessages()
+            stopUpdates()
+            stopReceipts()
+        }
+    }, [myUserId, isVisibleForMe])
+
+    // Catch up on anything missed while the socket was down
+    useRealtimeReconnect(() => void loadMessages("refresh"))
+
     const handleRefresh = async () => {
         if (isLoading || isRefreshing) return
         await loadMessages("refresh")
     }
 
-    const conversations = React.useMemo(() => buildConversations(messages), [messages])
+    const conversations = React.useMemo(() => {
+        // Server rows carry the unread count; loaded messages may hold a newer last message
+        const map = new Map<string, Conversation>(Object.entries(summaries))
+        for (const c of buildConversations(messages)) {
+            const summary = map.get(c.id)
+            const localIsNewer =
+                !summary?.lastTimestamp ||
+                (!!c.lastTimestamp && new Date(c.lastTimestamp).getTime() >= new Date(summary.lastTimestamp).getTime())
+
+            if (!summary) map.set(c.id, c)
+            else if (localIsNewer) map.set(c.id, { ...summary, lastMessage: c.lastMessage, lastTimestamp: c.lastTimestamp })
+        }
+
+        const merged = Array.from(map.values())
+        merged.sort((a, b) => {
+            if (a.unreadCount !== b.unreadCount) return b.unreadCount - a.unreadCount
+            const ta = a.lastTimestamp ? new Date(a.lastTimestamp).getTime() : 0
+            const tb = b.lastTimestamp ? new Date(b.lastTimestamp).getTime() : 0
+            return tb - ta
+        })
+
+        return merged
+    }, [summaries, messages])
 
     const filteredConversations = React.useMemo(() => {
         const q = search.trim().toLowerCase()
@@ -767,9 +772,37 @@ const ReferralUserMessages: React.FC = () => {
             .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
     }, [messages, activeConversationId])
 
+    const activePeerId = activeConversation?.peerId ?? null
+    const activeHistory = historyFor(activeConversationId)
+    const lastActiveMessageId = activeMessages.length > 0 ? activeMessages[activeMessages.length - 1].id : null
+
+    React.useEffect(() => {
+        if (!activeConversationId || activePeerId == null) return
+        ensureLoaded(activeConversationId, activePeerId).catch((err) => {
+            toast.error(err instanceof Error ? err.message : "Failed to load this conversation.")
+        })
+    }, [activeConversationId, activePeerId, ensureLoaded])
+
+    // Follow the newest message only; older pages prepend without moving the view
     React.useEffect(() => {
         bottomRef.current?.scrollIntoView({ behavior: "smooth" })
-    }, [activeConversationId, activeMessages.length])
+    }, [activeConversationId, lastActiveMessageId])
+
+    const loadOlderActive = React.useCallback(async () => {
+        if (!activeConversationId || activePeerId == null) return false
+        try {
+            return await loadOlder(activeConversationId, activePeerId)
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to load older messages.")
+            return false
+        }
+    }, [activeConversationId, activePeerId, loadOlder])
+
+    useLoadOlderOnScroll(topRef, {
+        enabled: activeHistory.hasMore && !activeHistory.loading,
+        onLoadOlder: loadOlderActive,
+        contentKey: activeMessages.length > 0 ? activeMessages[0].id : null,
+    })
 
     React.useEffect(() => {
         if (!showNewMessage) return
@@ -843,6 +876,8 @@ const ReferralUserMessages: React.FC = () => {
             content: `Conversation started with ${peerName}.`,
             createdAt: nowIso,
             isUnread: false,
+            isSeen: false,
+            attachments: [],
 
             recipientRole: "counselor",
             recipientId: peerId,
@@ -867,7 +902,9 @@ const ReferralUserMessages: React.FC = () => {
             if (markInflightRef.current.has(conversationId)) return
 
             const unread = messages.filter((m) => m.conversationId === conversationId && m.isUnread)
-            if (unread.length === 0) return
+            const summary = summaries[conversationId] ?? null
+            const summaryUnread = summary?.unreadCount ?? 0
+            if (unread.length === 0 && summaryUnread === 0) return
 
             const unreadIdSet = new Set(unread.map((m) => String(m.id)))
 
@@ -879,6 +916,11 @@ const ReferralUserMessages: React.FC = () => {
 
             markInflightRef.current.add(conversationId)
 
+            const setSummaryUnread = (count: number) =>
+                setSummaries((prev) =>
+                    prev[conversationId] ? { ...prev, [conversationId]: { ...prev[conversationId], unreadCount: count } } : prev,
+                )
+
             // optimistic UI: clear unread locally
             setMessages((prev) =>
                 prev.map((m) =>
@@ -887,10 +929,14 @@ const ReferralUserMessages: React.FC = () => {
                         : m,
                 ),
             )
+            setSummaryUnread(0)
 
             try {
-                if (numericIds.length > 0) {
-                    await tryMarkMessagesAsRead(numericIds, token)
+                // With the counselor id the server also clears unread messages not loaded yet
+                if (summary?.peerId != null) {
+                    await tryMarkMessagesAsRead({ peer_id: summary.peerId }, token)
+                } else if (numericIds.length > 0) {
+                    await tryMarkMessagesAsRead({ message_ids: numericIds }, token)
                 }
             } catch (err: any) {
                 // rollback optimistic update if server fails
@@ -901,6 +947,7 @@ const ReferralUserMessages: React.FC = () => {
                             : m,
                     ),
                 )
+                setSummaryUnread(summaryUnread)
 
                 if (!opts?.silent) {
                     if (err?.status === 401) toast.error("Unauthorized (401). Please log in again.")
@@ -910,7 +957,7 @@ const ReferralUserMessages: React.FC = () => {
                 markInflightRef.current.delete(conversationId)
             }
         },
-        [messages, token],
+        [messages, summaries, token],
     )
 
     /**
@@ -944,10 +991,16 @@ const ReferralUserMessages: React.FC = () => {
 
         const convoId = activeConversation.id
         const removedMessages = activeMessages
+        const removedSummary = summaries[convoId] ?? null
 
         setIsDeletingConvo(true)
 
         setMessages((prev) => prev.filter((m) => m.conversationId !== convoId))
+        setSummaries((prev) => {
+            const next = { ...prev }
+            delete next[convoId]
+            return next
+        })
 
         try {
             await tryDeleteConversationApi(convoId, token)
@@ -960,6 +1013,7 @@ const ReferralUserMessages: React.FC = () => {
             setMobileView("list")
         } catch (err) {
             setMessages((prev) => [...prev, ...removedMessages])
+            if (removedSummary) setSummaries((prev) => ({ ...prev, [convoId]: removedSummary }))
             toast.error(err instanceof Error ? err.message : "Failed to delete conversation.")
         } finally {
             setIsDeletingConvo(false)
@@ -967,9 +1021,18 @@ const ReferralUserMessages: React.FC = () => {
     }
 
     const getConversationAvatarSrc = (c: Conversation): string | null => {
-        return resolveAvatarSrc(c.peerAvatarUrl ?? null)
+        return resolveStorageUrl(c.peerAvatarUrl ?? null)
     }
 
+    // Own messages can be edited or deleted for everyone within the edit window;
+    // any message can be deleted for yourself.
+    const isMine = (m: UiMessage) =>
+        (m.sender === "student" || m.sender === "guest" || m.sender === "referral_user") &&
+        (String(m.senderId ?? "") === myUserId || String(m.userId ?? "") === myUserId)
+    const canEdit = (m: UiMessage) =>
+        isMine(m) && !m.deletedAt && normalizeIdToNumberOrNull(m.id) != null && isWithinEditWindow(m.createdAt)
+    const canDeleteForEveryone = canEdit
+
     const beginEditMessage = (m: UiMessage) => {
         setEditingMessageId(String(m.id))
         setEditDraft(m.content ?? "")
@@ -990,9 +1053,12 @@ const ReferralUserMessages: React.FC = () => {
 
         const msgIdNum = normalizeIdToNumberOrNull(m.id)
         const prevContent = m.content
+        const prevEditedAt = m.editedAt ?? null
 
         setIsUpdatingMessage(true)
-        setMessages((prev) => prev.map((x) => (String(x.id) === String(m.id) ? { ...x, content: next } : x)))
+        setMessages((prev) =>
+            prev.map((x) => (String(x.id) === String(m.id) ? { ...x, content: next, editedAt: new Date().toISOString() } : x)),
+        )
 
         try {
             if (msgIdNum == null) {
@@ -1001,28 +1067,21 @@ const ReferralUserMessages: React.FC = () => {
                 return
             }
 
-            const res = await tryUpdateMessageApi(msgIdNum, next, token)
-
-            const dto =
-                (res as any)?.messageRecord ||
-                (res as any)?.message ||
-                (res as any)?.data ||
-                (res as any)?.record ||
-                null
+            const res = await editMessage(msgIdNum, next)
 
-            if (dto) {
-                const serverMsg = mapDtoToUi(dto)
-                setMessages((prev) =>
-                    prev.map((x) =>
-                        String(x.id) === String(m.id) ? { ...serverMsg, isUnread: false } : x,
-                    ),
-                )
-            }
+            const serverMsg = mapDtoToUi(res.messageRecord)
+            setMessages((prev) =>
+                prev.map((x) =>
+                    String(x.id) === String(m.id) ? { ...serverMsg, isUnread: false } : x,
+                ),
+            )
 
             toast.success("Message updated.")
             cancelEditMessage()
         } catch (err) {
-            setMessages((prev) => prev.map((x) => (String(x.id) === String(m.id) ? { ...x, content: prevContent } : x)))
+            setMessages((prev) =>
+                prev.map((x) => (String(x.id) === String(m.id) ? { ...x, content: prevContent, editedAt: prevEditedAt } : x)),
+            )
             toast.error(err instanceof Error ? err.message : "Failed to update message.")
             setIsUpdatingMessage(false)
         }
@@ -1033,7 +1092,7 @@ const ReferralUserMessages: React.FC = () => {
         setDeleteMessageOpen(true)
     }
 
-    const confirmDeleteMessage = async () => {
+    const confirmDeleteMessage = async (scope: MessageDeleteScope) => {
         if (!deleteTarget) return
 
         const target = deleteTarget
@@ -1041,6 +1100,25 @@ const ReferralUserMessages: React.FC = () => {
 
         setIsDeletingMessage(true)
 
+        if (scope === "everyone" && msgIdNum != null) {
+            try {
+                const res = await deleteMessage(msgIdNum, "everyone")
+                const deletedAt = res.messageRecord?.deleted_at ?? new Date().toISOString()
+                setMessages((prev) =>
+                    prev.map((x) => (String(x.id) === String(target.id) ? { ...x, content: "", attachments: [], deletedAt } : x)),
+                )
+                toast.success("Message deleted for everyone.")
+                setDeleteMessageOpen(false)
+                setDeleteTarget(null)
+                void loadSummaries().catch(() => undefined)
+            } catch (err) {
+                toast.error(err instanceof Error ? err.message : "Failed to delete message.")
+            } finally {
+                setIsDeletingMessage(false)
+            }
+            return
+        }
+
         setMessages((prev) => prev.filter((x) => String(x.id) !== String(target.id)))
 
         try {
@@ -1051,10 +1129,13 @@ const ReferralUserMessages: React.FC = () => {
                 return
             }
 
-            await tryDeleteMessageApi(msgIdNum, token)
-            toast.success("Message deleted.")
+            await deleteMessage(msgIdNum, "me")
+            toast.success("Message deleted for you.")
             setDeleteMessageOpen(false)
             setDeleteTarget(null)
+
+            // The deleted message may have been the thread's preview
+            void loadSummaries().catch(() => undefined)
         } catch (err) {
             setMessages((prev) => [...prev, target])
             toast.error(err instanceof Error ? err.message : "Failed to delete message.")
@@ -1075,7 +1156,8 @@ const ReferralUserMessages: React.FC = () => {
         openedConversationIdsRef.current.add(activeConversation.id)
 
         const text = draft.trim()
-        if (!text) return
+        const files = draftFiles
+        if (!text && files.length === 0) return
 
         const counselorId = activeConversation.peerId ?? null
         if (!counselorId) {
@@ -1096,6 +1178,8 @@ const ReferralUserMessages: React.FC = () => {
             content: text,
             createdAt: nowIso,
             isUnread: false,
+            isSeen: false,
+            attachments: [],
             senderId: myUserId || null,
             recipientRole: "counselor",
             recipientId: counselorId,
@@ -1105,6 +1189,7 @@ const ReferralUserMessages: React.FC = () => {
 
         setMessages((prev) => [...prev, optimistic])
         setDraft("")
+        setDraftFiles([])
 
         try {
             const payload: any = {
@@ -1113,20 +1198,17 @@ const ReferralUserMessages: React.FC = () => {
 
                 // ✅ helps the backend + guarantees same thread id across clients
                 conversation_id: activeConversation.id,
+                attachments: files,
             }
 
             const res = await trySendReferralUserMessage(payload, token)
 
-            const dto =
-                (res as any)?.messageRecord ||
-                (res as any)?.message ||
-                (res as any)?.data ||
-                null
+            const raw = res?.messageRecord ?? res?.message ?? res?.data ?? null
 
             let finalConversationId = activeConversation.id
 
-            if (dto) {
-                const serverMsg = mapDtoToUi(dto)
+            if (raw && typeof raw === "object") {
+                const serverMsg = mapDtoToUi(parseMessage(raw))
 
                 setMessages((prev) => prev.map((m) => (m.id === tempId ? { ...serverMsg, isUnread: false } : m)))
 
@@ -1147,6 +1229,7 @@ const ReferralUserMessages: React.FC = () => {
             void markConversationReadById(finalConversationId, { silent: true })
         } catch (err: any) {
             setMessages((prev) => prev.filter((m) => m.id !== tempId))
+            setDraftFiles(files)
             if (err?.status === 401) toast.error("Unauthorized (401). Please log in again.")
             else toast.error(err instanceof Error ? err.message : "Failed to send message.")
         } finally {
@@ -1423,11 +1506,20 @@ const ReferralUserMessages: React.FC = () => {
 
                                 <ScrollArea className="h-120 bg-linear-to-b from-muted/30 to-white sm:h-128">
                                     <div className="space-y-3 p-3 sm:p-4">
+                                        <div ref={topRef} />
+                                        {activeConversation && activeMessages.length > 0 ? (
+                                            activeHistory.loading ? (
+                                                <div className="text-center text-xs text-muted-foreground">Loading messages…</div>
+                                            ) : activeHistory.loaded && !activeHistory.hasMore ? (
+                                                <div className="text-center text-xs text-muted-foreground">Start of conversation</div>
+                                            ) : null
+                                        ) : null}
+
                                         {!activeConversation ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">
                                                 Choose a conversation from the left.
                                             </div>
-                                        ) : isLoading ? (
+                                        ) : isLoading || (activeHistory.loading && activeMessages.length === 0) ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">
                                                 Loading messages…
                                             </div>
@@ -1469,7 +1561,18 @@ const ReferralUserMessages: React.FC = () => {
                                                                 <span aria-hidden="true">•</span>
                                                                 <span>{formatTimestamp(m.createdAt)}</span>
 
-                                                                {!system && mine ? (
+                                                                {m.editedAt && !m.deletedAt ? (
+                                                                    <span title={formatTimestamp(m.editedAt)}>(edited)</span>
+                                                                ) : null}
+
+                                                                {!system && mine && m.isSeen ? (
+                                                                    <span className="inline-flex items-center gap-0.5 text-emerald-700">
+                                                                        <CheckCheck className="h-3 w-3" />
+                                                                        Seen
+                                                                    </span>
+                                                                ) : null}
+
+                                                                {!system ? (
                                                                     <DropdownMenu>
                                                                         <DropdownMenuTrigger asChild>
                                                                             <Button
@@ -1483,17 +1586,19 @@ const ReferralUserMessages: React.FC = () => {
                                                                                 <MoreVertical className="h-3.5 w-3.5" />
                                                                             </Button>
                                                                         </DropdownMenuTrigger>
-                                                                        <DropdownMenuContent align="end">
-                                                                            <DropdownMenuItem
-                                                                                onSelect={(e) => {
-                                                                                    e.preventDefault()
-                                                                                    beginEditMessage(m)
-                                                                                }}
-                                                                                disabled={isEditing || isUpdatingMessage}
-                                                                            >
-                                                                                <Pencil className="mr-2 h-4 w-4" />
-                                                                                Edit
-                                                                            </DropdownMenuItem>
+                                                                        <DropdownMenuContent align={mine ? "end" : "start"}>
+                                                                            {canEdit(m) ? (
+                                                                                <DropdownMenuItem
+                                                                                    onSelect={(e) => {
+                                                                                        e.preventDefault()
+                                                                                        beginEditMessage(m)
+                                                                                    }}
+                                                                                    disabled={isEditing || isUpdatingMessage}
+                                                                                >
+                                                                                    <Pencil className="mr-2 h-4 w-4" />
+                                                                                    Edit
+                                                                                </DropdownMenuItem>
+                                                                            ) : null}
                                                                             <DropdownMenuItem
                                                                                 className="text-destructive focus:text-destructive"
                                                                                 onSelect={(e) => {
@@ -1519,6 +1624,9 @@ const ReferralUserMessages: React.FC = () => {
                                                                             className="min-h-20 resize-none rounded-xl"
                                                                             disabled={isUpdatingMessage}
                                                                         />
+                                                                        <p className="text-[0.70rem] text-muted-foreground">
+                                                                            Messages can be edited within {MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.
+                                                                        </p>
                                                                         <div className={cn("flex gap-2", mine ? "justify-end" : "justify-start")}>
                                                                             <Button
                                                                                 type="button"
@@ -1539,9 +1647,17 @@ const ReferralUserMessages: React.FC = () => {
                                                                             </Button>
                                                                         </div>
                                                                     </div>
+                                                                ) : m.deletedAt ? (
+                                                                    <span className="italic text-muted-foreground">{DELETED_MESSAGE_TEXT}</span>
                                                                 ) : (
                                                                     m.content
                                                                 )}
+                                                                {m.deletedAt ? null : (
+                                                                    <MessageAttachmentList
+                                                                        attachments={m.attachments}
+                                                                        className={m.content || isEditing ? "mt-2" : undefined}
+                                                                    />
+                                                                )}
                                                             </div>
                                                         </div>
                                                     </div>
@@ -1556,6 +1672,11 @@ const ReferralUserMessages: React.FC = () => {
                                 <form onSubmit={handleSend} className="border-t bg-white/80 p-3 sm:p-4">
                                     <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:gap-2">
                                         <div className="flex-1">
+                                            <SelectedAttachments
+                                                files={draftFiles}
+                                                onRemove={(index) => setDraftFiles((prev) => prev.filter((_, i) => i !== index))}
+                                                disabled={isSending}
+                                            />
                                             <Textarea
                                                 value={draft}
                                                 onChange={(e) => setDraft(e.target.value)}
@@ -1565,10 +1686,16 @@ const ReferralUserMessages: React.FC = () => {
                                             />
                                         </div>
 
+                                        <AttachmentPickerButton
+                                            files={draftFiles}
+                                            onChange={setDraftFiles}
+                                            disabled={!activeConversation || isSending}
+                                        />
+
                                         <Button
                                             type="submit"
                                             className="h-11 w-full rounded-2xl px-5 sm:w-auto"
-                                            disabled={!activeConversation || isSending || !draft.trim()}
+                                            disabled={!activeConversation || isSending || (!draft.trim() && draftFiles.length === 0)}
                                         >
                                             {isSending ? "Sending…" : "Send"}
                                         </Button>
@@ -1608,18 +1735,33 @@ const ReferralUserMessages: React.FC = () => {
                         <AlertDialogHeader>
                             <AlertDialogTitle>Delete message?</AlertDialogTitle>
                             <AlertDialogDescription>
-                                This will delete the selected message. This action can’t be undone.
+                                {deleteTarget && canDeleteForEveryone(deleteTarget)
+                                    ? "Delete it from your inbox only, or for everyone in this conversation."
+                                    : "This will remove the selected message from your inbox. This action can’t be undone."}
                             </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
                             <AlertDialogCancel disabled={isDeletingMessage}>Cancel</AlertDialogCancel>
                             <AlertDialogAction
-                                onClick={confirmDeleteMessage}
+                                onClick={() => void confirmDeleteMessage("me")}
                                 disabled={isDeletingMessage}
-                                className="bg-destructive text-white hover:bg-destructive/90"
+                                className={
+                                    deleteTarget && canDeleteForEveryone(deleteTarget)
+                                        ? undefined
+                                        : "bg-destructive text-white hover:bg-destructive/90"
+                                }
                             >
-                                {isDeletingMessage ? "Deleting…" : "Delete message"}
+                                {isDeletingMessage ? "Deleting…" : "Delete for me"}
                             </AlertDialogAction>
+                            {deleteTarget && canDeleteForEveryone(deleteTarget) ? (
+                                <AlertDialogAction
+                                    onClick={() => void confirmDeleteMessage("everyone")}
+                                    disabled={isDeletingMessage}
+                                    className="bg-destructive text-white hover:bg-destructive/90"
+                                >
+                                    Delete for everyone
+                                </AlertDialogAction>
+                            ) : null}
                         </AlertDialogFooter>
                     </AlertDialogContent>
                 </AlertDialog>
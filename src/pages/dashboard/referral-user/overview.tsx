@@ -6,7 +6,8 @@ import { format, subDays } from "date-fns"
 
 import DashboardLayout from "@/components/DashboardLayout"
 import { getCurrentSession } from "@/lib/authentication"
-import { fetchReferralUserReferrals } from "@/lib/referrals"
+import { apiFetch } from "@/api/client"
+import { fetchReferralUserReferrals, type Referral as ReferralDto } from "@/lib/referrals"
 
 import { cn } from "@/lib/utils"
 import { RefreshCw, MessageSquareText, FileText, CircleAlert, MailOpen } from "lucide-react"
@@ -69,14 +70,6 @@ type UiReferral = {
   createdAt: string
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-  if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-  const trimmed = path.replace(/^\/+/, "")
-  return `${API_BASE_URL}/${trimmed}`
-}
 
 function safeText(v: any, fallback = ""): string {
   if (v === null || v === undefined) return fallback
@@ -213,42 +206,6 @@ function buildConversationsForReferralUser(messages: UiMessage[], myUserId: stri
   return convs
 }
 
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<any> {
-  const url = resolveApiUrl(path)
-
-  const res = await fetch(url, {
-    ...init,
-    credentials: "include",
-    headers: {
-      Accept: "application/json",
-      ...(init.body ? { "Content-Type": "application/json" } : {}),
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...(init.headers ?? {}),
-    },
-  })
-
-  const text = await res.text()
-  let data: any = null
-
-  if (text) {
-    try {
-      data = JSON.parse(text)
-    } catch {
-      data = text
-    }
-  }
-
-  if (!res.ok) {
-    const msg = data?.message || data?.error || res.statusText || "Server request failed."
-    const err: any = new Error(msg)
-    err.status = res.status
-    err.data = data
-    throw err
-  }
-
-  return data
-}
-
 function extractArray(payload: any, keys: string[]): any[] {
   if (!payload) return []
   if (Array.isArray(payload)) return payload
@@ -258,40 +215,18 @@ function extractArray(payload: any, keys: string[]): any[] {
   return []
 }
 
-function mapDtoToUiReferral(dto: any): UiReferral {
-  const studentId =
-    safeText(dto?.student?.student_id) ||
-    safeText(dto?.student?.studentId) ||
-    safeText(dto?.student_id) ||
-    safeText(dto?.studentId) ||
-    ""
-
-  const studentName =
-    safeText(dto?.student_name) ||
-    safeText(dto?.student?.name) ||
-    (studentId ? `Student • ${studentId}` : "Student")
-
-  const concernType =
-    safeText(dto?.concern_type) ||
-    safeText(dto?.concernType) ||
-    safeText(dto?.concern) ||
-    "N/A"
-
-  const urgency =
-    safeText(dto?.urgency) ||
-    safeText(dto?.priority) ||
-    "medium"
-
-  const status = safeText(dto?.status, "pending") || "pending"
-  const createdAt = safeIso(dto?.created_at)
+function mapDtoToUiReferral(dto: ReferralDto): UiReferral {
+  const studentId = safeText(dto.student?.student_id) || safeText(dto.student_id)
+  const studentName = safeText(dto.student_name) || (studentId ? `Student • ${studentId}` : "Student")
+  const createdAt = safeIso(dto.created_at)
 
   return {
-    id: dto?.id ?? `${createdAt}-${Math.random().toString(36).slice(2)}`,
+    id: dto.id !== "" ? dto.id : `${createdAt}-${Math.random().toString(36).slice(2)}`,
     studentName,
     studentId,
-    concernType,
-    urgency,
-    status,
+    concernType: safeText(dto.concern_type) || "N/A",
+    urgency: safeText(dto.urgency) || "medium",
+    status: safeText(dto.status, "pending") || "pending",
     createdAt,
   }
 }
@@ -349,11 +284,11 @@ const ReferralUserOverview: React.FC = () => {
     try {
       // Referrals
       const list = await fetchReferralUserReferrals({ per_page: 100 }, token)
-      const mappedReferrals = (Array.isArray(list) ? list : []).map(mapDtoToUiReferral)
+      const mappedReferrals = list.map(mapDtoToUiReferral)
       setReferrals(mappedReferrals)
 
       // Messages
-      const raw = await apiFetch("/referral-user/messages", { method: "GET" }, token)
+      const raw = await apiFetch<any>("/referral-user/messages", { method: "GET", token })
       const arr = extractArray(raw, ["messages", "data", "results", "items", "records"])
       const mappedMsgs = (Array.isArray(arr) ? arr : []).map(mapDtoToUiMessage)
       setMessages(mappedMsgs)
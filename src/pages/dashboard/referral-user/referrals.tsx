@@ -4,7 +4,8 @@ import { toast } from "sonner"
 import { format } from "date-fns"
 import DashboardLayout from "@/components/DashboardLayout"
 import { getCurrentSession } from "@/lib/authentication"
-import { createReferralApi, type ReferralDto } from "@/api/referrals/route"
+import { apiFetch } from "@/api/client"
+import { createReferralApi, parseReferral, type ReferralDto } from "@/api/referrals/route"
 import { fetchReferralUserReferrals } from "@/lib/referrals"
 
 import { cn } from "@/lib/utils"
@@ -120,14 +121,6 @@ type UiReferral = {
     updatedAt?: string
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-    if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-    const trimmed = path.replace(/^\/+/, "")
-    return `${API_BASE_URL}/${trimmed}`
-}
 
 function safeText(v: any, fallback = ""): string {
     if (v === null || v === undefined) return fallback
@@ -219,112 +212,40 @@ function appointmentLabel(date?: string | null, time?: string | null) {
 }
 
 function toUiReferral(dto: ReferralDto): UiReferral {
-    const anyDto = dto as any
-
-    const displayStudentId =
-        safeText(anyDto?.student?.student_id) ||
-        safeText(anyDto?.student?.studentId) ||
-        safeText(anyDto?.student_id) ||
-        safeText(anyDto?.studentId) ||
-        ""
+    // DTO is already normalized by `referralSchema` (aliases + flat/nested fallbacks)
+    const displayStudentId = safeText(dto.student?.student_id) || safeText(dto.student_id)
 
     const studentName =
-        safeText(anyDto?.student_name) ||
-        safeText(anyDto?.student?.name) ||
-        (displayStudentId ? `Student • ${displayStudentId}` : "Student")
-
-    const studentEmail =
-        safeText(anyDto?.student_email) ||
-        safeText(anyDto?.student?.email) ||
-        null
-
-    const concernType =
-        safeText(anyDto?.concern_type) ||
-        safeText(anyDto?.concernType) ||
-        safeText(anyDto?.concern) ||
-        "N/A"
-
-    const urgency =
-        safeText(anyDto?.urgency) ||
-        safeText(anyDto?.priority) ||
-        "medium"
-
-    const details =
-        safeText(anyDto?.details) ||
-        safeText(anyDto?.description) ||
-        ""
-
-    const status = (safeText(anyDto?.status, "pending") || "pending") as ReferralStatus
-
-    const requestedByName =
-        safeText(anyDto?.requested_by_name) ||
-        safeText(anyDto?.requestedBy?.name) ||
-        safeText(anyDto?.requested_by?.name) ||
-        "You"
-
-    const requestedByRole =
-        safeText(anyDto?.requested_by_role) ||
-        safeText(anyDto?.requestedBy?.role) ||
-        safeText(anyDto?.requested_by?.role) ||
-        "Referral User"
-
-    const counselorName =
-        safeText(anyDto?.counselor?.name) ||
-        safeText(anyDto?.counselor_name) ||
-        null
-
-    const counselorEmail =
-        safeText(anyDto?.counselor?.email) ||
-        safeText(anyDto?.counselor_email) ||
-        null
-
-    const remarks = safeText(anyDto?.remarks) || null
-    const handledAt = safeText(anyDto?.handled_at) || null
-    const closedAt = safeText(anyDto?.closed_at) || null
-
-    // ✅ Appointment fallbacks (matches counselor files)
-    const scheduledDate =
-        safeText(anyDto?.scheduled_date) ||
-        safeText(anyDto?.appointment_date) ||
-        safeText(anyDto?.schedule_date) ||
-        safeText(anyDto?.counseling_date) ||
-        null
-
-    const scheduledTime =
-        safeText(anyDto?.scheduled_time) ||
-        safeText(anyDto?.appointment_time) ||
-        safeText(anyDto?.schedule_time) ||
-        safeText(anyDto?.counseling_time) ||
-        null
+        safeText(dto.student_name) || (displayStudentId ? `Student • ${displayStudentId}` : "Student")
 
     return {
         id: dto.id,
 
         studentId: displayStudentId,
         studentName,
-        studentEmail,
+        studentEmail: dto.student_email,
 
-        concernType,
-        urgency,
-        details,
+        concernType: safeText(dto.concern_type) || "N/A",
+        urgency: safeText(dto.urgency) || "medium",
+        details: safeText(dto.details),
 
-        status,
+        status: (safeText(dto.status) || "pending") as ReferralStatus,
 
-        remarks,
-        handledAt,
-        closedAt,
-        counselorName,
-        counselorEmail,
+        remarks: dto.remarks,
+        handledAt: dto.handled_at,
+        closedAt: dto.closed_at,
+        counselorName: dto.counselor_name,
+        counselorEmail: dto.counselor_email,
 
         // ✅ Appointment (read)
-        scheduledDate,
-        scheduledTime,
+        scheduledDate: dto.scheduled_date,
+        scheduledTime: dto.scheduled_time,
 
-        requestedByName,
-        requestedByRole,
+        requestedByName: safeText(dto.requested_by_name) || "You",
+        requestedByRole: safeText(dto.requested_by_role) || "Referral User",
 
-        createdAt: safeText(anyDto?.created_at) || undefined,
-        updatedAt: safeText(anyDto?.updated_at) || undefined,
+        createdAt: dto.created_at ?? undefined,
+        updatedAt: dto.updated_at ?? undefined,
     }
 }
 
@@ -344,42 +265,6 @@ function urgencyBadgeVariant(urgency: string): "secondary" | "default" | "destru
     return "outline"
 }
 
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<any> {
-    const url = resolveApiUrl(path)
-
-    const res = await fetch(url, {
-        ...init,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-    })
-
-    const text = await res.text()
-    let data: any = null
-
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const msg = data?.message || data?.error || res.statusText || "Server request failed."
-        const err: any = new Error(msg)
-        err.status = res.status
-        err.data = data
-        throw err
-    }
-
-    return data
-}
-
 function extractUsersArray(payload: any): any[] {
     if (!payload) return []
     if (Array.isArray(payload)) return payload
@@ -409,7 +294,7 @@ async function trySearchStudents(query: string, token?: string | null): Promise<
 
     for (const p of candidates) {
         try {
-            const data = await apiFetch(p, { method: "GET" }, token)
+            const data = await apiFetch<any>(p, { method: "GET", token })
             const arr = extractUsersArray(data)
 
             const mapped: DirectoryStudent[] = arr
@@ -596,7 +481,7 @@ const ReferralUserReferrals: React.FC = () => {
 
         try {
             const list = await fetchReferralUserReferrals({ per_page: 100 }, token)
-            const mapped = (Array.isArray(list) ? list : []).map(toUiReferral)
+            const mapped = list.map(toUiReferral)
             setRows(mapped)
         } catch (err: any) {
             const status = err?.status
@@ -777,13 +662,11 @@ const ReferralUserReferrals: React.FC = () => {
         // Fetch latest details (READ) using existing show endpoint
         setViewBusy(true)
         try {
-            const res = await apiFetch(
+            const res = await apiFetch<any>(
                 `/referral-user/referrals/${encodeURIComponent(String(r.id))}`,
-                { method: "GET" },
-                token,
+                { method: "GET", token },
             )
-            const dto = (res as any)?.referral as ReferralDto | undefined
-            if (dto) setViewReferral(toUiReferral(dto))
+            if (res?.referral) setViewReferral(toUiReferral(parseReferral(res.referral)))
         } catch (err: any) {
             // If show endpoint is not available for some reason, keep local data.
             const status = err?.status
@@ -845,10 +728,9 @@ const ReferralUserReferrals: React.FC = () => {
                 }
 
                 const res = await createReferralApi(payload as any, token)
-                const dto = (res as any)?.referral as ReferralDto | undefined
 
-                if (dto) {
-                    const ui = toUiReferral(dto)
+                if (res.referral.id !== "") {
+                    const ui = toUiReferral(res.referral)
                     setRows((prev) => [ui, ...prev])
                 } else {
                     await refresh()
@@ -875,15 +757,13 @@ const ReferralUserReferrals: React.FC = () => {
             // NOTE:
             // This expects backend support:
             // PATCH /referral-user/referrals/{id}
-            const res = await apiFetch(
+            const res = await apiFetch<any>(
                 `/referral-user/referrals/${encodeURIComponent(String(editingId))}`,
-                { method: "PATCH", body: JSON.stringify(payload) },
-                token,
+                { method: "PATCH", body: JSON.stringify(payload), token },
             )
 
-            const dto = (res as any)?.referral as ReferralDto | undefined
-            if (dto) {
-                const ui = toUiReferral(dto)
+            if (res?.referral) {
+                const ui = toUiReferral(parseReferral(res.referral))
                 setRows((prev) => prev.map((x) => (String(x.id) === String(ui.id) ? ui : x)))
             } else {
                 await refresh()
@@ -917,10 +797,9 @@ const ReferralUserReferrals: React.FC = () => {
             // ✅ DELETE
             // This expects backend support:
             // DELETE /referral-user/referrals/{id}
-            await apiFetch(
+            await apiFetch<any>(
                 `/referral-user/referrals/${encodeURIComponent(String(deleteTarget.id))}`,
-                { method: "DELETE" },
-                token,
+                { method: "DELETE", token },
             )
 
             setRows((prev) => prev.filter((x) => String(x.id) !== String(deleteTarget.id)))
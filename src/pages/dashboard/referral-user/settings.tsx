@@ -23,7 +23,7 @@ import {
     type AuthSession,
 } from "@/lib/authentication";
 import { normalizeRole } from "@/lib/role";
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
+import { apiFetch } from "@/api/client";
 import {
     Select,
     SelectContent,
@@ -45,64 +45,6 @@ const getInitials = (name?: string | null): string => {
         .slice(0, 2);
 };
 
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error(
-            "VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.",
-        );
-    }
-    const trimmedPath = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmedPath}`;
-}
-
-async function apiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const err = new Error(message) as any;
-        err.status = response.status;
-        err.data = body ?? text;
-        throw err;
-    }
-
-    return data as T;
-}
-
 async function updateProfileOnServer(payload: any): Promise<any> {
     // Primary (referral-user)
     try {
@@ -8,6 +8,8 @@ import { toast } from "sonner";
 import {
     AlertCircle,
     CalendarClock,
+    CalendarPlus,
+    CalendarX2,
     ClipboardList as ClipboardListIcon,
     Loader2,
     Trash2,
@@ -18,6 +20,15 @@ import { format, parseISO, startOfToday } from "date-fns";
 import { fetchStudentEvaluations } from "@/lib/evaluation";
 import type { StudentEvaluation as StudentEvaluationEntry } from "@/lib/evaluation";
 import { fetchStudentAssessments, type StudentAssessment } from "@/lib/intake";
+import { APPOINTMENT_STATUS_LABELS, parseAppointmentStatus } from "@/lib/appointment-status";
+import {
+    APPOINTMENT_CHANGE_STATUS_LABELS,
+    APPOINTMENT_CHANGE_TYPE_LABELS,
+    canRequestAppointmentChange,
+} from "@/lib/appointment-changes";
+import { downloadAppointmentIcs } from "@/lib/ics";
+import { isWaitlisted } from "@/lib/waitlist";
+import { PHQ9_ITEM_KEYS, PHQ9_ITEM_LABELS, formatPhq9Frequency } from "@/lib/phq9";
 
 import {
     Dialog,
@@ -39,7 +50,9 @@ import {
     AlertDialogAction,
 } from "@/components/ui/alert-dialog";
 
-import { AUTH_API_BASE_URL } from "@/api/auth/route";
+import { AppointmentChangeDialog } from "@/components/appointment-change-dialog";
+
+import { apiFetch } from "@/api/client";
 
 const CONCERN_LABELS: Record<string, string> = {
     academic: "Academic",
@@ -56,103 +69,6 @@ const URGENCY_LABELS: Record<string, string> = {
     high: "Urgent (as soon as possible)",
 };
 
-type MentalFrequencyApi =
-    | "not_at_all"
-    | "several_days"
-    | "more_than_half"
-    | "nearly_every_day";
-
-const MENTAL_FREQUENCY_LABELS: Record<string, string> = {
-    not_at_all: "Not at all",
-    several_days: "Several days",
-    more_than_half: "More than half the days",
-    nearly_every_day: "Nearly every day",
-};
-
-const MH_KEYS = [
-    "mh_little_interest",
-    "mh_feeling_down",
-    "mh_sleep",
-    "mh_energy",
-    "mh_appetite",
-    "mh_self_esteem",
-    "mh_concentration",
-    "mh_motor",
-    "mh_self_harm",
-] as const;
-
-const MH_QUESTIONS: Record<(typeof MH_KEYS)[number], string> = {
-    mh_little_interest: "Little interest or pleasure in doing things",
-    mh_feeling_down: "Feeling down, depressed, or hopeless",
-    mh_sleep: "Trouble falling/staying asleep, or sleeping too much",
-    mh_energy: "Feeling tired or having little energy",
-    mh_appetite: "Poor appetite or overeating",
-    mh_self_esteem:
-        "Feeling bad about yourself — or that you are a failure or have let yourself or your family down",
-    mh_concentration:
-        "Trouble concentrating on things (e.g., reading or watching television)",
-    mh_motor: "Moving/speaking slowly, or the opposite — fidgety/restless",
-    mh_self_harm: "Thoughts that you would be better off dead or of hurting yourself",
-};
-
-function resolveApiUrl(path: string): string {
-    if (!AUTH_API_BASE_URL) {
-        throw new Error(
-            "VITE_API_LARAVEL_BASE_URL is not defined. Set it in your .env file.",
-        );
-    }
-    const trimmed = path.replace(/^\/+/, "");
-    return `${AUTH_API_BASE_URL}/${trimmed}`;
-}
-
-async function studentApiFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
-    const url = resolveApiUrl(path);
-
-    const response = await fetch(url, {
-        ...init,
-        headers: {
-            Accept: "application/json",
-            "Content-Type": "application/json",
-            ...(init.headers ?? {}),
-        },
-        credentials: "include",
-    });
-
-    const text = await response.text();
-    let data: unknown = null;
-
-    if (text) {
-        try {
-            data = JSON.parse(text);
-        } catch {
-            data = text;
-        }
-    }
-
-    if (!response.ok) {
-        const body = data as any;
-
-        const firstErrorFromLaravel =
-            body?.errors && typeof body.errors === "object"
-                ? (Object.values(body.errors)[0] as any)?.[0]
-                : undefined;
-
-        const message =
-            body?.message ||
-            body?.error ||
-            firstErrorFromLaravel ||
-            response.statusText ||
-            "An unknown error occurred while communicating with the server.";
-
-        const error = new Error(message) as Error & { status?: number; data?: unknown };
-        error.status = response.status;
-        error.data = body ?? text;
-        throw error;
-    }
-
-    return data as T;
-}
-
 async function deleteStudentRequest(requestId: number | string): Promise<any> {
     const candidates = [
         `/student/appointments/${requestId}`,
@@ -164,7 +80,7 @@ async function deleteStudentRequest(requestId: number | string): Promise<any> {
     let lastErr: unknown = null;
     for (const path of candidates) {
         try {
-            return await studentApiFetch<any>(path, { method: "DELETE" });
+            return await apiFetch<any>(path, { method: "DELETE" });
         } catch (err) {
             const e = err as any;
             lastErr = err;
@@ -184,7 +100,7 @@ async function deleteStudentAssessment(assessmentId: number | string): Promise<a
     let lastErr: unknown = null;
     for (const path of candidates) {
         try {
-            return await studentApiFetch<any>(path, { method: "DELETE" });
+            return await apiFetch<any>(path, { method: "DELETE" });
         } catch (err) {
             const e = err as any;
             lastErr = err;
@@ -196,36 +112,30 @@ async function deleteStudentAssessment(assessmentId: number | string): Promise<a
 }
 
 function StatusBadge({ status }: { status: string }) {
-    const normalized = status.toLowerCase();
+    const normalized = parseAppointmentStatus(status);
 
-    let label = status;
+    let label = normalized ? APPOINTMENT_STATUS_LABELS[normalized] : status;
     let className = "border px-2 py-0.5 rounded-full text-[0.7rem] font-medium";
 
     switch (normalized) {
-        case "pending":
+        case "requested":
             label = "Pending review";
             className += " bg-amber-50 text-amber-800 border-amber-200";
             break;
-        case "in_review":
-            label = "In review";
-            className += " bg-sky-50 text-sky-800 border-sky-200";
-            break;
         case "scheduled":
-            label = "Scheduled";
             className += " bg-emerald-50 text-emerald-800 border-emerald-200";
             break;
+        case "rescheduled":
+            className += " bg-sky-50 text-sky-800 border-sky-200";
+            break;
         case "completed":
-            label = "Completed";
             className += " bg-emerald-50 text-emerald-800 border-emerald-200";
             break;
         case "cancelled":
-        case "canceled":
-            label = "Cancelled";
             className += " bg-slate-50 text-slate-700 border-slate-200 line-through";
             break;
-        case "closed":
-            label = "Closed";
-            className += " bg-slate-50 text-slate-700 border-slate-200";
+        case "no_show":
+            className += " bg-red-50 text-red-700 border-red-200";
             break;
         default:
             label = status;
@@ -235,6 +145,33 @@ function StatusBadge({ status }: { status: string }) {
     return <Badge className={className}>{label}</Badge>;
 }
 
+/**
+ * Latest reschedule / cancellation request and the counselor's answer.
+ */
+function ChangeRequestNote({ evaluation }: { evaluation: StudentEvaluationEntry }) {
+    const request = evaluation.change_request;
+    if (!request) return null;
+
+    const what =
+        request.type === "reschedule"
+            ? `${APPOINTMENT_CHANGE_TYPE_LABELS.reschedule} to ${request.proposed_date ?? "—"} · ${request.proposed_time ?? "—"}`
+            : APPOINTMENT_CHANGE_TYPE_LABELS.cancel;
+
+    const tone =
+        request.status === "pending"
+            ? "border-amber-200 bg-amber-50 text-amber-900"
+            : request.status === "accepted"
+              ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+              : "border-slate-200 bg-slate-50 text-slate-700";
+
+    return (
+        <div className={`mt-1 rounded-md border px-2 py-1 text-[0.7rem] ${tone}`}>
+            <span className="font-medium">{what}</span> · {APPOINTMENT_CHANGE_STATUS_LABELS[request.status]}
+            {request.decision_note ? <span className="block">Counselor note: {request.decision_note}</span> : null}
+        </div>
+    );
+}
+
 function normalizeText(value: unknown): string {
     return String(value ?? "").trim().toLowerCase();
 }
@@ -273,12 +210,6 @@ function formatUrgency(raw?: string | null): string {
     return URGENCY_LABELS[v] ?? v.charAt(0).toUpperCase() + v.slice(1);
 }
 
-function prettyFrequency(value?: string | null): string {
-    if (!value) return "—";
-    const v = String(value) as MentalFrequencyApi | string;
-    return MENTAL_FREQUENCY_LABELS[v] ?? String(value);
-}
-
 // Final schedule should come from scheduled_* when present
 function getFinalDate(req: any): string | null {
     return (req?.scheduled_date as string | null) ?? null;
@@ -288,6 +219,11 @@ function getFinalTime(req: any): string | null {
 }
 
 function formatPreferredDateTime(evaluation: StudentEvaluationEntry): string {
+    if (isWaitlisted(evaluation)) {
+        return evaluation.waitlist_position
+            ? `On the waitlist (#${evaluation.waitlist_position})`
+            : "On the waitlist";
+    }
     if (!evaluation.preferred_date) return "To be scheduled";
 
     try {
@@ -316,6 +252,8 @@ function formatFinalDateTime(evaluation: any): string {
 }
 
 function isUpcoming(evaluation: any): boolean {
+    if (isWaitlisted(evaluation)) return true;
+
     const dateStr = getFinalDate(evaluation) ?? evaluation?.preferred_date ?? null;
     if (!dateStr) return false;
 
@@ -350,7 +288,7 @@ function formatLivingSituation(raw?: string | null, other?: string | null): stri
 }
 
 function getAssessmentHasAnyResponses(assessment: any): boolean {
-    return MH_KEYS.some((k) => Boolean(assessment?.[k]));
+    return PHQ9_ITEM_KEYS.some((k) => Boolean(assessment?.[k]));
 }
 
 type DeleteTarget =
@@ -373,6 +311,9 @@ const StudentEvaluation: React.FC = () => {
     const [selectedRequest, setSelectedRequest] =
         React.useState<StudentEvaluationEntry | null>(null);
 
+    // Reschedule / cancel request
+    const [changeTarget, setChangeTarget] = React.useState<StudentEvaluationEntry | null>(null);
+
     // Delete confirmation (AlertDialog)
     const [deleteOpen, setDeleteOpen] = React.useState(false);
     const [deleteTarget, setDeleteTarget] = React.useState<DeleteTarget | null>(null);
@@ -429,6 +370,12 @@ const StudentEvaluation: React.FC = () => {
         setIsDialogOpen(true);
     };
 
+    const downloadRequestIcs = (req: StudentEvaluationEntry) => {
+        if (!downloadAppointmentIcs(req, "student")) {
+            toast.error("This request doesn't have a final schedule yet.");
+        }
+    };
+
     const askDeleteRequest = (req: StudentEvaluationEntry) => {
         const id = req.id as any;
         if (id === undefined || id === null) {
@@ -497,7 +444,7 @@ const StudentEvaluation: React.FC = () => {
     return (
         <DashboardLayout
             title="Evaluation"
-            description="Preview your mental health assessments (Steps 1–3) and counseling requests in one place. This page is read-only."
+            description="Preview your mental health assessments (Steps 1–3) and counseling requests in one place. Ask your counselor to reschedule or cancel a scheduled session from here."
         >
             <div className="flex w-full justify-center">
                 <div className="w-full max-w-4xl space-y-4">
@@ -689,7 +636,7 @@ const StudentEvaluation: React.FC = () => {
                                                                         <p className="font-medium text-amber-900">
                                                                             {concern || "Counseling request"}
                                                                         </p>
-                                                                        <StatusBadge status={evaluation.status ?? "pending"} />
+                                                                        <StatusBadge status={evaluation.status ?? "requested"} />
                                                                         <span className="rounded-md bg-white/80 px-2 py-0.5 text-[0.65rem] font-medium text-amber-900">
                                                                             Urgency: {urgency}
                                                                         </span>
@@ -702,6 +649,8 @@ const StudentEvaluation: React.FC = () => {
                                                                         <span className="font-medium">Final:</span> {finalSchedule}
                                                                     </p>
 
+                                                                    <ChangeRequestNote evaluation={evaluation} />
+
                                                                     {evaluation.details ? (
                                                                         <p className="mt-1 text-[0.7rem] text-slate-700">
                                                                             <span className="font-medium">Details:</span>{" "}
@@ -731,6 +680,32 @@ const StudentEvaluation: React.FC = () => {
                                                                             View / Preview
                                                                         </Button>
 
+                                                                        {evaluation.scheduled_date && evaluation.scheduled_time ? (
+                                                                            <Button
+                                                                                type="button"
+                                                                                size="sm"
+                                                                                variant="outline"
+                                                                                className="h-8 border-amber-200 bg-white/80 text-[0.7rem] text-amber-900 hover:bg-amber-50"
+                                                                                onClick={() => downloadRequestIcs(evaluation)}
+                                                                            >
+                                                                                <CalendarPlus className="mr-1.5 h-3.5 w-3.5" />
+                                                                                Add to calendar
+                                                                            </Button>
+                                                                        ) : null}
+
+                                                                        {canRequestAppointmentChange(evaluation) ? (
+                                                                            <Button
+                                                                                type="button"
+                                                                                size="sm"
+                                                                                variant="outline"
+                                                                                className="h-8 border-amber-200 bg-white/80 text-[0.7rem] text-amber-900 hover:bg-amber-50"
+                                                                                onClick={() => setChangeTarget(evaluation)}
+                                                                            >
+                                                                                <CalendarX2 className="mr-1.5 h-3.5 w-3.5" />
+                                                                                Reschedule / cancel
+                                                                            </Button>
+                                                                        ) : null}
+
                                                                         <Button
                                                                             type="button"
                                                                             size="sm"
@@ -782,7 +757,7 @@ const StudentEvaluation: React.FC = () => {
                                                                         <p className="font-medium text-slate-900">
                                                                             {concern || "Counseling request"}
                                                                         </p>
-                                                                        <StatusBadge status={evaluation.status ?? "pending"} />
+                                                                        <StatusBadge status={evaluation.status ?? "requested"} />
                                                                         <span className="rounded-md bg-white/80 px-2 py-0.5 text-[0.65rem] font-medium text-slate-900">
                                                                             Urgency: {urgency}
                                                                         </span>
@@ -795,6 +770,8 @@ const StudentEvaluation: React.FC = () => {
                                                                         <span className="font-medium">Final:</span> {finalSchedule}
                                                                     </p>
 
+                                                                    <ChangeRequestNote evaluation={evaluation} />
+
                                                                     {evaluation.details ? (
                                                                         <p className="mt-1 text-[0.7rem] text-slate-700">
                                                                             <span className="font-medium">Details:</span>{" "}
@@ -928,14 +905,14 @@ const StudentEvaluation: React.FC = () => {
                                                     </div>
 
                                                     <div className="divide-y">
-                                                        {MH_KEYS.map((key) => (
+                                                        {PHQ9_ITEM_KEYS.map((key) => (
                                                             <div
                                                                 key={String(key)}
                                                                 className="grid grid-cols-[1fr_220px] gap-3 px-3 py-2 text-[0.75rem]"
                                                             >
-                                                                <div className="text-muted-foreground">{MH_QUESTIONS[key]}</div>
+                                                                <div className="text-muted-foreground">{PHQ9_ITEM_LABELS[key]}</div>
                                                                 <div className="text-right font-medium text-amber-900">
-                                                                    {prettyFrequency((selectedAssessment as any)[key] ?? null)}
+                                                                    {formatPhq9Frequency((selectedAssessment as any)[key] ?? null)}
                                                                 </div>
                                                             </div>
                                                         ))}
@@ -963,7 +940,7 @@ const StudentEvaluation: React.FC = () => {
                                                 <p className="text-sm font-semibold text-amber-900">
                                                     {formatConcernType(selectedRequest.concern_type ?? undefined)}
                                                 </p>
-                                                <StatusBadge status={selectedRequest.status ?? "pending"} />
+                                                <StatusBadge status={selectedRequest.status ?? "requested"} />
                                                 <span className="rounded-md bg-white/80 px-2 py-0.5 text-[0.65rem] font-medium text-amber-900">
                                                     Urgency: {formatUrgency(selectedRequest.urgency ?? undefined)}
                                                 </span>
@@ -983,6 +960,8 @@ const StudentEvaluation: React.FC = () => {
                                                 <span className="font-medium">Final schedule:</span>{" "}
                                                 {formatFinalDateTime(selectedRequest as any)}
                                             </p>
+
+                                            <ChangeRequestNote evaluation={selectedRequest} />
                                         </div>
                                     </div>
                                 </div>
@@ -1022,6 +1001,16 @@ const StudentEvaluation: React.FC = () => {
                 </DialogContent>
             </Dialog>
 
+            <AppointmentChangeDialog
+                appointment={changeTarget}
+                onOpenChange={(open) => {
+                    if (!open) setChangeTarget(null);
+                }}
+                onSubmitted={(updated) =>
+                    setEvaluations((prev) => prev.map((e) => (e.id === updated.id ? { ...e, ...updated } : e)))
+                }
+            />
+
             {/* Delete confirmation dialog */}
             <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
                 <AlertDialogContent
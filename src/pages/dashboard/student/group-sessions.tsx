@@ -0,0 +1,195 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarDays, Loader2, MapPin, RefreshCw, UsersRound } from "lucide-react";
+import { toast } from "sonner";
+
+import DashboardLayout from "@/components/DashboardLayout";
+import { ATTENDANCE_STATUS_LABELS } from "@/lib/attendance";
+import { formatTimeLabel } from "@/lib/availability";
+import {
+    GROUP_SESSION_KIND_LABELS,
+    canEnrollInGroupSession,
+    enrollInGroupSession,
+    fetchStudentGroupSessions,
+    isUpcomingGroupSession,
+    withdrawFromGroupSession,
+    type GroupSession,
+} from "@/lib/group-sessions";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+function fmtDate(value: string): string {
+    try {
+        return format(parseISO(value), "EEE, MMM d, yyyy");
+    } catch {
+        return value;
+    }
+}
+
+export default function StudentGroupSessions() {
+    const [sessions, setSessions] = React.useState<GroupSession[]>([]);
+    const [loading, setLoading] = React.useState(true);
+    const [busyId, setBusyId] = React.useState<number | null>(null);
+
+    const load = React.useCallback(async () => {
+        setLoading(true);
+        try {
+            setSessions(await fetchStudentGroupSessions());
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to load group sessions.");
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void load();
+    }, [load]);
+
+    const mine = sessions.filter((s) => s.is_enrolled);
+    const open = sessions.filter((s) => !s.is_enrolled && isUpcomingGroupSession(s));
+
+    const toggleEnrollment = async (session: GroupSession) => {
+        setBusyId(session.id);
+        try {
+            const updated = session.is_enrolled
+                ? await withdrawFromGroupSession(session.id)
+                : await enrollInGroupSession(session.id);
+            setSessions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+            toast.success(
+                updated.is_enrolled
+                    ? `You're enrolled in "${updated.title}".`
+                    : `You left "${updated.title}". Your seat is free for someone else.`,
+            );
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.");
+            void load();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const renderSession = (s: GroupSession) => {
+        const upcoming = isUpcomingGroupSession(s);
+        const full = s.seats_left <= 0;
+
+        return (
+            <div
+                key={s.id}
+                className="flex flex-col gap-3 rounded-lg border bg-white/70 p-4 sm:flex-row sm:items-start sm:justify-between"
+            >
+                <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold text-amber-900">{s.title}</span>
+                        <Badge variant="outline">{GROUP_SESSION_KIND_LABELS[s.kind]}</Badge>
+                        {s.status === "cancelled" ? <Badge variant="destructive">Cancelled</Badge> : null}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                        {s.topic}
+                        {s.counselor_name ? ` · with ${s.counselor_name}` : ""}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-xs">
+                        <span className="flex items-center gap-1">
+                            <CalendarDays className="h-3.5 w-3.5" />
+                            {fmtDate(s.date)}, {formatTimeLabel(s.start_time)} – {formatTimeLabel(s.end_time)}
+                        </span>
+                        {s.location ? (
+                            <span className="flex items-center gap-1">
+                                <MapPin className="h-3.5 w-3.5" />
+                                {s.location}
+                            </span>
+                        ) : null}
+                    </div>
+                    {s.description ? <p className="text-xs text-muted-foreground">{s.description}</p> : null}
+                    {s.status === "cancelled" && s.cancel_reason ? (
+                        <p className="text-xs text-destructive">Reason: {s.cancel_reason}</p>
+                    ) : null}
+                </div>
+
+                <div className="flex shrink-0 flex-col items-start gap-1.5 sm:items-end">
+                    {s.my_attendance ? (
+                        <Badge variant="secondary">{ATTENDANCE_STATUS_LABELS[s.my_attendance]}</Badge>
+                    ) : s.status === "open" ? (
+                        <span className="text-xs text-muted-foreground">
+                            {full ? "Full" : `${s.seats_left} of ${s.capacity} seats left`}
+                        </span>
+                    ) : null}
+
+                    {upcoming && (s.is_enrolled || canEnrollInGroupSession(s)) ? (
+                        <Button
+                            size="sm"
+                            variant={s.is_enrolled ? "outline" : "default"}
+                            disabled={busyId != null}
+                            onClick={() => void toggleEnrollment(s)}
+                            className="gap-1.5"
+                        >
+                            {busyId === s.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+                            {s.is_enrolled ? "Leave session" : "Enroll"}
+                        </Button>
+                    ) : null}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <DashboardLayout
+            title="Group Sessions"
+            description="Join group counseling sessions and workshops run by the Guidance Office, like our exam-week stress-management workshops."
+        >
+            <div className="space-y-4">
+                <div className="flex justify-end">
+                    <Button variant="outline" className="gap-2" disabled={loading} onClick={() => void load()}>
+                        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                        Refresh
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle className="flex items-center gap-2">
+                            <UsersRound className="h-5 w-5" />
+                            My sessions
+                        </CardTitle>
+                        <CardDescription>
+                            Sessions you enrolled in. Leave before the start time if you can no longer attend.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {loading ? (
+                            <Skeleton className="h-20 w-full" />
+                        ) : mine.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">You haven't enrolled in any session yet.</p>
+                        ) : (
+                            mine.map(renderSession)
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader className="space-y-1">
+                        <CardTitle>Open for enrollment</CardTitle>
+                        <CardDescription>Seats are first come, first served.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {loading ? (
+                            <div className="space-y-2">
+                                <Skeleton className="h-20 w-full" />
+                                <Skeleton className="h-20 w-full" />
+                            </div>
+                        ) : open.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">
+                                No upcoming group sessions right now. Check back before exam week.
+                            </p>
+                        ) : (
+                            open.map(renderSession)
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </DashboardLayout>
+    );
+}
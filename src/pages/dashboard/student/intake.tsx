@@ -1,11 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React from "react";
+import { Link } from "react-router-dom";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { submitIntakeRequest, submitIntakeAssessment } from "@/lib/intake";
-import { Calendar as CalendarIcon } from "lucide-react";
+import { Calendar as CalendarIcon, LifeBuoy, Phone } from "lucide-react";
 import { Calendar } from "@/components/ui/calendar";
 import {
     Popover,
@@ -20,8 +21,50 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { format } from "date-fns";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { addDays, format } from "date-fns";
 import { getCurrentSession } from "@/lib/authentication";
+import { PHQ9_FREQUENCY_LABELS, PHQ9_FREQUENCY_VALUES, PHQ9_ITEM_KEYS, scorePhq9 } from "@/lib/phq9";
+import { SCREENING_INSTRUMENTS } from "@/lib/instruments";
+import {
+    fetchAvailableSlots,
+    formatTimeLabel,
+    toAppointmentTimeValue,
+    type AvailableSlot,
+} from "@/lib/availability";
+
+// item key → option value, per instrument id
+type ScreeningAnswers = Record<string, Record<string, string>>;
+
+// Static class names so Tailwind keeps them (one column per answer option)
+const OPTION_GRID_COLS: Record<number, string> = {
+    4: "sm:grid-cols-[minmax(0,1.4fr)_repeat(4,minmax(0,1fr))]",
+    5: "sm:grid-cols-[minmax(0,1.4fr)_repeat(5,minmax(0,1fr))]",
+};
+
+// Shown right after an assessment whose self-harm item (item 9) is above "Not at all"
+const CRISIS_RESOURCES: { name: string; contact: string }[] = [
+    { name: "Emergency (police, fire, ambulance)", contact: "911" },
+    {
+        name: "NCMH Crisis Hotline (24/7)",
+        contact: "1553 • 0917-899-8727 • 0966-351-4518",
+    },
+    {
+        name: "Hopeline Philippines (24/7)",
+        contact: "(02) 8804-4673 • 0917-558-4673 • 2919 (Globe/TM)",
+    },
+    {
+        name: "JRMSU Guidance & Counseling Office",
+        contact: "Walk in during office hours or message a counselor in eGuidance",
+    },
+];
 
 type MentalFrequency =
     | "not_at_all"
@@ -56,7 +99,8 @@ type IntakeFormState = {
     concern_type: string;
     urgency: "low" | "medium" | "high";
     preferred_date: string; // YYYY-MM-DD
-    preferred_time: string; // e.g. "8:00 AM"
+    preferred_time: string; // e.g. "08:00 AM"
+    counselor_id: string; // counselor of the booked slot
     additional_details: string;
 };
 
@@ -81,48 +125,15 @@ const DEFAULT_FORM: IntakeFormState = {
     urgency: "medium",
     preferred_date: "",
     preferred_time: "",
+    counselor_id: "",
     additional_details: "",
 };
 
-type TimeOption = {
-    value: string; // what we send to backend
-    label: string; // what we show in the UI, with AM/PM
-};
-
-// 30-minute slots with AM/PM labels
-const TIME_OPTIONS: TimeOption[] = [
-    { value: "08:00 AM", label: "8:00 AM" },
-    { value: "08:30 AM", label: "8:30 AM" },
-    { value: "09:00 AM", label: "9:00 AM" },
-    { value: "09:30 AM", label: "9:30 AM" },
-    { value: "10:00 AM", label: "10:00 AM" },
-    { value: "10:30 AM", label: "10:30 AM" },
-    { value: "11:00 AM", label: "11:00 AM" },
-    { value: "11:30 AM", label: "11:30 AM" },
-    { value: "01:00 PM", label: "1:00 PM" },
-    { value: "01:30 PM", label: "1:30 PM" },
-    { value: "02:00 PM", label: "2:00 PM" },
-    { value: "02:30 PM", label: "2:30 PM" },
-    { value: "03:00 PM", label: "3:00 PM" },
-    { value: "03:30 PM", label: "3:30 PM" },
-    { value: "04:00 PM", label: "4:00 PM" },
-    { value: "04:30 PM", label: "4:30 PM" },
-];
-
-// Shared options & labels for Step 3
-const MENTAL_FREQUENCY_VALUES: MentalFrequency[] = [
-    "not_at_all",
-    "several_days",
-    "more_than_half",
-    "nearly_every_day",
-];
+/** How far ahead students can book. */
+const BOOKING_WINDOW_DAYS = 30;
 
-const MENTAL_FREQUENCY_LABELS: Record<MentalFrequency, string> = {
-    not_at_all: "Not at all",
-    several_days: "Several days",
-    more_than_half: "More than half the days",
-    nearly_every_day: "Nearly every day",
-};
+const slotKey = (slot: AvailableSlot): string =>
+    `${slot.counselor_id}|${slot.start_time}`;
 
 const normaliseGenderFromSession = (
     rawGender: unknown,
@@ -160,10 +171,72 @@ const StudentIntake: React.FC = () => {
     const [isSubmittingRequest, setIsSubmittingRequest] =
         React.useState(false);
 
+    const [showCrisisResources, setShowCrisisResources] = React.useState(false);
+    // False when the assessment could not be sent, so no counselor was alerted
+    const [crisisAlertSent, setCrisisAlertSent] = React.useState(true);
+
+    const [screeningAnswers, setScreeningAnswers] = React.useState<ScreeningAnswers>({});
+
+    const handleScreeningChange = (instrumentId: string, itemKey: string, value: string) => {
+        setScreeningAnswers((prev) => ({
+            ...prev,
+            [instrumentId]: { ...prev[instrumentId], [itemKey]: value },
+        }));
+    };
+
     const [preferredDate, setPreferredDate] = React.useState<Date | undefined>(
         undefined,
     );
 
+    // Open counselor slots; students can only book one of these
+    const [slots, setSlots] = React.useState<AvailableSlot[]>([]);
+    const [isLoadingSlots, setIsLoadingSlots] = React.useState(true);
+    // No slot fits: queue for the next one a cancellation frees up
+    const [joinWaitlist, setJoinWaitlist] = React.useState(false);
+
+    const loadSlots = React.useCallback(async () => {
+        setIsLoadingSlots(true);
+        try {
+            const today = new Date();
+            const result = await fetchAvailableSlots({
+                from: format(today, "yyyy-MM-dd"),
+                to: format(addDays(today, BOOKING_WINDOW_DAYS), "yyyy-MM-dd"),
+            });
+            setSlots(result);
+        } catch (error) {
+            const message =
+                error instanceof Error
+                    ? error.message
+                    : "Failed to load available schedules.";
+            toast.error(message);
+        } finally {
+            setIsLoadingSlots(false);
+        }
+    }, []);
+
+    React.useEffect(() => {
+        void loadSlots();
+    }, [loadSlots]);
+
+    const slotDates = React.useMemo(
+        () => new Set(slots.map((slot) => slot.date)),
+        [slots],
+    );
+
+    const slotsForDate = React.useMemo(
+        () => slots.filter((slot) => slot.date === form.preferred_date),
+        [slots, form.preferred_date],
+    );
+
+    const selectedSlotKey = React.useMemo(() => {
+        const match = slotsForDate.find(
+            (slot) =>
+                String(slot.counselor_id) === form.counselor_id &&
+                toAppointmentTimeValue(slot.start_time) === form.preferred_time,
+        );
+        return match ? slotKey(match) : "";
+    }, [slotsForDate, form.counselor_id, form.preferred_time]);
+
     const handleChange = (
         event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
     ) => {
@@ -184,18 +257,6 @@ const StudentIntake: React.FC = () => {
         }));
     };
 
-    const mentalHealthFields: (keyof IntakeFormState)[] = [
-        "mh_little_interest",
-        "mh_feeling_down",
-        "mh_sleep",
-        "mh_energy",
-        "mh_appetite",
-        "mh_self_esteem",
-        "mh_concentration",
-        "mh_motor",
-        "mh_self_harm",
-    ];
-
     // Submit Steps 1–3 only (assessment)
     const handleSubmitAssessment = async (
         event: React.FormEvent<HTMLFormElement>,
@@ -229,7 +290,7 @@ const StudentIntake: React.FC = () => {
             return;
         }
 
-        const missingMental = mentalHealthFields.filter(
+        const missingMental = PHQ9_ITEM_KEYS.filter(
             (key) => !(form as any)[key],
         );
         if (missingMental.length > 0) {
@@ -239,37 +300,60 @@ const StudentIntake: React.FC = () => {
             return;
         }
 
+        const incompleteInstrument = SCREENING_INSTRUMENTS.find((instrument) =>
+            instrument.items.some((item) => !screeningAnswers[instrument.id]?.[item.key]),
+        );
+        if (incompleteInstrument) {
+            toast.error(
+                `Please answer all questions in the ${incompleteInstrument.shortName} section.`,
+            );
+            return;
+        }
+
+        const assessmentPayload = {
+            consent: form.consent,
+            student_name: form.student_name.trim() || undefined,
+            age: form.age ? Number(form.age) : undefined,
+            gender: form.gender || undefined,
+            occupation: form.occupation.trim() || undefined,
+            living_situation: form.living_situation || undefined,
+            living_situation_other:
+                form.living_situation === "other"
+                    ? form.living_situation_other.trim() || undefined
+                    : undefined,
+            mh_little_interest: form.mh_little_interest || undefined,
+            mh_feeling_down: form.mh_feeling_down || undefined,
+            mh_sleep: form.mh_sleep || undefined,
+            mh_energy: form.mh_energy || undefined,
+            mh_appetite: form.mh_appetite || undefined,
+            mh_self_esteem: form.mh_self_esteem || undefined,
+            mh_concentration: form.mh_concentration || undefined,
+            mh_motor: form.mh_motor || undefined,
+            mh_self_harm: form.mh_self_harm || undefined,
+            screenings: SCREENING_INSTRUMENTS.map((instrument) => ({
+                instrument: instrument.id,
+                responses: { ...screeningAnswers[instrument.id] },
+            })),
+        };
+
+        // Decided from the answers themselves so the crisis resources are shown
+        // even when the submission fails.
+        const selfHarmFlag = scorePhq9(assessmentPayload).selfHarmFlag;
+
         setIsSubmittingAssessment(true);
 
         try {
-            const assessmentPayload = {
-                consent: form.consent,
-                student_name: form.student_name.trim() || undefined,
-                age: form.age ? Number(form.age) : undefined,
-                gender: form.gender || undefined,
-                occupation: form.occupation.trim() || undefined,
-                living_situation: form.living_situation || undefined,
-                living_situation_other:
-                    form.living_situation === "other"
-                        ? form.living_situation_other.trim() || undefined
-                        : undefined,
-                mh_little_interest: form.mh_little_interest || undefined,
-                mh_feeling_down: form.mh_feeling_down || undefined,
-                mh_sleep: form.mh_sleep || undefined,
-                mh_energy: form.mh_energy || undefined,
-                mh_appetite: form.mh_appetite || undefined,
-                mh_self_esteem: form.mh_self_esteem || undefined,
-                mh_concentration: form.mh_concentration || undefined,
-                mh_motor: form.mh_motor || undefined,
-                mh_self_harm: form.mh_self_harm || undefined,
-            };
-
             const response = await submitIntakeAssessment(assessmentPayload);
 
             const successMessage =
                 response?.message || "Your assessment has been submitted.";
 
             toast.success(successMessage);
+
+            if (response?.assessment?.high_risk === true || selfHarmFlag) {
+                setCrisisAlertSent(true);
+                setShowCrisisResources(true);
+            }
             // We keep the answers on screen so the student can still see them.
         } catch (error) {
             const message =
@@ -277,6 +361,11 @@ const StudentIntake: React.FC = () => {
                     ? error.message
                     : "Failed to submit your assessment.";
             toast.error(message);
+
+            if (selfHarmFlag) {
+                setCrisisAlertSent(false);
+                setShowCrisisResources(true);
+            }
         } finally {
             setIsSubmittingAssessment(false);
         }
@@ -288,13 +377,13 @@ const StudentIntake: React.FC = () => {
     ) => {
         event.preventDefault();
 
-        if (!form.preferred_date) {
+        if (!joinWaitlist && !form.preferred_date) {
             toast.error("Please select your preferred date.");
             return;
         }
 
-        if (!form.preferred_time) {
-            toast.error("Please select your preferred time.");
+        if (!joinWaitlist && (!form.preferred_time || !form.counselor_id)) {
+            toast.error("Please select an available time slot.");
             return;
         }
 
@@ -314,13 +403,21 @@ const StudentIntake: React.FC = () => {
             // For Step 4, only send the student's own description as details.
             const payloadDetails = form.additional_details.trim();
 
-            const requestPayload = {
-                concern_type: form.concern_type,
-                urgency: form.urgency,
-                preferred_date: form.preferred_date,
-                preferred_time: form.preferred_time,
-                details: payloadDetails,
-            };
+            const requestPayload = joinWaitlist
+                ? {
+                      concern_type: form.concern_type,
+                      urgency: form.urgency,
+                      details: payloadDetails,
+                      waitlist: true,
+                  }
+                : {
+                      concern_type: form.concern_type,
+                      urgency: form.urgency,
+                      preferred_date: form.preferred_date,
+                      preferred_time: form.preferred_time,
+                      counselor_id: form.counselor_id,
+                      details: payloadDetails,
+                  };
 
             const response = await submitIntakeRequest(requestPayload);
 
@@ -336,15 +433,20 @@ const StudentIntake: React.FC = () => {
                 urgency: "medium",
                 preferred_date: "",
                 preferred_time: "",
+                counselor_id: "",
                 additional_details: "",
             }));
             setPreferredDate(undefined);
+            setJoinWaitlist(false);
+            void loadSlots();
         } catch (error) {
             const message =
                 error instanceof Error
                     ? error.message
                     : "Failed to submit your counseling request.";
             toast.error(message);
+            // The slot may have just been taken by someone else
+            void loadSlots();
         } finally {
             setIsSubmittingRequest(false);
         }
@@ -587,9 +689,9 @@ const StudentIntake: React.FC = () => {
                                     {/* Frequency legend – desktop/tablet only */}
                                     <div className="hidden items-center gap-2 rounded-md bg-amber-50/80 px-3 py-2 text-[0.65rem] font-medium text-amber-900 sm:grid sm:grid-cols-[minmax(0,1.4fr)_repeat(4,minmax(0,1fr))]">
                                         <div>Question</div>
-                                        {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                        {PHQ9_FREQUENCY_VALUES.map((value) => (
                                             <div key={value} className="text-center">
-                                                {MENTAL_FREQUENCY_LABELS[value]}
+                                                {PHQ9_FREQUENCY_LABELS[value]}
                                             </div>
                                         ))}
                                     </div>
@@ -601,13 +703,13 @@ const StudentIntake: React.FC = () => {
                                             <div className="pr-2">
                                                 Little interest or pleasure in doing things
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -626,13 +728,13 @@ const StudentIntake: React.FC = () => {
                                             <div className="pr-2">
                                                 Feeling down, depressed, or hopeless
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -651,13 +753,13 @@ const StudentIntake: React.FC = () => {
                                             <div className="pr-2">
                                                 Trouble falling or staying asleep, or sleeping too much
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -676,13 +778,13 @@ const StudentIntake: React.FC = () => {
                                             <div className="pr-2">
                                                 Feeling tired or having little energy
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -699,13 +801,13 @@ const StudentIntake: React.FC = () => {
                                         {/* 5 */}
                                         <div className="grid grid-cols-1 items-center gap-2 rounded-md border border-amber-50 px-3 py-2 sm:grid-cols-[minmax(0,1.4fr)_repeat(4,minmax(0,1fr))]">
                                             <div className="pr-2">Poor appetite or overeating</div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -725,13 +827,13 @@ const StudentIntake: React.FC = () => {
                                                 Feeling bad about yourself—or that you are a failure or
                                                 have let yourself or your family down
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -751,13 +853,13 @@ const StudentIntake: React.FC = () => {
                                                 Trouble concentrating on things, such as reading the
                                                 newspaper or watching television
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -778,13 +880,13 @@ const StudentIntake: React.FC = () => {
                                                 noticed? Or the opposite—being so fidgety or restless that
                                                 you have been moving around a lot more than usual
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -804,13 +906,13 @@ const StudentIntake: React.FC = () => {
                                                 Thoughts that you would be better off dead or of hurting
                                                 yourself in some way
                                             </div>
-                                            {MENTAL_FREQUENCY_VALUES.map((value) => (
+                                            {PHQ9_FREQUENCY_VALUES.map((value) => (
                                                 <div
                                                     key={value}
                                                     className="flex w-full items-center justify-between sm:justify-center"
                                                 >
                                                     <span className="text-[0.65rem] text-muted-foreground sm:hidden">
-                                                        {MENTAL_FREQUENCY_LABELS[value]}
+                                                        {PHQ9_FREQUENCY_LABELS[value]}
                                                     </span>
                                                     <input
                                                         type="radio"
@@ -826,6 +928,74 @@ const StudentIntake: React.FC = () => {
                                     </div>
                                 </section>
 
+                                {/* STEP 3 (continued) – ADDITIONAL SCREENING INSTRUMENTS */}
+                                {SCREENING_INSTRUMENTS.map((instrument) => {
+                                    const gridCols = OPTION_GRID_COLS[instrument.options.length] ?? "";
+
+                                    return (
+                                        <section key={instrument.id} className="space-y-3">
+                                            <div className="space-y-1">
+                                                <p className="text-xs font-semibold text-amber-900">
+                                                    Step 3 – {instrument.construct} ({instrument.shortName})
+                                                </p>
+                                                <p className="text-[0.7rem] text-muted-foreground">
+                                                    {instrument.instructions} Select one option for each
+                                                    statement.
+                                                </p>
+                                            </div>
+
+                                            <div
+                                                className={`hidden items-center gap-2 rounded-md bg-amber-50/80 px-3 py-2 text-[0.65rem] font-medium text-amber-900 sm:grid ${gridCols}`}
+                                            >
+                                                <div>Question</div>
+                                                {instrument.options.map((option) => (
+                                                    <div key={option.value} className="text-center">
+                                                        {option.label}
+                                                    </div>
+                                                ))}
+                                            </div>
+
+                                            <div className="space-y-2 text-[0.7rem] text-muted-foreground">
+                                                {instrument.items.map((item) => (
+                                                    <div
+                                                        key={item.key}
+                                                        className={`grid grid-cols-1 items-center gap-2 rounded-md border border-amber-50 px-3 py-2 ${gridCols}`}
+                                                    >
+                                                        <div className="pr-2">{item.label}</div>
+                                                        {instrument.options.map((option) => (
+                                                            <div
+                                                                key={option.value}
+                                                                className="flex w-full items-center justify-between sm:justify-center"
+                                                            >
+                                                                <span className="text-[0.65rem] text-muted-foreground sm:hidden">
+                                                                    {option.label}
+                                                                </span>
+                                                                <input
+                                                                    type="radio"
+                                                                    name={`${instrument.id}_${item.key}`}
+                                                                    value={option.value}
+                                                                    checked={
+                                                                        screeningAnswers[instrument.id]?.[item.key] ===
+                                                                        option.value
+                                                                    }
+                                                                    onChange={() =>
+                                                                        handleScreeningChange(
+                                                                            instrument.id,
+                                                                            item.key,
+                                                                            option.value,
+                                                                        )
+                                                                    }
+                                                                    className="ml-2 h-3.5 w-3.5 border-amber-300"
+                                                                />
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </section>
+                                    );
+                                })}
+
                                 <div className="flex flex-col gap-2 pt-2 sm:flex-row sm:items-center sm:justify-between">
                                     <Button
                                         type="submit"
@@ -943,7 +1113,7 @@ const StudentIntake: React.FC = () => {
                                         </p>
                                     </div>
 
-                                    {/* Preferred date & time (shadcn UI) */}
+                                    {/* Preferred date & time: only open counselor slots */}
                                     <div className="grid gap-4 sm:grid-cols-2">
                                         {/* Date */}
                                         <div className="space-y-1.5">
@@ -958,6 +1128,7 @@ const StudentIntake: React.FC = () => {
                                                     <Button
                                                         type="button"
                                                         variant="outline"
+                                                        disabled={joinWaitlist}
                                                         className={`w-full justify-start text-left font-normal ${
                                                             !preferredDate
                                                                 ? "text-muted-foreground"
@@ -976,6 +1147,9 @@ const StudentIntake: React.FC = () => {
                                                     <Calendar
                                                         mode="single"
                                                         selected={preferredDate}
+                                                        disabled={(date) =>
+                                                            !slotDates.has(format(date, "yyyy-MM-dd"))
+                                                        }
                                                         onSelect={(date) => {
                                                             setPreferredDate(date ?? undefined);
                                                             setForm((prev) => ({
@@ -983,6 +1157,8 @@ const StudentIntake: React.FC = () => {
                                                                 preferred_date: date
                                                                     ? format(date, "yyyy-MM-dd")
                                                                     : "",
+                                                                preferred_time: "",
+                                                                counselor_id: "",
                                                             }));
                                                         }}
                                                         initialFocus
@@ -991,39 +1167,87 @@ const StudentIntake: React.FC = () => {
                                             </Popover>
                                         </div>
 
-                                        {/* Time (AM/PM) */}
+                                        {/* Open slot (time + counselor) */}
                                         <div className="space-y-1.5">
                                             <Label
                                                 htmlFor="preferred_time"
                                                 className="text-xs font-medium text-amber-900"
                                             >
-                                                Preferred time
+                                                Available time
                                             </Label>
                                             <Select
-                                                value={form.preferred_time}
-                                                onValueChange={(value) =>
+                                                value={selectedSlotKey}
+                                                disabled={joinWaitlist || !form.preferred_date || slotsForDate.length === 0}
+                                                onValueChange={(value) => {
+                                                    const slot = slotsForDate.find(
+                                                        (s) => slotKey(s) === value,
+                                                    );
+                                                    if (!slot) return;
                                                     setForm((prev) => ({
                                                         ...prev,
-                                                        preferred_time: value,
-                                                    }))
-                                                }
+                                                        preferred_time: toAppointmentTimeValue(
+                                                            slot.start_time,
+                                                        ),
+                                                        counselor_id: String(slot.counselor_id),
+                                                    }));
+                                                }}
                                             >
                                                 <SelectTrigger
                                                     id="preferred_time"
                                                     className="h-9 w-full text-left"
                                                 >
-                                                    <SelectValue placeholder="Select time" />
+                                                    <SelectValue
+                                                        placeholder={
+                                                            form.preferred_date
+                                                                ? "Select time"
+                                                                : "Pick a date first"
+                                                        }
+                                                    />
                                                 </SelectTrigger>
                                                 <SelectContent>
-                                                    {TIME_OPTIONS.map((slot) => (
-                                                        <SelectItem key={slot.value} value={slot.value}>
-                                                            {slot.label}
+                                                    {slotsForDate.map((slot) => (
+                                                        <SelectItem key={slotKey(slot)} value={slotKey(slot)}>
+                                                            {formatTimeLabel(slot.start_time)}
+                                                            {slot.counselor_name
+                                                                ? ` · ${slot.counselor_name}`
+                                                                : ""}
                                                         </SelectItem>
                                                     ))}
                                                 </SelectContent>
                                             </Select>
                                         </div>
                                     </div>
+                                    <p className="text-[0.7rem] text-muted-foreground">
+                                        {isLoadingSlots
+                                            ? "Loading available schedules…"
+                                            : slots.length === 0
+                                              ? `No open counseling slots in the next ${BOOKING_WINDOW_DAYS} days. Please check again later or message the Guidance Office.`
+                                              : "Only days and times your counselors have open are shown. The slot is held for you once you submit."}
+                                    </p>
+                                    <label className="flex items-start gap-2 text-[0.7rem] text-amber-900">
+                                        <input
+                                            type="checkbox"
+                                            checked={joinWaitlist}
+                                            onChange={(e) => {
+                                                setJoinWaitlist(e.target.checked);
+                                                if (e.target.checked) {
+                                                    setPreferredDate(undefined);
+                                                    setForm((prev) => ({
+                                                        ...prev,
+                                                        preferred_date: "",
+                                                        preferred_time: "",
+                                                        counselor_id: "",
+                                                    }));
+                                                }
+                                            }}
+                                            className="mt-[3px] h-4 w-4 rounded border-amber-300"
+                                        />
+                                        <span>
+                                            None of these times work for me — put me on the waitlist. When a
+                                            session is cancelled, the freed slot goes to the waitlist, most
+                                            urgent requests first.
+                                        </span>
+                                    </label>
 
                                     {/* Additional description */}
                                     <div className="space-y-1.5">
@@ -1058,7 +1282,9 @@ const StudentIntake: React.FC = () => {
                                     >
                                         {isSubmittingRequest
                                             ? "Submitting..."
-                                            : "Submit counseling request"}
+                                            : joinWaitlist
+                                              ? "Join the waitlist"
+                                              : "Submit counseling request"}
                                     </Button>
 
                                     <p className="text-[0.7rem] text-muted-foreground sm:text-right">
@@ -1072,6 +1298,57 @@ const StudentIntake: React.FC = () => {
                     </Card>
                 </div>
             </div>
+
+            <Dialog open={showCrisisResources} onOpenChange={setShowCrisisResources}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2 text-base text-amber-900">
+                            <LifeBuoy className="h-5 w-5 text-amber-600" />
+                            You don&apos;t have to go through this alone
+                        </DialogTitle>
+                        <DialogDescription className="text-xs">
+                            {crisisAlertSent
+                                ? "Thank you for answering honestly. A counselor has been alerted and will reach out to you."
+                                : "Thank you for answering honestly. Your answers could not be sent, so no counselor has been alerted yet — please try submitting again or message a counselor directly."}{" "}
+                            If you are thinking about hurting yourself or feel unsafe right now,
+                            please contact one of these services immediately.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <ul className="space-y-2">
+                        {CRISIS_RESOURCES.map((resource) => (
+                            <li
+                                key={resource.name}
+                                className="flex items-start gap-2 rounded-md border border-amber-100 bg-amber-50/60 p-3 text-xs"
+                            >
+                                <Phone className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-700" />
+                                <div className="space-y-0.5">
+                                    <p className="font-semibold text-amber-900">{resource.name}</p>
+                                    <p className="text-muted-foreground">{resource.contact}</p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <p className="text-[0.7rem] text-muted-foreground">
+                        Reaching out to a trusted friend, family member, or teacher can also
+                        help.
+                    </p>
+
+                    <DialogFooter className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+                        <Button type="button" variant="outline" className="w-full sm:w-auto" asChild>
+                            <Link to="/dashboard/student/messages">Message a counselor</Link>
+                        </Button>
+                        <Button
+                            type="button"
+                            className="w-full sm:w-auto"
+                            onClick={() => setShowCrisisResources(false)}
+                        >
+                            I understand
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </DashboardLayout>
     );
 };
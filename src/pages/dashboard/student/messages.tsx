@@ -4,13 +4,32 @@ import DashboardLayout from "@/components/DashboardLayout"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import { getCurrentSession } from "@/lib/authentication"
+import { apiFetch } from "@/api/client"
+import { resolveStorageUrl } from "@/lib/storage-url"
 
 import {
-    fetchStudentMessages,
+    fetchStudentConversations,
+    fetchStudentConversationMessages,
     sendStudentMessage,
     markStudentMessagesAsRead,
+    editMessage,
+    deleteMessage,
+    isWithinEditWindow,
+    subscribeToIncomingMessages,
+    subscribeToMessageUpdates,
+    subscribeToReadReceipts,
+    messagePreviewText,
+    DELETED_MESSAGE_TEXT,
+    MESSAGE_EDIT_WINDOW_MINUTES,
+    type MessageAttachment,
+    type MessageDeleteScope,
+    type MessageConversation,
+    type SendStudentMessagePayload,
     type StudentMessage,
 } from "@/lib/messages"
+import { useRealtimeReconnect } from "@/hooks/use-realtime"
+import { mergeMessagesById, useConversationHistory, useLoadOlderOnScroll } from "@/hooks/use-message-history"
+import { AttachmentPickerButton, MessageAttachmentList, SelectedAttachments } from "@/components/message-attachments"
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -43,7 +62,7 @@ import {
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 
 import { cn } from "@/lib/utils"
-import { Check, ChevronsUpDown, MoreVertical, Pencil, RefreshCw, Trash2 } from "lucide-react"
+import { Check, CheckCheck, ChevronsUpDown, MoreVertical, Pencil, RefreshCw, Trash2 } from "lucide-react"
 
 type UiSender = "student" | "guest" | "counselor" | "system"
 
@@ -56,6 +75,13 @@ type UiMessage = {
     content: string
     createdAt: string
     isUnread: boolean
+    /** The recipient has read it (read receipt on own messages) */
+    isSeen: boolean
+    attachments: MessageAttachment[]
+
+    editedAt?: string | null
+    /** Deleted for everyone (placeholder bubble) */
+    deletedAt?: string | null
 
     senderId?: number | string | null
     recipientId?: number | string | null
@@ -79,71 +105,6 @@ type DirectoryCounselor = {
     avatarUrl?: string | null
 }
 
-const RAW_BASE_URL = import.meta.env.VITE_API_LARAVEL_BASE_URL as string | undefined
-const API_BASE_URL = RAW_BASE_URL ? RAW_BASE_URL.replace(/\/+$/, "") : undefined
-
-function resolveApiUrl(path: string): string {
-    if (!API_BASE_URL) throw new Error("VITE_API_LARAVEL_BASE_URL is not defined.")
-    const trimmed = path.replace(/^\/+/, "")
-    return `${API_BASE_URL}/${trimmed}`
-}
-
-async function apiFetch(path: string, init: RequestInit, token?: string | null): Promise<unknown> {
-    const url = resolveApiUrl(path)
-    const res = await fetch(url, {
-        ...init,
-        credentials: "include",
-        headers: {
-            Accept: "application/json",
-            ...(init.body ? { "Content-Type": "application/json" } : {}),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            ...(init.headers ?? {}),
-        },
-    })
-
-    const text = await res.text()
-    let data: any = null
-    if (text) {
-        try {
-            data = JSON.parse(text)
-        } catch {
-            data = text
-        }
-    }
-
-    if (!res.ok) {
-        const msg = data?.message || data?.error || res.statusText || "Server request failed."
-        throw new Error(msg)
-    }
-
-    return data
-}
-
-async function tryDeleteMessageApi(messageId: number, token?: string | null) {
-    const candidates = [`/messages/${messageId}`, `/message/${messageId}`]
-    let lastErr: any = null
-
-    for (const p of candidates) {
-        try {
-            await apiFetch(p, { method: "DELETE" }, token)
-            return
-        } catch (e) {
-            lastErr = e
-        }
-    }
-    throw lastErr ?? new Error("Failed to delete message.")
-}
-
-async function tryUpdateMessageApi(messageId: number, content: string, token?: string | null) {
-    const payload = JSON.stringify({ content })
-
-    try {
-        await apiFetch(`/messages/${messageId}`, { method: "PATCH", body: payload }, token)
-        return
-    } catch {
-        await apiFetch(`/messages/${messageId}`, { method: "PUT", body: payload }, token)
-    }
-}
 
 async function tryDeleteConversationApi(conversationId: string, numericMessageIds: number[], token?: string | null) {
     const candidates = [
@@ -154,16 +115,17 @@ async function tryDeleteConversationApi(conversationId: string, numericMessageId
 
     for (const p of candidates) {
         try {
-            await apiFetch(p, { method: "DELETE" }, token)
+            await apiFetch(p, { method: "DELETE", token })
             return
         } catch {
             // ignore and fallback
         }
     }
 
+    // Fallback: delete every message for yourself
     for (const id of numericMessageIds) {
         try {
-            await tryDeleteMessageApi(id, token)
+            await deleteMessage(id, "me")
         } catch {
             // keep going
         }
@@ -216,52 +178,6 @@ function extractUserAvatarUrl(u: any): string | null {
     return s ? s : null
 }
 
-function looksLikeFilePath(s: string): boolean {
-    return (
-        /\.[a-z0-9]{2,5}(\?.*)?$/i.test(s) ||
-        /(^|\/)(avatars|avatar|profile|profiles|images|uploads)(\/|$)/i.test(s)
-    )
-}
-
-function resolveAvatarSrc(raw?: string | null): string | undefined {
-    if (!raw) return undefined
-
-    let s = String(raw).trim()
-    if (!s) return undefined
-
-    s = s.replace(/\\/g, "/")
-
-    if (/^(data:|blob:)/i.test(s)) return s
-    if (/^https?:\/\//i.test(s)) return s
-
-    if (s.startsWith("//")) {
-        const protocol = typeof window !== "undefined" ? window.location.protocol : "https:"
-        return `${protocol}${s}`
-    }
-
-    if (!API_BASE_URL) {
-        if (!s.startsWith("/")) s = `/${s}`
-        return s
-    }
-
-    let origin = API_BASE_URL
-    try {
-        origin = new URL(API_BASE_URL).origin
-    } catch {
-        // keep as-is
-    }
-
-    let p = s.replace(/^\/+/, "")
-    const lower = p.toLowerCase()
-
-    const alreadyStorage = lower.startsWith("storage/") || lower.startsWith("api/storage/")
-    if (!alreadyStorage && looksLikeFilePath(p)) {
-        p = `storage/${p}`
-    }
-
-    return `${origin}/${p}`
-}
-
 async function trySearchCounselorsFromDb(query: string, token?: string | null): Promise<DirectoryCounselor[]> {
     const q = query.trim()
     const roleParam = encodeURIComponent("counselor")
@@ -291,7 +207,7 @@ async function trySearchCounselorsFromDb(query: string, token?: string | null):
 
     for (const path of candidates) {
         try {
-            const data = await apiFetch(path, { method: "GET" }, token)
+            const data = await apiFetch(path, { method: "GET", token })
             const arr = extractUsersArray(data)
 
             const mapped: DirectoryCounselor[] = arr
@@ -301,7 +217,7 @@ async function trySearchCounselorsFromDb(query: string, token?: string | null):
                     if (id == null || String(id).trim() === "") return null
 
                     const name = extractUserName(u)
-                    const avatarUrl = resolveAvatarSrc(extractUserAvatarUrl(u)) ?? null
+                    const avatarUrl = resolveStorageUrl(extractUserAvatarUrl(u)) ?? null
 
                     return { id, name, avatarUrl } as DirectoryCounselor
                 })
@@ -356,19 +272,15 @@ function normalizeSender(sender: StudentMessage["sender"]): UiSender {
 }
 
 function safeConversationIdStudent(dto: StudentMessage): string {
-    const raw = (dto as any).conversation_id ?? (dto as any).conversationId
+    const raw = dto.conversation_id
     if (raw != null && String(raw).trim()) return String(raw)
 
     const sender = normalizeSender(dto.sender)
-    const senderId = (dto as any).sender_id ?? null
-
-    const recipientRole = (dto as any).recipient_role ?? null
-    const recipientId = (dto as any).recipient_id ?? null
 
     const counselorId =
-        (sender === "counselor" ? senderId : null) ??
-        (recipientRole === "counselor" ? recipientId : null) ??
-        (dto as any).counselor_id ??
+        (sender === "counselor" ? dto.sender_id : null) ??
+        (dto.recipient_role === "counselor" ? dto.recipient_id : null) ??
+        dto.counselor_id ??
         null
 
     if (counselorId != null && String(counselorId).trim()) return `counselor-${String(counselorId)}`
@@ -394,11 +306,15 @@ function mapDtoToUi(dto: StudentMessage, meName: string, index: number): UiMessa
         content: dto.content ?? "",
         createdAt,
         isUnread: dto.is_read === false || dto.is_read === 0,
-
-        senderId: (dto as any).sender_id ?? null,
-        recipientId: (dto as any).recipient_id ?? null,
-        recipientRole: (dto as any).recipient_role ?? null,
-        userId: (dto as any).user_id ?? null,
+        isSeen: dto.is_read === true || dto.is_read === 1,
+        attachments: dto.attachments ?? [],
+        editedAt: dto.edited_at ?? null,
+        deletedAt: dto.deleted_at ?? null,
+
+        senderId: dto.sender_id ?? null,
+        recipientId: dto.recipient_id ?? null,
+        recipientRole: dto.recipient_role ?? null,
+        userId: dto.user_id ?? null,
     }
 }
 
@@ -440,7 +356,7 @@ function buildConversations(messages: UiMessage[]): Conversation[] {
             counselorName,
             subtitle: "Private thread",
             unreadCount,
-            lastMessage: last?.content ?? "",
+            lastMessage: last ? messagePreviewText(last) : "",
             lastTimestamp: last?.createdAt ?? "",
         })
     }
@@ -455,6 +371,22 @@ function buildConversations(messages: UiMessage[]): Conversation[] {
     return conversations
 }
 
+/** One row of the server's conversation list (last message + unread count). */
+function summaryFromServer(c: MessageConversation, meName: string): Conversation {
+    const last = mapDtoToUi(c.last_message, meName, 0)
+    const counselorName = c.peer_name && c.peer_name.trim() ? c.peer_name.trim() : `Counselor #${c.peer_id}`
+
+    return {
+        id: last.conversationId,
+        counselorId: c.peer_id,
+        counselorName,
+        subtitle: "Private thread",
+        unreadCount: c.unread_count,
+        lastMessage: messagePreviewText(last),
+        lastTimestamp: last.createdAt,
+    }
+}
+
 function CounselorCombobox(props: {
     counselors: DirectoryCounselor[]
     value: DirectoryCounselor | null
@@ -536,20 +468,22 @@ function notifyCountersRefresh() {
 
 const StudentMessages: React.FC = () => {
     const session = getCurrentSession()
-    const token = (session as any)?.token ?? null
-    const meName = session?.user && (session.user as any).name ? String((session.user as any).name) : "You"
+    const token = session.token ?? null
+    const meName = session?.user?.name ? String(session.user.name) : "You"
     const myUserId = session?.user?.id != null ? String(session.user.id) : ""
 
     const [mobileView, setMobileView] = React.useState<"list" | "chat">("list")
 
     const [isLoading, setIsLoading] = React.useState(true)
     const [isSending, setIsSending] = React.useState(false)
+    const [draftFiles, setDraftFiles] = React.useState<File[]>([])
     const [isMarking, setIsMarking] = React.useState(false)
 
     const [search, setSearch] = React.useState("")
 
     const [draft, setDraft] = React.useState("")
     const [messages, setMessages] = React.useState<UiMessage[]>([])
+    const [summaries, setSummaries] = React.useState<Record<string, Conversation>>({})
     const [activeConversationId, setActiveConversationId] = React.useState<string>("")
 
     const [draftConversations, setDraftConversations] = React.useState<Conversation[]>([])
@@ -576,6 +510,7 @@ const StudentMessages: React.FC = () => {
     const [isDeletingConvo, setIsDeletingConvo] = React.useState(false)
 
     const bottomRef = React.useRef<HTMLDivElement | null>(null)
+    const topRef = React.useRef<HTMLDivElement | null>(null)
     const localIdRef = React.useRef(0)
     const textareaRef = React.useRef<HTMLTextAreaElement | null>(null)
 
@@ -601,11 +536,6 @@ const StudentMessages: React.FC = () => {
         draftConversationsRef.current = draftConversations
     }, [draftConversations])
 
-    React.useEffect(() => {
-        if (!activeConversationId) return
-        bottomRef.current?.scrollIntoView({ behavior: "smooth" })
-    }, [activeConversationId, messages.length])
-
     const openConversation = React.useCallback((conversationId: string) => {
         if (!conversationId) return
         openedConversationIdsRef.current.add(conversationId)
@@ -614,33 +544,71 @@ const StudentMessages: React.FC = () => {
         requestAnimationFrame(() => textareaRef.current?.focus())
     }, [])
 
+    // ✅ Threads load their newest page when opened; older pages on scroll
+    const addHistory = React.useCallback(
+        (dtos: StudentMessage[]) => {
+            setMessages((prev) =>
+                mergeMessagesById(
+                    prev,
+                    dtos.map((m, idx) => mapDtoToUi(m, meName, prev.length + idx)),
+                ),
+            )
+        },
+        [meName],
+    )
+
+    const {
+        historyFor,
+        loadLatest,
+        ensureLoaded,
+        loadOlder,
+        reset: resetHistory,
+    } = useConversationHistory(fetchStudentConversationMessages, addHistory)
+
+    const loadSummaries = React.useCallback(async () => {
+        const res = await fetchStudentConversations()
+        const convs = res.map((c) => summaryFromServer(c, meName))
+
+        setSummaries(Object.fromEntries(convs.map((c) => [c.id, c])))
+        setCounselorById((prev) => {
+            const next = { ...prev }
+            for (const c of res) {
+                const key = String(c.peer_id)
+                if (!next[key] && c.peer_name) next[key] = { id: c.peer_id, name: c.peer_name, avatarUrl: c.peer_avatar_url }
+            }
+            return next
+        })
+
+        return convs
+    }, [meName])
+
     const refreshMessages = React.useCallback(
         async (isMounted?: () => boolean) => {
             setIsLoading(true)
             try {
-                const res = await fetchStudentMessages()
-                const raw = Array.isArray(res.messages) ? res.messages : []
-                const ui = raw.map((m, idx) => mapDtoToUi(m, meName, idx))
+                const convs = await loadSummaries()
 
                 if (isMounted && !isMounted()) return
 
-                setMessages(ui)
-
-                const convs = buildConversations(ui)
-
                 const currentActive = activeConversationIdRef.current
                 const currentDrafts = draftConversationsRef.current
 
-                const existsInMessages = !!currentActive && convs.some((c) => c.id === currentActive)
+                const activeConvo = currentActive ? convs.find((c) => c.id === currentActive) ?? null : null
                 const existsInDrafts = !!currentActive && currentDrafts.some((d) => d.id === currentActive)
 
+                // Cached history of other threads may be stale; it reloads when opened
+                setMessages((prev) => prev.filter((m) => m.conversationId === currentActive))
+                resetHistory(currentActive)
+
                 // ✅ IMPORTANT (matches counselor behavior):
                 // Do NOT auto-select a thread on load.
                 // Only clear the active thread if it no longer exists.
-                if (currentActive && !(existsInMessages || existsInDrafts)) {
+                if (currentActive && !(activeConvo || existsInDrafts)) {
                     openedConversationIdsRef.current.delete(currentActive)
                     setActiveConversationId("")
                     setMobileView("list")
+                } else if (activeConvo?.counselorId != null) {
+                    await loadLatest(activeConvo.id, activeConvo.counselorId)
                 }
             } catch (err) {
                 toast.error(err instanceof Error ? err.message : "Failed to load your messages.")
@@ -648,7 +616,7 @@ const StudentMessages: React.FC = () => {
                 if (!isMounted || isMounted()) setIsLoading(false)
             }
         },
-        [meName],
+        [loadSummaries, loadLatest, resetHistory],
     )
 
     React.useEffect(() => {
@@ -659,6 +627,54 @@ const StudentMessages: React.FC = () => {
         }
     }, [refreshMessages])
 
+    // ✅ Live updates over the push channel. Own messages are skipped: handleSend
+    // already swaps the optimistic bubble for the server record.
+    React.useEffect(() => {
+        const stopMessages = subscribeToIncomingMessages((dto) => {
+            if (myUserId && String(dto.sender_id ?? "") === myUserId) return
+
+            const incoming = mapDtoToUi(dto, meName, 0)
+            setMessages((prev) =>
+                prev.some((m) => String(m.id) === String(dto.id)) ? prev : [...prev, incoming],
+            )
+            setSummaries((prev) => {
+                const current = prev[incoming.conversationId]
+                if (!current) return prev
+                return {
+                    ...prev,
+                    [incoming.conversationId]: {
+                        ...current,
+                        unreadCount: current.unreadCount + 1,
+                        lastMessage: messagePreviewText(incoming),
+                        lastTimestamp: incoming.createdAt,
+                    },
+                }
+            })
+        })
+
+        // Edits and deletes-for-everyone replace the bubble in place
+        const stopUpdates = subscribeToMessageUpdates((dto) => {
+            const updated = mapDtoToUi(dto, meName, 0)
+            setMessages((prev) =>
+                prev.map((m) => (String(m.id) === String(updated.id) ? { ...updated, isUnread: m.isUnread } : m)),
+            )
+        })
+
+        const stopReceipts = subscribeToReadReceipts((event) => {
+            const ids = new Set(event.message_ids.map(String))
+            setMessages((prev) => prev.map((m) => (ids.has(String(m.id)) ? { ...m, isSeen: true } : m)))
+        })
+
+        return () => {
+            stopMessages()
+            stopUpdates()
+            stopReceipts()
+        }
+    }, [meName, myUserId])
+
+    // Catch up on anything missed while the socket was down
+    useRealtimeReconnect(() => void refreshMessages())
+
     React.useEffect(() => {
         if (!showNewMessage) return
 
@@ -746,8 +762,17 @@ const StudentMessages: React.FC = () => {
     }, [conversationsFromMessages, token])
 
     const conversations = React.useMemo(() => {
-        const map = new Map<string, Conversation>()
-        for (const c of conversationsFromMessages) map.set(c.id, c)
+        // Server rows carry the unread count; loaded messages may hold a newer last message
+        const map = new Map<string, Conversation>(Object.entries(summaries))
+        for (const c of conversationsFromMessages) {
+            const summary = map.get(c.id)
+            const localIsNewer =
+                !summary?.lastTimestamp ||
+                (!!c.lastTimestamp && new Date(c.lastTimestamp).getTime() >= new Date(summary.lastTimestamp).getTime())
+
+            if (!summary) map.set(c.id, c)
+            else if (localIsNewer) map.set(c.id, { ...summary, lastMessage: c.lastMessage, lastTimestamp: c.lastTimestamp })
+        }
         for (const d of draftConversations) {
             if (!map.has(d.id)) map.set(d.id, d)
         }
@@ -761,7 +786,7 @@ const StudentMessages: React.FC = () => {
         })
 
         return merged
-    }, [conversationsFromMessages, draftConversations])
+    }, [summaries, conversationsFromMessages, draftConversations])
 
     const filteredConversations = React.useMemo(() => {
         const q = search.trim().toLowerCase()
@@ -783,7 +808,46 @@ const StudentMessages: React.FC = () => {
             .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
     }, [messages, activeConversationId])
 
-    const hasUnreadActive = React.useMemo(() => activeMessages.some((m) => m.isUnread), [activeMessages])
+    const hasUnreadActive = React.useMemo(
+        () => (activeConversation?.unreadCount ?? 0) > 0 || activeMessages.some((m) => m.isUnread),
+        [activeConversation, activeMessages],
+    )
+
+    const activeCounselorId = activeConversation?.counselorId ?? null
+    const activeHistory = historyFor(activeConversationId)
+    const lastActiveMessageId = activeMessages.length > 0 ? activeMessages[activeMessages.length - 1].id : null
+
+    React.useEffect(() => {
+        if (!activeConversationId || activeCounselorId == null) return
+        // Drafts have no history until the first message is sent
+        if (activeConversationId.startsWith("new-")) return
+
+        ensureLoaded(activeConversationId, activeCounselorId).catch((err) => {
+            toast.error(err instanceof Error ? err.message : "Failed to load this conversation.")
+        })
+    }, [activeConversationId, activeCounselorId, ensureLoaded])
+
+    // Follow the newest message only; older pages prepend without moving the view
+    React.useEffect(() => {
+        if (!activeConversationId) return
+        bottomRef.current?.scrollIntoView({ behavior: "smooth" })
+    }, [activeConversationId, lastActiveMessageId])
+
+    const loadOlderActive = React.useCallback(async () => {
+        if (!activeConversationId || activeCounselorId == null) return false
+        try {
+            return await loadOlder(activeConversationId, activeCounselorId)
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to load older messages.")
+            return false
+        }
+    }, [activeConversationId, activeCounselorId, loadOlder])
+
+    useLoadOlderOnScroll(topRef, {
+        enabled: activeHistory.hasMore && !activeHistory.loading,
+        onLoadOlder: loadOlderActive,
+        contentKey: activeMessages.length > 0 ? activeMessages[0].id : null,
+    })
 
     const isMineMessage = React.useCallback(
         (m: UiMessage) => {
@@ -796,8 +860,14 @@ const StudentMessages: React.FC = () => {
         [myUserId],
     )
 
-    const canEdit = React.useCallback((m: UiMessage) => isMineMessage(m), [isMineMessage])
-    const canDelete = React.useCallback((m: UiMessage) => isMineMessage(m), [isMineMessage])
+    // Own messages can be edited or deleted for everyone within the edit window;
+    // any message can be deleted for yourself.
+    const canEdit = React.useCallback(
+        (m: UiMessage) => isMineMessage(m) && !m.deletedAt && typeof m.id === "number" && isWithinEditWindow(m.createdAt),
+        [isMineMessage],
+    )
+    const canDelete = React.useCallback((m: UiMessage) => m.sender !== "system", [])
+    const canDeleteForEveryone = canEdit
 
     const markConversationReadById = React.useCallback(
         async (conversationId: string, opts?: { silent?: boolean }) => {
@@ -805,7 +875,8 @@ const StudentMessages: React.FC = () => {
             if (markInflightRef.current.has(conversationId)) return
 
             const unread = messages.filter((m) => m.conversationId === conversationId && m.isUnread)
-            if (unread.length === 0) return
+            const summary = summaries[conversationId] ?? null
+            if (unread.length === 0 && !(summary && summary.unreadCount > 0)) return
 
             markInflightRef.current.add(conversationId)
             try {
@@ -813,19 +884,28 @@ const StudentMessages: React.FC = () => {
                     .map((m) => (typeof m.id === "number" ? m.id : Number.NaN))
                     .filter((n) => Number.isInteger(n)) as number[]
 
-                try {
-                    if (numericIds.length > 0) {
-                        await (markStudentMessagesAsRead as any)(numericIds)
-                    } else {
+                // ✅ With the counselor id the server also clears unread messages not loaded yet
+                const counselorId = summary?.counselorId ?? null
+                if (counselorId != null) {
+                    await markStudentMessagesAsRead(undefined, counselorId)
+                } else {
+                    try {
+                        if (numericIds.length > 0) {
+                            await markStudentMessagesAsRead(numericIds)
+                        } else {
+                            await markStudentMessagesAsRead()
+                        }
+                    } catch {
                         await markStudentMessagesAsRead()
                     }
-                } catch {
-                    await markStudentMessagesAsRead()
                 }
 
                 setMessages((prev) =>
                     prev.map((m) => (m.conversationId === conversationId ? { ...m, isUnread: false } : m)),
                 )
+                setSummaries((prev) =>
+                    prev[conversationId] ? { ...prev, [conversationId]: { ...prev[conversationId], unreadCount: 0 } } : prev,
+                )
 
                 notifyCountersRefresh()
             } catch (err) {
@@ -836,7 +916,7 @@ const StudentMessages: React.FC = () => {
                 markInflightRef.current.delete(conversationId)
             }
         },
-        [messages],
+        [messages, summaries],
     )
 
     /**
@@ -908,7 +988,8 @@ const StudentMessages: React.FC = () => {
         openedConversationIdsRef.current.add(activeConversation.id)
 
         const text = draft.trim()
-        if (!text) return
+        const files = draftFiles
+        if (!text && files.length === 0) return
 
         const counselorId = activeConversation.counselorId ?? null
         if (!counselorId) {
@@ -927,6 +1008,8 @@ const StudentMessages: React.FC = () => {
             content: text,
             createdAt: nowIso,
             isUnread: false,
+            isSeen: false,
+            attachments: [],
 
             senderId: myUserId || null,
             userId: myUserId || null,
@@ -936,18 +1019,20 @@ const StudentMessages: React.FC = () => {
 
         setMessages((prev) => [...prev, optimistic])
         setDraft("")
+        setDraftFiles([])
         setIsSending(true)
 
         try {
-            const payload: any = {
+            const payload: SendStudentMessagePayload = {
                 content: text,
                 recipient_role: "counselor",
                 recipient_id: counselorId,
                 conversation_id: activeConversation.id,
+                attachments: files,
             }
 
-            const res = await (sendStudentMessage as any)(payload)
-            const dto = res?.messageRecord ?? null
+            const res = await sendStudentMessage(payload)
+            const dto = res.messageRecord ?? null
 
             if (dto) {
                 const serverMsg = mapDtoToUi(dto, meName, messages.length)
@@ -965,6 +1050,7 @@ const StudentMessages: React.FC = () => {
             void markConversationReadById(activeConversation.id, { silent: true })
         } catch (err) {
             setMessages((prev) => prev.filter((m) => m.id !== tempId))
+            setDraftFiles(files)
             toast.error(err instanceof Error ? err.message : "Failed to send your message.")
         } finally {
             setIsSending(false)
@@ -987,19 +1073,21 @@ const StudentMessages: React.FC = () => {
 
         const id = editingMessage.id
         const prevContent = editingMessage.content
+        const prevEditedAt = editingMessage.editedAt ?? null
 
         setIsSavingEdit(true)
-        setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: next } : m)))
+        setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: next, editedAt: new Date().toISOString() } : m)))
 
         try {
-            if (typeof id === "number") {
-                await tryUpdateMessageApi(id, next, token)
-            }
+            const saved = (await editMessage(id, next)).messageRecord
+            setMessages((prev) =>
+                prev.map((m) => (m.id === id ? { ...m, content: saved.content, editedAt: saved.edited_at ?? m.editedAt } : m)),
+            )
             setEditOpen(false)
             setEditingMessage(null)
             toast.success("Message updated.")
         } catch (err) {
-            setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: prevContent } : m)))
+            setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, content: prevContent, editedAt: prevEditedAt } : m)))
             toast.error(err instanceof Error ? err.message : "Failed to update message.")
         } finally {
             setIsSavingEdit(false)
@@ -1011,12 +1099,34 @@ const StudentMessages: React.FC = () => {
         setDeleteMsgOpen(true)
     }
 
-    const confirmDeleteMessage = async () => {
+    const confirmDeleteMessage = async (scope: MessageDeleteScope) => {
         if (!deletingMessage) return
 
         const target = deletingMessage
         setIsDeletingMsg(true)
 
+        if (scope === "everyone") {
+            try {
+                const res = await deleteMessage(target.id, "everyone")
+                setMessages((prev) =>
+                    prev.map((m) =>
+                        m.id === target.id
+                            ? { ...m, content: "", attachments: [], deletedAt: res.messageRecord?.deleted_at ?? new Date().toISOString() }
+                            : m,
+                    ),
+                )
+                toast.success("Message deleted for everyone.")
+                setDeleteMsgOpen(false)
+                setDeletingMessage(null)
+                void loadSummaries().catch(() => undefined)
+            } catch (err) {
+                toast.error(err instanceof Error ? err.message : "Failed to delete message.")
+            } finally {
+                setIsDeletingMsg(false)
+            }
+            return
+        }
+
         let removed: { msg: UiMessage; index: number } | null = null
 
         setMessages((prev) => {
@@ -1027,11 +1137,14 @@ const StudentMessages: React.FC = () => {
 
         try {
             if (typeof target.id === "number") {
-                await tryDeleteMessageApi(target.id, token)
+                await deleteMessage(target.id, "me")
             }
-            toast.success("Message deleted.")
+            toast.success("Message deleted for you.")
             setDeleteMsgOpen(false)
             setDeletingMessage(null)
+
+            // The deleted message may have been the thread's preview
+            void loadSummaries().catch(() => undefined)
         } catch (err) {
             if (removed) {
                 setMessages((prev) => {
@@ -1066,10 +1179,16 @@ const StudentMessages: React.FC = () => {
         const removedPayload = {
             messages: toDelete,
             draft: draftConversations.find((d) => d.id === convoId) ?? null,
+            summary: summaries[convoId] ?? null,
         }
 
         setMessages((prev) => prev.filter((m) => m.conversationId !== convoId))
         setDraftConversations((prev) => prev.filter((d) => d.id !== convoId))
+        setSummaries((prev) => {
+            const next = { ...prev }
+            delete next[convoId]
+            return next
+        })
 
         try {
             await tryDeleteConversationApi(convoId, numericIds, token)
@@ -1083,6 +1202,7 @@ const StudentMessages: React.FC = () => {
         } catch (err) {
             setMessages((prev) => [...prev, ...removedPayload.messages])
             if (removedPayload.draft) setDraftConversations((prev) => [removedPayload.draft!, ...prev])
+            if (removedPayload.summary) setSummaries((prev) => ({ ...prev, [convoId]: removedPayload.summary! }))
             toast.error(err instanceof Error ? err.message : "Failed to delete conversation.")
         } finally {
             setIsDeletingConvo(false)
@@ -1431,11 +1551,20 @@ const StudentMessages: React.FC = () => {
 
                                 <ScrollArea className="h-[480px] bg-linear-to-b from-muted/30 to-white sm:h-[520px]">
                                     <div className="space-y-3 p-3 sm:p-4">
+                                        <div ref={topRef} />
+                                        {activeConversation && activeMessages.length > 0 ? (
+                                            activeHistory.loading ? (
+                                                <div className="text-center text-xs text-muted-foreground">Loading messages…</div>
+                                            ) : activeHistory.loaded && !activeHistory.hasMore ? (
+                                                <div className="text-center text-xs text-muted-foreground">Start of conversation</div>
+                                            ) : null
+                                        ) : null}
+
                                         {!activeConversation ? (
                                             <div className="py-10 text-center text-sm text-muted-foreground">
                                                 Choose a counselor conversation.
                                             </div>
-                                        ) : isLoading ? (
+                                        ) : isLoading || (activeHistory.loading && activeMessages.length === 0) ? (
                                             <div className="space-y-3 py-6">
                                                 {Array.from({ length: 8 }).map((_, i) => (
                                                     <div key={i} className="flex items-start gap-2">
@@ -1484,6 +1613,17 @@ const StudentMessages: React.FC = () => {
                                                                     <span className="sm:hidden">{formatTimeOnly(m.createdAt)}</span>
                                                                     <span className="hidden sm:inline">{formatTimestamp(m.createdAt)}</span>
 
+                                                                    {m.editedAt && !m.deletedAt ? (
+                                                                        <span title={formatTimestamp(m.editedAt)}>(edited)</span>
+                                                                    ) : null}
+
+                                                                    {mine && m.isSeen ? (
+                                                                        <span className="inline-flex items-center gap-0.5 text-emerald-700">
+                                                                            <CheckCheck className="h-3 w-3" />
+                                                                            Seen
+                                                                        </span>
+                                                                    ) : null}
+
                                                                     {/* ✅ Removed in-thread NEW pill (matches counselor behavior) */}
 
                                                                     {(canEdit(m) || canDelete(m)) && (
@@ -1534,7 +1674,17 @@ const StudentMessages: React.FC = () => {
                                                                     bubble,
                                                                 )}
                                                             >
-                                                                {m.content}
+                                                                {m.deletedAt ? (
+                                                                    <span className="italic text-muted-foreground">{DELETED_MESSAGE_TEXT}</span>
+                                                                ) : (
+                                                                    <>
+                                                                        {m.content}
+                                                                        <MessageAttachmentList
+                                                                            attachments={m.attachments}
+                                                                            className={m.content ? "mt-2" : undefined}
+                                                                        />
+                                                                    </>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     </div>
@@ -1549,6 +1699,11 @@ const StudentMessages: React.FC = () => {
                                 <form onSubmit={handleSend} className="border-t bg-white/80 p-3 sm:p-4">
                                     <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:gap-2">
                                         <div className="flex-1">
+                                            <SelectedAttachments
+                                                files={draftFiles}
+                                                onRemove={(index) => setDraftFiles((prev) => prev.filter((_, i) => i !== index))}
+                                                disabled={isSending}
+                                            />
                                             <Textarea
                                                 ref={textareaRef}
                                                 value={draft}
@@ -1563,10 +1718,16 @@ const StudentMessages: React.FC = () => {
                                             />
                                         </div>
 
+                                        <AttachmentPickerButton
+                                            files={draftFiles}
+                                            onChange={setDraftFiles}
+                                            disabled={!activeConversation || isSending}
+                                        />
+
                                         <Button
                                             type="submit"
                                             className="h-11 w-full rounded-2xl px-5 sm:w-auto"
-                                            disabled={!activeConversation || isSending || !draft.trim()}
+                                            disabled={!activeConversation || isSending || (!draft.trim() && draftFiles.length === 0)}
                                         >
                                             {isSending ? "Sending…" : "Send"}
                                         </Button>
@@ -1582,7 +1743,9 @@ const StudentMessages: React.FC = () => {
                     <DialogContent>
                         <DialogHeader>
                             <DialogTitle>Edit message</DialogTitle>
-                            <DialogDescription>Update your message then save.</DialogDescription>
+                            <DialogDescription>
+                                Messages can be edited within {MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending. The other person sees that it was edited.
+                            </DialogDescription>
                         </DialogHeader>
 
                         <Textarea value={editDraft} onChange={(e) => setEditDraft(e.target.value)} className="min-h-28" />
@@ -1603,17 +1766,34 @@ const StudentMessages: React.FC = () => {
                     <AlertDialogContent>
                         <AlertDialogHeader>
                             <AlertDialogTitle>Delete message?</AlertDialogTitle>
-                            <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
+                            <AlertDialogDescription>
+                                {deletingMessage && canDeleteForEveryone(deletingMessage)
+                                    ? "Delete it from your inbox only, or for everyone in this conversation."
+                                    : "It will be removed from your inbox only. This action cannot be undone."}
+                            </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
                             <AlertDialogCancel disabled={isDeletingMsg}>Cancel</AlertDialogCancel>
                             <AlertDialogAction
-                                onClick={confirmDeleteMessage}
+                                onClick={() => void confirmDeleteMessage("me")}
                                 disabled={isDeletingMsg}
-                                className="bg-destructive text-white hover:bg-destructive/90"
+                                className={
+                                    deletingMessage && canDeleteForEveryone(deletingMessage)
+                                        ? undefined
+                                        : "bg-destructive text-white hover:bg-destructive/90"
+                                }
                             >
-                                {isDeletingMsg ? "Deleting…" : "Delete"}
+                                {isDeletingMsg ? "Deleting…" : "Delete for me"}
                             </AlertDialogAction>
+                            {deletingMessage && canDeleteForEveryone(deletingMessage) ? (
+                                <AlertDialogAction
+                                    onClick={() => void confirmDeleteMessage("everyone")}
+                                    disabled={isDeletingMsg}
+                                    className="bg-destructive text-white hover:bg-destructive/90"
+                                >
+                                    Delete for everyone
+                                </AlertDialogAction>
+                            ) : null}
                         </AlertDialogFooter>
                     </AlertDialogContent>
                 </AlertDialog>
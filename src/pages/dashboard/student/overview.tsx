@@ -18,9 +18,10 @@ import {
     ArrowRight,
 } from "lucide-react";
 import { toast } from "sonner";
+import { APPOINTMENT_STATUS_LABELS, normalizeAppointmentStatus } from "@/lib/appointment-status";
 import { fetchStudentAssessments, type StudentAssessment } from "@/lib/intake";
 import { fetchStudentEvaluations, type StudentEvaluation as StudentEvaluationEntry } from "@/lib/evaluation";
-import { fetchStudentMessages, type StudentMessage } from "@/lib/messages";
+import { fetchStudentConversations, type MessageConversation } from "@/lib/messages";
 import { format, parseISO, startOfToday, startOfMonth } from "date-fns";
 
 import {
@@ -64,25 +65,6 @@ type TrendDatum = {
     _sortDate: Date;
 };
 
-type UiSender = "student" | "guest" | "counselor" | "system";
-
-type UiMessage = {
-    id: number | string;
-    conversationId: string;
-
-    sender: UiSender;
-    senderName: string;
-    content: string;
-    createdAt: string;
-
-    senderId?: number | string | null;
-    recipientId?: number | string | null;
-    recipientRole?: string | null;
-    userId?: number | string | null;
-
-    isUnreadOffice: boolean; // unread + from counselor/system (matches overview + what students care about)
-};
-
 type ConversationSummary = {
     id: string;
     counselorId?: number | string | null;
@@ -139,26 +121,13 @@ function buildStatusPieData(evaluations: StudentEvaluationEntry[]): StatusPieDat
     const statusCounts: Record<string, number> = {};
 
     for (const evaluation of evaluations) {
-        const rawStatus = (evaluation.status ?? "pending").toString();
-        const normalized = rawStatus.toLowerCase();
-
-        const key =
-            normalized === "pending" ||
-                normalized === "in_review" ||
-                normalized === "scheduled" ||
-                normalized === "closed"
-                ? normalized
-                : "other";
-
+        const key = normalizeAppointmentStatus(evaluation.status);
         statusCounts[key] = (statusCounts[key] ?? 0) + 1;
     }
 
     const labelMap: Record<string, string> = {
-        pending: "Pending review",
-        in_review: "In review",
-        scheduled: "Scheduled",
-        closed: "Closed",
-        other: "Other",
+        ...APPOINTMENT_STATUS_LABELS,
+        requested: "Pending review",
     };
 
     return Object.entries(statusCounts)
@@ -205,124 +174,27 @@ function buildTrendData(evaluations: StudentEvaluationEntry[], assessments: Stud
     return all.slice(-6);
 }
 
-// ✅ Messages overview logic aligned with Messages page threading (conversation_id or derived)
-function normalizeSender(sender: StudentMessage["sender"]): UiSender {
-    if (sender === "student" || sender === "guest" || sender === "counselor" || sender === "system") return sender;
-    return "system";
-}
-
-function safeConversationIdStudent(dto: StudentMessage): string {
-    const raw = (dto as any).conversation_id ?? (dto as any).conversationId;
-    if (raw != null && String(raw).trim()) return String(raw);
-
-    const sender = normalizeSender(dto.sender);
-    const senderId = (dto as any).sender_id ?? null;
-
-    const recipientRole = (dto as any).recipient_role ?? null;
-    const recipientId = (dto as any).recipient_id ?? null;
-
-    const counselorId =
-        (sender === "counselor" ? senderId : null) ??
-        (recipientRole === "counselor" ? recipientId : null) ??
-        (dto as any).counselor_id ??
-        null;
-
-    if (counselorId != null && String(counselorId).trim()) return `counselor-${String(counselorId)}`;
-    return "counselor-office";
-}
-
-function mapDtoToUi(dto: StudentMessage, index: number): UiMessage {
-    const sender = normalizeSender(dto.sender);
-    const createdAt = dto.created_at ?? new Date(0).toISOString();
-    const fallbackId = `${createdAt}-${sender}-${index}`;
-
-    const senderName =
-        (dto.sender_name && String(dto.sender_name).trim()) ||
-        (sender === "system" ? "Guidance & Counseling Office" : sender === "counselor" ? "Counselor" : "You");
-
-    const isUnread = dto.is_read === false || dto.is_read === 0;
-    const isFromOffice = sender === "counselor" || sender === "system";
+// ✅ Messages overview: one summary per conversation (same threads as the Messages page)
+function toConversationSummary(c: MessageConversation): ConversationSummary {
+    const counselorName = c.peer_name && c.peer_name.trim() ? c.peer_name.trim() : `Counselor #${c.peer_id}`;
 
     return {
-        id: dto.id ?? fallbackId,
-        conversationId: safeConversationIdStudent(dto),
-
-        sender,
-        senderName,
-        content: dto.content ?? "",
-        createdAt,
-
-        senderId: (dto as any).sender_id ?? null,
-        recipientId: (dto as any).recipient_id ?? null,
-        recipientRole: (dto as any).recipient_role ?? null,
-        userId: (dto as any).user_id ?? null,
-
-        isUnreadOffice: Boolean(isFromOffice && isUnread),
+        id: String(c.peer_id),
+        counselorId: c.peer_id,
+        counselorName,
+        unreadCount: c.unread_count,
+        lastMessage: c.last_message.content,
+        lastTimestamp: c.last_message_at,
     };
 }
 
-function buildConversationSummaries(messages: StudentMessage[]): ConversationSummary[] {
-    const ui = messages.map((m, idx) => mapDtoToUi(m, idx));
-
-    const grouped = new Map<string, UiMessage[]>();
-    for (const m of ui) {
-        const arr = grouped.get(m.conversationId) ?? [];
-        arr.push(m);
-        grouped.set(m.conversationId, arr);
-    }
-
-    const summaries: ConversationSummary[] = [];
-
-    for (const [conversationId, msgs] of grouped.entries()) {
-        const ordered = [...msgs].sort((a, b) => {
-            const ta = new Date(a.createdAt).getTime();
-            const tb = new Date(b.createdAt).getTime();
-            if (ta !== tb) return ta - tb;
-            return String(a.id).localeCompare(String(b.id));
-        });
-
-        const last = ordered[ordered.length - 1];
-
-        const unreadCount = ordered.filter((m) => m.isUnreadOffice).length;
-
-        const counselorMsg = ordered.find((m) => m.sender === "counselor") ?? null;
-
-        const counselorId =
-            counselorMsg?.senderId ??
-            ordered.find((m) => m.recipientRole === "counselor" && m.recipientId != null)?.recipientId ??
-            (conversationId.startsWith("counselor-") ? conversationId.replace("counselor-", "") : null);
-
-        const counselorName =
-            (counselorMsg?.senderName && counselorMsg.senderName !== "Counselor" ? counselorMsg.senderName : "") ||
-            (counselorId != null ? `Counselor #${counselorId}` : "Guidance & Counseling Office");
-
-        summaries.push({
-            id: conversationId,
-            counselorId: counselorId ?? null,
-            counselorName,
-            unreadCount,
-            lastMessage: last?.content ?? "",
-            lastTimestamp: last?.createdAt ?? "",
-        });
-    }
-
-    summaries.sort((a, b) => {
+function buildConversationSummaries(conversations: MessageConversation[]): ConversationSummary[] {
+    return conversations.map(toConversationSummary).sort((a, b) => {
         if (a.unreadCount !== b.unreadCount) return b.unreadCount - a.unreadCount;
         const ta = a.lastTimestamp ? new Date(a.lastTimestamp).getTime() : 0;
         const tb = b.lastTimestamp ? new Date(b.lastTimestamp).getTime() : 0;
         return tb - ta;
     });
-
-    return summaries;
-}
-
-function countUnreadMessages(messages: StudentMessage[]): number {
-    return messages.filter((m) => {
-        const sender = (m.sender ?? "").toString();
-        const isFromOffice = sender === "counselor" || sender === "system";
-        const isUnread = m.is_read === false || m.is_read === 0;
-        return isFromOffice && isUnread;
-    }).length;
 }
 
 const StudentOverview: React.FC = () => {
@@ -356,22 +228,21 @@ const StudentOverview: React.FC = () => {
         setError(null);
 
         try {
-            const [assessmentsResponse, evaluationsResponse, messagesResponse] = await Promise.all([
+            const [assessmentsResponse, evaluationsResponse, conversations] = await Promise.all([
                 fetchStudentAssessments(),
                 fetchStudentEvaluations(),
-                fetchStudentMessages(),
+                fetchStudentConversations(),
             ]);
 
             const assessmentsData: StudentAssessment[] = assessmentsResponse.assessments ?? [];
             const evaluationsData: StudentEvaluationEntry[] = evaluationsResponse.appointments ?? [];
-            const messagesData: StudentMessage[] = messagesResponse.messages ?? [];
 
             setAssessments(assessmentsData);
             setEvaluations(evaluationsData);
 
-            // ✅ Messages aligned with Messages.tsx
-            const unread = countUnreadMessages(messagesData);
-            const convos = buildConversationSummaries(messagesData);
+            // ✅ Unread counts and previews come with the conversation list
+            const convos = buildConversationSummaries(conversations);
+            const unread = convos.reduce((sum, c) => sum + c.unreadCount, 0);
             const unreadThreads = convos.filter((c) => c.unreadCount > 0).length;
             const lastMessageAt = convos[0]?.lastTimestamp ? formatTimestampDisplay(convos[0].lastTimestamp) : null;
 
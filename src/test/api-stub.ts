@@ -0,0 +1,88 @@
+import { setApiTransport } from "@/api/client";
+
+/**
+ * Test double for the HTTP layer: route modules run their real `apiFetch` calls
+ * against `setApiTransport`, every request is recorded and answered by `reply`.
+ */
+
+export interface StubbedRequest {
+    method: string;
+    /** Path without base URL or query string, e.g. `/counselor/cases/5` */
+    path: string;
+    query: Record<string, string | string[]>;
+    /** Parsed JSON body, the raw `FormData`, or undefined */
+    body: unknown;
+    headers: Record<string, string>;
+}
+
+/** Non-2xx (or non-JSON) answer; plain values are sent as `200` JSON. */
+export class StubResponse {
+    status: number;
+    body: unknown;
+
+    constructor(status: number, body: unknown = null) {
+        this.status = status;
+        this.body = body;
+    }
+}
+
+export function stubStatus(status: number, body?: unknown): StubResponse {
+    return new StubResponse(status, body);
+}
+
+export type StubReply = (request: StubbedRequest) => unknown;
+
+function parseQuery(search: URLSearchParams): Record<string, string | string[]> {
+    const out: Record<string, string | string[]> = {};
+    search.forEach((value, key) => {
+        const prev = out[key];
+        out[key] = prev === undefined ? value : Array.isArray(prev) ? [...prev, value] : [prev, value];
+    });
+    return out;
+}
+
+function parseBody(body: unknown): unknown {
+    if (typeof body !== "string") return body ?? undefined;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+}
+
+/**
+ * Install the stub. `reply` may be a value (same answer for every request) or a
+ * function of the request. Returns the recorded requests (oldest first).
+ */
+export function stubApi(reply: StubReply | object | string | number | boolean | null = {}) {
+    const requests: StubbedRequest[] = [];
+    const answer: StubReply = typeof reply === "function" ? (reply as StubReply) : () => reply;
+
+    setApiTransport(async ({ url, init }) => {
+        const parsed = new URL(url);
+        const request: StubbedRequest = {
+            method: String(init.method ?? "GET").toUpperCase(),
+            path: parsed.pathname,
+            query: parseQuery(parsed.searchParams),
+            body: parseBody(init.body),
+            headers: { ...(init.headers as Record<string, string>) },
+        };
+        requests.push(request);
+
+        const result = answer(request);
+        const { status, body } = result instanceof StubResponse ? result : { status: 200, body: result };
+        const text = body == null ? "" : typeof body === "string" ? body : JSON.stringify(body);
+
+        return new Response(text || null, { status, headers: { "Content-Type": "application/json" } });
+    });
+
+    return {
+        requests,
+        /** The most recent request (throws when nothing was sent). */
+        last(): StubbedRequest {
+            const request = requests[requests.length - 1];
+            if (!request) throw new Error("No request was sent");
+            return request;
+        },
+    };
+}
@@ -0,0 +1,13 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+import { setApiTransport } from "@/api/client";
+import { clearSession } from "@/lib/authentication";
+
+afterEach(() => {
+    cleanup();
+    setApiTransport(null);
+    clearSession();
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+});
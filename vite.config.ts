@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react-swc"
@@ -11,4 +12,13 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
-})
\ No newline at end of file
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+    restoreMocks: true,
+    // Route modules resolve URLs against this; requests never leave the stubbed transport
+    env: {
+      VITE_API_LARAVEL_BASE_URL: "http://api.test",
+    },
+  },
+})